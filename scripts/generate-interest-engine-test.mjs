@@ -0,0 +1,115 @@
+// Writes test_interest_engine.sql from interest-engine-cases.json.
+// The expected rows come from buildRepaymentSchedule in src/utils/interestEngine.ts,
+// so the SQL test checks public.build_loan_schedule against the client engine itself
+// rather than against numbers pasted by hand. Re-run after changing either side:
+//   npm run generate:interest-test
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const cases = JSON.parse(readFileSync(resolve(root, 'scripts/interest-engine-cases.json'), 'utf8'));
+
+// The engine only imports types, so a plain transpile is enough to run it here
+const source = readFileSync(resolve(root, 'src/utils/interestEngine.ts'), 'utf8');
+const { outputText } = ts.transpileModule(source, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+});
+const { buildRepaymentSchedule } = await import(
+  `data:text/javascript;base64,${Buffer.from(outputText).toString('base64')}`
+);
+
+const money = (value) => value.toFixed(2);
+const sqlText = (value) => `'${String(value).replace(/'/g, "''")}'`;
+
+const scheduleTest = (testCase, number) => {
+  const rows = buildRepaymentSchedule(testCase).map(row =>
+    `        (${row.installment_number}, DATE '${row.due_date}', ${money(row.principal_amount)}, ` +
+    `${money(row.interest_amount)}, ${money(row.total_amount)}, ${money(row.balance_after)})`
+  );
+  const args = [
+    testCase.principal,
+    testCase.interestRate,
+    sqlText(testCase.interestMethod),
+    testCase.installmentCount,
+    sqlText(testCase.installmentType),
+    `DATE '${testCase.issueDate}'`,
+  ].join(', ');
+
+  return `-- Test ${number}: ${testCase.title}
+DO $$
+BEGIN
+  IF EXISTS (
+    WITH expected(installment_number, due_date, principal_amount, interest_amount, total_amount, balance_after) AS (
+      VALUES
+${rows.join(',\n')}
+    ),
+    actual AS (
+      SELECT * FROM public.build_loan_schedule(${args})
+    )
+    (SELECT * FROM expected EXCEPT SELECT * FROM actual)
+    UNION ALL
+    (SELECT * FROM actual EXCEPT SELECT * FROM expected)
+  ) THEN
+    RAISE EXCEPTION 'Test ${number} failed: build_loan_schedule disagrees with the client engine (%)', ${sqlText(testCase.title)};
+  END IF;
+END $$;
+`;
+};
+
+const header = `-- Interest engine parity test
+-- GENERATED by scripts/generate-interest-engine-test.mjs: edit the cases in
+-- scripts/interest-engine-cases.json, not this file.
+-- Expected rows are produced by buildRepaymentSchedule in src/utils/interestEngine.ts.
+-- Each block raises an exception when public.build_loan_schedule disagrees with the
+-- client engine or the stored data; the script finishes silently when everything matches.
+`;
+
+const storedDataTests = (first) => `-- Test ${first}: calculate_loan_details matches the engine's total interest for every product
+DO $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  SELECT lp.code INTO v_code
+  FROM public.loan_products lp
+    CROSS JOIN LATERAL public.calculate_loan_details(lp.min_amount + 1000, lp.code) d
+    CROSS JOIN LATERAL public.build_loan_schedule(
+      lp.min_amount + 1000, lp.interest_rate, lp.interest_method, lp.term_lengths[1], lp.allowed_installment_types[1]
+    ) s
+  GROUP BY lp.code, d.interest_amount
+  HAVING d.interest_amount <> SUM(s.interest_amount)
+  LIMIT 1;
+
+  IF v_code IS NOT NULL THEN
+    RAISE EXCEPTION 'Test ${first} failed: calculate_loan_details disagrees with the schedule for product %', v_code;
+  END IF;
+END $$;
+
+-- Test ${first + 1}: stored installments add back up to each loan's principal
+DO $$
+DECLARE
+  v_loan_id UUID;
+BEGIN
+  SELECT l.id INTO v_loan_id
+  FROM public.loans l
+    JOIN public.loan_installments i ON i.loan_id = l.id
+  GROUP BY l.id, l.principal_amount
+  HAVING SUM(i.principal_amount) <> l.principal_amount
+  LIMIT 1;
+
+  IF v_loan_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Test ${first + 1} failed: installments of loan % do not add up to its principal', v_loan_id;
+  END IF;
+END $$;
+`;
+
+const output = [
+  header,
+  ...cases.map((testCase, idx) => scheduleTest(testCase, idx + 1)),
+  storedDataTests(cases.length + 1),
+].join('\n');
+
+writeFileSync(resolve(root, 'test_interest_engine.sql'), output);
+console.log(`Wrote test_interest_engine.sql with ${cases.length} schedule cases`);
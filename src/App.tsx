@@ -2,9 +2,12 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { NotificationProvider } from "@/contexts/NotificationContext";
+import { BranchProvider } from "@/contexts/BranchContext";
 import AppLayout from "@/components/AppLayout"; // Using your original path
 
 // --- Using all your original page component imports ---
@@ -17,6 +20,7 @@ import Groups from "@/pages/Groups";
 import GroupDetails from "@/pages/GroupDetails";
 import GroupEdit from "@/pages/GroupEdit";
 import GroupMembers from "@/pages/GroupMembers";
+import GroupMeeting from "@/pages/GroupMeeting";
 import BulkPayment from "@/pages/BulkPayment";
 import Members from "@/pages/MembersPage";
 import MemberFormPage from './pages/MemberFormPage';
@@ -47,41 +51,66 @@ import LoanApprovals from "@/pages/LoanApprovals";
 import MfaEnroll from "@/pages/MfaEnroll";
 import MfaPrompt from "@/pages/MfaPrompt";
 import SecurityMfa from "@/pages/SecurityMfa";
+import MfaEnrollment from "@/pages/MfaEnrollment";
 import { useAuth } from "@/contexts/AuthContext";
+import { fetchMfaSessionStatus } from "@/utils/mfa";
+import type { MfaSessionStatus } from "@/types";
 import ActivityLogs from "@/pages/ActivityLogs";
+import AuditTrail from "@/pages/AuditTrail";
+import RolePermissions from "@/pages/RolePermissions";
+import { RequirePermission } from "@/components/RequirePermission";
 import Backups from "@/pages/Backups";
 import LoanOfficers from "@/pages/LoanOfficers";
+import LoanProducts from "@/pages/LoanProducts";
+import LoanApprovalRules from "@/pages/LoanApprovalRules";
+import DisbursementQueue from "@/pages/DisbursementQueue";
+import PaymentSuspense from "@/pages/PaymentSuspense";
+import SmsOutbox from "@/pages/SmsOutbox";
+import ScheduledReports from "@/pages/ScheduledReports";
+import PortfolioAtRisk from "@/pages/PortfolioAtRisk";
+import FinancialStatements from "@/pages/FinancialStatements";
+import StatementReconciliation from "@/pages/StatementReconciliation";
+import ReconciliationDetails from "@/pages/ReconciliationDetails";
+import LoanLossProvisioning from "@/pages/LoanLossProvisioning";
+import TrialBalance from "@/pages/TrialBalance";
+import PendingChanges from "@/pages/PendingChanges";
 
 const queryClient = new QueryClient();
 
+// Sends users whose role the MFA policy covers to enrol or verify before the app loads.
+// The AAL check runs on the server; the core tables enforce the same policy.
 const RequireMfa: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // MFA temporarily disabled for easier initial setup
-  // const { user } = useAuth();
-  // const location = useLocation();
-  // const inMfa = location.pathname.startsWith('/mfa');
-  // Check a short-lived local flag indicating MFA verification for this user
-  // const isMfaVerified = (() => {
-  //   try {
-  //     if (!user) return false;
-  //     const key = `mfa_verified_${user.id}`;
-  //     const raw = localStorage.getItem(key);
-  //     if (!raw) return false;
-  //     const parsed = JSON.parse(raw || '{}');
-  //     const expiresAt = typeof parsed.expiresAt === 'number' ? parsed.expiresAt : 0;
-  //     if (Date.now() > expiresAt) {
-  //       localStorage.removeItem(key);
-  //       return false;
-  //     }
-  //     return true;
-  //   } catch {
-  //     return false;
-  //   }
-  // })();
+  const { user, session } = useAuth();
+  const location = useLocation();
+  const [status, setStatus] = useState<MfaSessionStatus | null>(null);
+  const [checking, setChecking] = useState(true);
+  const userId = user?.id;
+  const accessToken = session?.access_token;
 
-  // Require MFA for any authenticated user - DISABLED
-  // if (user && !inMfa && !isMfaVerified) {
-  //   return <Navigate to="/mfa" replace state={{ from: location.pathname }} />;
-  // }
+  useEffect(() => {
+    if (!userId) {
+      setStatus(null);
+      setChecking(false);
+      return;
+    }
+    let cancelled = false;
+    setChecking(true);
+    fetchMfaSessionStatus()
+      .then(result => { if (!cancelled) setStatus(result); })
+      // Leave the app usable if the check itself fails; the database still refuses aal1 sessions
+      .catch(() => { if (!cancelled) setStatus(null); })
+      .finally(() => { if (!cancelled) setChecking(false); });
+    return () => { cancelled = true; };
+  }, [userId, accessToken]);
+
+  // Token refreshes re-check in the background without unmounting the app
+  if (user && checking && !status) {
+    return <div className="flex justify-center items-center h-screen"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  if (user && status && !status.satisfied) {
+    return <Navigate to={status.enrolled ? '/mfa' : '/mfa/enroll'} replace state={{ from: location.pathname }} />;
+  }
   return <>{children}</>;
 };
 
@@ -89,6 +118,7 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
       <NotificationProvider>
+      <BranchProvider>
         <TooltipProvider>
         <Toaster />
         <Sonner />
@@ -108,6 +138,7 @@ const App = () => (
                 <Route path="groups/:groupId" element={<GroupDetails />} />
                 <Route path="groups/:groupId/edit" element={<GroupEdit />} />
                 <Route path="groups/:groupId/members" element={<GroupMembers />} />
+                <Route path="groups/:groupId/meetings" element={<GroupMeeting />} />
                 <Route path="bulk-payment" element={<BulkPayment />} />
                 <Route path="members" element={<Members />} />
                 <Route path="members/new" element={<MemberFormPage />} />
@@ -119,9 +150,14 @@ const App = () => (
                 <Route path="loans" element={<LoanAccounts />} /> 
                 <Route path="loans/new" element={<LoanFormPage />} /> 
                 <Route path="loans/approvals" element={<LoanApprovals />} />
+                <Route path="loans/disbursements" element={<DisbursementQueue />} />
+                <Route path="loans/changes" element={<PendingChanges />} />
+                <Route path="loan-products" element={<LoanProducts />} />
+                <Route path="loan-approval-rules" element={<LoanApprovalRules />} />
                 <Route path="loans/:id" element={<LoanDetailsPage />} />
-                <Route path="loans/:id/edit" element={<LoanFormPage />} /> 
+                <Route path="loans/:id/edit" element={<RequirePermission permission="loans.edit"><LoanFormPage /></RequirePermission>} /> 
                 <Route path="receive-payments" element={<ReceivePayments />} />
+                <Route path="payments/suspense" element={<PaymentSuspense />} />
                 
                 <Route path="daily-overdue" element={<DailyOverdue />} />
                 <Route path="realizable-report" element={<RealizableReport />} />
@@ -129,6 +165,9 @@ const App = () => (
                 <Route path="realizable-assets/:id/edit" element={<AssetFormPage />} />
                 <Route path="dormant-members" element={<DormantMembers />} />
                 <Route path="bad-debt" element={<BadDebt />} />
+                <Route path="scheduled-reports" element={<ScheduledReports />} />
+                <Route path="portfolio-at-risk" element={<PortfolioAtRisk />} />
+                <Route path="financial-statements" element={<FinancialStatements />} />
                 
                 <Route path="profile" element={<Profile />} />
                 <Route path="settings" element={<Settings />} />
@@ -140,21 +179,30 @@ const App = () => (
                 <Route path="users/:id/permissions" element={<UserPermissionsPage />} />
                 
                 <Route path="security" element={<Security />} />
+                <Route path="security/mfa-enrollment" element={<MfaEnrollment />} />
                 <Route path="branches" element={<Branches />} />
                 <Route path="activity-logs" element={<ActivityLogs />} />
-                <Route path="backups" element={<Backups />} />
+                <Route path="audit-trail" element={<RequirePermission permission="audit.view"><AuditTrail /></RequirePermission>} />
+                <Route path="roles" element={<RequirePermission permission="users.manage_permissions"><RolePermissions /></RequirePermission>} />
+                <Route path="backups" element={<RequirePermission permission="backups.view"><Backups /></RequirePermission>} />
                 <Route path="loan-officers" element={<LoanOfficers />} />
                 <Route path="transactions" element={<Transactions />} />
                 <Route path="transactions/:id" element={<TransactionDetails />} />
+                <Route path="reconciliation" element={<StatementReconciliation />} />
+                <Route path="reconciliation/:id" element={<ReconciliationDetails />} />
+                <Route path="provisioning" element={<LoanLossProvisioning />} />
+                <Route path="trial-balance" element={<TrialBalance />} />
                 <Route path="expenses" element={<ExpensesPage />} />
                 <Route path="income" element={<IncomePage />} />
                 <Route path="notifications" element={<Notifications />} />
+                <Route path="sms" element={<SmsOutbox />} />
               </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
           </div>
         </BrowserRouter>
         </TooltipProvider>
+      </BranchProvider>
       </NotificationProvider>
     </AuthProvider>
   </QueryClientProvider>
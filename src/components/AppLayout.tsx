@@ -5,10 +5,13 @@ import { AppSidebar } from '@/components/AppSidebar';
 import { PageLoader } from '@/components/ui/loader';
 import { ProfileDropdown } from '@/components/ProfileDropdown';
 import Notifications from '@/components/Notifications';
+import { BranchSwitcher } from '@/components/BranchSwitcher';
+import { useBranch } from '@/hooks/useBranch';
 import { useEffect, useRef } from 'react';
 
 const AppLayout = () => {
   const { user, loading, userRole } = useAuth();
+  const { activeBranchId } = useBranch();
   const location = useLocation();
   const mainRef = useRef<HTMLElement>(null);
 
@@ -69,6 +72,7 @@ const AppLayout = () => {
               <span className="text-xs sm:text-sm text-muted-foreground hidden sm:block">
                  {formatRoleDisplay(userRole)}
                </span>
+              <BranchSwitcher />
               <Notifications />
               <ProfileDropdown />
             </div>
@@ -76,7 +80,8 @@ const AppLayout = () => {
 
           {/* Main Content - Ensure top is visible first */}
           <main ref={mainRef} className="flex-1 p-2 sm:p-4 md:p-6 bg-background/50 overflow-x-hidden mt-20">
-            <Outlet />
+            {/* Remount the page on a branch switch so it reloads under the new scope */}
+            <Outlet key={activeBranchId ?? 'all'} />
           </main>
         </div>
       </div>
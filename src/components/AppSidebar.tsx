@@ -77,6 +77,9 @@ export function AppSidebar() {
   const visibleNavGroups = sidebarConfig.map(group => ({
     ...group,
     items: group.items.filter(item => {
+      if (item.requiredPermission) {
+        return hasPermission(item.requiredPermission);
+      }
       // Check if user's role is in the required roles list
       if (item.requiredRoles && userRole) {
         return item.requiredRoles.includes(userRole as UserRole);
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { useBranch } from '@/hooks/useBranch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const ALL_BRANCHES = 'all';
+
+export const BranchSwitcher: React.FC = () => {
+  const { branches, activeBranchId, hasAllBranches, switchBranch } = useBranch();
+
+  if (branches.length === 0) return null;
+
+  // Nothing to switch between: just say which branch this is
+  if (branches.length === 1 && !hasAllBranches) {
+    return (
+      <span className="hidden md:flex items-center gap-1 text-xs sm:text-sm text-muted-foreground">
+        <Building2 className="h-4 w-4" />
+        {branches[0].branch_name}
+      </span>
+    );
+  }
+
+  return (
+    <Select
+      value={activeBranchId === null ? ALL_BRANCHES : String(activeBranchId)}
+      onValueChange={(value) => switchBranch(value === ALL_BRANCHES ? null : Number(value))}
+    >
+      <SelectTrigger className="h-9 w-36 sm:w-48" aria-label="Branch">
+        <Building2 className="h-4 w-4 mr-1 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_BRANCHES}>{hasAllBranches ? 'All branches' : 'All my branches'}</SelectItem>
+        {branches.map(branch => (
+          <SelectItem key={branch.branch_id} value={String(branch.branch_id)}>
+            {branch.branch_name}{branch.is_home ? ' (home)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
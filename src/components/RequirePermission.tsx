@@ -0,0 +1,59 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import type { Permission } from '@/config/permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, RefreshCw, ShieldAlert } from 'lucide-react';
+
+interface RequirePermissionProps {
+  permission: Permission | Permission[];
+  children: React.ReactNode;
+}
+
+// Route guard: renders the page only for users holding the permission(s)
+export const RequirePermission: React.FC<RequirePermissionProps> = ({ permission, children }) => {
+  const { loading, permissionsLoading, permissionsError, refreshPermissions } = useAuth();
+  const allowed = usePermission(permission);
+
+  if (loading || (permissionsLoading && !allowed)) {
+    return <div className="flex justify-center items-center h-64"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  // Not knowing the user's permissions is not the same as them lacking this one
+  if (!allowed && permissionsError) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-red-500" />
+            <CardTitle className="mt-4">Permissions Not Loaded</CardTitle>
+            <CardDescription>Your permissions could not be loaded ({permissionsError}). Check your connection and try again.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center">
+            <Button onClick={() => void refreshPermissions()} className="gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Retry
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!allowed) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view this page. Ask an administrator if you need access.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
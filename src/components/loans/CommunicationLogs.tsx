@@ -115,6 +115,8 @@ export const CommunicationLogs: React.FC<CommunicationLogsProps> = ({
       const transformedLogs = (data || []).map(log => {
         // Type assertion to handle the profiles join
         const logData = log as any;
+        // Messages sent by the SMS outbox have no officer
+        const isAutomatedSms = !logData.officer_id && logData.communication_type === 'SMS';
         return {
           id: logData.id,
           member_id: logData.member_id,
@@ -128,8 +130,8 @@ export const CommunicationLogs: React.FC<CommunicationLogsProps> = ({
           updated_at: logData.updated_at,
           member_name: memberName || 'Unknown Member',
           branch_name: 'Unknown Branch', // We'll get this from the parent component
-          officer_name: logData.profiles?.full_name || 'Unknown Officer',
-          officer_role: 'Unknown Role' // We don't have role info from profiles
+          officer_name: isAutomatedSms ? 'SMS Gateway' : (logData.profiles?.full_name || 'Unknown Officer'),
+          officer_role: isAutomatedSms ? 'Automated' : 'Unknown Role' // We don't have role info from profiles
         };
       });
       
@@ -8,9 +8,12 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { AlertTriangle, Trash2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { usePermission } from '@/hooks/usePermission';
+import { requestLoanDeletion } from '@/utils/pendingChanges';
 import { toast } from 'sonner';
 
 interface DeleteLoanDialogProps {
@@ -31,38 +34,39 @@ export const DeleteLoanDialog: React.FC<DeleteLoanDialogProps> = ({
   loan,
   onDeleted,
 }) => {
-  const { user, userRole } = useAuth();
+  const { user } = useAuth();
+  const canDelete = usePermission('loans.delete');
   const [isDeleting, setIsDeleting] = useState(false);
+  const [reason, setReason] = useState('');
 
   const handleDelete = async () => {
-    if (!user || userRole !== 'super_admin') {
+    if (!user || !canDelete) {
       toast.error('Access Denied', {
-        description: 'Only Super Admins can delete loans.',
+        description: 'You do not have permission to delete loans.',
       });
       return;
     }
 
+    if (!reason.trim()) {
+      toast.warning('Give a reason for deleting this loan.');
+      return;
+    }
+
     try {
       setIsDeleting(true);
 
-      const { error } = await supabase.rpc('delete_loan' as any, {
-        loan_id: loan.id,
-        admin_user_id: user.id,
-      });
+      await requestLoanDeletion(loan.id, reason.trim());
 
-      if (error) {
-        throw error;
-      }
-
-      toast.success('Loan Deleted', {
-        description: `Loan ${loan.account_number} has been permanently deleted.`,
+      toast.success('Deletion Requested', {
+        description: `Loan ${loan.account_number} will be deleted once another authorised user approves.`,
       });
 
+      setReason('');
       onDeleted();
       onClose();
     } catch (error: any) {
-      console.error('Error deleting loan:', error);
-      toast.error('Failed to Delete Loan', {
+      console.error('Error requesting loan deletion:', error);
+      toast.error('Failed to Request Deletion', {
         description: error.message || 'An unexpected error occurred.',
       });
     } finally {
@@ -70,7 +74,7 @@ export const DeleteLoanDialog: React.FC<DeleteLoanDialogProps> = ({
     }
   };
 
-  if (userRole !== 'super_admin') {
+  if (!canDelete) {
     return null;
   }
 
@@ -84,7 +88,7 @@ export const DeleteLoanDialog: React.FC<DeleteLoanDialogProps> = ({
           </DialogTitle>
           <DialogDescription className="space-y-2">
             <p>
-              Are you sure you want to permanently delete this loan? This action cannot be undone.
+              Deleting a loan needs a second approval. The loan stays as it is until another authorised user approves the request.
             </p>
             <div className="bg-destructive/10 p-3 rounded-md">
               <p className="text-sm font-medium">Loan Details:</p>
@@ -96,6 +100,16 @@ export const DeleteLoanDialog: React.FC<DeleteLoanDialogProps> = ({
             </div>
           </DialogDescription>
         </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="delete-loan-reason">Reason</Label>
+          <Textarea
+            id="delete-loan-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why should this loan be deleted? e.g. created twice for the same member"
+            disabled={isDeleting}
+          />
+        </div>
         <DialogFooter className="gap-2">
           <Button variant="outline" onClick={onClose} disabled={isDeleting}>
             Cancel
@@ -103,11 +117,11 @@ export const DeleteLoanDialog: React.FC<DeleteLoanDialogProps> = ({
           <Button
             variant="destructive"
             onClick={handleDelete}
-            disabled={isDeleting}
+            disabled={isDeleting || !reason.trim()}
             className="gap-2"
           >
             <Trash2 className="h-4 w-4" />
-            {isDeleting ? 'Deleting...' : 'Delete Loan'}
+            {isDeleting ? 'Submitting...' : 'Request Deletion'}
           </Button>
         </DialogFooter>
       </DialogContent>
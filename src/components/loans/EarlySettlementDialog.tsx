@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LoanSettlementQuote, SettlementPaymentMethod } from '@/types';
+import { fetchSettlementQuote, REBATE_POLICY_LABELS, settleLoanEarly } from '@/utils/settlement';
+import { generateSettlementQuotePDF } from '@/utils/pdfGenerator';
+
+interface EarlySettlementDialogProps {
+  open: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  loan: {
+    id: string;
+    account_number: string;
+    member_name: string;
+    branch_name: string;
+    loan_officer_name: string | null;
+  };
+  canRecordPayment: boolean;
+  onSettled: () => void;
+}
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const EarlySettlementDialog: React.FC<EarlySettlementDialogProps> = ({ open, onOpenChange, loan, canRecordPayment, onSettled }) => {
+  const [asOfDate, setAsOfDate] = useState(today());
+  const [quote, setQuote] = useState<LoanSettlementQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<SettlementPaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSettling, setIsSettling] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAsOfDate(today());
+      setPaymentMethod('cash');
+      setReference('');
+      setNotes('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !asOfDate) return;
+    let cancelled = false;
+    const loadQuote = async () => {
+      setIsQuoting(true);
+      try {
+        const result = await fetchSettlementQuote(loan.id, asOfDate);
+        if (!cancelled) setQuote(result);
+      } catch (error: any) {
+        if (!cancelled) {
+          setQuote(null);
+          toast.error('Failed to calculate settlement quote', { description: error.message });
+        }
+      } finally {
+        if (!cancelled) setIsQuoting(false);
+      }
+    };
+    loadQuote();
+    return () => { cancelled = true; };
+  }, [open, asOfDate, loan.id]);
+
+  const handleDownload = () => {
+    if (!quote) return;
+    generateSettlementQuotePDF({
+      loanAccount: loan.account_number,
+      memberName: loan.member_name,
+      branch: loan.branch_name,
+      loanOfficer: loan.loan_officer_name || 'N/A',
+      asOfDate: quote.as_of_date,
+      rebatePolicy: REBATE_POLICY_LABELS[quote.rebate_policy],
+      principalOutstanding: quote.principal_outstanding,
+      interestOutstanding: quote.interest_outstanding,
+      feesOutstanding: quote.fees_outstanding,
+      interestRebate: quote.interest_rebate,
+      penaltiesOutstanding: quote.penalties_outstanding,
+      settlementAmount: quote.settlement_amount,
+      remainingInstallments: quote.remaining_installments,
+    });
+  };
+
+  const handleSettle = async () => {
+    if (!quote) return;
+    setIsSettling(true);
+    try {
+      await settleLoanEarly(loan.id, {
+        as_of_date: quote.as_of_date,
+        amount: quote.settlement_amount,
+        payment_method: paymentMethod,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success('Loan settled', { description: `${formatCurrency(quote.settlement_amount)} received and the loan is closed.` });
+      onOpenChange(false);
+      onSettled();
+    } catch (error: any) {
+      toast.error('Failed to settle loan', { description: error.message });
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  const isFutureDate = asOfDate > today();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Early Settlement Quote</DialogTitle>
+          <DialogDescription>
+            What {loan.member_name} must pay to close loan {loan.account_number} on the chosen date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="settlement-date">Settlement date</Label>
+            <Input id="settlement-date" type="date" value={asOfDate} onChange={(e) => setAsOfDate(e.target.value)} />
+          </div>
+
+          {isQuoting ? (
+            <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin" /></div>
+          ) : quote && (
+            <div className="rounded-md border p-3 space-y-2 text-sm">
+              <QuoteLine label="Outstanding principal" value={quote.principal_outstanding} />
+              <QuoteLine label="Outstanding interest" value={quote.interest_outstanding} />
+              {quote.fees_outstanding > 0 && <QuoteLine label="Outstanding fees" value={quote.fees_outstanding} />}
+              <QuoteLine
+                label={`Interest rebate (${REBATE_POLICY_LABELS[quote.rebate_policy]}${quote.rebate_policy !== 'none' && quote.rebate_percent < 100 ? `, ${quote.rebate_percent}%` : ''})`}
+                value={-quote.interest_rebate}
+              />
+              {quote.penalties_outstanding > 0 && <QuoteLine label="Accrued penalties" value={quote.penalties_outstanding} />}
+              <Separator />
+              <div className="flex justify-between text-base font-semibold">
+                <span>Settlement amount</span>
+                <span>{formatCurrency(quote.settlement_amount)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Closes {quote.remaining_installments} remaining installment(s).
+                {quote.unearned_interest > 0 && ` Unearned interest on this date: ${formatCurrency(quote.unearned_interest)}.`}
+              </p>
+            </div>
+          )}
+
+          {canRecordPayment && quote && !isFutureDate && (
+            <div className="space-y-3 rounded-md border p-3">
+              <p className="text-sm font-medium">Record settlement payment</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Payment method</Label>
+                  <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as SettlementPaymentMethod)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                      <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                      <SelectItem value="check">Cheque</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-reference">Reference</Label>
+                  <Input
+                    id="settlement-reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="Generated if left blank"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settlement-notes">Notes</Label>
+                <Input id="settlement-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+          )}
+          {canRecordPayment && isFutureDate && (
+            <p className="text-xs text-muted-foreground">Settlements can only be recorded for today or an earlier date.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDownload} disabled={!quote || isQuoting}>
+            <Download className="mr-2 h-4 w-4" />
+            Download Quote
+          </Button>
+          {canRecordPayment && (
+            <Button onClick={handleSettle} disabled={!quote || isQuoting || isFutureDate || isSettling}>
+              {isSettling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Settlement
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const QuoteLine: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <div className="flex justify-between">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="font-medium">{value < 0 ? `- ${formatCurrency(-value)}` : formatCurrency(value)}</span>
+  </div>
+);
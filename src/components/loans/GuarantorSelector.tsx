@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { GuarantorCandidate, GuarantorSelection } from '@/types';
+import { fetchGuarantorCandidates } from '@/utils/guarantors';
+
+interface GuarantorSelectorProps {
+  groupId: number;
+  borrowerId: string;
+  value: GuarantorSelection[];
+  onChange: (guarantors: GuarantorSelection[]) => void;
+}
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+export const GuarantorSelector: React.FC<GuarantorSelectorProps> = ({ groupId, borrowerId, value, onChange }) => {
+  const [candidates, setCandidates] = useState<GuarantorCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadCandidates = async () => {
+      setLoading(true);
+      try {
+        const members = await fetchGuarantorCandidates(groupId, borrowerId);
+        if (!cancelled) setCandidates(members);
+      } catch (error: any) {
+        if (!cancelled) toast.error('Failed to load group members', { description: error.message });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadCandidates();
+    return () => { cancelled = true; };
+  }, [groupId, borrowerId]);
+
+  const toggle = (candidate: GuarantorCandidate, checked: boolean) => {
+    onChange(checked
+      ? [...value, { member_id: candidate.id, full_name: candidate.full_name, amount: 0 }]
+      : value.filter(g => g.member_id !== candidate.id));
+  };
+
+  const setAmount = (memberId: string, amount: string) => {
+    onChange(value.map(g => g.member_id === memberId ? { ...g, amount: Number(amount) || 0 } : g));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (candidates.length === 0) {
+    return <p className="text-sm text-muted-foreground">No other active members in this group can guarantee the loan.</p>;
+  }
+
+  return (
+    <div className="border rounded-md divide-y max-h-72 overflow-y-auto">
+      {candidates.map(candidate => {
+        const selection = value.find(g => g.member_id === candidate.id);
+        return (
+          <div key={candidate.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3">
+            <label className="flex items-center gap-3 cursor-pointer">
+              <Checkbox
+                checked={!!selection}
+                onCheckedChange={(checked) => toggle(candidate, checked === true)}
+              />
+              <div>
+                <div className="font-medium">{candidate.full_name}</div>
+                <div className="text-xs text-muted-foreground">Savings {formatCurrency(candidate.savings_balance)}</div>
+              </div>
+            </label>
+            {selection && (
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                className="sm:w-40"
+                placeholder="Amount guaranteed"
+                value={selection.amount || ''}
+                onChange={(e) => setAmount(candidate.id, e.target.value)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -10,6 +10,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Calendar, Download, DollarSign, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { generatePaymentReceipt, generateInstallmentSchedulePDF } from '@/utils/pdfGenerator';
+import { describeTerm } from '@/utils/loanProducts';
+import { buildRepaymentSchedule, roundMoney } from '@/utils/interestEngine';
+import type { InterestMethod } from '@/types';
 
 interface InstallmentSchedule {
   installment_number: number;
@@ -17,7 +20,7 @@ interface InstallmentSchedule {
   principal_amount: number;
   interest_amount: number;
   total_amount: number;
-  status: 'pending' | 'paid' | 'overdue';
+  status: 'pending' | 'paid' | 'overdue' | 'rescheduled';
   paid_amount?: number;
   paid_date?: string;
   payment_reference?: string;
@@ -27,12 +30,17 @@ interface Loan {
   id: string;
   principal_amount: number;
   interest_disbursed: number;
+  interest_rate?: number;
+  interest_method?: InterestMethod;
   total_disbursed: number;
   issue_date: string;
   loan_program: string;
+  loan_product_name?: string;
   installment_type: string;
+  installment_count?: number;
   current_balance: number;
   total_paid: number;
+  restructure_count?: number;
   member_name?: string;
   loan_officer_name?: string;
   branch_name?: string;
@@ -42,9 +50,11 @@ interface Loan {
 interface InstallmentScheduleTabProps {
   loan: Loan;
   onPaymentSuccess: (amount: number) => void;
+  // Outstanding late-payment penalties keyed by installment number
+  penaltiesByInstallment?: Record<number, number>;
 }
 
-export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({ loan, onPaymentSuccess }) => {
+export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({ loan, onPaymentSuccess, penaltiesByInstallment = {} }) => {
   const [installments, setInstallments] = useState<InstallmentSchedule[]>([]);
   const [loading, setLoading] = useState(true);
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
@@ -52,60 +62,84 @@ export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({
   const [paymentAmount, setPaymentAmount] = useState('');
   const [recordingPayment, setRecordingPayment] = useState(false);
 
+  // Restructured loans no longer follow the original terms, so show the stored installments
+  const loadStoredSchedule = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('loan_installments')
+        .select('installment_number, due_date, principal_amount, interest_amount, total_amount, amount_paid, is_paid, paid_date, replaced_by_restructure_id')
+        .eq('loan_id', loan.id)
+        .order('installment_number');
+      if (error) throw error;
+
+      const today = new Date();
+      setInstallments((data || []).map(row => ({
+        installment_number: row.installment_number,
+        due_date: row.due_date,
+        principal_amount: Number(row.principal_amount || 0),
+        interest_amount: Number(row.interest_amount || 0),
+        total_amount: Number(row.total_amount || 0),
+        paid_amount: Number(row.amount_paid || 0),
+        paid_date: row.paid_date || undefined,
+        status: row.replaced_by_restructure_id
+          ? 'rescheduled'
+          : row.is_paid ? 'paid' : new Date(row.due_date) < today ? 'overdue' : 'pending'
+      })));
+    } catch (error: any) {
+      toast.error('Failed to load installments', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Generate installment schedule
   const generateInstallmentSchedule = () => {
-    let repaymentWeeks: number;
-    if (loan.loan_program === 'small_loan') {
-      repaymentWeeks = 8;
-    } else if (loan.loan_program === 'big_loan') {
-      repaymentWeeks = 12;
-    } else {
-      repaymentWeeks = 8; // Default
+    if ((loan.restructure_count || 0) > 0) {
+      loadStoredSchedule();
+      return;
     }
 
-    const schedule: InstallmentSchedule[] = [];
-    const issueDate = new Date(loan.issue_date);
-    const weeklyPrincipal = Math.round((loan.principal_amount / repaymentWeeks) * 100) / 100;
-    const weeklyInterest = Math.round((loan.interest_disbursed / repaymentWeeks) * 100) / 100;
-
-    for (let i = 1; i <= repaymentWeeks; i++) {
-      const dueDate = new Date(issueDate);
-      dueDate.setDate(issueDate.getDate() + (i * 7));
+    // Legacy loans without an installment count fall back to the old programme lengths
+    const repaymentWeeks = loan.installment_count || (loan.loan_program === 'big_loan' ? 12 : 8);
 
-      let installmentPrincipal = weeklyPrincipal;
-      let installmentInterest = weeklyInterest;
+    // Flat loans split the booked interest evenly, which also covers legacy loans
+    // whose interest_disbursed predates the product rate
+    const interestMethod = loan.interest_method || 'flat';
+    const interestRate = interestMethod === 'flat'
+      ? (loan.principal_amount > 0 ? (loan.interest_disbursed / loan.principal_amount) * 100 : 0)
+      : Number(loan.interest_rate || 0) * 100;
 
-      // Adjust last installment for rounding
-      if (i === repaymentWeeks) {
-        installmentPrincipal = Math.round((loan.principal_amount - (weeklyPrincipal * (repaymentWeeks - 1))) * 100) / 100;
-        installmentInterest = Math.round((loan.interest_disbursed - (weeklyInterest * (repaymentWeeks - 1))) * 100) / 100;
-      }
+    const schedule: InstallmentSchedule[] = [];
+    const today = new Date();
+    let cumulativeAmountDue = 0;
 
-      const totalAmount = Math.round((installmentPrincipal + installmentInterest) * 100) / 100;
-      
-      // Determine status based on total paid vs what should be paid for this installment
+    buildRepaymentSchedule({
+      principal: loan.principal_amount,
+      interestRate,
+      interestMethod,
+      installmentCount: repaymentWeeks,
+      installmentType: loan.installment_type,
+      issueDate: loan.issue_date,
+    }).forEach((row) => {
+      // Determine status based on total paid vs what should be paid by this installment
       let status: 'pending' | 'paid' | 'overdue' = 'pending';
-      const dueDateObj = new Date(dueDate);
-      const today = new Date();
-      
-      // Calculate cumulative amount that should be paid by this installment
-      const cumulativeAmountDue = totalAmount * i;
-      
+      cumulativeAmountDue = roundMoney(cumulativeAmountDue + row.total_amount);
+
       if (loan.total_paid >= cumulativeAmountDue) {
         status = 'paid';
-      } else if (dueDateObj < today && loan.total_paid < cumulativeAmountDue) {
+      } else if (new Date(row.due_date) < today) {
         status = 'overdue';
       }
 
       schedule.push({
-        installment_number: i,
-        due_date: dueDate.toISOString().split('T')[0],
-        principal_amount: installmentPrincipal,
-        interest_amount: installmentInterest,
-        total_amount: totalAmount,
+        installment_number: row.installment_number,
+        due_date: row.due_date,
+        principal_amount: row.principal_amount,
+        interest_amount: row.interest_amount,
+        total_amount: row.total_amount,
         status
       });
-    }
+    });
 
     setInstallments(schedule);
     setLoading(false);
@@ -184,6 +218,8 @@ export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({
         return <Badge variant="default" className="bg-green-100 text-green-800">Paid</Badge>;
       case 'overdue':
         return <Badge variant="destructive">Overdue</Badge>;
+      case 'rescheduled':
+        return <Badge variant="outline">Rescheduled</Badge>;
       default:
         return <Badge variant="secondary">Pending</Badge>;
     }
@@ -197,7 +233,9 @@ export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({
       interestAmount: loan.interest_disbursed,
       totalAmount: loan.total_disbursed,
       issueDate: loan.issue_date,
-      loanProgram: loan.loan_program,
+      loanProgram: loan.loan_product_name
+        ? `${loan.loan_product_name} (${describeTerm(installments.length, loan.installment_type)})`
+        : loan.loan_program,
       installmentType: loan.installment_type,
       installments: installments.map(inst => ({
         number: inst.installment_number,
@@ -242,7 +280,9 @@ export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({
         <div>
           <h3 className="text-lg font-semibold">Installment Schedule</h3>
           <p className="text-sm text-muted-foreground">
-            {installments.length} weekly installments starting from {new Date(loan.issue_date).toLocaleDateString()}
+            {(loan.restructure_count || 0) > 0
+              ? `Restructured ${loan.restructure_count} time(s); now ${describeTerm(loan.installment_count || installments.length, loan.installment_type)}`
+              : `${installments.length} weekly installments starting from ${new Date(loan.issue_date).toLocaleDateString()}`}
           </p>
         </div>
         <Button onClick={downloadSchedulePDF} variant="outline" size="sm">
@@ -262,6 +302,7 @@ export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({
                   <TableHead className="text-right">Principal</TableHead>
                   <TableHead className="text-right">Interest</TableHead>
                   <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Penalty</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-center">Actions</TableHead>
                 </TableRow>
@@ -287,11 +328,18 @@ export const InstallmentScheduleTab: React.FC<InstallmentScheduleTabProps> = ({
                     <TableCell className="text-right font-semibold">
                       {formatCurrency(installment.total_amount)}
                     </TableCell>
+                    <TableCell className="text-right">
+                      {penaltiesByInstallment[installment.installment_number]
+                        ? <span className="text-red-600">{formatCurrency(penaltiesByInstallment[installment.installment_number])}</span>
+                        : <span className="text-muted-foreground">-</span>}
+                    </TableCell>
                     <TableCell>
                       {getStatusBadge(installment.status)}
                     </TableCell>
                     <TableCell className="text-center">
-                      {installment.status === 'paid' ? (
+                      {installment.status === 'rescheduled' ? (
+                        <span className="text-xs text-muted-foreground">Restructured</span>
+                      ) : installment.status === 'paid' ? (
                         <div className="flex items-center justify-center gap-2">
                           <div className="flex items-center text-green-600">
                             <CheckCircle className="h-4 w-4 mr-1" />
@@ -0,0 +1,319 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import { HandCoins, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  GuarantorRecovery,
+  GuarantorRecoverySource,
+  LoanGuarantor,
+  OverdueInstallment,
+  SettlementPaymentMethod,
+} from '@/types';
+import { fetchOverdueInstallments, recoverFromGuarantor, RECOVERY_SOURCE_LABELS } from '@/utils/guarantors';
+
+interface LoanGuarantorsTabProps {
+  loanId: string;
+  loanStatus: string;
+  guarantors: LoanGuarantor[];
+  recoveries: GuarantorRecovery[];
+  onChanged: () => void;
+}
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+export const LoanGuarantorsTab: React.FC<LoanGuarantorsTabProps> = ({ loanId, loanStatus, guarantors, recoveries, onChanged }) => {
+  const { userRole } = useAuth();
+  const canRecover = ['super_admin', 'admin', 'branch_admin'].includes(userRole || '') &&
+    ['active', 'disbursed', 'defaulted'].includes(loanStatus);
+
+  // Recovery dialog
+  const [recovering, setRecovering] = useState<LoanGuarantor | null>(null);
+  const [overdue, setOverdue] = useState<OverdueInstallment[]>([]);
+  const [installmentId, setInstallmentId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [source, setSource] = useState<GuarantorRecoverySource>('savings');
+  const [paymentMethod, setPaymentMethod] = useState<SettlementPaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const totalGuaranteed = guarantors.filter(g => g.status === 'active').reduce((sum, g) => sum + g.guaranteed_amount, 0);
+  const totalRecovered = guarantors.reduce((sum, g) => sum + g.recovered_amount, 0);
+
+  const selectedInstallment = overdue.find(i => i.id === installmentId) || null;
+  const remainingGuarantee = recovering ? recovering.guaranteed_amount - recovering.recovered_amount : 0;
+  const maxRecoverable = recovering && selectedInstallment
+    ? Math.min(
+        selectedInstallment.unpaid_amount,
+        remainingGuarantee,
+        source === 'savings' ? recovering.savings_balance : Number.POSITIVE_INFINITY
+      )
+    : 0;
+
+  useEffect(() => {
+    if (!recovering) return;
+    let cancelled = false;
+    const loadOverdue = async () => {
+      try {
+        const installments = await fetchOverdueInstallments(loanId);
+        if (cancelled) return;
+        setOverdue(installments);
+        setInstallmentId(installments[0]?.id || '');
+      } catch (error: any) {
+        if (!cancelled) toast.error('Failed to load overdue installments', { description: error.message });
+      }
+    };
+    loadOverdue();
+    return () => { cancelled = true; };
+  }, [recovering, loanId]);
+
+  // Suggest the most that can be recovered for the chosen installment and source
+  useEffect(() => {
+    setAmount(maxRecoverable > 0 ? maxRecoverable.toFixed(2) : '');
+  }, [maxRecoverable]);
+
+  const openRecovery = (guarantor: LoanGuarantor) => {
+    setOverdue([]);
+    setInstallmentId('');
+    setSource(guarantor.savings_balance > 0 ? 'savings' : 'payment');
+    setPaymentMethod('cash');
+    setReference('');
+    setNotes('');
+    setRecovering(guarantor);
+  };
+
+  const handleRecover = async () => {
+    if (!recovering || !selectedInstallment) return;
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast.warning('Enter the amount to recover.');
+      return;
+    }
+    if (value > maxRecoverable) {
+      toast.warning(`At most ${formatCurrency(maxRecoverable)} can be recovered here.`);
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await recoverFromGuarantor(recovering.id, {
+        installment_id: selectedInstallment.id,
+        amount: value,
+        source,
+        payment_method: source === 'payment' ? paymentMethod : undefined,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Recovered ${formatCurrency(value)} from ${recovering.guarantor_name}`, {
+        description: `Applied to installment #${selectedInstallment.installment_number}.`,
+      });
+      setRecovering(null);
+      onChanged();
+    } catch (error: any) {
+      toast.error('Recovery failed', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Guarantors</CardTitle>
+        <CardDescription>
+          {guarantors.length === 0
+            ? 'No group members guarantee this loan.'
+            : `Guaranteed ${formatCurrency(totalGuaranteed)}${totalRecovered > 0 ? ` · Recovered from guarantors ${formatCurrency(totalRecovered)}` : ''}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {guarantors.length > 0 && (
+          <ScrollableContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Guarantor</TableHead>
+                  <TableHead className="text-right">Guaranteed</TableHead>
+                  <TableHead className="text-right">Recovered</TableHead>
+                  <TableHead className="text-right">Savings</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canRecover && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {guarantors.map(guarantor => (
+                  <TableRow key={guarantor.id}>
+                    <TableCell>
+                      <Link to={`/members/${guarantor.guarantor_member_id}`} className="font-medium text-primary hover:underline">
+                        {guarantor.guarantor_name}
+                      </Link>
+                      {guarantor.guarantor_phone && (
+                        <div className="text-xs text-muted-foreground">{guarantor.guarantor_phone}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(guarantor.guaranteed_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(guarantor.recovered_amount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(guarantor.savings_balance)}</TableCell>
+                    <TableCell>
+                      <Badge variant={guarantor.status === 'active' ? 'default' : 'secondary'}>
+                        {guarantor.status === 'active' ? 'Active' : 'Released'}
+                      </Badge>
+                    </TableCell>
+                    {canRecover && (
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openRecovery(guarantor)}
+                          disabled={guarantor.status !== 'active' || guarantor.recovered_amount >= guarantor.guaranteed_amount}
+                        >
+                          <HandCoins className="mr-1 h-4 w-4" />
+                          Recover
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollableContainer>
+        )}
+
+        {recoveries.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Recoveries</h4>
+            <ScrollableContainer>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Guarantor</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recoveries.map(recovery => (
+                    <TableRow key={recovery.id}>
+                      <TableCell>{new Date(recovery.recovered_at).toLocaleDateString()}</TableCell>
+                      <TableCell>{recovery.guarantor_name}</TableCell>
+                      <TableCell>{RECOVERY_SOURCE_LABELS[recovery.source]}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{recovery.payment_reference}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(recovery.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollableContainer>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!recovering} onOpenChange={(open) => { if (!open) setRecovering(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Recover from {recovering?.guarantor_name}</DialogTitle>
+            <DialogDescription>
+              The amount is posted as a payment on this loan and counts against the{' '}
+              {formatCurrency(remainingGuarantee)} the guarantor still guarantees.
+            </DialogDescription>
+          </DialogHeader>
+          {overdue.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">This loan has no overdue installments to recover.</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Overdue installment</Label>
+                <Select value={installmentId} onValueChange={setInstallmentId}>
+                  <SelectTrigger><SelectValue placeholder="Select an installment" /></SelectTrigger>
+                  <SelectContent>
+                    {overdue.map(installment => (
+                      <SelectItem key={installment.id} value={installment.id}>
+                        #{installment.installment_number} · due {new Date(installment.due_date).toLocaleDateString()} · {formatCurrency(installment.unpaid_amount)} unpaid
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Recover from</Label>
+                  <Select value={source} onValueChange={(value) => setSource(value as GuarantorRecoverySource)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="savings" disabled={!recovering || recovering.savings_balance <= 0}>
+                        {RECOVERY_SOURCE_LABELS.savings} ({formatCurrency(recovering?.savings_balance || 0)})
+                      </SelectItem>
+                      <SelectItem value="payment">{RECOVERY_SOURCE_LABELS.payment}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recovery-amount">Amount (KES)</Label>
+                  <Input
+                    id="recovery-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    max={maxRecoverable}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                </div>
+              </div>
+              {source === 'payment' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Payment method</Label>
+                    <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as SettlementPaymentMethod)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cash">Cash</SelectItem>
+                        <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                        <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                        <SelectItem value="check">Cheque</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recovery-reference">Reference</Label>
+                    <Input
+                      id="recovery-reference"
+                      value={reference}
+                      onChange={(e) => setReference(e.target.value)}
+                      placeholder="Generated if left blank"
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="recovery-notes">Notes</Label>
+                <Textarea id="recovery-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecovering(null)}>Cancel</Button>
+            <Button onClick={handleRecover} disabled={isSubmitting || !selectedInstallment || maxRecoverable <= 0}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Recover {amount ? formatCurrency(Number(amount)) : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import { Loader2, RefreshCw, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LoanPenalty } from '@/types';
+import { runPenaltyAccrual, summarizePenalties, waiveLoanPenalties } from '@/utils/penalties';
+
+interface LoanPenaltiesTabProps {
+  loanId: string;
+  penalties: LoanPenalty[];
+  onChanged: () => void;
+}
+
+export const LoanPenaltiesTab: React.FC<LoanPenaltiesTabProps> = ({ loanId, penalties, onChanged }) => {
+  const { userRole } = useAuth();
+  const isAdmin = userRole === 'super_admin' || userRole === 'admin';
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [waiveDialogOpen, setWaiveDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isWaiving, setIsWaiving] = useState(false);
+  const [isAccruing, setIsAccruing] = useState(false);
+
+  const summary = summarizePenalties(penalties);
+  const outstanding = penalties.filter(p => p.status === 'accrued');
+  const waiveTargets = selectedIds.length > 0 ? outstanding.filter(p => selectedIds.includes(p.id)) : outstanding;
+  const waiveTotal = waiveTargets.reduce((sum, p) => sum + p.amount, 0);
+
+  const formatCurrency = (amount: number): string =>
+    new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(existing => existing !== id));
+  };
+
+  const handleWaive = async () => {
+    if (!reason.trim()) {
+      toast.warning('Please give a reason for the waiver.');
+      return;
+    }
+    setIsWaiving(true);
+    try {
+      const waived = await waiveLoanPenalties(loanId, reason.trim(), selectedIds);
+      toast.success(`Waived ${formatCurrency(waived)} in penalties.`);
+      setWaiveDialogOpen(false);
+      setReason('');
+      setSelectedIds([]);
+      onChanged();
+    } catch (error: any) {
+      toast.error('Failed to waive penalties', { description: error.message });
+    } finally {
+      setIsWaiving(false);
+    }
+  };
+
+  const handleRunAccrual = async () => {
+    setIsAccruing(true);
+    try {
+      const result = await runPenaltyAccrual();
+      toast.success('Penalty accrual complete', {
+        description: `${result.penalties_created} charge(s) on ${result.loans_charged} loan(s), ${formatCurrency(result.total_amount)} in total.`
+      });
+      onChanged();
+    } catch (error: any) {
+      toast.error('Penalty accrual failed', { description: error.message });
+    } finally {
+      setIsAccruing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <CardTitle>Late Payment Penalties</CardTitle>
+          <CardDescription>
+            Outstanding {formatCurrency(summary.accrued)}
+            {summary.waived > 0 && ` · Waived ${formatCurrency(summary.waived)}`}
+            {summary.paid > 0 && ` · Paid ${formatCurrency(summary.paid)}`}
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleRunAccrual} disabled={isAccruing}>
+              {isAccruing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Run Accrual
+            </Button>
+            <Button size="sm" onClick={() => setWaiveDialogOpen(true)} disabled={outstanding.length === 0}>
+              <ShieldOff className="mr-2 h-4 w-4" />
+              {selectedIds.length > 0 ? `Waive Selected (${selectedIds.length})` : 'Waive All'}
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {penalties.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">No penalties have been charged on this loan.</p>
+          </div>
+        ) : (
+          <ScrollableContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {isAdmin && <TableHead className="w-10" />}
+                  <TableHead>Date</TableHead>
+                  <TableHead>Installment</TableHead>
+                  <TableHead>Days Late</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {penalties.map(penalty => (
+                  <TableRow key={penalty.id}>
+                    {isAdmin && (
+                      <TableCell>
+                        {penalty.status === 'accrued' && (
+                          <Checkbox
+                            checked={selectedIds.includes(penalty.id)}
+                            onCheckedChange={(checked) => toggleSelected(penalty.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>{new Date(penalty.accrual_date).toLocaleDateString()}</TableCell>
+                    <TableCell>#{penalty.installment_number}</TableCell>
+                    <TableCell>{penalty.days_overdue}</TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {penalty.penalty_type === 'fixed'
+                        ? formatCurrency(penalty.penalty_rate)
+                        : `${penalty.penalty_rate}% of ${formatCurrency(penalty.base_amount)}`}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(penalty.amount)}</TableCell>
+                    <TableCell>
+                      {penalty.status === 'waived' ? (
+                        <Badge variant="secondary" title={penalty.waiver_reason || undefined}>Waived</Badge>
+                      ) : penalty.status === 'paid' ? (
+                        <Badge variant="outline">Paid</Badge>
+                      ) : (
+                        <Badge variant="destructive">Accrued</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollableContainer>
+        )}
+      </CardContent>
+
+      <Dialog open={waiveDialogOpen} onOpenChange={setWaiveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive Penalties</DialogTitle>
+            <DialogDescription>
+              {waiveTargets.length} charge(s) totalling {formatCurrency(waiveTotal)} will be waived and their transactions cancelled.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="waiver-reason">Reason</Label>
+            <Textarea
+              id="waiver-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Member paid late because of an M-Pesa outage"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaiveDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleWaive} disabled={isWaiving}>
+              {isWaiving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Waive {formatCurrency(waiveTotal)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import type { LoanRestructure } from '@/types';
+import { describeTerm } from '@/utils/loanProducts';
+
+interface LoanRestructuresTabProps {
+  restructures: LoanRestructure[];
+}
+
+const STATUS_VARIANTS: Record<LoanRestructure['status'], 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+export const LoanRestructuresTab: React.FC<LoanRestructuresTabProps> = ({ restructures }) => {
+  const formatCurrency = (amount: number): string =>
+    new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Restructures</CardTitle>
+        <CardDescription>Every change to the repayment terms of this loan, old terms next to new.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {restructures.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">This loan has never been restructured.</p>
+          </div>
+        ) : (
+          <ScrollableContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Old Terms</TableHead>
+                  <TableHead>New Terms</TableHead>
+                  <TableHead className="text-right">Rescheduled</TableHead>
+                  <TableHead className="text-right">Extra Interest</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {restructures.map(restructure => (
+                  <TableRow key={restructure.id}>
+                    <TableCell>
+                      <div>{new Date(restructure.requested_at).toLocaleDateString()}</div>
+                      <div className="text-xs text-muted-foreground max-w-xs">{restructure.reason}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {restructure.old_installment_count
+                        ? describeTerm(restructure.old_installment_count, restructure.old_installment_type || 'weekly')
+                        : restructure.old_installment_type || '-'}
+                      {restructure.old_due_date && (
+                        <div className="text-xs text-muted-foreground">Due {new Date(restructure.old_due_date).toLocaleDateString()}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {describeTerm(restructure.new_installment_count, restructure.new_installment_type)} from{' '}
+                      {new Date(restructure.effective_date).toLocaleDateString()}
+                      {restructure.capitalise_arrears && (
+                        <div className="text-xs text-muted-foreground">Arrears capitalised ({formatCurrency(restructure.arrears_amount)})</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(restructure.rescheduled_principal + restructure.rescheduled_interest)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(restructure.additional_interest)}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[restructure.status]} className="capitalize" title={restructure.rejection_reason || undefined}>
+                        {restructure.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Eye, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { InstallmentType, InterestMethod, LoanRestructureRequest, RestructureScheduleRow } from '@/types';
+import { previewLoanRestructure, requestLoanRestructure } from '@/utils/restructuring';
+import { roundMoney } from '@/utils/interestEngine';
+
+interface RestructureLoanDialogProps {
+  open: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  loan: { id: string; installment_type?: string; interest_method?: InterestMethod };
+  onRequested: () => void;
+}
+
+const ACTION_BADGES: Record<RestructureScheduleRow['action'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  kept: { label: 'Unchanged', variant: 'outline' },
+  replaced: { label: 'Rescheduled', variant: 'secondary' },
+  new: { label: 'New', variant: 'default' },
+};
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const RestructureLoanDialog: React.FC<RestructureLoanDialogProps> = ({ open, onOpenChange, loan, onRequested }) => {
+  const [request, setRequest] = useState<LoanRestructureRequest>({
+    installment_type: 'weekly',
+    installment_count: 8,
+    additional_interest_rate: 0,
+    capitalise_arrears: false,
+    effective_date: today(),
+    reason: '',
+  });
+  const [preview, setPreview] = useState<RestructureScheduleRow[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRequest({
+      installment_type: (loan.installment_type as InstallmentType) || 'weekly',
+      installment_count: 8,
+      additional_interest_rate: 0,
+      capitalise_arrears: false,
+      effective_date: today(),
+      reason: '',
+    });
+    setPreview(null);
+  }, [open, loan.installment_type]);
+
+  const updateRequest = <K extends keyof LoanRestructureRequest>(key: K, value: LoanRestructureRequest[K]) => {
+    setRequest(prev => ({ ...prev, [key]: value }));
+    if (key !== 'reason') setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (request.installment_count <= 0) {
+      toast.warning('The new schedule needs at least one installment.');
+      return;
+    }
+    setIsPreviewing(true);
+    try {
+      setPreview(await previewLoanRestructure(loan.id, request));
+    } catch (error: any) {
+      toast.error('Failed to preview the new schedule', { description: error.message });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!request.reason.trim()) {
+      toast.warning('Please give a reason for the restructure.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await requestLoanRestructure(loan.id, { ...request, reason: request.reason.trim() });
+      toast.success('Restructure sent for approval.');
+      onOpenChange(false);
+      onRequested();
+    } catch (error: any) {
+      toast.error('Failed to request restructure', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const newRows = preview?.filter(row => row.action === 'new') || [];
+  const rescheduledTotal = roundMoney(
+    (preview || [])
+      .filter(row => row.action === 'replaced')
+      .reduce((sum, row) => sum + ((row.original_total || 0) - row.total_amount), 0)
+  );
+  const newTotal = roundMoney(newRows.reduce((sum, row) => sum + row.total_amount, 0));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Restructure Loan</DialogTitle>
+          <DialogDescription>
+            Unpaid installments are rescheduled over the new terms. Paid installments stay as they are.
+            The request goes to Loan Approvals before anything changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>New frequency</Label>
+              <Select value={request.installment_type} onValueChange={(value) => updateRequest('installment_type', value as InstallmentType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restructure-count">Number of new installments</Label>
+              <Input
+                id="restructure-count"
+                type="number"
+                min={1}
+                value={request.installment_count}
+                onChange={(e) => updateRequest('installment_count', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restructure-rate">Additional interest (%)</Label>
+              <Input
+                id="restructure-rate"
+                type="number"
+                min={0}
+                step="0.01"
+                value={request.additional_interest_rate}
+                onChange={(e) => updateRequest('additional_interest_rate', Math.max(0, Number(e.target.value) || 0))}
+              />
+              <p className="text-xs text-muted-foreground">
+                {(loan.interest_method || 'flat') === 'flat'
+                  ? 'Charged once on the rescheduled principal.'
+                  : 'Charged per installment on the rescheduled principal.'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restructure-date">Effective date</Label>
+              <Input
+                id="restructure-date"
+                type="date"
+                value={request.effective_date}
+                onChange={(e) => updateRequest('effective_date', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">The first new installment falls one period after this date.</p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="capitalise-arrears">Capitalise arrears</Label>
+              <p className="text-xs text-muted-foreground">
+                Fold installments already overdue into the new schedule instead of keeping them due now.
+              </p>
+            </div>
+            <Switch
+              id="capitalise-arrears"
+              checked={request.capitalise_arrears}
+              onCheckedChange={(checked) => updateRequest('capitalise_arrears', checked)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="restructure-reason">Reason</Label>
+            <Textarea
+              id="restructure-reason"
+              value={request.reason}
+              onChange={(e) => updateRequest('reason', e.target.value)}
+              placeholder="e.g. Member's business closed for two months after a fire"
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {formatCurrency(rescheduledTotal)} rescheduled into {newRows.length} installment(s) totalling{' '}
+                <strong>{formatCurrency(newTotal)}</strong>.
+              </p>
+              <ScrollableContainer className="max-h-64 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Due Date</TableHead>
+                      <TableHead className="text-right">Principal</TableHead>
+                      <TableHead className="text-right">Interest</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map(row => (
+                      <TableRow key={row.installment_number}>
+                        <TableCell>{row.installment_number}</TableCell>
+                        <TableCell>{new Date(row.due_date).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.principal_amount)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.interest_amount)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {row.action === 'replaced' && (
+                            <span className="text-muted-foreground line-through mr-2">{formatCurrency(row.original_total || 0)}</span>
+                          )}
+                          {formatCurrency(row.total_amount)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_BADGES[row.action].variant}>{ACTION_BADGES[row.action].label}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollableContainer>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="outline" onClick={handlePreview} disabled={isPreviewing}>
+            {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Preview Schedule
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !preview}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit for Approval
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
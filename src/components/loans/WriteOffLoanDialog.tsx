@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
+import { requestLoanWriteOff } from '@/utils/pendingChanges';
 import { toast } from 'sonner';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -20,7 +20,6 @@ interface WriteOffLoanDialogProps {
 type DefaultedLoan = { id: string; member_name: string; account_number: string; current_balance: number };
 
 export const WriteOffLoanDialog: React.FC<WriteOffLoanDialogProps> = ({ open, onOpenChange, onSuccess }) => {
-    const { user } = useAuth();
     const [popoverOpen, setPopoverOpen] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
     const [defaultedLoans, setDefaultedLoans] = useState<DefaultedLoan[]>([]);
@@ -52,19 +51,15 @@ export const WriteOffLoanDialog: React.FC<WriteOffLoanDialogProps> = ({ open, on
         }
         setIsSubmitting(true);
         try {
-            // --- THE CRITICAL FIX: Use the new, unambiguous parameter names ---
-            const { error } = await supabase.rpc('write_off_loan' as any, {
-                loan_uuid: selectedLoan.id,
-                requesting_user_uuid: user?.id,
-                write_off_notes: notes
+            await requestLoanWriteOff(selectedLoan.id, notes.trim());
+            toast.success("Write-off submitted for approval.", {
+                description: "The loan is written off once another authorised user approves it."
             });
-            if (error) throw error;
-            toast.success("Loan successfully written off as bad debt.");
             onSuccess();
             onOpenChange(false);
             resetState();
         } catch (error: any) {
-            toast.error("Failed to write off loan", { description: error.message });
+            toast.error("Failed to request write-off", { description: error.message });
         } finally {
             setIsSubmitting(false);
         }
@@ -81,7 +76,7 @@ export const WriteOffLoanDialog: React.FC<WriteOffLoanDialogProps> = ({ open, on
             <DialogContent>
                 <DialogHeader>
                     <DialogTitle>Write-off a Loan as Bad Debt</DialogTitle>
-                    <DialogDescription>Search for a defaulted loan to write it off. This action is permanent.</DialogDescription>
+                    <DialogDescription>Search for a defaulted loan to write it off. Its outstanding principal is drawn from the branch's loan loss provision. A second authorised user must approve the write-off before it takes effect.</DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4 py-4">
                     <Label>Search Defaulted Loan</Label>
@@ -123,7 +118,7 @@ export const WriteOffLoanDialog: React.FC<WriteOffLoanDialogProps> = ({ open, on
                     <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
                     <Button onClick={handleSubmit} disabled={isSubmitting || !selectedLoan}>
                         {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        Confirm Write-off
+                        Request Write-off
                     </Button>
                 </DialogFooter>
             </DialogContent>
@@ -8,6 +8,8 @@ import { Button } from '@/components/ui/button';
 import { FileText, FileSpreadsheet, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import type { SavingsAccount, SavingsTransaction } from '@/types';
+import { SAVINGS_ACCOUNT_TYPE_LABELS, SAVINGS_TRANSACTION_LABELS } from '@/utils/savings';
 
 // Define the shape of the props for type safety
 interface GenerateStatementDialogProps {
@@ -27,9 +29,14 @@ interface GenerateStatementDialogProps {
     status: string;
     due_date: string;
   }[];
+  savingsAccounts?: SavingsAccount[];
+  savingsTransactions?: SavingsTransaction[];
 }
 
-export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = ({ open, onOpenChange, member, loans }) => {
+const isSavingsDebit = (transaction: SavingsTransaction) =>
+  transaction.transaction_type === 'withdrawal' || transaction.transaction_type === 'recovery';
+
+export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = ({ open, onOpenChange, member, loans, savingsAccounts = [], savingsTransactions = [] }) => {
     const [isGenerating, setIsGenerating] = useState(false);
     const { profile, loading } = useAuth();
 
@@ -64,6 +71,7 @@ export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = (
             let yPos = 40;
             doc.setFontSize(10);
             const totalOutstanding = loans.reduce((sum, loan) => sum + (loan.current_balance || 0), 0);
+            const totalSavings = savingsAccounts.reduce((sum, account) => sum + account.balance, 0);
             
             // Member Info Column 1
             doc.text(`Member Name: ${member.full_name}`, 14, yPos);
@@ -94,6 +102,7 @@ export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = (
             doc.setFont("helvetica", "bold");
             doc.setFontSize(10);
             doc.text(`Total Outstanding Balance: ${new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(totalOutstanding)}`, 14, yPos);
+            doc.text(`Total Savings: ${new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(totalSavings)}`, 130, yPos);
             
             // --- Loan History Table ---
             yPos += 10;
@@ -117,6 +126,46 @@ export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = (
                 headStyles: { fillColor: [17, 24, 39] } // Dark header for branding
             });
 
+            // --- Savings Accounts and Transactions ---
+            if (savingsAccounts.length > 0) {
+                yPos = (doc as any).lastAutoTable.finalY + 12;
+                doc.setFontSize(12);
+                doc.text("Savings Accounts", 14, yPos);
+                autoTable(doc, {
+                    startY: yPos + 4,
+                    head: [['Account No.', 'Type', 'Balance', 'Lien', 'Available']],
+                    body: savingsAccounts.map(a => [
+                        a.account_number,
+                        SAVINGS_ACCOUNT_TYPE_LABELS[a.account_type],
+                        `Ksh ${a.balance.toLocaleString()}`,
+                        `Ksh ${a.lien_amount.toLocaleString()}`,
+                        `Ksh ${a.available_balance.toLocaleString()}`
+                    ]),
+                    theme: 'grid',
+                    headStyles: { fillColor: [17, 24, 39] }
+                });
+
+                if (savingsTransactions.length > 0) {
+                    yPos = (doc as any).lastAutoTable.finalY + 12;
+                    doc.setFontSize(12);
+                    doc.text("Savings Transactions", 14, yPos);
+                    autoTable(doc, {
+                        startY: yPos + 4,
+                        head: [['Date', 'Account No.', 'Type', 'Reference', 'Amount', 'Balance']],
+                        body: savingsTransactions.map(t => [
+                            new Date(t.created_at).toLocaleDateString(),
+                            t.account_number,
+                            SAVINGS_TRANSACTION_LABELS[t.transaction_type],
+                            t.reference || '',
+                            `${isSavingsDebit(t) ? '-' : ''}Ksh ${t.amount.toLocaleString()}`,
+                            `Ksh ${t.balance_after.toLocaleString()}`
+                        ]),
+                        theme: 'grid',
+                        headStyles: { fillColor: [17, 24, 39] }
+                    });
+                }
+            }
+
             doc.save(`Statement-${member.full_name.replace(/\s/g, '_')}-${new Date().toISOString().split('T')[0]}.pdf`);
             toast.success("PDF statement generated successfully!");
             onOpenChange(false);
@@ -143,6 +192,7 @@ export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = (
             const escapeCsvCell = (cell: any) => `"${String(cell).replace(/"/g, '""')}"`;
 
             const totalOutstanding = loans.reduce((sum, loan) => sum + (loan.current_balance || 0), 0);
+            const totalSavings = savingsAccounts.reduce((sum, account) => sum + account.balance, 0);
 
             let csvContent = [];
             // --- Company Header and Branding ---
@@ -157,6 +207,7 @@ export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = (
             csvContent.push(`"Branch",${escapeCsvCell(member.branch_name)}`);
             csvContent.push(`"Statement Date",${escapeCsvCell(new Date().toLocaleDateString())}`);
             csvContent.push(`"Total Outstanding Balance",${escapeCsvCell(totalOutstanding)}`);
+            csvContent.push(`"Total Savings",${escapeCsvCell(totalSavings)}`);
             csvContent.push(""); // Blank line for separation
 
             // Add generation info
@@ -182,6 +233,37 @@ export const GenerateStatementDialog: React.FC<GenerateStatementDialogProps> = (
                 csvContent.push(row.join(','));
             });
 
+            // --- Savings Sections ---
+            if (savingsAccounts.length > 0) {
+                csvContent.push("");
+                csvContent.push("SAVINGS ACCOUNTS");
+                csvContent.push(['Account Number', 'Type', 'Balance', 'Lien', 'Available'].join(','));
+                savingsAccounts.forEach(a => {
+                    csvContent.push([
+                        escapeCsvCell(a.account_number),
+                        escapeCsvCell(SAVINGS_ACCOUNT_TYPE_LABELS[a.account_type]),
+                        escapeCsvCell(a.balance),
+                        escapeCsvCell(a.lien_amount),
+                        escapeCsvCell(a.available_balance)
+                    ].join(','));
+                });
+            }
+            if (savingsTransactions.length > 0) {
+                csvContent.push("");
+                csvContent.push("SAVINGS TRANSACTIONS");
+                csvContent.push(['Date', 'Account Number', 'Type', 'Reference', 'Amount', 'Balance'].join(','));
+                savingsTransactions.forEach(t => {
+                    csvContent.push([
+                        escapeCsvCell(new Date(t.created_at).toLocaleDateString()),
+                        escapeCsvCell(t.account_number),
+                        escapeCsvCell(SAVINGS_TRANSACTION_LABELS[t.transaction_type]),
+                        escapeCsvCell(t.reference || ''),
+                        escapeCsvCell(isSavingsDebit(t) ? -t.amount : t.amount),
+                        escapeCsvCell(t.balance_after)
+                    ].join(','));
+                });
+            }
+
             const csvString = csvContent.join('\n');
             const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
             const url = URL.createObjectURL(blob);
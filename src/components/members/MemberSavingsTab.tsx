@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import { ArrowDownToLine, ArrowUpFromLine, Loader2, Percent, PiggyBank } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SavingsAccount, SavingsAccountType, SavingsTransaction, SettlementPaymentMethod } from '@/types';
+import {
+  creditSavingsInterest,
+  depositSavings,
+  openSavingsAccount,
+  SAVINGS_ACCOUNT_TYPE_LABELS,
+  SAVINGS_TRANSACTION_LABELS,
+  withdrawSavings,
+} from '@/utils/savings';
+
+interface MemberSavingsTabProps {
+  memberId: string;
+  accounts: SavingsAccount[];
+  transactions: SavingsTransaction[];
+  onChanged: () => void;
+}
+
+type PostingKind = 'deposit' | 'withdrawal';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const ACCOUNT_TYPES: SavingsAccountType[] = ['compulsory', 'voluntary'];
+
+export const MemberSavingsTab: React.FC<MemberSavingsTabProps> = ({ memberId, accounts, transactions, onChanged }) => {
+  const { userRole } = useAuth();
+  const isStaff = ['super_admin', 'admin', 'branch_admin', 'loan_officer'].includes(userRole || '');
+  const canWithdraw = ['super_admin', 'admin', 'branch_admin'].includes(userRole || '');
+  const canCreditInterest = ['super_admin', 'admin'].includes(userRole || '');
+
+  const [openingType, setOpeningType] = useState<SavingsAccountType | null>(null);
+  const [isCrediting, setIsCrediting] = useState(false);
+
+  // Deposit / withdrawal dialog
+  const [posting, setPosting] = useState<{ account: SavingsAccount; kind: PostingKind } | null>(null);
+  const [amount, setAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<SettlementPaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const missingTypes = ACCOUNT_TYPES.filter(type => !accounts.some(account => account.account_type === type));
+  const totalBalance = accounts.reduce((sum, account) => sum + account.balance, 0);
+  const totalAvailable = accounts.reduce((sum, account) => sum + account.available_balance, 0);
+
+  const handleOpenAccount = async (accountType: SavingsAccountType) => {
+    setOpeningType(accountType);
+    try {
+      await openSavingsAccount(memberId, accountType);
+      toast.success(`${SAVINGS_ACCOUNT_TYPE_LABELS[accountType]} account opened`);
+      onChanged();
+    } catch (error: any) {
+      toast.error('Failed to open the account', { description: error.message });
+    } finally {
+      setOpeningType(null);
+    }
+  };
+
+  const handleCreditInterest = async () => {
+    setIsCrediting(true);
+    try {
+      const result = await creditSavingsInterest();
+      if (result.accounts_credited === 0) {
+        toast.info('No interest was due', { description: 'Every account has already been credited this month.' });
+      } else {
+        toast.success(`Credited ${formatCurrency(result.total_interest)} interest`, {
+          description: `${result.accounts_credited} account(s) across all members.`,
+        });
+      }
+      onChanged();
+    } catch (error: any) {
+      toast.error('Interest crediting failed', { description: error.message });
+    } finally {
+      setIsCrediting(false);
+    }
+  };
+
+  const openPosting = (account: SavingsAccount, kind: PostingKind) => {
+    setAmount('');
+    setPaymentMethod('cash');
+    setReference('');
+    setNotes('');
+    setPosting({ account, kind });
+  };
+
+  const handlePost = async () => {
+    if (!posting) return;
+    const value = Number(amount);
+    if (!value || value <= 0) {
+      toast.warning('Enter an amount greater than zero.');
+      return;
+    }
+    if (posting.kind === 'withdrawal' && value > posting.account.available_balance) {
+      toast.warning(`At most ${formatCurrency(posting.account.available_balance)} can be withdrawn.`);
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const request = {
+        account_id: posting.account.id,
+        amount: value,
+        payment_method: paymentMethod,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      };
+      if (posting.kind === 'deposit') {
+        await depositSavings(request);
+      } else {
+        await withdrawSavings(request);
+      }
+      toast.success(`${posting.kind === 'deposit' ? 'Deposited' : 'Withdrew'} ${formatCurrency(value)}`, {
+        description: `${SAVINGS_ACCOUNT_TYPE_LABELS[posting.account.account_type]} · ${posting.account.account_number}`,
+      });
+      setPosting(null);
+      onChanged();
+    } catch (error: any) {
+      toast.error(posting.kind === 'deposit' ? 'Deposit failed' : 'Withdrawal failed', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <p className="text-sm text-muted-foreground">Total savings</p>
+          <p className="text-xl font-bold">{formatCurrency(totalBalance)}</p>
+          <p className="text-xs text-muted-foreground">{formatCurrency(totalAvailable)} available to withdraw</p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          {isStaff && missingTypes.map(type => (
+            <Button key={type} size="sm" variant="outline" onClick={() => handleOpenAccount(type)} disabled={!!openingType}>
+              {openingType === type ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PiggyBank className="mr-2 h-4 w-4" />}
+              Open {SAVINGS_ACCOUNT_TYPE_LABELS[type]}
+            </Button>
+          ))}
+          {canCreditInterest && (
+            <Button size="sm" variant="outline" onClick={handleCreditInterest} disabled={isCrediting}>
+              {isCrediting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Percent className="mr-2 h-4 w-4" />}
+              Credit Monthly Interest
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {accounts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This member has no savings accounts yet.</p>
+      ) : (
+        <ScrollableContainer>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Minimum</TableHead>
+                <TableHead className="text-right">Lien</TableHead>
+                <TableHead className="text-right">Available</TableHead>
+                <TableHead className="text-right">Interest</TableHead>
+                {isStaff && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map(account => (
+                <TableRow key={account.id}>
+                  <TableCell>
+                    <div className="font-medium">{SAVINGS_ACCOUNT_TYPE_LABELS[account.account_type]}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{account.account_number}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(account.balance)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(account.minimum_balance)}</TableCell>
+                  <TableCell className="text-right">
+                    {account.lien_amount > 0 ? <Badge variant="outline">{formatCurrency(account.lien_amount)}</Badge> : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(account.available_balance)}</TableCell>
+                  <TableCell className="text-right text-sm">{account.interest_rate}% p.a.</TableCell>
+                  {isStaff && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="outline" onClick={() => openPosting(account, 'deposit')}>
+                          <ArrowDownToLine className="mr-1 h-4 w-4" />
+                          Deposit
+                        </Button>
+                        {canWithdraw && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openPosting(account, 'withdrawal')}
+                            disabled={account.available_balance <= 0}
+                          >
+                            <ArrowUpFromLine className="mr-1 h-4 w-4" />
+                            Withdraw
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollableContainer>
+      )}
+
+      {transactions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Savings Transactions</h4>
+          <ScrollableContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map(transaction => {
+                  const isDebit = transaction.transaction_type === 'withdrawal' || transaction.transaction_type === 'recovery';
+                  return (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(transaction.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell className="font-mono text-xs">{transaction.account_number}</TableCell>
+                      <TableCell>
+                        {SAVINGS_TRANSACTION_LABELS[transaction.transaction_type]}
+                        {transaction.notes && <div className="text-xs text-muted-foreground">{transaction.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{transaction.reference || '-'}</TableCell>
+                      <TableCell className={`text-right font-medium ${isDebit ? 'text-destructive' : 'text-green-600'}`}>
+                        {isDebit ? '-' : '+'}{formatCurrency(transaction.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(transaction.balance_after)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollableContainer>
+        </div>
+      )}
+
+      <Dialog open={!!posting} onOpenChange={(open) => { if (!open) setPosting(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {posting?.kind === 'deposit' ? 'Deposit to' : 'Withdraw from'}{' '}
+              {posting ? SAVINGS_ACCOUNT_TYPE_LABELS[posting.account.account_type] : ''}
+            </DialogTitle>
+            <DialogDescription>
+              {posting?.kind === 'withdrawal'
+                ? `${formatCurrency(posting.account.available_balance)} of ${formatCurrency(posting.account.balance)} can be withdrawn; the rest is the minimum balance or held under lien against open loans.`
+                : `Current balance ${formatCurrency(posting?.account.balance || 0)}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="savings-amount">Amount (KES)</Label>
+                <Input
+                  id="savings-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={posting?.kind === 'withdrawal' ? posting.account.available_balance : undefined}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Payment method</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as SettlementPaymentMethod)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                    <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                    <SelectItem value="check">Cheque</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="savings-reference">Reference</Label>
+              <Input id="savings-reference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Receipt or transaction code" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="savings-notes">Notes</Label>
+              <Textarea id="savings-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPosting(null)}>Cancel</Button>
+            <Button onClick={handlePost} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {posting?.kind === 'deposit' ? 'Deposit' : 'Withdraw'} {amount ? formatCurrency(Number(amount)) : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AdjustmentDirection, StatementReconciliationLine, SuspenseLoanOption } from '@/types';
+import { postReconciliationAdjustment } from '@/utils/reconciliation';
+import { searchSuspenseLoans } from '@/utils/mobileMoney';
+
+interface ReconciliationAdjustmentDialogProps {
+  line: StatementReconciliationLine | null;
+  onClose: () => void;
+  onPosted: () => void;
+}
+
+// Money on the statement but not in the books is a credit; the reverse is a debit
+const suggestedAdjustment = (line: StatementReconciliationLine): { amount: number; direction: AdjustmentDirection } => {
+  if (line.match_status === 'missing') return { amount: line.amount || 0, direction: 'credit' };
+  if (line.match_status === 'not_in_statement') return { amount: line.system_amount || 0, direction: 'debit' };
+  return { amount: Math.abs(line.difference), direction: line.difference >= 0 ? 'credit' : 'debit' };
+};
+
+export const ReconciliationAdjustmentDialog: React.FC<ReconciliationAdjustmentDialogProps> = ({ line, onClose, onPosted }) => {
+  const [amount, setAmount] = useState(0);
+  const [direction, setDirection] = useState<AdjustmentDirection>('credit');
+  const [note, setNote] = useState('');
+  const [loanSearch, setLoanSearch] = useState('');
+  const [loanOptions, setLoanOptions] = useState<SuspenseLoanOption[]>([]);
+  const [loanId, setLoanId] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+    if (!line) return;
+    const suggestion = suggestedAdjustment(line);
+    setAmount(suggestion.amount);
+    setDirection(suggestion.direction);
+    setNote('');
+    setLoanId(line.loan_id || null);
+    setLoanSearch('');
+    setLoanOptions([]);
+  }, [line]);
+
+  useEffect(() => {
+    if (!line || loanSearch.trim().length < 2) return;
+    const timeoutId = setTimeout(async () => {
+      try {
+        setLoanOptions(await searchSuspenseLoans(loanSearch));
+      } catch (error: any) {
+        toast.error('Loan search failed', { description: error.message });
+      }
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [loanSearch, line]);
+
+  const handlePost = async () => {
+    if (!line) return;
+    if (amount <= 0) {
+      toast.warning('Enter an amount greater than zero.');
+      return;
+    }
+    if (!note.trim()) {
+      toast.warning('Please explain the adjustment.');
+      return;
+    }
+    setIsPosting(true);
+    try {
+      await postReconciliationAdjustment({ lineId: line.id, loanId, amount, direction, note: note.trim() });
+      toast.success('Adjustment posted.');
+      onPosted();
+    } catch (error: any) {
+      toast.error('Failed to post adjustment', { description: error.message });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!line} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Post Adjustment</DialogTitle>
+          <DialogDescription>
+            {line?.reference || line?.system_reference} · an adjustment transaction is recorded and the line is marked resolved.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-amount">Amount (KES)</Label>
+              <Input
+                id="adjustment-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Direction</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as AdjustmentDirection)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="credit">Credit (money received)</SelectItem>
+                  <SelectItem value="debit">Debit (reverse a recording)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-loan">Loan (optional)</Label>
+            <Input
+              id="adjustment-loan"
+              value={loanSearch}
+              onChange={(e) => setLoanSearch(e.target.value)}
+              placeholder={loanId ? 'Linked to the matched loan - search to change' : 'Member name, phone, ID number or account number'}
+            />
+            {loanOptions.length > 0 && (
+              <div className="max-h-40 overflow-y-auto border rounded-md divide-y">
+                {loanOptions.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setLoanId(option.id)}
+                    className={`w-full text-left p-2 text-sm hover:bg-muted/50 ${loanId === option.id ? 'bg-muted' : ''}`}
+                  >
+                    {option.member_name || 'Unknown member'} · {option.account_number || option.id.slice(0, 8)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-note">Note</Label>
+            <Textarea
+              id="adjustment-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Paybill receipt never captured by the callback"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handlePost} disabled={isPosting}>
+            {isPosting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Post Adjustment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
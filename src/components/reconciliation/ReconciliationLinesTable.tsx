@@ -0,0 +1,100 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import type { ReconciliationLineResult, ReconciliationMatchStatus } from '@/types';
+import { MATCH_STATUS_LABELS } from '@/utils/reconciliation';
+
+const STATUS_VARIANTS: Record<ReconciliationMatchStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  matched: 'default',
+  mismatched: 'destructive',
+  missing: 'destructive',
+  duplicate: 'secondary',
+  not_in_statement: 'outline',
+};
+
+interface ReconciliationLinesTableProps<T extends ReconciliationLineResult> {
+  lines: T[];
+  renderActions?: (line: T) => React.ReactNode;
+  emptyStateMessage?: string;
+}
+
+const formatCurrency = (amount: number | null): string =>
+  amount === null ? '-' : new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount);
+
+export const ReconciliationLinesTable = <T extends ReconciliationLineResult>({
+  lines,
+  renderActions,
+  emptyStateMessage = 'No lines to show.',
+}: ReconciliationLinesTableProps<T>) => {
+  if (lines.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-muted-foreground">{emptyStateMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollableContainer>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Line</TableHead>
+            <TableHead>Statement</TableHead>
+            <TableHead className="text-right">Statement Amount</TableHead>
+            <TableHead>System Record</TableHead>
+            <TableHead className="text-right">System Amount</TableHead>
+            <TableHead className="text-right">Difference</TableHead>
+            <TableHead>Status</TableHead>
+            {renderActions && <TableHead className="text-right">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.map((line, idx) => (
+            <TableRow key={`${line.line_number ?? 'sys'}-${line.loan_payment_id ?? idx}`}>
+              <TableCell className="text-muted-foreground">{line.line_number ?? '-'}</TableCell>
+              <TableCell>
+                {line.line_number === null ? (
+                  <span className="text-muted-foreground">-</span>
+                ) : (
+                  <div>
+                    <div className="font-mono text-sm">{line.reference || '(no reference)'}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {line.transaction_date && new Date(line.transaction_date).toLocaleDateString()}
+                      {line.description && ` · ${line.description}`}
+                    </div>
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(line.amount)}</TableCell>
+              <TableCell>
+                {line.system_reference ? (
+                  <div>
+                    <div className="font-mono text-sm">{line.system_reference}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {line.system_date && new Date(line.system_date).toLocaleDateString()}
+                    </div>
+                  </div>
+                ) : (
+                  <span className="text-muted-foreground">-</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrency(line.system_amount)}</TableCell>
+              <TableCell className={`text-right font-medium ${Math.abs(line.difference) >= 0.01 && line.match_status !== 'duplicate' ? 'text-destructive' : ''}`}>
+                {line.match_status === 'duplicate' ? '-' : formatCurrency(line.difference)}
+              </TableCell>
+              <TableCell>
+                <div className="space-y-1">
+                  <Badge variant={STATUS_VARIANTS[line.match_status]}>{MATCH_STATUS_LABELS[line.match_status]}</Badge>
+                  {line.note && <div className="text-xs text-muted-foreground max-w-xs">{line.note}</div>}
+                </div>
+              </TableCell>
+              {renderActions && <TableCell className="text-right">{renderActions(line)}</TableCell>}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </ScrollableContainer>
+  );
+};
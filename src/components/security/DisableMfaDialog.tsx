@@ -50,9 +50,6 @@ export const DisableMfaDialog: React.FC<DisableMfaDialogProps> = ({ open, onOpen
       });
       if (error) throw error;
 
-      // Clear any local MFA verified flags for this user as well
-      localStorage.removeItem(`mfa_verified_${selectedUser.id}`);
-
       toast.success("MFA Disabled", { 
         description: `Removed ${data?.removed ?? 0} factor(s) for ${selectedUser.full_name}. They can re-enroll on next login.` 
       });
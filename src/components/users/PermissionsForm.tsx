@@ -7,12 +7,15 @@ interface PermissionsFormProps {
   selectedPermissions: Permission[];
   onChange: (permission: Permission, checked: boolean) => void;
   disabled?: boolean;
+  // Already granted by the user's role template: shown ticked and locked
+  inheritedPermissions?: Permission[];
 }
 
 export const PermissionsForm: React.FC<PermissionsFormProps> = ({ 
   selectedPermissions, 
   onChange, 
-  disabled = false 
+  disabled = false,
+  inheritedPermissions = []
 }) => {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -26,15 +29,18 @@ export const PermissionsForm: React.FC<PermissionsFormProps> = ({
               <div key={permission} className="flex items-center space-x-2">
                 <Checkbox
                   id={permission}
-                  checked={selectedPermissions.includes(permission)}
+                  checked={selectedPermissions.includes(permission) || inheritedPermissions.includes(permission)}
                   onCheckedChange={(checked) => onChange(permission, !!checked)}
-                  disabled={disabled}
+                  disabled={disabled || inheritedPermissions.includes(permission)}
                 />
                 <label
                   htmlFor={permission}
                   className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                 >
                   {PERMISSIONS[permission]}
+                  {inheritedPermissions.includes(permission) && (
+                    <span className="ml-1 text-xs font-normal text-muted-foreground">(from role)</span>
+                  )}
                 </label>
               </div>
             ))}
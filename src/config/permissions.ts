@@ -26,6 +26,8 @@ export const PERMISSIONS = {
   'loans.edit': 'Edit Loans',
   'loans.delete': 'Delete Loans',
   'loans.approve': 'Approve Loans',
+  'loans.approve_changes': 'Approve Loan Edits, Deletions and Write-offs',
+  'loans.disburse': 'Disburse Loans',
   'loans.receive_payments': 'Receive Loan Payments',
   'loans.view_overdue': 'View Overdue Loans',
   'loans.write_off': 'Write Off Loans',
@@ -37,9 +39,12 @@ export const PERMISSIONS = {
   'expenses.create': 'Create Expenses',
   'expenses.edit': 'Edit Expenses',
   'expenses.delete': 'Delete Expenses',
+  'expenses.approve': 'Approve Expenses',
   'income.view': 'View Income',
   'income.create': 'Create Income',
   'income.edit': 'Edit Income',
+  'ledger.view': 'View General Ledger',
+  'ledger.post': 'Post Manual Journal Entries',
 
   // Reports & Analytics
   'reports.view.realizable': 'View Realizable Report',
@@ -55,10 +60,15 @@ export const PERMISSIONS = {
   'branches.edit': 'Edit Branches',
   'branches.delete': 'Delete Branches',
   'branches.activate': 'Activate/Deactivate Branches',
+  'branches.view_all': 'See Data From Every Branch',
   'settings.view': 'View Settings',
   'settings.edit': 'Edit Settings',
   'security.view': 'View Security Settings',
   'security.edit': 'Edit Security Settings',
+  'audit.view': 'View Audit Trail',
+  'backups.view': 'View Backups',
+  'backups.create': 'Run Backups',
+  'backups.restore': 'Restore Backups',
 
   // Communication & Notifications
   'notifications.view': 'View Notifications',
@@ -114,6 +124,8 @@ export const PERMISSION_GROUPS = {
       'loans.edit',
       'loans.delete',
       'loans.approve',
+      'loans.approve_changes',
+      'loans.disburse',
       'loans.receive_payments',
       'loans.view_overdue',
       'loans.write_off',
@@ -128,9 +140,12 @@ export const PERMISSION_GROUPS = {
       'expenses.create',
       'expenses.edit',
       'expenses.delete',
+      'expenses.approve',
       'income.view',
       'income.create',
-      'income.edit'
+      'income.edit',
+      'ledger.view',
+      'ledger.post'
     ] as Permission[]
   },
   reports: {
@@ -152,10 +167,15 @@ export const PERMISSION_GROUPS = {
       'branches.edit',
       'branches.delete',
       'branches.activate',
+      'branches.view_all',
       'settings.view',
       'settings.edit',
       'security.view',
-      'security.edit'
+      'security.edit',
+      'audit.view',
+      'backups.view',
+      'backups.create',
+      'backups.restore'
     ] as Permission[]
   },
   communication: {
@@ -176,4 +196,17 @@ export const PERMISSION_GROUPS = {
   }
 } as const;
 
-export type PermissionGroup = keyof typeof PERMISSION_GROUPS;
\ No newline at end of file
+export type PermissionGroup = keyof typeof PERMISSION_GROUPS;
+
+// Roles whose permissions come from an editable template; super_admin always has every permission
+export const TEMPLATE_ROLES = ['admin', 'branch_admin', 'loan_officer', 'teller', 'auditor'] as const;
+
+export type TemplateRole = typeof TEMPLATE_ROLES[number];
+
+export const TEMPLATE_ROLE_LABELS: Record<TemplateRole, string> = {
+  admin: 'Admin',
+  branch_admin: 'Branch Admin',
+  loan_officer: 'Loan Officer',
+  teller: 'Teller',
+  auditor: 'Auditor',
+};
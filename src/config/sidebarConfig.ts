@@ -1,7 +1,8 @@
 import {
   LayoutDashboard, Users, CreditCard, Search, FileText, Settings, User, Shield, UserCheck,
   UsersRound, Clock, AlertTriangle, Trash2, Building, Banknote, Receipt, DollarSign,
-  Bell, HandCoins, TrendingUp, BarChart3
+  Bell, HandCoins, TrendingUp, BarChart3, Package, Smartphone, FileCheck, GitBranch, Wallet,
+  MessageSquare, MailCheck, PieChart, Scale, BookOpen, Landmark, History, KeyRound, GitPullRequest
 } from 'lucide-react';
 import { NavGroup, UserRole } from '@/types';
 
@@ -68,6 +69,12 @@ export const sidebarConfig: NavGroup[] = [
         icon: HandCoins,
         requiredRoles: ['super_admin', 'admin', 'branch_admin', 'loan_officer']
       },
+      {
+        title: 'M-Pesa Suspense',
+        url: '/payments/suspense',
+        icon: Smartphone,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'loan_officer', 'auditor']
+      },
       { 
         title: 'Loans Overdue', 
         url: '/daily-overdue', 
@@ -80,6 +87,18 @@ export const sidebarConfig: NavGroup[] = [
         icon: Shield,
         requiredRoles: ['super_admin', 'admin', 'branch_admin']
       },
+      {
+        title: 'Disbursements',
+        url: '/loans/disbursements',
+        icon: Wallet,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin']
+      },
+      {
+        title: 'Pending Changes',
+        url: '/loans/changes',
+        icon: GitPullRequest,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
+      },
      
     ],
   },
@@ -104,6 +123,24 @@ export const sidebarConfig: NavGroup[] = [
         icon: TrendingUp,
         requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
       },
+      {
+        title: 'Reconciliation',
+        url: '/reconciliation',
+        icon: FileCheck,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
+      },
+      {
+        title: 'Loan Loss Provisioning',
+        url: '/provisioning',
+        icon: Scale,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
+      },
+      {
+        title: 'Trial Balance',
+        url: '/trial-balance',
+        icon: BookOpen,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
+      },
     ],
   },
   {
@@ -127,6 +164,24 @@ export const sidebarConfig: NavGroup[] = [
         icon: Trash2,
         requiredRoles: ['super_admin', 'admin', 'auditor']
       },
+      {
+        title: 'Portfolio at Risk',
+        url: '/portfolio-at-risk',
+        icon: PieChart,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'loan_officer', 'auditor']
+      },
+      {
+        title: 'Financial Statements',
+        url: '/financial-statements',
+        icon: Landmark,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
+      },
+      {
+        title: 'Scheduled Reports',
+        url: '/scheduled-reports',
+        icon: MailCheck,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'loan_officer', 'auditor']
+      },
     ],
   },
   {
@@ -144,17 +199,47 @@ export const sidebarConfig: NavGroup[] = [
         icon: Building,
         requiredRoles: ['super_admin', 'admin', 'auditor']
       },
+      {
+        title: 'Loan Products',
+        url: '/loan-products',
+        icon: Package,
+        requiredRoles: ['super_admin', 'admin']
+      },
+      {
+        title: 'Approval Rules',
+        url: '/loan-approval-rules',
+        icon: GitBranch,
+        requiredRoles: ['super_admin', 'admin']
+      },
+      {
+        title: 'SMS Outbox',
+        url: '/sms',
+        icon: MessageSquare,
+        requiredRoles: ['super_admin', 'admin', 'branch_admin', 'auditor']
+      },
       {
         title: 'Activity Logs',
         url: '/activity-logs',
         icon: Clock,
         requiredRoles: ['super_admin']
       },
+      {
+        title: 'Audit Trail',
+        url: '/audit-trail',
+        icon: History,
+        requiredPermission: 'audit.view'
+      },
+      {
+        title: 'Roles & Permissions',
+        url: '/roles',
+        icon: KeyRound,
+        requiredPermission: 'users.manage_permissions'
+      },
       {
         title: 'Backups',
         url: '/backups',
         icon: FileText,
-        requiredRoles: ['super_admin','admin']
+        requiredPermission: 'backups.view'
       },
     ],
   },
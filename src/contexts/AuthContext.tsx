@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, useRef } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
@@ -10,6 +10,9 @@ interface AuthContextType {
   userRole: string | null;
   profile: any | null;
   permissions: Permission[];
+  // Set when the permissions could not be loaded; the last good list is kept
+  permissionsError: string | null;
+  permissionsLoading: boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error?: any }>;
   signOut: () => Promise<void>;
@@ -20,6 +23,38 @@ interface AuthContextType {
   refreshPermissions: () => Promise<void>;
 }
 
+const PERMISSION_LOAD_ATTEMPTS = 3;
+const PERMISSION_LOAD_TIMEOUT_MS = 5000;
+
+type PermissionsResponse =
+  | { data: string[] | null; error: { message: string } | null }
+  | { timedOut: true };
+
+/**
+ * Fetches the user's effective permissions (role template plus personal grants).
+ * A slow or failed request is retried, then throws: an empty list would quietly
+ * lock the user out of every guarded page.
+ */
+const fetchUserPermissions = async (): Promise<Permission[]> => {
+  let lastError = 'Timed out loading permissions';
+  for (let attempt = 1; attempt <= PERMISSION_LOAD_ATTEMPTS; attempt++) {
+    const timeoutPromise = new Promise<PermissionsResponse>((resolve) =>
+      setTimeout(() => resolve({ timedOut: true }), PERMISSION_LOAD_TIMEOUT_MS)
+    );
+
+    const result: PermissionsResponse = await Promise.race([supabase.rpc('get_my_permissions'), timeoutPromise]);
+
+    if ('timedOut' in result) {
+      lastError = 'Timed out loading permissions';
+    } else if (result.error) {
+      lastError = result.error.message;
+    } else {
+      return (result.data || []) as Permission[];
+    }
+  }
+  throw new Error(lastError);
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -36,6 +71,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [userRole, setUserRole] = useState<string | null>(null);
   const [profile, setProfile] = useState<any | null>(null);
   const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [permissionsError, setPermissionsError] = useState<string | null>(null);
+  const [permissionsLoading, setPermissionsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const isFetching = useRef(false);
 
@@ -79,41 +116,36 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   /**
-   * Fetches user-specific permissions from database with timeout protection
-   * Returns empty array on timeout or error (graceful degradation)
+   * Loads the permissions into state. On failure the last good list is kept and
+   * the user is told, with a retry, instead of silently losing access.
    */
-  const fetchUserPermissions = async (userId: string): Promise<Permission[]> => {
+  const loadPermissions = useCallback(async () => {
+    setPermissionsLoading(true);
     try {
-      // Timeout protection - returns empty array after 2 seconds
-      const timeoutPromise = new Promise<{ data: null; error: null }>((resolve) => 
-        setTimeout(() => resolve({ data: null, error: null }), 2000)
-      );
-      
-      const queryPromise = supabase
-        .from('user_permissions')
-        .select('permission')
-        .eq('user_id', userId);
-      
-      const result = await Promise.race([queryPromise, timeoutPromise]) as any;
-      
-      if (result.error || !result.data || result.data.length === 0) {
-        return [];
-      }
-      
-      return result.data.map((p: any) => p.permission as Permission);
+      const userPermissions = await fetchUserPermissions();
+      setPermissions(userPermissions);
+      setPermissionsError(null);
     } catch (error) {
-      // Graceful failure - permission table may not exist yet
-      return [];
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      setPermissionsError(message);
+      toast.error('Could not load your permissions', {
+        description: message,
+        action: {
+          label: 'Retry',
+          onClick: () => { void loadPermissions(); }
+        }
+      });
+    } finally {
+      setPermissionsLoading(false);
     }
-  };
+  }, []);
 
   /**
    * Public method to refresh user permissions (called when permissions change)
    */
   const refreshPermissions = async () => {
     if (user?.id) {
-      const userPermissions = await fetchUserPermissions(user.id);
-      setPermissions(userPermissions);
+      await loadPermissions();
     }
   };
 
@@ -153,15 +185,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               isFetching.current = true;
               try {
                 // Fetch role and permissions in parallel for better performance
-                const [{ role, profile: userProfile }, userPermissions] = await Promise.all([
+                const [{ role, profile: userProfile }] = await Promise.all([
                   fetchUserRoleAndProfile(session.user.id),
-                  fetchUserPermissions(session.user.id)
+                  loadPermissions()
                 ]);
                 
                 if (mounted) {
                   setUserRole(role);
                   setProfile(userProfile);
-                  setPermissions(userPermissions);
                 }
               } catch (error) {
                 // Error already handled in fetch functions
@@ -176,11 +207,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             if (!isFetching.current && !profile) {
               isFetching.current = true;
               fetchUserRoleAndProfile(session.user.id).then(({ role, profile: userProfile }) => {
-                fetchUserPermissions(session.user.id).then((userPermissions) => {
+                loadPermissions().then(() => {
                   if (mounted) {
                     setUserRole(role);
                     setProfile(userProfile);
-                    setPermissions(userPermissions);
                   }
                   isFetching.current = false;
                 });
@@ -192,19 +222,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           setUserRole(null);
           setProfile(null);
           setPermissions([]);
+          setPermissionsError(null);
         }
         
-        // Clean up MFA verification flags on sign out
         if (event === 'SIGNED_OUT') {
           try { supabase.functions.invoke('log-auth-event', { body: { event_type: 'logout' } } as any); } catch {}
-          try {
-            const keysToRemove: string[] = [];
-            for (let i = 0; i < localStorage.length; i++) {
-              const k = localStorage.key(i);
-              if (k && k.startsWith('mfa_verified_')) keysToRemove.push(k);
-            }
-            keysToRemove.forEach((k) => localStorage.removeItem(k));
-          } catch {}
         }
 
         clearTimeout(safetyTimeout);
@@ -222,7 +244,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       subscription.unsubscribe();
     };
-  }, []);
+  }, [loadPermissions]);
 
   // Lightweight presence updates that don't block UI
   useEffect(() => {
@@ -261,7 +283,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   /**
-   * Sign out current user and clear MFA flags
+   * Sign out current user
    */
   const signOut = async () => {
     try {
@@ -270,16 +292,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         toast.error(error.message);
         throw error;
       }
-      
-      // Clear MFA verification flag for this user
-      try {
-        const { data } = await supabase.auth.getSession();
-        const userId = data?.session?.user?.id;
-        if (userId) {
-          localStorage.removeItem(`mfa_verified_${userId}`);
-        }
-      } catch {}
-      
+
       toast.success('Successfully signed out');
     } catch (error) {
       toast.error('Error signing out');
@@ -289,10 +302,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   /**
    * Check if user has a specific permission
-   * Super admins and admins always have all permissions
+   * Super admins always have all permissions; everyone else gets their role template plus personal grants
    */
   const hasPermission = (permission: Permission): boolean => {
-    if (userRole === 'super_admin' || userRole === 'admin') return true;
+    if (userRole === 'super_admin') return true;
     return permissions.includes(permission);
   };
 
@@ -302,6 +315,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     userRole,
     profile,
     permissions,
+    permissionsError,
+    permissionsLoading,
     loading,
     signIn,
     signOut,
@@ -0,0 +1,74 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from './AuthContext';
+import type { AccessibleBranch } from '@/types';
+import { BranchContext } from '@/hooks/useBranch';
+import { fetchMyBranches, setActiveBranch } from '@/utils/branchAccess';
+
+export const BranchProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, hasPermission } = useAuth();
+  const userId = user?.id;
+  const hasAllBranches = hasPermission('branches.view_all');
+  const [branches, setBranches] = useState<AccessibleBranch[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setIsLoading(true);
+    try {
+      const rows = await fetchMyBranches();
+      setBranches(rows);
+      setActiveBranchId(rows.find(b => b.is_active_branch)?.branch_id ?? null);
+    } catch (error) {
+      console.error('Error loading branches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) {
+      setBranches([]);
+      setActiveBranchId(null);
+      return;
+    }
+    refresh();
+  }, [userId, refresh]);
+
+  const switchBranch = async (branchId: number | null) => {
+    if (branchId === activeBranchId) return;
+    try {
+      await setActiveBranch(branchId);
+      setActiveBranchId(branchId);
+      setBranches(prev => prev.map(b => ({ ...b, is_active_branch: b.branch_id === branchId })));
+    } catch (error: any) {
+      toast.error('Failed to switch branch', { description: error.message });
+    }
+  };
+
+  const canAccessBranch = (branchId: number | string | null | undefined) => {
+    if (branchId === null || branchId === undefined || branchId === '') {
+      return hasAllBranches && activeBranchId === null;
+    }
+    const id = Number(branchId);
+    if (activeBranchId !== null) return id === activeBranchId;
+    return hasAllBranches || branches.some(b => b.branch_id === id);
+  };
+
+  return (
+    <BranchContext.Provider
+      value={{
+        branches,
+        activeBranchId,
+        hasAllBranches,
+        switchBranch,
+        canAccessBranch,
+        refresh,
+        isLoading,
+      }}
+    >
+      {children}
+    </BranchContext.Provider>
+  );
+};
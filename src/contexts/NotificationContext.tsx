@@ -1,27 +1,23 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { toast } from 'sonner';
 import { useAuth } from './AuthContext';
-
-export interface Notification {
-  id: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  title: string;
-  message: string;
-  loan_id?: string;
-  member_name?: string;
-  amount?: number;
-  created_at: string;
-  read: boolean;
-  is_read: boolean;
-  user_id: string;
-}
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AppNotification } from '@/types';
+import {
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  normalizeNotification,
+} from '@/utils/notifications';
 
 interface NotificationContextType {
-  notifications: Notification[];
+  notifications: AppNotification[];
   unreadCount: number;
-  markAsRead: (id: string) => void;
-  markAllAsRead: () => void;
-  addNotification: (notification: Omit<Notification, 'id' | 'created_at' | 'read' | 'is_read' | 'user_id'>) => void;
-  clearAll: () => void;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  refresh: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -37,38 +33,90 @@ export const useNotifications = () => {
 
 export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const userId = user?.id;
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Mock notifications functionality for now
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setIsLoading(true);
+    try {
+      const [rows, unread] = await Promise.all([
+        fetchNotifications(userId),
+        fetchUnreadNotificationCount(userId),
+      ]);
+      setNotifications(rows);
+      setUnreadCount(unread);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
 
-  const markAsRead = async (id: string) => {
-    setNotifications(prev => 
-      prev.map(n => n.id === id ? { ...n, read: true, is_read: true } : n)
-    );
-  };
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
 
-  const markAllAsRead = async () => {
-    setNotifications(prev => 
-      prev.map(n => ({ ...n, read: true, is_read: true }))
-    );
-  };
+    refresh();
 
-  const addNotification = (notification: Omit<Notification, 'id' | 'created_at' | 'read' | 'is_read' | 'user_id'>) => {
-    const newNotification: Notification = {
-      ...notification,
-      id: Math.random().toString(36).substr(2, 9),
-      created_at: new Date().toISOString(),
-      read: false,
-      is_read: false,
-      user_id: user?.id || '',
+    // --- REAL-TIME: alerts are written by the database, so listen for them ---
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on<Tables<'notifications'>>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, (payload) => {
+        const notification = normalizeNotification(payload.new);
+        setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+        if (!notification.is_read) {
+          setUnreadCount(prev => prev + 1);
+          toast(notification.title, { description: notification.message });
+        }
+      })
+      .on<Tables<'notifications'>>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, (payload) => {
+        const notification = normalizeNotification(payload.new);
+        setNotifications(prev => prev.map(n => n.id === notification.id ? notification : n));
+        // Reads may come from another tab, so recount rather than adjust
+        fetchUnreadNotificationCount(userId).then(setUnreadCount).catch(() => {});
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, (payload) => {
+        setNotifications(prev => prev.filter(n => n.id !== payload.old.id));
+        fetchUnreadNotificationCount(userId).then(setUnreadCount).catch(() => {});
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
     };
-    setNotifications(prev => [newNotification, ...prev]);
+  }, [userId, refresh]);
+
+  const markAsRead = async (id: string) => {
+    const target = notifications.find(n => n.id === id);
+    if (!target || target.is_read) return;
+    try {
+      await markNotificationsRead([id]);
+      setNotifications(prev =>
+        prev.map(n => n.id === id ? { ...n, is_read: true, read_at: new Date().toISOString() } : n)
+      );
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    } catch (error: any) {
+      toast.error('Failed to mark notification as read', { description: error.message });
+    }
   };
 
-  const clearAll = () => {
-    setNotifications([]);
+  const markAllAsRead = async () => {
+    if (!userId) return;
+    try {
+      await markAllNotificationsRead(userId);
+      setNotifications(prev =>
+        prev.map(n => n.is_read ? n : { ...n, is_read: true, read_at: new Date().toISOString() })
+      );
+      setUnreadCount(0);
+    } catch (error: any) {
+      toast.error('Failed to mark all notifications as read', { description: error.message });
+    }
   };
 
   return (
@@ -78,12 +126,11 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
         unreadCount,
         markAsRead,
         markAllAsRead,
-        addNotification,
-        clearAll,
+        refresh,
         isLoading,
       }}
     >
       {children}
     </NotificationContext.Provider>
   );
-};
\ No newline at end of file
+};
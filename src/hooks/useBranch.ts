@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { AccessibleBranch } from '@/types';
+
+// Kept apart from BranchProvider so the provider module only exports components
+export interface BranchContextType {
+  branches: AccessibleBranch[];
+  // null: every branch the user can see
+  activeBranchId: number | null;
+  hasAllBranches: boolean;
+  switchBranch: (branchId: number | null) => Promise<void>;
+  // Mirrors public.can_access_branch; the database applies the same rule to every query
+  canAccessBranch: (branchId: number | string | null | undefined) => boolean;
+  refresh: () => Promise<void>;
+  isLoading: boolean;
+}
+
+export const BranchContext = createContext<BranchContextType | null>(null);
+
+export const useBranch = () => {
+  const context = useContext(BranchContext);
+  if (!context) {
+    throw new Error('useBranch must be used within a BranchProvider');
+  }
+  return context;
+};
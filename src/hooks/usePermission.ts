@@ -0,0 +1,12 @@
+import { useAuth } from '@/contexts/AuthContext';
+import type { Permission } from '@/config/permissions';
+
+/**
+ * True when the signed-in user holds the permission, or every one of them when given a list.
+ * Mirrors public.has_permission on the server, which is what actually enforces access.
+ */
+export const usePermission = (permission: Permission | Permission[]): boolean => {
+  const { hasPermission } = useAuth();
+  const required = Array.isArray(permission) ? permission : [permission];
+  return required.every(hasPermission);
+};
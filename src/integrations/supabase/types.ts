@@ -78,7 +78,91 @@ export type Database = {
           table_name?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      auth_logs: {
+        Row: {
+          created_at: string
+          event: string
+          id: string
+          ip: string | null
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          event: string
+          id?: string
+          ip?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          event?: string
+          id?: string
+          ip?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auth_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      backup_metadata: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          details: string | null
+          id: string
+          object_count: number
+          path: string
+          status: string
+          total_size_bytes: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          details?: string | null
+          id?: string
+          object_count: number
+          path: string
+          status?: string
+          total_size_bytes?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          details?: string | null
+          id?: string
+          object_count?: number
+          path?: string
+          status?: string
+          total_size_bytes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "backup_metadata_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       branches: {
         Row: {
@@ -353,6 +437,136 @@ export type Database = {
         }
         Relationships: []
       }
+      email_outbox: {
+        Row: {
+          attempts: number
+          body: string
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          member_id: string | null
+          recipient_email: string
+          recipient_name: string | null
+          report_params: Json | null
+          report_subscription_id: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          subject: string
+          template_code: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          body: string
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          member_id?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          report_params?: Json | null
+          report_subscription_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          template_code: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          body?: string
+          created_at?: string
+          dedupe_key?: string | null
+          id?: string
+          last_error?: string | null
+          member_id?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          report_params?: Json | null
+          report_subscription_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          template_code?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_report_subscription_id_fkey"
+            columns: ["report_subscription_id"]
+            isOneToOne: false
+            referencedRelation: "report_subscriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_template_code_fkey"
+            columns: ["template_code"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "email_outbox_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_templates: {
+        Row: {
+          body: string
+          code: string
+          is_active: boolean
+          name: string
+          subject: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          body: string
+          code: string
+          is_active?: boolean
+          name: string
+          subject: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          body?: string
+          code?: string
+          is_active?: boolean
+          name?: string
+          subject?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_templates_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expense_approvals: {
         Row: {
           action: string
@@ -504,6 +718,7 @@ export type Database = {
           created_at: string | null
           created_by: string
           description: string | null
+          gl_account_code: string | null
           id: string
           is_active: boolean | null
           name: string
@@ -515,6 +730,7 @@ export type Database = {
           created_at?: string | null
           created_by: string
           description?: string | null
+          gl_account_code?: string | null
           id?: string
           is_active?: boolean | null
           name: string
@@ -526,6 +742,7 @@ export type Database = {
           created_at?: string | null
           created_by?: string
           description?: string | null
+          gl_account_code?: string | null
           id?: string
           is_active?: boolean | null
           name?: string
@@ -553,6 +770,13 @@ export type Database = {
             referencedRelation: "user_profile_view"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expense_categories_gl_account_code_fkey"
+            columns: ["gl_account_code"]
+            isOneToOne: false
+            referencedRelation: "gl_accounts"
+            referencedColumns: ["code"]
+          },
         ]
       }
       expense_reports: {
@@ -747,6 +971,205 @@ export type Database = {
           },
         ]
       }
+      gl_accounts: {
+        Row: {
+          account_type: string
+          cash_flow_activity: string
+          code: string
+          created_at: string
+          description: string | null
+          is_active: boolean
+          is_cash: boolean
+          is_system: boolean
+          name: string
+          normal_balance: string
+        }
+        Insert: {
+          account_type: string
+          cash_flow_activity?: string
+          code: string
+          created_at?: string
+          description?: string | null
+          is_active?: boolean
+          is_cash?: boolean
+          is_system?: boolean
+          name: string
+          normal_balance: string
+        }
+        Update: {
+          account_type?: string
+          cash_flow_activity?: string
+          code?: string
+          created_at?: string
+          description?: string | null
+          is_active?: boolean
+          is_cash?: boolean
+          is_system?: boolean
+          name?: string
+          normal_balance?: string
+        }
+        Relationships: []
+      }
+      gl_loan_income: {
+        Row: {
+          fees_recognized: number
+          interest_recognized: number
+          loan_id: string
+          updated_at: string
+        }
+        Insert: {
+          fees_recognized?: number
+          interest_recognized?: number
+          loan_id: string
+          updated_at?: string
+        }
+        Update: {
+          fees_recognized?: number
+          interest_recognized?: number
+          loan_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gl_loan_income_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: true
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_meeting_attendance: {
+        Row: {
+          amount_collected: number
+          arrears_due: number
+          attendance: string
+          current_due: number
+          expected_amount: number
+          id: string
+          loan_id: string | null
+          loan_payment_id: string | null
+          meeting_id: string
+          member_id: string
+          notes: string | null
+        }
+        Insert: {
+          amount_collected?: number
+          arrears_due?: number
+          attendance: string
+          current_due?: number
+          expected_amount?: number
+          id?: string
+          loan_id?: string | null
+          loan_payment_id?: string | null
+          meeting_id: string
+          member_id: string
+          notes?: string | null
+        }
+        Update: {
+          amount_collected?: number
+          arrears_due?: number
+          attendance?: string
+          current_due?: number
+          expected_amount?: number
+          id?: string
+          loan_id?: string | null
+          loan_payment_id?: string | null
+          meeting_id?: string
+          member_id?: string
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_meeting_attendance_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_meeting_attendance_loan_payment_id_fkey"
+            columns: ["loan_payment_id"]
+            isOneToOne: false
+            referencedRelation: "loan_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_meeting_attendance_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "group_meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_meeting_attendance_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_meetings: {
+        Row: {
+          collected_total: number
+          expected_total: number
+          group_id: number
+          id: string
+          meeting_date: string
+          meeting_time: string | null
+          members_expected: number
+          members_present: number
+          notes: string | null
+          payment_method: string
+          recorded_at: string
+          recorded_by: string | null
+        }
+        Insert: {
+          collected_total?: number
+          expected_total?: number
+          group_id: number
+          id?: string
+          meeting_date: string
+          meeting_time?: string | null
+          members_expected?: number
+          members_present?: number
+          notes?: string | null
+          payment_method?: string
+          recorded_at?: string
+          recorded_by?: string | null
+        }
+        Update: {
+          collected_total?: number
+          expected_total?: number
+          group_id?: number
+          id?: string
+          meeting_date?: string
+          meeting_time?: string | null
+          members_expected?: number
+          members_present?: number
+          notes?: string | null
+          payment_method?: string
+          recorded_at?: string
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_meetings_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_meetings_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       groups: {
         Row: {
           assigned_officer_id: string | null
@@ -885,821 +1308,2601 @@ export type Database = {
           },
         ]
       }
-      loan_increment_levels: {
+      guarantor_recoveries: {
         Row: {
           amount: number
-          created_at: string | null
-          id: number
-          level: number
-          payment_weeks_12: boolean | null
-          payment_weeks_8: boolean | null
-        }
-        Insert: {
-          amount: number
-          created_at?: string | null
-          id?: number
-          level: number
-          payment_weeks_12?: boolean | null
-          payment_weeks_8?: boolean | null
-        }
-        Update: {
-          amount?: number
-          created_at?: string | null
-          id?: number
-          level?: number
-          payment_weeks_12?: boolean | null
-          payment_weeks_8?: boolean | null
-        }
-        Relationships: []
-      }
-      loan_installments: {
-        Row: {
-          amount_paid: number | null
-          created_at: string | null
-          due_date: string
+          guarantor_member_id: string
           id: string
-          installment_number: number
-          interest_amount: number
-          is_paid: boolean | null
+          installment_id: string | null
+          loan_guarantor_id: string
           loan_id: string
-          paid_date: string | null
-          principal_amount: number
-          total_amount: number
-          updated_at: string | null
+          loan_payment_id: string | null
+          notes: string | null
+          payment_method: string
+          payment_reference: string
+          recovered_at: string
+          recovered_by: string | null
+          source: string
+          transaction_id: string | null
         }
         Insert: {
-          amount_paid?: number | null
-          created_at?: string | null
-          due_date: string
+          amount: number
+          guarantor_member_id: string
           id?: string
-          installment_number: number
-          interest_amount: number
-          is_paid?: boolean | null
+          installment_id?: string | null
+          loan_guarantor_id: string
           loan_id: string
-          paid_date?: string | null
-          principal_amount: number
-          total_amount: number
-          updated_at?: string | null
+          loan_payment_id?: string | null
+          notes?: string | null
+          payment_method: string
+          payment_reference: string
+          recovered_at?: string
+          recovered_by?: string | null
+          source: string
+          transaction_id?: string | null
         }
         Update: {
-          amount_paid?: number | null
-          created_at?: string | null
-          due_date?: string
+          amount?: number
+          guarantor_member_id?: string
           id?: string
-          installment_number?: number
-          interest_amount?: number
-          is_paid?: boolean | null
+          installment_id?: string | null
+          loan_guarantor_id?: string
           loan_id?: string
-          paid_date?: string | null
-          principal_amount?: number
-          total_amount?: number
-          updated_at?: string | null
+          loan_payment_id?: string | null
+          notes?: string | null
+          payment_method?: string
+          payment_reference?: string
+          recovered_at?: string
+          recovered_by?: string | null
+          source?: string
+          transaction_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "loan_installments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "guarantor_recoveries_guarantor_member_id_fkey"
+            columns: ["guarantor_member_id"]
             isOneToOne: false
-            referencedRelation: "loan_installment_schedule"
-            referencedColumns: ["loan_id"]
+            referencedRelation: "members"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_installments_loan_id_fkey"
+            foreignKeyName: "guarantor_recoveries_installment_id_fkey"
+            columns: ["installment_id"]
+            isOneToOne: false
+            referencedRelation: "loan_installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantor_recoveries_loan_guarantor_id_fkey"
+            columns: ["loan_guarantor_id"]
+            isOneToOne: false
+            referencedRelation: "loan_guarantors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guarantor_recoveries_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_installments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "guarantor_recoveries_loan_payment_id_fkey"
+            columns: ["loan_payment_id"]
             isOneToOne: false
-            referencedRelation: "loans_with_details"
+            referencedRelation: "loan_payments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_installments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "guarantor_recoveries_recovered_by_fkey"
+            columns: ["recovered_by"]
             isOneToOne: false
-            referencedRelation: "recent_loans"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_installments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "guarantor_recoveries_transaction_id_fkey"
+            columns: ["transaction_id"]
             isOneToOne: false
-            referencedRelation: "recent_loans"
-            referencedColumns: ["member_id"]
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
           },
         ]
       }
-      loan_payments: {
+      journal_entries: {
         Row: {
-          amount: number
-          created_at: string | null
+          branch_id: number | null
+          created_at: string
           created_by: string | null
+          description: string
+          entry_date: string
+          entry_number: string
           id: string
-          installment_number: number
-          loan_id: string
-          notes: string | null
-          payment_date: string
-          payment_reference: string
-          updated_at: string | null
+          reversal_of: string | null
+          reversed_by: string | null
+          source_id: string | null
+          source_type: string
         }
         Insert: {
-          amount: number
-          created_at?: string | null
+          branch_id?: number | null
+          created_at?: string
           created_by?: string | null
+          description: string
+          entry_date: string
+          entry_number?: string
           id?: string
-          installment_number: number
-          loan_id: string
-          notes?: string | null
-          payment_date?: string
-          payment_reference: string
-          updated_at?: string | null
+          reversal_of?: string | null
+          reversed_by?: string | null
+          source_id?: string | null
+          source_type: string
         }
         Update: {
-          amount?: number
-          created_at?: string | null
+          branch_id?: number | null
+          created_at?: string
           created_by?: string | null
+          description?: string
+          entry_date?: string
+          entry_number?: string
           id?: string
-          installment_number?: number
-          loan_id?: string
-          notes?: string | null
-          payment_date?: string
-          payment_reference?: string
-          updated_at?: string | null
+          reversal_of?: string | null
+          reversed_by?: string | null
+          source_id?: string | null
+          source_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "loan_payments_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "journal_entries_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_payments_created_by_fkey"
+            foreignKeyName: "journal_entries_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "super_admin_ids"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_payments_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "journal_entries_reversal_of_fkey"
+            columns: ["reversal_of"]
             isOneToOne: false
-            referencedRelation: "user_profile_view"
+            referencedRelation: "journal_entries"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loan_payments_loan_id_fkey"
-            columns: ["loan_id"]
-            isOneToOne: false
-            referencedRelation: "loan_installment_schedule"
-            referencedColumns: ["loan_id"]
-          },
-          {
-            foreignKeyName: "loan_payments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "journal_entries_reversed_by_fkey"
+            columns: ["reversed_by"]
             isOneToOne: false
-            referencedRelation: "loans"
+            referencedRelation: "journal_entries"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      journal_lines: {
+        Row: {
+          account_code: string
+          credit: number
+          debit: number
+          entry_id: string
+          id: number
+          loan_id: string | null
+          member_id: string | null
+          memo: string | null
+        }
+        Insert: {
+          account_code: string
+          credit?: number
+          debit?: number
+          entry_id: string
+          id?: number
+          loan_id?: string | null
+          member_id?: string | null
+          memo?: string | null
+        }
+        Update: {
+          account_code?: string
+          credit?: number
+          debit?: number
+          entry_id?: string
+          id?: number
+          loan_id?: string | null
+          member_id?: string | null
+          memo?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "loan_payments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "journal_lines_account_code_fkey"
+            columns: ["account_code"]
             isOneToOne: false
-            referencedRelation: "loans_with_details"
-            referencedColumns: ["id"]
+            referencedRelation: "gl_accounts"
+            referencedColumns: ["code"]
           },
           {
-            foreignKeyName: "loan_payments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "journal_lines_entry_id_fkey"
+            columns: ["entry_id"]
             isOneToOne: false
-            referencedRelation: "recent_loans"
+            referencedRelation: "journal_entries"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "loan_payments_loan_id_fkey"
-            columns: ["loan_id"]
-            isOneToOne: false
-            referencedRelation: "recent_loans"
-            referencedColumns: ["member_id"]
-          },
         ]
       }
-      loans: {
+      loan_approval_rules: {
         Row: {
-          account_number: string | null
-          approval_status: string | null
-          approved_at: string | null
-          approved_by: string | null
+          approval_chain: string[]
           branch_id: number | null
           created_at: string
           created_by: string | null
-          current_balance: number
-          customer_id: string
-          deleted_at: string | null
-          deleted_by: string | null
-          due_date: string
-          group_id: number | null
           id: string
-          increment_level: number | null
-          installment_type: string | null
-          interest_disbursed: number | null
-          interest_rate: number
-          interest_type: Database["public"]["Enums"]["interest_type"]
-          is_deleted: boolean | null
-          issue_date: string
-          late_payment_penalty_rate: number | null
-          loan_officer_id: string | null
+          is_active: boolean
           loan_program: string | null
-          member_id: string | null
-          payment_weeks: number
-          penalty_type: string | null
-          previous_loan_id: string | null
-          principal_amount: number
-          processing_fee: number | null
-          rejection_reason: string | null
-          repayment_schedule: Database["public"]["Enums"]["repayment_schedule"]
-          status: Database["public"]["Enums"]["loan_status"]
-          total_disbursed: number | null
-          total_interest_accrued: number
-          total_paid: number
+          max_amount: number | null
+          min_amount: number
+          name: string
           updated_at: string
-          written_off_date: string | null
         }
         Insert: {
-          account_number?: string | null
-          approval_status?: string | null
-          approved_at?: string | null
-          approved_by?: string | null
+          approval_chain: string[]
           branch_id?: number | null
           created_at?: string
           created_by?: string | null
-          current_balance?: number
-          customer_id: string
-          deleted_at?: string | null
-          deleted_by?: string | null
-          due_date: string
-          group_id?: number | null
           id?: string
-          increment_level?: number | null
-          installment_type?: string | null
-          interest_disbursed?: number | null
-          interest_rate: number
-          interest_type?: Database["public"]["Enums"]["interest_type"]
-          is_deleted?: boolean | null
-          issue_date?: string
-          late_payment_penalty_rate?: number | null
-          loan_officer_id?: string | null
+          is_active?: boolean
           loan_program?: string | null
-          member_id?: string | null
-          payment_weeks?: number
-          penalty_type?: string | null
-          previous_loan_id?: string | null
-          principal_amount: number
-          processing_fee?: number | null
-          rejection_reason?: string | null
-          repayment_schedule: Database["public"]["Enums"]["repayment_schedule"]
-          status?: Database["public"]["Enums"]["loan_status"]
-          total_disbursed?: number | null
-          total_interest_accrued?: number
-          total_paid?: number
+          max_amount?: number | null
+          min_amount?: number
+          name: string
           updated_at?: string
-          written_off_date?: string | null
         }
         Update: {
-          account_number?: string | null
-          approval_status?: string | null
-          approved_at?: string | null
-          approved_by?: string | null
+          approval_chain?: string[]
           branch_id?: number | null
           created_at?: string
           created_by?: string | null
-          current_balance?: number
-          customer_id?: string
-          deleted_at?: string | null
-          deleted_by?: string | null
-          due_date?: string
-          group_id?: number | null
           id?: string
-          increment_level?: number | null
-          installment_type?: string | null
-          interest_disbursed?: number | null
-          interest_rate?: number
-          interest_type?: Database["public"]["Enums"]["interest_type"]
-          is_deleted?: boolean | null
-          issue_date?: string
-          late_payment_penalty_rate?: number | null
-          loan_officer_id?: string | null
+          is_active?: boolean
           loan_program?: string | null
-          member_id?: string | null
-          payment_weeks?: number
-          penalty_type?: string | null
-          previous_loan_id?: string | null
-          principal_amount?: number
-          processing_fee?: number | null
-          rejection_reason?: string | null
-          repayment_schedule?: Database["public"]["Enums"]["repayment_schedule"]
-          status?: Database["public"]["Enums"]["loan_status"]
-          total_disbursed?: number | null
-          total_interest_accrued?: number
-          total_paid?: number
+          max_amount?: number | null
+          min_amount?: number
+          name?: string
           updated_at?: string
-          written_off_date?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "loans_approved_by_fkey"
-            columns: ["approved_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "loans_approved_by_fkey"
-            columns: ["approved_by"]
-            isOneToOne: false
-            referencedRelation: "super_admin_ids"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "loans_approved_by_fkey"
-            columns: ["approved_by"]
-            isOneToOne: false
-            referencedRelation: "user_profile_view"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "loans_branch_id_fkey"
+            foreignKeyName: "loan_approval_rules_branch_id_fkey"
             columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "branch_basic_view"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "loan_approval_rules_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "branch_summary_view"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      loan_approvals: {
+        Row: {
+          action: string
+          approval_level: string
+          approved_at: string
+          approver_id: string
+          comments: string | null
+          id: string
+          loan_id: string
+          step_number: number
+          superseded_at: string | null
+        }
+        Insert: {
+          action: string
+          approval_level: string
+          approved_at?: string
+          approver_id: string
+          comments?: string | null
+          id?: string
+          loan_id: string
+          step_number: number
+          superseded_at?: string | null
+        }
+        Update: {
+          action?: string
+          approval_level?: string
+          approved_at?: string
+          approver_id?: string
+          comments?: string | null
+          id?: string
+          loan_id?: string
+          step_number?: number
+          superseded_at?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "loans_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "loan_approvals_approver_id_fkey"
+            columns: ["approver_id"]
             isOneToOne: false
-            referencedRelation: "branches"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "loan_approvals_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "members"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      loan_classification_rules: {
+        Row: {
+          classification: string
+          min_days: number
+          provision_rate: number
+          sort_order: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          classification: string
+          min_days: number
+          provision_rate: number
+          sort_order: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          classification?: string
+          min_days?: number
+          provision_rate?: number
+          sort_order?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "loans_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "loan_classification_rules_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
-            referencedRelation: "members_with_details"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      loan_guarantors: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          guaranteed_amount: number
+          guarantor_member_id: string
+          id: string
+          loan_id: string
+          recovered_amount: number
+          released_at: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          guaranteed_amount: number
+          guarantor_member_id: string
+          id?: string
+          loan_id: string
+          recovered_amount?: number
+          released_at?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          guaranteed_amount?: number
+          guarantor_member_id?: string
+          id?: string
+          loan_id?: string
+          recovered_amount?: number
+          released_at?: string | null
+          status?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "loans_deleted_by_fkey"
-            columns: ["deleted_by"]
+            foreignKeyName: "loan_guarantors_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_deleted_by_fkey"
-            columns: ["deleted_by"]
+            foreignKeyName: "loan_guarantors_guarantor_member_id_fkey"
+            columns: ["guarantor_member_id"]
             isOneToOne: false
-            referencedRelation: "super_admin_ids"
+            referencedRelation: "members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_deleted_by_fkey"
-            columns: ["deleted_by"]
+            foreignKeyName: "loan_guarantors_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "user_profile_view"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      loan_increment_levels: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: number
+          level: number
+          payment_weeks_12: boolean | null
+          payment_weeks_8: boolean | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: number
+          level: number
+          payment_weeks_12?: boolean | null
+          payment_weeks_8?: boolean | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: number
+          level?: number
+          payment_weeks_12?: boolean | null
+          payment_weeks_8?: boolean | null
+        }
+        Relationships: []
+      }
+      loan_installments: {
+        Row: {
+          amount_paid: number | null
+          closed_by_settlement_id: string | null
+          created_at: string | null
+          due_date: string
+          id: string
+          installment_number: number
+          interest_amount: number
+          is_paid: boolean | null
+          loan_id: string
+          paid_date: string | null
+          principal_amount: number
+          replaced_by_restructure_id: string | null
+          restructure_id: string | null
+          total_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          amount_paid?: number | null
+          closed_by_settlement_id?: string | null
+          created_at?: string | null
+          due_date: string
+          id?: string
+          installment_number: number
+          interest_amount: number
+          is_paid?: boolean | null
+          loan_id: string
+          paid_date?: string | null
+          principal_amount: number
+          replaced_by_restructure_id?: string | null
+          restructure_id?: string | null
+          total_amount: number
+          updated_at?: string | null
+        }
+        Update: {
+          amount_paid?: number | null
+          closed_by_settlement_id?: string | null
+          created_at?: string | null
+          due_date?: string
+          id?: string
+          installment_number?: number
+          interest_amount?: number
+          is_paid?: boolean | null
+          loan_id?: string
+          paid_date?: string | null
+          principal_amount?: number
+          replaced_by_restructure_id?: string | null
+          restructure_id?: string | null
+          total_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "loans_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "loan_installments_closed_by_settlement_id_fkey"
+            columns: ["closed_by_settlement_id"]
             isOneToOne: false
-            referencedRelation: "group_summary_view"
+            referencedRelation: "loan_settlements"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "loan_installments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "groups"
-            referencedColumns: ["id"]
+            referencedRelation: "loan_installment_schedule"
+            referencedColumns: ["loan_id"]
           },
           {
-            foreignKeyName: "loans_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "loan_installments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "groups_with_details"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "loan_installments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "members"
+            referencedRelation: "loans_with_details"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "loan_installments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "members_with_details"
+            referencedRelation: "recent_loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_previous_loan_id_fkey"
-            columns: ["previous_loan_id"]
+            foreignKeyName: "loan_installments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "loan_installment_schedule"
-            referencedColumns: ["loan_id"]
+            referencedRelation: "recent_loans"
+            referencedColumns: ["member_id"]
           },
           {
-            foreignKeyName: "loans_previous_loan_id_fkey"
-            columns: ["previous_loan_id"]
+            foreignKeyName: "loan_installments_replaced_by_restructure_id_fkey"
+            columns: ["replaced_by_restructure_id"]
             isOneToOne: false
-            referencedRelation: "loans"
+            referencedRelation: "loan_restructures"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_previous_loan_id_fkey"
-            columns: ["previous_loan_id"]
+            foreignKeyName: "loan_installments_restructure_id_fkey"
+            columns: ["restructure_id"]
             isOneToOne: false
-            referencedRelation: "loans_with_details"
+            referencedRelation: "loan_restructures"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "loans_previous_loan_id_fkey"
-            columns: ["previous_loan_id"]
-            isOneToOne: false
-            referencedRelation: "recent_loans"
+        ]
+      }
+      loan_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          installment_number: number
+          loan_id: string
+          notes: string | null
+          payment_date: string
+          payment_reference: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          installment_number: number
+          loan_id: string
+          notes?: string | null
+          payment_date?: string
+          payment_reference: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          installment_number?: number
+          loan_id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_reference?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "super_admin_ids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "user_profile_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loan_installment_schedule"
+            referencedColumns: ["loan_id"]
+          },
+          {
+            foreignKeyName: "loan_payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["member_id"]
+          },
+        ]
+      }
+      loan_penalties: {
+        Row: {
+          accrual_date: string
+          amount: number
+          base_amount: number
+          charge_number: number
+          created_at: string
+          days_overdue: number
+          id: string
+          installment_id: string
+          installment_number: number
+          loan_id: string
+          paid_at: string | null
+          penalty_rate: number
+          penalty_type: string
+          status: string
+          transaction_id: string | null
+          waived_at: string | null
+          waived_by: string | null
+          waiver_reason: string | null
+        }
+        Insert: {
+          accrual_date: string
+          amount: number
+          base_amount?: number
+          charge_number: number
+          created_at?: string
+          days_overdue: number
+          id?: string
+          installment_id: string
+          installment_number: number
+          loan_id: string
+          paid_at?: string | null
+          penalty_rate: number
+          penalty_type: string
+          status?: string
+          transaction_id?: string | null
+          waived_at?: string | null
+          waived_by?: string | null
+          waiver_reason?: string | null
+        }
+        Update: {
+          accrual_date?: string
+          amount?: number
+          base_amount?: number
+          charge_number?: number
+          created_at?: string
+          days_overdue?: number
+          id?: string
+          installment_id?: string
+          installment_number?: number
+          loan_id?: string
+          paid_at?: string | null
+          penalty_rate?: number
+          penalty_type?: string
+          status?: string
+          transaction_id?: string | null
+          waived_at?: string | null
+          waived_by?: string | null
+          waiver_reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_penalties_installment_id_fkey"
+            columns: ["installment_id"]
+            isOneToOne: false
+            referencedRelation: "loan_installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_penalties_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_penalties_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_penalties_waived_by_fkey"
+            columns: ["waived_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_products: {
+        Row: {
+          allowed_installment_types: string[]
+          amount_levels: number[]
+          code: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          display_order: number
+          id: string
+          interest_method: string
+          interest_rate: number
+          is_active: boolean
+          max_amount: number | null
+          min_amount: number
+          name: string
+          penalty_cap: number | null
+          penalty_grace_days: number
+          penalty_rate: number
+          penalty_type: string
+          processing_fee_type: string
+          processing_fee_value: number
+          term_lengths: number[]
+          updated_at: string
+        }
+        Insert: {
+          allowed_installment_types?: string[]
+          amount_levels?: number[]
+          code: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          display_order?: number
+          id?: string
+          interest_method?: string
+          interest_rate?: number
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name: string
+          penalty_cap?: number | null
+          penalty_grace_days?: number
+          penalty_rate?: number
+          penalty_type?: string
+          processing_fee_type?: string
+          processing_fee_value?: number
+          term_lengths?: number[]
+          updated_at?: string
+        }
+        Update: {
+          allowed_installment_types?: string[]
+          amount_levels?: number[]
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          display_order?: number
+          id?: string
+          interest_method?: string
+          interest_rate?: number
+          is_active?: boolean
+          max_amount?: number | null
+          min_amount?: number
+          name?: string
+          penalty_cap?: number | null
+          penalty_grace_days?: number
+          penalty_rate?: number
+          penalty_type?: string
+          processing_fee_type?: string
+          processing_fee_value?: number
+          term_lengths?: number[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_products_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_provisions: {
+        Row: {
+          branch_id: number | null
+          classification: string
+          days_in_arrears: number
+          loan_id: string
+          outstanding_principal: number
+          provision_rate: number
+          required_provision: number
+          run_id: string
+        }
+        Insert: {
+          branch_id?: number | null
+          classification: string
+          days_in_arrears?: number
+          loan_id: string
+          outstanding_principal: number
+          provision_rate: number
+          required_provision: number
+          run_id: string
+        }
+        Update: {
+          branch_id?: number | null
+          classification?: string
+          days_in_arrears?: number
+          loan_id?: string
+          outstanding_principal?: number
+          provision_rate?: number
+          required_provision?: number
+          run_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_provisions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_provisions_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_provisions_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "provisioning_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_restructures: {
+        Row: {
+          additional_interest: number
+          additional_interest_rate: number
+          arrears_amount: number
+          capitalise_arrears: boolean
+          effective_date: string
+          id: string
+          loan_id: string
+          new_installment_count: number
+          new_installment_type: string
+          old_current_balance: number | null
+          old_due_date: string | null
+          old_installment_count: number | null
+          old_installment_type: string | null
+          previous_schedule: Json | null
+          reason: string
+          rejection_reason: string | null
+          requested_at: string
+          requested_by: string | null
+          rescheduled_interest: number
+          rescheduled_principal: number
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          additional_interest?: number
+          additional_interest_rate?: number
+          arrears_amount?: number
+          capitalise_arrears?: boolean
+          effective_date?: string
+          id?: string
+          loan_id: string
+          new_installment_count: number
+          new_installment_type: string
+          old_current_balance?: number | null
+          old_due_date?: string | null
+          old_installment_count?: number | null
+          old_installment_type?: string | null
+          previous_schedule?: Json | null
+          reason: string
+          rejection_reason?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          rescheduled_interest?: number
+          rescheduled_principal?: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          additional_interest?: number
+          additional_interest_rate?: number
+          arrears_amount?: number
+          capitalise_arrears?: boolean
+          effective_date?: string
+          id?: string
+          loan_id?: string
+          new_installment_count?: number
+          new_installment_type?: string
+          old_current_balance?: number | null
+          old_due_date?: string | null
+          old_installment_count?: number | null
+          old_installment_type?: string | null
+          previous_schedule?: Json | null
+          reason?: string
+          rejection_reason?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          rescheduled_interest?: number
+          rescheduled_principal?: number
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_restructures_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: true
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_restructures_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_restructures_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_settlements: {
+        Row: {
+          as_of_date: string
+          fees_outstanding: number
+          id: string
+          interest_outstanding: number
+          interest_rebate: number
+          loan_id: string
+          loan_payment_id: string | null
+          notes: string | null
+          payment_method: string
+          payment_reference: string
+          penalties_outstanding: number
+          principal_outstanding: number
+          rebate_percent: number
+          rebate_policy: string
+          rebate_transaction_id: string | null
+          settled_at: string
+          settled_by: string | null
+          settlement_amount: number
+          transaction_id: string | null
+          unearned_interest: number
+        }
+        Insert: {
+          as_of_date: string
+          fees_outstanding?: number
+          id?: string
+          interest_outstanding?: number
+          interest_rebate?: number
+          loan_id: string
+          loan_payment_id?: string | null
+          notes?: string | null
+          payment_method: string
+          payment_reference: string
+          penalties_outstanding?: number
+          principal_outstanding?: number
+          rebate_percent: number
+          rebate_policy: string
+          rebate_transaction_id?: string | null
+          settled_at?: string
+          settled_by?: string | null
+          settlement_amount: number
+          transaction_id?: string | null
+          unearned_interest?: number
+        }
+        Update: {
+          as_of_date?: string
+          fees_outstanding?: number
+          id?: string
+          interest_outstanding?: number
+          interest_rebate?: number
+          loan_id?: string
+          loan_payment_id?: string | null
+          notes?: string | null
+          payment_method?: string
+          payment_reference?: string
+          penalties_outstanding?: number
+          principal_outstanding?: number
+          rebate_percent?: number
+          rebate_policy?: string
+          rebate_transaction_id?: string | null
+          settled_at?: string
+          settled_by?: string | null
+          settlement_amount?: number
+          transaction_id?: string | null
+          unearned_interest?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_settlements_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: true
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_settlements_loan_payment_id_fkey"
+            columns: ["loan_payment_id"]
+            isOneToOne: false
+            referencedRelation: "loan_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_settlements_rebate_transaction_id_fkey"
+            columns: ["rebate_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_settlements_settled_by_fkey"
+            columns: ["settled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_settlements_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loans: {
+        Row: {
+          account_number: string | null
+          application_no: string | null
+          approval_chain: string[] | null
+          approval_rule_id: string | null
+          approval_status: string | null
+          approval_step: number
+          approved_at: string | null
+          approved_by: string | null
+          branch_id: number | null
+          created_at: string
+          created_by: string | null
+          current_balance: number
+          customer_id: string
+          deleted_at: string | null
+          deleted_by: string | null
+          disbursed_amount: number | null
+          disbursed_at: string | null
+          disbursed_by: string | null
+          disbursement_date: string | null
+          disbursement_method: string | null
+          disbursement_reference: string | null
+          disbursement_transaction_id: string | null
+          due_date: string
+          early_settlement_rebate: number
+          group_id: number | null
+          id: string
+          increment_level: number | null
+          installment_count: number | null
+          installment_type: string | null
+          interest_disbursed: number | null
+          interest_method: string
+          interest_rate: number
+          interest_type: Database["public"]["Enums"]["interest_type"]
+          is_deleted: boolean | null
+          issue_date: string
+          late_payment_penalty_rate: number | null
+          loan_officer_id: string | null
+          loan_program: string | null
+          member_id: string | null
+          net_disbursement_amount: number | null
+          payment_weeks: number
+          penalty_type: string | null
+          previous_loan_id: string | null
+          principal_amount: number
+          processing_fee: number | null
+          processing_fee_netted: number
+          rejection_reason: string | null
+          repayment_schedule: Database["public"]["Enums"]["repayment_schedule"]
+          restructure_count: number
+          restructured_at: string | null
+          settled_early_at: string | null
+          status: Database["public"]["Enums"]["loan_status"]
+          top_up_settled_at: string | null
+          top_up_settlement_amount: number
+          total_disbursed: number | null
+          total_interest_accrued: number
+          total_paid: number
+          updated_at: string
+          write_off_reason: string | null
+          written_off_amount: number | null
+          written_off_by: string | null
+          written_off_date: string | null
+        }
+        Insert: {
+          account_number?: string | null
+          application_no?: string | null
+          approval_chain?: string[] | null
+          approval_rule_id?: string | null
+          approval_status?: string | null
+          approval_step?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          branch_id?: number | null
+          created_at?: string
+          created_by?: string | null
+          current_balance?: number
+          customer_id: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          disbursed_amount?: number | null
+          disbursed_at?: string | null
+          disbursed_by?: string | null
+          disbursement_date?: string | null
+          disbursement_method?: string | null
+          disbursement_reference?: string | null
+          disbursement_transaction_id?: string | null
+          due_date: string
+          early_settlement_rebate?: number
+          group_id?: number | null
+          id?: string
+          increment_level?: number | null
+          installment_count?: number | null
+          installment_type?: string | null
+          interest_disbursed?: number | null
+          interest_method?: string
+          interest_rate: number
+          interest_type?: Database["public"]["Enums"]["interest_type"]
+          is_deleted?: boolean | null
+          issue_date?: string
+          late_payment_penalty_rate?: number | null
+          loan_officer_id?: string | null
+          loan_program?: string | null
+          member_id?: string | null
+          net_disbursement_amount?: number | null
+          payment_weeks?: number
+          penalty_type?: string | null
+          previous_loan_id?: string | null
+          principal_amount: number
+          processing_fee?: number | null
+          processing_fee_netted?: number
+          rejection_reason?: string | null
+          repayment_schedule: Database["public"]["Enums"]["repayment_schedule"]
+          restructure_count?: number
+          restructured_at?: string | null
+          settled_early_at?: string | null
+          status?: Database["public"]["Enums"]["loan_status"]
+          top_up_settled_at?: string | null
+          top_up_settlement_amount?: number
+          total_disbursed?: number | null
+          total_interest_accrued?: number
+          total_paid?: number
+          updated_at?: string
+          write_off_reason?: string | null
+          written_off_amount?: number | null
+          written_off_by?: string | null
+          written_off_date?: string | null
+        }
+        Update: {
+          account_number?: string | null
+          application_no?: string | null
+          approval_chain?: string[] | null
+          approval_rule_id?: string | null
+          approval_status?: string | null
+          approval_step?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          branch_id?: number | null
+          created_at?: string
+          created_by?: string | null
+          current_balance?: number
+          customer_id?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          disbursed_amount?: number | null
+          disbursed_at?: string | null
+          disbursed_by?: string | null
+          disbursement_date?: string | null
+          disbursement_method?: string | null
+          disbursement_reference?: string | null
+          disbursement_transaction_id?: string | null
+          due_date?: string
+          early_settlement_rebate?: number
+          group_id?: number | null
+          id?: string
+          increment_level?: number | null
+          installment_count?: number | null
+          installment_type?: string | null
+          interest_disbursed?: number | null
+          interest_method?: string
+          interest_rate?: number
+          interest_type?: Database["public"]["Enums"]["interest_type"]
+          is_deleted?: boolean | null
+          issue_date?: string
+          late_payment_penalty_rate?: number | null
+          loan_officer_id?: string | null
+          loan_program?: string | null
+          member_id?: string | null
+          net_disbursement_amount?: number | null
+          payment_weeks?: number
+          penalty_type?: string | null
+          previous_loan_id?: string | null
+          principal_amount?: number
+          processing_fee?: number | null
+          processing_fee_netted?: number
+          rejection_reason?: string | null
+          repayment_schedule?: Database["public"]["Enums"]["repayment_schedule"]
+          restructure_count?: number
+          restructured_at?: string | null
+          settled_early_at?: string | null
+          status?: Database["public"]["Enums"]["loan_status"]
+          top_up_settled_at?: string | null
+          top_up_settlement_amount?: number
+          total_disbursed?: number | null
+          total_interest_accrued?: number
+          total_paid?: number
+          updated_at?: string
+          write_off_reason?: string | null
+          written_off_amount?: number | null
+          written_off_by?: string | null
+          written_off_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loans_approval_rule_id_fkey"
+            columns: ["approval_rule_id"]
+            isOneToOne: false
+            referencedRelation: "loan_approval_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "super_admin_ids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "user_profile_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch_basic_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch_summary_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "members_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "super_admin_ids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "user_profile_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_disbursed_by_fkey"
+            columns: ["disbursed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_disbursement_transaction_id_fkey"
+            columns: ["disbursement_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "group_summary_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_loan_program_fkey"
+            columns: ["loan_program"]
+            isOneToOne: false
+            referencedRelation: "loan_products"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "loans_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_previous_loan_id_fkey"
+            columns: ["previous_loan_id"]
+            isOneToOne: false
+            referencedRelation: "loan_installment_schedule"
+            referencedColumns: ["loan_id"]
+          },
+          {
+            foreignKeyName: "loans_previous_loan_id_fkey"
+            columns: ["previous_loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_previous_loan_id_fkey"
+            columns: ["previous_loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_previous_loan_id_fkey"
+            columns: ["previous_loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loans_previous_loan_id_fkey"
+            columns: ["previous_loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["member_id"]
+          },
+          {
+            foreignKeyName: "loans_written_off_by_fkey"
+            columns: ["written_off_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      members: {
+        Row: {
+          activation_fee_paid: boolean | null
+          address: string | null
+          assigned_officer_id: string | null
+          bank_account: string | null
+          branch_id: number | null
+          created_at: string
+          created_by: string | null
+          dob: string | null
+          full_name: string
+          group_assignment: string | null
+          group_id: number | null
+          guarantor_contact_number: string | null
+          house_owner: string | null
+          house_type: string | null
+          id: string
+          id_number: string
+          kra_pin: string | null
+          kyc_id_type: string | null
+          last_activity_date: string | null
+          location: string | null
+          marital_status: string | null
+          member_no: string | null
+          monthly_income: number | null
+          next_of_kin_name: string | null
+          next_of_kin_phone: string | null
+          next_of_kin_relationship: string | null
+          notes: string | null
+          phone_number: string
+          photo_url: string | null
+          profession: string | null
+          profession_other: string | null
+          profile_picture_url: string | null
+          registration_fee_paid: boolean | null
+          savings_balance: number | null
+          sex: string | null
+          sms_opt_out: boolean
+          sms_opt_out_at: string | null
+          spouse_dob: string | null
+          status: string | null
+          updated_at: string
+        }
+        Insert: {
+          activation_fee_paid?: boolean | null
+          address?: string | null
+          assigned_officer_id?: string | null
+          bank_account?: string | null
+          branch_id?: number | null
+          created_at?: string
+          created_by?: string | null
+          dob?: string | null
+          full_name: string
+          group_assignment?: string | null
+          group_id?: number | null
+          guarantor_contact_number?: string | null
+          house_owner?: string | null
+          house_type?: string | null
+          id?: string
+          id_number: string
+          kra_pin?: string | null
+          kyc_id_type?: string | null
+          last_activity_date?: string | null
+          location?: string | null
+          marital_status?: string | null
+          member_no?: string | null
+          monthly_income?: number | null
+          next_of_kin_name?: string | null
+          next_of_kin_phone?: string | null
+          next_of_kin_relationship?: string | null
+          notes?: string | null
+          phone_number: string
+          photo_url?: string | null
+          profession?: string | null
+          profession_other?: string | null
+          profile_picture_url?: string | null
+          registration_fee_paid?: boolean | null
+          savings_balance?: number | null
+          sex?: string | null
+          sms_opt_out?: boolean
+          sms_opt_out_at?: string | null
+          spouse_dob?: string | null
+          status?: string | null
+          updated_at?: string
+        }
+        Update: {
+          activation_fee_paid?: boolean | null
+          address?: string | null
+          assigned_officer_id?: string | null
+          bank_account?: string | null
+          branch_id?: number | null
+          created_at?: string
+          created_by?: string | null
+          dob?: string | null
+          full_name?: string
+          group_assignment?: string | null
+          group_id?: number | null
+          guarantor_contact_number?: string | null
+          house_owner?: string | null
+          house_type?: string | null
+          id?: string
+          id_number?: string
+          kra_pin?: string | null
+          kyc_id_type?: string | null
+          last_activity_date?: string | null
+          location?: string | null
+          marital_status?: string | null
+          member_no?: string | null
+          monthly_income?: number | null
+          next_of_kin_name?: string | null
+          next_of_kin_phone?: string | null
+          next_of_kin_relationship?: string | null
+          notes?: string | null
+          phone_number?: string
+          photo_url?: string | null
+          profession?: string | null
+          profession_other?: string | null
+          profile_picture_url?: string | null
+          registration_fee_paid?: boolean | null
+          savings_balance?: number | null
+          sex?: string | null
+          sms_opt_out?: boolean
+          sms_opt_out_at?: string | null
+          spouse_dob?: string | null
+          status?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "members_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch_basic_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "members_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch_summary_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "members_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "group_summary_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "members_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups_with_details"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mfa_recovery_codes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobile_money_receipts: {
+        Row: {
+          account_reference: string | null
+          allocated_at: string | null
+          allocated_by: string | null
+          amount: number
+          business_short_code: string | null
+          id: string
+          loan_id: string | null
+          loan_payment_id: string | null
+          match_error: string | null
+          match_method: string | null
+          member_id: string | null
+          msisdn: string | null
+          notes: string | null
+          payer_name: string | null
+          provider: string
+          raw_payload: Json
+          received_at: string
+          status: string
+          transaction_id: string
+          transaction_time: string
+          transaction_type: string | null
+        }
+        Insert: {
+          account_reference?: string | null
+          allocated_at?: string | null
+          allocated_by?: string | null
+          amount: number
+          business_short_code?: string | null
+          id?: string
+          loan_id?: string | null
+          loan_payment_id?: string | null
+          match_error?: string | null
+          match_method?: string | null
+          member_id?: string | null
+          msisdn?: string | null
+          notes?: string | null
+          payer_name?: string | null
+          provider?: string
+          raw_payload: Json
+          received_at?: string
+          status?: string
+          transaction_id: string
+          transaction_time?: string
+          transaction_type?: string | null
+        }
+        Update: {
+          account_reference?: string | null
+          allocated_at?: string | null
+          allocated_by?: string | null
+          amount?: number
+          business_short_code?: string | null
+          id?: string
+          loan_id?: string | null
+          loan_payment_id?: string | null
+          match_error?: string | null
+          match_method?: string | null
+          member_id?: string | null
+          msisdn?: string | null
+          notes?: string | null
+          payer_name?: string | null
+          provider?: string
+          raw_payload?: Json
+          received_at?: string
+          status?: string
+          transaction_id?: string
+          transaction_time?: string
+          transaction_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_receipts_allocated_by_fkey"
+            columns: ["allocated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_receipts_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_receipts_loan_payment_id_fkey"
+            columns: ["loan_payment_id"]
+            isOneToOne: false
+            referencedRelation: "loan_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_receipts_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      next_of_kin: {
+        Row: {
+          contact_number: string | null
+          created_at: string | null
+          dob: string | null
+          full_name: string
+          id: number
+          member_id: string
+          relationship: string | null
+          sex: string | null
+        }
+        Insert: {
+          contact_number?: string | null
+          created_at?: string | null
+          dob?: string | null
+          full_name: string
+          id?: number
+          member_id: string
+          relationship?: string | null
+          sex?: string | null
+        }
+        Update: {
+          contact_number?: string | null
+          created_at?: string | null
+          dob?: string | null
+          full_name?: string
+          id?: number
+          member_id?: string
+          relationship?: string | null
+          sex?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "next_of_kin_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "next_of_kin_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members_with_details"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          category: string
+          created_at: string | null
+          dedupe_key: string | null
+          id: string
+          is_read: boolean | null
+          message: string
+          read_at: string | null
+          related_entity_id: string | null
+          related_entity_type: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string | null
+          dedupe_key?: string | null
+          id?: string
+          is_read?: boolean | null
+          message: string
+          read_at?: string | null
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          dedupe_key?: string | null
+          id?: string
+          is_read?: boolean | null
+          message?: string
+          read_at?: string | null
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "super_admin_ids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profile_view"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      par_snapshots: {
+        Row: {
+          branch_id: number | null
+          bucket_1_30: number
+          bucket_31_60: number
+          bucket_61_90: number
+          bucket_91_180: number
+          bucket_current: number
+          bucket_over_180: number
+          created_at: string
+          id: number
+          loan_officer_id: string | null
+          loans_count: number
+          outstanding_principal: number
+          par1_amount: number
+          par30_amount: number
+          par60_amount: number
+          par90_amount: number
+          snapshot_date: string
+        }
+        Insert: {
+          branch_id?: number | null
+          bucket_1_30?: number
+          bucket_31_60?: number
+          bucket_61_90?: number
+          bucket_91_180?: number
+          bucket_current?: number
+          bucket_over_180?: number
+          created_at?: string
+          id?: number
+          loan_officer_id?: string | null
+          loans_count?: number
+          outstanding_principal?: number
+          par1_amount?: number
+          par30_amount?: number
+          par60_amount?: number
+          par90_amount?: number
+          snapshot_date: string
+        }
+        Update: {
+          branch_id?: number | null
+          bucket_1_30?: number
+          bucket_31_60?: number
+          bucket_61_90?: number
+          bucket_91_180?: number
+          bucket_current?: number
+          bucket_over_180?: number
+          created_at?: string
+          id?: number
+          loan_officer_id?: string | null
+          loans_count?: number
+          outstanding_principal?: number
+          par1_amount?: number
+          par30_amount?: number
+          par60_amount?: number
+          par90_amount?: number
+          snapshot_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "par_snapshots_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "par_snapshots_loan_officer_id_fkey"
+            columns: ["loan_officer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: number
+          interest_component: number
+          loan_id: string
+          notes: string | null
+          payment_date: string
+          payment_method: string
+          principal_component: number
+          recorded_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: number
+          interest_component?: number
+          loan_id: string
+          notes?: string | null
+          payment_date?: string
+          payment_method: string
+          principal_component?: number
+          recorded_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: number
+          interest_component?: number
+          loan_id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: string
+          principal_component?: number
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loan_installment_schedule"
+            referencedColumns: ["loan_id"]
+          },
+          {
+            foreignKeyName: "payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "loans_previous_loan_id_fkey"
-            columns: ["previous_loan_id"]
+            foreignKeyName: "payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "recent_loans"
             referencedColumns: ["member_id"]
           },
         ]
       }
-      members: {
+      pending_changes: {
         Row: {
-          activation_fee_paid: boolean | null
-          address: string | null
-          assigned_officer_id: string | null
-          bank_account: string | null
+          applied_at: string | null
+          change_type: string
+          current_values: Json
+          id: string
+          proposed_values: Json
+          reason: string
+          record_id: string
+          requested_at: string
+          requested_by: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          table_name: string
+        }
+        Insert: {
+          applied_at?: string | null
+          change_type: string
+          current_values?: Json
+          id?: string
+          proposed_values?: Json
+          reason: string
+          record_id: string
+          requested_at?: string
+          requested_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          table_name?: string
+        }
+        Update: {
+          applied_at?: string | null
+          change_type?: string
+          current_values?: Json
+          id?: string
+          proposed_values?: Json
+          reason?: string
+          record_id?: string
+          requested_at?: string
+          requested_by?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_changes_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_changes_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          active_branch_id: number | null
+          avatar_url: string | null
           branch_id: number | null
           created_at: string
           created_by: string | null
-          dob: string | null
+          deactivated_at: string | null
+          deactivated_by: string | null
+          deactivation_reason: string | null
+          email: string
+          employee_id: string | null
           full_name: string
-          group_assignment: string | null
-          group_id: number | null
-          guarantor_contact_number: string | null
-          house_owner: string | null
-          house_type: string | null
           id: string
-          id_number: string
-          kra_pin: string | null
-          kyc_id_type: string | null
-          last_activity_date: string | null
-          location: string | null
-          marital_status: string | null
-          member_no: string | null
-          monthly_income: number | null
-          next_of_kin_name: string | null
-          next_of_kin_phone: string | null
-          next_of_kin_relationship: string | null
-          notes: string | null
-          phone_number: string
-          photo_url: string | null
-          profession: string | null
-          profession_other: string | null
+          is_active: boolean | null
+          is_online: boolean | null
+          last_seen: string | null
+          phone_number: string | null
+          position: string | null
           profile_picture_url: string | null
-          registration_fee_paid: boolean | null
-          sex: string | null
-          spouse_dob: string | null
-          status: string | null
+          role: string | null
           updated_at: string
         }
         Insert: {
-          activation_fee_paid?: boolean | null
-          address?: string | null
-          assigned_officer_id?: string | null
-          bank_account?: string | null
+          active_branch_id?: number | null
+          avatar_url?: string | null
           branch_id?: number | null
           created_at?: string
           created_by?: string | null
-          dob?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+          deactivation_reason?: string | null
+          email: string
+          employee_id?: string | null
           full_name: string
-          group_assignment?: string | null
-          group_id?: number | null
-          guarantor_contact_number?: string | null
-          house_owner?: string | null
-          house_type?: string | null
-          id?: string
-          id_number: string
-          kra_pin?: string | null
-          kyc_id_type?: string | null
-          last_activity_date?: string | null
-          location?: string | null
-          marital_status?: string | null
-          member_no?: string | null
-          monthly_income?: number | null
-          next_of_kin_name?: string | null
-          next_of_kin_phone?: string | null
-          next_of_kin_relationship?: string | null
-          notes?: string | null
-          phone_number: string
-          photo_url?: string | null
-          profession?: string | null
-          profession_other?: string | null
+          id: string
+          is_active?: boolean | null
+          is_online?: boolean | null
+          last_seen?: string | null
+          phone_number?: string | null
+          position?: string | null
           profile_picture_url?: string | null
-          registration_fee_paid?: boolean | null
-          sex?: string | null
-          spouse_dob?: string | null
-          status?: string | null
+          role?: string | null
           updated_at?: string
         }
         Update: {
-          activation_fee_paid?: boolean | null
-          address?: string | null
-          assigned_officer_id?: string | null
-          bank_account?: string | null
+          active_branch_id?: number | null
+          avatar_url?: string | null
           branch_id?: number | null
           created_at?: string
           created_by?: string | null
-          dob?: string | null
+          deactivated_at?: string | null
+          deactivated_by?: string | null
+          deactivation_reason?: string | null
+          email?: string
+          employee_id?: string | null
           full_name?: string
-          group_assignment?: string | null
-          group_id?: number | null
-          guarantor_contact_number?: string | null
-          house_owner?: string | null
-          house_type?: string | null
           id?: string
-          id_number?: string
-          kra_pin?: string | null
-          kyc_id_type?: string | null
-          last_activity_date?: string | null
-          location?: string | null
-          marital_status?: string | null
-          member_no?: string | null
-          monthly_income?: number | null
-          next_of_kin_name?: string | null
-          next_of_kin_phone?: string | null
-          next_of_kin_relationship?: string | null
-          notes?: string | null
-          phone_number?: string
-          photo_url?: string | null
-          profession?: string | null
-          profession_other?: string | null
+          is_active?: boolean | null
+          is_online?: boolean | null
+          last_seen?: string | null
+          phone_number?: string | null
+          position?: string | null
           profile_picture_url?: string | null
-          registration_fee_paid?: boolean | null
-          sex?: string | null
-          spouse_dob?: string | null
-          status?: string | null
+          role?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "members_branch_id_fkey"
+            foreignKeyName: "profiles_active_branch_id_fkey"
+            columns: ["active_branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch_basic_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branch_summary_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_deactivated_by_fkey"
+            columns: ["deactivated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_deactivated_by_fkey"
+            columns: ["deactivated_by"]
+            isOneToOne: false
+            referencedRelation: "super_admin_ids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_deactivated_by_fkey"
+            columns: ["deactivated_by"]
+            isOneToOne: false
+            referencedRelation: "user_profile_view"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provision_entries: {
+        Row: {
+          amount: number
+          branch_id: number
+          created_at: string
+          created_by: string | null
+          description: string
+          entry_date: string
+          entry_type: string
+          id: string
+          loan_id: string | null
+          run_id: string | null
+        }
+        Insert: {
+          amount: number
+          branch_id: number
+          created_at?: string
+          created_by?: string | null
+          description: string
+          entry_date: string
+          entry_type: string
+          id?: string
+          loan_id?: string | null
+          run_id?: string | null
+        }
+        Update: {
+          amount?: number
+          branch_id?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          entry_date?: string
+          entry_type?: string
+          id?: string
+          loan_id?: string | null
+          run_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provision_entries_branch_id_fkey"
             columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "branch_basic_view"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "members_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "provision_entries_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "branch_summary_view"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "members_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "provision_entries_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "branches"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "members_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "provision_entries_run_id_fkey"
+            columns: ["run_id"]
             isOneToOne: false
-            referencedRelation: "group_summary_view"
+            referencedRelation: "provisioning_runs"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      provisioning_run_branches: {
+        Row: {
+          adjustment: number | null
+          allowance_before: number | null
+          branch_id: number
+          loans_count: number
+          outstanding_principal: number
+          previous_required: number
+          required_provision: number
+          run_id: string
+        }
+        Insert: {
+          adjustment?: number | null
+          allowance_before?: number | null
+          branch_id: number
+          loans_count?: number
+          outstanding_principal?: number
+          previous_required?: number
+          required_provision?: number
+          run_id: string
+        }
+        Update: {
+          adjustment?: number | null
+          allowance_before?: number | null
+          branch_id?: number
+          loans_count?: number
+          outstanding_principal?: number
+          previous_required?: number
+          required_provision?: number
+          run_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "members_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "provisioning_run_branches_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "groups"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "members_group_id_fkey"
-            columns: ["group_id"]
+            foreignKeyName: "provisioning_run_branches_run_id_fkey"
+            columns: ["run_id"]
             isOneToOne: false
-            referencedRelation: "groups_with_details"
+            referencedRelation: "provisioning_runs"
             referencedColumns: ["id"]
           },
         ]
       }
-      next_of_kin: {
+      provisioning_runs: {
         Row: {
-          contact_number: string | null
-          created_at: string | null
-          dob: string | null
-          full_name: string
-          id: number
-          member_id: string
-          relationship: string | null
-          sex: string | null
+          id: string
+          loans_count: number
+          outstanding_principal: number
+          period_end: string
+          posted_at: string | null
+          posted_by: string | null
+          previous_required: number
+          required_provision: number
+          rules_snapshot: Json
+          run_at: string
+          run_by: string | null
+          status: string
         }
         Insert: {
-          contact_number?: string | null
-          created_at?: string | null
-          dob?: string | null
-          full_name: string
-          id?: number
-          member_id: string
-          relationship?: string | null
-          sex?: string | null
+          id?: string
+          loans_count?: number
+          outstanding_principal?: number
+          period_end: string
+          posted_at?: string | null
+          posted_by?: string | null
+          previous_required?: number
+          required_provision?: number
+          rules_snapshot?: Json
+          run_at?: string
+          run_by?: string | null
+          status?: string
         }
         Update: {
-          contact_number?: string | null
-          created_at?: string | null
-          dob?: string | null
-          full_name?: string
-          id?: number
-          member_id?: string
-          relationship?: string | null
-          sex?: string | null
+          id?: string
+          loans_count?: number
+          outstanding_principal?: number
+          period_end?: string
+          posted_at?: string | null
+          posted_by?: string | null
+          previous_required?: number
+          required_provision?: number
+          rules_snapshot?: Json
+          run_at?: string
+          run_by?: string | null
+          status?: string
         }
         Relationships: [
           {
-            foreignKeyName: "next_of_kin_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "provisioning_runs_posted_by_fkey"
+            columns: ["posted_by"]
             isOneToOne: false
-            referencedRelation: "members"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "next_of_kin_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "provisioning_runs_run_by_fkey"
+            columns: ["run_by"]
             isOneToOne: false
-            referencedRelation: "members_with_details"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
+      realizable_assets: {
         Row: {
-          created_at: string | null
+          asset_type: string
+          branch_id: string | null
+          created_at: string
+          created_by: string
+          current_market_value: number
+          description: string
           id: string
-          is_read: boolean | null
-          message: string
-          read_at: string | null
-          related_entity_id: string | null
-          related_entity_type: string | null
-          title: string
-          type: string
-          user_id: string
+          last_valuation_date: string
+          loan_id: string | null
+          location: string | null
+          member_id: string | null
+          notes: string | null
+          original_value: number
+          realizable_value: number
+          realization_period: number
+          recovery_likelihood: string
+          risk_factor: number
+          status: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
+          asset_type: string
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string
+          current_market_value?: number
+          description: string
           id?: string
-          is_read?: boolean | null
-          message: string
-          read_at?: string | null
-          related_entity_id?: string | null
-          related_entity_type?: string | null
-          title: string
-          type?: string
-          user_id: string
+          last_valuation_date?: string
+          loan_id?: string | null
+          location?: string | null
+          member_id?: string | null
+          notes?: string | null
+          original_value?: number
+          realizable_value?: number
+          realization_period?: number
+          recovery_likelihood?: string
+          risk_factor?: number
+          status?: string
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
+          asset_type?: string
+          branch_id?: string | null
+          created_at?: string
+          created_by?: string
+          current_market_value?: number
+          description?: string
           id?: string
-          is_read?: boolean | null
-          message?: string
-          read_at?: string | null
-          related_entity_id?: string | null
-          related_entity_type?: string | null
-          title?: string
-          type?: string
-          user_id?: string
+          last_valuation_date?: string
+          loan_id?: string | null
+          location?: string | null
+          member_id?: string | null
+          notes?: string | null
+          original_value?: number
+          realizable_value?: number
+          realization_period?: number
+          recovery_likelihood?: string
+          risk_factor?: number
+          status?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "realizable_assets_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "branch_basic_view"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "realizable_assets_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "super_admin_ids"
+            referencedRelation: "branch_summary_view"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "realizable_assets_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "user_profile_view"
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loan_installment_schedule"
+            referencedColumns: ["loan_id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans_with_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "recent_loans"
+            referencedColumns: ["member_id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "realizable_assets_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members_with_details"
             referencedColumns: ["id"]
           },
         ]
       }
-      payments: {
+      repayments: {
         Row: {
           amount: number
-          created_at: string | null
-          id: number
-          interest_component: number
+          created_at: string
+          id: string
           loan_id: string
           notes: string | null
           payment_date: string
-          payment_method: string
-          principal_component: number
-          recorded_by: string | null
+          recorded_by: string
         }
         Insert: {
           amount: number
-          created_at?: string | null
-          id?: number
-          interest_component?: number
+          created_at?: string
+          id?: string
           loan_id: string
           notes?: string | null
           payment_date?: string
-          payment_method: string
-          principal_component?: number
-          recorded_by?: string | null
+          recorded_by: string
         }
         Update: {
           amount?: number
-          created_at?: string | null
-          id?: number
-          interest_component?: number
+          created_at?: string
+          id?: string
           loan_id?: string
           notes?: string | null
           payment_date?: string
-          payment_method?: string
-          principal_component?: number
-          recorded_by?: string | null
+          recorded_by?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payments_loan_id_fkey"
+            foreignKeyName: "repayments_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "loan_installment_schedule"
             referencedColumns: ["loan_id"]
           },
           {
-            foreignKeyName: "payments_loan_id_fkey"
+            foreignKeyName: "repayments_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_loan_id_fkey"
+            foreignKeyName: "repayments_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "loans_with_details"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_loan_id_fkey"
+            foreignKeyName: "repayments_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "recent_loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_loan_id_fkey"
+            foreignKeyName: "repayments_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
             referencedRelation: "recent_loans"
@@ -1707,350 +3910,652 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      report_subscriptions: {
         Row: {
           branch_id: number | null
           created_at: string
-          created_by: string | null
-          deactivated_at: string | null
-          deactivated_by: string | null
-          deactivation_reason: string | null
-          email: string
-          full_name: string
+          format: string
           id: string
-          is_active: boolean | null
-          phone_number: string | null
-          profile_picture_url: string | null
-          role: string | null
+          is_active: boolean
+          last_queued_for: string | null
+          report_type: string
           updated_at: string
+          user_id: string
         }
         Insert: {
           branch_id?: number | null
           created_at?: string
-          created_by?: string | null
-          deactivated_at?: string | null
-          deactivated_by?: string | null
-          deactivation_reason?: string | null
-          email: string
-          full_name: string
-          id: string
-          is_active?: boolean | null
-          phone_number?: string | null
-          profile_picture_url?: string | null
-          role?: string | null
+          format?: string
+          id?: string
+          is_active?: boolean
+          last_queued_for?: string | null
+          report_type: string
           updated_at?: string
+          user_id: string
         }
         Update: {
           branch_id?: number | null
           created_at?: string
-          created_by?: string | null
-          deactivated_at?: string | null
-          deactivated_by?: string | null
-          deactivation_reason?: string | null
-          email?: string
-          full_name?: string
+          format?: string
           id?: string
-          is_active?: boolean | null
-          phone_number?: string | null
-          profile_picture_url?: string | null
-          role?: string | null
+          is_active?: boolean
+          last_queued_for?: string | null
+          report_type?: string
           updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_branch_id_fkey"
+            foreignKeyName: "report_subscriptions_branch_id_fkey"
             columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "branch_basic_view"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "report_subscriptions_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "branch_summary_view"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          permission: string
+          role: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          permission?: string
+          role?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      savings_accounts: {
+        Row: {
+          account_number: string
+          account_type: string
+          balance: number
+          id: string
+          interest_rate: number
+          last_interest_date: string | null
+          member_id: string
+          minimum_balance: number
+          opened_at: string
+          opened_by: string | null
+        }
+        Insert: {
+          account_number?: string
+          account_type: string
+          balance?: number
+          id?: string
+          interest_rate?: number
+          last_interest_date?: string | null
+          member_id: string
+          minimum_balance?: number
+          opened_at?: string
+          opened_by?: string | null
+        }
+        Update: {
+          account_number?: string
+          account_type?: string
+          balance?: number
+          id?: string
+          interest_rate?: number
+          last_interest_date?: string | null
+          member_id?: string
+          minimum_balance?: number
+          opened_at?: string
+          opened_by?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "profiles_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "savings_accounts_member_id_fkey"
+            columns: ["member_id"]
             isOneToOne: false
-            referencedRelation: "branches"
+            referencedRelation: "members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_deactivated_by_fkey"
-            columns: ["deactivated_by"]
+            foreignKeyName: "savings_accounts_opened_by_fkey"
+            columns: ["opened_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      savings_transactions: {
+        Row: {
+          account_id: string
+          amount: number
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          id: string
+          member_id: string
+          notes: string | null
+          payment_method: string | null
+          reference: string | null
+          transaction_type: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          member_id: string
+          notes?: string | null
+          payment_method?: string | null
+          reference?: string | null
+          transaction_type: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          member_id?: string
+          notes?: string | null
+          payment_method?: string | null
+          reference?: string | null
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "savings_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "savings_accounts"
+            referencedColumns: ["id"]
+          },
           {
-            foreignKeyName: "profiles_deactivated_by_fkey"
-            columns: ["deactivated_by"]
+            foreignKeyName: "savings_transactions_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "super_admin_ids"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_deactivated_by_fkey"
-            columns: ["deactivated_by"]
+            foreignKeyName: "savings_transactions_member_id_fkey"
+            columns: ["member_id"]
             isOneToOne: false
-            referencedRelation: "user_profile_view"
+            referencedRelation: "members"
             referencedColumns: ["id"]
           },
         ]
       }
-      realizable_assets: {
+      sms_outbox: {
         Row: {
-          asset_type: string
-          branch_id: string | null
+          attempts: number
+          communication_log_id: string | null
           created_at: string
-          created_by: string
-          current_market_value: number
-          description: string
+          dedupe_key: string | null
+          delivered_at: string | null
           id: string
-          last_valuation_date: string
+          last_error: string | null
           loan_id: string | null
-          location: string | null
-          member_id: string | null
-          notes: string | null
-          original_value: number
-          realizable_value: number
-          realization_period: number
-          recovery_likelihood: string
-          risk_factor: number
+          member_id: string
+          message: string
+          phone_number: string | null
+          provider: string | null
+          provider_message_id: string | null
+          scheduled_for: string
+          sent_at: string | null
           status: string
+          template_code: string
           updated_at: string
         }
         Insert: {
-          asset_type: string
-          branch_id?: string | null
+          attempts?: number
+          communication_log_id?: string | null
           created_at?: string
-          created_by?: string
-          current_market_value?: number
-          description: string
+          dedupe_key?: string | null
+          delivered_at?: string | null
           id?: string
-          last_valuation_date?: string
+          last_error?: string | null
           loan_id?: string | null
-          location?: string | null
-          member_id?: string | null
-          notes?: string | null
-          original_value?: number
-          realizable_value?: number
-          realization_period?: number
-          recovery_likelihood?: string
-          risk_factor?: number
+          member_id: string
+          message: string
+          phone_number?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
           status?: string
+          template_code: string
           updated_at?: string
         }
         Update: {
-          asset_type?: string
-          branch_id?: string | null
+          attempts?: number
+          communication_log_id?: string | null
           created_at?: string
-          created_by?: string
-          current_market_value?: number
-          description?: string
+          dedupe_key?: string | null
+          delivered_at?: string | null
           id?: string
-          last_valuation_date?: string
+          last_error?: string | null
           loan_id?: string | null
-          location?: string | null
-          member_id?: string | null
-          notes?: string | null
-          original_value?: number
-          realizable_value?: number
-          realization_period?: number
-          recovery_likelihood?: string
-          risk_factor?: number
+          member_id?: string
+          message?: string
+          phone_number?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
           status?: string
+          template_code?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "realizable_assets_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "sms_outbox_communication_log_id_fkey"
+            columns: ["communication_log_id"]
             isOneToOne: false
-            referencedRelation: "branch_basic_view"
+            referencedRelation: "communication_logs"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "sms_outbox_loan_id_fkey"
+            columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "branch_summary_view"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "sms_outbox_member_id_fkey"
+            columns: ["member_id"]
             isOneToOne: false
-            referencedRelation: "branches"
+            referencedRelation: "members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "sms_outbox_template_code_fkey"
+            columns: ["template_code"]
             isOneToOne: false
-            referencedRelation: "loan_installment_schedule"
-            referencedColumns: ["loan_id"]
+            referencedRelation: "sms_templates"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      sms_templates: {
+        Row: {
+          body: string
+          code: string
+          is_active: boolean
+          name: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          body: string
+          code: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          body?: string
+          code?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_templates_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           },
+        ]
+      }
+      statement_reconciliation_lines: {
+        Row: {
+          adjustment_transaction_id: string | null
+          amount: number | null
+          description: string | null
+          difference: number
+          id: string
+          line_number: number | null
+          loan_id: string | null
+          loan_payment_id: string | null
+          match_method: string | null
+          match_status: string
+          note: string | null
+          reconciliation_id: string
+          reference: string | null
+          resolution: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          system_amount: number | null
+          system_date: string | null
+          system_reference: string | null
+          transaction_date: string | null
+          transaction_id: string | null
+        }
+        Insert: {
+          adjustment_transaction_id?: string | null
+          amount?: number | null
+          description?: string | null
+          difference?: number
+          id?: string
+          line_number?: number | null
+          loan_id?: string | null
+          loan_payment_id?: string | null
+          match_method?: string | null
+          match_status: string
+          note?: string | null
+          reconciliation_id: string
+          reference?: string | null
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          system_amount?: number | null
+          system_date?: string | null
+          system_reference?: string | null
+          transaction_date?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          adjustment_transaction_id?: string | null
+          amount?: number | null
+          description?: string | null
+          difference?: number
+          id?: string
+          line_number?: number | null
+          loan_id?: string | null
+          loan_payment_id?: string | null
+          match_method?: string | null
+          match_status?: string
+          note?: string | null
+          reconciliation_id?: string
+          reference?: string | null
+          resolution?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          system_amount?: number | null
+          system_date?: string | null
+          system_reference?: string | null
+          transaction_date?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "realizable_assets_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "statement_reconciliation_lines_adjustment_transaction_id_fkey"
+            columns: ["adjustment_transaction_id"]
             isOneToOne: false
-            referencedRelation: "loans"
+            referencedRelation: "transactions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_loan_id_fkey"
+            foreignKeyName: "statement_reconciliation_lines_loan_id_fkey"
             columns: ["loan_id"]
             isOneToOne: false
-            referencedRelation: "loans_with_details"
+            referencedRelation: "loans"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "statement_reconciliation_lines_loan_payment_id_fkey"
+            columns: ["loan_payment_id"]
             isOneToOne: false
-            referencedRelation: "recent_loans"
+            referencedRelation: "loan_payments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "statement_reconciliation_lines_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
             isOneToOne: false
-            referencedRelation: "recent_loans"
-            referencedColumns: ["member_id"]
+            referencedRelation: "statement_reconciliations"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "statement_reconciliation_lines_resolved_by_fkey"
+            columns: ["resolved_by"]
             isOneToOne: false
-            referencedRelation: "members"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "realizable_assets_member_id_fkey"
-            columns: ["member_id"]
+            foreignKeyName: "statement_reconciliation_lines_transaction_id_fkey"
+            columns: ["transaction_id"]
             isOneToOne: false
-            referencedRelation: "members_with_details"
+            referencedRelation: "transactions"
             referencedColumns: ["id"]
           },
         ]
       }
-      repayments: {
+      statement_reconciliations: {
         Row: {
-          amount: number
+          closed_at: string | null
+          closed_by: string | null
           created_at: string
+          created_by: string | null
+          date_tolerance_days: number
+          duplicate_count: number
+          file_name: string
           id: string
-          loan_id: string
-          notes: string | null
-          payment_date: string
-          recorded_by: string
+          matched_count: number
+          mismatched_count: number
+          missing_count: number
+          not_in_statement_count: number
+          period_end: string
+          period_start: string
+          source: string
+          statement_total: number
+          status: string
+          total_lines: number
         }
         Insert: {
-          amount: number
+          closed_at?: string | null
+          closed_by?: string | null
           created_at?: string
+          created_by?: string | null
+          date_tolerance_days?: number
+          duplicate_count?: number
+          file_name: string
           id?: string
-          loan_id: string
-          notes?: string | null
-          payment_date?: string
-          recorded_by: string
+          matched_count?: number
+          mismatched_count?: number
+          missing_count?: number
+          not_in_statement_count?: number
+          period_end: string
+          period_start: string
+          source: string
+          statement_total?: number
+          status?: string
+          total_lines?: number
         }
         Update: {
-          amount?: number
+          closed_at?: string | null
+          closed_by?: string | null
           created_at?: string
+          created_by?: string | null
+          date_tolerance_days?: number
+          duplicate_count?: number
+          file_name?: string
           id?: string
-          loan_id?: string
-          notes?: string | null
-          payment_date?: string
-          recorded_by?: string
+          matched_count?: number
+          mismatched_count?: number
+          missing_count?: number
+          not_in_statement_count?: number
+          period_end?: string
+          period_start?: string
+          source?: string
+          statement_total?: number
+          status?: string
+          total_lines?: number
         }
         Relationships: [
           {
-            foreignKeyName: "repayments_loan_id_fkey"
-            columns: ["loan_id"]
-            isOneToOne: false
-            referencedRelation: "loan_installment_schedule"
-            referencedColumns: ["loan_id"]
-          },
-          {
-            foreignKeyName: "repayments_loan_id_fkey"
-            columns: ["loan_id"]
-            isOneToOne: false
-            referencedRelation: "loans"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "repayments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "statement_reconciliations_closed_by_fkey"
+            columns: ["closed_by"]
             isOneToOne: false
-            referencedRelation: "loans_with_details"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "repayments_loan_id_fkey"
-            columns: ["loan_id"]
+            foreignKeyName: "statement_reconciliations_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "recent_loans"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "repayments_loan_id_fkey"
-            columns: ["loan_id"]
-            isOneToOne: false
-            referencedRelation: "recent_loans"
-            referencedColumns: ["member_id"]
-          },
         ]
       }
+      system_metrics: {
+        Row: {
+          db_ok: boolean | null
+          edge_ok: boolean | null
+          id: number
+          last_heartbeat: string | null
+          started_at: string
+          storage_ok: boolean | null
+          updated_at: string | null
+        }
+        Insert: {
+          db_ok?: boolean | null
+          edge_ok?: boolean | null
+          id?: number
+          last_heartbeat?: string | null
+          started_at?: string
+          storage_ok?: boolean | null
+          updated_at?: string | null
+        }
+        Update: {
+          db_ok?: boolean | null
+          edge_ok?: boolean | null
+          id?: number
+          last_heartbeat?: string | null
+          started_at?: string
+          storage_ok?: boolean | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       system_settings: {
         Row: {
+          auto_accrue_penalties: boolean | null
           auto_calculate_interest: boolean
+          auto_credit_savings_interest: boolean
           backup_frequency: string
           company_email: string | null
           company_name: string
           company_phone: string | null
           default_interest_rate: number
           default_penalty_rate: number
+          early_settlement_rebate_percent: number
+          early_settlement_rebate_policy: string
           email_notifications: boolean
+          group_arrears_days: number
+          group_max_defaulters: number
           id: number
+          large_expense_threshold: number
           loan_term_months: number
           max_loan_amount: number
+          mfa_required_roles: string[]
           min_loan_amount: number
+          net_processing_fee_on_disbursement: boolean
+          penalty_accrual_start: string | null
+          savings_interest_rate: number
+          savings_lien_percent: number
+          savings_minimum_balance: number
           sms_notifications: boolean
+          sms_provider: string
+          sms_reminder_days: number
+          sms_sender_id: string | null
           updated_at: string | null
         }
         Insert: {
+          auto_accrue_penalties?: boolean | null
           auto_calculate_interest?: boolean
+          auto_credit_savings_interest?: boolean
           backup_frequency?: string
           company_email?: string | null
           company_name?: string
           company_phone?: string | null
           default_interest_rate?: number
           default_penalty_rate?: number
+          early_settlement_rebate_percent?: number
+          early_settlement_rebate_policy?: string
           email_notifications?: boolean
+          group_arrears_days?: number
+          group_max_defaulters?: number
           id: number
+          large_expense_threshold?: number
           loan_term_months?: number
           max_loan_amount?: number
+          mfa_required_roles?: string[]
           min_loan_amount?: number
+          net_processing_fee_on_disbursement?: boolean
+          penalty_accrual_start?: string | null
+          savings_interest_rate?: number
+          savings_lien_percent?: number
+          savings_minimum_balance?: number
           sms_notifications?: boolean
+          sms_provider?: string
+          sms_reminder_days?: number
+          sms_sender_id?: string | null
           updated_at?: string | null
         }
         Update: {
+          auto_accrue_penalties?: boolean | null
           auto_calculate_interest?: boolean
+          auto_credit_savings_interest?: boolean
           backup_frequency?: string
           company_email?: string | null
           company_name?: string
           company_phone?: string | null
           default_interest_rate?: number
           default_penalty_rate?: number
+          early_settlement_rebate_percent?: number
+          early_settlement_rebate_policy?: string
           email_notifications?: boolean
+          group_arrears_days?: number
+          group_max_defaulters?: number
           id?: number
+          large_expense_threshold?: number
           loan_term_months?: number
           max_loan_amount?: number
+          mfa_required_roles?: string[]
           min_loan_amount?: number
+          net_processing_fee_on_disbursement?: boolean
+          penalty_accrual_start?: string | null
+          savings_interest_rate?: number
+          savings_lien_percent?: number
+          savings_minimum_balance?: number
           sms_notifications?: boolean
+          sms_provider?: string
+          sms_reminder_days?: number
+          sms_sender_id?: string | null
           updated_at?: string | null
         }
         Relationships: []
@@ -2228,38 +4733,110 @@ export type Database = {
           },
         ]
       }
+      user_branch_roles: {
+        Row: {
+          assigned_at: string
+          assigned_by: string | null
+          branch_id: number
+          id: string
+          is_active: boolean
+          role: string | null
+          user_id: string
+        }
+        Insert: {
+          assigned_at?: string
+          assigned_by?: string | null
+          branch_id: number
+          id?: string
+          is_active?: boolean
+          role?: string | null
+          user_id: string
+        }
+        Update: {
+          assigned_at?: string
+          assigned_by?: string | null
+          branch_id?: number
+          id?: string
+          is_active?: boolean
+          role?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_branch_roles_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_branch_roles_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_branch_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_permissions: {
         Row: {
+          created_at: string
+          created_by: string | null
           permission: string
           user_id: string
         }
         Insert: {
+          created_at?: string
+          created_by?: string | null
           permission: string
           user_id: string
         }
         Update: {
+          created_at?: string
+          created_by?: string | null
           permission?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_permissions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
+          branch_id: string | null
           created_at: string
+          created_by: string | null
           id: string
           role: Database["public"]["Enums"]["app_role"]
           updated_at: string
           user_id: string
         }
         Insert: {
+          branch_id?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
           role: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id: string
         }
         Update: {
+          branch_id?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
@@ -2477,6 +5054,7 @@ export type Database = {
       }
       loan_installment_schedule: {
         Row: {
+          balance_after: number | null
           due_date: string | null
           installment_interest: number | null
           installment_number: number | null
@@ -2484,6 +5062,7 @@ export type Database = {
           installment_total: number | null
           installment_type: string | null
           interest_disbursed: number | null
+          interest_method: string | null
           issue_date: string | null
           loan_id: string | null
           loan_program: string | null
@@ -2827,6 +5406,14 @@ export type Database = {
       }
     }
     Functions: {
+      accrue_loan_penalties: {
+        Args: { p_as_of?: string }
+        Returns: {
+          loans_charged: number
+          penalties_created: number
+          total_amount: number
+        }[]
+      }
       activate_branch: {
         Args: { admin_user_id: string; branch_id: number }
         Returns: boolean
@@ -2843,6 +5430,10 @@ export type Database = {
         Args: { target_user_id: string }
         Returns: undefined
       }
+      add_loan_guarantors: {
+        Args: { p_guarantors: Json; p_loan_id: string }
+        Returns: number
+      }
       admin_update_user_role: {
         Args: {
           admin_user_id: string
@@ -2852,12 +5443,66 @@ export type Database = {
         }
         Returns: undefined
       }
+      allocate_mobile_money_receipt: {
+        Args: { p_loan_id: string; p_notes?: string; p_receipt_id: string }
+        Returns: string
+      }
+      apply_loan_write_off: {
+        Args: { p_loan_id: string; p_notes: string; p_written_off_by: string }
+        Returns: undefined
+      }
+      approval_role_covers: {
+        Args: { p_required: string; p_role: string }
+        Returns: boolean
+      }
+      approve_loan_restructure: {
+        Args: { p_restructure_id: string }
+        Returns: undefined
+      }
+      approve_pending_change: {
+        Args: { p_change_id: string; p_notes?: string }
+        Returns: undefined
+      }
+      assert_loan_branch_access: {
+        Args: { p_loan_id: string }
+        Returns: undefined
+      }
+      assert_mfa_session: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       assign_unassigned_members_to_officer: {
         Args: { officer_id_param: string }
         Returns: undefined
       }
+      branch_provision_balance: {
+        Args: { p_branch_id: number }
+        Returns: number
+      }
+      build_loan_schedule: {
+        Args: {
+          p_installment_count: number
+          p_installment_type?: string
+          p_interest_method: string
+          p_interest_rate: number
+          p_issue_date?: string
+          p_principal: number
+        }
+        Returns: {
+          balance_after: number
+          due_date: string
+          installment_number: number
+          interest_amount: number
+          principal_amount: number
+          total_amount: number
+        }[]
+      }
       calculate_loan_details: {
-        Args: { p_loan_program: string; p_principal: number }
+        Args: {
+          p_installment_count?: number
+          p_loan_program: string
+          p_principal: number
+        }
         Returns: {
           interest_amount: number
           interest_rate: number
@@ -2870,14 +5515,87 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      can_access_branch: {
+        Args: { p_branch_id: number }
+        Returns: boolean
+      }
       can_reuse_email: {
         Args: { email_to_check: string }
         Returns: boolean
       }
+      cancel_pending_change: {
+        Args: { p_change_id: string }
+        Returns: undefined
+      }
+      capture_par_snapshot: {
+        Args: { p_as_of?: string }
+        Returns: number
+      }
       check_user_active: {
         Args: { target_user_id: string }
         Returns: boolean
       }
+      claim_email_outbox: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          body: string
+          created_at: string
+          dedupe_key: string | null
+          id: string
+          last_error: string | null
+          member_id: string | null
+          recipient_email: string
+          recipient_name: string | null
+          report_params: Json | null
+          report_subscription_id: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          subject: string
+          template_code: string
+          updated_at: string
+          user_id: string | null
+        }[]
+      }
+      claim_sms_outbox: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          communication_log_id: string | null
+          created_at: string
+          dedupe_key: string | null
+          delivered_at: string | null
+          id: string
+          last_error: string | null
+          loan_id: string | null
+          member_id: string
+          message: string
+          phone_number: string | null
+          provider: string | null
+          provider_message_id: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          template_code: string
+          updated_at: string
+        }[]
+      }
+      classify_days_in_arrears: {
+        Args: { p_days: number }
+        Returns: {
+          classification: string
+          min_days: number
+          provision_rate: number
+          sort_order: number
+          updated_at: string
+          updated_by: string | null
+        }
+      }
+      cleanup_auth_logs_30d: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       cleanup_user_references: {
         Args: { user_id_param: string }
         Returns: undefined
@@ -2886,6 +5604,40 @@ export type Database = {
         Args: { user_id_param: string }
         Returns: undefined
       }
+      close_statement_reconciliation: {
+        Args: { p_reconciliation_id: string }
+        Returns: undefined
+      }
+      complete_email_send: {
+        Args: { p_error?: string; p_outbox_id: string; p_success: boolean }
+        Returns: string
+      }
+      complete_sms_send: {
+        Args: {
+          p_error?: string
+          p_outbox_id: string
+          p_provider: string
+          p_provider_message_id?: string
+          p_success: boolean
+        }
+        Returns: string
+      }
+      create_manual_journal_entry: {
+        Args: {
+          p_branch_id: number
+          p_description: string
+          p_entry_date: string
+          p_lines: Json
+        }
+        Returns: string
+      }
+      credit_savings_interest: {
+        Args: { p_as_of?: string }
+        Returns: {
+          accounts_credited: number
+          total_interest: number
+        }[]
+      }
       deactivate_branch: {
         Args: { admin_user_id: string; branch_id: number }
         Returns: boolean
@@ -2906,9 +5658,23 @@ export type Database = {
           table_name: string
         }[]
       }
-      delete_loan: {
-        Args: { admin_user_id: string; loan_id: string }
-        Returns: boolean
+      default_role_permissions: {
+        Args: { p_role: string }
+        Returns: string[]
+      }
+      disburse_loan: {
+        Args: {
+          p_disbursement_date?: string
+          p_loan_id: string
+          p_method?: string
+          p_notes?: string
+          p_reference?: string
+        }
+        Returns: string
+      }
+      dismiss_mobile_money_receipt: {
+        Args: { p_reason: string; p_receipt_id: string }
+        Returns: undefined
       }
       distribute_payment_across_installments: {
         Args: { p_amount: number; p_loan_id: string }
@@ -2935,6 +5701,22 @@ export type Database = {
           total_amount: number
         }[]
       }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      generate_overdue_alerts: {
+        Args: { p_as_of?: string }
+        Returns: number
+      }
+      get_audit_log_users: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          full_name: string
+          user_id: string
+        }[]
+      }
       get_bad_debt_loans: {
         Args: { requesting_user_id?: string }
         Returns: {
@@ -3251,6 +6033,34 @@ export type Database = {
           total_loans: number
         }[]
       }
+      get_loan_provisions: {
+        Args: { p_run_id: string }
+        Returns: {
+          account_number: string
+          branch_name: string
+          classification: string
+          days_in_arrears: number
+          loan_id: string
+          member_name: string
+          outstanding_principal: number
+          provision_rate: number
+          required_provision: number
+        }[]
+      }
+      get_loan_top_up_quote: {
+        Args: { p_loan_id: string }
+        Returns: {
+          block_reason: string
+          increment_level: number
+          loan_id: string
+          member_id: string
+          next_amount: number
+          next_level: number
+          outstanding_balance: number
+          penalties_outstanding: number
+          settlement_amount: number
+        }[]
+      }
       get_master_roll_data: {
         Args: { requesting_user_id: string }
         Returns: {
@@ -3291,6 +6101,30 @@ export type Database = {
           total_loans: number
         }[]
       }
+      get_mfa_session_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          current_aal: string
+          enrolled: boolean
+          recovery_codes_remaining: number
+          required: boolean
+          satisfied: boolean
+        }[]
+      }
+      get_my_branches: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          branch_id: number
+          branch_name: string
+          is_active_branch: boolean
+          is_home: boolean
+          role: string
+        }[]
+      }
+      get_my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
       get_next_loan_increment: {
         Args: { _member_id: string }
         Returns: {
@@ -3397,6 +6231,100 @@ export type Database = {
           total_installments: number
         }[]
       }
+      get_written_off_loans: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          account_number: string
+          branch_name: string
+          from_provision: number
+          loan_id: string
+          loan_officer_name: string
+          member_name: string
+          principal_amount: number
+          unprovided: number
+          write_off_reason: string
+          written_off_amount: number
+          written_off_by_name: string
+          written_off_date: string
+        }[]
+      }
+      gl_account_activity: {
+        Args: { p_branch_id?: number; p_from: string; p_to: string }
+        Returns: {
+          account_code: string
+          account_name: string
+          account_type: string
+          cash_flow_activity: string
+          closing_balance: number
+          is_cash: boolean
+          normal_balance: string
+          opening_balance: number
+          period_credit: number
+          period_debit: number
+        }[]
+      }
+      gl_cash_account: {
+        Args: { p_method: string }
+        Returns: string
+      }
+      gl_cash_flows: {
+        Args: { p_branch_id?: number; p_from: string; p_to: string }
+        Returns: {
+          account_code: string
+          account_name: string
+          cash_flow_activity: string
+          cash_in: number
+          cash_out: number
+        }[]
+      }
+      gl_loan_income_to_date: {
+        Args: { p_loan_id: string }
+        Returns: {
+          fees_paid: number
+          interest_paid: number
+        }[]
+      }
+      group_arrears: {
+        Args: { p_group_id: number }
+        Returns: {
+          account_number: string
+          arrears_amount: number
+          days_overdue: number
+          is_defaulter: boolean
+          loan_id: string
+          loan_status: string
+          member_id: string
+          member_name: string
+          oldest_due_date: string
+          overdue_installments: number
+        }[]
+      }
+      group_branch_id: {
+        Args: { p_group_id: number }
+        Returns: number
+      }
+      group_collection_sheet: {
+        Args: { p_group_id: number; p_meeting_date?: string }
+        Returns: {
+          account_number: string
+          arrears_due: number
+          current_due: number
+          loan_id: string
+          member_id: string
+          member_name: string
+          outstanding_balance: number
+          phone_number: string
+          total_due: number
+        }[]
+      }
+      group_lending_block_reason: {
+        Args: { p_group_id: number }
+        Returns: string
+      }
+      has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -3404,6 +6332,18 @@ export type Database = {
         }
         Returns: boolean
       }
+      ignore_reconciliation_line: {
+        Args: { p_line_id: string; p_note: string }
+        Returns: undefined
+      }
+      installment_due_date: {
+        Args: {
+          p_installment_number: number
+          p_installment_type: string
+          p_start: string
+        }
+        Returns: string
+      }
       is_admin: {
         Args: { _user_id: string }
         Returns: boolean
@@ -3416,10 +6356,434 @@ export type Database = {
         Args: { user_id: string }
         Returns: boolean
       }
+      loan_accrued_penalties: {
+        Args: { p_loan_id: string }
+        Returns: number
+      }
+      loan_arrears_positions: {
+        Args: { p_as_of?: string }
+        Returns: {
+          account_number: string
+          aging_bucket: string
+          arrears_amount: number
+          branch_id: number
+          branch_name: string
+          days_in_arrears: number
+          group_id: number
+          group_name: string
+          loan_id: string
+          loan_officer_id: string
+          loan_officer_name: string
+          member_id: string
+          member_name: string
+          outstanding_principal: number
+          product_code: string
+          product_name: string
+        }[]
+      }
+      loan_branch_id: {
+        Args: { p_loan_id: string }
+        Returns: number
+      }
+      loan_editable_columns: {
+        Args: { p_status: string }
+        Returns: string[]
+      }
+      loan_outstanding_balance: {
+        Args: { p_loan_id: string }
+        Returns: number
+      }
+      loan_product_processing_fee: {
+        Args: {
+          p_principal: number
+          p_product: Database["public"]["Tables"]["loan_products"]["Row"]
+        }
+        Returns: number
+      }
+      loan_restructure_schedule: {
+        Args: {
+          p_capitalise_arrears?: boolean
+          p_effective_date?: string
+          p_installment_count: number
+          p_installment_type: string
+          p_interest_rate?: number
+          p_loan_id: string
+        }
+        Returns: {
+          action: string
+          amount_paid: number
+          due_date: string
+          installment_id: string
+          installment_number: number
+          interest_amount: number
+          original_total: number
+          principal_amount: number
+          total_amount: number
+        }[]
+      }
+      loan_schedule_rate: {
+        Args: {
+          p_interest_disbursed: number
+          p_interest_method: string
+          p_interest_rate: number
+          p_principal: number
+        }
+        Returns: number
+      }
+      loan_settlement_quote: {
+        Args: { p_as_of?: string; p_loan_id: string }
+        Returns: {
+          as_of_date: string
+          fees_outstanding: number
+          interest_outstanding: number
+          interest_rebate: number
+          loan_id: string
+          penalties_outstanding: number
+          principal_outstanding: number
+          rebate_percent: number
+          rebate_policy: string
+          remaining_installments: number
+          settlement_amount: number
+          unearned_interest: number
+        }[]
+      }
+      loan_top_up_block_reason: {
+        Args: { p_exclude_loan_id?: string; p_loan_id: string }
+        Returns: string
+      }
+      match_mobile_money_receipt: {
+        Args: { p_receipt_id: string }
+        Returns: string
+      }
+      member_branch_id: {
+        Args: { p_member_id: string }
+        Returns: number
+      }
       member_has_pending_loans: {
         Args: { _member_id: string }
         Returns: boolean
       }
+      member_savings_accounts: {
+        Args: { p_member_id: string }
+        Returns: {
+          account_number: string
+          account_type: string
+          available_balance: number
+          balance: number
+          id: string
+          interest_rate: number
+          last_interest_date: string
+          lien_amount: number
+          member_id: string
+          minimum_balance: number
+          opened_at: string
+        }[]
+      }
+      member_savings_lien: {
+        Args: { p_member_id: string }
+        Returns: number
+      }
+      mfa_enrollment_report: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          branch_name: string
+          email: string
+          enrolled: boolean
+          enrolled_at: string
+          full_name: string
+          is_active: boolean
+          last_sign_in_at: string
+          mfa_required: boolean
+          recovery_codes_remaining: number
+          role: string
+          user_id: string
+        }[]
+      }
+      mfa_required_for_user: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      mfa_session_satisfied: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      my_branch_scope: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          active_branch_id: number
+          all_branches: boolean
+          branch_ids: number[]
+        }[]
+      }
+      normalize_sms_phone: {
+        Args: { p_phone: string }
+        Returns: string
+      }
+      notify_staff: {
+        Args: {
+          p_branch_id: number
+          p_category: string
+          p_dedupe_key: string
+          p_entity_id: string
+          p_entity_type: string
+          p_exclude_user?: string
+          p_message: string
+          p_roles: string[]
+          p_title: string
+          p_type: string
+        }
+        Returns: number
+      }
+      notify_users: {
+        Args: {
+          p_category: string
+          p_dedupe_key: string
+          p_entity_id: string
+          p_entity_type: string
+          p_message: string
+          p_title: string
+          p_type: string
+          p_user_ids: string[]
+        }
+        Returns: number
+      }
+      open_savings_account: {
+        Args: {
+          p_account_type: string
+          p_interest_rate?: number
+          p_member_id: string
+          p_minimum_balance?: number
+        }
+        Returns: string
+      }
+      post_journal_entry: {
+        Args: {
+          p_branch_id: number
+          p_created_by?: string
+          p_description: string
+          p_entry_date: string
+          p_lines: Json
+          p_source_id: string
+          p_source_type: string
+        }
+        Returns: string
+      }
+      post_mobile_money_receipt: {
+        Args: {
+          p_loan_id: string
+          p_match_method: string
+          p_receipt_id: string
+          p_user_id?: string
+        }
+        Returns: string
+      }
+      post_provisioning_run: {
+        Args: { p_run_id: string }
+        Returns: number
+      }
+      post_reconciliation_adjustment: {
+        Args: {
+          p_amount: number
+          p_direction: string
+          p_line_id: string
+          p_loan_id: string
+          p_note: string
+        }
+        Returns: string
+      }
+      post_savings_transaction: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_notes: string
+          p_payment_method: string
+          p_reference: string
+          p_type: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      queue_email: {
+        Args: {
+          p_dedupe_key: string
+          p_member_id: string
+          p_recipient_email: string
+          p_recipient_name: string
+          p_report_params?: Json
+          p_report_subscription_id?: string
+          p_template_code: string
+          p_user_id: string
+          p_vars: Json
+        }
+        Returns: string
+      }
+      queue_member_sms: {
+        Args: {
+          p_dedupe_key: string
+          p_loan_id: string
+          p_member_id: string
+          p_template_code: string
+          p_vars: Json
+        }
+        Returns: string
+      }
+      queue_report_deliveries: {
+        Args: { p_as_of?: string; p_subscription_id?: string }
+        Returns: number
+      }
+      queue_sms_reminders: {
+        Args: { p_as_of?: string }
+        Returns: number
+      }
+      record_group_meeting: {
+        Args: {
+          p_entries: Json
+          p_group_id: number
+          p_meeting_date: string
+          p_notes?: string
+          p_payment_method?: string
+        }
+        Returns: string
+      }
+      record_loan_approval: {
+        Args: { p_action: string; p_comments?: string; p_loan_id: string }
+        Returns: string
+      }
+      record_sms_delivery: {
+        Args: {
+          p_error?: string
+          p_provider: string
+          p_provider_message_id: string
+          p_status: string
+        }
+        Returns: boolean
+      }
+      recover_from_guarantor: {
+        Args: {
+          p_amount: number
+          p_installment_id: string
+          p_loan_guarantor_id: string
+          p_notes?: string
+          p_payment_method?: string
+          p_reference?: string
+          p_source: string
+        }
+        Returns: string
+      }
+      redeem_mfa_recovery_code: {
+        Args: { p_code: string }
+        Returns: boolean
+      }
+      reject_loan_restructure: {
+        Args: { p_reason: string; p_restructure_id: string }
+        Returns: undefined
+      }
+      reject_pending_change: {
+        Args: { p_change_id: string; p_reason: string }
+        Returns: undefined
+      }
+      render_email_template: {
+        Args: { p_text: string; p_vars: Json }
+        Returns: string
+      }
+      render_sms_template: {
+        Args: { p_body: string; p_vars: Json }
+        Returns: string
+      }
+      request_loan_restructure: {
+        Args: {
+          p_capitalise_arrears: boolean
+          p_effective_date: string
+          p_installment_count: number
+          p_installment_type: string
+          p_interest_rate: number
+          p_loan_id: string
+          p_reason: string
+        }
+        Returns: string
+      }
+      request_pending_change: {
+        Args: {
+          p_change_type: string
+          p_proposed: Json
+          p_reason: string
+          p_record_id: string
+        }
+        Returns: string
+      }
+      reset_role_permissions: {
+        Args: { p_role: string }
+        Returns: undefined
+      }
+      resolve_loan_approval_rule: {
+        Args: { p_amount: number; p_branch_id: number; p_loan_program: string }
+        Returns: {
+          approval_chain: string[]
+          branch_id: number | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          loan_program: string | null
+          max_amount: number | null
+          min_amount: number
+          name: string
+          updated_at: string
+        }
+      }
+      retry_sms_message: {
+        Args: { p_outbox_id: string }
+        Returns: undefined
+      }
+      reverse_journal_entry: {
+        Args: { p_entry_id: string; p_reason: string }
+        Returns: string
+      }
+      reverse_journal_entry_internal: {
+        Args: {
+          p_created_by?: string
+          p_description: string
+          p_entry_date: string
+          p_entry_id: string
+        }
+        Returns: string
+      }
+      run_email_dispatch: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      run_loan_loss_provisioning: {
+        Args: { p_period_end?: string }
+        Returns: string
+      }
+      run_nightly_backup: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      run_sms_dispatch: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      savings_deposit: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_notes?: string
+          p_payment_method?: string
+          p_reference?: string
+        }
+        Returns: string
+      }
+      savings_withdraw: {
+        Args: {
+          p_account_id: string
+          p_amount: number
+          p_notes?: string
+          p_payment_method?: string
+          p_reference?: string
+        }
+        Returns: string
+      }
       search_members_robust: {
         Args: { current_user_id?: string; search_term: string }
         Returns: {
@@ -3464,10 +6828,49 @@ export type Database = {
           status: string
         }[]
       }
+      set_active_branch: {
+        Args: { p_branch_id: number }
+        Returns: undefined
+      }
       set_loan_approval_status: {
         Args: { p_loan_id: string; p_set_by: string; p_status: string }
         Returns: undefined
       }
+      set_member_sms_opt_out: {
+        Args: { p_member_id: string; p_opt_out: boolean }
+        Returns: undefined
+      }
+      set_report_subscription_active: {
+        Args: { p_is_active: boolean; p_subscription_id: string }
+        Returns: undefined
+      }
+      set_role_permissions: {
+        Args: { p_permissions: string[]; p_role: string }
+        Returns: undefined
+      }
+      set_user_branches: {
+        Args: { p_branch_ids: number[]; p_user_id: string }
+        Returns: undefined
+      }
+      settle_loan_early: {
+        Args: {
+          p_amount: number
+          p_as_of: string
+          p_loan_id: string
+          p_notes?: string
+          p_payment_method?: string
+          p_reference?: string
+        }
+        Returns: string
+      }
+      settle_loan_top_up: {
+        Args: { p_loan_id: string }
+        Returns: number
+      }
+      subscribe_to_report: {
+        Args: { p_branch_id?: number; p_format?: string; p_report_type: string }
+        Returns: string
+      }
       track_deleted_email: {
         Args: { user_email: string; user_id: string }
         Returns: undefined
@@ -3476,6 +6879,19 @@ export type Database = {
         Args: { member_id_param: string; new_officer_id_param: string }
         Returns: undefined
       }
+      trial_balance: {
+        Args: { p_as_of?: string; p_branch_id?: number }
+        Returns: {
+          account_code: string
+          account_name: string
+          account_type: string
+          balance_credit: number
+          balance_debit: number
+          normal_balance: string
+          total_credit: number
+          total_debit: number
+        }[]
+      }
       update_profile_personal_details: {
         Args: {
           full_name?: string
@@ -3499,13 +6915,32 @@ export type Database = {
           suggested_payment_weeks: number
         }[]
       }
-      write_off_loan: {
+      validate_loan_product_terms: {
         Args: {
-          loan_uuid: string
-          requesting_user_uuid: string
-          write_off_notes: string
+          p_installment_count?: number
+          p_installment_type: string
+          p_loan_program: string
+          p_principal: number
         }
-        Returns: undefined
+        Returns: string
+      }
+      waive_loan_penalties: {
+        Args: { p_loan_id: string; p_penalty_ids?: string[]; p_reason: string }
+        Returns: number
+      }
+      weekly_collections_summary: {
+        Args: { p_branch_id?: number; p_week_end?: string }
+        Returns: {
+          amount_collected: number
+          amount_due: number
+          branch_id: number
+          branch_name: string
+          collection_rate: number
+          installments_due: number
+          loan_officer_id: string
+          loan_officer_name: string
+          payments_count: number
+        }[]
       }
     }
     Enums: {
@@ -3542,6 +6977,7 @@ export type Database = {
         | "approved"
         | "disbursed"
         | "completed"
+        | "written_off"
       payment_method:
         | "cash"
         | "bank_transfer"
@@ -3717,6 +7153,7 @@ export const Constants = {
         "approved",
         "disbursed",
         "completed",
+        "written_off",
       ],
       payment_method: [
         "cash",
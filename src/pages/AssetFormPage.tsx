@@ -4,6 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useBranch } from '@/hooks/useBranch';
 import { toast } from 'sonner';
 import { useNavigate, useParams, Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -46,6 +47,7 @@ const AssetFormPage: React.FC = () => {
     const navigate = useNavigate();
     // --- THE CRITICAL FIX: Destructure `isLoading` from the auth context ---
     const { user, profile, loading } = useAuth();
+    const { activeBranchId } = useBranch();
     const isEditMode = Boolean(assetId);
 
     const [branches, setBranches] = useState<Branch[]>([]);
@@ -96,6 +98,9 @@ const AssetFormPage: React.FC = () => {
                         };
                         reset(sanitizedData);
                     }
+                } else if (activeBranchId !== null) {
+                    // Auto-select the branch picked in the header switcher
+                    setValue('branch_id', String(activeBranchId));
                 } else if (profile?.role === 'branch_admin' && profile.branch_id) {
                     // Auto-select the branch manager's branch when creating a new asset
                     setValue('branch_id', String(profile.branch_id));
@@ -107,7 +112,7 @@ const AssetFormPage: React.FC = () => {
             }
         };
         fetchData();
-    }, [assetId, isEditMode, reset, loading, profile, setValue]);
+    }, [assetId, isEditMode, reset, loading, profile, activeBranchId, setValue]);
 
     useEffect(() => {
         if (watchedMemberId) {
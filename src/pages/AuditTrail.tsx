@@ -0,0 +1,323 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { usePermission } from '@/hooks/usePermission';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DataTable } from '@/components/ui/data-table';
+import { ShieldAlert, RefreshCw, ExternalLink, FileDiff, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AuditActionFilter, AuditLogEntry, AuditLogFilters, AuditLogUser, AuditedTable } from '@/types';
+import {
+  AUDITED_TABLES,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  auditActionLabel,
+  auditRecordLink,
+  auditTableLabel,
+  diffAuditValues,
+  fetchAuditLogUsers,
+  fetchAuditLogs,
+  formatAuditValue,
+  isAuditRecordId,
+} from '@/utils/audit';
+
+const ALL_USERS = 'all';
+const PAGE_SIZE = 50;
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString('en-KE', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const actionVariant = (action: string): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  if (action === 'INSERT') return 'default';
+  if (action === 'UPDATE') return 'secondary';
+  if (action === 'DELETE') return 'destructive';
+  return 'outline';
+};
+
+const AuditTrail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [filters, setFilters] = useState<AuditLogFilters>(() => ({
+    table: AUDITED_TABLES.includes(searchParams.get('table') as AuditedTable) ? (searchParams.get('table') as AuditedTable) : 'all',
+    recordId: searchParams.get('record') || '',
+    userId: searchParams.get('user'),
+    action: 'all',
+    from: '',
+    to: '',
+  }));
+  const [users, setUsers] = useState<AuditLogUser[]>([]);
+  const [rows, setRows] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+
+  const canView = usePermission('audit.view');
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const invalidRecordId = filters.recordId.trim() !== '' && !isAuditRecordId(filters.recordId);
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchAuditLogs(filters, page, PAGE_SIZE);
+      setRows(result.rows);
+      setTotal(result.total);
+    } catch (error: any) {
+      toast.error('Failed to load audit trail', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    if (!canView) return;
+    fetchAuditLogUsers()
+      .then(setUsers)
+      .catch((error: Error) => toast.error('Failed to load users', { description: error.message }));
+  }, [canView]);
+
+  useEffect(() => {
+    if (canView) {
+      loadLogs();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadLogs]);
+
+  const updateFilters = (changes: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    updateFilters({ table: 'all', recordId: '', userId: null, action: 'all', from: '', to: '' });
+  };
+
+  const renderRecordLink = (entry: AuditLogEntry) => {
+    const link = auditRecordLink(entry);
+    if (!link) return null;
+    return (
+      <Button asChild variant="outline" size="sm">
+        <Link to={link}>
+          <ExternalLink className="mr-2 h-4 w-4" />
+          Open
+        </Link>
+      </Button>
+    );
+  };
+
+  const columns = [
+    { header: 'When', cell: (row: AuditLogEntry) => <span className="whitespace-nowrap">{formatDateTime(row.created_at)}</span> },
+    { header: 'User', cell: (row: AuditLogEntry) => row.user_name || <span className="text-muted-foreground">System</span> },
+    { header: 'Table', cell: (row: AuditLogEntry) => auditTableLabel(row.table_name) },
+    { header: 'Action', cell: (row: AuditLogEntry) => <Badge variant={actionVariant(row.action)}>{auditActionLabel(row.action)}</Badge> },
+    {
+      header: 'Record',
+      cell: (row: AuditLogEntry) => (
+        <button
+          type="button"
+          className="font-mono text-xs underline-offset-2 hover:underline"
+          title="Show every change to this record"
+          onClick={() => updateFilters({ table: AUDITED_TABLES.includes(row.table_name as AuditedTable) ? (row.table_name as AuditedTable) : 'all', recordId: row.record_id })}
+        >
+          {row.record_id.slice(0, 8)}
+        </button>
+      )
+    },
+    {
+      header: 'Fields',
+      cell: (row: AuditLogEntry) => {
+        const fields = diffAuditValues(row.old_values, row.new_values).map(change => change.field);
+        if (fields.length === 0) return '-';
+        return (
+          <span className="text-xs text-muted-foreground whitespace-normal">
+            {fields.slice(0, 4).join(', ')}{fields.length > 4 ? ` +${fields.length - 4} more` : ''}
+          </span>
+        );
+      }
+    },
+    {
+      header: 'Actions',
+      cell: (row: AuditLogEntry) => (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSelected(row)}>
+            <FileDiff className="mr-2 h-4 w-4" />
+            Changes
+          </Button>
+          {renderRecordLink(row)}
+        </div>
+      )
+    },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view the audit trail.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const changes = selected ? diffAuditValues(selected.old_values, selected.new_values) : [];
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Audit Trail</h1>
+            <p className="text-muted-foreground mt-1">
+              Every change to loans, members, payments, expenses and users, with who made it and what it changed.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadLogs} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
+              <div className="space-y-2">
+                <Label>Table</Label>
+                <Select value={filters.table} onValueChange={(value) => updateFilters({ table: value as AuditedTable | 'all' })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All tables</SelectItem>
+                    {AUDITED_TABLES.map(table => (
+                      <SelectItem key={table} value={table}>{AUDIT_TABLE_LABELS[table]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 lg:col-span-2">
+                <Label>Record ID</Label>
+                <Input
+                  value={filters.recordId}
+                  onChange={(e) => updateFilters({ recordId: e.target.value })}
+                  placeholder="Paste a loan, member or user ID"
+                  className="font-mono"
+                />
+                {invalidRecordId && <p className="text-xs text-destructive">Not a valid record ID; ignored.</p>}
+              </div>
+              <div className="space-y-2">
+                <Label>User</Label>
+                <Select value={filters.userId || ALL_USERS} onValueChange={(value) => updateFilters({ userId: value === ALL_USERS ? null : value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_USERS}>All users</SelectItem>
+                    {users.map(user => (
+                      <SelectItem key={user.user_id} value={user.user_id}>{user.full_name || user.email || user.user_id}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={filters.action} onValueChange={(value) => updateFilters({ action: value as AuditActionFilter })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditActionFilter[]).map(action => (
+                      <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>From / To</Label>
+                <div className="flex gap-2">
+                  <Input type="date" value={filters.from} onChange={(e) => updateFilters({ from: e.target.value })} />
+                  <Input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateFilters({ to: e.target.value })} />
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="mr-2 h-4 w-4" />
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Changes</CardTitle>
+              <CardDescription>{total.toLocaleString()} entries, newest first</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={page <= 1 || loading} onClick={() => setPage(p => Math.max(1, p - 1))}>Prev</Button>
+              <span className="text-xs">Page {page} / {pageCount}</span>
+              <Button variant="outline" size="sm" disabled={page >= pageCount || loading} onClick={() => setPage(p => p + 1)}>Next</Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <DataTable columns={columns} data={rows} emptyStateMessage="No changes match these filters" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selected && `${auditActionLabel(selected.action)} · ${auditTableLabel(selected.table_name)}`}
+            </DialogTitle>
+            <DialogDescription>
+              {selected && (
+                <>
+                  {formatDateTime(selected.created_at)} by {selected.user_name || 'System'} · record{' '}
+                  <span className="font-mono">{selected.record_id}</span>
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No field values were recorded for this entry.</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                      <TableCell className={`text-xs break-all ${change.change !== 'added' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {formatAuditValue(change.before)}
+                      </TableCell>
+                      <TableCell className={`text-xs break-all ${change.change !== 'removed' ? 'text-green-700' : 'text-muted-foreground'}`}>
+                        {formatAuditValue(change.after)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {selected && <div className="flex justify-end">{renderRecordLink(selected)}</div>}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default AuditTrail;
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react'
-import { useAuth } from '@/contexts/AuthContext'
+import { usePermission } from '@/hooks/usePermission'
 import { supabase } from '@/integrations/supabase/client'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -15,7 +15,9 @@ type BackupRow = {
 }
 
 const Backups: React.FC = () => {
-  const { userRole } = useAuth()
+  const canView = usePermission('backups.view')
+  const canRunBackup = usePermission('backups.create')
+  const canRestore = usePermission('backups.restore')
   const [rows, setRows] = useState<BackupRow[]>([])
   const [running, setRunning] = useState(false)
   const [loading, setLoading] = useState(true)
@@ -26,14 +28,14 @@ const Backups: React.FC = () => {
 
   useEffect(() => {
     const load = async () => {
-      if (!['super_admin','admin'].includes(userRole || '')) { setLoading(false); return }
+      if (!canView) { setLoading(false); return }
       try {
         const { data } = await supabase.from('backup_metadata').select('*').order('created_at', { ascending: false }).limit(20)
         setRows((data || []) as any)
       } finally { setLoading(false) }
     }
     load()
-  }, [userRole])
+  }, [canView])
 
   const runBackup = async () => {
     setRunning(true)
@@ -92,7 +94,7 @@ const Backups: React.FC = () => {
   }
 
   const handleRestore = async () => {
-    if (!restoreFile) return
+    if (!restoreFile || !canRestore) return
     const text = await restoreFile.text()
     const { rows } = parseCsv(text)
     if (rows.length === 0) return
@@ -105,13 +107,13 @@ const Backups: React.FC = () => {
     alert('Restore completed for table ' + restoreTable)
   }
 
-  if (!['super_admin','admin'].includes(userRole || '')) {
+  if (!canView) {
     return (
       <div className='p-6'>
         <Card className='max-w-md mx-auto'>
           <CardHeader>
             <CardTitle>Access Denied</CardTitle>
-            <CardDescription>Only Admins and Super Admins can manage backups.</CardDescription>
+            <CardDescription>You do not have permission to view backups.</CardDescription>
           </CardHeader>
         </Card>
       </div>
@@ -128,7 +130,7 @@ const Backups: React.FC = () => {
             <CardTitle>Backups</CardTitle>
             <CardDescription>Nightly or on-demand CSV snapshots to the backups bucket (30-day retention).</CardDescription>
           </div>
-          <Button onClick={runBackup} disabled={running}>{running ? 'Running...' : 'Run Backup Now'}</Button>
+          {canRunBackup && <Button onClick={runBackup} disabled={running}>{running ? 'Running...' : 'Run Backup Now'}</Button>}
         </CardHeader>
         <CardContent>
           <div className='overflow-x-auto'>
@@ -197,6 +199,7 @@ const Backups: React.FC = () => {
             </div>
           )}
 
+          {canRestore && (
           <div className='mt-8'>
             <h3 className='font-semibold mb-2'>Restore from CSV</h3>
             <div className='flex items-center gap-2 mb-2'>
@@ -214,6 +217,7 @@ const Backups: React.FC = () => {
             </div>
             <p className='text-xs text-muted-foreground'>Tip: Use CSVs exported by this system for best compatibility. Large imports are processed in batches.</p>
           </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -6,9 +6,12 @@ import { Input } from '@/components/ui/input';
 import { DataTable } from '@/components/ui/data-table';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Download, FileText, AlertTriangle, Search } from 'lucide-react';
+import { Download, FileText, AlertTriangle, Search, Scale, Ban } from 'lucide-react';
 import { toast } from 'sonner';
 import { fixData, fixColumns } from '@/utils/typeUtils';
+import { WriteOffLoanDialog } from '@/components/loans/WriteOffLoanDialog';
+import type { WrittenOffLoan } from '@/types';
+import { fetchProvisionBalances, fetchWrittenOffLoans } from '@/utils/provisioning';
 
 interface BadDebtStats {
   totalWrittenOff: number;
@@ -27,12 +30,22 @@ interface BadDebtRecord {
   written_off_date: string;
 }
 
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
 const BadDebt: React.FC = () => {
-  const { user } = useAuth();
+  const { user, userRole } = useAuth();
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<BadDebtStats>({ totalWrittenOff: 0, totalValue: 0 });
   const [records, setRecords] = useState<BadDebtRecord[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [writtenOff, setWrittenOff] = useState<WrittenOffLoan[]>([]);
+  const [allowance, setAllowance] = useState(0);
+  const [writeOffOpen, setWriteOffOpen] = useState(false);
+
+  // Write-offs and the allowance are branch-level figures, not shown to loan officers
+  const canViewProvision = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canWriteOff = userRole === 'super_admin' || userRole === 'admin';
 
   useEffect(() => {
     if (user) {
@@ -40,6 +53,22 @@ const BadDebt: React.FC = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (user && canViewProvision) {
+      fetchProvisionData();
+    }
+  }, [user, canViewProvision]);
+
+  const fetchProvisionData = async () => {
+    try {
+      const [loans, balances] = await Promise.all([fetchWrittenOffLoans(), fetchProvisionBalances()]);
+      setWrittenOff(loans);
+      setAllowance(balances.reduce((sum, row) => sum + row.balance, 0));
+    } catch (error: any) {
+      toast.error('Failed to load write-offs', { description: error.message });
+    }
+  };
+
   const fetchBadDebtData = async () => {
     if (!user) return;
     setLoading(true);
@@ -92,6 +121,36 @@ const BadDebt: React.FC = () => {
     { header: 'Written Off Date', accessorKey: 'written_off_date' },
   ]);
 
+  const writtenOffColumns = [
+    {
+      header: 'Loan',
+      cell: (row: WrittenOffLoan) => (
+        <div>
+          <div className="font-medium">{row.member_name || 'Unknown member'}</div>
+          <div className="text-xs text-muted-foreground">{row.account_number} · {row.branch_name || '-'}</div>
+        </div>
+      )
+    },
+    { header: 'Written Off', cell: (row: WrittenOffLoan) => formatCurrency(row.written_off_amount) },
+    { header: 'From Provision', cell: (row: WrittenOffLoan) => formatCurrency(row.from_provision) },
+    {
+      header: 'Unprovided',
+      cell: (row: WrittenOffLoan) => (
+        <span className={row.unprovided > 0 ? 'text-destructive' : ''}>{formatCurrency(row.unprovided)}</span>
+      )
+    },
+    {
+      header: 'Date',
+      cell: (row: WrittenOffLoan) => (
+        <div>
+          <div>{row.written_off_date ? new Date(row.written_off_date).toLocaleDateString() : '-'}</div>
+          <div className="text-xs text-muted-foreground">{row.written_off_by_name || ''}</div>
+        </div>
+      )
+    },
+    { header: 'Reason', cell: (row: WrittenOffLoan) => <span className="text-sm">{row.write_off_reason || '-'}</span> },
+  ];
+
   const filteredRecords = records.filter(record =>
     record.member_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     record.account_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -115,6 +174,12 @@ const BadDebt: React.FC = () => {
           <p className="text-muted-foreground">Monitor loans written off as bad debt</p>
         </div>
         <div className="flex gap-2">
+          {canWriteOff && (
+            <Button size="sm" onClick={() => setWriteOffOpen(true)}>
+              <Ban className="h-4 w-4 mr-2" />
+              Write Off Loan
+            </Button>
+          )}
           <Button variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
             Export PDF
@@ -126,7 +191,7 @@ const BadDebt: React.FC = () => {
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className={`grid gap-4 md:grid-cols-2 ${canViewProvision ? 'lg:grid-cols-4' : ''}`}>
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Written Off</CardTitle>
@@ -147,6 +212,30 @@ const BadDebt: React.FC = () => {
             <p className="text-xs text-muted-foreground">Total value of bad debt</p>
           </CardContent>
         </Card>
+        {canViewProvision && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Loan Loss Allowance</CardTitle>
+              <Scale className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(allowance)}</div>
+              <p className="text-xs text-muted-foreground">Provision available for write-offs</p>
+            </CardContent>
+          </Card>
+        )}
+        {canViewProvision && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Written Off</CardTitle>
+              <Ban className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(writtenOff.reduce((sum, row) => sum + row.written_off_amount, 0))}</div>
+              <p className="text-xs text-muted-foreground">{writtenOff.length} loan(s) written off</p>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       <Card>
@@ -173,6 +262,30 @@ const BadDebt: React.FC = () => {
           />
         </CardContent>
       </Card>
+
+      {canViewProvision && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Written Off Against Provision</CardTitle>
+            <CardDescription>
+              Outstanding principal is drawn from the branch's loan loss allowance. Anything not provided for is charged
+              to provision expense when the loan is written off.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable columns={writtenOffColumns} data={writtenOff} emptyStateMessage="No loans have been written off." />
+          </CardContent>
+        </Card>
+      )}
+
+      <WriteOffLoanDialog
+        open={writeOffOpen}
+        onOpenChange={setWriteOffOpen}
+        onSuccess={() => {
+          fetchBadDebtData();
+          fetchProvisionData();
+        }}
+      />
     </div>
   );
 };
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNotifications } from '@/contexts/NotificationContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -44,29 +43,18 @@ interface RecentLoan {
 }
 
 const Dashboard: React.FC = () => {
-  const { user, userRole, profile } = useAuth();
-  const { addNotification } = useNotifications();
+  const { user, userRole } = useAuth();
   const navigate = useNavigate();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [recentLoans, setRecentLoans] = useState<RecentLoan[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    // Guard until auth is ready
-    if (!user || !userRole) {
-      return;
-    }
-    // Reset while refetching to avoid showing stale stats from a previous role
-    setStats(null);
-    setRecentLoans([]);
-    fetchDashboardData();
-    // Re-run when role or branch context changes
-  }, [user?.id, userRole, profile?.branch_id]);
+  const userId = user?.id;
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = useCallback(async () => {
     try {
       setLoading(true);
-      const expectedUserId = user?.id;
+      const expectedUserId = userId;
       const expectedRole = userRole;
       
       
@@ -98,15 +86,13 @@ const Dashboard: React.FC = () => {
       });
       let filteredMembers = members || [];
       
-      if (userRole === 'branch_admin' && profile?.branch_id) {
-        filteredLoans = filteredLoans.filter(loan => loan.branch_id === profile.branch_id);
-        filteredMembers = filteredMembers.filter(member => member.branch_id === profile.branch_id);
-      } else if (userRole === 'loan_officer') {
+      // Branch scope comes from RLS; only the officer's own book is narrowed here
+      if (userRole === 'loan_officer') {
         // Loan officers can only see loans and members assigned to them
         // Filter by assigned_officer_id for members
         filteredMembers = filteredMembers.filter(member => {
           const memberObj = member as any;
-          return memberObj.assigned_officer_id === user?.id;
+          return memberObj.assigned_officer_id === userId;
         });
         
         // Get member IDs that are assigned to this loan officer
@@ -116,19 +102,15 @@ const Dashboard: React.FC = () => {
         filteredLoans = filteredLoans.filter(loan => {
           const loanMemberId = loan.member_id || loan.customer_id;
           return (
-            loan.loan_officer_id === user?.id ||
+            loan.loan_officer_id === userId ||
             (loanMemberId && assignedMemberIds.has(loanMemberId))
           );
         });
-      } else if (userRole === 'auditor' && profile?.branch_id) {
-        // Auditor scoped to their branch
-        filteredLoans = filteredLoans.filter(loan => loan.branch_id === profile.branch_id);
-        filteredMembers = filteredMembers.filter(member => member.branch_id === profile.branch_id);
       }
       
       // Step 3: Get unified overdue count
       const { data: overdueData, error: overdueError } = await supabase
-        .rpc('get_unified_overdue_loans_report', { requesting_user_id: user?.id });
+        .rpc('get_unified_overdue_loans_report', { requesting_user_id: userId });
 
       if (overdueError) {
         // Silently handle overdue data error
@@ -151,7 +133,7 @@ const Dashboard: React.FC = () => {
       };
       
       // Prevent stale updates if user/role changed during fetch
-      if (user?.id !== expectedUserId || userRole !== expectedRole) return;
+      if (userId !== expectedUserId || userRole !== expectedRole) return;
       setStats(stats);
       
       // Step 5: Get recent loans and fetch related names
@@ -191,7 +173,7 @@ const Dashboard: React.FC = () => {
           };
         });
         
-        if (user?.id !== expectedUserId || userRole !== expectedRole) return;
+        if (userId !== expectedUserId || userRole !== expectedRole) return;
         setRecentLoans(loansWithDetails);
       } else {
         setRecentLoans([]);
@@ -211,7 +193,19 @@ const Dashboard: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [userId, userRole]);
+
+  useEffect(() => {
+    // Guard until auth is ready
+    if (!userId || !userRole) {
+      return;
+    }
+    // Reset while refetching to avoid showing stale stats from a previous role
+    setStats(null);
+    setRecentLoans([]);
+    fetchDashboardData();
+    // Re-run when the role changes; a branch switch remounts the page
+  }, [userId, userRole, fetchDashboardData]);
 
   const getStatusVariant = (status: string) => {
     switch (status) {
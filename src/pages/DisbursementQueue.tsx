@@ -0,0 +1,306 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Loader2, ShieldAlert, RefreshCw, Banknote, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import type { DisbursementMethod, PendingDisbursement } from '@/types';
+import { describeTerm } from '@/utils/loanProducts';
+import {
+  disburseLoan,
+  estimateDisbursementPayout,
+  fetchNetProcessingFeeSetting,
+  fetchPendingDisbursements,
+} from '@/utils/disbursement';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const DisbursementQueue: React.FC = () => {
+  const { userRole } = useAuth();
+  const [loans, setLoans] = useState<PendingDisbursement[]>([]);
+  const [netProcessingFee, setNetProcessingFee] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  // Disbursement dialog
+  const [disbursing, setDisbursing] = useState<PendingDisbursement | null>(null);
+  const [disbursementDate, setDisbursementDate] = useState(today());
+  const [method, setMethod] = useState<DisbursementMethod>('mobile_money');
+  const [reference, setReference] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canDisburse = ['super_admin', 'admin', 'branch_admin'].includes(userRole || '');
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [pending, netFee] = await Promise.all([fetchPendingDisbursements(), fetchNetProcessingFeeSetting()]);
+      setLoans(pending);
+      setNetProcessingFee(netFee);
+    } catch (error: any) {
+      toast.error('Failed to load the disbursement queue', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canDisburse) {
+      loadQueue();
+    } else {
+      setLoading(false);
+    }
+  }, [canDisburse, loadQueue]);
+
+  const openDisbursement = (loan: PendingDisbursement) => {
+    setDisbursing(loan);
+    setDisbursementDate(today());
+    setMethod('mobile_money');
+    setReference('');
+    setNotes('');
+  };
+
+  const handleDisburse = async () => {
+    if (!disbursing) return;
+    if (method !== 'cash' && !reference.trim()) {
+      toast.warning('Enter the bank, M-Pesa or cheque reference for this payout.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await disburseLoan(disbursing.id, {
+        disbursement_date: disbursementDate,
+        method,
+        reference: reference.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Loan ${disbursing.account_number} disbursed`, {
+        description: `Repayments are scheduled from ${new Date(disbursementDate).toLocaleDateString()}.`,
+      });
+      setDisbursing(null);
+      await loadQueue();
+    } catch (error: any) {
+      toast.error('Disbursement failed', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const queueTotal = loans.reduce((sum, loan) => sum + estimateDisbursementPayout(loan, netProcessingFee), 0);
+
+  const columns = [
+    {
+      header: 'Loan',
+      cell: (row: PendingDisbursement) => (
+        <div>
+          <Link to={`/loans/${row.id}`} className="font-medium text-primary hover:underline">{row.account_number}</Link>
+          <div className="text-xs text-muted-foreground">Approved {new Date(row.approved_at).toLocaleDateString()}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Member',
+      cell: (row: PendingDisbursement) => (
+        <div>
+          <div className="font-medium">{row.member_name}</div>
+          <div className="text-xs text-muted-foreground">{row.branch_name}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Principal',
+      cell: (row: PendingDisbursement) => (
+        <div>
+          <div>{formatCurrency(row.principal_amount)}</div>
+          {row.installment_count && (
+            <div className="text-xs text-muted-foreground">{describeTerm(row.installment_count, row.installment_type)}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Deductions',
+      cell: (row: PendingDisbursement) => (
+        <div className="space-y-1 text-sm">
+          {row.previous_loan_id && <div><Badge variant="secondary">Top-up</Badge> {formatCurrency(row.top_up_settlement_amount)}</div>}
+          {netProcessingFee && row.processing_fee > 0 && <div>Fee {formatCurrency(row.processing_fee)}</div>}
+          {!row.previous_loan_id && !(netProcessingFee && row.processing_fee > 0) && <span className="text-muted-foreground">None</span>}
+        </div>
+      )
+    },
+    {
+      header: 'Payout',
+      cell: (row: PendingDisbursement) => (
+        <span className="font-semibold">{formatCurrency(estimateDisbursementPayout(row, netProcessingFee))}</span>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: PendingDisbursement) => (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            onClick={() => openDisbursement(row)}
+          >
+            <Send className="h-4 w-4 mr-1" />
+            Disburse
+          </Button>
+        </div>
+      )
+    },
+  ];
+
+  if (!canDisburse) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>Only Admins and Branch Admins can disburse loans.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Disbursements</h1>
+            <p className="text-muted-foreground mt-1">
+              Approved loans waiting to be paid out. Repayments start from the disbursement date.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadQueue} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Banknote className="h-5 w-5" />
+              Disbursement Queue
+            </CardTitle>
+            <CardDescription>
+              {loans.length} loan(s) awaiting payout, about {formatCurrency(queueTotal)} in total
+              {netProcessingFee && ' after processing fees are deducted'}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <DataTable columns={columns} data={loans} emptyStateMessage="No approved loans are waiting to be disbursed." />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!disbursing} onOpenChange={(open) => { if (!open) setDisbursing(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Disburse {disbursing?.account_number}</DialogTitle>
+            <DialogDescription>
+              Record the payout to {disbursing?.member_name}. A disbursement transaction is posted and the repayment
+              schedule starts from the date below.
+            </DialogDescription>
+          </DialogHeader>
+          {disbursing && (
+            <div className="space-y-4">
+              <div className="rounded-md border p-3 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Principal</span>
+                  <span>{formatCurrency(disbursing.principal_amount)}</span>
+                </div>
+                {disbursing.previous_loan_id && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Previous loan settled (estimate)</span>
+                    <span>- {formatCurrency(disbursing.top_up_settlement_amount)}</span>
+                  </div>
+                )}
+                {netProcessingFee && disbursing.processing_fee > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Processing fee</span>
+                    <span>- {formatCurrency(disbursing.processing_fee)}</span>
+                  </div>
+                )}
+                <Separator />
+                <div className="flex justify-between font-semibold">
+                  <span>Pay out</span>
+                  <span>{formatCurrency(estimateDisbursementPayout(disbursing, netProcessingFee))}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="disbursement-date">Disbursement date</Label>
+                  <Input
+                    id="disbursement-date"
+                    type="date"
+                    max={today()}
+                    value={disbursementDate}
+                    onChange={(e) => setDisbursementDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Payout method</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as DisbursementMethod)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                      <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="check">Cheque</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disbursement-reference">Reference</Label>
+                <Input
+                  id="disbursement-reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder={method === 'cash' ? 'Generated if left blank' : 'M-Pesa code, bank or cheque number'}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="disbursement-notes">Notes</Label>
+                <Textarea id="disbursement-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisbursing(null)}>Cancel</Button>
+            <Button onClick={handleDisburse} disabled={isSubmitting || !disbursementDate || disbursementDate > today()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm Disbursement
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DisbursementQueue;
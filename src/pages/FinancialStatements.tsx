@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ExportDropdown } from '@/components/ui/ExportDropdown';
+import { Loader2, ShieldAlert, RefreshCw, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  FinancialStatementLine,
+  GlAccountActivity,
+  GlCashFlow,
+  StatementComparison,
+  StatementPeriod,
+  StatementPeriodPreset,
+} from '@/types';
+import {
+  STATEMENT_COMPARISON_LABELS,
+  STATEMENT_PERIOD_LABELS,
+  buildBalanceSheet,
+  buildCashFlowStatement,
+  buildIncomeStatement,
+  comparisonPeriod,
+  fetchAccountActivity,
+  fetchCashFlows,
+  resolveStatementPeriod,
+  statementValue,
+} from '@/utils/financialStatements';
+
+const ALL_BRANCHES = 'all';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-KE', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const formatPeriod = (period: StatementPeriod): string => `${formatDate(period.from)} - ${formatDate(period.to)}`;
+
+const formatChange = (line: FinancialStatementLine): string => {
+  if (line.current === null || line.prior === null) return '';
+  const change = line.current - line.prior;
+  const percent = line.prior !== 0 ? ` (${((change / Math.abs(line.prior)) * 100).toFixed(1)}%)` : '';
+  return `${change > 0 ? '+' : ''}${formatCurrency(change)}${percent}`;
+};
+
+interface StatementData {
+  activity: GlAccountActivity[];
+  flows: GlCashFlow[];
+}
+
+const StatementTable: React.FC<{ lines: FinancialStatementLine[]; currentLabel: string; priorLabel: string | null }> = ({
+  lines,
+  currentLabel,
+  priorLabel,
+}) => (
+  <div className="border rounded-md overflow-x-auto">
+    <table className="w-full">
+      <thead>
+        <tr className="border-b bg-muted/50">
+          <th className="px-4 py-3 text-left text-sm font-medium text-muted-foreground" />
+          <th className="px-4 py-3 text-right text-sm font-medium text-muted-foreground whitespace-nowrap">{currentLabel}</th>
+          {priorLabel && (
+            <>
+              <th className="px-4 py-3 text-right text-sm font-medium text-muted-foreground whitespace-nowrap">{priorLabel}</th>
+              <th className="px-4 py-3 text-right text-sm font-medium text-muted-foreground whitespace-nowrap">Change</th>
+            </>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map(line => (
+          <tr
+            key={line.key}
+            className={
+              line.kind === 'heading' ? 'bg-muted/30'
+                : line.kind === 'total' ? 'border-t-2 font-bold'
+                  : line.kind === 'subtotal' ? 'border-t font-semibold'
+                    : ''
+            }
+          >
+            <td className={`px-4 py-2 ${line.kind === 'line' ? 'pl-8' : ''} ${line.kind === 'heading' ? 'font-semibold' : ''}`}>{line.label}</td>
+            <td className="px-4 py-2 text-right whitespace-nowrap">{line.current === null ? '' : formatCurrency(line.current)}</td>
+            {priorLabel && (
+              <>
+                <td className="px-4 py-2 text-right whitespace-nowrap">{line.prior === null ? '' : formatCurrency(line.prior)}</td>
+                <td className="px-4 py-2 text-right whitespace-nowrap text-muted-foreground">{formatChange(line)}</td>
+              </>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const FinancialStatements: React.FC = () => {
+  const { userRole } = useAuth();
+  const [preset, setPreset] = useState<StatementPeriodPreset>('this_month');
+  const [customPeriod, setCustomPeriod] = useState<StatementPeriod>(() => resolveStatementPeriod('this_month', { from: '', to: '' }));
+  const [comparison, setComparison] = useState<StatementComparison>('previous_period');
+  const [branchFilter, setBranchFilter] = useState<string>(ALL_BRANCHES);
+  const [branches, setBranches] = useState<{ id: number; name: string }[]>([]);
+  const [current, setCurrent] = useState<StatementData | null>(null);
+  const [prior, setPrior] = useState<StatementData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canChooseBranch = userRole !== 'branch_admin';
+
+  const period = useMemo(() => resolveStatementPeriod(preset, customPeriod), [preset, customPeriod]);
+  const priorPeriod = useMemo(() => comparisonPeriod(period, comparison), [period, comparison]);
+  const branchId = branchFilter === ALL_BRANCHES ? null : Number(branchFilter);
+  const branchLabel = branchId === null
+    ? (canChooseBranch ? 'Consolidated' : 'My branches')
+    : branches.find(branch => branch.id === branchId)?.name || `Branch ${branchId}`;
+
+  const loadStatements = useCallback(async () => {
+    if (!period.from || !period.to) return;
+    setLoading(true);
+    try {
+      const load = async (range: StatementPeriod): Promise<StatementData> => {
+        const [activity, flows] = await Promise.all([
+          fetchAccountActivity(range, branchId),
+          fetchCashFlows(range, branchId),
+        ]);
+        return { activity, flows };
+      };
+      const [currentData, priorData] = await Promise.all([
+        load(period),
+        priorPeriod ? load(priorPeriod) : Promise.resolve(null),
+      ]);
+      setCurrent(currentData);
+      setPrior(priorData);
+    } catch (error: any) {
+      toast.error('Failed to load financial statements', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [period, priorPeriod, branchId]);
+
+  useEffect(() => {
+    if (!canView || !canChooseBranch) return;
+    supabase
+      .from('branches')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) => setBranches((data || []).map(branch => ({ id: Number(branch.id), name: branch.name }))));
+  }, [canView, canChooseBranch]);
+
+  useEffect(() => {
+    if (canView) {
+      loadStatements();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadStatements]);
+
+  const incomeStatement = useMemo(
+    () => (current ? buildIncomeStatement(current.activity, prior?.activity || null) : []),
+    [current, prior]
+  );
+  const balanceSheet = useMemo(
+    () => (current ? buildBalanceSheet(current.activity, prior?.activity || null) : []),
+    [current, prior]
+  );
+  const cashFlow = useMemo(
+    () => (current ? buildCashFlowStatement(current, prior) : []),
+    [current, prior]
+  );
+
+  const balanceDifference = statementValue(balanceSheet, 'total_assets') - statementValue(balanceSheet, 'total_liabilities_equity');
+  const cashDifference = statementValue(cashFlow, 'opening_cash') + statementValue(cashFlow, 'net_change') - statementValue(cashFlow, 'closing_cash');
+
+  const currentLabel = formatPeriod(period);
+  const priorLabel = priorPeriod ? formatPeriod(priorPeriod) : null;
+  const balanceCurrentLabel = `As at ${formatDate(period.to)}`;
+  const balancePriorLabel = priorPeriod ? `As at ${formatDate(priorPeriod.to)}` : null;
+
+  const exportColumns = (currentHeader: string, priorHeader: string | null) => [
+    { header: 'Line', accessorKey: (row: FinancialStatementLine) => (row.kind === 'line' ? `    ${row.label}` : row.label) },
+    { header: currentHeader, accessorKey: (row: FinancialStatementLine) => (row.current === null ? '' : formatCurrency(row.current)) },
+    ...(priorHeader
+      ? [
+          { header: priorHeader, accessorKey: (row: FinancialStatementLine) => (row.prior === null ? '' : formatCurrency(row.prior)) },
+          { header: 'Change', accessorKey: (row: FinancialStatementLine) => formatChange(row) },
+        ]
+      : []),
+  ];
+
+  const renderStatement = (
+    title: string,
+    description: string,
+    lines: FinancialStatementLine[],
+    fileName: string,
+    headers: { current: string; prior: string | null },
+    check?: { ok: boolean; okLabel: string; failLabel: string }
+  ) => (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            {title}
+            {check && !loading && (
+              check.ok
+                ? <Badge variant="outline" className="gap-1"><CheckCircle2 className="h-3 w-3 text-green-600" />{check.okLabel}</Badge>
+                : <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" />{check.failLabel}</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <ExportDropdown
+          data={lines}
+          columns={exportColumns(headers.current, headers.prior)}
+          fileName={`${fileName}-${period.from}-to-${period.to}`}
+          reportTitle={`${title} - ${branchLabel} - ${headers.current}`}
+        />
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center items-center h-40">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <StatementTable lines={lines} currentLabel={headers.current} priorLabel={headers.prior} />
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view financial statements.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Financial Statements</h1>
+          <p className="text-muted-foreground mt-1">
+            Income statement, balance sheet and cash flow from the general ledger. {branchLabel}, {currentLabel}.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadStatements} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap gap-2 items-center">
+          <Select value={preset} onValueChange={(value) => setPreset(value as StatementPeriodPreset)}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATEMENT_PERIOD_LABELS) as StatementPeriodPreset[]).map(key => (
+                <SelectItem key={key} value={key}>{STATEMENT_PERIOD_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input
+                type="date"
+                value={customPeriod.from}
+                onChange={(e) => setCustomPeriod(prev => ({ ...prev, from: e.target.value }))}
+                className="w-40"
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={customPeriod.to}
+                min={customPeriod.from}
+                onChange={(e) => setCustomPeriod(prev => ({ ...prev, to: e.target.value }))}
+                className="w-40"
+              />
+            </>
+          )}
+          <Select value={comparison} onValueChange={(value) => setComparison(value as StatementComparison)}>
+            <SelectTrigger className="w-52"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATEMENT_COMPARISON_LABELS) as StatementComparison[]).map(key => (
+                <SelectItem key={key} value={key}>{STATEMENT_COMPARISON_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canChooseBranch && (
+            <Select value={branchFilter} onValueChange={setBranchFilter}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_BRANCHES}>All branches (consolidated)</SelectItem>
+                {branches.map(branch => (
+                  <SelectItem key={branch.id} value={String(branch.id)}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {priorLabel && <span className="text-sm text-muted-foreground">Compared with {priorLabel}</span>}
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="income">
+        <TabsList>
+          <TabsTrigger value="income">Income Statement</TabsTrigger>
+          <TabsTrigger value="balance">Balance Sheet</TabsTrigger>
+          <TabsTrigger value="cashflow">Cash Flow</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="income">
+          {renderStatement(
+            'Income Statement',
+            'Income and expenses posted in the period. Interest and fees count when they are received.',
+            incomeStatement,
+            'income-statement',
+            { current: currentLabel, prior: priorLabel }
+          )}
+        </TabsContent>
+
+        <TabsContent value="balance">
+          {renderStatement(
+            'Balance Sheet',
+            'Balances at the end of the period. Accumulated surplus is all income less expenses to date.',
+            balanceSheet,
+            'balance-sheet',
+            { current: balanceCurrentLabel, prior: balancePriorLabel },
+            {
+              ok: Math.abs(balanceDifference) < 0.005,
+              okLabel: 'Balances',
+              failLabel: `Off by ${formatCurrency(Math.abs(balanceDifference))}`,
+            }
+          )}
+        </TabsContent>
+
+        <TabsContent value="cashflow">
+          {renderStatement(
+            'Cash Flow Statement',
+            'Cash, bank and mobile money received and paid in the period, by what it was for.',
+            cashFlow,
+            'cash-flow',
+            { current: currentLabel, prior: priorLabel },
+            {
+              ok: Math.abs(cashDifference) < 0.005,
+              okLabel: 'Reconciles to cash',
+              failLabel: `Unexplained ${formatCurrency(Math.abs(cashDifference))}`,
+            }
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default FinancialStatements;
@@ -8,16 +8,21 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   ArrowLeft, 
+  CalendarDays,
   CreditCard,
   Download,
   Users,
   Building2,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  ShieldAlert
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import type { GroupArrearsEntry, GroupArrearsSettings } from '@/types';
+import { fetchGroupArrears, fetchGroupArrearsSettings, fetchGroupLendingBlockReason } from '@/utils/guarantors';
 
 // Types
 interface Group {
@@ -61,6 +66,9 @@ const GroupDetails: React.FC = () => {
   const [bulkPaymentDialog, setBulkPaymentDialog] = useState(false);
   const [bulkPaymentAmount, setBulkPaymentAmount] = useState('');
   const [isProcessingBulkPayment, setIsProcessingBulkPayment] = useState(false);
+  const [groupArrears, setGroupArrears] = useState<GroupArrearsEntry[]>([]);
+  const [arrearsSettings, setArrearsSettings] = useState<GroupArrearsSettings | null>(null);
+  const [lendingBlockReason, setLendingBlockReason] = useState<string | null>(null);
 
   // Fetch group data
   const fetchGroupData = async () => {
@@ -111,6 +119,9 @@ const GroupDetails: React.FC = () => {
       
       // Fetch group transactions
       await fetchGroupTransactions(groupWithData);
+
+      // Fetch members in arrears and whether the group can still borrow
+      await fetchGroupArrearsStatus(groupData.id);
       
     } catch (error: any) {
       console.error('Failed to fetch group data:', error);
@@ -200,6 +211,23 @@ const GroupDetails: React.FC = () => {
     }
   };
 
+  // Fetch group arrears (joint liability)
+  const fetchGroupArrearsStatus = async (id: number) => {
+    try {
+      const [arrears, settings, blockReason] = await Promise.all([
+        fetchGroupArrears(id),
+        fetchGroupArrearsSettings(),
+        fetchGroupLendingBlockReason(id)
+      ]);
+      setGroupArrears(arrears);
+      setArrearsSettings(settings);
+      setLendingBlockReason(blockReason);
+    } catch (error) {
+      console.error('Failed to fetch group arrears:', error);
+      toast.error('Failed to load group arrears');
+    }
+  };
+
   // Handle individual payment recording
   const handleRecordPayment = (memberId: string, loanId: string) => {
     navigate(`/loans/${loanId}?fromGroup=${groupId}`);
@@ -314,6 +342,8 @@ const GroupDetails: React.FC = () => {
   // Calculate totals
   const totalOutstanding = groupTransactions.reduce((sum, t) => sum + t.outstanding_amount, 0);
   const totalAsOnOutstanding = groupTransactions.reduce((sum, t) => sum + t.as_on_outstanding, 0);
+  const defaulterCount = new Set(groupArrears.filter(a => a.is_defaulter).map(a => a.member_id)).size;
+  const totalArrears = groupArrears.reduce((sum, a) => sum + a.arrears_amount, 0);
 
   useEffect(() => {
     fetchGroupData();
@@ -414,6 +444,15 @@ const GroupDetails: React.FC = () => {
           <span className="hidden sm:inline">Record Bulk Payment</span>
           <span className="sm:hidden">Bulk Payment</span>
         </Button>
+        <Button
+          variant="outline"
+          onClick={() => navigate(`/groups/${groupId}/meetings`)}
+          className="flex items-center gap-2 w-full sm:w-auto"
+        >
+          <CalendarDays className="h-4 w-4" />
+          <span className="hidden sm:inline">Meeting Session</span>
+          <span className="sm:hidden">Meeting</span>
+        </Button>
         <Button
           variant="outline"
           onClick={() => navigate(`/groups/${groupId}/members`)}
@@ -434,6 +473,66 @@ const GroupDetails: React.FC = () => {
         </Button>
       </div>
 
+      {/* Group Arrears */}
+      <Card className={lendingBlockReason ? 'border-red-300' : undefined}>
+        <CardHeader>
+          <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+            <ShieldAlert className={`h-5 w-5 ${lendingBlockReason ? 'text-red-600' : 'text-muted-foreground'}`} />
+            Group Arrears
+          </CardTitle>
+          <CardDescription className="text-sm">
+            {defaulterCount} defaulter(s) · {formatCurrency(totalArrears)} overdue
+            {arrearsSettings && ` · Members are defaulters after ${arrearsSettings.group_arrears_days} days; new loans stop above ${arrearsSettings.group_max_defaulters} defaulter(s)`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {lendingBlockReason ? (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+              New loans are blocked for every member of this group: {lendingBlockReason}. Recover the arrears from the
+              defaulters or their guarantors to lift the block.
+            </div>
+          ) : (
+            <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-700">
+              Members of this group can apply for new loans.
+            </div>
+          )}
+          {groupArrears.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Member</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Loan</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Overdue</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Days Late</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Arrears</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groupArrears.map(entry => (
+                    <tr
+                      key={entry.loan_id}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => navigate(`/loans/${entry.loan_id}?fromGroup=${groupId}`)}
+                    >
+                      <td className="px-4 py-3 text-sm font-medium text-blue-600">{entry.member_name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{entry.account_number}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{entry.overdue_installments} installment(s)</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{entry.days_overdue}</td>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{formatCurrency(entry.arrears_amount)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        {entry.is_defaulter ? <Badge variant="destructive">Defaulter</Badge> : <Badge variant="secondary">In arrears</Badge>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Transaction Sheet */}
       <Card>
         <CardHeader>
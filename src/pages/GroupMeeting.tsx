@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollableContainer } from '@/components/ui/scrollable-container';
+import { ArrowLeft, CalendarDays, CheckCheck, ClipboardCheck, Loader2, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  CollectionSheetEntry,
+  GroupMeeting as GroupMeetingRecord,
+  GroupMeetingAttendanceRecord,
+  GroupMeetingEntry,
+  MeetingAttendance,
+  SettlementPaymentMethod,
+} from '@/types';
+import {
+  fetchCollectionSheet,
+  fetchGroupMeetingAttendance,
+  fetchGroupMeetings,
+  getLastMeetingDate,
+  MEETING_ATTENDANCE_LABELS,
+  recordGroupMeeting,
+} from '@/utils/groupMeetings';
+import { generateCollectionSheetPDF } from '@/utils/pdfGenerator';
+
+interface MeetingGroup {
+  id: number;
+  name: string;
+  branch_name: string;
+  meeting_day: number | string | null;
+  meeting_time: string | null;
+  officer_name: string | null;
+}
+
+interface SheetLine {
+  attendance: MeetingAttendance;
+  amount: string;
+}
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const DAY_NAMES = ['', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const GroupMeeting: React.FC = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
+  const { userRole, profile } = useAuth();
+  const canRecord = ['super_admin', 'admin', 'branch_admin', 'loan_officer'].includes(userRole || '');
+
+  const [group, setGroup] = useState<MeetingGroup | null>(null);
+  const [meetings, setMeetings] = useState<GroupMeetingRecord[]>([]);
+  const [meetingDate, setMeetingDate] = useState('');
+  const [sheet, setSheet] = useState<CollectionSheetEntry[]>([]);
+  const [lines, setLines] = useState<Record<string, SheetLine>>({});
+  const [attendance, setAttendance] = useState<GroupMeetingAttendanceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingSheet, setLoadingSheet] = useState(false);
+
+  // Record dialog
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<SettlementPaymentMethod>('cash');
+  const [notes, setNotes] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+
+  const recordedMeeting = useMemo(
+    () => meetings.find(m => m.meeting_date === meetingDate) || null,
+    [meetings, meetingDate]
+  );
+
+  const loadGroup = useCallback(async () => {
+    if (!groupId) return;
+    setLoading(true);
+    try {
+      const { data: groupData, error } = await supabase
+        .from('groups')
+        .select('*, branches(name)')
+        .eq('id', Number(groupId))
+        .single();
+      if (error) throw error;
+
+      const officerId = groupData.loan_officer_id || groupData.assigned_officer_id;
+      const { data: officer } = officerId
+        ? await supabase.from('profiles').select('full_name').eq('id', officerId).maybeSingle()
+        : { data: null };
+
+      setGroup({
+        id: groupData.id,
+        name: groupData.name,
+        branch_name: groupData.branches?.name || 'Unknown',
+        meeting_day: groupData.meeting_day,
+        meeting_time: groupData.meeting_time,
+        officer_name: officer?.full_name || null,
+      });
+      setMeetingDate(getLastMeetingDate(groupData.meeting_day));
+      setMeetings(await fetchGroupMeetings(groupData.id));
+    } catch (error: any) {
+      toast.error('Failed to load group', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadGroup();
+  }, [loadGroup]);
+
+  // Expected sheet for an unrecorded date, the saved attendance for a recorded one
+  useEffect(() => {
+    if (!group || !meetingDate) return;
+    let cancelled = false;
+    const loadSheet = async () => {
+      setLoadingSheet(true);
+      try {
+        if (recordedMeeting) {
+          const records = await fetchGroupMeetingAttendance(recordedMeeting.id);
+          if (!cancelled) setAttendance(records);
+        } else {
+          const entries = await fetchCollectionSheet(group.id, meetingDate);
+          if (cancelled) return;
+          setSheet(entries);
+          setLines(Object.fromEntries(entries.map(entry => [
+            entry.member_id,
+            { attendance: 'present' as MeetingAttendance, amount: entry.total_due > 0 ? entry.total_due.toFixed(2) : '' },
+          ])));
+        }
+      } catch (error: any) {
+        if (!cancelled) toast.error('Failed to load the collection sheet', { description: error.message });
+      } finally {
+        if (!cancelled) setLoadingSheet(false);
+      }
+    };
+    loadSheet();
+    return () => { cancelled = true; };
+  }, [group, meetingDate, recordedMeeting]);
+
+  const updateLine = (memberId: string, changes: Partial<SheetLine>) => {
+    setLines(prev => ({ ...prev, [memberId]: { ...prev[memberId], ...changes } }));
+  };
+
+  const markAllPresent = () => {
+    setLines(prev => Object.fromEntries(Object.entries(prev).map(([id, line]) => [id, { ...line, attendance: 'present' as MeetingAttendance }])));
+  };
+
+  const sheetTotals = sheet.reduce(
+    (sum, entry) => ({
+      currentDue: sum.currentDue + entry.current_due,
+      arrearsDue: sum.arrearsDue + entry.arrears_due,
+      totalDue: sum.totalDue + entry.total_due,
+      collected: sum.collected + (Number(lines[entry.member_id]?.amount) || 0),
+    }),
+    { currentDue: 0, arrearsDue: 0, totalDue: 0, collected: 0 }
+  );
+  const presentCount = sheet.filter(entry => lines[entry.member_id]?.attendance === 'present').length;
+  const invalidLine = sheet.find(entry => {
+    const amount = Number(lines[entry.member_id]?.amount || 0);
+    return amount < 0 || (amount > 0 && !entry.loan_id) || amount > entry.outstanding_balance;
+  });
+
+  const handleRecord = async () => {
+    if (!group) return;
+    if (invalidLine) {
+      toast.warning(`Check the amount for ${invalidLine.member_name}`, {
+        description: invalidLine.loan_id
+          ? `At most ${formatCurrency(invalidLine.outstanding_balance)} is outstanding on their loan.`
+          : 'The member has no open loan to pay into.',
+      });
+      return;
+    }
+    const entries: GroupMeetingEntry[] = sheet.map(entry => ({
+      member_id: entry.member_id,
+      loan_id: entry.loan_id,
+      attendance: lines[entry.member_id]?.attendance || 'absent',
+      current_due: entry.current_due,
+      arrears_due: entry.arrears_due,
+      amount_collected: Number(lines[entry.member_id]?.amount || 0),
+    }));
+    setIsRecording(true);
+    try {
+      await recordGroupMeeting(group.id, meetingDate, entries, paymentMethod, notes.trim() || undefined);
+      toast.success('Meeting recorded', {
+        description: `${presentCount} of ${sheet.length} present, ${formatCurrency(sheetTotals.collected)} posted to member loans.`,
+      });
+      setConfirmOpen(false);
+      setNotes('');
+      setMeetings(await fetchGroupMeetings(group.id));
+    } catch (error: any) {
+      toast.error('Failed to record the meeting', { description: error.message });
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!group) return;
+    const officer = group.officer_name || profile?.full_name || 'N/A';
+    if (recordedMeeting) {
+      // Expected figures are the ones saved with the meeting, not today's
+      generateCollectionSheetPDF({
+        groupName: group.name,
+        branch: group.branch_name,
+        meetingDate,
+        meetingTime: recordedMeeting.meeting_time,
+        loanOfficer: officer,
+        recorded: true,
+        rows: attendance.map(record => ({
+          memberName: record.member_name,
+          loanAccount: record.account_number || '',
+          currentDue: record.current_due,
+          arrearsDue: record.arrears_due,
+          totalDue: record.expected_amount,
+          attendance: MEETING_ATTENDANCE_LABELS[record.attendance],
+          collected: record.amount_collected,
+        })),
+      });
+      return;
+    }
+    generateCollectionSheetPDF({
+      groupName: group.name,
+      branch: group.branch_name,
+      meetingDate,
+      meetingTime: group.meeting_time,
+      loanOfficer: officer,
+      recorded: false,
+      rows: sheet.map(entry => ({
+        memberName: entry.member_name,
+        loanAccount: entry.account_number || '',
+        currentDue: entry.current_due,
+        arrearsDue: entry.arrears_due,
+        totalDue: entry.total_due,
+      })),
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <div className="text-center p-10">
+        <h2 className="text-xl font-semibold">Group Not Found</h2>
+        <p className="text-muted-foreground">The requested group could not be found.</p>
+      </div>
+    );
+  }
+
+  const meetingDayName = DAY_NAMES[Number(group.meeting_day)] || null;
+  const selectedDayName = meetingDate ? DAY_NAMES[new Date(meetingDate).getDay() || 7] : null;
+
+  return (
+    <div className="container mx-auto px-4 py-4 sm:py-6 space-y-4 sm:space-y-6">
+      <div className="space-y-4">
+        <Button variant="outline" onClick={() => navigate(`/groups/${groupId}`)} className="flex items-center gap-2 w-full sm:w-auto">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Group
+        </Button>
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold tracking-tight">{group.name} Meeting</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            {meetingDayName ? `Meets every ${meetingDayName}` : 'No meeting day set'}
+            {group.meeting_time && ` at ${group.meeting_time.slice(0, 5)}`} · {group.branch_name}
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="meeting-date">Meeting date</Label>
+              <Input
+                id="meeting-date"
+                type="date"
+                max={today()}
+                value={meetingDate}
+                onChange={(e) => setMeetingDate(e.target.value)}
+                className="w-full sm:w-56"
+              />
+              {meetingDayName && selectedDayName && selectedDayName !== meetingDayName && (
+                <p className="text-xs text-amber-600">This is a {selectedDayName}; the group normally meets on {meetingDayName}.</p>
+              )}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              {!recordedMeeting && canRecord && (
+                <Button variant="outline" onClick={markAllPresent} disabled={sheet.length === 0}>
+                  <CheckCheck className="mr-2 h-4 w-4" />
+                  Mark All Present
+                </Button>
+              )}
+              <Button variant="outline" onClick={handlePrint} disabled={loadingSheet || (recordedMeeting ? attendance.length === 0 : sheet.length === 0)}>
+                <Printer className="mr-2 h-4 w-4" />
+                {recordedMeeting ? 'Print Signed Sheet' : 'Print Collection Sheet'}
+              </Button>
+              {!recordedMeeting && canRecord && (
+                <Button onClick={() => setConfirmOpen(true)} disabled={loadingSheet || sheet.length === 0}>
+                  <ClipboardCheck className="mr-2 h-4 w-4" />
+                  Record Meeting
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loadingSheet ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : recordedMeeting ? (
+            <div className="space-y-4">
+              <div className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-700">
+                Recorded {new Date(recordedMeeting.recorded_at).toLocaleString()}
+                {recordedMeeting.recorded_by_name && ` by ${recordedMeeting.recorded_by_name}`}:{' '}
+                {recordedMeeting.members_present} of {recordedMeeting.members_expected} present,{' '}
+                {formatCurrency(recordedMeeting.collected_total)} collected of {formatCurrency(recordedMeeting.expected_total)} expected.
+              </div>
+              <ScrollableContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Loan</TableHead>
+                      <TableHead>Attendance</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Collected</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attendance.map(record => (
+                      <TableRow key={record.id}>
+                        <TableCell className="font-medium">{record.member_name}</TableCell>
+                        <TableCell className="text-sm">{record.account_number || '-'}</TableCell>
+                        <TableCell>
+                          <Badge variant={record.attendance === 'present' ? 'default' : record.attendance === 'excused' ? 'secondary' : 'destructive'}>
+                            {MEETING_ATTENDANCE_LABELS[record.attendance]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(record.expected_amount)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(record.amount_collected)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollableContainer>
+            </div>
+          ) : sheet.length === 0 ? (
+            <div className="text-center py-10">
+              <p className="text-muted-foreground">This group has no active members.</p>
+            </div>
+          ) : (
+            <ScrollableContainer>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Loan</TableHead>
+                    <TableHead className="text-right">Current Due</TableHead>
+                    <TableHead className="text-right">Arrears</TableHead>
+                    <TableHead className="text-right">Total Due</TableHead>
+                    <TableHead>Attendance</TableHead>
+                    <TableHead className="text-right">Collected (KES)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sheet.map(entry => {
+                    const line = lines[entry.member_id];
+                    return (
+                      <TableRow key={entry.member_id}>
+                        <TableCell>
+                          <div className="font-medium">{entry.member_name}</div>
+                          {entry.phone_number && <div className="text-xs text-muted-foreground">{entry.phone_number}</div>}
+                        </TableCell>
+                        <TableCell className="text-sm">{entry.account_number || <span className="text-muted-foreground">No open loan</span>}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.current_due)}</TableCell>
+                        <TableCell className={`text-right ${entry.arrears_due > 0 ? 'text-red-600 font-medium' : ''}`}>
+                          {entry.arrears_due > 0 ? formatCurrency(entry.arrears_due) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(entry.total_due)}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={line?.attendance || 'present'}
+                            onValueChange={(value) => updateLine(entry.member_id, { attendance: value as MeetingAttendance })}
+                            disabled={!canRecord}
+                          >
+                            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(MEETING_ATTENDANCE_LABELS) as MeetingAttendance[]).map(option => (
+                                <SelectItem key={option} value={option}>{MEETING_ATTENDANCE_LABELS[option]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="w-32 ml-auto text-right"
+                            value={line?.amount || ''}
+                            onChange={(e) => updateLine(entry.member_id, { amount: e.target.value })}
+                            disabled={!canRecord || !entry.loan_id}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Totals ({presentCount} of {sheet.length} present)</TableCell>
+                    <TableCell className="text-right">{formatCurrency(sheetTotals.currentDue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(sheetTotals.arrearsDue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(sheetTotals.totalDue)}</TableCell>
+                    <TableCell />
+                    <TableCell className="text-right">{formatCurrency(sheetTotals.collected)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </ScrollableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Meeting History
+          </CardTitle>
+          <CardDescription>Recorded meetings for this group. Select one to view or reprint its sheet.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {meetings.length === 0 ? (
+            <div className="text-center py-6">
+              <p className="text-muted-foreground">No meetings have been recorded yet.</p>
+            </div>
+          ) : (
+            <ScrollableContainer>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Attendance</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Collected</TableHead>
+                    <TableHead>Recorded By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {meetings.map(meeting => (
+                    <TableRow
+                      key={meeting.id}
+                      className={`cursor-pointer ${meeting.meeting_date === meetingDate ? 'bg-muted/50' : ''}`}
+                      onClick={() => setMeetingDate(meeting.meeting_date)}
+                    >
+                      <TableCell className="font-medium">{new Date(meeting.meeting_date).toLocaleDateString()}</TableCell>
+                      <TableCell>{meeting.members_present} / {meeting.members_expected}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(meeting.expected_total)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(meeting.collected_total)}</TableCell>
+                      <TableCell className="text-muted-foreground">{meeting.recorded_by_name || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Meeting</DialogTitle>
+            <DialogDescription>
+              {presentCount} of {sheet.length} members present on {meetingDate && new Date(meetingDate).toLocaleDateString()}.{' '}
+              {formatCurrency(sheetTotals.collected)} will be posted to member loans in one batch.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Collected by</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as SettlementPaymentMethod)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
+                  <SelectItem value="check">Cheque</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meeting-notes">Notes</Label>
+              <Textarea id="meeting-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>Cancel</Button>
+            <Button onClick={handleRecord} disabled={isRecording}>
+              {isRecording && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record & Post {formatCurrency(sheetTotals.collected)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default GroupMeeting;
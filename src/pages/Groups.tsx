@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -84,7 +85,10 @@ interface LoanOfficer {
 
 const Groups: React.FC = () => {
   const navigate = useNavigate();
-  const { user, userRole, profile } = useAuth();
+  const { user, userRole } = useAuth();
+  const canEditGroups = usePermission('groups.edit');
+  const canActivateGroups = usePermission('groups.activate');
+  const canDeleteGroups = usePermission('groups.delete');
   
   // State
   const [loading, setLoading] = useState(true);
@@ -144,26 +148,8 @@ const Groups: React.FC = () => {
           .limit(100);
         if (error) throw error;
         groupsData = data || [];
-      } else if (userRole === 'branch_admin' && profile?.branch_id) {
-        // Branch admins can only see groups from their branch
-        const { data, error } = await supabase
-          .from('groups')
-          .select('*')
-          .eq('branch_id', profile.branch_id)
-          .limit(100);
-        if (error) throw error;
-        groupsData = data || [];
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor - see only their branch groups
-        const { data, error } = await supabase
-          .from('groups')
-          .select('*')
-          .eq('branch_id', profile.branch_id)
-          .limit(100);
-        if (error) throw error;
-        groupsData = data || [];
       } else {
-        // Super admins see all groups
+        // Everyone else sees the groups RLS allows for their branches
         const { data, error } = await supabase
           .from('groups')
           .select('*')
@@ -183,26 +169,8 @@ const Groups: React.FC = () => {
           .limit(1000);
         if (error) throw error;
         membersData = data || [];
-      } else if (userRole === 'branch_admin' && profile?.branch_id) {
-        // Branch admins see only members from their branch
-        const { data, error } = await supabase
-          .from('members')
-          .select('*')
-          .eq('branch_id', profile.branch_id)
-          .limit(1000);
-        if (error) throw error;
-        membersData = data || [];
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor - see only their branch members
-        const { data, error } = await supabase
-          .from('members')
-          .select('*')
-          .eq('branch_id', profile.branch_id)
-          .limit(1000);
-        if (error) throw error;
-        membersData = data || [];
       } else {
-        // Super admins see all members
+        // Everyone else sees the members RLS allows for their branches
         const { data, error } = await supabase
           .from('members')
           .select('*')
@@ -367,14 +335,6 @@ const Groups: React.FC = () => {
       });
       // Members list should include ONLY members assigned to this officer, regardless of group
       filteredMembersData = filteredMembersData.filter(m => (m as any).assigned_officer_id === currentOfficerId);
-    } else if (userRole === 'branch_admin' && profile?.branch_id) {
-      // Branch admins can only see groups and members from their branch
-      filteredGroupsData = filteredGroupsData.filter(g => g.branch_id?.toString() === profile.branch_id?.toString());
-      filteredMembersData = filteredMembersData.filter(m => m.branch_id?.toString() === profile.branch_id?.toString());
-    } else if (userRole === 'auditor' && profile?.branch_id) {
-      // Auditor - see only their branch groups and members
-      filteredGroupsData = filteredGroupsData.filter(g => g.branch_id?.toString() === profile.branch_id?.toString());
-      filteredMembersData = filteredMembersData.filter(m => m.branch_id?.toString() === profile.branch_id?.toString());
     }
 
     // Apply search filter
@@ -845,7 +805,7 @@ const Groups: React.FC = () => {
                               <Eye className="w-3 h-3 mr-1" />
                               View
                             </Button>
-                            {(userRole === 'super_admin' || userRole === 'admin' || userRole === 'loan_officer') && (
+                            {canEditGroups && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -855,7 +815,7 @@ const Groups: React.FC = () => {
                                 Set Contact
                               </Button>
                             )}
-                            {(userRole === 'super_admin' || userRole === 'branch_admin') && (
+                            {canActivateGroups && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -869,7 +829,7 @@ const Groups: React.FC = () => {
                                  {group.is_active ? 'Deactivate' : 'Activate'}
                                </Button>
                              )}
-                             {userRole === 'super_admin' && (
+                             {canDeleteGroups && (
                                <Button
                                  size="sm"
                                  variant="destructive"
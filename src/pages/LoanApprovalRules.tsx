@@ -0,0 +1,391 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Plus, Edit, Loader2, ShieldAlert, RefreshCw, GitBranch, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { ApprovalRole, LoanApprovalRule, LoanApprovalRuleFormData, LoanProduct } from '@/types';
+import { APPROVAL_ROLES, APPROVAL_ROLE_LABELS, describeApprovalChain, fetchApprovalRules } from '@/utils/approvals';
+import { fetchLoanProducts } from '@/utils/loanProducts';
+
+const ALL = 'all';
+
+const emptyForm: LoanApprovalRuleFormData = {
+  name: '',
+  branch_id: null,
+  loan_program: null,
+  min_amount: 0,
+  max_amount: null,
+  approval_chain: ['branch_admin'],
+  is_active: true,
+};
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES', maximumFractionDigits: 0 }).format(amount || 0);
+
+const LoanApprovalRules: React.FC = () => {
+  const { user, userRole } = useAuth();
+  const [rules, setRules] = useState<LoanApprovalRule[]>([]);
+  const [branches, setBranches] = useState<{ id: number; name: string }[]>([]);
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<LoanApprovalRule | null>(null);
+  const [formData, setFormData] = useState<LoanApprovalRuleFormData>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canManage = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [ruleRows, productRows, { data: branchRows, error: branchError }] = await Promise.all([
+        fetchApprovalRules(),
+        fetchLoanProducts(false),
+        supabase.from('branches').select('id, name').order('name'),
+      ]);
+      if (branchError) throw branchError;
+      setRules(ruleRows);
+      setProducts(productRows);
+      setBranches(branchRows || []);
+    } catch (error: any) {
+      toast.error('Failed to load approval rules', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canManage) {
+      loadRules();
+    } else {
+      setLoading(false);
+    }
+  }, [canManage, loadRules]);
+
+  const openDialog = (rule: LoanApprovalRule | null = null) => {
+    setEditingRule(rule);
+    if (rule) {
+      const { id, created_by, created_at, updated_at, ...rest } = rule;
+      setFormData(rest);
+    } else {
+      setFormData(emptyForm);
+    }
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingRule(null);
+  };
+
+  const updateField = <K extends keyof LoanApprovalRuleFormData>(field: K, value: LoanApprovalRuleFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateStep = (index: number, role: ApprovalRole) => {
+    setFormData(prev => ({
+      ...prev,
+      approval_chain: prev.approval_chain.map((step, i) => (i === index ? role : step)),
+    }));
+  };
+
+  const addStep = () => {
+    setFormData(prev => ({ ...prev, approval_chain: [...prev.approval_chain, 'super_admin'] }));
+  };
+
+  const removeStep = (index: number) => {
+    setFormData(prev => ({ ...prev, approval_chain: prev.approval_chain.filter((_, i) => i !== index) }));
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.approval_chain.length === 0) {
+      toast.error('A rule needs at least one sign-off step');
+      return;
+    }
+    if (formData.max_amount !== null && formData.max_amount < formData.min_amount) {
+      toast.error('Maximum amount must be greater than the minimum amount');
+      return;
+    }
+
+    const payload = { ...formData, name: formData.name.trim() };
+
+    setIsSubmitting(true);
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('loan_approval_rules')
+          .update(payload)
+          .eq('id', editingRule.id);
+        if (error) throw error;
+        toast.success(`Approval rule "${payload.name}" updated successfully.`);
+      } else {
+        const { error } = await supabase
+          .from('loan_approval_rules')
+          .insert({ ...payload, created_by: user?.id });
+        if (error) throw error;
+        toast.success(`Approval rule "${payload.name}" created successfully.`);
+      }
+      closeDialog();
+      await loadRules();
+    } catch (error: any) {
+      toast.error('Operation failed', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleActive = async (rule: LoanApprovalRule) => {
+    try {
+      const { error } = await supabase
+        .from('loan_approval_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+      if (error) throw error;
+      toast.success(`${rule.name} ${rule.is_active ? 'disabled' : 'enabled'}.`);
+      await loadRules();
+    } catch (error: any) {
+      toast.error('Failed to update rule status', { description: error.message });
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Rule',
+      cell: (row: LoanApprovalRule) => <div className="font-medium">{row.name}</div>
+    },
+    {
+      header: 'Amount Band',
+      cell: (row: LoanApprovalRule) => (
+        <span>
+          {formatCurrency(row.min_amount)} – {row.max_amount !== null ? formatCurrency(row.max_amount) : 'No limit'}
+        </span>
+      )
+    },
+    {
+      header: 'Applies To',
+      cell: (row: LoanApprovalRule) => (
+        <div className="space-y-1">
+          <div>{row.branch_id !== null ? branches.find(b => b.id === row.branch_id)?.name || `Branch ${row.branch_id}` : 'All branches'}</div>
+          <div className="text-xs text-muted-foreground">
+            {row.loan_program ? products.find(p => p.code === row.loan_program)?.name || row.loan_program : 'All products'}
+          </div>
+        </div>
+      )
+    },
+    {
+      header: 'Sign-off Chain',
+      cell: (row: LoanApprovalRule) => <span>{describeApprovalChain(row.approval_chain)}</span>
+    },
+    {
+      header: 'Status',
+      cell: (row: LoanApprovalRule) => (
+        <Badge variant={row.is_active ? 'default' : 'secondary'}>
+          {row.is_active ? 'Active' : 'Disabled'}
+        </Badge>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: LoanApprovalRule) => (
+        <div className="flex justify-end items-center gap-2">
+          <Switch checked={row.is_active} onCheckedChange={() => toggleActive(row)} />
+          <Button variant="outline" size="icon" onClick={() => openDialog(row)}>
+            <Edit className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>Only Admins and Super Admins can manage loan approval rules.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Loan Approval Rules</h1>
+            <p className="text-muted-foreground mt-1">
+              Decide who must sign off a loan, and in what order, by amount, product and branch.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadRules} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Rule
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Approval Matrix
+            </CardTitle>
+            <CardDescription>
+              The most specific matching rule applies: a branch rule beats an all-branches rule, a product rule beats an
+              all-products rule. Loans no rule matches need an Admin. Changes apply to new applications only.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable columns={columns} data={rules} emptyStateMessage="No approval rules defined yet." />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Approval Rule' : 'Create Approval Rule'}</DialogTitle>
+            <DialogDescription>
+              Loans in this band are signed off by each role below, one after the other.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleFormSubmit} className="space-y-6 pt-2">
+            <FormField label="Rule Name">
+              <Input value={formData.name} onChange={(e) => updateField('name', e.target.value)} placeholder="e.g., Large loans" required />
+            </FormField>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Minimum Amount (KES)">
+                <Input type="number" min={0} value={formData.min_amount} onChange={(e) => updateField('min_amount', Number(e.target.value))} required />
+              </FormField>
+              <FormField label="Maximum Amount (KES)">
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.max_amount ?? ''}
+                  onChange={(e) => updateField('max_amount', e.target.value === '' ? null : Number(e.target.value))}
+                  placeholder="No limit"
+                />
+              </FormField>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Branch">
+                <Select
+                  value={formData.branch_id !== null ? String(formData.branch_id) : ALL}
+                  onValueChange={(value) => updateField('branch_id', value === ALL ? null : Number(value))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All branches</SelectItem>
+                    {branches.map(branch => (
+                      <SelectItem key={branch.id} value={String(branch.id)}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormField>
+              <FormField label="Loan Product">
+                <Select
+                  value={formData.loan_program ?? ALL}
+                  onValueChange={(value) => updateField('loan_program', value === ALL ? null : value)}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All products</SelectItem>
+                    {products.map(product => (
+                      <SelectItem key={product.code} value={product.code}>{product.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormField>
+            </div>
+
+            <FormField label="Sign-off Chain" hint="A higher role can always sign a step meant for a lower one.">
+              <div className="space-y-2">
+                {formData.approval_chain.map((role, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-16 text-sm text-muted-foreground">Step {index + 1}</span>
+                    <Select value={role} onValueChange={(value) => updateStep(index, value as ApprovalRole)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {APPROVAL_ROLES.map(option => (
+                          <SelectItem key={option} value={option}>{APPROVAL_ROLE_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => removeStep(index)}
+                      disabled={formData.approval_chain.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={addStep}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Step
+                </Button>
+              </div>
+            </FormField>
+
+            <div className="flex items-center justify-between">
+              <Label>Rule is active</Label>
+              <Switch checked={formData.is_active} onCheckedChange={(checked) => updateField('is_active', checked)} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingRule ? 'Save Changes' : 'Create Rule'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const FormField: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    {children}
+    {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+  </div>
+);
+
+export default LoanApprovalRules;
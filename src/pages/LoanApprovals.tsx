@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,6 +23,11 @@ import {
   User
 } from 'lucide-react';
 import { toast } from 'sonner';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ApprovalRole, LoanApprovalStep, LoanProduct, PendingLoanRestructure } from '@/types';
+import { fetchLoanProducts, describeTerm, validateProductAmount, validateProductTerms } from '@/utils/loanProducts';
+import { approveLoanRestructure, fetchPendingRestructures, rejectLoanRestructure } from '@/utils/restructuring';
+import { APPROVAL_ROLE_LABELS, canSignApprovalStep, fetchLoanApprovalSteps, recordLoanApproval } from '@/utils/approvals';
 
 interface PendingLoan {
   id: string;
@@ -34,6 +39,15 @@ interface PendingLoan {
   interest_rate: number;
   payment_weeks: number;
   increment_level: number;
+  previous_loan_id?: string | null;
+  top_up_settlement_amount?: number;
+  branch_id: number | null;
+  approval_chain: ApprovalRole[];
+  approval_step: number;
+  approval_status?: string;
+  product_name: string;
+  term_label: string;
+  product_warning?: string;
   purpose: string;
   notes: string;
   created_at: string;
@@ -41,6 +55,27 @@ interface PendingLoan {
   created_by_name: string;
 }
 
+// Product name, term and any breach of the product's current rules
+const describeProduct = (loan: Tables<'loans'>, products: LoanProduct[]) => {
+  const product = products.find(p => p.code === loan.loan_program);
+  const installmentCount = loan.installment_count || loan.payment_weeks;
+  const termLabel = describeTerm(installmentCount, loan.installment_type || 'weekly');
+  if (!product) {
+    return { product_name: loan.loan_program || 'N/A', term_label: termLabel };
+  }
+
+  let productWarning: string | undefined;
+  if (!product.is_active) {
+    productWarning = `${product.name} is no longer offered`;
+  } else {
+    const amountCheck = validateProductAmount(product, Number(loan.principal_amount), 'super_admin');
+    const termsCheck = validateProductTerms(product, loan.installment_type || 'weekly', loan.installment_count || undefined);
+    productWarning = amountCheck.message || termsCheck.message;
+  }
+
+  return { product_name: product.name, term_label: termLabel, product_warning: productWarning };
+};
+
 const LoanApprovals: React.FC = () => {
   const { user, userRole } = useAuth();
   const [loading, setLoading] = useState(true);
@@ -53,29 +88,42 @@ const LoanApprovals: React.FC = () => {
   const [approvalDialog, setApprovalDialog] = useState(false);
   const [rejectionDialog, setRejectionDialog] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
+  const [approvalComments, setApprovalComments] = useState('');
+  const [selectedLoanSteps, setSelectedLoanSteps] = useState<LoanApprovalStep[]>([]);
   const [activeTab, setActiveTab] = useState('pending');
+  const [pendingRestructures, setPendingRestructures] = useState<PendingLoanRestructure[]>([]);
+  const [selectedRestructure, setSelectedRestructure] = useState<PendingLoanRestructure | null>(null);
+  const [restructureRejectionReason, setRestructureRejectionReason] = useState('');
 
-  useEffect(() => {
-    if (userRole === 'super_admin' || userRole === 'admin') {
-      fetchPendingLoans();
-      fetchAllLoans();
-    }
-  }, [userRole]);
+  const isApprover = userRole === 'super_admin' || userRole === 'admin' || userRole === 'branch_admin';
 
   useEffect(() => {
     filterLoans();
   }, [pendingLoans, allLoans, searchTerm, activeTab]);
 
-  const fetchPendingLoans = async () => {
+  // Sign-offs already recorded for the loan open in the review dialog
+  const selectedLoanId = selectedLoan?.id;
+  useEffect(() => {
+    setSelectedLoanSteps([]);
+    if (!selectedLoanId) return;
+    fetchLoanApprovalSteps([selectedLoanId])
+      .then(setSelectedLoanSteps)
+      .catch((error: Error) => toast.error('Failed to fetch approval history', { description: error.message }));
+  }, [selectedLoanId]);
+
+  const fetchPendingLoans = useCallback(async () => {
     try {
       setLoading(true);
       
       // Fetch loans data separately to avoid relationship conflicts
-      const { data: loansData, error: loansError } = await supabase
-        .from('loans')
-        .select('*')
-        .eq('approval_status', 'pending')
-        .order('created_at', { ascending: false });
+      const [{ data: loansData, error: loansError }, products] = await Promise.all([
+        supabase
+          .from('loans')
+          .select('*')
+          .eq('approval_status', 'pending')
+          .order('created_at', { ascending: false }),
+        fetchLoanProducts(false)
+      ]);
 
       if (loansError) throw loansError;
 
@@ -135,6 +183,12 @@ const LoanApprovals: React.FC = () => {
           interest_rate: loan.interest_rate,
           payment_weeks: loan.payment_weeks,
           increment_level: loan.increment_level,
+          previous_loan_id: loan.previous_loan_id,
+          top_up_settlement_amount: Number(loan.top_up_settlement_amount || 0),
+          branch_id: loan.branch_id,
+          approval_chain: (loan.approval_chain || []) as ApprovalRole[],
+          approval_step: loan.approval_step || 0,
+          ...describeProduct(loan, products),
           purpose: loan.purpose || '',
           notes: loan.notes || '',
           created_at: loan.created_at,
@@ -150,15 +204,18 @@ const LoanApprovals: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
-  const fetchAllLoans = async () => {
+  const fetchAllLoans = useCallback(async () => {
     try {
       // Fetch all loans regardless of approval status
-      const { data: loansData, error: loansError } = await supabase
-        .from('loans')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const [{ data: loansData, error: loansError }, products] = await Promise.all([
+        supabase
+          .from('loans')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        fetchLoanProducts(false)
+      ]);
 
       if (loansError) throw loansError;
 
@@ -218,6 +275,12 @@ const LoanApprovals: React.FC = () => {
           interest_rate: loan.interest_rate,
           payment_weeks: loan.payment_weeks,
           increment_level: loan.increment_level,
+          previous_loan_id: loan.previous_loan_id,
+          top_up_settlement_amount: Number(loan.top_up_settlement_amount || 0),
+          branch_id: loan.branch_id,
+          approval_chain: (loan.approval_chain || []) as ApprovalRole[],
+          approval_step: loan.approval_step || 0,
+          ...describeProduct(loan, products),
           purpose: loan.purpose || '',
           notes: loan.notes || '',
           created_at: loan.created_at,
@@ -232,7 +295,7 @@ const LoanApprovals: React.FC = () => {
     } catch (error: any) {
       toast.error('Failed to fetch all loans', { description: error.message });
     }
-  };
+  }, []);
 
   const filterLoans = () => {
     let filtered = activeTab === 'pending' ? pendingLoans : allLoans;
@@ -248,22 +311,34 @@ const LoanApprovals: React.FC = () => {
     setFilteredLoans(filtered);
   };
 
+  // Why the current user cannot sign the next step of a loan, null when they can
+  const getSignOffBlocker = (loan: PendingLoan): string | null => {
+    const nextRole = loan.approval_chain[loan.approval_step];
+    if (!nextRole) return 'This loan has no sign-off step left';
+    if (!canSignApprovalStep(userRole, nextRole)) {
+      return `Step ${loan.approval_step + 1} of ${loan.approval_chain.length} must be signed by a ${APPROVAL_ROLE_LABELS[nextRole]} or above`;
+    }
+    if (selectedLoanSteps.some(step => step.approver_id === user?.id)) {
+      return 'You have already signed off an earlier step of this loan';
+    }
+    return null;
+  };
+
   const handleApprove = async (loanId: string) => {
     try {
       setSubmitting(true);
 
-      // Use RPC to set status and post fee
-      const { error } = await supabase.rpc('set_loan_approval_status', {
-        p_loan_id: loanId,
-        p_status: 'approved',
-        p_set_by: user?.id
-      });
-
-      if (error) throw error;
+      // Records this sign-off; the loan is approved once the last step is signed
+      const result = await recordLoanApproval(loanId, 'approved', approvalComments.trim());
 
-      toast.success('Loan approved successfully');
+      if (result === 'approved') {
+        toast.success('Loan approved successfully', { description: 'It is now waiting in the disbursement queue.' });
+      } else {
+        toast.success('Sign-off recorded', { description: 'The loan moves to the next approver in its chain.' });
+      }
       setApprovalDialog(false);
       setSelectedLoan(null);
+      setApprovalComments('');
       fetchPendingLoans();
       fetchAllLoans();
 
@@ -283,13 +358,7 @@ const LoanApprovals: React.FC = () => {
     try {
       setSubmitting(true);
 
-      const { error } = await supabase.rpc('set_loan_approval_status', {
-        p_loan_id: loanId,
-        p_status: 'rejected',
-        p_set_by: user?.id
-      });
-
-      if (error) throw error;
+      await recordLoanApproval(loanId, 'rejected', rejectionReason.trim());
 
       toast.success('Loan rejected');
       setRejectionDialog(false);
@@ -305,6 +374,55 @@ const LoanApprovals: React.FC = () => {
     }
   };
 
+  const loadPendingRestructures = useCallback(async () => {
+    try {
+      setPendingRestructures(await fetchPendingRestructures());
+    } catch (error: any) {
+      toast.error('Failed to fetch restructure requests', { description: error.message });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isApprover) {
+      fetchPendingLoans();
+      fetchAllLoans();
+      loadPendingRestructures();
+    }
+  }, [isApprover, fetchPendingLoans, fetchAllLoans, loadPendingRestructures]);
+
+  const handleApproveRestructure = async (restructure: PendingLoanRestructure) => {
+    try {
+      setSubmitting(true);
+      await approveLoanRestructure(restructure.id);
+      toast.success(`Restructure for ${restructure.member_name} approved`);
+      loadPendingRestructures();
+    } catch (error: any) {
+      toast.error('Failed to approve restructure', { description: error.message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRejectRestructure = async () => {
+    if (!selectedRestructure || !restructureRejectionReason.trim()) {
+      toast.error('Please provide a reason for rejection');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await rejectLoanRestructure(selectedRestructure.id, restructureRejectionReason.trim());
+      toast.success('Restructure rejected');
+      setSelectedRestructure(null);
+      setRestructureRejectionReason('');
+      loadPendingRestructures();
+    } catch (error: any) {
+      toast.error('Failed to reject restructure', { description: error.message });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       pending: { color: 'bg-yellow-100 text-yellow-800', icon: AlertCircle },
@@ -323,7 +441,7 @@ const LoanApprovals: React.FC = () => {
     );
   };
 
-  if (userRole !== 'super_admin' && userRole !== 'admin') {
+  if (!isApprover) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
@@ -361,6 +479,9 @@ const LoanApprovals: React.FC = () => {
         <TabsList>
           <TabsTrigger value="pending">Pending Approvals</TabsTrigger>
           <TabsTrigger value="all">All Applications</TabsTrigger>
+          <TabsTrigger value="restructures">
+            Restructures{pendingRestructures.length > 0 ? ` (${pendingRestructures.length})` : ''}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="pending" className="space-y-4">
@@ -396,7 +517,8 @@ const LoanApprovals: React.FC = () => {
                       <TableHead>Group</TableHead>
                       <TableHead>Amount</TableHead>
                       <TableHead>Level</TableHead>
-                      <TableHead>Weeks</TableHead>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Sign-offs</TableHead>
                       <TableHead>Created By</TableHead>
                       <TableHead>Date</TableHead>
                       <TableHead>Actions</TableHead>
@@ -417,8 +539,20 @@ const LoanApprovals: React.FC = () => {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">Level {loan.increment_level}</Badge>
+                          {loan.previous_loan_id && <Badge variant="secondary" className="ml-1">Top-up</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{loan.product_name}</div>
+                          <div className="text-sm text-muted-foreground">{loan.term_label}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{loan.approval_step} of {loan.approval_chain.length}</div>
+                          {loan.approval_chain[loan.approval_step] && (
+                            <div className="text-sm text-muted-foreground">
+                              Next: {APPROVAL_ROLE_LABELS[loan.approval_chain[loan.approval_step]]}
+                            </div>
+                          )}
                         </TableCell>
-                        <TableCell>{loan.payment_weeks} weeks</TableCell>
                         <TableCell>{loan.created_by_name}</TableCell>
                         <TableCell>
                           {new Date(loan.created_at).toLocaleDateString()}
@@ -498,7 +632,7 @@ const LoanApprovals: React.FC = () => {
                       <TableHead>Group</TableHead>
                       <TableHead>Amount</TableHead>
                       <TableHead>Level</TableHead>
-                      <TableHead>Weeks</TableHead>
+                      <TableHead>Product</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Created By</TableHead>
                       <TableHead>Date</TableHead>
@@ -520,8 +654,12 @@ const LoanApprovals: React.FC = () => {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">Level {loan.increment_level}</Badge>
+                          {loan.previous_loan_id && <Badge variant="secondary" className="ml-1">Top-up</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{loan.product_name}</div>
+                          <div className="text-sm text-muted-foreground">{loan.term_label}</div>
                         </TableCell>
-                        <TableCell>{loan.payment_weeks} weeks</TableCell>
                         <TableCell>
                           {getStatusBadge(loan.approval_status || 'pending')}
                         </TableCell>
@@ -574,6 +712,93 @@ const LoanApprovals: React.FC = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="restructures" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Restructure Requests</CardTitle>
+              <CardDescription>
+                Approving a request replaces the unpaid installments of the loan with the new schedule
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {pendingRestructures.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No pending restructure requests
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Old Terms</TableHead>
+                      <TableHead>New Terms</TableHead>
+                      <TableHead>Rescheduled</TableHead>
+                      <TableHead>Extra Interest</TableHead>
+                      <TableHead>Requested By</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pendingRestructures.map((restructure) => (
+                      <TableRow key={restructure.id}>
+                        <TableCell>
+                          <div>
+                            <div className="font-medium">{restructure.member_name}</div>
+                            <div className="text-sm text-muted-foreground">{restructure.account_number}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {restructure.old_installment_count
+                            ? describeTerm(restructure.old_installment_count, restructure.old_installment_type || 'weekly')
+                            : restructure.old_installment_type || '-'}
+                        </TableCell>
+                        <TableCell>
+                          <div>{describeTerm(restructure.new_installment_count, restructure.new_installment_type)}</div>
+                          <div className="text-sm text-muted-foreground">
+                            From {new Date(restructure.effective_date).toLocaleDateString()}
+                            {restructure.capitalise_arrears && ', arrears capitalised'}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-medium">
+                          KES {(restructure.rescheduled_principal + restructure.rescheduled_interest).toLocaleString()}
+                        </TableCell>
+                        <TableCell>KES {restructure.additional_interest.toLocaleString()}</TableCell>
+                        <TableCell>
+                          <div>{restructure.requested_by_name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {new Date(restructure.requested_at).toLocaleDateString()}
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-xs text-sm">{restructure.reason}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleApproveRestructure(restructure)}
+                              disabled={submitting}
+                            >
+                              <CheckCircle className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => setSelectedRestructure(restructure)}
+                              disabled={submitting}
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Approval Dialog */}
@@ -601,9 +826,13 @@ const LoanApprovals: React.FC = () => {
                   <Label>Amount</Label>
                   <p className="font-medium">KES {selectedLoan.principal_amount.toLocaleString()}</p>
                 </div>
+                <div>
+                  <Label>Loan Product</Label>
+                  <p className="font-medium">{selectedLoan.product_name}</p>
+                </div>
                 <div>
                   <Label>Payment Period</Label>
-                  <p className="font-medium">{selectedLoan.payment_weeks} weeks</p>
+                  <p className="font-medium">{selectedLoan.term_label}</p>
                 </div>
                 <div>
                   <Label>Increment Level</Label>
@@ -614,6 +843,21 @@ const LoanApprovals: React.FC = () => {
                   <p className="font-medium">{selectedLoan.interest_rate}%</p>
                 </div>
               </div>
+              {selectedLoan.previous_loan_id && (
+                <div className="rounded-md border bg-muted/50 p-3 text-sm">
+                  <p>
+                    Top-up: disbursing settles the member's previous loan (KES {(selectedLoan.top_up_settlement_amount || 0).toLocaleString()} outstanding
+                    when applied) from this loan. Only the difference of about{' '}
+                    <strong>KES {Math.max(0, selectedLoan.principal_amount - (selectedLoan.top_up_settlement_amount || 0)).toLocaleString()}</strong> is paid out.
+                  </p>
+                </div>
+              )}
+              {selectedLoan.product_warning && (
+                <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{selectedLoan.product_warning}. This application cannot be approved under the current product rules.</span>
+                </div>
+              )}
               {selectedLoan.purpose && (
                 <div>
                   <Label>Purpose</Label>
@@ -626,21 +870,76 @@ const LoanApprovals: React.FC = () => {
                   <p className="text-sm">{selectedLoan.notes}</p>
                 </div>
               )}
+              {selectedLoan.approval_chain.length > 0 && (
+                <div>
+                  <Label>Approval Chain</Label>
+                  <ol className="mt-2 space-y-2">
+                    {selectedLoan.approval_chain.map((role, index) => {
+                      const step = selectedLoanSteps.find(s => s.step_number === index + 1);
+                      return (
+                        <li key={index} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+                          <div>
+                            <div className="font-medium">Step {index + 1}: {APPROVAL_ROLE_LABELS[role]}</div>
+                            {step && (
+                              <div className="text-muted-foreground">
+                                {step.approver_name} on {new Date(step.approved_at).toLocaleDateString()}
+                                {step.comments && <span> – "{step.comments}"</span>}
+                              </div>
+                            )}
+                          </div>
+                          {step ? getStatusBadge(step.action) : getStatusBadge('pending')}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              )}
+              {(selectedLoan.approval_status || 'pending') === 'pending' && (
+                <>
+                  {getSignOffBlocker(selectedLoan) && (
+                    <div className="flex items-start gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                      <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <span>{getSignOffBlocker(selectedLoan)}.</span>
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="approval_comments">Comments</Label>
+                    <Textarea
+                      id="approval_comments"
+                      value={approvalComments}
+                      onChange={(e) => setApprovalComments(e.target.value)}
+                      placeholder="Optional notes for the next approver..."
+                      rows={2}
+                    />
+                  </div>
+                </>
+              )}
             </div>
           )}
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => setApprovalDialog(false)}
+              onClick={() => {
+                setApprovalDialog(false);
+                setApprovalComments('');
+              }}
             >
               Cancel
             </Button>
             <Button
               onClick={() => handleApprove(selectedLoan?.id || '')}
-              disabled={submitting}
+              disabled={
+                submitting
+                || !selectedLoan
+                || !!selectedLoan.product_warning
+                || (selectedLoan.approval_status || 'pending') !== 'pending'
+                || !!getSignOffBlocker(selectedLoan)
+              }
             >
               {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Approve Loan
+              {selectedLoan && selectedLoan.approval_step + 1 < selectedLoan.approval_chain.length
+                ? `Sign Off Step ${selectedLoan.approval_step + 1} of ${selectedLoan.approval_chain.length}`
+                : 'Approve Loan'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -688,6 +987,51 @@ const LoanApprovals: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Restructure Rejection Dialog */}
+      <Dialog
+        open={!!selectedRestructure}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedRestructure(null);
+            setRestructureRejectionReason('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Restructure</DialogTitle>
+            <DialogDescription>
+              The loan keeps its current schedule. The requesting officer will see this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="restructure_rejection_reason">Rejection Reason</Label>
+              <Textarea
+                id="restructure_rejection_reason"
+                value={restructureRejectionReason}
+                onChange={(e) => setRestructureRejectionReason(e.target.value)}
+                placeholder="Enter reason for rejection..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRestructure(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRejectRestructure}
+              disabled={submitting || !restructureRejectionReason.trim()}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject Restructure
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -5,7 +5,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Loader2, Banknote, Calendar, TrendingUp, DollarSign, MessageSquare, Clock, Edit } from 'lucide-react';
+import { ArrowLeft, Loader2, Banknote, Calendar, TrendingUp, DollarSign, MessageSquare, Clock, Edit, AlertTriangle, CalendarClock, Layers, Receipt } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { ManualPaymentEntry } from '@/components/loans/ManualPaymentEntry';
@@ -14,6 +14,18 @@ import { PaymentHistory } from '@/components/loans/PaymentHistory';
 import { CommunicationLogs } from '@/components/loans/CommunicationLogs';
 import { LogCommunicationDialog } from '@/components/loans/LogCommunicationDialog';
 import { InstallmentScheduleTab } from '@/components/loans/InstallmentScheduleTab';
+import { LoanPenaltiesTab } from '@/components/loans/LoanPenaltiesTab';
+import { LoanRestructuresTab } from '@/components/loans/LoanRestructuresTab';
+import { LoanGuarantorsTab } from '@/components/loans/LoanGuarantorsTab';
+import { RestructureLoanDialog } from '@/components/loans/RestructureLoanDialog';
+import { EarlySettlementDialog } from '@/components/loans/EarlySettlementDialog';
+import { describeTerm } from '@/utils/loanProducts';
+import { INTEREST_METHOD_LABELS } from '@/utils/interestEngine';
+import type { GuarantorRecovery, InterestMethod, LoanGuarantor, LoanPenalty, LoanRestructure, LoanSettlement } from '@/types';
+import { fetchLoanPenalties, summarizePenalties } from '@/utils/penalties';
+import { fetchLoanRestructures } from '@/utils/restructuring';
+import { fetchLoanSettlement, REBATE_POLICY_LABELS } from '@/utils/settlement';
+import { fetchGuarantorRecoveries, fetchLoanGuarantors } from '@/utils/guarantors';
 
 // --- Type Definitions ---
 interface LoanDetails {
@@ -29,9 +41,21 @@ interface LoanDetails {
   branch_name: string;
   loan_officer_name: string | null;
   interest_rate: number;
+  interest_method?: InterestMethod;
   status: string;
   loan_program?: string;
+  loan_product_name?: string;
   installment_type?: string;
+  installment_count?: number;
+  restructure_count?: number;
+  previous_loan_id?: string | null;
+  top_up_settlement_amount?: number;
+  net_disbursement_amount?: number | null;
+  disbursement_date?: string | null;
+  disbursement_method?: string | null;
+  disbursement_reference?: string | null;
+  disbursed_amount?: number | null;
+  processing_fee_netted?: number;
   processing_fee?: number;
   interest_disbursed?: number;
   total_disbursed?: number;
@@ -43,6 +67,13 @@ const LoanDetailsPage: React.FC = () => {
   const { user } = useAuth();
   const [loan, setLoan] = useState<LoanDetails | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [penalties, setPenalties] = useState<LoanPenalty[]>([]);
+  const [restructures, setRestructures] = useState<LoanRestructure[]>([]);
+  const [isRestructureDialogOpen, setIsRestructureDialogOpen] = useState(false);
+  const [isSettlementDialogOpen, setIsSettlementDialogOpen] = useState(false);
+  const [settlement, setSettlement] = useState<LoanSettlement | null>(null);
+  const [guarantors, setGuarantors] = useState<LoanGuarantor[]>([]);
+  const [guarantorRecoveries, setGuarantorRecoveries] = useState<GuarantorRecovery[]>([]);
   const [isCommunicationDialogOpen, setIsCommunicationDialogOpen] = useState(false);
   const [communicationLogsKey, setCommunicationLogsKey] = useState(0); // For forcing refresh
 
@@ -64,13 +95,14 @@ const LoanDetailsPage: React.FC = () => {
 
       if (loanError) throw loanError;
       
-      // Step 2: Fetch related data (member, branch, officer names, group)
+      // Step 2: Fetch related data (member, branch, officer names, group, product)
       const memberId = loanData.member_id || loanData.customer_id;
-      const [memberRes, branchRes, officerRes, groupRes] = await Promise.all([
+      const [memberRes, branchRes, officerRes, groupRes, productRes] = await Promise.all([
         memberId ? supabase.from('members').select('first_name, last_name').eq('id', memberId).single() : { data: null, error: null },
         loanData.branch_id ? supabase.from('branches').select('name').eq('id', loanData.branch_id).single() : { data: null, error: null },
         loanData.loan_officer_id ? supabase.from('profiles').select('full_name').eq('id', loanData.loan_officer_id).single() : { data: null, error: null },
-        loanData.group_id ? supabase.from('groups').select('name').eq('id', loanData.group_id).single() : { data: null, error: null }
+        loanData.group_id ? supabase.from('groups').select('name').eq('id', loanData.group_id).single() : { data: null, error: null },
+        loanData.loan_program ? supabase.from('loan_products').select('name').eq('code', loanData.loan_program).maybeSingle() : { data: null, error: null }
       ]);
       
       // Step 3: Transform the data
@@ -88,13 +120,26 @@ const LoanDetailsPage: React.FC = () => {
         current_balance: loanData.current_balance || 0,
         total_paid: loanData.total_paid || 0,
         due_date: loanData.due_date || new Date().toISOString().split('T')[0],
-        issue_date: loanData.applied_at || new Date().toISOString().split('T')[0],
+        // Repayments run from the payout date once the loan is disbursed
+        issue_date: loanData.disbursement_date || loanData.applied_at || new Date().toISOString().split('T')[0],
         branch_name: branchRes?.data?.name || 'Unknown Branch',
         loan_officer_name: officerRes?.data?.full_name || 'Unassigned Officer',
         interest_rate: loanData.interest_rate || 0,
+        interest_method: (loanData.interest_method || 'flat') as InterestMethod,
         status: loanData.status || 'pending',
         loan_program: loanData.loan_program,
+        loan_product_name: productRes?.data?.name,
         installment_type: loanData.installment_type,
+        installment_count: loanData.installment_count,
+        restructure_count: loanData.restructure_count || 0,
+        previous_loan_id: loanData.previous_loan_id,
+        top_up_settlement_amount: Number(loanData.top_up_settlement_amount || 0),
+        net_disbursement_amount: loanData.net_disbursement_amount,
+        disbursement_date: loanData.disbursement_date,
+        disbursement_method: loanData.disbursement_method,
+        disbursement_reference: loanData.disbursement_reference,
+        disbursed_amount: loanData.disbursed_amount,
+        processing_fee_netted: Number(loanData.processing_fee_netted || 0),
         processing_fee: loanData.processing_fee,
         interest_disbursed: loanData.interest_disbursed,
         total_disbursed: loanData.total_disbursed,
@@ -110,10 +155,65 @@ const LoanDetailsPage: React.FC = () => {
     }
   };
 
+  const loadPenalties = async () => {
+    if (!id) return;
+    try {
+      setPenalties(await fetchLoanPenalties(id));
+    } catch (error: any) {
+      console.error('Failed to fetch loan penalties:', error.message);
+    }
+  };
+
+  const loadRestructures = async () => {
+    if (!id) return;
+    try {
+      setRestructures(await fetchLoanRestructures(id));
+    } catch (error: any) {
+      console.error('Failed to fetch loan restructures:', error.message);
+    }
+  };
+
+  const loadSettlement = async () => {
+    if (!id) return;
+    try {
+      setSettlement(await fetchLoanSettlement(id));
+    } catch (error: any) {
+      console.error('Failed to fetch loan settlement:', error.message);
+    }
+  };
+
+  const loadGuarantors = async () => {
+    if (!id) return;
+    try {
+      const [loanGuarantors, recoveries] = await Promise.all([fetchLoanGuarantors(id), fetchGuarantorRecoveries(id)]);
+      setGuarantors(loanGuarantors);
+      setGuarantorRecoveries(recoveries);
+    } catch (error: any) {
+      console.error('Failed to fetch loan guarantors:', error.message);
+    }
+  };
+
+  // A recovery is a payment on this loan, so balances and schedule change too
+  const handleGuarantorRecovery = () => {
+    loadGuarantors();
+    fetchLoanDetails();
+  };
+
   useEffect(() => {
     fetchLoanDetails();
+    loadPenalties();
+    loadRestructures();
+    loadSettlement();
+    loadGuarantors();
   }, [id]);
 
+  const penaltySummary = summarizePenalties(penalties);
+  const hasPendingRestructure = restructures.some(r => r.status === 'pending');
+  const isLoanStaff = !!user?.role && ['super_admin', 'admin', 'branch_admin', 'loan_officer'].includes(user.role);
+  const canRestructure = isLoanStaff && !!loan && ['active', 'disbursed', 'defaulted'].includes(loan.status);
+  const canQuoteSettlement = !!loan && ['active', 'disbursed', 'defaulted'].includes(loan.status);
+  const canTopUp = isLoanStaff && !!loan && ['active', 'disbursed'].includes(loan.status) && !hasPendingRestructure;
+
   // --- THE UPDATED SUCCESS HANDLER ---
   const handlePaymentSuccess = (paymentAmount: number) => {
     toast.success('Payment recorded successfully!');
@@ -196,12 +296,38 @@ const LoanDetailsPage: React.FC = () => {
                 </Link>
               </Button>
             )}
+            {canRestructure && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsRestructureDialogOpen(true)}
+                disabled={hasPendingRestructure}
+                title={hasPendingRestructure ? 'A restructure request is already awaiting approval' : undefined}
+              >
+                <CalendarClock className="mr-2 h-4 w-4" />
+                {hasPendingRestructure ? 'Restructure Pending' : 'Restructure'}
+              </Button>
+            )}
+            {canQuoteSettlement && (
+              <Button variant="outline" size="sm" onClick={() => setIsSettlementDialogOpen(true)}>
+                <Receipt className="mr-2 h-4 w-4" />
+                Settlement Quote
+              </Button>
+            )}
+            {canTopUp && (
+              <Button asChild variant="outline" size="sm">
+                <Link to={`/loans/new?memberId=${loan.member_id}&memberName=${encodeURIComponent(loan.member_name)}&topUpLoanId=${loan.id}`}>
+                  <Layers className="mr-2 h-4 w-4" />
+                  Top Up
+                </Link>
+              </Button>
+            )}
           </div>
         )}
       </div>
 
       {/* Summary Cards - Clean Grid */}
-      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 md:gap-4">
+      <div className="grid grid-cols-2 lg:grid-cols-6 gap-3 md:gap-4">
         <StatCard 
           icon={DollarSign} 
           title="Outstanding Balance" 
@@ -212,6 +338,12 @@ const LoanDetailsPage: React.FC = () => {
         <StatCard icon={TrendingUp} title="Total Repaid" value={formatCurrency(loan.total_paid)} />
         <StatCard icon={Calendar} title="Due Date" value={new Date(loan.due_date).toLocaleDateString()} />
         <StatCard icon={Banknote} title="Total Disbursed" value={formatCurrency(loan.total_disbursed || 0)} />
+        <StatCard
+          icon={AlertTriangle}
+          title="Penalties Due"
+          value={formatCurrency(penaltySummary.accrued)}
+          variant={penaltySummary.accrued > 0 ? 'warning' : 'default'}
+        />
       </div>
 
       {/* Main Content Area - Clean Layout */}
@@ -222,6 +354,9 @@ const LoanDetailsPage: React.FC = () => {
             <TabsList className="w-full flex gap-2 overflow-x-auto whitespace-nowrap no-scrollbar">
               <TabsTrigger value="installment_schedule" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Installment Schedule</TabsTrigger>
               <TabsTrigger value="payment_history" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Payment History</TabsTrigger>
+              <TabsTrigger value="penalties" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Penalties</TabsTrigger>
+              <TabsTrigger value="restructures" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Restructures</TabsTrigger>
+              <TabsTrigger value="guarantors" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Guarantors</TabsTrigger>
               <TabsTrigger value="communication_logs" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Communication Logs</TabsTrigger>
               <TabsTrigger value="loan_details" className="text-xs sm:text-sm px-3 py-2 flex-shrink-0">Full Details</TabsTrigger>
             </TabsList>
@@ -236,9 +371,28 @@ const LoanDetailsPage: React.FC = () => {
                   group_name: loan.group_name
                 }} 
                 onPaymentSuccess={handlePaymentSuccess} 
+                penaltiesByInstallment={penaltySummary.byInstallment}
               />
             </TabsContent>
             
+            <TabsContent value="penalties" className="space-y-4">
+              <LoanPenaltiesTab loanId={loan.id} penalties={penalties} onChanged={loadPenalties} />
+            </TabsContent>
+            
+            <TabsContent value="restructures" className="space-y-4">
+              <LoanRestructuresTab restructures={restructures} />
+            </TabsContent>
+
+            <TabsContent value="guarantors" className="space-y-4">
+              <LoanGuarantorsTab
+                loanId={loan.id}
+                loanStatus={loan.status}
+                guarantors={guarantors}
+                recoveries={guarantorRecoveries}
+                onChanged={handleGuarantorRecovery}
+              />
+            </TabsContent>
+
             <TabsContent value="payment_history" className="space-y-4">
               <PaymentHistory loanId={loan.id} />
             </TabsContent>
@@ -278,12 +432,55 @@ const LoanDetailsPage: React.FC = () => {
                   <InfoItem label="Group" value={loan.group_name || 'N/A'} />
                   <InfoItem label="Loan Officer" value={loan.loan_officer_name || 'N/A'} />
                   <InfoItem label="Issue Date" value={new Date(loan.issue_date).toLocaleDateString()} />
+                  <InfoItem
+                    label="Disbursement"
+                    value={loan.disbursement_date
+                      ? `${formatCurrency(loan.disbursed_amount ?? loan.principal_amount)} on ${new Date(loan.disbursement_date).toLocaleDateString()}`
+                      : 'Awaiting disbursement'}
+                  />
+                  {loan.disbursement_reference && (
+                    <InfoItem
+                      label="Disbursement Reference"
+                      value={`${loan.disbursement_reference}${loan.disbursement_method ? ` (${loan.disbursement_method.replace('_', ' ')})` : ''}`}
+                    />
+                  )}
+                  {(loan.processing_fee_netted || 0) > 0 && (
+                    <InfoItem label="Fee Deducted at Payout" value={formatCurrency(loan.processing_fee_netted || 0)} />
+                  )}
                   <InfoItem label="Interest Rate" value={`${loan.interest_rate}%`} />
-                  <InfoItem label="Loan Program" value={loan.loan_program ? (loan.loan_program === 'small_loan' ? 'Small Loan (8 weeks)' : 'Big Loan (12 weeks)') : 'N/A'} />
+                  <InfoItem label="Interest Method" value={INTEREST_METHOD_LABELS[loan.interest_method || 'flat']} />
+                  <InfoItem
+                    label="Loan Program"
+                    value={loan.loan_program
+                      ? `${loan.loan_product_name || loan.loan_program}${loan.installment_count ? ` (${describeTerm(loan.installment_count, loan.installment_type)})` : ''}`
+                      : 'N/A'}
+                  />
                   <InfoItem label="Installment Type" value={loan.installment_type || 'N/A'} />
                   <InfoItem label="Processing Fee" value={formatCurrency(loan.processing_fee || 0)} />
                   <InfoItem label="Interest Amount" value={formatCurrency(loan.interest_disbursed || 0)} />
                   <InfoItem label="Total Disbursed" value={formatCurrency(loan.total_disbursed || 0)} />
+                  {loan.previous_loan_id && (
+                    <>
+                      <div className="flex justify-between items-center py-3 border-b border-gray-100">
+                        <p className="text-sm font-medium text-gray-600">Tops Up Loan</p>
+                        <Link to={`/loans/${loan.previous_loan_id}`} className="text-sm font-semibold text-primary hover:underline">
+                          View previous loan
+                        </Link>
+                      </div>
+                      <InfoItem label="Previous Loan Settled" value={formatCurrency(loan.top_up_settlement_amount || 0)} />
+                      <InfoItem label="Net Disbursement" value={formatCurrency(loan.net_disbursement_amount ?? loan.principal_amount)} />
+                    </>
+                  )}
+                  {settlement && (
+                    <>
+                      <InfoItem label="Settled Early On" value={new Date(settlement.as_of_date).toLocaleDateString()} />
+                      <InfoItem label="Settlement Amount" value={formatCurrency(settlement.settlement_amount)} />
+                      <InfoItem
+                        label="Interest Rebate"
+                        value={`${formatCurrency(settlement.interest_rebate)} (${REBATE_POLICY_LABELS[settlement.rebate_policy]})`}
+                      />
+                    </>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -307,6 +504,27 @@ const LoanDetailsPage: React.FC = () => {
           refreshCommunicationLogs();
         }}
       />
+
+      {/* Restructure Dialog */}
+      <RestructureLoanDialog
+        open={isRestructureDialogOpen}
+        onOpenChange={setIsRestructureDialogOpen}
+        loan={loan}
+        onRequested={loadRestructures}
+      />
+
+      {/* Early Settlement Dialog */}
+      <EarlySettlementDialog
+        open={isSettlementDialogOpen}
+        onOpenChange={setIsSettlementDialogOpen}
+        loan={loan}
+        canRecordPayment={isLoanStaff}
+        onSettled={() => {
+          fetchLoanDetails();
+          loadPenalties();
+          loadSettlement();
+        }}
+      />
     </div>
   );
 };
@@ -11,17 +11,37 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Loader2, ArrowLeft, CheckCircle, Info, Calculator, Calendar, CreditCard } from 'lucide-react';
+import { Loader2, ArrowLeft, CheckCircle, Info, Calculator, Calendar, CreditCard, Layers, ShieldAlert, Users } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import type { GuarantorSelection, LoanCalculation, LoanProduct, LoanTopUpQuote, PendingChange, TopUpCandidate } from '@/types';
+import {
+  fetchLoanProducts,
+  formatProductLabel,
+  describeTerm,
+  calculateLoanDetails as calculateProductLoanDetails,
+  validateProductAmount,
+  validateProductTerms,
+  getInstallmentDueDate,
+  getTermMonths,
+  getApplicationPrefix,
+} from '@/utils/loanProducts';
+import { buildRepaymentSchedule, INTEREST_METHOD_LABELS, type ScheduleInstallment } from '@/utils/interestEngine';
+import { fetchLoanTopUpQuote, fetchTopUpCandidate } from '@/utils/topUp';
+import { addLoanGuarantors, fetchGroupLendingBlockReason } from '@/utils/guarantors';
+import { GuarantorSelector } from '@/components/loans/GuarantorSelector';
+import { fetchOpenLoanChange, pickLoanChanges, requestLoanEdit } from '@/utils/pendingChanges';
 
 const loanSchema = z.object({
   member_id: z.string().uuid("A valid member must be selected"),
-  loan_program: z.enum(['small_loan', 'big_loan'], { required_error: "Loan program is required" }),
+  loan_program: z.string({ required_error: "Loan program is required" }).min(1, "Loan program is required"),
   principal_amount: z.preprocess(val => Number(val), z.number().min(1, "Principal is required")),
   issue_date: z.string().min(1, "Issue date is required"),
   installment_type: z.enum(['weekly', 'monthly', 'daily']).default('weekly'),
+  installment_count: z.preprocess(val => Number(val), z.number().int().positive("Repayment term is required")),
   loan_officer_id: z.string().uuid("An officer must be assigned").optional(),
   branch_id: z.string().uuid().nullable().optional(),
   group_id: z.string().uuid().nullable().optional(),
@@ -55,98 +75,12 @@ interface Group {
   name: string; 
 }
 
-interface LoanCalculation {
-  interest_rate: number;
-  repayment_weeks: number;
-  processing_fee: number;
-  interest_amount: number;
-  total_disbursed: number;
-}
-
-interface InstallmentSchedule {
-  installment_number: number;
-  due_date: string;
-  principal_amount: number;
-  interest_amount: number;
-  total_amount: number;
-}
-
 // Helper function to get current date in YYYY-MM-DD format
 const getCurrentDate = (): string => {
   const today = new Date();
   return today.toISOString().split('T')[0];
 };
 
-// Loan Increment Rules
-const LOAN_INCREMENT_LEVELS = [5000, 7000, 9000, 11000, 13000, 15000, 17000, 20000, 25000, 30000, 35000, 40000, 45000, 50000];
-
-const validateLoanIncrement = (requestedAmount: number, memberId: string, userRole: string): { isValid: boolean; message?: string; suggestedAmount?: number } => {
-  // Only apply rules to non-admin users
-  if (userRole === 'super_admin' || userRole === 'admin') {
-    return { isValid: true };
-  }
-
-  // For admin users, they can skip increment levels
-  if (userRole === 'admin' || userRole === 'super_admin') {
-    return { isValid: true };
-  }
-
-  // Find the appropriate increment level for the requested amount
-  const currentLevel = LOAN_INCREMENT_LEVELS.find(level => level >= requestedAmount);
-  
-  if (!currentLevel) {
-    return { 
-      isValid: false, 
-      message: `Maximum loan amount is KES ${LOAN_INCREMENT_LEVELS[LOAN_INCREMENT_LEVELS.length - 1].toLocaleString()}`,
-      suggestedAmount: LOAN_INCREMENT_LEVELS[LOAN_INCREMENT_LEVELS.length - 1]
-    };
-  }
-
-  // Check if amount is exactly at an increment level or less than previous
-  const currentLevelIndex = LOAN_INCREMENT_LEVELS.indexOf(currentLevel);
-  const previousLevel = currentLevelIndex > 0 ? LOAN_INCREMENT_LEVELS[currentLevelIndex - 1] : 0;
-  
-  // Allow borrowing less than previous amount
-  if (requestedAmount <= previousLevel) {
-    return { isValid: true };
-  }
-
-  // Must be exactly at increment level
-  if (requestedAmount !== currentLevel) {
-    return { 
-      isValid: false, 
-      message: `Loan amount must follow increment levels. Next available amount is KES ${currentLevel.toLocaleString()}`,
-      suggestedAmount: currentLevel
-    };
-  }
-
-  return { isValid: true };
-};
-
-const validatePaymentTerms = (amount: number, installmentType: string): { isValid: boolean; message?: string } => {
-  // KES 5,000-12,000: Must use 8 weeks only (small_loan)
-  if (amount >= 5000 && amount <= 12000) {
-    if (installmentType !== 'weekly') {
-      return { 
-        isValid: false, 
-        message: 'Loans between KES 5,000-12,000 must be paid in 8 weeks (weekly installments only)' 
-      };
-    }
-  }
-  
-  // KES 13,000+: Can use 8 weeks (small_loan) or 12 weeks (big_loan)
-  if (amount >= 13000) {
-    if (installmentType !== 'weekly') {
-      return { 
-        isValid: false, 
-        message: 'Loans KES 13,000+ must be paid in 8 or 12 weeks (weekly installments only)' 
-      };
-    }
-  }
-
-  return { isValid: true };
-};
-
 const LoanFormPage: React.FC = () => {
     const { id: loanId } = useParams<{ id: string }>();
     const [searchParams] = useSearchParams();
@@ -160,6 +94,7 @@ const LoanFormPage: React.FC = () => {
     const [officers, setOfficers] = useState<Officer[]>([]);
     const [branches, setBranches] = useState<Branch[]>([]);
     const [groups, setGroups] = useState<Group[]>([]);
+    const [products, setProducts] = useState<LoanProduct[]>([]);
     
     // UI states
     const [loadingData, setLoadingData] = useState(true);
@@ -169,10 +104,20 @@ const LoanFormPage: React.FC = () => {
     const [memberSearchTerm, setMemberSearchTerm] = useState('');
     const [showMemberResults, setShowMemberResults] = useState(false);
     const [loanCalculation, setLoanCalculation] = useState<LoanCalculation | null>(null);
-    const [installmentSchedule, setInstallmentSchedule] = useState<InstallmentSchedule[]>([]);
+    const [installmentSchedule, setInstallmentSchedule] = useState<ScheduleInstallment[]>([]);
+    const [topUpCandidate, setTopUpCandidate] = useState<TopUpCandidate | null>(null);
+    const [topUpQuote, setTopUpQuote] = useState<LoanTopUpQuote | null>(null);
+    const [isTopUp, setIsTopUp] = useState(false);
+    const [guarantors, setGuarantors] = useState<GuarantorSelection[]>([]);
+    const [groupBlockReason, setGroupBlockReason] = useState<string | null>(null);
+    // Edit mode: the loan as loaded, any change already waiting, and why this one is made
+    const [originalLoan, setOriginalLoan] = useState<Record<string, unknown> | null>(null);
+    const [openChange, setOpenChange] = useState<PendingChange | null>(null);
+    const [changeReason, setChangeReason] = useState('');
     
     const prefilledMemberId = searchParams.get('memberId');
     const prefilledMemberName = searchParams.get('memberName');
+    const prefilledTopUpLoanId = searchParams.get('topUpLoanId');
 
     const { register, handleSubmit, control, reset, setValue, watch, getValues, setError, clearErrors, formState: { errors } } = useForm<any>({
         resolver: zodResolver(loanSchema),
@@ -189,19 +134,41 @@ const LoanFormPage: React.FC = () => {
     const watchedIssueDate = watch('issue_date');
     const watchedInstallmentType = watch('installment_type');
     const watchedMemberId = watch('member_id');
+    const watchedInstallmentCount = watch('installment_count');
+
+    const selectedProduct = useMemo(
+        () => products.find(p => p.code === watchedLoanProgram) || null,
+        [products, watchedLoanProgram]
+    );
+
+    // Keep installment type and term within what the selected product offers
+    useEffect(() => {
+        if (!selectedProduct) return;
+        if (!selectedProduct.allowed_installment_types.includes(getValues('installment_type'))) {
+            setValue('installment_type', selectedProduct.allowed_installment_types[0]);
+        }
+        if (!selectedProduct.term_lengths.includes(Number(getValues('installment_count')))) {
+            setValue('installment_count', selectedProduct.term_lengths[0]);
+        }
+    }, [selectedProduct, getValues, setValue]);
 
-    // Immediate rule enforcement: 5k-12k must use small_loan (8 weeks only)
+    // Immediate rule enforcement: the amount must sit inside the product's band
     useEffect(() => {
         const amount = Number(watchedPrincipal || 0);
-        // Loans from 5,000 to 12,000 must use small_loan (8 weeks only)
-        if (amount >= 5000 && amount <= 12000 && watchedLoanProgram === 'big_loan') {
-            setError('loan_program', { type: 'manual', message: 'Loans between KES 5,000-12,000 must use Small Loan (8 weeks only).' });
-            toast.error('Invalid combination', { description: 'Loans between KES 5,000-12,000 must use Small Loan (8 weeks only).' });
+        if (!selectedProduct || !amount) {
+            clearErrors('loan_program');
+            return;
+        }
+        const outOfBand = amount < selectedProduct.min_amount ||
+            (selectedProduct.max_amount !== null && selectedProduct.max_amount !== undefined && amount > selectedProduct.max_amount);
+        if (outOfBand) {
+            const { message } = validateProductAmount(selectedProduct, amount, 'super_admin');
+            setError('loan_program', { type: 'manual', message });
+            toast.error('Invalid combination', { description: message });
         } else {
-            // For amounts above 12,000, both small_loan (8 weeks) and big_loan (12 weeks) are allowed
             clearErrors('loan_program');
         }
-    }, [watchedPrincipal, watchedLoanProgram, setError, clearErrors]);
+    }, [watchedPrincipal, selectedProduct, setError, clearErrors]);
 
     // Memoized selected member to prevent unnecessary recalculations
     const selectedMember = useMemo(() => {
@@ -236,16 +203,7 @@ const LoanFormPage: React.FC = () => {
         };
     }, []);
 
-    // Access control for editing loans - only super admins can edit
-    useEffect(() => {
-        if (isEditMode && userRole !== 'super_admin') {
-            toast.error('Access Denied', { 
-                description: 'Only Super Admins can edit loans. Please contact your administrator.' 
-            });
-            navigate('/loans');
-            return;
-        }
-    }, [isEditMode, userRole, navigate]);
+    // Edit access is enforced by the loans.edit route guard in App.tsx
 
     // Load initial data with proper error handling and sequencing
     useEffect(() => {
@@ -253,13 +211,15 @@ const LoanFormPage: React.FC = () => {
             setLoadingData(true);
             try {
                 // Load reference data first (branches, groups, officers)
-                const [branchesRes, groupsRes, officersRes] = await Promise.all([
+                const [branchesRes, groupsRes, officersRes, productsData] = await Promise.all([
                     supabase.from('branches').select('id, name').order('name'),
                     supabase.from('groups').select('id, name').order('name'),
                     supabase.from('profiles')
                         .select('id, full_name')
                         .in('role', ['loan_officer', 'super_admin', 'branch_admin'])
-                        .order('full_name')
+                        .order('full_name'),
+                    // Edit mode must still be able to show a loan on a retired product
+                    fetchLoanProducts(!isEditMode)
                 ]);
 
                 if (branchesRes.error) throw branchesRes.error;
@@ -273,6 +233,7 @@ const LoanFormPage: React.FC = () => {
                 setBranches(branchesData);
                 setGroups(groupsData);
                 setOfficers(officersData);
+                setProducts(productsData);
 
                 // If we have a prefilled member ID, load that specific member
                 if (prefilledMemberId) {
@@ -318,16 +279,19 @@ const LoanFormPage: React.FC = () => {
                 if (isEditMode && loanId) {
                     try {
                         const { data: loanData, error: loanError } = await supabase
-                            .from('loans' as any)
-                            .select('*' as any)
+                            .from('loans')
+                            .select('*')
                             .eq('id', loanId)
                             .single();
 
                         if (loanError) throw loanError;
 
                         if (loanData) {
+                            setOriginalLoan(loanData);
+                            setOpenChange(await fetchOpenLoanChange(loanId));
+
                             // Get the member ID
-                            const memberId = (loanData as any).member_id;
+                            const memberId = loanData.member_id;
                             
                             if (memberId) {
                                 // Load the member data for this loan
@@ -349,13 +313,14 @@ const LoanFormPage: React.FC = () => {
                             // Populate the form with existing loan data using correct column names
                             reset({
                                 member_id: memberId || '',
-                                loan_program: (loanData as any).loan_program || 'small_loan',
-                                principal_amount: (loanData as any).principal_amount || 0,
-                                issue_date: (loanData as any).issue_date || getCurrentDate(),
-                                installment_type: ((loanData as any).repayment_schedule as 'weekly' | 'monthly') || 'weekly',
-                                loan_officer_id: (loanData as any).loan_officer_id || '',
-                                branch_id: (loanData as any).branch_id,
-                                group_id: (loanData as any).group_id
+                                loan_program: loanData.loan_program || 'small_loan',
+                                principal_amount: loanData.principal_amount || 0,
+                                issue_date: loanData.issue_date || getCurrentDate(),
+                                installment_type: loanData.installment_type || (loanData.repayment_schedule as 'weekly' | 'monthly') || 'weekly',
+                                installment_count: loanData.installment_count || undefined,
+                                loan_officer_id: loanData.loan_officer_id || '',
+                                branch_id: loanData.branch_id,
+                                group_id: loanData.group_id
                             });
                         }
                     } catch (error: any) {
@@ -394,6 +359,61 @@ const LoanFormPage: React.FC = () => {
         }
     }, [selectedMember, setValue, getValues]);
 
+    // A member with an open loan can only borrow again by topping that loan up
+    useEffect(() => {
+        setTopUpCandidate(null);
+        setTopUpQuote(null);
+        setIsTopUp(false);
+        if (isEditMode || !watchedMemberId) return;
+
+        let cancelled = false;
+        const loadTopUp = async () => {
+            try {
+                const candidate = await fetchTopUpCandidate(watchedMemberId);
+                if (cancelled || !candidate) return;
+                const quote = await fetchLoanTopUpQuote(candidate.id);
+                if (cancelled) return;
+                setTopUpCandidate(candidate);
+                setTopUpQuote(quote);
+                setIsTopUp(!quote?.block_reason && prefilledTopUpLoanId === candidate.id);
+            } catch (error: any) {
+                toast.error('Failed to check for an open loan', { description: error.message });
+            }
+        };
+
+        loadTopUp();
+        return () => { cancelled = true; };
+    }, [watchedMemberId, isEditMode, prefilledTopUpLoanId]);
+
+    // Group joint liability: guarantors come from the member's group, and a group
+    // with too many defaulters cannot borrow
+    const selectedGroupId = selectedMember?.group_id ? Number(selectedMember.group_id) : null;
+    useEffect(() => {
+        setGuarantors([]);
+        setGroupBlockReason(null);
+        if (isEditMode || selectedGroupId === null) return;
+
+        let cancelled = false;
+        const loadGroupStatus = async () => {
+            try {
+                const reason = await fetchGroupLendingBlockReason(selectedGroupId);
+                if (!cancelled) setGroupBlockReason(reason);
+            } catch (error: any) {
+                toast.error('Failed to check group arrears', { description: error.message });
+            }
+        };
+
+        loadGroupStatus();
+        return () => { cancelled = true; };
+    }, [watchedMemberId, selectedGroupId, isEditMode]);
+
+    // Suggest the next increment level when switching to a top-up
+    useEffect(() => {
+        if (isTopUp && topUpQuote?.next_amount) {
+            setValue('principal_amount', topUpQuote.next_amount);
+        }
+    }, [isTopUp, topUpQuote, setValue]);
+
     // Optimized member search with debouncing
     const searchMembers = useCallback(async (searchTerm: string) => {
         if (!searchTerm.trim() || searchTerm.length < 2) {
@@ -465,79 +485,36 @@ const LoanFormPage: React.FC = () => {
         return () => clearTimeout(timeoutId);
     }, [memberSearchTerm, searchMembers, prefilledMemberId, watchedMemberId]);
 
-    // Calculate loan details
-    const calculateLoanDetails = useCallback((principal: number, loanProgram: string) => {
-        let interestRate: number;
-        let repaymentWeeks: number;
-
-        if (loanProgram === 'small_loan') {
-            interestRate = 18; // Updated from 15% to 18%
-            repaymentWeeks = 8;
-        } else if (loanProgram === 'big_loan') {
-            interestRate = 25; // Updated from 20% to 25%
-            repaymentWeeks = 12;
-        } else {
-            return;
-        }
-
-        const principalNum = Number(principal);
-        const processingFee = Math.round(principalNum * 0.06 * 100) / 100;
-        const interestAmount = Math.round(principalNum * (interestRate / 100) * 100) / 100;
-        const totalAmountToRepay = principalNum + interestAmount;
-
-        const calculation = {
-            interest_rate: interestRate,
-            repayment_weeks: repaymentWeeks,
-            processing_fee: processingFee,
-            interest_amount: interestAmount,
-            total_disbursed: totalAmountToRepay
-        };
-        
-        setLoanCalculation(calculation);
+    // Calculate loan details from the selected product
+    const calculateLoanDetails = useCallback((principal: number, product: LoanProduct, installmentCount?: number, installmentType?: string) => {
+        setLoanCalculation(calculateProductLoanDetails(product, principal, installmentCount, installmentType));
     }, []);
 
-    // Generate installment schedule
+    // Generate installment schedule with the same engine the database uses
     const generateInstallmentSchedule = useCallback(() => {
-        if (!loanCalculation || !watchedIssueDate || !watchedPrincipal) return;
-
-        const schedule: InstallmentSchedule[] = [];
-        const { interest_amount, repayment_weeks } = loanCalculation;
-        const issueDate = new Date(watchedIssueDate);
-
-        const weeklyPrincipal = Math.round((watchedPrincipal / repayment_weeks) * 100) / 100;
-        const weeklyInterest = Math.round((interest_amount / repayment_weeks) * 100) / 100;
-
-        for (let i = 1; i <= repayment_weeks; i++) {
-            const dueDate = new Date(issueDate);
-            dueDate.setDate(issueDate.getDate() + (i * 7));
-
-            let installmentPrincipal = weeklyPrincipal;
-            let installmentInterest = weeklyInterest;
-
-            // Adjust last installment for rounding
-            if (i === repayment_weeks) {
-                installmentPrincipal = Math.round((watchedPrincipal - (weeklyPrincipal * (repayment_weeks - 1))) * 100) / 100;
-                installmentInterest = Math.round((interest_amount - (weeklyInterest * (repayment_weeks - 1))) * 100) / 100;
-            }
-
-            schedule.push({
-                installment_number: i,
-                due_date: dueDate.toISOString().split('T')[0],
-                principal_amount: installmentPrincipal,
-                interest_amount: installmentInterest,
-                total_amount: Math.round((installmentPrincipal + installmentInterest) * 100) / 100
-            });
+        if (!loanCalculation || !watchedIssueDate || !watchedPrincipal) {
+            setInstallmentSchedule([]);
+            return;
         }
 
-        setInstallmentSchedule(schedule);
-    }, [loanCalculation, watchedIssueDate, watchedPrincipal]);
+        setInstallmentSchedule(buildRepaymentSchedule({
+            principal: Number(watchedPrincipal),
+            interestRate: loanCalculation.interest_rate,
+            interestMethod: loanCalculation.interest_method,
+            installmentCount: loanCalculation.installment_count,
+            installmentType: watchedInstallmentType,
+            issueDate: watchedIssueDate,
+        }));
+    }, [loanCalculation, watchedIssueDate, watchedPrincipal, watchedInstallmentType]);
 
     // Effect for loan calculations
     useEffect(() => {
-        if (watchedPrincipal && watchedLoanProgram) {
-            calculateLoanDetails(watchedPrincipal, watchedLoanProgram);
+        if (watchedPrincipal && selectedProduct) {
+            calculateLoanDetails(watchedPrincipal, selectedProduct, Number(watchedInstallmentCount) || undefined, watchedInstallmentType);
+        } else {
+            setLoanCalculation(null);
         }
-    }, [watchedPrincipal, watchedLoanProgram, calculateLoanDetails]);
+    }, [watchedPrincipal, selectedProduct, watchedInstallmentCount, watchedInstallmentType, calculateLoanDetails]);
 
     // Effect for installment schedule
     useEffect(() => {
@@ -614,106 +591,161 @@ const LoanFormPage: React.FC = () => {
             // Check if member has any active or pending-repayment loans (only for new loans)
             if (!isEditMode) {
                 const { data: existingLoans, error: pendingError } = await supabase
-                    .from('loans' as any)
+                    .from('loans')
                     .select('id, status, approval_status, member_id')
                     .eq('member_id', data.member_id);
 
                 if (pendingError) throw pendingError;
 
-                const hasOpenLoan = (existingLoans || []).some((l: any) => ['active','pending'].includes(l.status));
+                // The loan being topped up is the one open loan allowed
+                const hasOpenLoan = (existingLoans || []).some(l =>
+                    ['active','pending'].includes(l.status) && !(isTopUp && l.id === topUpCandidate?.id)
+                );
                 if (hasOpenLoan) {
-                    throw new Error("Member has an existing loan in progress. Cannot create a new loan.");
+                    throw new Error(topUpCandidate && !isTopUp
+                        ? "Member has an existing loan in progress. Create this loan as a top-up to settle it."
+                        : "Member has an existing loan in progress. Cannot create a new loan.");
+                }
+
+                if (groupBlockReason) {
+                    throw new Error(`No new loans for this group: ${groupBlockReason}.`);
+                }
+
+                const invalidGuarantor = guarantors.find(g => !g.amount || g.amount <= 0 || g.amount > data.principal_amount);
+                if (invalidGuarantor) {
+                    throw new Error(`Enter an amount up to the principal that ${invalidGuarantor.full_name} guarantees.`);
+                }
+
+                if (isTopUp && topUpQuote && data.principal_amount <= topUpQuote.settlement_amount) {
+                    throw new Error(`A top-up must be more than the outstanding balance and penalties of KES ${topUpQuote.settlement_amount.toLocaleString()}.`);
                 }
             }
 
-            // Apply loan increment rules validation (only for new loans)
+            const product = products.find(p => p.code === data.loan_program);
+            if (!product) {
+                throw new Error("The selected loan product is not available. Please choose another.");
+            }
+
+            // Apply the product's amount and term rules (only for new loans)
             if (!isEditMode) {
-                const incrementValidation = validateLoanIncrement(data.principal_amount, data.member_id, userRole);
-                if (!incrementValidation.isValid) {
-                    if (incrementValidation.suggestedAmount) {
-                        toast.error(incrementValidation.message!, {
-                            description: `Suggested amount: KES ${incrementValidation.suggestedAmount.toLocaleString()}`,
+                const amountValidation = validateProductAmount(product, data.principal_amount, userRole);
+                if (!amountValidation.isValid) {
+                    if (amountValidation.suggestedAmount) {
+                        toast.error(amountValidation.message!, {
+                            description: `Suggested amount: KES ${amountValidation.suggestedAmount.toLocaleString()}`,
                             action: {
                                 label: "Use Suggested Amount",
-                                onClick: () => setValue('principal_amount', incrementValidation.suggestedAmount!)
+                                onClick: () => setValue('principal_amount', amountValidation.suggestedAmount!)
                             }
                         });
                     } else {
-                        toast.error(incrementValidation.message!);
+                        toast.error(amountValidation.message!);
                     }
-                    throw new Error(incrementValidation.message);
+                    throw new Error(amountValidation.message);
                 }
 
-                // Apply payment terms validation
-                const paymentTermsValidation = validatePaymentTerms(data.principal_amount, data.installment_type);
-                if (!paymentTermsValidation.isValid) {
-                    toast.error(paymentTermsValidation.message!);
-                    throw new Error(paymentTermsValidation.message);
+                const termsValidation = validateProductTerms(product, data.installment_type, data.installment_count);
+                if (!termsValidation.isValid) {
+                    toast.error(termsValidation.message!);
+                    throw new Error(termsValidation.message);
                 }
 
                 // Show success toast for valid increment level
-                const currentLevel = LOAN_INCREMENT_LEVELS.find(level => level >= data.principal_amount);
-                if (currentLevel && data.principal_amount === currentLevel) {
+                if (product.amount_levels.includes(data.principal_amount)) {
                     toast.success(`Valid loan amount: KES ${data.principal_amount.toLocaleString()}`, {
                         description: "Amount follows the increment level rules"
                     });
                 }
             }
 
-            // Calculate due date (8 weeks for small loan, 12 weeks for big loan)
-            const weeksToAdd = data.loan_program === 'small_loan' ? 8 : 12;
-            const dueDate = new Date(data.issue_date);
-            dueDate.setDate(dueDate.getDate() + (weeksToAdd * 7));
+            // Due date is the last installment's due date
+            const maturityDate = getInstallmentDueDate(data.issue_date, data.installment_type, data.installment_count);
 
             // Generate unique application number
             const timestamp = Date.now().toString().slice(-8);
-            const prefix = data.loan_program === 'small_loan' ? 'SL' : 'BL';
-            const applicationNo = `${prefix}${timestamp}`;
+            const applicationNo = `${getApplicationPrefix(product.code)}${timestamp}`;
 
-            // Calculate term_months based on loan program (8 weeks = 2 months, 12 weeks = 3 months)
-            const termMonths = data.loan_program === 'small_loan' ? 2 : 3;
+            const termMonths = getTermMonths(data.installment_type, data.installment_count);
 
             // Prepare loan data for submission
             const loanData = {
                 member_id: data.member_id,
+                customer_id: data.member_id,
                 loan_program: data.loan_program,
                 application_no: applicationNo,
                 principal_amount: data.principal_amount,
                 interest_rate: loanCalculation.interest_rate / 100, // Convert percentage to decimal (15 -> 0.15)
                 interest_type: 'simple' as const,
+                interest_method: loanCalculation.interest_method,
                 term_months: termMonths,
-                repayment_schedule: 'weekly' as const,
+                repayment_schedule: (data.installment_type === 'monthly' ? 'monthly' : 'weekly') as 'weekly' | 'monthly',
                 issue_date: data.issue_date,
-                maturity_date: dueDate.toISOString().split('T')[0],
+                maturity_date: maturityDate,
+                due_date: maturityDate,
                 installment_type: data.installment_type,
-                branch_id: data.branch_id,
-                group_id: data.group_id,
+                installment_count: data.installment_count,
+                payment_weeks: data.installment_type === 'weekly' ? data.installment_count : undefined,
+                branch_id: data.branch_id ? Number(data.branch_id) : null,
+                group_id: data.group_id ? Number(data.group_id) : null,
                 loan_officer_id: user?.role === 'loan_officer' ? user.id : data.loan_officer_id,
                 created_by: user?.id,
                 status: 'pending' as const,
                 current_balance: loanCalculation.total_disbursed,
                 total_paid: 0,
                 processing_fee: loanCalculation.processing_fee,
+                // Penalty terms are fixed at origination; products use 'fixed', loans historically 'flat'
+                late_payment_penalty_rate: product.penalty_rate,
+                penalty_type: product.penalty_type === 'fixed' ? 'flat' : 'percentage',
                 interest_disbursed: loanCalculation.interest_amount,
                 total_disbursed: loanCalculation.total_disbursed,
+                // Increment level and settlement amounts are set by the database for top-ups
+                previous_loan_id: isTopUp ? topUpCandidate?.id : undefined,
             };
 
+            // Edits are filed for a second user to approve instead of being saved
+            if (isEditMode && loanId && originalLoan) {
+                const changes = pickLoanChanges(originalLoan, { ...loanData, loan_officer_id: data.loan_officer_id });
+                if (Object.keys(changes).length === 0) {
+                    throw new Error("Nothing has changed on this loan.");
+                }
+                if (!changeReason.trim()) {
+                    throw new Error("Give a reason for the change; the approver sees it.");
+                }
+
+                await requestLoanEdit(loanId, changes, changeReason.trim());
+                toast.success("Change submitted for approval", {
+                    description: "The loan is updated once another authorised user approves it."
+                });
+                navigate(`/loans/${loanId}`);
+                return;
+            }
+
             const { data: newLoan, error } = await supabase
-                .from('loans' as any)
-                .insert(loanData as any)
-                .select('id' as any)
+                .from('loans')
+                .insert(loanData)
+                .select('id')
                 .single();
                 
             if (error) throw error;
+
+            if (guarantors.length > 0) {
+                try {
+                    await addLoanGuarantors(newLoan.id, guarantors);
+                } catch (guarantorError: any) {
+                    toast.warning('Loan created, but the guarantors were not saved', { description: guarantorError.message });
+                }
+            }
             
-            toast.success("Loan created successfully!", { 
-                description: "The loan is now pending approval." 
+            toast.success(isTopUp ? "Top-up created successfully!" : "Loan created successfully!", { 
+                description: isTopUp
+                    ? `Loan ${topUpCandidate?.account_number} will be settled when the top-up is disbursed.`
+                    : "The loan is now pending approval." 
             });
-            setSuccessId((newLoan as any).id);
+            setSuccessId(newLoan.id);
 
         } catch (error: any) {
             setFormError(error.message);
-            toast.error("Failed to create loan", { description: error.message });
+            toast.error(isEditMode ? "Failed to submit change" : "Failed to create loan", { description: error.message });
         } finally {
             setIsSubmitting(false);
         }
@@ -879,6 +911,50 @@ const LoanFormPage: React.FC = () => {
                             />
                         </FormField>
 
+                        {/* Top-up of the member's open loan */}
+                        {topUpCandidate && topUpQuote && (
+                            <Alert>
+                                <Layers className="h-4 w-4" />
+                                <AlertDescription>
+                                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                        <div>
+                                            <div>
+                                                Open loan <strong>{topUpCandidate.account_number}</strong> has an outstanding balance of{' '}
+                                                <strong>KES {topUpQuote.outstanding_balance.toLocaleString()}</strong>
+                                                {topUpQuote.penalties_outstanding > 0 && (
+                                                    <> and <strong>KES {topUpQuote.penalties_outstanding.toLocaleString()}</strong> in unpaid penalties</>
+                                                )}.
+                                            </div>
+                                            {topUpQuote.block_reason ? (
+                                                <div className="text-red-600 mt-1">It cannot be topped up: {topUpQuote.block_reason}.</div>
+                                            ) : (
+                                                <div className="text-muted-foreground mt-1">
+                                                    A top-up settles it from the new loan and moves the member to level {topUpQuote.next_level}
+                                                    {topUpQuote.next_amount ? ` (KES ${topUpQuote.next_amount.toLocaleString()})` : ''}.
+                                                </div>
+                                            )}
+                                        </div>
+                                        {!topUpQuote.block_reason && (
+                                            <div className="flex items-center gap-2">
+                                                <Switch id="is-top-up" checked={isTopUp} onCheckedChange={setIsTopUp} />
+                                                <Label htmlFor="is-top-up">Top up this loan</Label>
+                                            </div>
+                                        )}
+                                    </div>
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
+                        {groupBlockReason && (
+                            <Alert variant="destructive">
+                                <ShieldAlert className="h-4 w-4" />
+                                <AlertDescription>
+                                    No new loans can be issued to members of <strong>{selectedMember?.group_name || 'this group'}</strong>:{' '}
+                                    {groupBlockReason}. Clear the group's arrears first.
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         {/* Branch and Group Selection */}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                             <FormField label="Branch" error={errors.branch_id} fieldName="branch_id">
@@ -977,12 +1053,11 @@ const LoanFormPage: React.FC = () => {
                                                 <SelectValue placeholder="Select loan program..." />
                                             </SelectTrigger>
                                             <SelectContent>
-                                                <SelectItem value="small_loan">
-                                                    Small Loan (8 weeks, 18% interest)
-                                                </SelectItem>
-                                                <SelectItem value="big_loan">
-                                                    Big Loan (12 weeks, 25% interest)
-                                                </SelectItem>
+                                                {products.map(product => (
+                                                    <SelectItem key={product.id} value={product.code}>
+                                                        {formatProductLabel(product)}
+                                                    </SelectItem>
+                                                ))}
                                             </SelectContent>
                                         </Select>
                                     )} 
@@ -1021,9 +1096,11 @@ const LoanFormPage: React.FC = () => {
                                                 <SelectValue placeholder="Select installment type..." />
                                             </SelectTrigger>
                                             <SelectContent>
-                                                <SelectItem value="weekly">Weekly</SelectItem>
-                                                <SelectItem value="monthly">Monthly</SelectItem>
-                                                <SelectItem value="daily">Daily</SelectItem>
+                                                {(selectedProduct?.allowed_installment_types || ['weekly', 'monthly', 'daily']).map(type => (
+                                                    <SelectItem key={type} value={type}>
+                                                        {type.charAt(0).toUpperCase() + type.slice(1)}
+                                                    </SelectItem>
+                                                ))}
                                             </SelectContent>
                                         </Select>
                                     )} 
@@ -1031,6 +1108,30 @@ const LoanFormPage: React.FC = () => {
                             </FormField>
                         </div>
 
+                        {/* Repayment Term - only offered when the product has more than one */}
+                        {selectedProduct && selectedProduct.term_lengths.length > 1 && (
+                            <FormField label="Repayment Term" error={errors.installment_count} required fieldName="installment_count">
+                                <Controller 
+                                    name="installment_count" 
+                                    control={control} 
+                                    render={({ field }) => (
+                                        <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value ? String(field.value) : undefined}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select repayment term..." />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {selectedProduct.term_lengths.map(term => (
+                                                    <SelectItem key={term} value={String(term)}>
+                                                        {describeTerm(term, watchedInstallmentType)}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    )} 
+                                />
+                            </FormField>
+                        )}
+
                         {/* Loan Officer Assignment */}
                         {user?.role !== 'loan_officer' && (
                             <FormField label="Assign to Officer" error={errors.loan_officer_id} required fieldName="loan_officer_id">
@@ -1066,6 +1167,25 @@ const LoanFormPage: React.FC = () => {
                             </div>
                         )}
 
+                        {/* Guarantors from the member's group */}
+                        {!isEditMode && selectedMember && selectedGroupId !== null && (
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-2">
+                                    <Users className="h-4 w-4" />
+                                    Group Guarantors
+                                </Label>
+                                <p className="text-xs text-muted-foreground">
+                                    Members who guarantee this loan can have overdue installments recovered from their savings or payments.
+                                </p>
+                                <GuarantorSelector
+                                    groupId={selectedGroupId}
+                                    borrowerId={selectedMember.id}
+                                    value={guarantors}
+                                    onChange={setGuarantors}
+                                />
+                            </div>
+                        )}
+
                         {/* Loan Calculation Summary */}
                         {loanCalculation && (
                             <Card className="bg-green-50 border-green-200">
@@ -1082,11 +1202,14 @@ const LoanFormPage: React.FC = () => {
                                             <div className="text-lg font-semibold text-green-700">
                                                 {loanCalculation.interest_rate}%
                                             </div>
+                                            <div className="text-xs text-gray-500">
+                                                {INTEREST_METHOD_LABELS[loanCalculation.interest_method]}
+                                            </div>
                                         </div>
                                         <div className="text-center">
                                             <div className="text-sm text-gray-600">Repayment Period</div>
                                             <div className="text-lg font-semibold text-green-700">
-                                                {loanCalculation.repayment_weeks} weeks
+                                                {describeTerm(loanCalculation.installment_count, watchedInstallmentType)}
                                             </div>
                                         </div>
                                         <div className="text-center">
@@ -1113,6 +1236,22 @@ const LoanFormPage: React.FC = () => {
                                             </div>
                                         </div>
                                     </div>
+                                    {isTopUp && topUpQuote && (
+                                        <div className="mt-4 grid grid-cols-2 gap-4 p-3 bg-white rounded-lg border border-green-200">
+                                            <div className="text-center">
+                                                <div className="text-sm text-gray-600">Settles Loan {topUpCandidate?.account_number}</div>
+                                                <div className="text-lg font-semibold text-green-700">
+                                                    KES {topUpQuote.settlement_amount.toLocaleString()}
+                                                </div>
+                                            </div>
+                                            <div className="text-center">
+                                                <div className="text-sm text-gray-600">Net Disbursement</div>
+                                                <div className="text-lg font-semibold text-green-700">
+                                                    KES {Math.max(0, Number(watchedPrincipal || 0) - topUpQuote.settlement_amount).toLocaleString()}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    )}
                                 </CardContent>
                             </Card>
                         )}
@@ -1126,7 +1265,7 @@ const LoanFormPage: React.FC = () => {
                                         Installment Schedule Preview
                                     </CardTitle>
                                     <CardDescription>
-                                        {installmentSchedule.length} weekly installments starting from {watchedIssueDate}
+                                        {installmentSchedule.length} {watchedInstallmentType} installments starting from {watchedIssueDate}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent>
@@ -1168,13 +1307,36 @@ const LoanFormPage: React.FC = () => {
                             </Card>
                         )}
 
+                        {isEditMode && (
+                            <div className="space-y-2">
+                                {openChange && (
+                                    <Alert variant="destructive">
+                                        <AlertDescription>
+                                            A change to this loan is already waiting for approval ({openChange.reason}). It must be approved, rejected or withdrawn on the Pending Changes page first.
+                                        </AlertDescription>
+                                    </Alert>
+                                )}
+                                <Label htmlFor="change_reason">Reason for Change</Label>
+                                <Textarea
+                                    id="change_reason"
+                                    value={changeReason}
+                                    onChange={(e) => setChangeReason(e.target.value)}
+                                    placeholder="Explain the change for the approver, e.g. 'Principal keyed as 50,000 instead of 5,000'"
+                                    disabled={!!openChange}
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Changes are applied only after another authorised user approves them.
+                                </p>
+                            </div>
+                        )}
+
                         <Button 
                             type="submit" 
-                            disabled={isSubmitting || !loanCalculation} 
+                            disabled={isSubmitting || !loanCalculation || (!isEditMode && !!groupBlockReason) || (isEditMode && !!openChange)} 
                             className="w-full"
                         >
                             {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                            {isEditMode ? 'Save Changes' : 'Submit for Approval'}
+                            {isEditMode ? 'Submit Changes for Approval' : isTopUp ? 'Submit Top-Up for Approval' : 'Submit for Approval'}
                         </Button>
                     </form>
                 </CardContent>
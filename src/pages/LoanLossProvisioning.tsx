@@ -0,0 +1,612 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DataTable } from '@/components/ui/data-table';
+import { ExportDropdown } from '@/components/ui/ExportDropdown';
+import { Loader2, ShieldAlert, RefreshCw, Calculator, CheckCircle2, Scale, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  LoanClassification,
+  LoanClassificationRule,
+  LoanProvision,
+  ProvisionEntry,
+  ProvisioningBranchTotal,
+  ProvisioningRun,
+  ProvisioningRunStatus,
+} from '@/types';
+import {
+  CLASSIFICATIONS,
+  CLASSIFICATION_LABELS,
+  PROVISION_ENTRY_LABELS,
+  describeClassificationBand,
+  fetchClassificationRules,
+  fetchLoanProvisions,
+  fetchProvisionEntries,
+  fetchProvisioningBranchTotals,
+  fetchProvisioningRuns,
+  postProvisioningRun,
+  runLoanLossProvisioning,
+  updateClassificationRule,
+} from '@/utils/provisioning';
+
+const STATUS_VARIANTS: Record<ProvisioningRunStatus, 'default' | 'secondary'> = {
+  draft: 'secondary',
+  posted: 'default',
+};
+
+const CLASSIFICATION_VARIANTS: Record<LoanClassification, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  normal: 'outline',
+  watch: 'secondary',
+  substandard: 'default',
+  doubtful: 'destructive',
+  loss: 'destructive',
+};
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-KE', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const lastMonthEnd = (): string => {
+  const today = new Date();
+  const end = new Date(Date.UTC(today.getFullYear(), today.getMonth(), 0));
+  return end.toISOString().split('T')[0];
+};
+
+const LoanLossProvisioning: React.FC = () => {
+  const { userRole } = useAuth();
+  const [runs, setRuns] = useState<ProvisioningRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [branchTotals, setBranchTotals] = useState<ProvisioningBranchTotal[]>([]);
+  const [loanProvisions, setLoanProvisions] = useState<LoanProvision[]>([]);
+  const [entries, setEntries] = useState<ProvisionEntry[]>([]);
+  const [rules, setRules] = useState<LoanClassificationRule[]>([]);
+  const [ruleDrafts, setRuleDrafts] = useState<Record<string, { min_days: number; provision_rate: number }>>({});
+  const [periodEnd, setPeriodEnd] = useState(lastMonthEnd());
+  const [loading, setLoading] = useState(true);
+  const [runLoading, setRunLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<'run' | 'post' | 'rules' | null>(null);
+  const [confirmPost, setConfirmPost] = useState(false);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canManage = userRole === 'super_admin' || userRole === 'admin';
+
+  const selectedRun = runs.find(run => run.id === selectedRunId) || null;
+
+  const loadOverview = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [runRows, ruleRows, entryRows] = await Promise.all([
+        fetchProvisioningRuns(),
+        fetchClassificationRules(),
+        fetchProvisionEntries(),
+      ]);
+      setRuns(runRows);
+      setRules(ruleRows);
+      setRuleDrafts({});
+      setEntries(entryRows);
+      setSelectedRunId(prev => (prev && runRows.some(run => run.id === prev) ? prev : runRows[0]?.id || null));
+    } catch (error: any) {
+      toast.error('Failed to load provisioning data', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadRun = useCallback(async () => {
+    if (!selectedRunId) {
+      setBranchTotals([]);
+      setLoanProvisions([]);
+      return;
+    }
+    setRunLoading(true);
+    try {
+      const [totals, loans] = await Promise.all([
+        fetchProvisioningBranchTotals(selectedRunId),
+        fetchLoanProvisions(selectedRunId),
+      ]);
+      setBranchTotals(totals);
+      setLoanProvisions(loans);
+    } catch (error: any) {
+      toast.error('Failed to load provisioning run', { description: error.message });
+    } finally {
+      setRunLoading(false);
+    }
+  }, [selectedRunId]);
+
+  useEffect(() => {
+    if (canView) {
+      loadOverview();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadOverview]);
+
+  useEffect(() => {
+    if (canView) loadRun();
+  }, [canView, loadRun]);
+
+  const handleRun = async () => {
+    setBusyAction('run');
+    try {
+      const runId = await runLoanLossProvisioning(periodEnd);
+      toast.success(`Provisioning calculated as at ${formatDate(periodEnd)}. Review it, then post.`);
+      setSelectedRunId(runId);
+      await loadOverview();
+    } catch (error: any) {
+      toast.error('Provisioning run failed', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!selectedRun) return;
+    setBusyAction('post');
+    try {
+      const net = await postProvisioningRun(selectedRun.id);
+      toast.success(
+        net >= 0
+          ? `Posted. ${formatCurrency(net)} charged to provision expense.`
+          : `Posted. ${formatCurrency(Math.abs(net))} of provision released.`
+      );
+      setConfirmPost(false);
+      await loadOverview();
+      await loadRun();
+    } catch (error: any) {
+      toast.error('Failed to post provisions', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSaveRules = async () => {
+    setBusyAction('rules');
+    try {
+      for (const [classification, changes] of Object.entries(ruleDrafts)) {
+        await updateClassificationRule(classification as LoanClassification, changes);
+      }
+      toast.success('Classification rules saved. They apply from the next run.');
+      await loadOverview();
+    } catch (error: any) {
+      toast.error('Failed to save classification rules', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const byClassification = useMemo(() => CLASSIFICATIONS.map(classification => {
+    const rows = loanProvisions.filter(row => row.classification === classification);
+    return {
+      classification,
+      loans_count: rows.length,
+      outstanding_principal: rows.reduce((sum, row) => sum + row.outstanding_principal, 0),
+      provision_rate: rows[0]?.provision_rate ?? rules.find(rule => rule.classification === classification)?.provision_rate ?? 0,
+      required_provision: rows.reduce((sum, row) => sum + row.required_provision, 0),
+    };
+  }), [loanProvisions, rules]);
+
+  const branchColumns = [
+    { header: 'Branch', cell: (row: ProvisioningBranchTotal) => <span className="font-medium">{row.branch_name}</span> },
+    { header: 'Loans', cell: (row: ProvisioningBranchTotal) => row.loans_count },
+    { header: 'Outstanding Principal', cell: (row: ProvisioningBranchTotal) => formatCurrency(row.outstanding_principal) },
+    { header: 'Required Provision', cell: (row: ProvisioningBranchTotal) => <span className="font-semibold">{formatCurrency(row.required_provision)}</span> },
+    { header: 'Previous Month', cell: (row: ProvisioningBranchTotal) => formatCurrency(row.previous_required) },
+    {
+      header: 'Change',
+      cell: (row: ProvisioningBranchTotal) => {
+        const change = row.required_provision - row.previous_required;
+        return <span className={change > 0 ? 'text-destructive' : 'text-green-600'}>{change > 0 ? '+' : ''}{formatCurrency(change)}</span>;
+      }
+    },
+    {
+      header: 'Posted Adjustment',
+      cell: (row: ProvisioningBranchTotal) => row.adjustment === null ? '-' : (
+        <div>
+          <div>{row.adjustment >= 0 ? 'Charge' : 'Release'} {formatCurrency(Math.abs(row.adjustment))}</div>
+          <div className="text-xs text-muted-foreground">Allowance was {formatCurrency(row.allowance_before ?? 0)}</div>
+        </div>
+      )
+    },
+  ];
+
+  const branchExportColumns = [
+    { header: 'Branch', accessorKey: 'branch_name' as const },
+    { header: 'Loans', accessorKey: 'loans_count' as const },
+    { header: 'Outstanding Principal', accessorKey: (row: ProvisioningBranchTotal) => formatCurrency(row.outstanding_principal) },
+    { header: 'Required Provision', accessorKey: (row: ProvisioningBranchTotal) => formatCurrency(row.required_provision) },
+    { header: 'Previous Month', accessorKey: (row: ProvisioningBranchTotal) => formatCurrency(row.previous_required) },
+    { header: 'Change', accessorKey: (row: ProvisioningBranchTotal) => formatCurrency(row.required_provision - row.previous_required) },
+    { header: 'Posted Adjustment', accessorKey: (row: ProvisioningBranchTotal) => row.adjustment === null ? '' : formatCurrency(row.adjustment) },
+  ];
+
+  const classificationColumns = [
+    {
+      header: 'Classification',
+      cell: (row: typeof byClassification[number]) => (
+        <Badge variant={CLASSIFICATION_VARIANTS[row.classification]}>{CLASSIFICATION_LABELS[row.classification]}</Badge>
+      )
+    },
+    { header: 'Loans', cell: (row: typeof byClassification[number]) => row.loans_count },
+    { header: 'Outstanding Principal', cell: (row: typeof byClassification[number]) => formatCurrency(row.outstanding_principal) },
+    { header: 'Rate', cell: (row: typeof byClassification[number]) => `${row.provision_rate}%` },
+    { header: 'Required Provision', cell: (row: typeof byClassification[number]) => <span className="font-semibold">{formatCurrency(row.required_provision)}</span> },
+  ];
+
+  const loanColumns = [
+    {
+      header: 'Loan',
+      cell: (row: LoanProvision) => (
+        <div>
+          <Link to={`/loans/${row.loan_id}`} className="font-medium hover:underline">{row.member_name || 'Unknown member'}</Link>
+          <div className="text-xs text-muted-foreground">{row.account_number} · {row.branch_name || '-'}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Classification',
+      cell: (row: LoanProvision) => (
+        <div className="space-y-1">
+          <Badge variant={CLASSIFICATION_VARIANTS[row.classification]}>{CLASSIFICATION_LABELS[row.classification]}</Badge>
+          <div className="text-xs text-muted-foreground">{row.days_in_arrears} day(s) in arrears</div>
+        </div>
+      )
+    },
+    { header: 'Outstanding Principal', cell: (row: LoanProvision) => formatCurrency(row.outstanding_principal) },
+    { header: 'Rate', cell: (row: LoanProvision) => `${row.provision_rate}%` },
+    { header: 'Required Provision', cell: (row: LoanProvision) => <span className="font-semibold">{formatCurrency(row.required_provision)}</span> },
+  ];
+
+  const loanExportColumns = [
+    { header: 'Account', accessorKey: 'account_number' as const },
+    { header: 'Member', accessorKey: (row: LoanProvision) => row.member_name || '' },
+    { header: 'Branch', accessorKey: (row: LoanProvision) => row.branch_name || '' },
+    { header: 'Days in Arrears', accessorKey: 'days_in_arrears' as const },
+    { header: 'Classification', accessorKey: (row: LoanProvision) => CLASSIFICATION_LABELS[row.classification] },
+    { header: 'Outstanding Principal', accessorKey: (row: LoanProvision) => formatCurrency(row.outstanding_principal) },
+    { header: 'Rate', accessorKey: (row: LoanProvision) => `${row.provision_rate}%` },
+    { header: 'Required Provision', accessorKey: (row: LoanProvision) => formatCurrency(row.required_provision) },
+  ];
+
+  const entryColumns = [
+    { header: 'Date', cell: (row: ProvisionEntry) => formatDate(row.entry_date) },
+    { header: 'Branch', cell: (row: ProvisionEntry) => row.branch_name },
+    {
+      header: 'Entry',
+      cell: (row: ProvisionEntry) => (
+        <div>
+          <div className="font-medium">{PROVISION_ENTRY_LABELS[row.entry_type]}</div>
+          <div className="text-xs text-muted-foreground">{row.description}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Allowance',
+      cell: (row: ProvisionEntry) => (
+        <span className={row.entry_type === 'charge' ? 'text-green-600' : 'text-destructive'}>
+          {row.entry_type === 'charge' ? '+' : '-'}{formatCurrency(row.amount)}
+        </span>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: ProvisionEntry) => row.loan_id ? (
+        <div className="flex justify-end">
+          <Button asChild variant="outline" size="sm">
+            <Link to={`/loans/${row.loan_id}`}>View Loan</Link>
+          </Button>
+        </div>
+      ) : null
+    },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view loan loss provisioning.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Loan Loss Provisioning</h1>
+            <p className="text-muted-foreground mt-1">
+              Classify the portfolio by days in arrears and keep the loan loss allowance at the required level.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {canManage && (
+              <>
+                <Input type="date" value={periodEnd} max={new Date().toISOString().split('T')[0]} onChange={(e) => setPeriodEnd(e.target.value)} className="w-40" />
+                <Button onClick={handleRun} disabled={!!busyAction || !periodEnd}>
+                  {busyAction === 'run' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+                  Run Provisioning
+                </Button>
+              </>
+            )}
+            <Button variant="outline" onClick={loadOverview} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="h-5 w-5" />
+                {selectedRun ? `Provisioning as at ${formatDate(selectedRun.period_end)}` : 'No provisioning runs yet'}
+              </CardTitle>
+              <CardDescription>
+                {selectedRun
+                  ? `Calculated ${new Date(selectedRun.run_at).toLocaleString()}${selectedRun.posted_at ? `, posted ${new Date(selectedRun.posted_at).toLocaleString()}` : ''}`
+                  : 'A draft run is prepared on the 1st of every month for the month just ended.'}
+              </CardDescription>
+            </div>
+            {runs.length > 0 && (
+              <div className="flex gap-2 items-center">
+                <Select value={selectedRunId || ''} onValueChange={setSelectedRunId}>
+                  <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {runs.map(run => (
+                      <SelectItem key={run.id} value={run.id}>
+                        {formatDate(run.period_end)} ({run.status})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedRun && <Badge variant={STATUS_VARIANTS[selectedRun.status]} className="capitalize">{selectedRun.status}</Badge>}
+                {selectedRun?.status === 'draft' && canManage && (
+                  <Button onClick={() => setConfirmPost(true)} disabled={!!busyAction}>
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                    Post
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardHeader>
+          {selectedRun && (
+            <CardContent>
+              <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Outstanding Principal</p>
+                  <p className="text-xl font-bold">{formatCurrency(selectedRun.outstanding_principal)}</p>
+                  <p className="text-xs text-muted-foreground">{selectedRun.loans_count} loan(s)</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Required Provision</p>
+                  <p className="text-xl font-bold">{formatCurrency(selectedRun.required_provision)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedRun.outstanding_principal > 0
+                      ? `${((selectedRun.required_provision / selectedRun.outstanding_principal) * 100).toFixed(2)}% coverage`
+                      : '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Previous Month</p>
+                  <p className="text-xl font-bold">{formatCurrency(selectedRun.previous_required)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Change</p>
+                  <p className={`text-xl font-bold ${selectedRun.required_provision > selectedRun.previous_required ? 'text-destructive' : 'text-green-600'}`}>
+                    {formatCurrency(selectedRun.required_provision - selectedRun.previous_required)}
+                  </p>
+                  {selectedRun.status === 'posted' && (
+                    <p className="text-xs text-muted-foreground">The allowance was brought to the required provision</p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+
+        <Tabs defaultValue="branches">
+          <TabsList>
+            <TabsTrigger value="branches">By Branch</TabsTrigger>
+            <TabsTrigger value="classifications">By Classification</TabsTrigger>
+            <TabsTrigger value="loans">Loans</TabsTrigger>
+            <TabsTrigger value="ledger">Allowance Ledger</TabsTrigger>
+            <TabsTrigger value="rules">Classification Rules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="branches">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Required Provision by Branch</CardTitle>
+                  <CardDescription>Compared with the previous month's run.</CardDescription>
+                </div>
+                {selectedRun && (
+                  <ExportDropdown
+                    data={branchTotals}
+                    columns={branchExportColumns}
+                    fileName={`provisioning-branches-${selectedRun.period_end}`}
+                    reportTitle={`Loan Loss Provisioning by Branch - ${formatDate(selectedRun.period_end)}`}
+                  />
+                )}
+              </CardHeader>
+              <CardContent>
+                {runLoading ? (
+                  <div className="flex justify-center items-center h-40">
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                  </div>
+                ) : (
+                  <DataTable columns={branchColumns} data={branchTotals} emptyStateMessage="No branch totals for this run." />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="classifications">
+            <Card>
+              <CardHeader>
+                <CardTitle>Portfolio Classification</CardTitle>
+                <CardDescription>Outstanding principal and required provision per regulatory class.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {runLoading ? (
+                  <div className="flex justify-center items-center h-40">
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                  </div>
+                ) : (
+                  <DataTable columns={classificationColumns} data={selectedRun ? byClassification : []} emptyStateMessage="Run provisioning to classify the portfolio." />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="loans">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Provision per Loan</CardTitle>
+                  <CardDescription>Most days in arrears first.</CardDescription>
+                </div>
+                {selectedRun && (
+                  <ExportDropdown
+                    data={loanProvisions}
+                    columns={loanExportColumns}
+                    fileName={`provisioning-loans-${selectedRun.period_end}`}
+                    reportTitle={`Loan Loss Provisioning - ${formatDate(selectedRun.period_end)}`}
+                  />
+                )}
+              </CardHeader>
+              <CardContent>
+                {runLoading ? (
+                  <div className="flex justify-center items-center h-40">
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                  </div>
+                ) : (
+                  <DataTable columns={loanColumns} data={loanProvisions} emptyStateMessage="No loans in this run." />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader>
+                <CardTitle>Allowance Ledger</CardTitle>
+                <CardDescription>
+                  Charges and releases from posted runs, and write-offs drawn from the allowance. The latest 200 entries.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DataTable columns={entryColumns} data={entries} emptyStateMessage="Nothing has been posted yet." />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Classification Rules</CardTitle>
+                  <CardDescription>
+                    A class starts at the day shown and runs until the next one starts. Changes apply from the next run.
+                  </CardDescription>
+                </div>
+                {canManage && (
+                  <Button onClick={handleSaveRules} disabled={!!busyAction || Object.keys(ruleDrafts).length === 0}>
+                    {busyAction === 'rules' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    Save Rules
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {rules.map(rule => {
+                  const draft = ruleDrafts[rule.classification] || { min_days: rule.min_days, provision_rate: rule.provision_rate };
+                  return (
+                    <div key={rule.classification} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end border-b pb-4 last:border-b-0">
+                      <div>
+                        <Badge variant={CLASSIFICATION_VARIANTS[rule.classification]}>{CLASSIFICATION_LABELS[rule.classification]}</Badge>
+                        <p className="text-xs text-muted-foreground mt-2">{describeClassificationBand(rules, rule)}</p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`min-days-${rule.classification}`}>From day</Label>
+                        <Input
+                          id={`min-days-${rule.classification}`}
+                          type="number"
+                          min={0}
+                          value={draft.min_days}
+                          disabled={!canManage || rule.classification === 'normal'}
+                          onChange={(e) => setRuleDrafts(prev => ({ ...prev, [rule.classification]: { ...draft, min_days: Number(e.target.value) } }))}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`rate-${rule.classification}`}>Provision rate (%)</Label>
+                        <Input
+                          id={`rate-${rule.classification}`}
+                          type="number"
+                          min={0}
+                          max={100}
+                          step="0.01"
+                          value={draft.provision_rate}
+                          disabled={!canManage}
+                          onChange={(e) => setRuleDrafts(prev => ({ ...prev, [rule.classification]: { ...draft, provision_rate: Number(e.target.value) } }))}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">Last changed {new Date(rule.updated_at).toLocaleDateString()}</p>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={confirmPost} onOpenChange={setConfirmPost}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Post provisioning for {selectedRun ? formatDate(selectedRun.period_end) : ''}</DialogTitle>
+            <DialogDescription>
+              Each branch's loan loss allowance is brought to its required provision of this run: shortfalls are charged
+              to provision expense, surpluses are released. A posted run cannot be changed or re-run.
+            </DialogDescription>
+          </DialogHeader>
+          <p className="text-sm">
+            Required provision: <strong>{formatCurrency(selectedRun?.required_provision || 0)}</strong>
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmPost(false)}>Cancel</Button>
+            <Button onClick={handlePost} disabled={busyAction === 'post'}>
+              {busyAction === 'post' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Provisions
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default LoanLossProvisioning;
@@ -0,0 +1,469 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Plus, Edit, Loader2, ShieldAlert, RefreshCw, Package } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { InstallmentType, LoanProduct, LoanProductFormData } from '@/types';
+import { fetchLoanProducts, describeTerm } from '@/utils/loanProducts';
+import { INTEREST_METHOD_LABELS, interestRateLabel } from '@/utils/interestEngine';
+
+const INSTALLMENT_TYPES: InstallmentType[] = ['daily', 'weekly', 'monthly'];
+
+const emptyForm: LoanProductFormData = {
+  code: '',
+  name: '',
+  description: '',
+  min_amount: 0,
+  max_amount: null,
+  amount_levels: [],
+  allowed_installment_types: ['weekly'],
+  term_lengths: [8],
+  interest_method: 'flat',
+  interest_rate: 0,
+  processing_fee_type: 'percentage',
+  processing_fee_value: 0,
+  penalty_type: 'percentage',
+  penalty_rate: 0,
+  penalty_grace_days: 0,
+  penalty_cap: null,
+  is_active: true,
+  display_order: 0,
+};
+
+// Comma separated lists are the quickest way to edit ladders and terms
+const parseNumberList = (value: string): number[] =>
+  value
+    .split(',')
+    .map(part => Number(part.trim()))
+    .filter(num => Number.isFinite(num) && num > 0);
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES', maximumFractionDigits: 0 }).format(amount || 0);
+
+const LoanProducts: React.FC = () => {
+  const { user, userRole } = useAuth();
+  const [products, setProducts] = useState<LoanProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<LoanProduct | null>(null);
+  const [formData, setFormData] = useState<LoanProductFormData>(emptyForm);
+  const [levelsText, setLevelsText] = useState('');
+  const [termsText, setTermsText] = useState('8');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canManage = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadProducts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setProducts(await fetchLoanProducts(false));
+    } catch (error: any) {
+      toast.error('Failed to load loan products', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canManage) {
+      loadProducts();
+    } else {
+      setLoading(false);
+    }
+  }, [canManage, loadProducts]);
+
+  const openDialog = (product: LoanProduct | null = null) => {
+    setEditingProduct(product);
+    if (product) {
+      const { id, created_by, created_at, updated_at, ...rest } = product;
+      setFormData(rest);
+      setLevelsText(product.amount_levels.join(', '));
+      setTermsText(product.term_lengths.join(', '));
+    } else {
+      setFormData(emptyForm);
+      setLevelsText('');
+      setTermsText('8');
+    }
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingProduct(null);
+  };
+
+  const updateField = <K extends keyof LoanProductFormData>(field: K, value: LoanProductFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleInstallmentType = (type: InstallmentType, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      allowed_installment_types: checked
+        ? INSTALLMENT_TYPES.filter(t => t === type || prev.allowed_installment_types.includes(t))
+        : prev.allowed_installment_types.filter(t => t !== type),
+    }));
+  };
+
+  const handleFormSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const termLengths = parseNumberList(termsText).map(Math.round);
+    const amountLevels = parseNumberList(levelsText).sort((a, b) => a - b);
+
+    if (termLengths.length === 0) {
+      toast.error('At least one repayment term is required');
+      return;
+    }
+    if (formData.allowed_installment_types.length === 0) {
+      toast.error('Select at least one installment type');
+      return;
+    }
+    if (formData.max_amount !== null && formData.max_amount !== undefined && formData.max_amount < formData.min_amount) {
+      toast.error('Maximum amount must be greater than the minimum amount');
+      return;
+    }
+
+    const payload = {
+      ...formData,
+      code: formData.code.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, ''),
+      name: formData.name.trim(),
+      term_lengths: termLengths,
+      amount_levels: amountLevels,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (editingProduct) {
+        const { error } = await supabase
+          .from('loan_products')
+          .update(payload)
+          .eq('id', editingProduct.id);
+        if (error) throw error;
+        toast.success(`Loan product "${payload.name}" updated successfully.`);
+      } else {
+        const { error } = await supabase
+          .from('loan_products')
+          .insert({ ...payload, created_by: user?.id });
+        if (error) throw error;
+        toast.success(`Loan product "${payload.name}" created successfully.`);
+      }
+      closeDialog();
+      await loadProducts();
+    } catch (error: any) {
+      toast.error('Operation failed', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleActive = async (product: LoanProduct) => {
+    try {
+      const { error } = await supabase
+        .from('loan_products')
+        .update({ is_active: !product.is_active })
+        .eq('id', product.id);
+      if (error) throw error;
+      toast.success(`${product.name} ${product.is_active ? 'retired' : 'reactivated'}.`);
+      await loadProducts();
+    } catch (error: any) {
+      toast.error('Failed to update product status', { description: error.message });
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Product',
+      cell: (row: LoanProduct) => (
+        <div>
+          <div className="font-medium">{row.name}</div>
+          <div className="text-xs text-muted-foreground font-mono">{row.code}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Amount Band',
+      cell: (row: LoanProduct) => (
+        <span>
+          {formatCurrency(row.min_amount)} – {row.max_amount ? formatCurrency(row.max_amount) : 'No limit'}
+        </span>
+      )
+    },
+    {
+      header: 'Terms',
+      cell: (row: LoanProduct) => (
+        <div className="space-y-1">
+          <div>{row.term_lengths.map(term => describeTerm(term, row.allowed_installment_types[0])).join(' / ')}</div>
+          <div className="text-xs text-muted-foreground capitalize">{row.allowed_installment_types.join(', ')}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Interest',
+      cell: (row: LoanProduct) => <span>{row.interest_rate}% {INTEREST_METHOD_LABELS[row.interest_method] || row.interest_method}</span>
+    },
+    {
+      header: 'Processing Fee',
+      cell: (row: LoanProduct) => (
+        <span>{row.processing_fee_type === 'fixed' ? formatCurrency(row.processing_fee_value) : `${row.processing_fee_value}%`}</span>
+      )
+    },
+    {
+      header: 'Penalty',
+      cell: (row: LoanProduct) => (
+        row.penalty_rate > 0
+          ? <span>{row.penalty_type === 'fixed' ? formatCurrency(row.penalty_rate) : `${row.penalty_rate}%`} after {row.penalty_grace_days}d</span>
+          : <span className="text-muted-foreground">None</span>
+      )
+    },
+    {
+      header: 'Status',
+      cell: (row: LoanProduct) => (
+        <Badge variant={row.is_active ? 'default' : 'secondary'}>
+          {row.is_active ? 'Active' : 'Retired'}
+        </Badge>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: LoanProduct) => (
+        <div className="flex justify-end items-center gap-2">
+          <Switch checked={row.is_active} onCheckedChange={() => toggleActive(row)} />
+          <Button variant="outline" size="icon" onClick={() => openDialog(row)}>
+            <Edit className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!canManage) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>Only Admins and Super Admins can manage loan products.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Loan Products</h1>
+            <p className="text-muted-foreground mt-1">
+              Define the amount bands, terms, interest and fees that loan applications must follow.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadProducts} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Product
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Product Catalogue
+            </CardTitle>
+            <CardDescription>
+              Retired products stay on existing loans but can no longer be selected for new applications.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataTable columns={columns} data={products} emptyStateMessage="No loan products defined yet." />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? 'Edit Loan Product' : 'Create Loan Product'}</DialogTitle>
+            <DialogDescription>
+              {editingProduct
+                ? 'Changes apply to new applications; existing loans keep their agreed terms.'
+                : 'Add a new product that loan officers can offer to members.'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleFormSubmit} className="space-y-6 pt-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Product Name">
+                <Input value={formData.name} onChange={(e) => updateField('name', e.target.value)} placeholder="e.g., School Fees Loan" required />
+              </FormField>
+              <FormField label="Code">
+                <Input
+                  value={formData.code}
+                  onChange={(e) => updateField('code', e.target.value)}
+                  placeholder="e.g., school_fees"
+                  disabled={!!editingProduct}
+                  required
+                />
+              </FormField>
+            </div>
+            <FormField label="Description">
+              <Textarea value={formData.description || ''} onChange={(e) => updateField('description', e.target.value)} rows={2} />
+            </FormField>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Minimum Amount (KES)">
+                <Input type="number" min={0} value={formData.min_amount} onChange={(e) => updateField('min_amount', Number(e.target.value))} required />
+              </FormField>
+              <FormField label="Maximum Amount (KES)">
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.max_amount ?? ''}
+                  onChange={(e) => updateField('max_amount', e.target.value === '' ? null : Number(e.target.value))}
+                  placeholder="No limit"
+                />
+              </FormField>
+            </div>
+            <FormField label="Increment Levels (KES, comma separated)" hint="Leave empty to allow any amount within the band.">
+              <Input value={levelsText} onChange={(e) => setLevelsText(e.target.value)} placeholder="5000, 7000, 9000" />
+            </FormField>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Installment Types">
+                <div className="flex gap-4 pt-2">
+                  {INSTALLMENT_TYPES.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                      <Checkbox
+                        checked={formData.allowed_installment_types.includes(type)}
+                        onCheckedChange={(checked) => toggleInstallmentType(type, checked === true)}
+                      />
+                      {type}
+                    </label>
+                  ))}
+                </div>
+              </FormField>
+              <FormField label="Term Lengths (installments)" hint="e.g. 8, 12 for a choice of 8 or 12 installments.">
+                <Input value={termsText} onChange={(e) => setTermsText(e.target.value)} placeholder="8, 12" required />
+              </FormField>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Interest Method">
+                <Select value={formData.interest_method} onValueChange={(value) => updateField('interest_method', value as LoanProductFormData['interest_method'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTEREST_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormField>
+              <FormField label={`Interest Rate (${interestRateLabel(formData.interest_method)})`}>
+                <Input type="number" step="0.01" min={0} value={formData.interest_rate} onChange={(e) => updateField('interest_rate', Number(e.target.value))} required />
+              </FormField>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Processing Fee Type">
+                <Select value={formData.processing_fee_type} onValueChange={(value) => updateField('processing_fee_type', value as LoanProductFormData['processing_fee_type'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage of principal</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormField>
+              <FormField label={formData.processing_fee_type === 'fixed' ? 'Processing Fee (KES)' : 'Processing Fee (%)'}>
+                <Input type="number" step="0.01" min={0} value={formData.processing_fee_value} onChange={(e) => updateField('processing_fee_value', Number(e.target.value))} />
+              </FormField>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Penalty Type">
+                <Select value={formData.penalty_type} onValueChange={(value) => updateField('penalty_type', value as LoanProductFormData['penalty_type'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage of overdue amount</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormField>
+              <FormField label={formData.penalty_type === 'fixed' ? 'Penalty (KES)' : 'Penalty Rate (%)'}>
+                <Input type="number" step="0.01" min={0} value={formData.penalty_rate} onChange={(e) => updateField('penalty_rate', Number(e.target.value))} />
+              </FormField>
+              <FormField label="Grace Days">
+                <Input type="number" min={0} value={formData.penalty_grace_days} onChange={(e) => updateField('penalty_grace_days', Number(e.target.value))} />
+              </FormField>
+              <FormField label="Penalty Cap per Installment (KES)">
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.penalty_cap ?? ''}
+                  onChange={(e) => updateField('penalty_cap', e.target.value === '' ? null : Number(e.target.value))}
+                  placeholder="No cap"
+                />
+              </FormField>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField label="Display Order">
+                <Input type="number" value={formData.display_order} onChange={(e) => updateField('display_order', Number(e.target.value))} />
+              </FormField>
+              <div className="flex items-center justify-between pt-6">
+                <Label>Available for new loans</Label>
+                <Switch checked={formData.is_active} onCheckedChange={(checked) => updateField('is_active', checked)} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingProduct ? 'Save Changes' : 'Create Product'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const FormField: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    {children}
+    {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+  </div>
+);
+
+export default LoanProducts;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -136,22 +137,16 @@ const LoansPage: React.FC = () => {
         setGroups(groupsData);
       }
 
-      // Step 6: Apply role-based filtering
+      // Step 6: Apply role-based filtering (branch scope is already applied by RLS)
       let filteredByRole = transformedLoansAll;
       
-      if (userRole === 'branch_admin' && profile?.branch_id) {
-        // Branch admins can only see loans from their branch
-        filteredByRole = filteredByRole.filter(loan => loan.branch_id === profile.branch_id);
-      } else if (userRole === 'loan_officer') {
+      if (userRole === 'loan_officer') {
         // Loan officers can only see loans assigned to them, including loans where
         // the loan itself is missing officer but the member is assigned to them
         filteredByRole = filteredByRole.filter(loan => {
           const assignedOfficerForMember = memberAssignedOfficerMap.get(loan.member_id);
           return loan.loan_officer_id === user?.id || assignedOfficerForMember === user?.id;
         });
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor - see only their branch loans
-        filteredByRole = filteredByRole.filter(loan => loan.branch_id === profile.branch_id);
       }
       
       setLoans(filteredByRole);
@@ -211,10 +206,8 @@ const LoansPage: React.FC = () => {
     return status === 'active' || status === 'pending';
   };
 
-  // Helper function to check if user has edit permissions
-  const hasEditPermissions = (): boolean => {
-    return userRole === 'super_admin';
-  };
+  const canEditLoans = usePermission('loans.edit');
+  const canDeleteLoans = usePermission('loans.delete');
 
   const columns = [
     { header: 'Member', cell: (row: LoanSummary) => <div><div className="font-medium">{row.member_name}</div><div className="text-sm text-muted-foreground">{row.branch_name}</div></div> },
@@ -264,9 +257,9 @@ const LoansPage: React.FC = () => {
       header: (
         <div className="flex items-center gap-2">
           <span>Actions</span>
-          {hasEditPermissions() && (
+          {(canEditLoans || canDeleteLoans) && (
             <Badge variant="outline" className="text-xs text-blue-600 border-blue-200 bg-blue-50">
-              Super Admin
+              Manage
             </Badge>
           )}
         </div>
@@ -288,7 +281,7 @@ const LoansPage: React.FC = () => {
             </Tooltip>
           </TooltipProvider>
           
-          {hasEditPermissions() && (
+          {canEditLoans && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -317,7 +310,7 @@ const LoansPage: React.FC = () => {
                           <AlertDialogTitle>Edit Loan</AlertDialogTitle>
                           <AlertDialogDescription>
                             You are about to edit loan for <strong>{row.member_name}</strong> (KES {row.principal_amount.toLocaleString()}). 
-                            This action is restricted to Super Admins only.
+                            Your changes are sent to another authorised user and apply once they approve.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -334,7 +327,7 @@ const LoansPage: React.FC = () => {
                   <p>
                     {!isLoanEditable(row.status) 
                       ? 'Cannot edit completed/defaulted loans' 
-                      : 'Edit Loan (Super Admin Only)'
+                      : 'Edit Loan'
                     }
                   </p>
                 </TooltipContent>
@@ -342,7 +335,7 @@ const LoansPage: React.FC = () => {
             </TooltipProvider>
           )}
 
-          {hasEditPermissions() && (
+          {canDeleteLoans && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -359,7 +352,7 @@ const LoansPage: React.FC = () => {
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Delete Loan (Super Admin Only)</p>
+                  <p>Request Loan Deletion</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
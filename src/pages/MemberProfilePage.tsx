@@ -6,9 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { ArrowLeft, Loader2, Phone, Mail, MessageSquare, Briefcase, Home,Landmark, Banknote, Users, DollarSign, Edit, Eye, UserCheck, PlusCircle, FileText, History } from 'lucide-react';
+import { ArrowLeft, Loader2, Phone, Mail, MessageSquare, Briefcase, Home,Landmark, Banknote, Users, DollarSign, Edit, Eye, UserCheck, PlusCircle, FileText, History, PiggyBank } from 'lucide-react';
 import { toast } from 'sonner';
 
 // --- UI/UX FIX: Import the styled Tabs components from shadcn/ui ---
@@ -21,7 +22,11 @@ import { DataTable } from '@/components/ui/data-table';
 import GenerateStatementDialog from '@/components/members/GenerateStatementDialog';
 import { LogCommunicationDialog } from '@/components/loans/LogCommunicationDialog';
 import { CommunicationLogs } from '@/components/loans/CommunicationLogs';
+import { MemberSavingsTab } from '@/components/members/MemberSavingsTab';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import type { SavingsAccount, SavingsTransaction } from '@/types';
+import { fetchMemberSavingsAccounts, fetchSavingsTransactions } from '@/utils/savings';
+import { setMemberSmsOptOut } from '@/utils/sms';
 
 // --- Type Definitions ---
 interface NextOfKin { full_name: string; relationship: string; contact_number: string | null; }
@@ -53,6 +58,7 @@ interface MemberProfileData {
   branch_id: number | null;
   group_id: number | null;
   assigned_officer_id: string | null;
+  sms_opt_out?: boolean;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -71,6 +77,9 @@ const MemberProfilePage: React.FC = () => {
   const [branchName, setBranchName] = useState<string>('N/A');
   const [communicationLogsKey, setCommunicationLogsKey] = useState(0); // For forcing refresh
   const [loanStatusFilter, setLoanStatusFilter] = useState<string>('all');
+  const [savingsAccounts, setSavingsAccounts] = useState<SavingsAccount[]>([]);
+  const [savingsTransactions, setSavingsTransactions] = useState<SavingsTransaction[]>([]);
+  const [isUpdatingSms, setIsUpdatingSms] = useState(false);
 
   const fetchData = async () => {
     if (!id) return;
@@ -179,6 +188,7 @@ const MemberProfilePage: React.FC = () => {
         
         // Fetch additional member information
         await fetchAdditionalMemberInfo(adaptedMember);
+        await fetchSavings();
     } catch (error: any) {
         toast.error('Failed to load member data', { description: error.message });
     } finally {
@@ -232,6 +242,20 @@ const MemberProfilePage: React.FC = () => {
     }
   };
   
+  const fetchSavings = async () => {
+    if (!id) return;
+    try {
+      const [accounts, transactions] = await Promise.all([
+        fetchMemberSavingsAccounts(id),
+        fetchSavingsTransactions(id),
+      ]);
+      setSavingsAccounts(accounts);
+      setSavingsTransactions(transactions);
+    } catch (error: any) {
+      toast.error('Failed to load savings', { description: error.message });
+    }
+  };
+
   useEffect(() => { fetchData(); }, [id]);
 
   const onActionSuccess = async () => {
@@ -240,7 +264,23 @@ const MemberProfilePage: React.FC = () => {
     // Also refresh communication logs
     setCommunicationLogsKey(prev => prev + 1);
   };
-  
+
+  const canManageSms = ['super_admin', 'admin', 'branch_admin', 'loan_officer'].includes(userRole || '');
+
+  const handleSmsPreferenceChange = async (receiving: boolean) => {
+    if (!member) return;
+    setIsUpdatingSms(true);
+    try {
+      await setMemberSmsOptOut(member.id, !receiving);
+      setMember(prev => prev ? { ...prev, sms_opt_out: !receiving } : prev);
+      toast.success(receiving ? 'Member will receive SMS again.' : 'Member opted out of SMS.');
+    } catch (error: any) {
+      toast.error('Failed to update SMS preference', { description: error.message });
+    } finally {
+      setIsUpdatingSms(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
   const getStatusVariant = (status: MemberLoan['status']) => {
     switch (status) { 
@@ -265,6 +305,7 @@ const MemberProfilePage: React.FC = () => {
   const totalOutstanding = loans
     .filter(loan => loan.status !== 'repaid')
     .reduce((sum, loan) => sum + (loan.current_balance || 0), 0);
+  const totalSavings = savingsAccounts.reduce((sum, account) => sum + account.balance, 0);
   
   // Filter loans based on status filter
   const filteredLoans = loanStatusFilter === 'all' 
@@ -390,6 +431,22 @@ const MemberProfilePage: React.FC = () => {
                             <InfoItem icon={Users} label="Assigned Loan Officer" value={loanOfficerName} />
                             <InfoItem icon={Users} label="Group" value={groupName} />
                             <InfoItem icon={Home} label="Branch" value={branchName} />
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="space-y-1">
+                                    <p className="text-xs sm:text-sm font-medium text-muted-foreground flex items-center gap-2">
+                                        <MessageSquare className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
+                                        <span className="truncate">SMS Reminders & Receipts</span>
+                                    </p>
+                                    <p className="font-semibold text-sm sm:text-base text-foreground">
+                                        {member.sms_opt_out ? 'Opted out' : 'Receiving'}
+                                    </p>
+                                </div>
+                                <Switch
+                                    checked={!member.sms_opt_out}
+                                    onCheckedChange={handleSmsPreferenceChange}
+                                    disabled={!canManageSms || isUpdatingSms}
+                                />
+                            </div>
                         </CardContent>
                     </Card>
                 </div>
@@ -397,10 +454,11 @@ const MemberProfilePage: React.FC = () => {
                 {/* Main Content - Full width on mobile, right columns on desktop */}
                 <div className="lg:col-span-2 space-y-6">
                                          {/* Stats Cards - Responsive grid */}
-                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3">
+                     <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 sm:gap-3">
                          <StatCard icon={Banknote} title="Loans" value={loans.length} />
                          <StatCard icon={DollarSign} title="Repaid" value={loans.filter(l => l.status === 'repaid').length} />
                          <StatCard icon={Landmark} title="Outstanding" value={formatCurrency(totalOutstanding)} />
+                         <StatCard icon={PiggyBank} title="Savings" value={formatCurrency(totalSavings)} />
                          {loanStatusFilter !== 'all' && (
                            <div className="col-span-full">
                              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-center">
@@ -419,8 +477,9 @@ const MemberProfilePage: React.FC = () => {
                         </CardHeader>
                         <CardContent>
                             <Tabs defaultValue="loans" className="w-full">
-                                <TabsList className="grid w-full grid-cols-2">
+                                <TabsList className="grid w-full grid-cols-3">
                                     <TabsTrigger value="loans">Loan History</TabsTrigger>
+                                    <TabsTrigger value="savings">Savings</TabsTrigger>
                                     <TabsTrigger value="communication">Communication History</TabsTrigger>
                                 </TabsList>
                                 <TabsContent value="loans" className="mt-6">
@@ -515,6 +574,14 @@ const MemberProfilePage: React.FC = () => {
                                         </div>
                                     </div>
                                 </TabsContent>
+                                <TabsContent value="savings" className="mt-6">
+                                    <MemberSavingsTab
+                                        memberId={member.id}
+                                        accounts={savingsAccounts}
+                                        transactions={savingsTransactions}
+                                        onChanged={fetchSavings}
+                                    />
+                                </TabsContent>
                                 <TabsContent value="communication" className="mt-6">
                                     <CommunicationLogs 
                                         key={communicationLogsKey}
@@ -548,6 +615,8 @@ const MemberProfilePage: React.FC = () => {
             status: loan.status,
             due_date: loan.due_date
           }))}
+          savingsAccounts={savingsAccounts}
+          savingsTransactions={savingsTransactions}
         />
         <LogCommunicationDialog 
           open={isLogDialogOpen} 
@@ -27,7 +27,7 @@ interface MemberSummary {
 }
 
 const MembersPage: React.FC = () => {
-  const { user, userRole, profile } = useAuth();
+  const { user, userRole } = useAuth();
   const [members, setMembers] = useState<MemberSummary[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [searchTerm, setSearchTerm] = useState<string>('');
@@ -49,18 +49,11 @@ const MembersPage: React.FC = () => {
       // Step 1: Fetch members based on user role
       let membersQuery = supabase.from('members').select('*');
       
-      // Apply role-based filtering
+      // Apply role-based filtering; RLS already limits members to the user's branches
       if (userRole === 'loan_officer') {
         // Loan officers can only see members assigned to them
         membersQuery = membersQuery.eq('assigned_officer_id', user?.id);
-      } else if (userRole === 'branch_admin' && profile?.branch_id) {
-        // Branch admins can see members in their branch
-        membersQuery = membersQuery.eq('branch_id', profile.branch_id);
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor - see only their branch members
-        membersQuery = membersQuery.eq('branch_id', profile.branch_id);
       }
-      // Super admins and others without branch restrictions see all members
       
       const { data: membersData, error: membersError } = await membersQuery;
       
@@ -134,187 +127,47 @@ const MembersPage: React.FC = () => {
     if (!deleteCandidate) return;
     setIsDeleting(true);
     try {
-      // Check if member has active/pending loans (repaid/completed loans will be auto-deleted)
-      // Check all loans including soft-deleted ones as foreign key constraints still apply
-      const { data: allLoans, error: loansError } = await supabase
+      // Loans are never removed from here: deleting one is a change request, and a
+      // deleted or repaid loan stays on record with its member
+      const { count: loanCount, error: loansError } = await supabase
         .from('loans')
-        .select('id, status, is_deleted')
+        .select('id', { count: 'exact', head: true })
         .eq('member_id', deleteCandidate.member_id);
+      if (loansError) throw loansError;
 
-      if (loansError) {
-      }
-
-
-      // Separate active and repaid/completed loans (including soft-deleted ones)
-      // We need to handle ALL loans because foreign key constraints apply regardless of is_deleted flag
-      const activeLoans = (allLoans || []).filter(
-        loan => (loan.is_deleted === false || loan.is_deleted === null) && 
-                loan.status !== 'repaid' && loan.status !== 'completed'
-      );
-      const repaidLoans = (allLoans || []).filter(
-        loan => loan.status === 'repaid' || loan.status === 'completed'
-      );
-      
-
-      // Block if there are active loans
-      if (activeLoans && activeLoans.length > 0) {
+      if (loanCount && loanCount > 0) {
         toast.error('Cannot Delete Member', {
-          description: `This member has ${activeLoans.length} active loan(s). Please delete or close all loans before deleting the member.`,
+          description: `This member has ${loanCount} loan(s) on record. Members with loan history are kept; set them inactive instead.`,
         });
-        setIsDeleting(false);
         return;
       }
 
-      // Delete repaid/completed loans first to avoid foreign key constraint
-      // This includes soft-deleted loans which still have foreign key constraints
-      if (repaidLoans.length > 0) {
-        const repaidLoanIds = repaidLoans.map(loan => loan.id);
-        
-        // Delete loans one by one to handle all dependencies properly
-        const deletionResults = [];
-        for (const loanId of repaidLoanIds) {
-          try {
-            // Step 1: Delete or update realizable_assets
-            const { error: assetsDeleteError } = await supabase.from('realizable_assets').delete().eq('loan_id', loanId);
-            if (assetsDeleteError) {
-              // If deletion fails, try to set loan_id to null
-              await supabase.from('realizable_assets').update({ loan_id: null }).eq('loan_id', loanId);
-            }
-            
-            // Step 2: Delete loan_installments (CASCADE should handle, but explicit for clarity)
-            await supabase.from('loan_installments').delete().eq('loan_id', loanId);
-            
-            // Step 3: Delete loan_payments (CASCADE should handle, but explicit for clarity)
-            await supabase.from('loan_payments').delete().eq('loan_id', loanId);
-            
-            // Step 4: Delete communication_logs (CASCADE should handle, but explicit for clarity)
-            await supabase.from('communication_logs').delete().eq('loan_id', loanId);
-            
-            // Step 5: Update transactions to set loan_id to null (SET NULL should handle, but explicit)
-            await supabase.from('transactions').update({ loan_id: null }).eq('loan_id', loanId);
-            
-            // Step 6: Now delete the loan itself
-            const { error: loanDeleteError } = await supabase
-              .from('loans')
-              .delete()
-              .eq('id', loanId);
-            
-            if (loanDeleteError) {
-              deletionResults.push({ loanId, error: loanDeleteError });
-            } else {
-              deletionResults.push({ loanId, success: true });
-            }
-          } catch (error: any) {
-            deletionResults.push({ loanId, error });
-          }
-        }
-        
-        // Check if any deletions failed
-        const failedDeletions = deletionResults.filter(r => r.error);
-        if (failedDeletions.length > 0) {
-          const errorMessages = failedDeletions.map(f => f.error?.message || 'Unknown error').join('; ');
-          toast.error('Cannot Delete Member', {
-            description: `Unable to delete ${failedDeletions.length} of ${repaidLoanIds.length} repaid loan(s). Errors: ${errorMessages}`,
-          });
-          setIsDeleting(false);
-          return;
-        }
-        
-        // Wait for database to process deletions
-        await new Promise(resolve => setTimeout(resolve, 300));
-        
-        // Verify all loans are deleted
-        const { data: verifyLoans } = await supabase
-          .from('loans')
-          .select('id')
-          .eq('member_id', deleteCandidate.member_id)
-          .in('id', repaidLoanIds);
+      // Savings are owed to the member and stay with them, even once paid out
+      const { count: savingsCount, error: savingsError } = await supabase
+        .from('savings_accounts')
+        .select('id', { count: 'exact', head: true })
+        .eq('member_id', deleteCandidate.member_id);
+      if (savingsError) throw savingsError;
 
-        if (verifyLoans && verifyLoans.length > 0) {
-          toast.error('Cannot Delete Member', {
-            description: `${verifyLoans.length} repaid loan(s) still exist after deletion attempt. The loans may have dependencies that prevent deletion. Please contact an administrator.`,
-          });
-          setIsDeleting(false);
-          return;
-        }
+      if (savingsCount && savingsCount > 0) {
+        toast.error('Cannot Delete Member', {
+          description: `This member has ${savingsCount} savings account(s). Members with savings are kept; set them inactive instead.`,
+        });
+        return;
       }
 
-      // Final verification before member deletion - check ALL loans (including soft-deleted)
-      const { data: finalLoansCheck } = await supabase
-        .from('loans')
-        .select('id, status, is_deleted')
-        .eq('member_id', deleteCandidate.member_id);
-      
-      if (finalLoansCheck && finalLoansCheck.length > 0) {
-        // Try one more time to delete any remaining loans individually
-        const remainingLoanIds = finalLoansCheck.map(loan => loan.id);
-        
-        for (const loanId of remainingLoanIds) {
-          // Handle all dependencies again
-          const { error: assetsDeleteError } = await supabase.from('realizable_assets').delete().eq('loan_id', loanId);
-          if (assetsDeleteError) {
-            await supabase.from('realizable_assets').update({ loan_id: null }).eq('loan_id', loanId);
-          }
-          
-          await supabase.from('loan_installments').delete().eq('loan_id', loanId);
-          await supabase.from('loan_payments').delete().eq('loan_id', loanId);
-          await supabase.from('communication_logs').delete().eq('loan_id', loanId);
-          await supabase.from('transactions').update({ loan_id: null }).eq('loan_id', loanId);
-          
-          await supabase.from('loans').delete().eq('id', loanId);
-        }
-        
-        // Verify again after final attempt
-        await new Promise(resolve => setTimeout(resolve, 200));
-        const { data: finalVerify } = await supabase
-          .from('loans')
-          .select('id')
-          .eq('member_id', deleteCandidate.member_id);
-        
-        if (finalVerify && finalVerify.length > 0) {
+      const { error } = await supabase.from('members').delete().eq('id', deleteCandidate.member_id);
+      if (error) {
+        if (error.message && error.message.includes('foreign key constraint')) {
           toast.error('Cannot Delete Member', {
-            description: `Member still has ${finalVerify.length} loan(s) that could not be removed. This may be due to database constraints or permissions. Please contact an administrator.`,
+            description: 'This member has loan or savings records that must be kept. Set them inactive instead.',
           });
-          setIsDeleting(false);
           return;
         }
+        throw error;
       }
 
-      const { error } = await supabase.from('members').delete().eq('id', deleteCandidate.member_id);
-      if (error) {
-        // Check if error is related to foreign key constraint
-        if (error.message && error.message.includes('foreign key constraint')) {
-          // Re-check for any remaining loans
-          const { data: remainingLoans } = await supabase
-            .from('loans')
-            .select('id, status')
-            .eq('member_id', deleteCandidate.member_id)
-            .eq('is_deleted', false);
-          
-          const activeRemaining = (remainingLoans || []).filter(
-            loan => loan.status !== 'repaid' && loan.status !== 'completed'
-          );
-          
-          if (activeRemaining.length > 0) {
-            toast.error('Cannot Delete Member', {
-              description: `This member has ${activeRemaining.length} active loan(s). Please delete or close all loans before deleting the member.`,
-            });
-          } else {
-            toast.error('Cannot Delete Member', {
-              description: 'This member has associated loans that could not be automatically deleted. Please contact an administrator.',
-            });
-          }
-        } else {
-          throw error;
-        }
-        return;
-      }
-      
-      if (repaidLoans.length > 0) {
-        toast.success(`Member "${deleteCandidate.full_name}" deleted successfully. (Also deleted ${repaidLoans.length} repaid loan(s))`);
-      } else {
-        toast.success(`Member "${deleteCandidate.full_name}" deleted successfully.`);
-      }
+      toast.success(`Member "${deleteCandidate.full_name}" deleted successfully.`);
       setDeleteCandidate(null);
       await fetchMembers(); // Refresh the list
     } catch (error: any) {
@@ -532,7 +385,7 @@ const MembersPage: React.FC = () => {
                 <Ban className="h-4 w-4 text-red-500 mt-0.5" />
                 <div className="text-sm text-red-800">
                   <p className="font-medium">Cannot Delete Member:</p>
-                  <p>This member has {deleteCandidate.total_loans} active loan(s). You must delete or close all loans before deleting this member.</p>
+                  <p>This member has {deleteCandidate.total_loans} loan(s) on record. Members with loan history are kept; set them inactive instead.</p>
                 </div>
               </div>
             </div>
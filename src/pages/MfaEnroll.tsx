@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
+import { generateRecoveryCodes } from '@/utils/mfa';
 
 const MfaEnroll: React.FC = () => {
   const [qr, setQr] = useState<string>('');
@@ -22,12 +23,11 @@ const MfaEnroll: React.FC = () => {
         // Create a TOTP factor
         const { data, error } = await (supabase as any).auth.mfa.enroll({ factorType: 'totp' });
         if (error) throw error;
-        // data: { id, type, totp: { qr_code, secret, uri, recovery_codes } }
+        // data: { id, type, totp: { qr_code, secret, uri } }
         setFactorId(data.id);
         setQr(data.totp.qr_code || data.totp.qr_code_url || data.totp.uri || '');
         setTotpSecret(data.totp.secret || '');
         setOtpauthUri(data.totp.uri || '');
-        setRecoveryCodes(data.totp.recovery_codes || []);
       } catch (e: any) {
         toast.error('Failed to start TOTP enrollment', { description: e.message });
       } finally {
@@ -50,7 +50,13 @@ const MfaEnroll: React.FC = () => {
       if (error) throw error;
       try { await supabase.functions.invoke('log-auth-event', { body: { event_type: 'mfa_enrolled' } }); } catch {}
       toast.success('TOTP enrolled successfully');
-      window.location.href = '/';
+      // The session is aal2 now, which recovery code generation requires
+      try {
+        setRecoveryCodes(await generateRecoveryCodes());
+      } catch (e: any) {
+        toast.warning('Could not create recovery codes', { description: `${e.message}. Create them later from MFA Security.` });
+        window.location.href = '/';
+      }
     } catch (e: any) {
       toast.error('Verification failed', { description: e.message });
     } finally {
@@ -115,7 +121,7 @@ const MfaEnroll: React.FC = () => {
           <div className="space-y-2">
             <Label>Enter 6-digit code</Label>
             <Input value={verifyCode} onChange={(e) => setVerifyCode(e.target.value)} placeholder="123456" />
-            <Button onClick={handleVerify} disabled={loading} className="w-full">Verify & Enable</Button>
+            <Button onClick={handleVerify} disabled={loading || recoveryCodes.length > 0} className="w-full">Verify & Enable</Button>
           </div>
 
           {recoveryCodes.length > 0 && (
@@ -126,7 +132,13 @@ const MfaEnroll: React.FC = () => {
                   <li key={c} className="font-mono p-1 border rounded">{c}</li>
                 ))}
               </ul>
-              <p className="text-xs text-muted-foreground mt-2">Store these somewhere safe. They can be used if you lose your device.</p>
+              <p className="text-xs text-muted-foreground mt-2">
+                Store these somewhere safe. Each one works once if you lose your device, and they will not be shown again.
+              </p>
+              <div className="mt-3 grid grid-cols-2 gap-2">
+                <Button type="button" variant="outline" onClick={() => copyToClipboard(recoveryCodes.join('\n'), 'Recovery codes')}>Copy codes</Button>
+                <Button type="button" onClick={() => { window.location.href = '/'; }}>I have saved them</Button>
+              </div>
             </div>
           )}
         </CardContent>
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { ExportDropdown } from '@/components/ui/ExportDropdown';
+import { ShieldAlert, RefreshCw, ShieldCheck, Settings as SettingsIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MfaEnrollmentRow, MfaPolicyRole } from '@/types';
+import { MFA_POLICY_ROLE_LABELS, fetchMfaEnrollmentReport } from '@/utils/mfa';
+
+type EnrollmentView = 'missing' | 'required' | 'all';
+
+const VIEW_LABELS: Record<EnrollmentView, string> = {
+  missing: 'Required, not enrolled',
+  required: 'Everyone MFA applies to',
+  all: 'All users',
+};
+
+const formatDateTime = (value: string | null): string =>
+  value ? new Date(value).toLocaleString('en-KE', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' }) : '-';
+
+const roleLabel = (role: string): string => MFA_POLICY_ROLE_LABELS[role as MfaPolicyRole] || role;
+
+const MfaEnrollment: React.FC = () => {
+  const { userRole } = useAuth();
+  const [rows, setRows] = useState<MfaEnrollmentRow[]>([]);
+  const [view, setView] = useState<EnrollmentView>('missing');
+  const [loading, setLoading] = useState(true);
+
+  const canView = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRows(await fetchMfaEnrollmentReport());
+    } catch (error: any) {
+      toast.error('Failed to load MFA enrolment', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canView) {
+      loadReport();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadReport]);
+
+  const summary = useMemo(() => {
+    const required = rows.filter(row => row.mfa_required && row.is_active);
+    const enrolled = required.filter(row => row.enrolled);
+    return {
+      required: required.length,
+      enrolled: enrolled.length,
+      missing: required.length - enrolled.length,
+      lowOnCodes: enrolled.filter(row => row.recovery_codes_remaining < 3).length,
+    };
+  }, [rows]);
+
+  const visibleRows = useMemo(() => {
+    if (view === 'missing') return rows.filter(row => row.mfa_required && row.is_active && !row.enrolled);
+    if (view === 'required') return rows.filter(row => row.mfa_required);
+    return rows;
+  }, [rows, view]);
+
+  const columns = [
+    {
+      header: 'User',
+      cell: (row: MfaEnrollmentRow) => (
+        <div>
+          <div className="font-medium">{row.full_name || row.email || row.user_id.slice(0, 8)}</div>
+          <div className="text-xs text-muted-foreground">{row.email}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Role',
+      cell: (row: MfaEnrollmentRow) => (
+        <div className="flex flex-wrap gap-1">
+          <span>{roleLabel(row.role)}</span>
+          {row.mfa_required && <Badge variant="outline">MFA required</Badge>}
+          {!row.is_active && <Badge variant="secondary">Inactive</Badge>}
+        </div>
+      )
+    },
+    { header: 'Branch', cell: (row: MfaEnrollmentRow) => row.branch_name || '-' },
+    {
+      header: 'Authenticator',
+      cell: (row: MfaEnrollmentRow) => row.enrolled
+        ? <Badge variant="default">Enrolled {formatDateTime(row.enrolled_at)}</Badge>
+        : <Badge variant={row.mfa_required ? 'destructive' : 'secondary'}>Not enrolled</Badge>
+    },
+    {
+      header: 'Recovery Codes',
+      cell: (row: MfaEnrollmentRow) => row.enrolled
+        ? <span className={row.recovery_codes_remaining < 3 ? 'text-destructive font-medium' : ''}>{row.recovery_codes_remaining} left</span>
+        : '-'
+    },
+    { header: 'Last Sign-in', cell: (row: MfaEnrollmentRow) => formatDateTime(row.last_sign_in_at) },
+  ];
+
+  const exportColumns = [
+    { header: 'Name', accessorKey: (row: MfaEnrollmentRow) => row.full_name || '' },
+    { header: 'Email', accessorKey: (row: MfaEnrollmentRow) => row.email || '' },
+    { header: 'Role', accessorKey: (row: MfaEnrollmentRow) => roleLabel(row.role) },
+    { header: 'Branch', accessorKey: (row: MfaEnrollmentRow) => row.branch_name || '' },
+    { header: 'MFA Required', accessorKey: (row: MfaEnrollmentRow) => (row.mfa_required ? 'Yes' : 'No') },
+    { header: 'Enrolled', accessorKey: (row: MfaEnrollmentRow) => (row.enrolled ? 'Yes' : 'No') },
+    { header: 'Recovery Codes Left', accessorKey: (row: MfaEnrollmentRow) => (row.enrolled ? String(row.recovery_codes_remaining) : '') },
+    { header: 'Last Sign-in', accessorKey: (row: MfaEnrollmentRow) => formatDateTime(row.last_sign_in_at) },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>Only administrators can view MFA enrolment.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">MFA Enrolment</h1>
+          <p className="text-muted-foreground mt-1">
+            Who has set up an authenticator, and who the MFA policy still locks out until they do.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {userRole === 'super_admin' && (
+            <Button asChild variant="outline">
+              <Link to="/settings">
+                <SettingsIcon className="mr-2 h-4 w-4" />
+                MFA Policy
+              </Link>
+            </Button>
+          )}
+          <Button variant="outline" onClick={loadReport} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Active users MFA applies to</CardDescription>
+            <CardTitle className="text-2xl">{summary.required}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Enrolled</CardDescription>
+            <CardTitle className="text-2xl text-green-600">{summary.enrolled}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Not enrolled</CardDescription>
+            <CardTitle className={`text-2xl ${summary.missing > 0 ? 'text-destructive' : ''}`}>{summary.missing}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Fewer than 3 recovery codes</CardDescription>
+            <CardTitle className="text-2xl">{summary.lowOnCodes}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Enrolment
+            </CardTitle>
+            <CardDescription>{VIEW_LABELS[view]}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={view} onValueChange={(value) => setView(value as EnrollmentView)}>
+              <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VIEW_LABELS) as EnrollmentView[]).map(option => (
+                  <SelectItem key={option} value={option}>{VIEW_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ExportDropdown
+              data={visibleRows}
+              columns={exportColumns}
+              fileName={`mfa-enrolment-${view}`}
+              reportTitle={`MFA Enrolment - ${VIEW_LABELS[view]}`}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={visibleRows}
+            emptyStateMessage={view === 'missing' ? 'Everyone the policy applies to has enrolled' : 'No users'}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MfaEnrollment;
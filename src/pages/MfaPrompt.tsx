@@ -5,30 +5,33 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
+import { redeemRecoveryCode } from '@/utils/mfa';
 
 const MfaPrompt: React.FC = () => {
   const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [factorId, setFactorId] = useState<string>('');
   const [challengeId, setChallengeId] = useState<string>('');
-  const [usingEmail, setUsingEmail] = useState(false);
+  const [usingRecovery, setUsingRecovery] = useState(false);
+  const location = useLocation();
+  const returnTo = (location.state as { from?: string } | null)?.from || '/';
 
   useEffect(() => {
     const bootstrap = async () => {
       try {
         // Load verified/enrolled TOTP factor for this user
-        const { data, error } = await (supabase as any).auth.mfa.listFactors();
+        const { data, error } = await supabase.auth.mfa.listFactors();
         if (error) throw error;
-        const totp = (data?.totp || []).find((f: any) => ['verified', 'enrolled'].includes(f.status));
+        const totp = (data?.totp || []).find(f => ['verified', 'enrolled'].includes(f.status));
         if (!totp) return;
         setFactorId(totp.id);
         // Start a challenge for login verification
-        const { data: ch, error: chErr } = await (supabase as any).auth.mfa.challenge({ factorId: totp.id });
+        const { data: ch, error: chErr } = await supabase.auth.mfa.challenge({ factorId: totp.id });
         if (chErr) throw chErr;
         setChallengeId(ch.id);
       } catch (e) {
-        // silent; UI fallback via email can be used
+        // silent; the recovery code option below still works
       }
     };
     bootstrap();
@@ -39,21 +42,13 @@ const MfaPrompt: React.FC = () => {
     setLoading(true);
     try {
       if (!factorId) throw new Error('No TOTP factor found for this account');
-      const payload: any = { factorId, code };
-      if (challengeId) payload.challengeId = challengeId;
-      const { error } = await (supabase as any).auth.mfa.verify(payload);
+      const { error } = challengeId
+        ? await supabase.auth.mfa.verify({ factorId, challengeId, code })
+        : await supabase.auth.mfa.challengeAndVerify({ factorId, code });
       if (error) throw error;
+      // The session is now aal2; the server reads that from the refreshed token
       toast.success('Verification successful');
-      // Mark MFA as verified for this user for the current session window
-      const { data: session } = await supabase.auth.getSession();
-      const userId = session?.session?.user?.id;
-      if (userId) {
-        const key = `mfa_verified_${userId}`;
-        // Set to expire in 12 hours; adjust as needed
-        const expiresAt = Date.now() + 12 * 60 * 60 * 1000;
-        localStorage.setItem(key, JSON.stringify({ expiresAt }));
-      }
-      window.location.href = '/';
+      window.location.href = returnTo;
     } catch (e: any) {
       toast.error('Invalid code', { description: e.message });
     } finally {
@@ -61,44 +56,21 @@ const MfaPrompt: React.FC = () => {
     }
   };
 
-  const sendEmailOtp = async () => {
-    setLoading(true);
-    try {
-      const { data: session } = await supabase.auth.getSession();
-      const email = session?.session?.user?.email;
-      if (!email) throw new Error('No email');
-      const { error } = await supabase.auth.signInWithOtp({ email, options: { shouldCreateUser: false } });
-      if (error) throw error;
-      setUsingEmail(true);
-      toast.success('OTP sent to your email');
-    } catch (e: any) {
-      toast.error('Failed to send OTP', { description: e.message });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const verifyEmailOtp = async () => {
-    if (!code) return toast.error('Enter the email OTP');
+  const verifyRecoveryCode = async () => {
+    if (!code) return toast.error('Enter one of your recovery codes');
     setLoading(true);
     try {
-      const { data: session } = await supabase.auth.getSession();
-      const email = session?.session?.user?.email;
-      if (!email) throw new Error('No email');
-      const { error } = await supabase.auth.verifyOtp({ email, token: code, type: 'email' as any });
-      if (error) throw error;
-      toast.success('Verification successful');
-      // Mark MFA as verified for this user for the current session window
-      const { data: s2 } = await supabase.auth.getSession();
-      const userId = s2?.session?.user?.id;
-      if (userId) {
-        const key = `mfa_verified_${userId}`;
-        const expiresAt = Date.now() + 12 * 60 * 60 * 1000;
-        localStorage.setItem(key, JSON.stringify({ expiresAt }));
+      const accepted = await redeemRecoveryCode(code);
+      if (!accepted) throw new Error('That code is wrong or has already been used');
+      try {
+        await supabase.functions.invoke('log-auth-event', { body: { event_type: 'mfa_recovery_code_used' } });
+      } catch {
+        // Logging is best effort; the code has already been redeemed
       }
-      window.location.href = '/';
+      toast.success('Recovery code accepted', { description: 'Set up your authenticator again to continue.' });
+      window.location.href = '/mfa/enroll';
     } catch (e: any) {
-      toast.error('Invalid OTP', { description: e.message });
+      toast.error('Recovery failed', { description: e.message });
     } finally {
       setLoading(false);
     }
@@ -109,25 +81,30 @@ const MfaPrompt: React.FC = () => {
       <Card>
         <CardHeader>
           <CardTitle>Two‑Factor Verification</CardTitle>
-          <CardDescription>Enter the 6‑digit code from your authenticator app. Or use email OTP.</CardDescription>
+          <CardDescription>Enter the 6‑digit code from your authenticator app, or a recovery code if you have lost it.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          {!factorId && !usingEmail && (
+          {!factorId && !usingRecovery && (
             <div className="text-sm p-3 rounded border bg-muted/30">
-              It looks like you haven’t enrolled in an authenticator yet. You can
-              <Link to="/mfa/enroll" className="underline ml-1">set up TOTP</Link>
-              
-               now, or use email OTP below.
+              It looks like you haven’t enrolled in an authenticator yet.
+              <Link to="/mfa/enroll" className="underline ml-1">Set up TOTP</Link> now.
             </div>
           )}
           <div className="space-y-2">
-            <Label>Code</Label>
-            <Input value={code} onChange={(e) => setCode(e.target.value)} placeholder={usingEmail ? 'Email OTP' : '123456'} />
+            <Label>{usingRecovery ? 'Recovery code' : 'Code'}</Label>
+            <Input value={code} onChange={(e) => setCode(e.target.value)} placeholder={usingRecovery ? 'XXXXX-XXXXX' : '123456'} />
           </div>
           <div className="grid grid-cols-2 gap-2">
-            <Button onClick={usingEmail ? verifyEmailOtp : verifyTOTP} disabled={loading}>{usingEmail ? 'Verify Email OTP' : 'Verify TOTP'}</Button>
-            <Button variant="outline" onClick={sendEmailOtp} disabled={loading}>Use Email OTP</Button>
+            <Button onClick={usingRecovery ? verifyRecoveryCode : verifyTOTP} disabled={loading}>{usingRecovery ? 'Use Recovery Code' : 'Verify TOTP'}</Button>
+            <Button variant="outline" onClick={() => { setUsingRecovery(!usingRecovery); setCode(''); }} disabled={loading}>
+              {usingRecovery ? 'Use Authenticator' : 'Lost your device?'}
+            </Button>
           </div>
+          {usingRecovery && (
+            <p className="text-xs text-muted-foreground">
+              Each recovery code works once. Using one removes your current authenticator so you can set up a new one.
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,6 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useNotifications } from '@/contexts/NotificationContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,120 +10,14 @@ import {
   XCircle, 
   AlertCircle, 
   Loader2,
-  Eye
+  Eye,
+  ExternalLink
 } from 'lucide-react';
-import { toast } from 'sonner';
-
-interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: 'info' | 'warning' | 'error' | 'success';
-  is_read: boolean;
-  related_entity_type?: string;
-  related_entity_id?: string;
-  created_at: string;
-  read_at?: string;
-}
+import { getNotificationLink, NOTIFICATION_CATEGORY_LABELS } from '@/utils/notifications';
 
 
 const Notifications: React.FC = () => {
-  const { user, userRole } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
-
-  useEffect(() => {
-    if (userRole) {
-      fetchData();
-    }
-  }, [userRole]);
-
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      
-      // Fetch notifications
-      const { data: notificationsData, error: notificationsError } = await supabase
-        .from('notifications')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (notificationsError) throw notificationsError;
-
-      setNotifications(notificationsData || []);
-      setUnreadCount(notificationsData?.filter(n => !n.is_read).length || 0);
-
-    } catch (error: any) {
-      toast.error('Failed to fetch data', { description: error.message });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const markAsRead = async (notificationId: string) => {
-    try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ 
-          is_read: true, 
-          read_at: new Date().toISOString() 
-        })
-        .eq('id', notificationId);
-
-      if (error) throw error;
-
-      setNotifications(prev => 
-        prev.map(n => 
-          n.id === notificationId 
-            ? { ...n, is_read: true, read_at: new Date().toISOString() }
-            : n
-        )
-      );
-
-      setUnreadCount(prev => Math.max(0, prev - 1));
-      toast.success('Notification marked as read');
-
-    } catch (error: any) {
-      toast.error('Failed to mark notification as read', { description: error.message });
-    }
-  };
-
-  const markAllAsRead = async () => {
-    try {
-      const unreadIds = notifications
-        .filter(n => !n.is_read)
-        .map(n => n.id);
-
-      if (unreadIds.length === 0) return;
-
-      const { error } = await supabase
-        .from('notifications')
-        .update({ 
-          is_read: true, 
-          read_at: new Date().toISOString() 
-        })
-        .in('id', unreadIds);
-
-      if (error) throw error;
-
-      setNotifications(prev => 
-        prev.map(n => 
-          !n.is_read 
-            ? { ...n, is_read: true, read_at: new Date().toISOString() }
-            : n
-        )
-      );
-
-      setUnreadCount(0);
-      toast.success('All notifications marked as read');
-
-    } catch (error: any) {
-      toast.error('Failed to mark all notifications as read', { description: error.message });
-    }
-  };
-
+  const { notifications, unreadCount, markAsRead, markAllAsRead, isLoading } = useNotifications();
 
   const getNotificationIcon = (type: string) => {
     const iconConfig = {
@@ -152,7 +46,7 @@ const Notifications: React.FC = () => {
 
   // Allow all authenticated roles to see their own notifications
 
-  if (loading) {
+  if (isLoading && notifications.length === 0) {
     return (
       <div className="flex items-center justify-center h-64">
         <Loader2 className="h-8 w-8 animate-spin" />
@@ -166,7 +60,7 @@ const Notifications: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold">Notifications</h1>
           <p className="text-muted-foreground">
-            Manage system notifications and pending loan approvals
+            Alerts raised for you by the system, newest first
           </p>
         </div>
         {unreadCount > 0 && (
@@ -215,7 +109,7 @@ const Notifications: React.FC = () => {
                                   {notification.title}
                                 </h3>
                                 <Badge className={getNotificationBadge(notification.type)}>
-                                  {notification.type}
+                                  {NOTIFICATION_CATEGORY_LABELS[notification.category] || notification.type}
                                 </Badge>
                                 {!notification.is_read && (
                                   <Badge variant="outline" className="bg-blue-100 text-blue-800">
@@ -231,15 +125,24 @@ const Notifications: React.FC = () => {
                               </p>
                             </div>
                           </div>
-                          {!notification.is_read && (
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => markAsRead(notification.id)}
-                            >
-                              <Eye className="w-4 h-4" />
-                            </Button>
-                          )}
+                          <div className="flex items-center gap-1">
+                            {getNotificationLink(notification) && (
+                              <Button asChild size="sm" variant="ghost" onClick={() => markAsRead(notification.id)}>
+                                <Link to={getNotificationLink(notification) as string}>
+                                  <ExternalLink className="w-4 h-4" />
+                                </Link>
+                              </Button>
+                            )}
+                            {!notification.is_read && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => markAsRead(notification.id)}
+                              >
+                                <Eye className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Loader2, ShieldAlert, RefreshCw, Smartphone, Link2, Ban, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MobileMoneyReceipt, MobileMoneyReceiptStatus, SuspenseLoanOption } from '@/types';
+import {
+  MATCH_METHOD_LABELS,
+  allocateMobileMoneyReceipt,
+  dismissMobileMoneyReceipt,
+  fetchMobileMoneyReceipts,
+  retryReceiptMatch,
+  searchSuspenseLoans,
+} from '@/utils/mobileMoney';
+
+const STATUS_VARIANTS: Record<MobileMoneyReceiptStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  unmatched: 'destructive',
+  matched: 'default',
+  allocated: 'default',
+  dismissed: 'secondary',
+};
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const PaymentSuspense: React.FC = () => {
+  const { userRole } = useAuth();
+  const [receipts, setReceipts] = useState<MobileMoneyReceipt[]>([]);
+  const [statusFilter, setStatusFilter] = useState<MobileMoneyReceiptStatus | 'all'>('unmatched');
+  const [loading, setLoading] = useState(true);
+  const [busyReceiptId, setBusyReceiptId] = useState<string | null>(null);
+
+  // Allocation dialog
+  const [allocating, setAllocating] = useState<MobileMoneyReceipt | null>(null);
+  const [loanSearch, setLoanSearch] = useState('');
+  const [loanOptions, setLoanOptions] = useState<SuspenseLoanOption[]>([]);
+  const [selectedLoanId, setSelectedLoanId] = useState<string | null>(null);
+  const [allocationNotes, setAllocationNotes] = useState('');
+
+  // Dismiss dialog
+  const [dismissing, setDismissing] = useState<MobileMoneyReceipt | null>(null);
+  const [dismissReason, setDismissReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'loan_officer', 'auditor'].includes(userRole || '');
+  const canAllocate = ['super_admin', 'admin', 'branch_admin', 'loan_officer'].includes(userRole || '');
+  const canDismiss = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadReceipts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReceipts(await fetchMobileMoneyReceipts(statusFilter));
+    } catch (error: any) {
+      toast.error('Failed to load mobile money receipts', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    if (canView) {
+      loadReceipts();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadReceipts]);
+
+  useEffect(() => {
+    if (!allocating) return;
+    const timeoutId = setTimeout(async () => {
+      try {
+        setLoanOptions(await searchSuspenseLoans(loanSearch));
+      } catch (error: any) {
+        toast.error('Loan search failed', { description: error.message });
+      }
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [loanSearch, allocating]);
+
+  const openAllocation = (receipt: MobileMoneyReceipt) => {
+    setAllocating(receipt);
+    setLoanSearch(receipt.account_reference || '');
+    setLoanOptions([]);
+    setSelectedLoanId(receipt.loan_id || null);
+    setAllocationNotes('');
+  };
+
+  const handleAllocate = async () => {
+    if (!allocating || !selectedLoanId) {
+      toast.warning('Select the loan this payment belongs to.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await allocateMobileMoneyReceipt(allocating.id, selectedLoanId, allocationNotes);
+      toast.success(`${allocating.transaction_id} allocated successfully.`);
+      setAllocating(null);
+      await loadReceipts();
+    } catch (error: any) {
+      toast.error('Allocation failed', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    if (!dismissing || !dismissReason.trim()) {
+      toast.warning('Please give a reason for dismissing this receipt.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await dismissMobileMoneyReceipt(dismissing.id, dismissReason.trim());
+      toast.success(`${dismissing.transaction_id} dismissed.`);
+      setDismissing(null);
+      setDismissReason('');
+      await loadReceipts();
+    } catch (error: any) {
+      toast.error('Failed to dismiss receipt', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRetry = async (receipt: MobileMoneyReceipt) => {
+    setBusyReceiptId(receipt.id);
+    try {
+      const status = await retryReceiptMatch(receipt.id);
+      if (status === 'matched') {
+        toast.success(`${receipt.transaction_id} matched and posted.`);
+      } else {
+        toast.info(`${receipt.transaction_id} is still unmatched.`);
+      }
+      await loadReceipts();
+    } catch (error: any) {
+      toast.error('Auto-match failed', { description: error.message });
+    } finally {
+      setBusyReceiptId(null);
+    }
+  };
+
+  const unmatchedTotal = receipts
+    .filter(r => r.status === 'unmatched')
+    .reduce((sum, r) => sum + r.amount, 0);
+
+  const columns = [
+    {
+      header: 'Received',
+      cell: (row: MobileMoneyReceipt) => (
+        <div>
+          <div>{new Date(row.transaction_time).toLocaleDateString()}</div>
+          <div className="text-xs text-muted-foreground">{new Date(row.transaction_time).toLocaleTimeString()}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Transaction',
+      cell: (row: MobileMoneyReceipt) => <span className="font-mono text-sm">{row.transaction_id}</span>
+    },
+    {
+      header: 'Payer',
+      cell: (row: MobileMoneyReceipt) => (
+        <div>
+          <div className="font-medium">{row.payer_name || 'Unknown'}</div>
+          <div className="text-xs text-muted-foreground">{row.msisdn || '-'}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Account Entered',
+      cell: (row: MobileMoneyReceipt) => <span className="font-mono">{row.account_reference || '-'}</span>
+    },
+    {
+      header: 'Amount',
+      cell: (row: MobileMoneyReceipt) => <span className="font-semibold">{formatCurrency(row.amount)}</span>
+    },
+    {
+      header: 'Status',
+      cell: (row: MobileMoneyReceipt) => (
+        <div className="space-y-1">
+          <Badge variant={STATUS_VARIANTS[row.status]} className="capitalize">{row.status}</Badge>
+          {row.status === 'unmatched' && row.match_error && (
+            <div className="text-xs text-muted-foreground max-w-xs">{row.match_error}</div>
+          )}
+          {row.match_method && (
+            <div className="text-xs text-muted-foreground">{MATCH_METHOD_LABELS[row.match_method]}</div>
+          )}
+          {row.status === 'dismissed' && row.notes && (
+            <div className="text-xs text-muted-foreground max-w-xs">{row.notes}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: MobileMoneyReceipt) => (
+        <div className="flex justify-end items-center gap-2">
+          {row.loan_id && row.status !== 'unmatched' && (
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/loans/${row.loan_id}`}>View Loan</Link>
+            </Button>
+          )}
+          {row.status === 'unmatched' && canAllocate && (
+            <>
+              <Button variant="outline" size="icon" title="Retry auto-match" onClick={() => handleRetry(row)} disabled={busyReceiptId === row.id}>
+                {busyReceiptId === row.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              </Button>
+              <Button size="sm" onClick={() => openAllocation(row)}>
+                <Link2 className="h-4 w-4 mr-1" />
+                Allocate
+              </Button>
+            </>
+          )}
+          {row.status === 'unmatched' && canDismiss && (
+            <Button variant="ghost" size="icon" title="Dismiss" onClick={() => { setDismissing(row); setDismissReason(''); }}>
+              <Ban className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )
+    },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view mobile money receipts.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">M-Pesa Suspense</h1>
+            <p className="text-muted-foreground mt-1">
+              Paybill receipts that could not be matched to a loan automatically.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as MobileMoneyReceiptStatus | 'all')}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unmatched">Unmatched</SelectItem>
+                <SelectItem value="matched">Auto-matched</SelectItem>
+                <SelectItem value="allocated">Allocated</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+                <SelectItem value="all">All receipts</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={loadReceipts} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Smartphone className="h-5 w-5" />
+              Receipts
+            </CardTitle>
+            <CardDescription>
+              {statusFilter === 'unmatched' || statusFilter === 'all'
+                ? `${receipts.filter(r => r.status === 'unmatched').length} unmatched receipt(s) worth ${formatCurrency(unmatchedTotal)}`
+                : `${receipts.length} receipt(s)`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <DataTable columns={columns} data={receipts} emptyStateMessage="No receipts in this queue." />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!allocating} onOpenChange={(open) => { if (!open) setAllocating(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Allocate {allocating?.transaction_id}</DialogTitle>
+            <DialogDescription>
+              {formatCurrency(allocating?.amount || 0)} from {allocating?.payer_name || allocating?.msisdn || 'unknown payer'}.
+              The payment is posted to the loan and spread across its installments.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="loan-search">Find loan</Label>
+              <Input
+                id="loan-search"
+                value={loanSearch}
+                onChange={(e) => setLoanSearch(e.target.value)}
+                placeholder="Member name, phone, ID number or account number"
+              />
+            </div>
+            <div className="max-h-60 overflow-y-auto border rounded-md divide-y">
+              {loanOptions.length === 0 ? (
+                <p className="p-3 text-sm text-muted-foreground">No open loans found.</p>
+              ) : loanOptions.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => setSelectedLoanId(option.id)}
+                  className={`w-full text-left p-3 hover:bg-muted/50 ${selectedLoanId === option.id ? 'bg-muted' : ''}`}
+                >
+                  <div className="flex justify-between">
+                    <span className="font-medium">{option.member_name || 'Unknown member'}</span>
+                    <span className="text-sm">{formatCurrency(option.current_balance)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {option.account_number || option.id.slice(0, 8)} · ID {option.member_id_number || '-'} · <span className="capitalize">{option.status}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="allocation-notes">Notes</Label>
+              <Textarea
+                id="allocation-notes"
+                value={allocationNotes}
+                onChange={(e) => setAllocationNotes(e.target.value)}
+                placeholder="Optional, e.g. member used their phone number as the account"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAllocating(null)}>Cancel</Button>
+            <Button onClick={handleAllocate} disabled={isSubmitting || !selectedLoanId}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Allocate Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!dismissing} onOpenChange={(open) => { if (!open) setDismissing(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Dismiss {dismissing?.transaction_id}</DialogTitle>
+            <DialogDescription>
+              Dismissed receipts leave the suspense queue without being posted to any loan.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="dismiss-reason">Reason</Label>
+            <Textarea
+              id="dismiss-reason"
+              value={dismissReason}
+              onChange={(e) => setDismissReason(e.target.value)}
+              placeholder="e.g. Refunded to sender"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDismissing(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDismiss} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Dismiss Receipt
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PaymentSuspense;
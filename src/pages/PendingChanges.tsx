@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DataTable } from '@/components/ui/data-table';
+import { RefreshCw, FileDiff, Loader2, CheckCircle, XCircle, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { PendingChangeRow, PendingChangeStatus } from '@/types';
+import {
+  PENDING_CHANGE_STATUS_LABELS,
+  PENDING_CHANGE_TYPE_LABELS,
+  approvePendingChange,
+  cancelPendingChange,
+  fetchPendingChanges,
+  rejectPendingChange,
+} from '@/utils/pendingChanges';
+import { diffAuditValues, formatAuditValue } from '@/utils/audit';
+
+type StatusFilter = PendingChangeStatus | 'all';
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString('en-KE', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatCurrency = (value: unknown): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(Number(value || 0));
+
+const statusVariant = (status: PendingChangeStatus): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  if (status === 'approved') return 'default';
+  if (status === 'rejected') return 'destructive';
+  if (status === 'pending') return 'secondary';
+  return 'outline';
+};
+
+const PendingChanges: React.FC = () => {
+  const { user } = useAuth();
+  const canApprove = usePermission('loans.approve_changes');
+  const [status, setStatus] = useState<StatusFilter>('pending');
+  const [rows, setRows] = useState<PendingChangeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<PendingChangeRow | null>(null);
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadChanges = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRows(await fetchPendingChanges(status));
+    } catch (error: any) {
+      toast.error('Failed to load change requests', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const openReview = (row: PendingChangeRow) => {
+    setSelected(row);
+    setNotes('');
+  };
+
+  const isOwn = (row: PendingChangeRow) => !!user && row.requested_by === user.id;
+  const canReview = (row: PendingChangeRow) => canApprove && row.status === 'pending' && !isOwn(row);
+
+  const runAction = async (action: () => Promise<void>, success: string, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      setSelected(null);
+      loadChanges();
+    } catch (error: any) {
+      toast.error(failure, { description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!selected) return;
+    runAction(
+      () => approvePendingChange(selected.id, notes.trim()),
+      `${PENDING_CHANGE_TYPE_LABELS[selected.change_type]} approved and applied`,
+      'Failed to approve change'
+    );
+  };
+
+  const handleReject = () => {
+    if (!selected) return;
+    if (!notes.trim()) {
+      toast.warning('Give a reason for rejecting the change.');
+      return;
+    }
+    runAction(() => rejectPendingChange(selected.id, notes.trim()), 'Change rejected', 'Failed to reject change');
+  };
+
+  const handleWithdraw = (row: PendingChangeRow) => {
+    runAction(() => cancelPendingChange(row.id), 'Change request withdrawn', 'Failed to withdraw change request');
+  };
+
+  const describeChange = (row: PendingChangeRow): string => {
+    if (row.change_type === 'loan_edit') {
+      const fields = Object.keys(row.proposed_values);
+      return fields.slice(0, 4).join(', ') + (fields.length > 4 ? ` +${fields.length - 4} more` : '');
+    }
+    return `Balance ${formatCurrency(row.current_values.current_balance)}`;
+  };
+
+  const columns = [
+    {
+      header: 'Requested',
+      cell: (row: PendingChangeRow) => (
+        <div>
+          <div className="whitespace-nowrap">{formatDateTime(row.requested_at)}</div>
+          <div className="text-xs text-muted-foreground">{row.requested_by_name}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Change',
+      cell: (row: PendingChangeRow) => (
+        <Badge variant={row.change_type === 'loan_edit' ? 'outline' : 'destructive'}>{PENDING_CHANGE_TYPE_LABELS[row.change_type]}</Badge>
+      )
+    },
+    {
+      header: 'Loan',
+      cell: (row: PendingChangeRow) => (
+        <div>
+          <Link to={`/loans/${row.record_id}`} className="font-medium hover:underline">{row.member_name}</Link>
+          <div className="text-xs text-muted-foreground">{row.account_number}</div>
+        </div>
+      )
+    },
+    { header: 'Details', cell: (row: PendingChangeRow) => <span className="text-xs text-muted-foreground whitespace-normal">{describeChange(row)}</span> },
+    { header: 'Reason', cell: (row: PendingChangeRow) => <span className="whitespace-normal">{row.reason}</span> },
+    {
+      header: 'Status',
+      cell: (row: PendingChangeRow) => (
+        <div>
+          <Badge variant={statusVariant(row.status)}>{PENDING_CHANGE_STATUS_LABELS[row.status]}</Badge>
+          {row.reviewed_by_name && row.status !== 'cancelled' && (
+            <div className="text-xs text-muted-foreground mt-1">by {row.reviewed_by_name}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: PendingChangeRow) => (
+        <div className="flex justify-end gap-2">
+          <Button variant={canReview(row) ? 'default' : 'outline'} size="sm" onClick={() => openReview(row)}>
+            <FileDiff className="mr-2 h-4 w-4" />
+            {canReview(row) ? 'Review' : 'View'}
+          </Button>
+          {isOwn(row) && row.status === 'pending' && (
+            <Button variant="outline" size="sm" onClick={() => handleWithdraw(row)} disabled={busy}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Withdraw
+            </Button>
+          )}
+        </div>
+      )
+    },
+  ];
+
+  const changes = selected ? diffAuditValues(selected.current_values, selected.proposed_values) : [];
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Pending Changes</h1>
+          <p className="text-muted-foreground mt-1">
+            Loan edits, deletions and write-offs wait here until someone other than the requester approves them.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PENDING_CHANGE_STATUS_LABELS) as PendingChangeStatus[]).map(option => (
+                <SelectItem key={option} value={option}>{PENDING_CHANGE_STATUS_LABELS[option]}</SelectItem>
+              ))}
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={loadChanges} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{status === 'all' ? 'All Requests' : `${PENDING_CHANGE_STATUS_LABELS[status]} Requests`}</CardTitle>
+          <CardDescription>
+            {canApprove
+              ? 'Requests from every user. You cannot approve your own.'
+              : 'Your own requests. Another authorised user approves them.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={rows}
+            emptyStateMessage={status === 'pending' ? 'Nothing is waiting for approval' : 'No change requests'}
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {selected && `${PENDING_CHANGE_TYPE_LABELS[selected.change_type]} · ${selected.member_name} (${selected.account_number})`}
+            </DialogTitle>
+            <DialogDescription>
+              {selected && (
+                <>
+                  Requested {formatDateTime(selected.requested_at)} by {selected.requested_by_name}: {selected.reason}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selected?.change_type === 'loan_edit' ? (
+            <div className="max-h-[50vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Now</TableHead>
+                    <TableHead>Proposed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.map(change => (
+                    <TableRow key={change.field}>
+                      <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                      <TableCell className="text-xs break-all text-destructive">{formatAuditValue(change.before)}</TableCell>
+                      <TableCell className="text-xs break-all text-green-700">{formatAuditValue(change.after)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : selected && (
+            <p className="text-sm">
+              {selected.change_type === 'loan_delete'
+                ? 'The loan is removed from all lists and reports.'
+                : "The loan is written off and its outstanding principal drawn from the branch's loan loss provision."}
+              {' '}Balance when requested: <strong>{formatCurrency(selected.current_values.current_balance)}</strong>.
+            </p>
+          )}
+
+          {selected && selected.status !== 'pending' && (
+            <p className="text-sm text-muted-foreground">
+              {PENDING_CHANGE_STATUS_LABELS[selected.status]}
+              {selected.reviewed_at && ` ${formatDateTime(selected.reviewed_at)}`}
+              {selected.reviewed_by_name && selected.status !== 'cancelled' && ` by ${selected.reviewed_by_name}`}
+              {selected.review_notes && `: ${selected.review_notes}`}
+            </p>
+          )}
+
+          {selected && selected.status === 'pending' && isOwn(selected) && (
+            <p className="text-sm text-muted-foreground">You requested this change; another authorised user must approve it.</p>
+          )}
+
+          {selected && canReview(selected) && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="review-notes">Notes</Label>
+                <Textarea
+                  id="review-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Optional when approving, required when rejecting"
+                  disabled={busy}
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={handleReject} disabled={busy}>
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Reject
+                </Button>
+                <Button onClick={handleApprove} disabled={busy}>
+                  {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                  Approve and Apply
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PendingChanges;
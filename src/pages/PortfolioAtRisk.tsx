@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { ExportDropdown } from '@/components/ui/ExportDropdown';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Loader2, ShieldAlert, RefreshCw, PieChart, TrendingUp, Layers, Camera } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AgingBucketRow, LoanArrearsPosition, ParBreakdownRow, ParDimension, ParSnapshotPoint } from '@/types';
+import {
+  AGING_BUCKET_LABELS,
+  PAR_DIMENSION_LABELS,
+  buildAgingBuckets,
+  captureParSnapshot,
+  fetchLoanArrearsPositions,
+  fetchParTrend,
+  summarizePar,
+  summarizePortfolio,
+} from '@/utils/par';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const formatPercent = (value: number): string => `${value.toFixed(2)}%`;
+
+const TREND_CHART_CONFIG: ChartConfig = {
+  par1: { label: 'PAR1', color: '#eab308' },
+  par30: { label: 'PAR30', color: '#f97316' },
+  par60: { label: 'PAR60', color: '#ef4444' },
+  par90: { label: 'PAR90', color: '#991b1b' },
+};
+
+const PortfolioAtRisk: React.FC = () => {
+  const { userRole } = useAuth();
+  const [positions, setPositions] = useState<LoanArrearsPosition[]>([]);
+  const [trend, setTrend] = useState<ParSnapshotPoint[]>([]);
+  const [dimension, setDimension] = useState<ParDimension>('branch');
+  const [trendDays, setTrendDays] = useState('90');
+  const [loading, setLoading] = useState(true);
+  const [trendLoading, setTrendLoading] = useState(true);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'loan_officer', 'auditor'].includes(userRole || '');
+  const canCapture = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadPositions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPositions(await fetchLoanArrearsPositions());
+    } catch (error: any) {
+      toast.error('Failed to load portfolio positions', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTrend = useCallback(async () => {
+    setTrendLoading(true);
+    try {
+      setTrend(await fetchParTrend(Number(trendDays)));
+    } catch (error: any) {
+      toast.error('Failed to load PAR trend', { description: error.message });
+    } finally {
+      setTrendLoading(false);
+    }
+  }, [trendDays]);
+
+  useEffect(() => {
+    if (canView) {
+      loadPositions();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadPositions]);
+
+  useEffect(() => {
+    if (canView) {
+      loadTrend();
+    } else {
+      setTrendLoading(false);
+    }
+  }, [canView, loadTrend]);
+
+  const handleCapture = async () => {
+    setIsCapturing(true);
+    try {
+      const rows = await captureParSnapshot();
+      toast.success(`Today's snapshot saved (${rows} branch/officer row(s)).`);
+      await loadTrend();
+    } catch (error: any) {
+      toast.error('Failed to capture snapshot', { description: error.message });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const portfolio = useMemo(() => summarizePortfolio(positions), [positions]);
+  const breakdown = useMemo(() => summarizePar(positions, dimension), [positions, dimension]);
+  const aging = useMemo(() => buildAgingBuckets(positions), [positions]);
+  const today = new Date().toISOString().split('T')[0];
+
+  const breakdownColumns = [
+    {
+      header: PAR_DIMENSION_LABELS[dimension],
+      cell: (row: ParBreakdownRow) => <span className="font-medium">{row.label}</span>
+    },
+    { header: 'Loans', cell: (row: ParBreakdownRow) => row.loans_count },
+    { header: 'Outstanding Principal', cell: (row: ParBreakdownRow) => formatCurrency(row.outstanding_principal) },
+    {
+      header: 'PAR1',
+      cell: (row: ParBreakdownRow) => (
+        <div>
+          <div>{formatPercent(row.par1)}</div>
+          <div className="text-xs text-muted-foreground">{formatCurrency(row.par1_amount)}</div>
+        </div>
+      )
+    },
+    {
+      header: 'PAR30',
+      cell: (row: ParBreakdownRow) => (
+        <div>
+          <div className={row.par30 > 5 ? 'font-semibold text-destructive' : ''}>{formatPercent(row.par30)}</div>
+          <div className="text-xs text-muted-foreground">{formatCurrency(row.par30_amount)}</div>
+        </div>
+      )
+    },
+    {
+      header: 'PAR60',
+      cell: (row: ParBreakdownRow) => (
+        <div>
+          <div>{formatPercent(row.par60)}</div>
+          <div className="text-xs text-muted-foreground">{formatCurrency(row.par60_amount)}</div>
+        </div>
+      )
+    },
+    {
+      header: 'PAR90',
+      cell: (row: ParBreakdownRow) => (
+        <div>
+          <div>{formatPercent(row.par90)}</div>
+          <div className="text-xs text-muted-foreground">{formatCurrency(row.par90_amount)}</div>
+        </div>
+      )
+    },
+  ];
+
+  const breakdownExportColumns = [
+    { header: PAR_DIMENSION_LABELS[dimension], accessorKey: 'label' as const },
+    { header: 'Loans', accessorKey: 'loans_count' as const },
+    { header: 'Outstanding Principal', accessorKey: (row: ParBreakdownRow) => formatCurrency(row.outstanding_principal) },
+    { header: 'PAR1 Amount', accessorKey: (row: ParBreakdownRow) => formatCurrency(row.par1_amount) },
+    { header: 'PAR1 %', accessorKey: (row: ParBreakdownRow) => formatPercent(row.par1) },
+    { header: 'PAR30 Amount', accessorKey: (row: ParBreakdownRow) => formatCurrency(row.par30_amount) },
+    { header: 'PAR30 %', accessorKey: (row: ParBreakdownRow) => formatPercent(row.par30) },
+    { header: 'PAR60 Amount', accessorKey: (row: ParBreakdownRow) => formatCurrency(row.par60_amount) },
+    { header: 'PAR60 %', accessorKey: (row: ParBreakdownRow) => formatPercent(row.par60) },
+    { header: 'PAR90 Amount', accessorKey: (row: ParBreakdownRow) => formatCurrency(row.par90_amount) },
+    { header: 'PAR90 %', accessorKey: (row: ParBreakdownRow) => formatPercent(row.par90) },
+  ];
+
+  const agingExportColumns = [
+    { header: 'Days in Arrears', accessorKey: (row: AgingBucketRow) => AGING_BUCKET_LABELS[row.bucket] },
+    { header: 'Loans', accessorKey: 'loans_count' as const },
+    { header: 'Outstanding Principal', accessorKey: (row: AgingBucketRow) => formatCurrency(row.outstanding_principal) },
+    { header: 'Share of Portfolio', accessorKey: (row: AgingBucketRow) => formatPercent(row.share) },
+  ];
+
+  const loanExportColumns = [
+    { header: 'Account', accessorKey: 'account_number' as const },
+    { header: 'Member', accessorKey: (row: LoanArrearsPosition) => row.member_name || '' },
+    { header: 'Branch', accessorKey: (row: LoanArrearsPosition) => row.branch_name || '' },
+    { header: 'Loan Officer', accessorKey: (row: LoanArrearsPosition) => row.loan_officer_name || '' },
+    { header: 'Group', accessorKey: (row: LoanArrearsPosition) => row.group_name || '' },
+    { header: 'Product', accessorKey: (row: LoanArrearsPosition) => row.product_name || row.product_code || '' },
+    { header: 'Outstanding Principal', accessorKey: (row: LoanArrearsPosition) => formatCurrency(row.outstanding_principal) },
+    { header: 'Arrears', accessorKey: (row: LoanArrearsPosition) => formatCurrency(row.arrears_amount) },
+    { header: 'Days in Arrears', accessorKey: 'days_in_arrears' as const },
+    { header: 'Aging Bucket', accessorKey: (row: LoanArrearsPosition) => AGING_BUCKET_LABELS[row.aging_bucket] },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view portfolio reports.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Portfolio at Risk</h1>
+          <p className="text-muted-foreground mt-1">
+            Outstanding principal of loans in arrears, by age. For the loans themselves see <Link to="/daily-overdue" className="underline">Loans Overdue</Link>.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <ExportDropdown
+            data={positions}
+            columns={loanExportColumns}
+            fileName={`par-loans-${today}`}
+            reportTitle="Portfolio at Risk - Loan Detail"
+          />
+          <Button variant="outline" onClick={loadPositions} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-5">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Outstanding Principal</CardDescription>
+            <CardTitle className="text-xl">{formatCurrency(portfolio.outstanding_principal)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">{portfolio.loans_count} open loan(s)</CardContent>
+        </Card>
+        {(['par1', 'par30', 'par60', 'par90'] as const).map(key => (
+          <Card key={key}>
+            <CardHeader className="pb-2">
+              <CardDescription>{TREND_CHART_CONFIG[key].label}</CardDescription>
+              <CardTitle className="text-xl">{formatPercent(portfolio[key])}</CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-muted-foreground">
+              {formatCurrency(portfolio[`${key}_amount`])} at risk
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Aging Analysis
+            </CardTitle>
+            <CardDescription>Outstanding principal by days since the oldest unpaid installment fell due.</CardDescription>
+          </div>
+          <ExportDropdown
+            data={aging}
+            columns={agingExportColumns}
+            fileName={`par-aging-${today}`}
+            reportTitle="Portfolio Aging Analysis"
+          />
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {aging.map(row => (
+                <div key={row.bucket} className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{AGING_BUCKET_LABELS[row.bucket]}</span>
+                    <span className="text-muted-foreground">
+                      {row.loans_count} loan(s) · {formatCurrency(row.outstanding_principal)} · {formatPercent(row.share)}
+                    </span>
+                  </div>
+                  <Progress value={row.share} className="h-2" />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <PieChart className="h-5 w-5" />
+              PAR by {PAR_DIMENSION_LABELS[dimension]}
+            </CardTitle>
+            <CardDescription>PAR30 above 5% is highlighted.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={dimension} onValueChange={(value) => setDimension(value as ParDimension)}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PAR_DIMENSION_LABELS) as ParDimension[]).map(key => (
+                  <SelectItem key={key} value={key}>{PAR_DIMENSION_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ExportDropdown
+              data={breakdown}
+              columns={breakdownExportColumns}
+              fileName={`par-by-${dimension}-${today}`}
+              reportTitle={`Portfolio at Risk by ${PAR_DIMENSION_LABELS[dimension]}`}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <DataTable columns={breakdownColumns} data={breakdown} emptyStateMessage="No open loans in your portfolio." />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              PAR Trend
+            </CardTitle>
+            <CardDescription>From the nightly portfolio snapshots.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={trendDays} onValueChange={setTrendDays}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="180">Last 6 months</SelectItem>
+                <SelectItem value="365">Last 12 months</SelectItem>
+              </SelectContent>
+            </Select>
+            {canCapture && (
+              <Button variant="outline" onClick={handleCapture} disabled={isCapturing}>
+                {isCapturing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+                Capture Snapshot
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {trendLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : trend.length === 0 ? (
+            <p className="text-center text-muted-foreground py-10">
+              No snapshots yet. They are taken every night at midnight.
+            </p>
+          ) : (
+            <ChartContainer config={TREND_CHART_CONFIG} className="h-72 w-full">
+              <LineChart data={trend} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="snapshot_date"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: string) => new Date(value).toLocaleDateString('en-KE', { day: '2-digit', month: 'short' })}
+                />
+                <YAxis tickLine={false} axisLine={false} tickFormatter={(value: number) => `${value}%`} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {(['par1', 'par30', 'par60', 'par90'] as const).map(key => (
+                  <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PortfolioAtRisk;
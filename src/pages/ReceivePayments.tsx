@@ -50,7 +50,7 @@ interface BulkPaymentData {
 }
 
 const ReceivePayments: React.FC = () => {
-  const { user, userRole, profile } = useAuth();
+  const { user, userRole } = useAuth();
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [selectedLoans, setSelectedLoans] = useState<string[]>([]);
@@ -98,17 +98,12 @@ const ReceivePayments: React.FC = () => {
     try {
       setLoading(true);
       
-      // Build loan query based on role
+      // Build loan query based on role; RLS limits every query to the user's branches
       let loansQuery = supabase.from('loans').select('*');
       
-      // Apply role-based filtering at query level
       if (userRole === 'loan_officer') {
         // Loan officers can only see loans assigned to them or created by them
         loansQuery = loansQuery.or(`loan_officer_id.eq.${user?.id},created_by.eq.${user?.id}`);
-      } else if (userRole === 'branch_admin' && profile?.branch_id) {
-        // Branch admins see loans from their branch (need to filter after fetching members)
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor - see only their branch loans
       }
       
       const { data: loansData, error: loansError } = await loansQuery.limit(50);
@@ -137,26 +132,8 @@ const ReceivePayments: React.FC = () => {
           .limit(100);
         if (error) throw error;
         groupsData = data || [];
-      } else if (userRole === 'branch_admin' && profile?.branch_id) {
-        // Branch admins can only see groups from their branch
-        const { data, error } = await supabase
-          .from('groups')
-          .select('*')
-          .eq('branch_id', profile.branch_id)
-          .limit(100);
-        if (error) throw error;
-        groupsData = data || [];
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor - see only their branch groups
-        const { data, error } = await supabase
-          .from('groups')
-          .select('*')
-          .eq('branch_id', profile.branch_id)
-          .limit(100);
-        if (error) throw error;
-        groupsData = data || [];
       } else {
-        // Super admins see all groups
+        // Everyone else sees the groups of their branches
         const { data, error } = await supabase
           .from('groups')
           .select('*')
@@ -191,7 +168,7 @@ const ReceivePayments: React.FC = () => {
       }
 
       // Format loans data
-      let formattedLoans = loansData?.map(loan => {
+      const formattedLoans = loansData?.map(loan => {
         const memberId = loan.member_id;
         const member = membersData?.find(m => m.id === memberId);
         const group = groupsData?.find(g => g.id === member?.group_id);
@@ -244,14 +221,6 @@ const ReceivePayments: React.FC = () => {
         };
       }) || [];
 
-      // Apply additional role-based filtering for branch admins and other roles
-      if (userRole === 'branch_admin' && profile?.branch_id) {
-        formattedLoans = formattedLoans.filter(loan => loan.member_branch_id === profile.branch_id);
-      } else if (userRole !== 'super_admin' && profile?.branch_id) {
-        // Teller/Auditor
-        formattedLoans = formattedLoans.filter(loan => loan.member_branch_id === profile.branch_id);
-      }
-
       setLoans(formattedLoans);
       setMembers(membersData || []);
       setGroups(groupsData || []);
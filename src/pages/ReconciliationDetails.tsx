@@ -0,0 +1,270 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, CheckCircle2, Loader2, Lock, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ReconciliationMatchStatus, StatementReconciliation, StatementReconciliationLine } from '@/types';
+import { ReconciliationLinesTable } from '@/components/reconciliation/ReconciliationLinesTable';
+import { ReconciliationAdjustmentDialog } from '@/components/reconciliation/ReconciliationAdjustmentDialog';
+import {
+  MATCH_STATUS_LABELS,
+  STATEMENT_SOURCE_LABELS,
+  closeReconciliation,
+  fetchReconciliation,
+  ignoreReconciliationLine,
+} from '@/utils/reconciliation';
+
+type LineFilter = 'exceptions' | 'unresolved' | 'all' | ReconciliationMatchStatus;
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const ReconciliationDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { userRole } = useAuth();
+  const [reconciliation, setReconciliation] = useState<StatementReconciliation | null>(null);
+  const [lines, setLines] = useState<StatementReconciliationLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<LineFilter>('unresolved');
+  const [adjustingLine, setAdjustingLine] = useState<StatementReconciliationLine | null>(null);
+  const [ignoringLine, setIgnoringLine] = useState<StatementReconciliationLine | null>(null);
+  const [ignoreNote, setIgnoreNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canResolve = (userRole === 'super_admin' || userRole === 'admin') && reconciliation?.status === 'open';
+
+  const loadReconciliation = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    try {
+      const data = await fetchReconciliation(id);
+      setReconciliation(data.reconciliation);
+      setLines(data.lines);
+    } catch (error: any) {
+      toast.error('Failed to load reconciliation', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (canView) {
+      loadReconciliation();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadReconciliation]);
+
+  const handleIgnore = async () => {
+    if (!ignoringLine || !ignoreNote.trim()) {
+      toast.warning('Please explain why this line needs no adjustment.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await ignoreReconciliationLine(ignoringLine.id, ignoreNote.trim());
+      toast.success('Line marked as resolved.');
+      setIgnoringLine(null);
+      setIgnoreNote('');
+      await loadReconciliation();
+    } catch (error: any) {
+      toast.error('Failed to resolve line', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!reconciliation) return;
+    setIsSubmitting(true);
+    try {
+      await closeReconciliation(reconciliation.id);
+      toast.success('Reconciliation closed.');
+      await loadReconciliation();
+    } catch (error: any) {
+      toast.error('Failed to close reconciliation', { description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const unresolved = lines.filter(l => l.match_status !== 'matched' && !l.resolution);
+  const filteredLines = lines.filter(line => {
+    if (filter === 'all') return true;
+    if (filter === 'exceptions') return line.match_status !== 'matched';
+    if (filter === 'unresolved') return line.match_status !== 'matched' && !line.resolution;
+    return line.match_status === filter;
+  });
+
+  const renderActions = (line: StatementReconciliationLine) => {
+    if (line.resolution) {
+      return (
+        <div className="text-right">
+          <Badge variant="outline" className="capitalize">{line.resolution}</Badge>
+          {line.resolution_note && <div className="text-xs text-muted-foreground max-w-xs ml-auto">{line.resolution_note}</div>}
+          {line.adjustment_transaction_id && (
+            <Link to={`/transactions/${line.adjustment_transaction_id}`} className="text-xs hover:underline">View transaction</Link>
+          )}
+        </div>
+      );
+    }
+    if (line.match_status === 'matched' || !canResolve) return null;
+    return (
+      <div className="flex justify-end gap-2">
+        {line.match_status !== 'duplicate' && (
+          <Button size="sm" onClick={() => setAdjustingLine(line)}>Adjust</Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => { setIgnoringLine(line); setIgnoreNote(''); }}>Ignore</Button>
+      </div>
+    );
+  };
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view statement reconciliations.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!reconciliation) {
+    return <div className="p-6 text-center text-muted-foreground">Reconciliation not found.</div>;
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <Button asChild variant="ghost" size="sm" className="mb-2 -ml-2">
+              <Link to="/reconciliation"><ArrowLeft className="mr-2 h-4 w-4" />All reconciliations</Link>
+            </Button>
+            <h1 className="text-3xl font-bold text-foreground">{reconciliation.file_name}</h1>
+            <p className="text-muted-foreground mt-1">
+              {STATEMENT_SOURCE_LABELS[reconciliation.source]} · {new Date(reconciliation.period_start).toLocaleDateString()} - {new Date(reconciliation.period_end).toLocaleDateString()} · ±{reconciliation.date_tolerance_days} day(s)
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant={reconciliation.status === 'open' ? 'secondary' : 'default'} className="capitalize">
+              {reconciliation.status}
+            </Badge>
+            {canResolve && (
+              <Button onClick={handleClose} disabled={isSubmitting || unresolved.length > 0} title={unresolved.length > 0 ? 'Resolve every exception first' : undefined}>
+                <Lock className="mr-2 h-4 w-4" />
+                Close Reconciliation
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <SummaryTile title="Statement total" value={formatCurrency(reconciliation.statement_total)} />
+          <SummaryTile title="Matched" value={reconciliation.matched_count} />
+          <SummaryTile title="Mismatched" value={reconciliation.mismatched_count} highlight={reconciliation.mismatched_count > 0} />
+          <SummaryTile title="Missing in system" value={reconciliation.missing_count} highlight={reconciliation.missing_count > 0} />
+          <SummaryTile title="Duplicates" value={reconciliation.duplicate_count} highlight={reconciliation.duplicate_count > 0} />
+          <SummaryTile title="Not on statement" value={reconciliation.not_in_statement_count} highlight={reconciliation.not_in_statement_count > 0} />
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+            <div>
+              <CardTitle>Lines</CardTitle>
+              <CardDescription>
+                {unresolved.length === 0 ? (
+                  <span className="inline-flex items-center gap-1"><CheckCircle2 className="h-4 w-4 text-green-600" />All exceptions resolved</span>
+                ) : `${unresolved.length} exception(s) still to resolve`}
+              </CardDescription>
+            </div>
+            <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+              <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unresolved">Unresolved</SelectItem>
+                <SelectItem value="exceptions">All exceptions</SelectItem>
+                <SelectItem value="all">All lines</SelectItem>
+                {(Object.keys(MATCH_STATUS_LABELS) as ReconciliationMatchStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{MATCH_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <ReconciliationLinesTable lines={filteredLines} renderActions={renderActions} emptyStateMessage="No lines match this filter." />
+          </CardContent>
+        </Card>
+      </div>
+
+      <ReconciliationAdjustmentDialog
+        line={adjustingLine}
+        onClose={() => setAdjustingLine(null)}
+        onPosted={() => { setAdjustingLine(null); loadReconciliation(); }}
+      />
+
+      <Dialog open={!!ignoringLine} onOpenChange={(open) => { if (!open) setIgnoringLine(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ignore Line</DialogTitle>
+            <DialogDescription>
+              The difference is accepted without posting an adjustment. The note is kept in the audit trail.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="ignore-note">Note</Label>
+            <Textarea
+              id="ignore-note"
+              value={ignoreNote}
+              onChange={(e) => setIgnoreNote(e.target.value)}
+              placeholder="e.g. Bank listed the same deposit twice"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIgnoringLine(null)}>Cancel</Button>
+            <Button onClick={handleIgnore} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Ignore Line
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+type SummaryTileProps = {
+  title: string;
+  value: string | number;
+  highlight?: boolean;
+};
+
+const SummaryTile: React.FC<SummaryTileProps> = ({ title, value, highlight }) => (
+  <Card>
+    <CardContent className="p-4">
+      <p className="text-xs text-muted-foreground">{title}</p>
+      <p className={`text-xl font-bold ${highlight ? 'text-destructive' : ''}`}>{value}</p>
+    </CardContent>
+  </Card>
+);
+
+export default ReconciliationDetails;
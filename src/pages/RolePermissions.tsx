@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PermissionsForm } from '@/components/users/PermissionsForm';
+import { Loader2, RefreshCw, Save, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { PERMISSIONS, TEMPLATE_ROLES, TEMPLATE_ROLE_LABELS, type Permission, type TemplateRole } from '@/config/permissions';
+import { fetchRolePermissions, resetRolePermissions, saveRolePermissions } from '@/utils/permissions';
+
+const RolePermissions: React.FC = () => {
+  const { userRole, refreshPermissions } = useAuth();
+  const [templates, setTemplates] = useState<Record<string, Permission[]>>({});
+  const [draft, setDraft] = useState<Record<string, Permission[]>>({});
+  const [activeRole, setActiveRole] = useState<TemplateRole>('branch_admin');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [resetTarget, setResetTarget] = useState<TemplateRole | null>(null);
+
+  // Only a super admin may change what administrators themselves can do
+  const canEditRole = (role: TemplateRole) => role !== 'admin' || userRole === 'super_admin';
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const rows = await fetchRolePermissions();
+      setTemplates(rows);
+      setDraft(rows);
+    } catch (error: any) {
+      toast.error('Failed to load role permissions', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const selected = draft[activeRole] || [];
+  const hasChanges = [...selected].sort().join(',') !== [...(templates[activeRole] || [])].sort().join(',');
+
+  const handleChange = (permission: Permission, checked: boolean) => {
+    setDraft(prev => {
+      const current = prev[activeRole] || [];
+      return {
+        ...prev,
+        [activeRole]: checked ? [...current, permission] : current.filter(p => p !== permission),
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      await saveRolePermissions(activeRole, selected);
+      toast.success(`${TEMPLATE_ROLE_LABELS[activeRole]} permissions saved`, {
+        description: 'Users in this role pick up the change at their next sign-in.',
+      });
+      await Promise.all([loadTemplates(), refreshPermissions()]);
+    } catch (error: any) {
+      toast.error('Failed to save role permissions', { description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!resetTarget) return;
+    setBusy(true);
+    try {
+      await resetRolePermissions(resetTarget);
+      toast.success(`${TEMPLATE_ROLE_LABELS[resetTarget]} permissions reset to defaults`);
+      setResetTarget(null);
+      await Promise.all([loadTemplates(), refreshPermissions()]);
+    } catch (error: any) {
+      toast.error('Failed to reset role permissions', { description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Roles & Permissions</h1>
+            <p className="text-muted-foreground mt-1">
+              What each role can do. Individual users can be given extra permissions from their user record; Super Admins always have every permission.
+            </p>
+          </div>
+          <Button variant="outline" onClick={loadTemplates} disabled={loading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Tabs value={activeRole} onValueChange={(value) => setActiveRole(value as TemplateRole)}>
+          <TabsList className="flex-wrap h-auto">
+            {TEMPLATE_ROLES.map(role => (
+              <TabsTrigger key={role} value={role}>{TEMPLATE_ROLE_LABELS[role]}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          {TEMPLATE_ROLES.map(role => (
+            <TabsContent key={role} value={role}>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+                  <div>
+                    <CardTitle>{TEMPLATE_ROLE_LABELS[role]}</CardTitle>
+                    <CardDescription>
+                      {(draft[role] || []).length} of {Object.keys(PERMISSIONS).length} permissions
+                      {!canEditRole(role) && ' · only a Super Admin can change this template'}
+                    </CardDescription>
+                  </div>
+                  {canEditRole(role) && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" onClick={() => setResetTarget(role)} disabled={busy}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Reset to Defaults
+                      </Button>
+                      <Button onClick={handleSave} disabled={busy || !hasChanges}>
+                        {busy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save
+                      </Button>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="flex justify-center items-center h-40">
+                      <Loader2 className="h-8 w-8 animate-spin" />
+                    </div>
+                  ) : (
+                    <PermissionsForm
+                      selectedPermissions={draft[role] || []}
+                      onChange={handleChange}
+                      disabled={busy || !canEditRole(role)}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+
+      <Dialog open={!!resetTarget} onOpenChange={(open) => { if (!open) setResetTarget(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset {resetTarget && TEMPLATE_ROLE_LABELS[resetTarget]} permissions?</DialogTitle>
+            <DialogDescription>
+              The role goes back to the permissions it shipped with. Customisations to this role are lost; grants made to individual users are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetTarget(null)} disabled={busy}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReset} disabled={busy}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reset
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RolePermissions;
@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Loader2, ShieldAlert, RefreshCw, Mail, Plus, Send, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { EmailMessage, EmailStatus, ReportSubscription, ScheduledReportFormat, ScheduledReportType } from '@/types';
+import {
+  EMAIL_STATUS_LABELS,
+  REPORT_FORMAT_LABELS,
+  REPORT_ROLES,
+  REPORT_TYPE_LABELS,
+  deleteReportSubscription,
+  fetchEmailMessages,
+  fetchReportSubscriptions,
+  sendReportNow,
+  setReportSubscriptionActive,
+  subscribeToReport,
+} from '@/utils/email';
+
+const STATUS_VARIANTS: Record<EmailStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  sending: 'outline',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+const ALL_BRANCHES = 'all';
+
+const ScheduledReports: React.FC = () => {
+  const { user, userRole } = useAuth();
+  const [subscriptions, setSubscriptions] = useState<ReportSubscription[]>([]);
+  const [emails, setEmails] = useState<EmailMessage[]>([]);
+  const [branches, setBranches] = useState<{ id: number; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const availableReports = (Object.keys(REPORT_ROLES) as ScheduledReportType[])
+    .filter(type => REPORT_ROLES[type].includes(userRole || ''));
+  const [reportType, setReportType] = useState<ScheduledReportType | ''>('');
+  const [format, setFormat] = useState<ScheduledReportFormat>('pdf');
+  const [branchId, setBranchId] = useState<string>(ALL_BRANCHES);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+
+  const canView = availableReports.length > 0;
+  const isAdmin = userRole === 'super_admin' || userRole === 'admin';
+  const canViewEmailLog = isAdmin || userRole === 'auditor';
+  // Branch and loan officer subscriptions always cover their own branch
+  const canChooseBranch = ['super_admin', 'admin', 'auditor'].includes(userRole || '');
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [subs, branchRows, emailRows] = await Promise.all([
+        fetchReportSubscriptions(),
+        supabase.from('branches').select('id, name').order('name'),
+        canViewEmailLog ? fetchEmailMessages() : Promise.resolve([] as EmailMessage[]),
+      ]);
+      if (branchRows.error) throw branchRows.error;
+      setSubscriptions(subs);
+      setBranches(branchRows.data || []);
+      setEmails(emailRows);
+    } catch (error: any) {
+      toast.error('Failed to load scheduled reports', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [canViewEmailLog]);
+
+  useEffect(() => {
+    if (canView) {
+      loadData();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadData]);
+
+  const handleSubscribe = async () => {
+    if (!reportType) {
+      toast.warning('Choose a report to subscribe to.');
+      return;
+    }
+    setIsSubscribing(true);
+    try {
+      await subscribeToReport(reportType, format, canChooseBranch && branchId !== ALL_BRANCHES ? Number(branchId) : null);
+      toast.success(`Subscribed to ${REPORT_TYPE_LABELS[reportType]}.`);
+      setReportType('');
+      await loadData();
+    } catch (error: any) {
+      toast.error('Failed to subscribe', { description: error.message });
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const handleToggle = async (subscription: ReportSubscription, isActive: boolean) => {
+    setBusyId(subscription.id);
+    try {
+      await setReportSubscriptionActive(subscription.id, isActive);
+      setSubscriptions(prev => prev.map(s => s.id === subscription.id ? { ...s, is_active: isActive } : s));
+    } catch (error: any) {
+      toast.error('Failed to update subscription', { description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendNow = async (subscription: ReportSubscription) => {
+    setBusyId(subscription.id);
+    try {
+      await sendReportNow(subscription.id);
+      toast.success(`${REPORT_TYPE_LABELS[subscription.report_type]} sent to ${subscription.user_name}.`);
+      await loadData();
+    } catch (error: any) {
+      toast.error('Failed to send report', { description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (subscription: ReportSubscription) => {
+    setBusyId(subscription.id);
+    try {
+      await deleteReportSubscription(subscription.id);
+      toast.success('Subscription removed.');
+      setSubscriptions(prev => prev.filter(s => s.id !== subscription.id));
+    } catch (error: any) {
+      toast.error('Failed to remove subscription', { description: error.message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const subscriptionColumns = [
+    ...(isAdmin ? [{
+      header: 'Recipient',
+      cell: (row: ReportSubscription) => (
+        <span className={row.user_id === user?.id ? 'font-medium' : ''}>{row.user_name}</span>
+      )
+    }] : []),
+    {
+      header: 'Report',
+      cell: (row: ReportSubscription) => REPORT_TYPE_LABELS[row.report_type]
+    },
+    {
+      header: 'Format',
+      cell: (row: ReportSubscription) => <Badge variant="outline">{REPORT_FORMAT_LABELS[row.format]}</Badge>
+    },
+    {
+      header: 'Branch',
+      cell: (row: ReportSubscription) => row.branch_name || 'All branches'
+    },
+    {
+      header: 'Last Sent',
+      cell: (row: ReportSubscription) => row.last_queued_for ? new Date(row.last_queued_for).toLocaleDateString() : 'Not yet'
+    },
+    {
+      header: 'Active',
+      cell: (row: ReportSubscription) => (
+        <Switch checked={row.is_active} disabled={busyId === row.id} onCheckedChange={(checked) => handleToggle(row, checked)} />
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: ReportSubscription) => (
+        <div className="flex justify-end items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleSendNow(row)} disabled={busyId === row.id}>
+            {busyId === row.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+            Send Now
+          </Button>
+          <Button variant="ghost" size="icon" title="Remove" onClick={() => handleDelete(row)} disabled={busyId === row.id}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    },
+  ];
+
+  const emailColumns = [
+    {
+      header: 'Queued',
+      cell: (row: EmailMessage) => new Date(row.created_at).toLocaleString()
+    },
+    {
+      header: 'Recipient',
+      cell: (row: EmailMessage) => (
+        <div>
+          <div className="font-medium">{row.recipient_name || row.recipient_email}</div>
+          <div className="text-xs text-muted-foreground">{row.recipient_email}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Subject',
+      cell: (row: EmailMessage) => <span className="text-sm">{row.subject}</span>
+    },
+    {
+      header: 'Status',
+      cell: (row: EmailMessage) => (
+        <div className="space-y-1">
+          <Badge variant={STATUS_VARIANTS[row.status]}>{EMAIL_STATUS_LABELS[row.status]}</Badge>
+          {row.last_error && row.status !== 'sent' && (
+            <div className="text-xs text-muted-foreground max-w-xs">{row.last_error}</div>
+          )}
+        </div>
+      )
+    },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to subscribe to reports.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Scheduled Reports</h1>
+          <p className="text-muted-foreground mt-1">
+            Reports emailed to you every morning, as a PDF or CSV attachment.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadData} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            New Subscription
+          </CardTitle>
+          <CardDescription>Reports go to {user?.email || 'your email address'}.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Report</Label>
+              <Select value={reportType} onValueChange={(value) => setReportType(value as ScheduledReportType)}>
+                <SelectTrigger><SelectValue placeholder="Choose a report" /></SelectTrigger>
+                <SelectContent>
+                  {availableReports.map(type => (
+                    <SelectItem key={type} value={type}>{REPORT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ScheduledReportFormat)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REPORT_FORMAT_LABELS) as ScheduledReportFormat[]).map(f => (
+                    <SelectItem key={f} value={f}>{REPORT_FORMAT_LABELS[f]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Branch</Label>
+              <Select value={canChooseBranch ? branchId : ALL_BRANCHES} onValueChange={setBranchId} disabled={!canChooseBranch}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_BRANCHES}>{canChooseBranch ? 'All branches' : 'My branch'}</SelectItem>
+                  {branches.map(branch => (
+                    <SelectItem key={branch.id} value={String(branch.id)}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSubscribe} disabled={isSubscribing || !reportType}>
+              {isSubscribing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Subscribe
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{isAdmin ? 'All Subscriptions' : 'My Subscriptions'}</CardTitle>
+          <CardDescription>The overdue report goes out daily; the collections summary on Mondays, covering the previous week.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <DataTable columns={subscriptionColumns} data={subscriptions} emptyStateMessage="No report subscriptions yet." />
+          )}
+        </CardContent>
+      </Card>
+
+      {canViewEmailLog && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Email Log
+            </CardTitle>
+            <CardDescription>The latest 100 emails: alerts, member notices and reports.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center items-center h-40">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <DataTable columns={emailColumns} data={emails} emptyStateMessage="No emails yet." />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledReports;
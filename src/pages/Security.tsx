@@ -78,6 +78,16 @@ const Security: React.FC = () => {
                 </div>
                 <Link to="/security/mfa"><Button variant="secondary" className="w-full sm:w-auto">Open MFA Settings</Button></Link>
               </div>
+
+              {(userRole === 'super_admin' || userRole === 'admin') && (
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 border rounded-lg mt-4">
+                  <div className="space-y-2">
+                    <p className="font-medium text-sm sm:text-base">MFA Enrolment</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground">See which users the MFA policy applies to and who has not enrolled.</p>
+                  </div>
+                  <Link to="/security/mfa-enrollment"><Button variant="secondary" className="w-full sm:w-auto">View Report</Button></Link>
+                </div>
+              )}
             </CardContent>
           </Card>
 
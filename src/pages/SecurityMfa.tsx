@@ -5,11 +5,15 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 import { Link } from 'react-router-dom';
+import type { MfaSessionStatus } from '@/types';
+import { fetchMfaSessionStatus, generateRecoveryCodes } from '@/utils/mfa';
 
 const SecurityMfa: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [hasTotp, setHasTotp] = useState(false);
   const [factors, setFactors] = useState<any[]>([]);
+  const [status, setStatus] = useState<MfaSessionStatus | null>(null);
+  const [newCodes, setNewCodes] = useState<string[]>([]);
 
   const refreshFactors = async () => {
     setLoading(true);
@@ -19,6 +23,7 @@ const SecurityMfa: React.FC = () => {
       const totps = data?.totp || [];
       setFactors(totps);
       setHasTotp(totps.some((f: any) => ['verified', 'enrolled'].includes(f.status)));
+      setStatus(await fetchMfaSessionStatus());
     } catch (e: any) {
       toast.error('Failed to load MFA status', { description: e.message });
     } finally {
@@ -44,6 +49,19 @@ const SecurityMfa: React.FC = () => {
     }
   };
 
+  const regenerateCodes = async () => {
+    setLoading(true);
+    try {
+      setNewCodes(await generateRecoveryCodes());
+      toast.success('New recovery codes created', { description: 'Your previous codes no longer work.' });
+      await refreshFactors();
+    } catch (e: any) {
+      toast.error('Failed to create recovery codes', { description: e.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="p-4 max-w-2xl mx-auto">
       <Card>
@@ -58,12 +76,43 @@ const SecurityMfa: React.FC = () => {
               <div className="text-sm text-muted-foreground">Status: {hasTotp ? 'Enabled' : 'Not enabled'}</div>
             </div>
             {hasTotp ? (
-              <Button variant="destructive" disabled={loading} onClick={() => factors[0]?.id && disableTotp(factors[0].id)}>Disable</Button>
+              <Button variant="destructive" disabled={loading || status?.required} onClick={() => factors[0]?.id && disableTotp(factors[0].id)}>Disable</Button>
             ) : (
               <Link to="/mfa/enroll"><Button disabled={loading}>Enable</Button></Link>
             )}
           </div>
 
+          {status?.required && hasTotp && (
+            <div className="text-sm p-3 rounded border bg-muted/30">
+              The security policy requires MFA for your role, so your authenticator cannot be disabled.
+            </div>
+          )}
+
+          {hasTotp && (
+            <div className="p-3 border rounded space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">Recovery Codes</div>
+                  <div className="text-sm text-muted-foreground">{status?.recovery_codes_remaining ?? 0} unused of 10</div>
+                </div>
+                <Button variant="outline" disabled={loading || status?.current_aal !== 'aal2'} onClick={regenerateCodes}>Create New Codes</Button>
+              </div>
+              {status?.current_aal !== 'aal2' && (
+                <div className="text-xs text-muted-foreground">Verify with your authenticator in this session to create new codes.</div>
+              )}
+              {newCodes.length > 0 && (
+                <div>
+                  <ul className="text-xs grid grid-cols-2 gap-2">
+                    {newCodes.map((c) => (
+                      <li key={c} className="font-mono p-1 border rounded">{c}</li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-muted-foreground mt-2">Store these somewhere safe. They will not be shown again.</p>
+                </div>
+              )}
+            </div>
+          )}
+
           <Separator />
 
           <div className="text-sm text-muted-foreground">
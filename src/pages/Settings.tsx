@@ -7,9 +7,14 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Settings as SettingsIcon, Save, AlertCircle, ShieldAlert, Loader2, AlertTriangle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import type { EarlySettlementRebatePolicy, MfaPolicyRole, SmsProviderName } from '@/types';
+import { REBATE_POLICY_LABELS } from '@/utils/settlement';
+import { SMS_PROVIDER_LABELS } from '@/utils/sms';
+import { MFA_POLICY_ROLES, MFA_POLICY_ROLE_LABELS } from '@/utils/mfa';
 
 // --- Type Definition ---
 // This matches the structure of our new database table
@@ -25,6 +30,21 @@ interface SystemSettings {
   auto_calculate_interest: boolean;
   email_notifications: boolean;
   sms_notifications: boolean;
+  sms_provider: SmsProviderName;
+  sms_sender_id: string | null;
+  sms_reminder_days: number;
+  auto_accrue_penalties: boolean;
+  net_processing_fee_on_disbursement: boolean;
+  early_settlement_rebate_policy: EarlySettlementRebatePolicy;
+  early_settlement_rebate_percent: number;
+  group_arrears_days: number;
+  group_max_defaulters: number;
+  savings_minimum_balance: number;
+  savings_interest_rate: number;
+  savings_lien_percent: number;
+  auto_credit_savings_interest: boolean;
+  large_expense_threshold: number;
+  mfa_required_roles: MfaPolicyRole[];
   backup_frequency: string;
 }
 
@@ -47,8 +67,10 @@ const Settings: React.FC = () => {
       if (error) throw error;
       
       if (data) {
-        setSettings(data);
-        setInitialSettings(data); // Store the original state
+        // The text columns hold the values the selects below allow
+        const loaded = data as SystemSettings;
+        setSettings(loaded);
+        setInitialSettings(loaded); // Store the original state
       }
     } catch (error: any) {
       toast.error('Failed to load system settings', { description: error.message });
@@ -88,6 +110,11 @@ const Settings: React.FC = () => {
     setSettings(prev => ({ ...prev, [field]: value }));
   };
 
+  const toggleMfaRole = (role: MfaPolicyRole, required: boolean) => {
+    const current = settings.mfa_required_roles || [];
+    handleInputChange('mfa_required_roles', required ? [...current, role] : current.filter(r => r !== role));
+  };
+
   // Check if there are any unsaved changes
   const hasChanges = JSON.stringify(settings) !== JSON.stringify(initialSettings);
 
@@ -142,17 +169,94 @@ const Settings: React.FC = () => {
               <FormField label="Default Loan Term (Months)"><Input type="number" value={settings.loan_term_months || 0} onChange={(e) => handleInputChange('loan_term_months', parseInt(e.target.value))} /></FormField>
               <FormField label="Minimum Loan Amount (KES)"><Input type="number" value={settings.min_loan_amount || 0} onChange={(e) => handleInputChange('min_loan_amount', parseInt(e.target.value))} /></FormField>
               <FormField label="Maximum Loan Amount (KES)"><Input type="number" value={settings.max_loan_amount || 0} onChange={(e) => handleInputChange('max_loan_amount', parseInt(e.target.value))} /></FormField>
+              <FormField label="Early Settlement Rebate">
+                <Select value={settings.early_settlement_rebate_policy || 'pro_rata'} onValueChange={(value) => handleInputChange('early_settlement_rebate_policy', value)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REBATE_POLICY_LABELS) as EarlySettlementRebatePolicy[]).map(policy => (
+                      <SelectItem key={policy} value={policy}>{REBATE_POLICY_LABELS[policy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormField>
+              <FormField label="Rebate Share of Unearned Interest (%)"><Input type="number" min="0" max="100" value={settings.early_settlement_rebate_percent ?? 100} onChange={(e) => handleInputChange('early_settlement_rebate_percent', parseFloat(e.target.value))} /></FormField>
+              <FormField label="Group Default After (Days Overdue)"><Input type="number" min="0" value={settings.group_arrears_days ?? 30} onChange={(e) => handleInputChange('group_arrears_days', parseInt(e.target.value))} /></FormField>
+              <FormField label="Defaulters Allowed Before Group Is Blocked"><Input type="number" min="0" value={settings.group_max_defaulters ?? 0} onChange={(e) => handleInputChange('group_max_defaulters', parseInt(e.target.value))} /></FormField>
             </div>
           </CardContent>
         </Card>
 
+        {/* Savings */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Savings</CardTitle>
+            <CardDescription>Defaults for new savings accounts and the lien held against open loans</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <FormField label="Minimum Balance (KES)"><Input type="number" min="0" value={settings.savings_minimum_balance ?? 0} onChange={(e) => handleInputChange('savings_minimum_balance', parseFloat(e.target.value))} /></FormField>
+            <FormField label="Savings Interest Rate (% p.a.)"><Input type="number" step="0.1" min="0" value={settings.savings_interest_rate ?? 0} onChange={(e) => handleInputChange('savings_interest_rate', parseFloat(e.target.value))} /></FormField>
+            <FormField label="Lien on Compulsory Savings (% of Loan Balance)"><Input type="number" min="0" max="100" value={settings.savings_lien_percent ?? 0} onChange={(e) => handleInputChange('savings_lien_percent', parseFloat(e.target.value))} /></FormField>
+          </CardContent>
+        </Card>
+
+        {/* SMS */}
+        <Card>
+          <CardHeader>
+            <CardTitle>SMS Gateway</CardTitle>
+            <CardDescription>How member SMS are sent once SMS notifications are on. Provider credentials are set as edge function secrets.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <FormField label="Provider">
+              <Select value={settings.sms_provider || 'console'} onValueChange={(value) => handleInputChange('sms_provider', value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SMS_PROVIDER_LABELS) as SmsProviderName[]).map(provider => (
+                    <SelectItem key={provider} value={provider}>{SMS_PROVIDER_LABELS[provider]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormField>
+            <FormField label="Sender ID"><Input value={settings.sms_sender_id || ''} placeholder="Provider default" onChange={(e) => handleInputChange('sms_sender_id', e.target.value || null)} /></FormField>
+            <FormField label="Remind Members (Days Before Due)"><Input type="number" min="0" max="14" value={settings.sms_reminder_days ?? 2} onChange={(e) => handleInputChange('sms_reminder_days', parseInt(e.target.value))} /></FormField>
+          </CardContent>
+        </Card>
+
+        {/* Multi-Factor Authentication */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Multi-Factor Authentication</CardTitle>
+            <CardDescription>Roles that must sign in with an authenticator app. Users in these roles are asked to enrol at their next sign-in and cannot reach loans, members, payments, expenses or the ledger until they verify.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {MFA_POLICY_ROLES.map(role => (
+              <label key={role} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={(settings.mfa_required_roles || []).includes(role)}
+                  onCheckedChange={(checked) => toggleMfaRole(role, checked === true)}
+                />
+                {MFA_POLICY_ROLE_LABELS[role]}
+              </label>
+            ))}
+          </CardContent>
+        </Card>
+
         {/* Automation & Notifications */}
         <Card>
           <CardHeader><CardTitle>Automation & Notifications</CardTitle></CardHeader>
           <CardContent className="space-y-4">
-            <SwitchField label="Email Notifications" description="Send email notifications for system events" checked={settings.email_notifications || false} onCheckedChange={(checked) => handleInputChange('email_notifications', checked)} />
+            <SwitchField label="Email Notifications" description="Email staff alerts, member receipts and approvals, and scheduled reports from the company email" checked={settings.email_notifications || false} onCheckedChange={(checked) => handleInputChange('email_notifications', checked)} />
+            <Separator />
+            <SwitchField label="SMS Notifications" description="Send installment reminders, missed-payment notices, receipts and loan approvals to members by SMS" checked={settings.sms_notifications || false} onCheckedChange={(checked) => handleInputChange('sms_notifications', checked)} />
+            <Separator />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField label="Alert on Expenses From (KES)"><Input type="number" min="0" value={settings.large_expense_threshold ?? 50000} onChange={(e) => handleInputChange('large_expense_threshold', parseFloat(e.target.value))} /></FormField>
+            </div>
+            <Separator />
+            <SwitchField label="Automatic Penalty Accrual" description="Charge late-payment penalties on overdue installments every night" checked={settings.auto_accrue_penalties ?? true} onCheckedChange={(checked) => handleInputChange('auto_accrue_penalties', checked)} />
+            <Separator />
+            <SwitchField label="Monthly Savings Interest" description="Credit interest to savings accounts on the first of every month" checked={settings.auto_credit_savings_interest ?? true} onCheckedChange={(checked) => handleInputChange('auto_credit_savings_interest', checked)} />
             <Separator />
-            <SwitchField label="SMS Notifications" description="Send SMS notifications to customers" checked={settings.sms_notifications || false} onCheckedChange={(checked) => handleInputChange('sms_notifications', checked)} />
+            <SwitchField label="Deduct Processing Fee at Disbursement" description="Keep the processing fee back from the loan payout instead of collecting it with repayments" checked={settings.net_processing_fee_on_disbursement || false} onCheckedChange={(checked) => handleInputChange('net_processing_fee_on_disbursement', checked)} />
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Loader2, ShieldAlert, RefreshCw, MessageSquare, RotateCcw, Send, CalendarClock, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SmsMessage, SmsStatus, SmsTemplate } from '@/types';
+import {
+  SMS_COMMON_PLACEHOLDERS,
+  SMS_STATUS_LABELS,
+  SMS_TEMPLATE_PLACEHOLDERS,
+  dispatchSmsOutbox,
+  fetchSmsMessages,
+  fetchSmsTemplates,
+  queueSmsReminders,
+  retrySmsMessage,
+  updateSmsTemplate,
+} from '@/utils/sms';
+
+const STATUS_VARIANTS: Record<SmsStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  sending: 'outline',
+  sent: 'default',
+  delivered: 'default',
+  failed: 'destructive',
+  skipped: 'secondary',
+};
+
+const SmsOutbox: React.FC = () => {
+  const { user, userRole } = useAuth();
+  const [messages, setMessages] = useState<SmsMessage[]>([]);
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Pick<SmsTemplate, 'body' | 'is_active'>>>({});
+  const [statusFilter, setStatusFilter] = useState<SmsStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canManage = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadMessages = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMessages(await fetchSmsMessages({ status: statusFilter === 'all' ? undefined : statusFilter }));
+    } catch (error: any) {
+      toast.error('Failed to load SMS messages', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const rows = await fetchSmsTemplates();
+      setTemplates(rows);
+      setDrafts(Object.fromEntries(rows.map(t => [t.code, { body: t.body, is_active: t.is_active }])));
+    } catch (error: any) {
+      toast.error('Failed to load SMS templates', { description: error.message });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canView) {
+      loadMessages();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadMessages]);
+
+  useEffect(() => {
+    if (canView) loadTemplates();
+  }, [canView, loadTemplates]);
+
+  const handleRetry = async (message: SmsMessage) => {
+    setBusyAction(message.id);
+    try {
+      await retrySmsMessage(message.id);
+      toast.success(`Message to ${message.member_name} queued again.`);
+      await loadMessages();
+    } catch (error: any) {
+      toast.error('Retry failed', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleQueueReminders = async () => {
+    setBusyAction('reminders');
+    try {
+      const queued = await queueSmsReminders();
+      toast.success(queued > 0 ? `${queued} reminder(s) queued.` : 'No new reminders to queue.');
+      await loadMessages();
+    } catch (error: any) {
+      toast.error('Failed to queue reminders', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleDispatch = async () => {
+    setBusyAction('dispatch');
+    try {
+      const result = await dispatchSmsOutbox();
+      if (result.skipped) {
+        toast.info(result.skipped);
+      } else {
+        toast.success(`${result.sent} sent, ${result.retrying} to retry, ${result.failed} failed.`);
+      }
+      await loadMessages();
+    } catch (error: any) {
+      toast.error('SMS dispatch failed', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSaveTemplate = async (template: SmsTemplate) => {
+    const draft = drafts[template.code];
+    if (!draft?.body.trim()) {
+      toast.warning('The message text cannot be empty.');
+      return;
+    }
+    setBusyAction(template.code);
+    try {
+      await updateSmsTemplate(template.code, { body: draft.body.trim(), is_active: draft.is_active }, user?.id);
+      toast.success(`${template.name} template saved.`);
+      await loadTemplates();
+    } catch (error: any) {
+      toast.error('Failed to save template', { description: error.message });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const templateName = (code: string) => templates.find(t => t.code === code)?.name || code;
+
+  const columns = [
+    {
+      header: 'Queued',
+      cell: (row: SmsMessage) => (
+        <div>
+          <div>{new Date(row.created_at).toLocaleDateString()}</div>
+          <div className="text-xs text-muted-foreground">{new Date(row.created_at).toLocaleTimeString()}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Member',
+      cell: (row: SmsMessage) => (
+        <div>
+          <Link to={`/members/${row.member_id}`} className="font-medium hover:underline">{row.member_name}</Link>
+          <div className="text-xs text-muted-foreground">{row.phone_number || '-'}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Message',
+      cell: (row: SmsMessage) => (
+        <div className="max-w-md">
+          <div className="text-xs font-medium text-muted-foreground">{templateName(row.template_code)}</div>
+          <div className="text-sm">{row.message}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Status',
+      cell: (row: SmsMessage) => (
+        <div className="space-y-1">
+          <Badge variant={STATUS_VARIANTS[row.status]}>{SMS_STATUS_LABELS[row.status]}</Badge>
+          {row.last_error && row.status !== 'sent' && row.status !== 'delivered' && (
+            <div className="text-xs text-muted-foreground max-w-xs">{row.last_error}</div>
+          )}
+          {row.attempts > 1 && (
+            <div className="text-xs text-muted-foreground">{row.attempts} attempts</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Sent',
+      cell: (row: SmsMessage) => (
+        <div className="text-sm">
+          <div>{row.sent_at ? new Date(row.sent_at).toLocaleString() : '-'}</div>
+          {row.delivered_at && (
+            <div className="text-xs text-muted-foreground">Delivered {new Date(row.delivered_at).toLocaleString()}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Actions',
+      cell: (row: SmsMessage) => (
+        <div className="flex justify-end items-center gap-2">
+          {row.loan_id && (
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/loans/${row.loan_id}`}>View Loan</Link>
+            </Button>
+          )}
+          {row.status === 'failed' && canManage && (
+            <Button variant="outline" size="icon" title="Retry" onClick={() => handleRetry(row)} disabled={busyAction === row.id}>
+              {busyAction === row.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      )
+    },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view SMS messages.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">SMS Outbox</h1>
+          <p className="text-muted-foreground mt-1">
+            Reminders, receipts and approval messages sent to members.
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleQueueReminders} disabled={!!busyAction}>
+              {busyAction === 'reminders' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="mr-2 h-4 w-4" />}
+              Queue Reminders
+            </Button>
+            <Button onClick={handleDispatch} disabled={!!busyAction}>
+              {busyAction === 'dispatch' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Send Now
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="outbox">
+        <TabsList>
+          <TabsTrigger value="outbox">Outbox</TabsTrigger>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="outbox">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  Messages
+                </CardTitle>
+                <CardDescription>The latest 200 messages. Sent messages also appear in the member's communication log.</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SmsStatus | 'all')}>
+                  <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All messages</SelectItem>
+                    {(Object.keys(SMS_STATUS_LABELS) as SmsStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{SMS_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={loadMessages} disabled={loading}>
+                  <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex justify-center items-center h-40">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : (
+                <DataTable columns={columns} data={messages} emptyStateMessage="No SMS messages yet." />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="templates" className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Every template can use {SMS_COMMON_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}.
+            Keep messages under 160 characters to send them as a single SMS.
+          </p>
+          {templates.map(template => {
+            const draft = drafts[template.code] || { body: template.body, is_active: template.is_active };
+            const changed = draft.body !== template.body || draft.is_active !== template.is_active;
+            return (
+              <Card key={template.code}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-lg">{template.name}</CardTitle>
+                    <CardDescription>
+                      Also: {SMS_TEMPLATE_PLACEHOLDERS[template.code].map(p => `{{${p}}}`).join(', ')}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`active-${template.code}`} className="text-sm">Active</Label>
+                    <Switch
+                      id={`active-${template.code}`}
+                      checked={draft.is_active}
+                      disabled={!canManage}
+                      onCheckedChange={(checked) => setDrafts(prev => ({ ...prev, [template.code]: { ...draft, is_active: checked } }))}
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <Textarea
+                    value={draft.body}
+                    rows={3}
+                    disabled={!canManage}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [template.code]: { ...draft, body: e.target.value } }))}
+                  />
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs text-muted-foreground">{draft.body.length} characters before placeholders are filled in</span>
+                    {canManage && (
+                      <Button size="sm" onClick={() => handleSaveTemplate(template)} disabled={!changed || busyAction === template.code}>
+                        {busyAction === template.code ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default SmsOutbox;
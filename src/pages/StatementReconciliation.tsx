@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/ui/data-table';
+import { Loader2, ShieldAlert, RefreshCw, FileSpreadsheet, Play, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  ReconciliationLineResult,
+  StatementColumnMapping,
+  StatementLine,
+  StatementReconciliation as StatementReconciliationRecord,
+  StatementSource,
+} from '@/types';
+import { ReconciliationLinesTable } from '@/components/reconciliation/ReconciliationLinesTable';
+import {
+  STATEMENT_SOURCE_LABELS,
+  detectColumnMapping,
+  fetchReconciliations,
+  fetchSystemPayments,
+  parseStatementCsv,
+  reconcileStatement,
+  saveReconciliation,
+  statementPeriod,
+  summarizeReconciliation,
+  toStatementLines,
+} from '@/utils/reconciliation';
+
+const MAPPING_FIELDS: { key: keyof StatementColumnMapping; label: string; required: boolean }[] = [
+  { key: 'date', label: 'Date column', required: true },
+  { key: 'reference', label: 'Reference column', required: true },
+  { key: 'amount', label: 'Amount received column', required: true },
+  { key: 'description', label: 'Description column', required: false },
+];
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const StatementReconciliation: React.FC = () => {
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+  const [history, setHistory] = useState<StatementReconciliationRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [source, setSource] = useState<StatementSource>('mpesa');
+  const [toleranceDays, setToleranceDays] = useState(2);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<StatementColumnMapping>({ date: '', reference: '', amount: '', description: '' });
+  const [lines, setLines] = useState<StatementLine[]>([]);
+  const [skippedRows, setSkippedRows] = useState(0);
+  const [results, setResults] = useState<ReconciliationLineResult[] | null>(null);
+  const [isMatching, setIsMatching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canReconcile = userRole === 'super_admin' || userRole === 'admin';
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      setHistory(await fetchReconciliations());
+    } catch (error: any) {
+      toast.error('Failed to load reconciliations', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canView) {
+      loadHistory();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadHistory]);
+
+  const handleFileChange = async (file: File | null) => {
+    setResults(null);
+    setLines([]);
+    if (!file) {
+      setFileName('');
+      setHeaders([]);
+      setRows([]);
+      return;
+    }
+    const parsed = parseStatementCsv(await file.text());
+    if (parsed.headers.length === 0) {
+      toast.error('Could not read any columns from this file.');
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(parsed.headers);
+    setRows(parsed.rows);
+    setMapping(detectColumnMapping(parsed.headers));
+  };
+
+  const handleRunMatch = async () => {
+    if (MAPPING_FIELDS.some(field => field.required && !mapping[field.key])) {
+      toast.warning('Choose the date, reference and amount columns first.');
+      return;
+    }
+    const { lines: statementLines, skipped } = toStatementLines(rows, mapping);
+    const period = statementPeriod(statementLines);
+    if (!period) {
+      toast.error('No incoming payments found in the statement', {
+        description: 'Check that the amount column holds money received and the dates are readable.'
+      });
+      return;
+    }
+
+    setIsMatching(true);
+    try {
+      const records = await fetchSystemPayments(period.start, period.end, toleranceDays);
+      setLines(statementLines);
+      setSkippedRows(skipped);
+      setResults(reconcileStatement(statementLines, records, toleranceDays));
+    } catch (error: any) {
+      toast.error('Matching failed', { description: error.message });
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!results) return;
+    setIsSaving(true);
+    try {
+      const id = await saveReconciliation({ source, fileName, toleranceDays, lines, results, userId: user?.id });
+      toast.success('Reconciliation saved.');
+      navigate(`/reconciliation/${id}`);
+    } catch (error: any) {
+      toast.error('Failed to save reconciliation', { description: error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summary = results ? summarizeReconciliation(results) : null;
+  const exceptions = results ? results.filter(r => r.match_status !== 'matched') : [];
+
+  const columns = [
+    {
+      header: 'Statement',
+      cell: (row: StatementReconciliationRecord) => (
+        <div>
+          <Link to={`/reconciliation/${row.id}`} className="font-medium hover:underline">{row.file_name}</Link>
+          <div className="text-xs text-muted-foreground">{STATEMENT_SOURCE_LABELS[row.source]}</div>
+        </div>
+      )
+    },
+    {
+      header: 'Period',
+      cell: (row: StatementReconciliationRecord) =>
+        `${new Date(row.period_start).toLocaleDateString()} - ${new Date(row.period_end).toLocaleDateString()}`
+    },
+    { header: 'Lines', cell: (row: StatementReconciliationRecord) => row.total_lines },
+    { header: 'Total', cell: (row: StatementReconciliationRecord) => formatCurrency(row.statement_total) },
+    {
+      header: 'Exceptions',
+      cell: (row: StatementReconciliationRecord) => {
+        const count = row.mismatched_count + row.missing_count + row.duplicate_count + row.not_in_statement_count;
+        return <Badge variant={count > 0 ? 'destructive' : 'default'}>{count}</Badge>;
+      }
+    },
+    {
+      header: 'Status',
+      cell: (row: StatementReconciliationRecord) => (
+        <Badge variant={row.status === 'open' ? 'secondary' : 'default'} className="capitalize">{row.status}</Badge>
+      )
+    },
+    { header: 'Uploaded', cell: (row: StatementReconciliationRecord) => new Date(row.created_at).toLocaleDateString() },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view statement reconciliations.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-2 sm:p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Statement Reconciliation</h1>
+          <p className="text-muted-foreground mt-1">
+            Match paybill and bank statements against recorded loan payments.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadHistory} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {canReconcile && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              New Reconciliation
+            </CardTitle>
+            <CardDescription>Upload a CSV statement, check the column mapping and run the match.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Statement source</Label>
+                <Select value={source} onValueChange={(value) => setSource(value as StatementSource)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STATEMENT_SOURCE_LABELS) as StatementSource[]).map(key => (
+                      <SelectItem key={key} value={key}>{STATEMENT_SOURCE_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tolerance">Date tolerance (days)</Label>
+                <Input
+                  id="tolerance"
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={toleranceDays}
+                  onChange={(e) => { setToleranceDays(Math.max(0, Number(e.target.value) || 0)); setResults(null); }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statement-file">Statement file (CSV)</Label>
+                <Input id="statement-file" type="file" accept=".csv" onChange={(e) => handleFileChange(e.target.files?.[0] || null)} />
+              </div>
+            </div>
+
+            {headers.length > 0 && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">{fileName}: {rows.length} row(s) read.</p>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {MAPPING_FIELDS.map(field => (
+                    <div key={field.key} className="space-y-2">
+                      <Label>{field.label}{field.required && ' *'}</Label>
+                      <Select
+                        value={mapping[field.key] || '__none__'}
+                        onValueChange={(value) => {
+                          setMapping(prev => ({ ...prev, [field.key]: value === '__none__' ? '' : value }));
+                          setResults(null);
+                        }}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="__none__">Not mapped</SelectItem>
+                          {headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleRunMatch} disabled={isMatching}>
+                    {isMatching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                    Run Match
+                  </Button>
+                  {results && (
+                    <Button variant="outline" onClick={handleSave} disabled={isSaving}>
+                      {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                      Save Reconciliation
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {summary && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="outline">{summary.total_lines} line(s) · {formatCurrency(summary.statement_total)}</Badge>
+                  <Badge>Matched {summary.matched_count}</Badge>
+                  <Badge variant="destructive">Mismatched {summary.mismatched_count}</Badge>
+                  <Badge variant="destructive">Missing in system {summary.missing_count}</Badge>
+                  <Badge variant="secondary">Duplicates {summary.duplicate_count}</Badge>
+                  <Badge variant="outline">Not on statement {summary.not_in_statement_count}</Badge>
+                  {skippedRows > 0 && <Badge variant="outline">{skippedRows} row(s) skipped (withdrawals or unreadable)</Badge>}
+                </div>
+                <ReconciliationLinesTable lines={exceptions} emptyStateMessage="Every statement line matched a recorded payment." />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Past Reconciliations</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <DataTable columns={columns} data={history} emptyStateMessage="No statements have been reconciled yet." />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StatementReconciliation;
@@ -87,7 +87,7 @@ interface TransactionDetails {
 const TransactionDetails: React.FC = () => {
   const { transactionId: paramTransactionId } = useParams<{ transactionId: string }>();
   const location = useLocation();
-  const { user, userRole, profile } = useAuth();
+  const { user, userRole } = useAuth();
   const navigate = useNavigate();
   
   // Get transaction ID from params or URL path
@@ -199,13 +199,7 @@ const TransactionDetails: React.FC = () => {
         return;
       }
 
-      // Check access control
-      if (userRole === 'branch_admin' && profile?.branch_id && data.branch_id !== profile.branch_id) {
-        toast.error('Access denied. You can only view transactions from your branch.');
-        navigate('/transactions');
-        return;
-      }
-
+      // Check access control; other branches' transactions are already hidden by RLS
       if (userRole === 'loan_officer' && loanData.data?.loan_officer_id !== user?.id) {
         toast.error('Access denied. You can only view your own transactions.');
         navigate('/transactions');
@@ -275,7 +269,7 @@ const TransactionDetails: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [finalTransactionId, userRole, profile, navigate]);
+  }, [finalTransactionId, userRole, user?.id, navigate]);
 
   // Get transaction type info
   const getTransactionTypeInfo = (type: string) => {
@@ -113,7 +113,7 @@ const getStatusVariant = (status: string): "default" | "secondary" | "destructiv
 };
 
 const Transactions: React.FC = () => {
-  const { user, userRole, profile } = useAuth();
+  const { user, userRole } = useAuth();
   const navigate = useNavigate();
   
   // State
@@ -152,10 +152,7 @@ const Transactions: React.FC = () => {
         .select('*')
         .order('payment_date', { ascending: false });
 
-      // Apply only basic filters (no relationship filters)
-      if (userRole === 'branch_admin' && profile?.branch_id) {
-        query = query.eq('branch_id', profile.branch_id);
-      }
+      // Branch scope is applied by RLS through each payment's loan
       // Note: loan_officer filtering will be done after getting the data
 
       // Apply basic filters
@@ -190,10 +187,6 @@ const Transactions: React.FC = () => {
         .select('*', { count: 'exact', head: true });
 
       // Apply the same basic filters to count query
-      if (userRole === 'branch_admin' && profile?.branch_id) {
-        countQuery = countQuery.eq('branch_id', profile.branch_id);
-      }
-
       if (filters.transaction_type !== 'all') {
         countQuery = countQuery.eq('transaction_type', filters.transaction_type);
       }
@@ -0,0 +1,576 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DataTable } from '@/components/ui/data-table';
+import { ExportDropdown } from '@/components/ui/ExportDropdown';
+import { Loader2, ShieldAlert, RefreshCw, BookOpen, CheckCircle2, AlertTriangle, Plus, Trash2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { GlAccount, JournalEntry, ManualJournalLine, TrialBalanceRow } from '@/types';
+import {
+  CASH_FLOW_ACTIVITY_LABELS,
+  GL_ACCOUNT_TYPES,
+  GL_ACCOUNT_TYPE_LABELS,
+  JOURNAL_SOURCE_LABELS,
+  createManualJournalEntry,
+  fetchGlAccounts,
+  fetchJournalEntries,
+  fetchTrialBalance,
+  reverseJournalEntry,
+  summarizeTrialBalance,
+} from '@/utils/ledger';
+
+const ALL_BRANCHES = 'all';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES' }).format(amount || 0);
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString('en-KE', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+const monthStart = (): string => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)).toISOString().split('T')[0];
+};
+
+const emptyLine = (): ManualJournalLine => ({ account: '', debit: 0, credit: 0, memo: '' });
+
+const TrialBalance: React.FC = () => {
+  const { userRole } = useAuth();
+  const [asOf, setAsOf] = useState(today());
+  const [branchFilter, setBranchFilter] = useState<string>(ALL_BRANCHES);
+  const [branches, setBranches] = useState<{ id: number; name: string }[]>([]);
+  const [rows, setRows] = useState<TrialBalanceRow[]>([]);
+  const [accounts, setAccounts] = useState<GlAccount[]>([]);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [journalFrom, setJournalFrom] = useState(monthStart());
+  const [journalTo, setJournalTo] = useState(today());
+  const [loading, setLoading] = useState(true);
+  const [journalLoading, setJournalLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [showNewEntry, setShowNewEntry] = useState(false);
+  const [entryDate, setEntryDate] = useState(today());
+  const [entryBranch, setEntryBranch] = useState<string>('');
+  const [entryDescription, setEntryDescription] = useState('');
+  const [entryLines, setEntryLines] = useState<ManualJournalLine[]>([emptyLine(), emptyLine()]);
+  const [reverseTarget, setReverseTarget] = useState<JournalEntry | null>(null);
+  const [reverseReason, setReverseReason] = useState('');
+
+  const canView = ['super_admin', 'admin', 'branch_admin', 'auditor'].includes(userRole || '');
+  const canManage = userRole === 'super_admin' || userRole === 'admin';
+  // Branch administrators only ever see the books of the branches they are assigned to
+  const canChooseBranch = userRole !== 'branch_admin';
+
+  const branchId = branchFilter === ALL_BRANCHES ? null : Number(branchFilter);
+  const branchLabel = branchId === null
+    ? (canChooseBranch ? 'Consolidated' : 'My branches')
+    : branches.find(branch => branch.id === branchId)?.name || `Branch ${branchId}`;
+
+  const loadTrialBalance = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [balanceRows, accountRows] = await Promise.all([
+        fetchTrialBalance(asOf, branchId),
+        fetchGlAccounts(),
+      ]);
+      setRows(balanceRows);
+      setAccounts(accountRows);
+    } catch (error: any) {
+      toast.error('Failed to load trial balance', { description: error.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf, branchId]);
+
+  const loadJournal = useCallback(async () => {
+    setJournalLoading(true);
+    try {
+      setEntries(await fetchJournalEntries(journalFrom, journalTo, branchId));
+    } catch (error: any) {
+      toast.error('Failed to load journal', { description: error.message });
+    } finally {
+      setJournalLoading(false);
+    }
+  }, [journalFrom, journalTo, branchId]);
+
+  useEffect(() => {
+    if (!canView || !canChooseBranch) return;
+    supabase
+      .from('branches')
+      .select('id, name')
+      .order('name')
+      .then(({ data }) => setBranches((data || []).map(branch => ({ id: Number(branch.id), name: branch.name }))));
+  }, [canView, canChooseBranch]);
+
+  useEffect(() => {
+    if (canView) {
+      loadTrialBalance();
+    } else {
+      setLoading(false);
+    }
+  }, [canView, loadTrialBalance]);
+
+  useEffect(() => {
+    if (canView) loadJournal();
+  }, [canView, loadJournal]);
+
+  const totals = useMemo(() => summarizeTrialBalance(rows), [rows]);
+  const activeRows = useMemo(() => rows.filter(row => row.total_debit > 0 || row.total_credit > 0), [rows]);
+
+  const entryTotals = useMemo(() => {
+    const debit = entryLines.reduce((sum, line) => sum + (Number(line.debit) || 0), 0);
+    const credit = entryLines.reduce((sum, line) => sum + (Number(line.credit) || 0), 0);
+    return { debit, credit, balanced: debit > 0 && Math.abs(debit - credit) < 0.005 };
+  }, [entryLines]);
+
+  const updateLine = (index: number, changes: Partial<ManualJournalLine>) => {
+    setEntryLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const resetNewEntry = () => {
+    setEntryDate(today());
+    setEntryBranch('');
+    setEntryDescription('');
+    setEntryLines([emptyLine(), emptyLine()]);
+  };
+
+  const handleCreateEntry = async () => {
+    setBusy(true);
+    try {
+      const lines = entryLines
+        .filter(line => line.account && ((Number(line.debit) || 0) > 0 || (Number(line.credit) || 0) > 0))
+        .map(line => ({
+          account: line.account,
+          debit: Number(line.debit) || 0,
+          credit: Number(line.credit) || 0,
+          memo: line.memo?.trim() || undefined,
+        }));
+      await createManualJournalEntry(entryDate, entryBranch ? Number(entryBranch) : null, entryDescription, lines);
+      toast.success('Journal entry posted');
+      setShowNewEntry(false);
+      resetNewEntry();
+      await Promise.all([loadTrialBalance(), loadJournal()]);
+    } catch (error: any) {
+      toast.error('Failed to post journal entry', { description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReverse = async () => {
+    if (!reverseTarget) return;
+    setBusy(true);
+    try {
+      await reverseJournalEntry(reverseTarget.id, reverseReason);
+      toast.success(`Entry ${reverseTarget.entry_number} reversed`);
+      setReverseTarget(null);
+      setReverseReason('');
+      await Promise.all([loadTrialBalance(), loadJournal()]);
+    } catch (error: any) {
+      toast.error('Failed to reverse journal entry', { description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const balanceColumns = [
+    {
+      header: 'Account',
+      cell: (row: TrialBalanceRow) => (
+        <div>
+          <div className="font-medium">{row.account_code} · {row.account_name}</div>
+          <div className="text-xs text-muted-foreground">{GL_ACCOUNT_TYPE_LABELS[row.account_type]}</div>
+        </div>
+      )
+    },
+    { header: 'Total Debits', cell: (row: TrialBalanceRow) => formatCurrency(row.total_debit) },
+    { header: 'Total Credits', cell: (row: TrialBalanceRow) => formatCurrency(row.total_credit) },
+    { header: 'Debit Balance', cell: (row: TrialBalanceRow) => row.balance_debit > 0 ? <span className="font-semibold">{formatCurrency(row.balance_debit)}</span> : '-' },
+    { header: 'Credit Balance', cell: (row: TrialBalanceRow) => row.balance_credit > 0 ? <span className="font-semibold">{formatCurrency(row.balance_credit)}</span> : '-' },
+  ];
+
+  const balanceExportColumns = [
+    { header: 'Code', accessorKey: 'account_code' as const },
+    { header: 'Account', accessorKey: 'account_name' as const },
+    { header: 'Type', accessorKey: (row: TrialBalanceRow) => GL_ACCOUNT_TYPE_LABELS[row.account_type] },
+    { header: 'Debit', accessorKey: (row: TrialBalanceRow) => formatCurrency(row.balance_debit) },
+    { header: 'Credit', accessorKey: (row: TrialBalanceRow) => formatCurrency(row.balance_credit) },
+  ];
+
+  const entryColumns = [
+    {
+      header: 'Entry',
+      cell: (row: JournalEntry) => (
+        <div>
+          <div className="font-medium">{row.entry_number}</div>
+          <div className="text-xs text-muted-foreground">{formatDate(row.entry_date)} · {row.branch_name || 'No branch'}</div>
+          <div className="flex gap-1 mt-1">
+            <Badge variant="outline">{JOURNAL_SOURCE_LABELS[row.source_type]}</Badge>
+            {row.reversal_of && <Badge variant="secondary">Reversal</Badge>}
+            {row.reversed_by && <Badge variant="destructive">Reversed</Badge>}
+          </div>
+        </div>
+      )
+    },
+    {
+      header: 'Lines',
+      cell: (row: JournalEntry) => (
+        <div className="space-y-1 min-w-[22rem]">
+          <div className="text-sm whitespace-normal">{row.description}</div>
+          {row.lines.map(line => (
+            <div key={line.id} className={`grid grid-cols-[1fr_7rem_7rem] gap-2 text-xs ${line.credit > 0 ? 'pl-4' : ''}`}>
+              <span>
+                {line.account_code} · {line.account_name}
+                {line.memo && <span className="text-muted-foreground"> ({line.memo})</span>}
+              </span>
+              <span className="text-right">{line.debit > 0 ? formatCurrency(line.debit) : ''}</span>
+              <span className="text-right">{line.credit > 0 ? formatCurrency(line.credit) : ''}</span>
+            </div>
+          ))}
+        </div>
+      )
+    },
+    { header: 'Amount', cell: (row: JournalEntry) => <span className="font-semibold">{formatCurrency(row.total)}</span> },
+    {
+      header: 'Actions',
+      cell: (row: JournalEntry) => {
+        const loanId = row.lines.find(line => line.loan_id)?.loan_id;
+        return (
+          <div className="flex justify-end gap-2">
+            {loanId && (
+              <Button asChild variant="outline" size="sm">
+                <Link to={`/loans/${loanId}`}>View Loan</Link>
+              </Button>
+            )}
+            {canManage && row.source_type === 'manual' && !row.reversal_of && !row.reversed_by && (
+              <Button variant="outline" size="sm" onClick={() => setReverseTarget(row)}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Reverse
+              </Button>
+            )}
+          </div>
+        );
+      }
+    },
+  ];
+
+  const accountColumns = [
+    { header: 'Code', cell: (row: GlAccount) => <span className="font-medium">{row.code}</span> },
+    {
+      header: 'Account',
+      cell: (row: GlAccount) => (
+        <div>
+          <div>{row.name}</div>
+          {row.description && <div className="text-xs text-muted-foreground">{row.description}</div>}
+        </div>
+      )
+    },
+    { header: 'Type', cell: (row: GlAccount) => GL_ACCOUNT_TYPE_LABELS[row.account_type] },
+    { header: 'Normal Balance', cell: (row: GlAccount) => <span className="capitalize">{row.normal_balance}</span> },
+    { header: 'Cash Flow', cell: (row: GlAccount) => row.is_cash ? 'Cash account' : CASH_FLOW_ACTIVITY_LABELS[row.cash_flow_activity] },
+    {
+      header: 'Status',
+      cell: (row: GlAccount) => (
+        <div className="flex gap-1">
+          <Badge variant={row.is_active ? 'default' : 'secondary'}>{row.is_active ? 'Active' : 'Inactive'}</Badge>
+          {row.is_system && <Badge variant="outline">System</Badge>}
+        </div>
+      )
+    },
+  ];
+
+  if (!canView) {
+    return (
+      <div className="p-2 sm:p-4 md:p-6">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <ShieldAlert className="mx-auto h-12 w-12 text-yellow-500" />
+            <CardTitle className="mt-4">Access Denied</CardTitle>
+            <CardDescription>You do not have permission to view the general ledger.</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-6 p-2 sm:p-4 md:p-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Trial Balance</h1>
+            <p className="text-muted-foreground mt-1">
+              Account balances from the general ledger. Every disbursement, repayment, expense, fee and write-off posts here.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Input type="date" value={asOf} max={today()} onChange={(e) => setAsOf(e.target.value)} className="w-40" />
+            {canChooseBranch && (
+              <Select value={branchFilter} onValueChange={setBranchFilter}>
+                <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+                  {branches.map(branch => (
+                    <SelectItem key={branch.id} value={String(branch.id)}>{branch.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {canManage && (
+              <Button onClick={() => setShowNewEntry(true)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Journal Entry
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => { loadTrialBalance(); loadJournal(); }} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total Debits</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.debit)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total Credits</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.credit)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>{branchLabel} as at {formatDate(asOf)}</CardDescription>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                {totals.difference === 0 ? (
+                  <><CheckCircle2 className="h-6 w-6 text-green-600" /> Balanced</>
+                ) : (
+                  <><AlertTriangle className="h-6 w-6 text-destructive" /> Off by {formatCurrency(Math.abs(totals.difference))}</>
+                )}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="balance">
+          <TabsList>
+            <TabsTrigger value="balance">Trial Balance</TabsTrigger>
+            <TabsTrigger value="journal">Journal</TabsTrigger>
+            <TabsTrigger value="accounts">Chart of Accounts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="balance">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <BookOpen className="h-5 w-5" />
+                    Trial Balance
+                  </CardTitle>
+                  <CardDescription>Accounts with postings up to and including {formatDate(asOf)}.</CardDescription>
+                </div>
+                <ExportDropdown
+                  data={activeRows}
+                  columns={balanceExportColumns}
+                  fileName={`trial-balance-${asOf}`}
+                  reportTitle={`Trial Balance - ${branchLabel} - ${formatDate(asOf)}`}
+                />
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {loading ? (
+                  <div className="flex justify-center items-center h-40">
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                  </div>
+                ) : (
+                  GL_ACCOUNT_TYPES.map(type => {
+                    const typeRows = activeRows.filter(row => row.account_type === type);
+                    if (typeRows.length === 0) return null;
+                    return (
+                      <div key={type} className="space-y-2">
+                        <h3 className="font-semibold">{GL_ACCOUNT_TYPE_LABELS[type]}</h3>
+                        <DataTable columns={balanceColumns} data={typeRows} />
+                      </div>
+                    );
+                  })
+                )}
+                {!loading && activeRows.length === 0 && (
+                  <p className="text-center text-muted-foreground py-8">Nothing has been posted to the ledger yet.</p>
+                )}
+                {!loading && activeRows.length > 0 && (
+                  <div className="flex justify-end gap-8 border-t pt-4 font-semibold">
+                    <span>Debits {formatCurrency(totals.debit)}</span>
+                    <span>Credits {formatCurrency(totals.credit)}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="journal">
+            <Card>
+              <CardHeader className="flex flex-col md:flex-row md:items-center justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>Journal</CardTitle>
+                  <CardDescription>Entries are never edited; corrections post a reversal.</CardDescription>
+                </div>
+                <div className="flex gap-2 items-center">
+                  <Input type="date" value={journalFrom} onChange={(e) => setJournalFrom(e.target.value)} className="w-40" />
+                  <span className="text-muted-foreground">to</span>
+                  <Input type="date" value={journalTo} onChange={(e) => setJournalTo(e.target.value)} className="w-40" />
+                </div>
+              </CardHeader>
+              <CardContent>
+                {journalLoading ? (
+                  <div className="flex justify-center items-center h-40">
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                  </div>
+                ) : (
+                  <DataTable columns={entryColumns} data={entries} emptyStateMessage="No journal entries in this period." />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="accounts">
+            <Card>
+              <CardHeader>
+                <CardTitle>Chart of Accounts</CardTitle>
+                <CardDescription>Expense categories post to the account set on the category.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DataTable columns={accountColumns} data={accounts} emptyStateMessage="No accounts found." />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={showNewEntry} onOpenChange={setShowNewEntry}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Journal Entry</DialogTitle>
+            <DialogDescription>
+              For opening cash and bank balances and adjustments that have no source record. Debits must equal credits.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="entry-date">Date</Label>
+                <Input id="entry-date" type="date" value={entryDate} max={today()} onChange={(e) => setEntryDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Branch</Label>
+                <Select value={entryBranch} onValueChange={setEntryBranch}>
+                  <SelectTrigger><SelectValue placeholder="Select branch" /></SelectTrigger>
+                  <SelectContent>
+                    {branches.map(branch => (
+                      <SelectItem key={branch.id} value={String(branch.id)}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="entry-description">Description</Label>
+              <Input id="entry-description" value={entryDescription} onChange={(e) => setEntryDescription(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              {entryLines.map((line, index) => (
+                <div key={index} className="grid grid-cols-[1fr_8rem_8rem_auto] gap-2 items-center">
+                  <Select value={line.account} onValueChange={(value) => updateLine(index, { account: value })}>
+                    <SelectTrigger><SelectValue placeholder="Account" /></SelectTrigger>
+                    <SelectContent>
+                      {accounts.filter(account => account.is_active).map(account => (
+                        <SelectItem key={account.code} value={account.code}>{account.code} · {account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Debit"
+                    value={line.debit || ''}
+                    onChange={(e) => updateLine(index, { debit: Number(e.target.value), credit: 0 })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="Credit"
+                    value={line.credit || ''}
+                    onChange={(e) => updateLine(index, { credit: Number(e.target.value), debit: 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={entryLines.length <= 2}
+                    onClick={() => setEntryLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex justify-between items-center">
+                <Button variant="outline" size="sm" onClick={() => setEntryLines(prev => [...prev, emptyLine()])}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Line
+                </Button>
+                <span className={`text-sm ${entryTotals.balanced ? 'text-green-600' : 'text-destructive'}`}>
+                  Debits {formatCurrency(entryTotals.debit)} · Credits {formatCurrency(entryTotals.credit)}
+                </span>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewEntry(false)}>Cancel</Button>
+            <Button onClick={handleCreateEntry} disabled={busy || !entryTotals.balanced || !entryDescription.trim()}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Post Entry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reverseTarget} onOpenChange={(open) => { if (!open) setReverseTarget(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse {reverseTarget?.entry_number}</DialogTitle>
+            <DialogDescription>
+              A mirror-image entry is posted today. The original stays in the journal, marked as reversed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reverse-reason">Reason</Label>
+            <Textarea id="reverse-reason" value={reverseReason} onChange={(e) => setReverseReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReverseTarget(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReverse} disabled={busy || !reverseReason.trim()}>
+              {busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reverse Entry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default TrialBalance;
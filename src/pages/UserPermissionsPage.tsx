@@ -1,14 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useCallback, useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ArrowLeft, Save, Loader2, User } from 'lucide-react';
 import { toast } from 'sonner';
 import { PermissionsForm } from '@/components/users/PermissionsForm';
 import { Permission } from '@/config/permissions';
+import { usePermission } from '@/hooks/usePermission';
+import { fetchRolePermissions } from '@/utils/permissions';
+import { fetchUserBranchIds, saveUserBranches } from '@/utils/branchAccess';
 
 interface UserProfile {
   id: string;
@@ -16,46 +20,28 @@ interface UserProfile {
   email: string;
   role: string;
   is_active: boolean;
+  branch_id: number | null;
+}
+
+interface BranchOption {
+  id: number;
+  name: string;
 }
 
 const UserPermissionsPage: React.FC = () => {
-  const { userId } = useParams<{ userId: string }>();
+  const { id: userId } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { isSuperAdmin, loading: authLoading } = useAuth();
+  const { user: currentUser, isSuperAdmin, loading: authLoading } = useAuth();
+  const canManagePermissions = usePermission('users.manage_permissions');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [user, setUser] = useState<UserProfile | null>(null);
   const [selectedPermissions, setSelectedPermissions] = useState<Permission[]>([]);
+  const [rolePermissions, setRolePermissions] = useState<Permission[]>([]);
+  const [branches, setBranches] = useState<BranchOption[]>([]);
+  const [assignedBranchIds, setAssignedBranchIds] = useState<number[]>([]);
 
-  useEffect(() => {
-    console.log('UserPermissionsPage useEffect triggered', { 
-      userId, 
-      isSuperAdmin, 
-      authLoading 
-    });
-    
-    // Wait for auth to load, then check permissions
-    if (authLoading) {
-      console.log('Auth still loading, waiting...');
-      return;
-    }
-
-    if (!isSuperAdmin) {
-      console.log('User does not have permission to manage permissions');
-      setLoading(false);
-      return;
-    }
-
-    if (userId) {
-      console.log('Fetching user and permissions for userId:', userId);
-      fetchUserAndPermissions();
-    } else {
-      console.log('No userId provided');
-      setLoading(false);
-    }
-  }, [userId, isSuperAdmin, authLoading]);
-
-  const fetchUserAndPermissions = async () => {
+  const fetchUserAndPermissions = useCallback(async () => {
     if (!userId) return;
     
     console.log('Starting fetchUserAndPermissions for userId:', userId);
@@ -66,7 +52,7 @@ const UserPermissionsPage: React.FC = () => {
       // Fetch user profile
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
-        .select('id, full_name, email, role, is_active')
+        .select('id, full_name, email, role, is_active, branch_id')
         .eq('id', userId)
         .single();
 
@@ -87,6 +73,10 @@ const UserPermissionsPage: React.FC = () => {
       console.log('Setting user data:', profileData);
       setUser(profileData);
 
+      // Permissions the role template already gives are shown but not stored per user
+      const templates = await fetchRolePermissions();
+      setRolePermissions(templates[profileData.role] || []);
+
       console.log('Fetching user permissions...');
       // Fetch user permissions
       const { data: permissionsData, error: permissionsError } = await supabase
@@ -105,6 +95,15 @@ const UserPermissionsPage: React.FC = () => {
       const permissions = permissionsData?.map((p: any) => p.permission as Permission) || [];
       console.log('Setting permissions:', permissions);
       setSelectedPermissions(permissions);
+
+      // Branches the user works in; RLS scopes their data to these
+      const [{ data: branchesData, error: branchesError }, branchIds] = await Promise.all([
+        supabase.from('branches').select('id, name').order('name'),
+        fetchUserBranchIds(userId),
+      ]);
+      if (branchesError) throw branchesError;
+      setBranches((branchesData as BranchOption[]) || []);
+      setAssignedBranchIds(branchIds);
       
     } catch (error: any) {
       console.error('Error in fetchUserAndPermissions:', error);
@@ -113,7 +112,35 @@ const UserPermissionsPage: React.FC = () => {
       console.log('Fetch completed, setting loading to false');
       setLoading(false);
     }
-  };
+  }, [userId]);
+
+  useEffect(() => {
+    console.log('UserPermissionsPage useEffect triggered', { 
+      userId, 
+      canManagePermissions, 
+      authLoading 
+    });
+    
+    // Wait for auth to load, then check permissions
+    if (authLoading) {
+      console.log('Auth still loading, waiting...');
+      return;
+    }
+
+    if (!canManagePermissions) {
+      console.log('User does not have permission to manage permissions');
+      setLoading(false);
+      return;
+    }
+
+    if (userId) {
+      console.log('Fetching user and permissions for userId:', userId);
+      fetchUserAndPermissions();
+    } else {
+      console.log('No userId provided');
+      setLoading(false);
+    }
+  }, [userId, canManagePermissions, authLoading, fetchUserAndPermissions]);
 
   const handlePermissionChange = (permission: Permission, checked: boolean) => {
     setSelectedPermissions(prev => 
@@ -121,6 +148,12 @@ const UserPermissionsPage: React.FC = () => {
     );
   };
 
+  const handleBranchChange = (branchId: number, checked: boolean) => {
+    setAssignedBranchIds(prev =>
+      checked ? [...prev, branchId] : prev.filter(id => id !== branchId)
+    );
+  };
+
   const handleSavePermissions = async () => {
     if (!userId) return;
     
@@ -128,10 +161,7 @@ const UserPermissionsPage: React.FC = () => {
     setSaving(true);
     
     try {
-      // Get current user data first
-      const { data: { user: currentUser } } = await supabase.auth.getUser();
-      console.log('Current user:', currentUser?.id);
-      
+
       // Delete existing permissions
       console.log('Deleting existing permissions...');
       const { error: deleteError } = await supabase
@@ -145,9 +175,10 @@ const UserPermissionsPage: React.FC = () => {
       }
 
       // Insert new permissions
-      if (selectedPermissions.length > 0) {
-        console.log('Inserting new permissions:', selectedPermissions);
-        const newPermissions = selectedPermissions.map(permission => ({
+      const extraPermissions = selectedPermissions.filter(permission => !rolePermissions.includes(permission));
+      if (extraPermissions.length > 0) {
+        console.log('Inserting new permissions:', extraPermissions);
+        const newPermissions = extraPermissions.map(permission => ({
           user_id: userId,
           permission,
           created_by: currentUser?.id
@@ -163,6 +194,8 @@ const UserPermissionsPage: React.FC = () => {
         }
       }
 
+      await saveUserBranches(userId, assignedBranchIds);
+
       console.log('Permissions saved successfully');
       toast.success('User permissions updated successfully!');
       navigate('/users');
@@ -175,7 +208,7 @@ const UserPermissionsPage: React.FC = () => {
   };
   
   // Check permissions first
-  if (!authLoading && !isSuperAdmin) {
+  if (!authLoading && !canManagePermissions) {
     return (
       <div className="p-6">
         <Card className="max-w-md mx-auto">
@@ -209,6 +242,9 @@ const UserPermissionsPage: React.FC = () => {
     );
   }
 
+  // Mirrors the user_permissions policy: only a super admin changes their own grants
+  const isOwnRecord = user.id === currentUser?.id && !isSuperAdmin;
+
   return (
     <div className="space-y-6 p-6">
       {/* Header */}
@@ -250,16 +286,23 @@ const UserPermissionsPage: React.FC = () => {
         <CardHeader>
           <CardTitle>User Permissions</CardTitle>
           <CardDescription>
-            Select the specific actions this user is allowed to perform. Super admins automatically have all permissions.
+            Permissions marked "from role" come with the user's role template. Tick anything else this user should be able to do. Super admins automatically have all permissions.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <PermissionsForm
             selectedPermissions={selectedPermissions}
+            inheritedPermissions={rolePermissions}
             onChange={handlePermissionChange}
-            disabled={user.role === 'super_admin'}
+            disabled={user.role === 'super_admin' || isOwnRecord}
           />
           
+          {isOwnRecord && (
+            <div className="mt-4 p-4 bg-muted/30 border rounded-lg">
+              <p className="text-sm text-muted-foreground">You cannot change your own permissions. Ask a Super Admin.</p>
+            </div>
+          )}
+          
           {user.role === 'super_admin' && (
             <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <p className="text-sm text-blue-800">
@@ -270,6 +313,40 @@ const UserPermissionsPage: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Branch Access */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Branch Access</CardTitle>
+          <CardDescription>
+            The user sees members, loans and payments from the ticked branches only. The home branch is always included. Users with "See Data From Every Branch" see all of them regardless.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {branches.map(branch => {
+              const isHome = branch.id === user.branch_id;
+              return (
+                <div key={branch.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`branch-${branch.id}`}
+                    checked={isHome || assignedBranchIds.includes(branch.id)}
+                    onCheckedChange={(checked) => handleBranchChange(branch.id, !!checked)}
+                    disabled={isHome || user.role === 'super_admin' || isOwnRecord}
+                  />
+                  <label
+                    htmlFor={`branch-${branch.id}`}
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
+                  >
+                    {branch.name}
+                    {isHome && <span className="ml-1 text-xs font-normal text-muted-foreground">(home)</span>}
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-3">
         <Button variant="outline" onClick={() => navigate('/users')}>
@@ -277,7 +354,7 @@ const UserPermissionsPage: React.FC = () => {
         </Button>
         <Button 
           onClick={handleSavePermissions} 
-          disabled={saving || user.role === 'super_admin'}
+          disabled={saving || user.role === 'super_admin' || isOwnRecord}
         >
           {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
           <Save className="mr-2 h-4 w-4" />
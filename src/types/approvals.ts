@@ -0,0 +1,34 @@
+// Loan Approval Matrix Types
+
+export type ApprovalRole = 'branch_admin' | 'admin' | 'super_admin';
+export type LoanApprovalAction = 'approved' | 'rejected';
+
+export interface LoanApprovalRule {
+  id: string;
+  name: string;
+  // null applies the rule to every branch / every product
+  branch_id: number | null;
+  loan_program: string | null;
+  min_amount: number;
+  max_amount: number | null;
+  // Roles that sign off, in order
+  approval_chain: ApprovalRole[];
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LoanApprovalRuleFormData = Omit<LoanApprovalRule, 'id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export interface LoanApprovalStep {
+  id: string;
+  loan_id: string;
+  step_number: number;
+  approval_level: ApprovalRole;
+  action: LoanApprovalAction;
+  approver_id: string;
+  approver_name?: string;
+  comments: string | null;
+  approved_at: string;
+}
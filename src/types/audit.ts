@@ -0,0 +1,40 @@
+// Audit Types
+
+export type AuditedTable = 'loans' | 'members' | 'loan_payments' | 'expenses' | 'profiles';
+
+// Row triggers write INSERT/UPDATE/DELETE; business functions write named events
+export type AuditActionFilter = 'all' | 'INSERT' | 'UPDATE' | 'DELETE' | 'event';
+
+export interface AuditLogEntry {
+  id: string;
+  action: string;
+  table_name: string;
+  record_id: string;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  user_id: string | null;
+  user_name: string | null;
+  created_at: string;
+}
+
+export interface AuditLogUser {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+export interface AuditLogFilters {
+  table: AuditedTable | 'all';
+  recordId: string;
+  userId: string | null;
+  action: AuditActionFilter;
+  from: string;
+  to: string;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  change: 'added' | 'removed' | 'changed';
+}
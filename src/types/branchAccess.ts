@@ -0,0 +1,20 @@
+// Branch Access Types
+
+// A branch the signed-in user can work in, as returned by get_my_branches
+export interface AccessibleBranch {
+  branch_id: number;
+  branch_name: string;
+  role: string | null;
+  is_home: boolean;
+  is_active_branch: boolean;
+}
+
+export interface UserBranchAssignment {
+  id: string;
+  user_id: string;
+  branch_id: number;
+  role: string | null;
+  is_active: boolean;
+  assigned_by: string | null;
+  assigned_at: string;
+}
@@ -0,0 +1,31 @@
+// Loan Disbursement Types
+
+import type { InstallmentType } from './loanProducts';
+import type { SettlementPaymentMethod } from './settlement';
+
+// Payout uses the same methods as the transactions table
+export type DisbursementMethod = SettlementPaymentMethod;
+
+export interface LoanDisbursementRequest {
+  disbursement_date: string;
+  method: DisbursementMethod;
+  reference?: string;
+  notes?: string;
+}
+
+// Approved loan waiting in the disbursement queue
+export interface PendingDisbursement {
+  id: string;
+  account_number: string;
+  member_id: string;
+  member_name: string;
+  branch_id: number | null;
+  branch_name: string;
+  principal_amount: number;
+  processing_fee: number;
+  previous_loan_id: string | null;
+  top_up_settlement_amount: number;
+  installment_type: InstallmentType;
+  installment_count: number | null;
+  approved_at: string;
+}
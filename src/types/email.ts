@@ -0,0 +1,35 @@
+// Email Types
+
+export type ScheduledReportType = 'daily_overdue' | 'weekly_collections';
+
+export type ScheduledReportFormat = 'pdf' | 'csv';
+
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+// A report_subscriptions row with its owner and branch names
+export interface ReportSubscription {
+  id: string;
+  user_id: string;
+  user_name: string;
+  report_type: ScheduledReportType;
+  format: ScheduledReportFormat;
+  branch_id: number | null;
+  branch_name: string | null;
+  is_active: boolean;
+  last_queued_for: string | null;
+  created_at: string;
+}
+
+export interface EmailMessage {
+  id: string;
+  template_code: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  last_error: string | null;
+  report_params: Record<string, unknown> | null;
+  sent_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,54 @@
+// Group Meeting Types
+
+import type { SettlementPaymentMethod } from './settlement';
+
+export type MeetingAttendance = 'present' | 'absent' | 'excused';
+
+// Row of public.group_collection_sheet: what a member is expected to pay at a meeting
+export interface CollectionSheetEntry {
+  member_id: string;
+  member_name: string;
+  phone_number: string | null;
+  loan_id: string | null;
+  account_number: string | null;
+  current_due: number;
+  arrears_due: number;
+  total_due: number;
+  outstanding_balance: number;
+}
+
+// One member's line when a meeting is recorded
+export interface GroupMeetingEntry {
+  member_id: string;
+  loan_id: string | null;
+  attendance: MeetingAttendance;
+  current_due: number;
+  arrears_due: number;
+  amount_collected: number;
+  notes?: string;
+}
+
+export interface GroupMeeting {
+  id: string;
+  group_id: number;
+  meeting_date: string;
+  meeting_time: string | null;
+  payment_method: SettlementPaymentMethod;
+  members_expected: number;
+  members_present: number;
+  expected_total: number;
+  collected_total: number;
+  notes: string | null;
+  recorded_by: string | null;
+  recorded_by_name?: string | null;
+  recorded_at: string;
+}
+
+export interface GroupMeetingAttendanceRecord extends GroupMeetingEntry {
+  id: string;
+  meeting_id: string;
+  member_name: string;
+  account_number: string | null;
+  expected_amount: number;
+  loan_payment_id: string | null;
+}
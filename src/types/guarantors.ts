@@ -0,0 +1,88 @@
+// Group Guarantee Types
+
+import type { SettlementPaymentMethod } from './settlement';
+
+export type LoanGuarantorStatus = 'active' | 'released';
+
+export type GuarantorRecoverySource = 'savings' | 'payment';
+
+// A group member standing behind another member's loan
+export interface LoanGuarantor {
+  id: string;
+  loan_id: string;
+  guarantor_member_id: string;
+  guarantor_name: string;
+  guarantor_phone?: string | null;
+  savings_balance: number;
+  guaranteed_amount: number;
+  recovered_amount: number;
+  status: LoanGuarantorStatus;
+  created_at: string;
+  released_at?: string | null;
+}
+
+// Group member who can be picked as a guarantor
+export interface GuarantorCandidate {
+  id: string;
+  full_name: string;
+  phone_number: string | null;
+  savings_balance: number;
+}
+
+// Guarantor picked on the loan form before the loan exists
+export interface GuarantorSelection {
+  member_id: string;
+  full_name: string;
+  amount: number;
+}
+
+export interface GuarantorRecoveryRequest {
+  installment_id: string;
+  amount: number;
+  source: GuarantorRecoverySource;
+  payment_method?: SettlementPaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+// Unpaid installment past its due date, the target of a recovery
+export interface OverdueInstallment {
+  id: string;
+  installment_number: number;
+  due_date: string;
+  unpaid_amount: number;
+}
+
+export interface GuarantorRecovery {
+  id: string;
+  loan_guarantor_id: string;
+  loan_id: string;
+  installment_id: string | null;
+  guarantor_member_id: string;
+  guarantor_name: string;
+  amount: number;
+  source: GuarantorRecoverySource;
+  payment_method: string;
+  payment_reference: string;
+  notes?: string | null;
+  recovered_at: string;
+}
+
+// Row of public.group_arrears
+export interface GroupArrearsEntry {
+  member_id: string;
+  member_name: string;
+  loan_id: string;
+  account_number: string;
+  loan_status: string;
+  overdue_installments: number;
+  arrears_amount: number;
+  oldest_due_date: string | null;
+  days_overdue: number;
+  is_defaulter: boolean;
+}
+
+export interface GroupArrearsSettings {
+  group_arrears_days: number;
+  group_max_defaulters: number;
+}
@@ -1,3 +1,5 @@
+import type { Permission } from '@/config/permissions';
+
 // This file will hold all common types for your application.
 
 // Definitive list of user roles in the system.
@@ -11,7 +13,7 @@ export type NavItem = {
   url: string;
   icon: React.ElementType;
   requiredRoles?: UserRole[]; // Optional array of roles (legacy)
-  requiredPermission?: string; // New permission-based access
+  requiredPermission?: Permission; // Permission-based access; takes precedence over requiredRoles
 };
 
 // The new structure for a navigation group.
@@ -29,4 +31,70 @@ export interface BadDebtStats {
 }
 
 // Re-export types from the expenses module
-export * from './expenses';
\ No newline at end of file
+export * from './expenses';
+
+// Re-export types from the loan products module
+export * from './loanProducts';
+
+// Re-export types from the penalties module
+export * from './penalties';
+
+// Re-export types from the mobile money module
+export * from './mobileMoney';
+
+// Re-export types from the reconciliation module
+export * from './reconciliation';
+
+// Re-export types from the restructuring module
+export * from './restructuring';
+
+// Re-export types from the top-up module
+export * from './topUp';
+
+// Re-export types from the settlement module
+export * from './settlement';
+
+// Re-export types from the approvals module
+export * from './approvals';
+
+// Re-export types from the disbursement module
+export * from './disbursement';
+
+// Re-export types from the guarantors module
+export * from './guarantors';
+
+// Re-export types from the group meetings module
+export * from './groupMeetings';
+
+// Re-export types from the savings module
+export * from './savings';
+
+// Re-export types from the notifications module
+export * from './notifications';
+
+// Re-export types from the sms module
+export * from './sms';
+
+// Re-export types from the email module
+export * from './email';
+
+// Re-export types from the par module
+export * from './par';
+
+// Re-export types from the provisioning module
+export * from './provisioning';
+
+// Re-export types from the ledger module
+export * from './ledger';
+
+// Re-export types from the audit module
+export * from './audit';
+
+// Re-export types from the MFA module
+export * from './mfa';
+
+// Re-export types from the pending changes module
+export * from './pendingChanges';
+
+// Re-export types from the branch access module
+export * from './branchAccess';
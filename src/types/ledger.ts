@@ -0,0 +1,117 @@
+// General Ledger Types
+
+export type GlAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export type NormalBalance = 'debit' | 'credit';
+
+export type CashFlowActivity = 'operating' | 'investing' | 'financing';
+
+export type JournalSourceType =
+  | 'opening_balance'
+  | 'disbursement'
+  | 'repayment'
+  | 'penalty'
+  | 'expense'
+  | 'registration_fee'
+  | 'activation_fee'
+  | 'provision'
+  | 'savings'
+  | 'manual';
+
+export interface GlAccount {
+  code: string;
+  name: string;
+  account_type: GlAccountType;
+  normal_balance: NormalBalance;
+  description: string | null;
+  is_system: boolean;
+  is_active: boolean;
+  is_cash: boolean;
+  cash_flow_activity: CashFlowActivity;
+}
+
+export interface TrialBalanceRow {
+  account_code: string;
+  account_name: string;
+  account_type: GlAccountType;
+  normal_balance: NormalBalance;
+  total_debit: number;
+  total_credit: number;
+  balance_debit: number;
+  balance_credit: number;
+}
+
+export interface JournalLine {
+  id: number;
+  account_code: string;
+  account_name: string;
+  debit: number;
+  credit: number;
+  loan_id: string | null;
+  member_id: string | null;
+  memo: string | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  entry_number: string;
+  entry_date: string;
+  branch_id: number | null;
+  branch_name: string | null;
+  source_type: JournalSourceType;
+  source_id: string | null;
+  description: string;
+  reversal_of: string | null;
+  reversed_by: string | null;
+  created_at: string;
+  lines: JournalLine[];
+  total: number;
+}
+
+export interface ManualJournalLine {
+  account: string;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+export interface GlAccountActivity {
+  account_code: string;
+  account_name: string;
+  account_type: GlAccountType;
+  normal_balance: NormalBalance;
+  is_cash: boolean;
+  cash_flow_activity: CashFlowActivity;
+  // Signed debit positive
+  opening_balance: number;
+  period_debit: number;
+  period_credit: number;
+  closing_balance: number;
+}
+
+export interface GlCashFlow {
+  cash_flow_activity: CashFlowActivity;
+  account_code: string;
+  account_name: string;
+  cash_in: number;
+  cash_out: number;
+}
+
+export type FinancialStatementLineKind = 'heading' | 'line' | 'subtotal' | 'total';
+
+export interface FinancialStatementLine {
+  key: string;
+  label: string;
+  kind: FinancialStatementLineKind;
+  current: number | null;
+  prior: number | null;
+}
+
+export type StatementPeriodPreset = 'this_month' | 'last_month' | 'this_quarter' | 'this_year' | 'last_year' | 'custom';
+
+export type StatementComparison = 'previous_period' | 'previous_year' | 'none';
+
+export interface StatementPeriod {
+  from: string;
+  to: string;
+}
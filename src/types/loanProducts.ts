@@ -0,0 +1,47 @@
+// Loan Product Catalogue Types
+
+export type InstallmentType = 'daily' | 'weekly' | 'monthly';
+export type InterestMethod = 'flat' | 'reducing_balance' | 'interest_only';
+export type FeeType = 'percentage' | 'fixed';
+
+export interface LoanProduct {
+  id: string;
+  code: string;
+  name: string;
+  description?: string | null;
+  min_amount: number;
+  max_amount?: number | null;
+  amount_levels: number[];
+  allowed_installment_types: InstallmentType[];
+  term_lengths: number[];
+  interest_method: InterestMethod;
+  interest_rate: number;
+  processing_fee_type: FeeType;
+  processing_fee_value: number;
+  penalty_type: FeeType;
+  penalty_rate: number;
+  penalty_grace_days: number;
+  penalty_cap?: number | null;
+  is_active: boolean;
+  display_order: number;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LoanProductFormData = Omit<LoanProduct, 'id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export interface LoanCalculation {
+  interest_rate: number;
+  interest_method: InterestMethod;
+  installment_count: number;
+  processing_fee: number;
+  interest_amount: number;
+  total_disbursed: number;
+}
+
+export interface ProductValidationResult {
+  isValid: boolean;
+  message?: string;
+  suggestedAmount?: number;
+}
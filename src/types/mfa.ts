@@ -0,0 +1,27 @@
+// MFA Types
+
+export type MfaPolicyRole = 'super_admin' | 'admin' | 'branch_admin' | 'loan_officer' | 'teller' | 'auditor';
+
+export type AuthenticatorAssuranceLevel = 'aal1' | 'aal2';
+
+export interface MfaSessionStatus {
+  required: boolean;
+  enrolled: boolean;
+  current_aal: AuthenticatorAssuranceLevel;
+  satisfied: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface MfaEnrollmentRow {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  role: string;
+  branch_name: string | null;
+  is_active: boolean;
+  mfa_required: boolean;
+  enrolled: boolean;
+  enrolled_at: string | null;
+  recovery_codes_remaining: number;
+  last_sign_in_at: string | null;
+}
@@ -0,0 +1,37 @@
+// Mobile Money (M-Pesa C2B) Receipt Types
+
+export type MobileMoneyReceiptStatus = 'unmatched' | 'matched' | 'allocated' | 'dismissed';
+export type MobileMoneyMatchMethod = 'loan_account' | 'member_id_number' | 'manual';
+
+export interface MobileMoneyReceipt {
+  id: string;
+  provider: string;
+  transaction_id: string;
+  transaction_type?: string | null;
+  amount: number;
+  msisdn?: string | null;
+  payer_name?: string | null;
+  account_reference?: string | null;
+  business_short_code?: string | null;
+  transaction_time: string;
+  raw_payload: Record<string, unknown>;
+  status: MobileMoneyReceiptStatus;
+  match_method?: MobileMoneyMatchMethod | null;
+  member_id?: string | null;
+  loan_id?: string | null;
+  loan_payment_id?: string | null;
+  match_error?: string | null;
+  notes?: string | null;
+  allocated_by?: string | null;
+  allocated_at?: string | null;
+  received_at: string;
+}
+
+export interface SuspenseLoanOption {
+  id: string;
+  account_number: string | null;
+  member_name: string | null;
+  member_id_number: string | null;
+  current_balance: number;
+  status: string;
+}
@@ -0,0 +1,26 @@
+// Notification Types
+
+export type NotificationType = 'info' | 'success' | 'warning' | 'error';
+
+export type NotificationCategory =
+  | 'general'
+  | 'loan_pending_approval'
+  | 'installment_overdue'
+  | 'large_expense'
+  | 'backup_failed'
+  | 'change_request';
+
+// A row of the notifications table addressed to the signed-in user
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  message: string;
+  type: NotificationType;
+  category: NotificationCategory;
+  is_read: boolean;
+  related_entity_type: string | null;
+  related_entity_id: string | null;
+  created_at: string;
+  read_at: string | null;
+}
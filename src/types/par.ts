@@ -0,0 +1,58 @@
+// Portfolio at Risk Types
+
+export type AgingBucket = 'current' | '1_30' | '31_60' | '61_90' | '91_180' | 'over_180';
+
+export type ParDimension = 'branch' | 'officer' | 'group' | 'product';
+
+// One open loan as returned by loan_arrears_positions
+export interface LoanArrearsPosition {
+  loan_id: string;
+  account_number: string;
+  member_id: string | null;
+  member_name: string | null;
+  branch_id: number | null;
+  branch_name: string | null;
+  loan_officer_id: string | null;
+  loan_officer_name: string | null;
+  group_id: number | null;
+  group_name: string | null;
+  product_code: string | null;
+  product_name: string | null;
+  outstanding_principal: number;
+  arrears_amount: number;
+  days_in_arrears: number;
+  aging_bucket: AgingBucket;
+}
+
+// PAR figures for one branch, officer, group or product (or the whole portfolio)
+export interface ParBreakdownRow {
+  key: string;
+  label: string;
+  loans_count: number;
+  outstanding_principal: number;
+  par1_amount: number;
+  par30_amount: number;
+  par60_amount: number;
+  par90_amount: number;
+  par1: number;
+  par30: number;
+  par60: number;
+  par90: number;
+}
+
+export interface AgingBucketRow {
+  bucket: AgingBucket;
+  loans_count: number;
+  outstanding_principal: number;
+  share: number;
+}
+
+// par_snapshots rows added up for one date
+export interface ParSnapshotPoint {
+  snapshot_date: string;
+  outstanding_principal: number;
+  par1: number;
+  par30: number;
+  par60: number;
+  par90: number;
+}
@@ -0,0 +1,37 @@
+// Late Payment Penalty Types
+
+export type PenaltyStatus = 'accrued' | 'waived' | 'paid';
+
+export interface LoanPenalty {
+  id: string;
+  loan_id: string;
+  installment_id: string;
+  installment_number: number;
+  charge_number: number;
+  accrual_date: string;
+  days_overdue: number;
+  penalty_type: 'percentage' | 'fixed';
+  penalty_rate: number;
+  base_amount: number;
+  amount: number;
+  status: PenaltyStatus;
+  transaction_id?: string | null;
+  waived_by?: string | null;
+  waived_at?: string | null;
+  waiver_reason?: string | null;
+  paid_at?: string | null;
+  created_at: string;
+}
+
+export interface PenaltySummary {
+  accrued: number;
+  waived: number;
+  paid: number;
+  byInstallment: Record<number, number>;
+}
+
+export interface PenaltyAccrualResult {
+  penalties_created: number;
+  loans_charged: number;
+  total_amount: number;
+}
@@ -0,0 +1,29 @@
+// Pending Change Types
+
+export type PendingChangeType = 'loan_edit' | 'loan_delete' | 'loan_write_off';
+export type PendingChangeStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface PendingChange {
+  id: string;
+  change_type: PendingChangeType;
+  table_name: string;
+  record_id: string;
+  proposed_values: Record<string, unknown>;
+  current_values: Record<string, unknown>;
+  reason: string;
+  status: PendingChangeStatus;
+  requested_by: string | null;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  applied_at: string | null;
+}
+
+// As listed on the Pending Changes page
+export interface PendingChangeRow extends PendingChange {
+  member_name: string;
+  account_number: string;
+  requested_by_name: string;
+  reviewed_by_name: string | null;
+}
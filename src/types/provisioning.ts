@@ -0,0 +1,77 @@
+// Loan Loss Provisioning Types
+
+export type LoanClassification = 'normal' | 'watch' | 'substandard' | 'doubtful' | 'loss';
+
+export type ProvisioningRunStatus = 'draft' | 'posted';
+
+export type ProvisionEntryType = 'charge' | 'release' | 'write_off';
+
+export interface LoanClassificationRule {
+  classification: LoanClassification;
+  min_days: number;
+  provision_rate: number;
+  sort_order: number;
+  updated_at: string;
+}
+
+export interface ProvisioningRun {
+  id: string;
+  period_end: string;
+  status: ProvisioningRunStatus;
+  loans_count: number;
+  outstanding_principal: number;
+  required_provision: number;
+  previous_required: number;
+  run_at: string;
+  posted_at: string | null;
+}
+
+export interface ProvisioningBranchTotal {
+  branch_id: number;
+  branch_name: string;
+  loans_count: number;
+  outstanding_principal: number;
+  required_provision: number;
+  previous_required: number;
+  allowance_before: number | null;
+  adjustment: number | null;
+}
+
+export interface LoanProvision {
+  loan_id: string;
+  account_number: string;
+  member_name: string;
+  branch_name: string;
+  classification: LoanClassification;
+  days_in_arrears: number;
+  outstanding_principal: number;
+  provision_rate: number;
+  required_provision: number;
+}
+
+export interface ProvisionEntry {
+  id: string;
+  entry_date: string;
+  branch_id: number;
+  branch_name: string;
+  entry_type: ProvisionEntryType;
+  amount: number;
+  loan_id: string | null;
+  description: string;
+  created_at: string;
+}
+
+export interface WrittenOffLoan {
+  loan_id: string;
+  account_number: string;
+  member_name: string | null;
+  branch_name: string | null;
+  loan_officer_name: string | null;
+  principal_amount: number;
+  written_off_amount: number;
+  from_provision: number;
+  unprovided: number;
+  written_off_date: string | null;
+  written_off_by_name: string | null;
+  write_off_reason: string | null;
+}
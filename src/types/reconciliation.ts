@@ -0,0 +1,86 @@
+// Statement Reconciliation Types
+
+export type StatementSource = 'mpesa' | 'bank';
+export type ReconciliationStatus = 'open' | 'closed';
+export type ReconciliationMatchStatus = 'matched' | 'mismatched' | 'missing' | 'duplicate' | 'not_in_statement';
+export type ReconciliationMatchMethod = 'reference' | 'amount_date';
+export type ReconciliationResolution = 'adjusted' | 'ignored';
+export type AdjustmentDirection = 'credit' | 'debit';
+
+// Which CSV header holds each statement field
+export interface StatementColumnMapping {
+  date: string;
+  reference: string;
+  amount: string;
+  description: string;
+}
+
+export interface StatementLine {
+  line_number: number;
+  transaction_date: string;
+  reference: string;
+  description: string;
+  amount: number;
+}
+
+// A payment already recorded in the system (loan_payments or transactions)
+export interface SystemPaymentRecord {
+  kind: 'loan_payment' | 'transaction';
+  id: string;
+  reference: string;
+  amount: number;
+  date: string;
+  loan_id: string | null;
+}
+
+export interface ReconciliationLineResult {
+  line_number: number | null;
+  transaction_date: string | null;
+  reference: string | null;
+  description: string | null;
+  amount: number | null;
+  match_status: ReconciliationMatchStatus;
+  match_method: ReconciliationMatchMethod | null;
+  loan_payment_id: string | null;
+  transaction_id: string | null;
+  loan_id: string | null;
+  system_reference: string | null;
+  system_amount: number | null;
+  system_date: string | null;
+  difference: number;
+  note: string | null;
+}
+
+export interface ReconciliationSummary {
+  total_lines: number;
+  matched_count: number;
+  mismatched_count: number;
+  missing_count: number;
+  duplicate_count: number;
+  not_in_statement_count: number;
+  statement_total: number;
+}
+
+export interface StatementReconciliation extends ReconciliationSummary {
+  id: string;
+  source: StatementSource;
+  file_name: string;
+  period_start: string;
+  period_end: string;
+  date_tolerance_days: number;
+  status: ReconciliationStatus;
+  created_by?: string | null;
+  created_at: string;
+  closed_by?: string | null;
+  closed_at?: string | null;
+}
+
+export interface StatementReconciliationLine extends ReconciliationLineResult {
+  id: string;
+  reconciliation_id: string;
+  resolution?: ReconciliationResolution | null;
+  adjustment_transaction_id?: string | null;
+  resolution_note?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+}
@@ -0,0 +1,59 @@
+// Loan Restructuring Types
+
+import type { InstallmentType } from './loanProducts';
+
+export type LoanRestructureStatus = 'pending' | 'approved' | 'rejected';
+export type RestructureScheduleAction = 'kept' | 'replaced' | 'new';
+
+export interface LoanRestructure {
+  id: string;
+  loan_id: string;
+  status: LoanRestructureStatus;
+  old_installment_type: string | null;
+  old_installment_count: number | null;
+  old_due_date: string | null;
+  old_current_balance: number;
+  new_installment_type: InstallmentType;
+  new_installment_count: number;
+  additional_interest_rate: number;
+  capitalise_arrears: boolean;
+  effective_date: string;
+  rescheduled_principal: number;
+  rescheduled_interest: number;
+  arrears_amount: number;
+  additional_interest: number;
+  reason: string;
+  requested_by?: string | null;
+  requested_at: string;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  rejection_reason?: string | null;
+}
+
+export interface LoanRestructureRequest {
+  installment_type: InstallmentType;
+  installment_count: number;
+  additional_interest_rate: number;
+  capitalise_arrears: boolean;
+  effective_date: string;
+  reason: string;
+}
+
+export interface RestructureScheduleRow {
+  installment_id: string | null;
+  installment_number: number;
+  due_date: string;
+  principal_amount: number;
+  interest_amount: number;
+  total_amount: number;
+  amount_paid: number;
+  original_total: number | null;
+  action: RestructureScheduleAction;
+}
+
+// Pending request as shown in the Loan Approvals queue
+export interface PendingLoanRestructure extends LoanRestructure {
+  member_name: string;
+  account_number: string;
+  requested_by_name: string;
+}
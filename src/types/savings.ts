@@ -0,0 +1,51 @@
+// Member Savings Types
+
+import type { SettlementPaymentMethod } from './settlement';
+
+export type SavingsAccountType = 'compulsory' | 'voluntary';
+
+export type SavingsTransactionType = 'deposit' | 'withdrawal' | 'interest' | 'recovery';
+
+// A member's savings account and what is held back from withdrawal
+export interface SavingsAccount {
+  id: string;
+  member_id: string;
+  account_number: string;
+  account_type: SavingsAccountType;
+  balance: number;
+  minimum_balance: number;
+  interest_rate: number;
+  lien_amount: number;
+  available_balance: number;
+  last_interest_date: string | null;
+  opened_at: string;
+}
+
+export interface SavingsTransaction {
+  id: string;
+  account_id: string;
+  member_id: string;
+  account_number: string;
+  account_type: SavingsAccountType;
+  transaction_type: SavingsTransactionType;
+  amount: number;
+  balance_after: number;
+  payment_method: SettlementPaymentMethod | null;
+  reference: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface SavingsPostingRequest {
+  account_id: string;
+  amount: number;
+  payment_method: SettlementPaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface SavingsInterestResult {
+  accounts_credited: number;
+  total_interest: number;
+}
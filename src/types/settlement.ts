@@ -0,0 +1,38 @@
+// Early Settlement Types
+
+export type EarlySettlementRebatePolicy = 'none' | 'pro_rata' | 'rule_of_78';
+
+export interface LoanSettlementQuote {
+  loan_id: string;
+  as_of_date: string;
+  rebate_policy: EarlySettlementRebatePolicy;
+  rebate_percent: number;
+  principal_outstanding: number;
+  interest_outstanding: number;
+  fees_outstanding: number;
+  unearned_interest: number;
+  interest_rebate: number;
+  penalties_outstanding: number;
+  settlement_amount: number;
+  remaining_installments: number;
+}
+
+export type SettlementPaymentMethod = 'cash' | 'bank_transfer' | 'mobile_money' | 'check' | 'other';
+
+export interface LoanSettlementPayment {
+  as_of_date: string;
+  amount: number;
+  payment_method: SettlementPaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+// Settlement recorded against a loan
+export interface LoanSettlement extends Omit<LoanSettlementQuote, 'remaining_installments'> {
+  id: string;
+  payment_method: SettlementPaymentMethod;
+  payment_reference: string;
+  notes?: string | null;
+  settled_by?: string | null;
+  settled_at: string;
+}
@@ -0,0 +1,38 @@
+// SMS Types
+
+export type SmsTemplateCode =
+  | 'upcoming_installment'
+  | 'missed_payment'
+  | 'payment_receipt'
+  | 'loan_approved';
+
+export type SmsStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'skipped';
+
+export type SmsProviderName = 'console' | 'africastalking';
+
+export interface SmsTemplate {
+  code: SmsTemplateCode;
+  name: string;
+  body: string;
+  is_active: boolean;
+  updated_at: string;
+}
+
+// A row of sms_outbox with the member it was addressed to
+export interface SmsMessage {
+  id: string;
+  template_code: SmsTemplateCode;
+  member_id: string;
+  member_name: string;
+  loan_id: string | null;
+  phone_number: string | null;
+  message: string;
+  status: SmsStatus;
+  provider: string | null;
+  attempts: number;
+  last_error: string | null;
+  scheduled_for: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,23 @@
+// Loan Top-Up Types
+
+export interface LoanTopUpQuote {
+  loan_id: string;
+  member_id: string;
+  increment_level: number;
+  outstanding_balance: number;
+  // Accrued penalties, collected with the balance when the top-up settles the loan
+  penalties_outstanding: number;
+  settlement_amount: number;
+  next_level: number | null;
+  next_amount: number | null;
+  // Why the loan cannot be topped up right now, null when it can
+  block_reason: string | null;
+}
+
+// Open loan a new application could top up
+export interface TopUpCandidate {
+  id: string;
+  account_number: string;
+  status: string;
+  principal_amount: number;
+}
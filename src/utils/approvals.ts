@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ApprovalRole, LoanApprovalAction, LoanApprovalRule, LoanApprovalStep } from '@/types';
+
+export const APPROVAL_ROLES: ApprovalRole[] = ['branch_admin', 'admin', 'super_admin'];
+
+export const APPROVAL_ROLE_LABELS: Record<ApprovalRole, string> = {
+  branch_admin: 'Branch Admin',
+  admin: 'Admin',
+  super_admin: 'Super Admin',
+};
+
+// Mirrors public.approval_role_covers: a higher role may sign a lower step
+const APPROVAL_ROLE_RANK: Record<string, number> = { branch_admin: 1, admin: 2, super_admin: 3 };
+
+export const canSignApprovalStep = (role: string | null | undefined, required: ApprovalRole): boolean =>
+  (APPROVAL_ROLE_RANK[role || ''] || 0) >= APPROVAL_ROLE_RANK[required];
+
+export const describeApprovalChain = (chain: ApprovalRole[] | null | undefined): string =>
+  (chain || []).map(role => APPROVAL_ROLE_LABELS[role] || role).join(' → ');
+
+const normalizeApprovalRule = (row: Tables<'loan_approval_rules'>): LoanApprovalRule => ({
+  ...row,
+  branch_id: row.branch_id === null || row.branch_id === undefined ? null : Number(row.branch_id),
+  min_amount: Number(row.min_amount || 0),
+  max_amount: row.max_amount === null || row.max_amount === undefined ? null : Number(row.max_amount),
+  approval_chain: (row.approval_chain || []) as ApprovalRole[],
+});
+
+export const fetchApprovalRules = async (): Promise<LoanApprovalRule[]> => {
+  const { data, error } = await supabase
+    .from('loan_approval_rules')
+    .select('*')
+    .order('min_amount')
+    .order('name');
+  if (error) throw error;
+  return (data || []).map(normalizeApprovalRule);
+};
+
+// Current sign-offs (not superseded by a restart of the chain) for the given loans
+export const fetchLoanApprovalSteps = async (loanIds: string[]): Promise<LoanApprovalStep[]> => {
+  if (loanIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('loan_approvals')
+    .select('*')
+    .in('loan_id', loanIds)
+    .is('superseded_at', null)
+    .order('step_number');
+  if (error) throw error;
+
+  const steps = (data || []) as LoanApprovalStep[];
+  const approverIds = [...new Set(steps.map(step => step.approver_id).filter(Boolean))] as string[];
+  if (approverIds.length === 0) return steps;
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .in('id', approverIds);
+  if (profilesError) throw profilesError;
+
+  return steps.map(step => ({
+    ...step,
+    approver_name: (profiles || []).find(p => p.id === step.approver_id)?.full_name || 'Unknown',
+  }));
+};
+
+export const recordLoanApproval = async (
+  loanId: string,
+  action: LoanApprovalAction,
+  comments?: string
+): Promise<'pending' | LoanApprovalAction> => {
+  const { data, error } = await supabase.rpc('record_loan_approval', {
+    p_loan_id: loanId,
+    p_action: action,
+    p_comments: comments || null,
+  });
+  if (error) throw error;
+  return data as 'pending' | LoanApprovalAction;
+};
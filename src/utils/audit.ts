@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  AuditActionFilter,
+  AuditFieldChange,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogUser,
+  AuditedTable,
+} from '@/types';
+
+export const AUDITED_TABLES: AuditedTable[] = ['loans', 'members', 'loan_payments', 'expenses', 'profiles'];
+
+export const AUDIT_TABLE_LABELS: Record<AuditedTable, string> = {
+  loans: 'Loans',
+  members: 'Members',
+  loan_payments: 'Loan payments',
+  expenses: 'Expenses',
+  profiles: 'Users',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditActionFilter, string> = {
+  all: 'All actions',
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+  event: 'Business events',
+};
+
+const ROW_ACTIONS = ['INSERT', 'UPDATE', 'DELETE'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isAuditRecordId = (value: string): boolean => UUID_PATTERN.test(value.trim());
+
+export const auditTableLabel = (table: string): string =>
+  AUDIT_TABLE_LABELS[table as AuditedTable] || table.replace(/_/g, ' ');
+
+export const auditActionLabel = (action: string): string =>
+  ROW_ACTIONS.includes(action)
+    ? AUDIT_ACTION_LABELS[action as AuditActionFilter]
+    : action.toLowerCase().replace(/_/g, ' ');
+
+export const fetchAuditLogs = async (
+  filters: AuditLogFilters,
+  page: number,
+  pageSize: number
+): Promise<{ rows: AuditLogEntry[]; total: number }> => {
+  let query = supabase
+    .from('audit_logs')
+    .select('id, action, table_name, record_id, old_values, new_values, user_id, created_at, profiles(full_name, email)', {
+      count: 'exact',
+    })
+    .order('created_at', { ascending: false });
+
+  if (filters.table !== 'all') query = query.eq('table_name', filters.table);
+  if (isAuditRecordId(filters.recordId)) query = query.eq('record_id', filters.recordId.trim());
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.action === 'event') {
+    query = query.not('action', 'in', `(${ROW_ACTIONS.join(',')})`);
+  } else if (filters.action !== 'all') {
+    query = query.eq('action', filters.action);
+  }
+  // Dates are inclusive calendar days in local time
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  const start = (page - 1) * pageSize;
+  const { data, error, count } = await query.range(start, start + pageSize - 1);
+  if (error) throw error;
+
+  const rows = (data || []).map(({ profiles: profile, ...row }) => ({
+    ...row,
+    // Row snapshots written by the audit trigger, always JSON objects
+    old_values: row.old_values as Record<string, unknown> | null,
+    new_values: row.new_values as Record<string, unknown> | null,
+    user_name: profile?.full_name || profile?.email || null,
+  }));
+  return { rows, total: count || 0 };
+};
+
+export const fetchAuditLogUsers = async (): Promise<AuditLogUser[]> => {
+  const { data, error } = await supabase.rpc('get_audit_log_users');
+  if (error) throw error;
+  return (data as AuditLogUser[]) || [];
+};
+
+// Field-by-field comparison; updates only ever carry the columns that changed
+export const diffAuditValues = (
+  oldValues: Record<string, unknown> | null,
+  newValues: Record<string, unknown> | null
+): AuditFieldChange[] => {
+  const before = oldValues || {};
+  const after = newValues || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+      change: !(field in before) ? 'added' : !(field in after) ? 'removed' : 'changed',
+    }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Where the affected record lives in the app; deleted rows have nowhere to go
+export const auditRecordLink = (entry: AuditLogEntry): string | null => {
+  if (entry.action === 'DELETE') return null;
+  const values = { ...(entry.old_values || {}), ...(entry.new_values || {}) };
+
+  switch (entry.table_name) {
+    case 'loans':
+      return `/loans/${entry.record_id}`;
+    case 'members':
+      return `/members/${entry.record_id}`;
+    case 'loan_payments':
+      return values.loan_id ? `/loans/${values.loan_id}` : null;
+    case 'expenses':
+      return '/expenses';
+    case 'profiles':
+      return `/users/${entry.record_id}/edit`;
+    default:
+      return null;
+  }
+};
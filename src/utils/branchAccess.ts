@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AccessibleBranch } from '@/types';
+
+export const fetchMyBranches = async (): Promise<AccessibleBranch[]> => {
+  const { data, error } = await supabase.rpc('get_my_branches');
+  if (error) throw error;
+  return (data || []).map(row => ({
+    branch_id: Number(row.branch_id),
+    branch_name: row.branch_name,
+    role: row.role ?? null,
+    is_home: !!row.is_home,
+    is_active_branch: !!row.is_active_branch,
+  }));
+};
+
+// null widens the session back to every assigned branch
+export const setActiveBranch = async (branchId: number | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_active_branch', { p_branch_id: branchId });
+  if (error) throw error;
+};
+
+export const fetchUserBranchIds = async (userId: string): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from('user_branch_roles')
+    .select('branch_id')
+    .eq('user_id', userId)
+    .eq('is_active', true);
+  if (error) throw error;
+  return (data || []).map(row => Number(row.branch_id));
+};
+
+// The user's home branch is kept by the server even if left out
+export const saveUserBranches = async (userId: string, branchIds: number[]): Promise<void> => {
+  const { error } = await supabase.rpc('set_user_branches', {
+    p_user_id: userId,
+    p_branch_ids: branchIds,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,66 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { InstallmentType, LoanDisbursementRequest, PendingDisbursement } from '@/types';
+
+export const fetchPendingDisbursements = async (): Promise<PendingDisbursement[]> => {
+  const { data, error } = await supabase
+    .from('loans')
+    .select('*')
+    .eq('approval_status', 'approved')
+    .is('disbursed_at', null)
+    .order('updated_at', { ascending: true });
+  if (error) throw error;
+
+  const loans = (data || []).filter(loan => !loan.is_deleted);
+  if (loans.length === 0) return [];
+
+  const { data: details, error: detailsError } = await supabase
+    .from('loans_with_details')
+    .select('id, member_name, branch_name')
+    .in('id', loans.map(loan => loan.id));
+  if (detailsError) throw detailsError;
+
+  return loans.map(loan => {
+    const detail = (details || []).find(d => d.id === loan.id);
+    return {
+      id: loan.id,
+      account_number: loan.application_no || loan.id.slice(0, 8),
+      member_id: loan.member_id || loan.customer_id,
+      member_name: detail?.member_name || 'Unknown',
+      branch_id: loan.branch_id,
+      branch_name: detail?.branch_name || 'Unknown Branch',
+      principal_amount: Number(loan.principal_amount || 0),
+      processing_fee: Number(loan.processing_fee || 0),
+      previous_loan_id: loan.previous_loan_id,
+      top_up_settlement_amount: Number(loan.top_up_settlement_amount || 0),
+      installment_type: (loan.installment_type || 'weekly') as InstallmentType,
+      installment_count: loan.installment_count,
+      approved_at: loan.updated_at,
+    };
+  });
+};
+
+export const fetchNetProcessingFeeSetting = async (): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('*')
+    .eq('id', 1)
+    .single();
+  if (error) throw error;
+  return !!data?.net_processing_fee_on_disbursement;
+};
+
+// Estimate only: the database settles top-ups on what is owed on the day
+export const estimateDisbursementPayout = (loan: PendingDisbursement, netProcessingFee: boolean): number =>
+  loan.principal_amount - loan.top_up_settlement_amount - (netProcessingFee ? loan.processing_fee : 0);
+
+export const disburseLoan = async (loanId: string, request: LoanDisbursementRequest): Promise<string> => {
+  const { data, error } = await supabase.rpc('disburse_loan', {
+    p_loan_id: loanId,
+    p_disbursement_date: request.disbursement_date,
+    p_method: request.method,
+    p_reference: request.reference || null,
+    p_notes: request.notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { EmailMessage, EmailStatus, ReportSubscription, ScheduledReportFormat, ScheduledReportType } from '@/types';
+
+export const REPORT_TYPE_LABELS: Record<ScheduledReportType, string> = {
+  daily_overdue: 'Overdue Loans (daily)',
+  weekly_collections: 'Collections Summary (weekly, Mondays)',
+};
+
+export const REPORT_FORMAT_LABELS: Record<ScheduledReportFormat, string> = {
+  pdf: 'PDF',
+  csv: 'CSV',
+};
+
+export const EMAIL_STATUS_LABELS: Record<EmailStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+// Reports each role may subscribe to, mirroring subscribe_to_report
+export const REPORT_ROLES: Record<ScheduledReportType, string[]> = {
+  daily_overdue: ['super_admin', 'branch_admin', 'loan_officer', 'auditor'],
+  weekly_collections: ['super_admin', 'admin', 'branch_admin', 'auditor'],
+};
+
+export const fetchReportSubscriptions = async (): Promise<ReportSubscription[]> => {
+  const { data, error } = await supabase
+    .from('report_subscriptions')
+    .select('*, profiles(full_name), branches(name)')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(({ profiles: owner, branches: branch, ...row }) => ({
+    ...row,
+    report_type: row.report_type as ScheduledReportType,
+    format: row.format as ScheduledReportFormat,
+    user_name: owner?.full_name || 'Unknown user',
+    branch_name: branch?.name || null,
+  }));
+};
+
+export const subscribeToReport = async (reportType: ScheduledReportType, format: ScheduledReportFormat, branchId: number | null): Promise<string> => {
+  const { data, error } = await supabase.rpc('subscribe_to_report', {
+    p_report_type: reportType,
+    p_format: format,
+    p_branch_id: branchId,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const setReportSubscriptionActive = async (subscriptionId: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('set_report_subscription_active', {
+    p_subscription_id: subscriptionId,
+    p_is_active: isActive,
+  });
+  if (error) throw error;
+};
+
+export const deleteReportSubscription = async (subscriptionId: string): Promise<void> => {
+  const { error } = await supabase.from('report_subscriptions').delete().eq('id', subscriptionId);
+  if (error) throw error;
+};
+
+// Queues the report for one subscription now and sends it without waiting for the next run
+export const sendReportNow = async (subscriptionId: string): Promise<void> => {
+  const { data, error } = await supabase.rpc('queue_report_deliveries', { p_subscription_id: subscriptionId });
+  if (error) throw error;
+  if (!data) throw new Error('Nothing was queued. Check that email notifications are on in Settings.');
+  await dispatchEmailOutbox();
+};
+
+export const dispatchEmailOutbox = async (): Promise<{ claimed: number; sent: number; retrying: number; failed: number }> => {
+  const { data, error } = await supabase.functions.invoke('email-dispatch', { body: {} });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Email dispatch failed');
+  return {
+    claimed: Number(data.claimed || 0),
+    sent: Number(data.sent || 0),
+    retrying: Number(data.retrying || 0),
+    failed: Number(data.failed || 0),
+  };
+};
+
+export const fetchEmailMessages = async (limit = 100): Promise<EmailMessage[]> => {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select('id, template_code, recipient_email, recipient_name, subject, status, attempts, last_error, report_params, sent_at, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as EmailMessage[];
+};
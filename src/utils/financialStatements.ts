@@ -0,0 +1,315 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  CashFlowActivity,
+  FinancialStatementLine,
+  GlAccountActivity,
+  GlCashFlow,
+  StatementComparison,
+  StatementPeriod,
+  StatementPeriodPreset,
+} from '@/types';
+
+export const STATEMENT_PERIOD_LABELS: Record<StatementPeriodPreset, string> = {
+  this_month: 'This month',
+  last_month: 'Last month',
+  this_quarter: 'This quarter',
+  this_year: 'This year',
+  last_year: 'Last year',
+  custom: 'Custom',
+};
+
+export const STATEMENT_COMPARISON_LABELS: Record<StatementComparison, string> = {
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year',
+  none: 'No comparison',
+};
+
+const CASH_FLOW_SECTIONS: { activity: CashFlowActivity; label: string }[] = [
+  { activity: 'operating', label: 'Operating Activities' },
+  { activity: 'investing', label: 'Investing Activities' },
+  { activity: 'financing', label: 'Financing Activities' },
+];
+
+// Receipts and payments read better than account names on the loan book and savings
+const CASH_FLOW_LINE_LABELS: Record<string, { in: string; out: string }> = {
+  '1100': { in: 'Loan principal repaid', out: 'Loans disbursed' },
+  '2000': { in: 'Savings deposits', out: 'Savings withdrawals' },
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+const isoDate = (date: Date): string => date.toISOString().split('T')[0];
+
+const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month, day));
+
+export const resolveStatementPeriod = (preset: StatementPeriodPreset, custom: StatementPeriod): StatementPeriod => {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  switch (preset) {
+    case 'this_month':
+      return { from: isoDate(utcDate(year, month, 1)), to: isoDate(utcDate(year, month + 1, 0)) };
+    case 'last_month':
+      return { from: isoDate(utcDate(year, month - 1, 1)), to: isoDate(utcDate(year, month, 0)) };
+    case 'this_quarter': {
+      const start = month - (month % 3);
+      return { from: isoDate(utcDate(year, start, 1)), to: isoDate(utcDate(year, start + 3, 0)) };
+    }
+    case 'this_year':
+      return { from: `${year}-01-01`, to: `${year}-12-31` };
+    case 'last_year':
+      return { from: `${year - 1}-01-01`, to: `${year - 1}-12-31` };
+    default:
+      return custom;
+  }
+};
+
+// Whole months compare to the months before; other periods to the same number of days before
+export const comparisonPeriod = (period: StatementPeriod, comparison: StatementComparison): StatementPeriod | null => {
+  if (comparison === 'none') return null;
+  const from = new Date(`${period.from}T00:00:00Z`);
+  const to = new Date(`${period.to}T00:00:00Z`);
+
+  if (comparison === 'previous_year') {
+    return {
+      from: isoDate(utcDate(from.getUTCFullYear() - 1, from.getUTCMonth(), from.getUTCDate())),
+      to: isoDate(utcDate(to.getUTCFullYear() - 1, to.getUTCMonth(), to.getUTCDate())),
+    };
+  }
+
+  const wholeMonths = from.getUTCDate() === 1 && utcDate(to.getUTCFullYear(), to.getUTCMonth() + 1, 0).getTime() === to.getTime();
+  if (wholeMonths) {
+    const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth() + 1;
+    return {
+      from: isoDate(utcDate(from.getUTCFullYear(), from.getUTCMonth() - months, 1)),
+      to: isoDate(utcDate(from.getUTCFullYear(), from.getUTCMonth(), 0)),
+    };
+  }
+
+  const days = Math.round((to.getTime() - from.getTime()) / 86400000) + 1;
+  return {
+    from: isoDate(new Date(from.getTime() - days * 86400000)),
+    to: isoDate(new Date(from.getTime() - 86400000)),
+  };
+};
+
+export const fetchAccountActivity = async (period: StatementPeriod, branchId: number | null): Promise<GlAccountActivity[]> => {
+  const { data, error } = await supabase.rpc('gl_account_activity', {
+    p_from: period.from,
+    p_to: period.to,
+    p_branch_id: branchId,
+  });
+  if (error) throw error;
+  return ((data || []) as GlAccountActivity[]).map(row => ({
+    ...row,
+    opening_balance: toMoney(row.opening_balance),
+    period_debit: toMoney(row.period_debit),
+    period_credit: toMoney(row.period_credit),
+    closing_balance: toMoney(row.closing_balance),
+  }));
+};
+
+export const fetchCashFlows = async (period: StatementPeriod, branchId: number | null): Promise<GlCashFlow[]> => {
+  const { data, error } = await supabase.rpc('gl_cash_flows', {
+    p_from: period.from,
+    p_to: period.to,
+    p_branch_id: branchId,
+  });
+  if (error) throw error;
+  return ((data || []) as GlCashFlow[]).map(row => ({
+    ...row,
+    cash_in: toMoney(row.cash_in),
+    cash_out: toMoney(row.cash_out),
+  }));
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Rows for one statement section: an account appears when either period has it
+const sectionLines = (
+  keys: { key: string; label: string }[],
+  current: Map<string, number>,
+  prior: Map<string, number> | null
+): FinancialStatementLine[] =>
+  keys
+    .filter(({ key }) => (current.get(key) || 0) !== 0 || (prior?.get(key) || 0) !== 0)
+    .map(({ key, label }) => ({
+      key,
+      label,
+      kind: 'line' as const,
+      current: round(current.get(key) || 0),
+      prior: prior ? round(prior.get(key) || 0) : null,
+    }));
+
+const sumLines = (lines: FinancialStatementLine[], field: 'current' | 'prior'): number =>
+  round(lines.reduce((sum, line) => sum + (line[field] || 0), 0));
+
+const subtotal = (key: string, label: string, lines: FinancialStatementLine[], hasPrior: boolean, kind: 'subtotal' | 'total' = 'subtotal'): FinancialStatementLine => ({
+  key,
+  label,
+  kind,
+  current: sumLines(lines, 'current'),
+  prior: hasPrior ? sumLines(lines, 'prior') : null,
+});
+
+const heading = (key: string, label: string): FinancialStatementLine => ({ key, label, kind: 'heading', current: null, prior: null });
+
+const accountKeys = (rows: GlAccountActivity[], prior: GlAccountActivity[] | null, types: string[]) => {
+  const seen = new Map<string, string>();
+  [...rows, ...(prior || [])]
+    .filter(row => types.includes(row.account_type))
+    .forEach(row => seen.set(row.account_code, row.account_name));
+  return Array.from(seen.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, label]) => ({ key, label }));
+};
+
+// Income is credit positive, expenses debit positive, both over the period
+export const buildIncomeStatement = (current: GlAccountActivity[], prior: GlAccountActivity[] | null): FinancialStatementLine[] => {
+  const movement = (rows: GlAccountActivity[]) => new Map(rows.map(row => [
+    row.account_code,
+    row.account_type === 'income' ? row.period_credit - row.period_debit : row.period_debit - row.period_credit,
+  ]));
+  const currentMap = movement(current);
+  const priorMap = prior ? movement(prior) : null;
+  const hasPrior = prior !== null;
+
+  const income = sectionLines(accountKeys(current, prior, ['income']), currentMap, priorMap);
+  const expenses = sectionLines(accountKeys(current, prior, ['expense']), currentMap, priorMap);
+  const totalIncome = subtotal('total_income', 'Total Income', income, hasPrior);
+  const totalExpenses = subtotal('total_expenses', 'Total Expenses', expenses, hasPrior);
+
+  return [
+    heading('income', 'Income'),
+    ...income,
+    totalIncome,
+    heading('expenses', 'Expenses'),
+    ...expenses,
+    totalExpenses,
+    {
+      key: 'net_surplus',
+      label: 'Net Surplus / (Deficit)',
+      kind: 'total',
+      current: round((totalIncome.current || 0) - (totalExpenses.current || 0)),
+      prior: hasPrior ? round((totalIncome.prior || 0) - (totalExpenses.prior || 0)) : null,
+    },
+  ];
+};
+
+// Closing balances at the end of each period; the allowance shows as a negative asset
+export const buildBalanceSheet = (current: GlAccountActivity[], prior: GlAccountActivity[] | null): FinancialStatementLine[] => {
+  const closing = (rows: GlAccountActivity[]) => new Map(rows.map(row => [
+    row.account_code,
+    row.account_type === 'asset' ? row.closing_balance : -row.closing_balance,
+  ]));
+  const surplus = (rows: GlAccountActivity[]) => -rows
+    .filter(row => row.account_type === 'income' || row.account_type === 'expense')
+    .reduce((sum, row) => sum + row.closing_balance, 0);
+
+  const currentMap = closing(current);
+  const priorMap = prior ? closing(prior) : null;
+  const hasPrior = prior !== null;
+
+  const assets = sectionLines(accountKeys(current, prior, ['asset']), currentMap, priorMap);
+  const liabilities = sectionLines(accountKeys(current, prior, ['liability']), currentMap, priorMap);
+  const equity = [
+    ...sectionLines(accountKeys(current, prior, ['equity']), currentMap, priorMap),
+    {
+      key: 'accumulated_surplus',
+      label: 'Accumulated Surplus',
+      kind: 'line' as const,
+      current: round(surplus(current)),
+      prior: prior ? round(surplus(prior)) : null,
+    },
+  ];
+  const totalLiabilities = subtotal('total_liabilities', 'Total Liabilities', liabilities, hasPrior);
+  const totalEquity = subtotal('total_equity', 'Total Equity', equity, hasPrior);
+
+  return [
+    heading('assets', 'Assets'),
+    ...assets,
+    subtotal('total_assets', 'Total Assets', assets, hasPrior, 'total'),
+    heading('liabilities', 'Liabilities'),
+    ...liabilities,
+    totalLiabilities,
+    heading('equity', 'Equity'),
+    ...equity,
+    totalEquity,
+    {
+      key: 'total_liabilities_equity',
+      label: 'Total Liabilities and Equity',
+      kind: 'total',
+      current: round((totalLiabilities.current || 0) + (totalEquity.current || 0)),
+      prior: hasPrior ? round((totalLiabilities.prior || 0) + (totalEquity.prior || 0)) : null,
+    },
+  ];
+};
+
+// Direct method: receipts and payments by section, then opening and closing cash
+export const buildCashFlowStatement = (
+  current: { flows: GlCashFlow[]; activity: GlAccountActivity[] },
+  prior: { flows: GlCashFlow[]; activity: GlAccountActivity[] } | null
+): FinancialStatementLine[] => {
+  const flowMap = (flows: GlCashFlow[]) => {
+    const map = new Map<string, number>();
+    flows.forEach(flow => {
+      const labels = CASH_FLOW_LINE_LABELS[flow.account_code];
+      if (labels) {
+        map.set(`${flow.account_code}:in`, flow.cash_in);
+        map.set(`${flow.account_code}:out`, -flow.cash_out);
+      } else {
+        map.set(flow.account_code, flow.cash_in - flow.cash_out);
+      }
+    });
+    return map;
+  };
+  const cash = (rows: GlAccountActivity[], field: 'opening_balance' | 'closing_balance') =>
+    round(rows.filter(row => row.is_cash).reduce((sum, row) => sum + row[field], 0));
+
+  const currentMap = flowMap(current.flows);
+  const priorMap = prior ? flowMap(prior.flows) : null;
+  const hasPrior = prior !== null;
+
+  const lines: FinancialStatementLine[] = [];
+  const netLines: FinancialStatementLine[] = [];
+  CASH_FLOW_SECTIONS.forEach(({ activity, label }) => {
+    const accounts = new Map<string, string>();
+    [...current.flows, ...(prior?.flows || [])]
+      .filter(flow => flow.cash_flow_activity === activity)
+      .forEach(flow => accounts.set(flow.account_code, flow.account_name));
+    const keys = Array.from(accounts.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .flatMap(([code, name]) => {
+        const labels = CASH_FLOW_LINE_LABELS[code];
+        return labels
+          ? [{ key: `${code}:in`, label: labels.in }, { key: `${code}:out`, label: labels.out }]
+          : [{ key: code, label: name }];
+      });
+    const section = sectionLines(keys, currentMap, priorMap);
+    const net = subtotal(`net_${activity}`, `Net Cash from ${label}`, section, hasPrior);
+    lines.push(heading(activity, label), ...section, net);
+    netLines.push(net);
+  });
+
+  return [
+    ...lines,
+    subtotal('net_change', 'Net Change in Cash', netLines, hasPrior, 'total'),
+    {
+      key: 'opening_cash',
+      label: 'Cash at Beginning of Period',
+      kind: 'line',
+      current: cash(current.activity, 'opening_balance'),
+      prior: prior ? cash(prior.activity, 'opening_balance') : null,
+    },
+    {
+      key: 'closing_cash',
+      label: 'Cash at End of Period',
+      kind: 'total',
+      current: cash(current.activity, 'closing_balance'),
+      prior: prior ? cash(prior.activity, 'closing_balance') : null,
+    },
+  ];
+};
+
+export const statementValue = (lines: FinancialStatementLine[], key: string, field: 'current' | 'prior' = 'current'): number =>
+  lines.find(line => line.key === key)?.[field] || 0;
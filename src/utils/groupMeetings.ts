@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type {
+  CollectionSheetEntry,
+  GroupMeeting,
+  GroupMeetingAttendanceRecord,
+  GroupMeetingEntry,
+  MeetingAttendance,
+  SettlementPaymentMethod,
+} from '@/types';
+
+export const MEETING_ATTENDANCE_LABELS: Record<MeetingAttendance, string> = {
+  present: 'Present',
+  absent: 'Absent',
+  excused: 'Excused',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+const toISODate = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().split('T')[0];
+};
+
+// Latest meeting on or before the given date; meeting_day is 1 = Monday ... 7 = Sunday
+export const getLastMeetingDate = (meetingDay: number | string | null | undefined, from: Date = new Date()): string => {
+  const day = Number(meetingDay);
+  if (!day || day < 1 || day > 7) return toISODate(from);
+  const date = new Date(from);
+  const current = date.getDay() === 0 ? 7 : date.getDay();
+  date.setDate(date.getDate() - ((current - day + 7) % 7));
+  return toISODate(date);
+};
+
+export const fetchCollectionSheet = async (groupId: number, meetingDate: string): Promise<CollectionSheetEntry[]> => {
+  const { data, error } = await supabase.rpc('group_collection_sheet', {
+    p_group_id: groupId,
+    p_meeting_date: meetingDate,
+  });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    current_due: toMoney(row.current_due),
+    arrears_due: toMoney(row.arrears_due),
+    total_due: toMoney(row.total_due),
+    outstanding_balance: toMoney(row.outstanding_balance),
+  }));
+};
+
+const normalizeMeeting = (row: Tables<'group_meetings'>): GroupMeeting => ({
+  ...row,
+  payment_method: row.payment_method as SettlementPaymentMethod,
+  group_id: Number(row.group_id),
+  members_expected: Number(row.members_expected || 0),
+  members_present: Number(row.members_present || 0),
+  expected_total: toMoney(row.expected_total),
+  collected_total: toMoney(row.collected_total),
+});
+
+export const fetchGroupMeetings = async (groupId: number): Promise<GroupMeeting[]> => {
+  const { data, error } = await supabase
+    .from('group_meetings')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('meeting_date', { ascending: false });
+  if (error) throw error;
+
+  const meetings = (data || []).map(normalizeMeeting);
+  const recorderIds = [...new Set(meetings.map(m => m.recorded_by).filter(Boolean))] as string[];
+  if (recorderIds.length === 0) return meetings;
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name')
+    .in('id', recorderIds);
+  if (profilesError) throw profilesError;
+
+  return meetings.map(meeting => ({
+    ...meeting,
+    recorded_by_name: (profiles || []).find(p => p.id === meeting.recorded_by)?.full_name || null,
+  }));
+};
+
+export const fetchGroupMeetingAttendance = async (meetingId: string): Promise<GroupMeetingAttendanceRecord[]> => {
+  const { data, error } = await supabase
+    .from('group_meeting_attendance')
+    .select('*')
+    .eq('meeting_id', meetingId);
+  if (error) throw error;
+
+  const rows = data || [];
+  if (rows.length === 0) return [];
+
+  const loanIds = rows.map(row => row.loan_id).filter(Boolean);
+  const [membersRes, loansRes] = await Promise.all([
+    supabase.from('members').select('id, full_name').in('id', rows.map(row => row.member_id)),
+    loanIds.length > 0 ? supabase.from('loans').select('id, application_no').in('id', loanIds) : { data: [], error: null },
+  ]);
+  if (membersRes.error) throw membersRes.error;
+  if (loansRes.error) throw loansRes.error;
+
+  return rows
+    .map(row => ({
+      ...row,
+      attendance: row.attendance as MeetingAttendance,
+      member_name: (membersRes.data || []).find(m => m.id === row.member_id)?.full_name || 'Unknown Member',
+      account_number: (loansRes.data || []).find(l => l.id === row.loan_id)?.application_no || null,
+      current_due: toMoney(row.current_due),
+      arrears_due: toMoney(row.arrears_due),
+      expected_amount: toMoney(row.expected_amount),
+      amount_collected: toMoney(row.amount_collected),
+    }))
+    .sort((a, b) => a.member_name.localeCompare(b.member_name));
+};
+
+export const recordGroupMeeting = async (
+  groupId: number,
+  meetingDate: string,
+  entries: GroupMeetingEntry[],
+  paymentMethod: SettlementPaymentMethod,
+  notes?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('record_group_meeting', {
+    p_group_id: groupId,
+    p_meeting_date: meetingDate,
+    p_entries: entries as unknown as Json,
+    p_payment_method: paymentMethod,
+    p_notes: notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
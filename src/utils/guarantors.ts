@@ -0,0 +1,169 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  GroupArrearsEntry,
+  GroupArrearsSettings,
+  GuarantorCandidate,
+  GuarantorRecovery,
+  GuarantorRecoveryRequest,
+  GuarantorRecoverySource,
+  GuarantorSelection,
+  LoanGuarantor,
+  LoanGuarantorStatus,
+  OverdueInstallment,
+} from '@/types';
+
+export const RECOVERY_SOURCE_LABELS: Record<GuarantorRecoverySource, string> = {
+  savings: 'Guarantor savings',
+  payment: 'Payment by guarantor',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+// Active members of the borrower's group who can stand as guarantors
+export const fetchGuarantorCandidates = async (groupId: number, borrowerId: string): Promise<GuarantorCandidate[]> => {
+  const { data, error } = await supabase
+    .from('members')
+    .select('*')
+    .eq('group_id', groupId)
+    .eq('status', 'active')
+    .neq('id', borrowerId)
+    .order('full_name');
+  if (error) throw error;
+  return (data || []).map(member => ({
+    id: member.id,
+    full_name: member.full_name,
+    phone_number: member.phone_number,
+    savings_balance: toMoney(member.savings_balance),
+  }));
+};
+
+export const fetchLoanGuarantors = async (loanId: string): Promise<LoanGuarantor[]> => {
+  const { data, error } = await supabase
+    .from('loan_guarantors')
+    .select('*')
+    .eq('loan_id', loanId)
+    .order('created_at');
+  if (error) throw error;
+
+  const guarantees = data || [];
+  if (guarantees.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from('members')
+    .select('*')
+    .in('id', guarantees.map(g => g.guarantor_member_id));
+  if (membersError) throw membersError;
+
+  return guarantees.map(guarantee => {
+    const member = (members || []).find(m => m.id === guarantee.guarantor_member_id);
+    return {
+      ...guarantee,
+      status: guarantee.status as LoanGuarantorStatus,
+      guarantor_name: member?.full_name || 'Unknown Member',
+      guarantor_phone: member?.phone_number,
+      savings_balance: toMoney(member?.savings_balance),
+      guaranteed_amount: toMoney(guarantee.guaranteed_amount),
+      recovered_amount: toMoney(guarantee.recovered_amount),
+    };
+  });
+};
+
+export const addLoanGuarantors = async (loanId: string, guarantors: GuarantorSelection[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('add_loan_guarantors', {
+    p_loan_id: loanId,
+    p_guarantors: guarantors.map(g => ({ member_id: g.member_id, amount: g.amount })),
+  });
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+export const fetchGuarantorRecoveries = async (loanId: string): Promise<GuarantorRecovery[]> => {
+  const { data, error } = await supabase
+    .from('guarantor_recoveries')
+    .select('*')
+    .eq('loan_id', loanId)
+    .order('recovered_at', { ascending: false });
+  if (error) throw error;
+
+  const recoveries = data || [];
+  if (recoveries.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from('members')
+    .select('id, full_name')
+    .in('id', [...new Set(recoveries.map(r => r.guarantor_member_id))]);
+  if (membersError) throw membersError;
+
+  return recoveries.map(recovery => ({
+    ...recovery,
+    source: recovery.source as GuarantorRecoverySource,
+    guarantor_name: (members || []).find(m => m.id === recovery.guarantor_member_id)?.full_name || 'Unknown Member',
+    amount: toMoney(recovery.amount),
+  }));
+};
+
+export const fetchOverdueInstallments = async (loanId: string): Promise<OverdueInstallment[]> => {
+  const { data, error } = await supabase
+    .from('loan_installments')
+    .select('id, installment_number, due_date, total_amount, amount_paid, is_paid')
+    .eq('loan_id', loanId)
+    .eq('is_paid', false)
+    .lt('due_date', new Date().toISOString().split('T')[0])
+    .order('installment_number');
+  if (error) throw error;
+  return (data || [])
+    .map(installment => ({
+      id: installment.id,
+      installment_number: installment.installment_number,
+      due_date: installment.due_date,
+      unpaid_amount: Math.round((toMoney(installment.total_amount) - toMoney(installment.amount_paid)) * 100) / 100,
+    }))
+    .filter(installment => installment.unpaid_amount > 0);
+};
+
+export const recoverFromGuarantor = async (loanGuarantorId: string, request: GuarantorRecoveryRequest): Promise<string> => {
+  const { data, error } = await supabase.rpc('recover_from_guarantor', {
+    p_loan_guarantor_id: loanGuarantorId,
+    p_installment_id: request.installment_id,
+    p_amount: request.amount,
+    p_source: request.source,
+    p_payment_method: request.payment_method || 'cash',
+    p_reference: request.reference || null,
+    p_notes: request.notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const fetchGroupArrears = async (groupId: number): Promise<GroupArrearsEntry[]> => {
+  const { data, error } = await supabase.rpc('group_arrears', { p_group_id: groupId });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    overdue_installments: Number(row.overdue_installments || 0),
+    arrears_amount: toMoney(row.arrears_amount),
+    days_overdue: Number(row.days_overdue || 0),
+    is_defaulter: !!row.is_defaulter,
+  }));
+};
+
+// Why the group's members cannot borrow, or null when they can
+export const fetchGroupLendingBlockReason = async (groupId: number | null | undefined): Promise<string | null> => {
+  if (groupId === null || groupId === undefined) return null;
+  const { data, error } = await supabase.rpc('group_lending_block_reason', { p_group_id: groupId });
+  if (error) throw error;
+  return (data as string) || null;
+};
+
+export const fetchGroupArrearsSettings = async (): Promise<GroupArrearsSettings> => {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('*')
+    .eq('id', 1)
+    .single();
+  if (error) throw error;
+  return {
+    group_arrears_days: Number(data?.group_arrears_days ?? 30),
+    group_max_defaulters: Number(data?.group_max_defaulters ?? 0),
+  };
+};
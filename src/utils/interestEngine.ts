@@ -0,0 +1,150 @@
+// Interest Engine
+// Builds repayment schedules for every supported interest method. The database
+// function public.build_loan_schedule implements the exact same steps, so a
+// schedule previewed in the loan form is the schedule stored in loan_installments.
+// Keep the two in lock-step: any change here must be mirrored in SQL.
+
+import type { InterestMethod } from '@/types';
+
+export interface ScheduleParams {
+  principal: number;
+  /**
+   * flat: percentage of principal charged over the whole term.
+   * reducing_balance / interest_only: percentage per installment period.
+   */
+  interestRate: number;
+  interestMethod: InterestMethod;
+  installmentCount: number;
+  installmentType: string;
+  issueDate: string;
+}
+
+export interface ScheduleInstallment {
+  installment_number: number;
+  due_date: string;
+  principal_amount: number;
+  interest_amount: number;
+  total_amount: number;
+  balance_after: number;
+}
+
+export interface ScheduleSummary {
+  total_interest: number;
+  total_repayable: number;
+  first_installment: number;
+}
+
+// Snap float noise before rounding so 30.8625 never becomes 30.862499999 -> 30.86
+// when Postgres NUMERIC would round the exact value. Half-up, like ROUND(numeric, 2).
+export const roundMoney = (value: number): number =>
+  Math.round(Number((value * 100).toPrecision(12))) / 100;
+
+// Mirrors public.installment_due_date in the database
+export const getInstallmentDueDate = (issueDate: string, installmentType: string, installmentNumber: number): string => {
+  const dueDate = new Date(`${issueDate}T00:00:00Z`);
+  if (installmentType === 'daily') {
+    dueDate.setUTCDate(dueDate.getUTCDate() + installmentNumber);
+  } else if (installmentType === 'monthly') {
+    // Clamp to the month end like Postgres: Jan 31 + 1 month = Feb 28, not Mar 3
+    const day = dueDate.getUTCDate();
+    dueDate.setUTCDate(1);
+    dueDate.setUTCMonth(dueDate.getUTCMonth() + installmentNumber);
+    const monthEnd = new Date(Date.UTC(dueDate.getUTCFullYear(), dueDate.getUTCMonth() + 1, 0)).getUTCDate();
+    dueDate.setUTCDate(Math.min(day, monthEnd));
+  } else {
+    dueDate.setUTCDate(dueDate.getUTCDate() + installmentNumber * 7);
+  }
+  return dueDate.toISOString().split('T')[0];
+};
+
+const flatSchedule = (principal: number, rate: number, count: number) => {
+  const totalInterest = roundMoney(principal * rate / 100);
+  const periodPrincipal = roundMoney(principal / count);
+  const periodInterest = roundMoney(totalInterest / count);
+
+  return Array.from({ length: count }, (_, idx) => {
+    const isLast = idx === count - 1;
+    return {
+      principal: isLast ? roundMoney(principal - periodPrincipal * (count - 1)) : periodPrincipal,
+      interest: isLast ? roundMoney(totalInterest - periodInterest * (count - 1)) : periodInterest,
+    };
+  });
+};
+
+// Equal installments: EMI = P * i / (1 - (1 + i)^-n), interest on the running balance
+const reducingBalanceSchedule = (principal: number, rate: number, count: number) => {
+  const periodRate = rate / 100;
+  const installment = periodRate === 0
+    ? roundMoney(principal / count)
+    : roundMoney(principal * periodRate / (1 - Math.pow(1 + periodRate, -count)));
+
+  let balance = principal;
+  return Array.from({ length: count }, (_, idx) => {
+    const interest = roundMoney(balance * periodRate);
+    const principalPart = idx === count - 1
+      ? balance
+      : roundMoney(Math.min(balance, installment - interest));
+    balance = roundMoney(balance - principalPart);
+    return { principal: principalPart, interest };
+  });
+};
+
+// Interest every period, whole principal with the final installment
+const interestOnlySchedule = (principal: number, rate: number, count: number) => {
+  const interest = roundMoney(principal * rate / 100);
+  return Array.from({ length: count }, (_, idx) => ({
+    principal: idx === count - 1 ? principal : 0,
+    interest,
+  }));
+};
+
+export const buildRepaymentSchedule = ({
+  principal,
+  interestRate,
+  interestMethod,
+  installmentCount,
+  installmentType,
+  issueDate,
+}: ScheduleParams): ScheduleInstallment[] => {
+  const amount = roundMoney(Number(principal));
+  const count = Math.max(1, Math.floor(installmentCount));
+  const rate = Number(interestRate) || 0;
+
+  const parts = interestMethod === 'reducing_balance'
+    ? reducingBalanceSchedule(amount, rate, count)
+    : interestMethod === 'interest_only'
+      ? interestOnlySchedule(amount, rate, count)
+      : flatSchedule(amount, rate, count);
+
+  let balance = amount;
+  return parts.map((part, idx) => {
+    balance = roundMoney(balance - part.principal);
+    return {
+      installment_number: idx + 1,
+      due_date: issueDate ? getInstallmentDueDate(issueDate, installmentType, idx + 1) : '',
+      principal_amount: part.principal,
+      interest_amount: part.interest,
+      total_amount: roundMoney(part.principal + part.interest),
+      balance_after: balance,
+    };
+  });
+};
+
+export const summarizeSchedule = (schedule: ScheduleInstallment[]): ScheduleSummary => {
+  const totalInterest = roundMoney(schedule.reduce((sum, row) => sum + row.interest_amount, 0));
+  const totalRepayable = roundMoney(schedule.reduce((sum, row) => sum + row.total_amount, 0));
+  return {
+    total_interest: totalInterest,
+    total_repayable: totalRepayable,
+    first_installment: schedule[0]?.total_amount || 0,
+  };
+};
+
+export const INTEREST_METHOD_LABELS: Record<InterestMethod, string> = {
+  flat: 'Flat',
+  reducing_balance: 'Reducing balance (equal installments)',
+  interest_only: 'Interest only, principal at maturity',
+};
+
+export const interestRateLabel = (method: InterestMethod): string =>
+  method === 'flat' ? '% of principal over term' : '% per installment period';
@@ -0,0 +1,138 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  CashFlowActivity,
+  GlAccount,
+  GlAccountType,
+  JournalEntry,
+  JournalSourceType,
+  ManualJournalLine,
+  TrialBalanceRow,
+} from '@/types';
+
+export const GL_ACCOUNT_TYPES: GlAccountType[] = ['asset', 'liability', 'equity', 'income', 'expense'];
+
+export const GL_ACCOUNT_TYPE_LABELS: Record<GlAccountType, string> = {
+  asset: 'Assets',
+  liability: 'Liabilities',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expenses',
+};
+
+export const CASH_FLOW_ACTIVITY_LABELS: Record<CashFlowActivity, string> = {
+  operating: 'Operating',
+  investing: 'Investing',
+  financing: 'Financing',
+};
+
+export const JOURNAL_SOURCE_LABELS: Record<JournalSourceType, string> = {
+  opening_balance: 'Opening balance',
+  disbursement: 'Disbursement',
+  repayment: 'Repayment',
+  penalty: 'Penalty',
+  expense: 'Expense',
+  registration_fee: 'Registration fee',
+  activation_fee: 'Activation fee',
+  provision: 'Provisioning',
+  savings: 'Savings',
+  manual: 'Manual',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+export const fetchGlAccounts = async (): Promise<GlAccount[]> => {
+  const { data, error } = await supabase
+    .from('gl_accounts')
+    .select('code, name, account_type, normal_balance, description, is_system, is_active, is_cash, cash_flow_activity')
+    .order('code');
+  if (error) throw error;
+  return (data || []) as GlAccount[];
+};
+
+export const fetchTrialBalance = async (asOf: string, branchId: number | null): Promise<TrialBalanceRow[]> => {
+  const { data, error } = await supabase.rpc('trial_balance', {
+    p_as_of: asOf,
+    p_branch_id: branchId,
+  });
+  if (error) throw error;
+  return ((data || []) as TrialBalanceRow[]).map(row => ({
+    ...row,
+    total_debit: toMoney(row.total_debit),
+    total_credit: toMoney(row.total_credit),
+    balance_debit: toMoney(row.balance_debit),
+    balance_credit: toMoney(row.balance_credit),
+  }));
+};
+
+// Totals rounded to cents so floating point never shows a phantom difference
+export const summarizeTrialBalance = (rows: TrialBalanceRow[]) => {
+  const debit = Math.round(rows.reduce((sum, row) => sum + row.balance_debit, 0) * 100) / 100;
+  const credit = Math.round(rows.reduce((sum, row) => sum + row.balance_credit, 0) * 100) / 100;
+  return { debit, credit, difference: Math.round((debit - credit) * 100) / 100 };
+};
+
+export const fetchJournalEntries = async (
+  from: string,
+  to: string,
+  branchId: number | null,
+  limit = 200
+): Promise<JournalEntry[]> => {
+  let query = supabase
+    .from('journal_entries')
+    .select(
+      'id, entry_number, entry_date, branch_id, source_type, source_id, description, reversal_of, reversed_by, created_at, branches(name), journal_lines(id, account_code, debit, credit, loan_id, member_id, memo, gl_accounts(name))'
+    )
+    .gte('entry_date', from)
+    .lte('entry_date', to)
+    .order('entry_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (branchId !== null) query = query.eq('branch_id', branchId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(({ branches: branch, journal_lines: lines, ...row }) => {
+    const mapped = (lines || [])
+      .map(({ gl_accounts: account, ...line }) => ({
+        ...line,
+        account_name: account?.name || line.account_code,
+        debit: toMoney(line.debit),
+        credit: toMoney(line.credit),
+      }))
+      .sort((a, b) => b.debit - a.debit || a.id - b.id);
+    return {
+      ...row,
+      source_type: row.source_type as JournalSourceType,
+      branch_id: row.branch_id === null ? null : Number(row.branch_id),
+      branch_name: branch?.name || null,
+      lines: mapped,
+      total: mapped.reduce((sum, line) => sum + line.debit, 0),
+    };
+  });
+};
+
+export const createManualJournalEntry = async (
+  entryDate: string,
+  branchId: number | null,
+  description: string,
+  lines: ManualJournalLine[]
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_manual_journal_entry', {
+    p_entry_date: entryDate,
+    p_branch_id: branchId,
+    p_description: description,
+    p_lines: lines as unknown as Json,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const reverseJournalEntry = async (entryId: string, reason: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('reverse_journal_entry', {
+    p_entry_id: entryId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+  return data as string;
+};
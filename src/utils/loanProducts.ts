@@ -0,0 +1,191 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type {
+  FeeType,
+  InstallmentType,
+  InterestMethod,
+  LoanCalculation,
+  LoanProduct,
+  ProductValidationResult,
+} from '@/types';
+import { buildRepaymentSchedule, getInstallmentDueDate, roundMoney, summarizeSchedule } from '@/utils/interestEngine';
+
+export { getInstallmentDueDate };
+
+const INSTALLMENT_UNITS: Record<InstallmentType, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+};
+
+// Postgres DECIMAL columns can arrive as strings; coerce everything we do maths on
+export const normalizeLoanProduct = (row: Tables<'loan_products'>): LoanProduct => ({
+  ...row,
+  min_amount: Number(row.min_amount || 0),
+  max_amount: row.max_amount === null || row.max_amount === undefined ? null : Number(row.max_amount),
+  amount_levels: (row.amount_levels || []).map(Number).sort((a: number, b: number) => a - b),
+  allowed_installment_types: (row.allowed_installment_types || ['weekly']) as InstallmentType[],
+  interest_method: row.interest_method as InterestMethod,
+  processing_fee_type: row.processing_fee_type as FeeType,
+  penalty_type: row.penalty_type as FeeType,
+  term_lengths: (row.term_lengths || []).map(Number),
+  interest_rate: Number(row.interest_rate || 0),
+  processing_fee_value: Number(row.processing_fee_value || 0),
+  penalty_rate: Number(row.penalty_rate || 0),
+  penalty_grace_days: Number(row.penalty_grace_days || 0),
+  penalty_cap: row.penalty_cap === null || row.penalty_cap === undefined ? null : Number(row.penalty_cap),
+});
+
+export const fetchLoanProducts = async (activeOnly = true): Promise<LoanProduct[]> => {
+  let query = supabase
+    .from('loan_products')
+    .select('*')
+    .order('display_order')
+    .order('name');
+
+  if (activeOnly) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(normalizeLoanProduct);
+};
+
+export const describeTerm = (installmentCount: number, installmentType: InstallmentType | string = 'weekly'): string => {
+  const [singular, plural] = INSTALLMENT_UNITS[installmentType as InstallmentType] || INSTALLMENT_UNITS.weekly;
+  return `${installmentCount} ${installmentCount === 1 ? singular : plural}`;
+};
+
+export const formatProductLabel = (product: LoanProduct): string => {
+  const terms = product.term_lengths
+    .map(term => describeTerm(term, product.allowed_installment_types[0]))
+    .join(' / ');
+  return `${product.name} (${terms}, ${product.interest_rate}% interest)`;
+};
+
+// Application numbers keep the old SL / BL style: initials of the product code
+export const getApplicationPrefix = (code: string): string =>
+  code
+    .split('_')
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase())
+    .join('')
+    .slice(0, 3) || 'LN';
+
+export const calculateProcessingFee = (product: LoanProduct, principal: number): number =>
+  product.processing_fee_type === 'fixed'
+    ? roundMoney(product.processing_fee_value)
+    : roundMoney(principal * (product.processing_fee_value / 100));
+
+export const calculateLoanDetails = (
+  product: LoanProduct,
+  principal: number,
+  installmentCount?: number,
+  installmentType?: string
+): LoanCalculation => {
+  const principalNum = Number(principal);
+  const count = installmentCount || product.term_lengths[0];
+  const { total_interest } = summarizeSchedule(buildRepaymentSchedule({
+    principal: principalNum,
+    interestRate: product.interest_rate,
+    interestMethod: product.interest_method,
+    installmentCount: count,
+    installmentType: installmentType || product.allowed_installment_types[0],
+    issueDate: '',
+  }));
+
+  return {
+    interest_rate: product.interest_rate,
+    interest_method: product.interest_method,
+    installment_count: count,
+    processing_fee: calculateProcessingFee(product, principalNum),
+    interest_amount: total_interest,
+    total_disbursed: roundMoney(principalNum + total_interest),
+  };
+};
+
+export const validateProductAmount = (
+  product: LoanProduct,
+  amount: number,
+  userRole: string
+): ProductValidationResult => {
+  if (amount < product.min_amount) {
+    return {
+      isValid: false,
+      message: `${product.name} requires at least KES ${product.min_amount.toLocaleString()}`,
+      suggestedAmount: product.min_amount,
+    };
+  }
+
+  if (product.max_amount !== null && product.max_amount !== undefined && amount > product.max_amount) {
+    return {
+      isValid: false,
+      message: `${product.name} allows at most KES ${product.max_amount.toLocaleString()}`,
+      suggestedAmount: product.max_amount,
+    };
+  }
+
+  // Admins may skip increment levels; products without a ladder accept any amount in band
+  if (userRole === 'super_admin' || userRole === 'admin' || product.amount_levels.length === 0) {
+    return { isValid: true };
+  }
+
+  const levels = product.amount_levels;
+  const currentLevel = levels.find(level => level >= amount);
+
+  if (!currentLevel) {
+    return {
+      isValid: false,
+      message: `Maximum loan amount is KES ${levels[levels.length - 1].toLocaleString()}`,
+      suggestedAmount: levels[levels.length - 1],
+    };
+  }
+
+  const currentLevelIndex = levels.indexOf(currentLevel);
+  const previousLevel = currentLevelIndex > 0 ? levels[currentLevelIndex - 1] : 0;
+
+  // Allow borrowing less than previous amount
+  if (amount <= previousLevel) {
+    return { isValid: true };
+  }
+
+  if (amount !== currentLevel) {
+    return {
+      isValid: false,
+      message: `Loan amount must follow increment levels. Next available amount is KES ${currentLevel.toLocaleString()}`,
+      suggestedAmount: currentLevel,
+    };
+  }
+
+  return { isValid: true };
+};
+
+export const validateProductTerms = (
+  product: LoanProduct,
+  installmentType: string,
+  installmentCount?: number
+): ProductValidationResult => {
+  if (!product.allowed_installment_types.includes(installmentType as InstallmentType)) {
+    return {
+      isValid: false,
+      message: `${product.name} must be paid in ${product.allowed_installment_types.join(' or ')} installments`,
+    };
+  }
+
+  if (installmentCount && !product.term_lengths.includes(installmentCount)) {
+    return {
+      isValid: false,
+      message: `${product.name} is offered over ${product.term_lengths.join(' or ')} installments only`,
+    };
+  }
+
+  return { isValid: true };
+};
+
+// Loans still carry term_months for reporting; round the term up to whole months
+export const getTermMonths = (installmentType: string, installmentCount: number): number => {
+  if (installmentType === 'monthly') return installmentCount;
+  const days = installmentType === 'daily' ? installmentCount : installmentCount * 7;
+  return Math.max(1, Math.ceil(days / 30));
+};
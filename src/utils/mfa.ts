@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MfaEnrollmentRow, MfaPolicyRole, MfaSessionStatus } from '@/types';
+
+export const MFA_POLICY_ROLES: MfaPolicyRole[] = ['super_admin', 'admin', 'branch_admin', 'loan_officer', 'teller', 'auditor'];
+
+export const MFA_POLICY_ROLE_LABELS: Record<MfaPolicyRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  branch_admin: 'Branch Admin',
+  loan_officer: 'Loan Officer',
+  teller: 'Teller',
+  auditor: 'Auditor',
+};
+
+// Read on the server from the session's JWT, so it cannot be faked in the browser
+export const fetchMfaSessionStatus = async (): Promise<MfaSessionStatus> => {
+  const { data, error } = await supabase.rpc('get_mfa_session_status');
+  if (error) throw error;
+  const row = ((data || []) as MfaSessionStatus[])[0];
+  if (!row) throw new Error('MFA status unavailable');
+  return { ...row, recovery_codes_remaining: Number(row.recovery_codes_remaining || 0) };
+};
+
+// Plain codes are only ever returned here; the database keeps hashes
+export const generateRecoveryCodes = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw error;
+  return (data as string[]) || [];
+};
+
+export const redeemRecoveryCode = async (code: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', { p_code: code });
+  if (error) throw error;
+  return Boolean(data);
+};
+
+export const fetchMfaEnrollmentReport = async (): Promise<MfaEnrollmentRow[]> => {
+  const { data, error } = await supabase.rpc('mfa_enrollment_report');
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    recovery_codes_remaining: Number(row.recovery_codes_remaining || 0),
+  }));
+};
@@ -0,0 +1,63 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { MobileMoneyMatchMethod, MobileMoneyReceipt, MobileMoneyReceiptStatus, SuspenseLoanOption } from '@/types';
+
+export const MATCH_METHOD_LABELS: Record<MobileMoneyMatchMethod, string> = {
+  loan_account: 'Loan account number',
+  member_id_number: 'Member ID number',
+  manual: 'Manual allocation',
+};
+
+export const fetchMobileMoneyReceipts = async (status: MobileMoneyReceiptStatus | 'all'): Promise<MobileMoneyReceipt[]> => {
+  let query = supabase
+    .from('mobile_money_receipts')
+    .select('*')
+    .order('received_at', { ascending: false })
+    .limit(500);
+
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data || []) as MobileMoneyReceipt[]).map(row => ({ ...row, amount: Number(row.amount || 0) }));
+};
+
+// Open loans matching a member name, phone, ID number or account number
+export const searchSuspenseLoans = async (term: string): Promise<SuspenseLoanOption[]> => {
+  const search = term.trim().replace(/[,()%]/g, ' ');
+  if (search.length < 2) return [];
+
+  const { data, error } = await supabase
+    .from('loans_with_details')
+    .select('id, account_number, member_name, member_id_number, current_balance, status')
+    .in('status', ['active', 'disbursed', 'defaulted'])
+    .or(`member_name.ilike.%${search}%,account_number.ilike.%${search}%,member_id_number.ilike.%${search}%,member_phone.ilike.%${search}%`)
+    .limit(10);
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, current_balance: Number(row.current_balance || 0) }));
+};
+
+export const allocateMobileMoneyReceipt = async (receiptId: string, loanId: string, notes?: string): Promise<void> => {
+  const { error } = await supabase.rpc('allocate_mobile_money_receipt', {
+    p_receipt_id: receiptId,
+    p_loan_id: loanId,
+    p_notes: notes || null,
+  });
+  if (error) throw error;
+};
+
+export const retryReceiptMatch = async (receiptId: string): Promise<MobileMoneyReceiptStatus> => {
+  const { data, error } = await supabase.rpc('match_mobile_money_receipt', { p_receipt_id: receiptId });
+  if (error) throw error;
+  return data as MobileMoneyReceiptStatus;
+};
+
+export const dismissMobileMoneyReceipt = async (receiptId: string, reason: string): Promise<void> => {
+  const { error } = await supabase.rpc('dismiss_mobile_money_receipt', {
+    p_receipt_id: receiptId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+};
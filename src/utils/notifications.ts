@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { AppNotification, NotificationCategory, NotificationType } from '@/types';
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  general: 'General',
+  loan_pending_approval: 'Pending approval',
+  installment_overdue: 'Overdue installment',
+  large_expense: 'Large expense',
+  backup_failed: 'Backup failed',
+  change_request: 'Change request',
+};
+
+export const normalizeNotification = (row: Tables<'notifications'>): AppNotification => ({
+  ...row,
+  type: (row.type || 'info') as NotificationType,
+  category: (row.category || 'general') as NotificationCategory,
+  is_read: !!row.is_read,
+});
+
+export const fetchNotifications = async (userId: string, limit = 100): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(normalizeNotification);
+};
+
+// Counted in the database so it is right even beyond the loaded page
+export const fetchUnreadNotificationCount = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+  if (error) throw error;
+  return count || 0;
+};
+
+export const markNotificationsRead = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('is_read', false);
+  if (error) throw error;
+};
+
+// Page a notification opens, if it is about something the app can show
+export const getNotificationLink = (notification: AppNotification): string | null => {
+  switch (notification.related_entity_type) {
+    case 'loan':
+      return notification.category === 'loan_pending_approval'
+        ? '/loans/approvals'
+        : notification.related_entity_id ? `/loans/${notification.related_entity_id}` : null;
+    case 'expense':
+      return '/expenses';
+    case 'backup':
+      return '/backups';
+    case 'pending_change':
+      return '/loans/changes';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AgingBucket, AgingBucketRow, LoanArrearsPosition, ParBreakdownRow, ParDimension, ParSnapshotPoint } from '@/types';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', '1_30', '31_60', '61_90', '91_180', 'over_180'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  '1_30': '1-30 days',
+  '31_60': '31-60 days',
+  '61_90': '61-90 days',
+  '91_180': '91-180 days',
+  over_180: 'Over 180 days',
+};
+
+export const PAR_DIMENSION_LABELS: Record<ParDimension, string> = {
+  branch: 'Branch',
+  officer: 'Loan Officer',
+  group: 'Group',
+  product: 'Product',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+const percentOf = (part: number, whole: number): number => (whole > 0 ? (part / whole) * 100 : 0);
+
+const dimensionKey = (position: LoanArrearsPosition, dimension: ParDimension): { key: string; label: string } => {
+  switch (dimension) {
+    case 'branch':
+      return { key: String(position.branch_id ?? 'none'), label: position.branch_name || 'No branch' };
+    case 'officer':
+      return { key: position.loan_officer_id || 'none', label: position.loan_officer_name || 'Unassigned' };
+    case 'group':
+      return { key: String(position.group_id ?? 'none'), label: position.group_name || 'Individual loans' };
+    case 'product':
+      return { key: position.product_code || 'none', label: position.product_name || position.product_code || 'No product' };
+  }
+};
+
+export const fetchLoanArrearsPositions = async (asOf?: string): Promise<LoanArrearsPosition[]> => {
+  const { data, error } = await supabase.rpc('loan_arrears_positions', asOf ? { p_as_of: asOf } : {});
+  if (error) throw error;
+  return ((data || []) as LoanArrearsPosition[]).map(row => ({
+    ...row,
+    outstanding_principal: toMoney(row.outstanding_principal),
+    arrears_amount: toMoney(row.arrears_amount),
+    days_in_arrears: Number(row.days_in_arrears || 0),
+  }));
+};
+
+const emptyRow = (key: string, label: string): ParBreakdownRow => ({
+  key,
+  label,
+  loans_count: 0,
+  outstanding_principal: 0,
+  par1_amount: 0,
+  par30_amount: 0,
+  par60_amount: 0,
+  par90_amount: 0,
+  par1: 0,
+  par30: 0,
+  par60: 0,
+  par90: 0,
+});
+
+const addPosition = (row: ParBreakdownRow, position: LoanArrearsPosition) => {
+  row.loans_count += 1;
+  row.outstanding_principal += position.outstanding_principal;
+  if (position.days_in_arrears > 0) row.par1_amount += position.outstanding_principal;
+  if (position.days_in_arrears > 30) row.par30_amount += position.outstanding_principal;
+  if (position.days_in_arrears > 60) row.par60_amount += position.outstanding_principal;
+  if (position.days_in_arrears > 90) row.par90_amount += position.outstanding_principal;
+};
+
+const withRatios = (row: ParBreakdownRow): ParBreakdownRow => ({
+  ...row,
+  par1: percentOf(row.par1_amount, row.outstanding_principal),
+  par30: percentOf(row.par30_amount, row.outstanding_principal),
+  par60: percentOf(row.par60_amount, row.outstanding_principal),
+  par90: percentOf(row.par90_amount, row.outstanding_principal),
+});
+
+export const summarizePortfolio = (positions: LoanArrearsPosition[]): ParBreakdownRow => {
+  const total = emptyRow('total', 'Total');
+  positions.forEach(position => addPosition(total, position));
+  return withRatios(total);
+};
+
+// Worst PAR30 first, so the riskiest part of the portfolio heads the table
+export const summarizePar = (positions: LoanArrearsPosition[], dimension: ParDimension): ParBreakdownRow[] => {
+  const rows = new Map<string, ParBreakdownRow>();
+  positions.forEach(position => {
+    const { key, label } = dimensionKey(position, dimension);
+    if (!rows.has(key)) rows.set(key, emptyRow(key, label));
+    addPosition(rows.get(key)!, position);
+  });
+  return Array.from(rows.values())
+    .map(withRatios)
+    .sort((a, b) => b.par30 - a.par30 || b.outstanding_principal - a.outstanding_principal);
+};
+
+export const buildAgingBuckets = (positions: LoanArrearsPosition[]): AgingBucketRow[] => {
+  const total = positions.reduce((sum, position) => sum + position.outstanding_principal, 0);
+  return AGING_BUCKETS.map(bucket => {
+    const inBucket = positions.filter(position => position.aging_bucket === bucket);
+    const principal = inBucket.reduce((sum, position) => sum + position.outstanding_principal, 0);
+    return {
+      bucket,
+      loans_count: inBucket.length,
+      outstanding_principal: principal,
+      share: percentOf(principal, total),
+    };
+  });
+};
+
+// Snapshots are stored per branch and officer; RLS limits them to the user's scope
+export const fetchParTrend = async (days: number): Promise<ParSnapshotPoint[]> => {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  const { data, error } = await supabase
+    .from('par_snapshots')
+    .select('snapshot_date, outstanding_principal, par1_amount, par30_amount, par60_amount, par90_amount')
+    .gte('snapshot_date', since.toISOString().split('T')[0])
+    .order('snapshot_date', { ascending: true });
+  if (error) throw error;
+
+  const byDate = new Map<string, { principal: number; par1: number; par30: number; par60: number; par90: number }>();
+  (data || []).forEach(row => {
+    const point = byDate.get(row.snapshot_date) || { principal: 0, par1: 0, par30: 0, par60: 0, par90: 0 };
+    point.principal += toMoney(row.outstanding_principal);
+    point.par1 += toMoney(row.par1_amount);
+    point.par30 += toMoney(row.par30_amount);
+    point.par60 += toMoney(row.par60_amount);
+    point.par90 += toMoney(row.par90_amount);
+    byDate.set(row.snapshot_date, point);
+  });
+
+  return Array.from(byDate.entries()).map(([snapshotDate, point]) => ({
+    snapshot_date: snapshotDate,
+    outstanding_principal: point.principal,
+    par1: Number(percentOf(point.par1, point.principal).toFixed(2)),
+    par30: Number(percentOf(point.par30, point.principal).toFixed(2)),
+    par60: Number(percentOf(point.par60, point.principal).toFixed(2)),
+    par90: Number(percentOf(point.par90, point.principal).toFixed(2)),
+  }));
+};
+
+export const captureParSnapshot = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('capture_par_snapshot');
+  if (error) throw error;
+  return Number(data || 0);
+};
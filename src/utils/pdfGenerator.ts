@@ -32,6 +32,40 @@ export interface InstallmentSchedule {
   }>;
 }
 
+export interface SettlementQuoteDocument {
+  loanAccount: string;
+  memberName: string;
+  branch: string;
+  loanOfficer: string;
+  asOfDate: string;
+  rebatePolicy: string;
+  principalOutstanding: number;
+  interestOutstanding: number;
+  feesOutstanding: number;
+  interestRebate: number;
+  penaltiesOutstanding: number;
+  settlementAmount: number;
+  remainingInstallments: number;
+}
+
+export interface CollectionSheetDocument {
+  groupName: string;
+  branch: string;
+  meetingDate: string;
+  meetingTime?: string | null;
+  loanOfficer: string;
+  recorded: boolean;
+  rows: Array<{
+    memberName: string;
+    loanAccount: string;
+    currentDue: number;
+    arrearsDue: number;
+    totalDue: number;
+    attendance?: string;
+    collected?: number;
+  }>;
+}
+
 export const generatePaymentReceipt = (receipt: PaymentReceipt): void => {
   const receiptHTML = `
     <!DOCTYPE html>
@@ -445,7 +479,7 @@ export const generateInstallmentSchedulePDF = (schedule: InstallmentSchedule): v
             </div>
             <div class="info-item">
               <span class="info-label">Loan Program:</span>
-              <span class="info-value">${schedule.loanProgram === 'small_loan' ? 'Small Loan (8 weeks)' : 'Big Loan (12 weeks)'}</span>
+              <span class="info-value">${schedule.loanProgram === 'small_loan' ? 'Small Loan (8 weeks)' : schedule.loanProgram === 'big_loan' ? 'Big Loan (12 weeks)' : schedule.loanProgram}</span>
             </div>
             <div class="info-item">
               <span class="info-label">Installment Type:</span>
@@ -516,3 +550,447 @@ export const generateInstallmentSchedulePDF = (schedule: InstallmentSchedule): v
     printWindow.focus();
   }
 };
+
+export const generateSettlementQuotePDF = (quote: SettlementQuoteDocument): void => {
+  const lines = [
+    { label: 'Outstanding Principal', value: quote.principalOutstanding },
+    { label: 'Outstanding Interest', value: quote.interestOutstanding },
+    { label: 'Outstanding Fees', value: quote.feesOutstanding },
+    { label: `Less: Interest Rebate (${quote.rebatePolicy})`, value: -quote.interestRebate },
+    { label: 'Accrued Penalties', value: quote.penaltiesOutstanding },
+  ];
+
+  const quoteHTML = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Settlement Quote - ${quote.loanAccount}</title>
+      <style>
+        @media print {
+          body { margin: 0; padding: 20px; }
+          .no-print { display: none; }
+        }
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          margin: 0;
+          padding: 20px;
+          background: white;
+        }
+        .quote {
+          max-width: 800px;
+          margin: 0 auto;
+          border: 2px solid #1f2937;
+          border-radius: 8px;
+          overflow: hidden;
+        }
+        .header {
+          background: linear-gradient(135deg, #059669, #10b981);
+          color: white;
+          padding: 20px;
+          text-align: center;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          margin-bottom: 10px;
+        }
+        .subtitle {
+          font-size: 14px;
+          opacity: 0.9;
+        }
+        .content {
+          padding: 30px;
+        }
+        .quote-title {
+          text-align: center;
+          font-size: 28px;
+          font-weight: bold;
+          color: #1f2937;
+          margin-bottom: 10px;
+        }
+        .quote-date {
+          text-align: center;
+          font-size: 16px;
+          color: #6b7280;
+          margin-bottom: 30px;
+          border-bottom: 2px solid #e5e7eb;
+          padding-bottom: 15px;
+        }
+        .info-grid {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 20px;
+          margin-bottom: 30px;
+        }
+        .info-item {
+          padding: 15px;
+          background: #f9fafb;
+          border-radius: 6px;
+          border-left: 4px solid #059669;
+        }
+        .info-label {
+          font-size: 12px;
+          color: #6b7280;
+          text-transform: uppercase;
+          font-weight: 600;
+          margin-bottom: 5px;
+        }
+        .info-value {
+          font-size: 16px;
+          color: #1f2937;
+          font-weight: 600;
+        }
+        .breakdown {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        .breakdown td {
+          padding: 12px;
+          border-bottom: 1px solid #e5e7eb;
+        }
+        .breakdown td:last-child {
+          text-align: right;
+          font-weight: 600;
+        }
+        .amount-section {
+          text-align: center;
+          padding: 30px;
+          background: #f0fdf4;
+          border-radius: 8px;
+          margin: 30px 0 0;
+        }
+        .amount-label {
+          font-size: 16px;
+          color: #059669;
+          margin-bottom: 10px;
+        }
+        .amount-value {
+          font-size: 36px;
+          font-weight: bold;
+          color: #059669;
+        }
+        .footer {
+          text-align: center;
+          padding: 20px;
+          color: #6b7280;
+          font-size: 12px;
+          border-top: 1px solid #e5e7eb;
+        }
+        .print-button {
+          position: fixed;
+          top: 20px;
+          right: 20px;
+          background: #059669;
+          color: white;
+          border: none;
+          padding: 12px 24px;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 16px;
+          z-index: 1000;
+        }
+        .print-button:hover {
+          background: #047857;
+        }
+      </style>
+    </head>
+    <body>
+      <button class="print-button no-print" onclick="window.print()">
+        🖨️ Print Quote
+      </button>
+
+      <div class="quote">
+        <div class="header">
+          <div class="logo">PETT VISION</div>
+          <div class="subtitle">Empowering Communities Through Financial Inclusion</div>
+        </div>
+
+        <div class="content">
+          <div class="quote-title">EARLY SETTLEMENT QUOTE</div>
+          <div class="quote-date">Amount to close the loan on ${new Date(quote.asOfDate).toLocaleDateString()}</div>
+
+          <div class="info-grid">
+            <div class="info-item">
+              <div class="info-label">Member Name</div>
+              <div class="info-value">${quote.memberName}</div>
+            </div>
+            <div class="info-item">
+              <div class="info-label">Loan Account</div>
+              <div class="info-value">${quote.loanAccount}</div>
+            </div>
+            <div class="info-item">
+              <div class="info-label">Branch</div>
+              <div class="info-value">${quote.branch}</div>
+            </div>
+            <div class="info-item">
+              <div class="info-label">Loan Officer</div>
+              <div class="info-value">${quote.loanOfficer}</div>
+            </div>
+          </div>
+
+          <table class="breakdown">
+            <tbody>
+              ${lines.map(line => `
+                <tr>
+                  <td>${line.label}</td>
+                  <td>${line.value < 0 ? '- ' : ''}KES ${Math.abs(line.value).toLocaleString()}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+
+          <div class="amount-section">
+            <div class="amount-label">Settlement Amount</div>
+            <div class="amount-value">KES ${quote.settlementAmount.toLocaleString()}</div>
+          </div>
+        </div>
+
+        <div class="footer">
+          <p>Paying this amount on ${new Date(quote.asOfDate).toLocaleDateString()} closes the loan and its ${quote.remainingInstallments} remaining installment(s).</p>
+          <p>The quote is only valid for that date and changes if payments or penalties are posted before then.</p>
+          <p>Generated on ${new Date().toLocaleString()}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(quoteHTML);
+    printWindow.document.close();
+    printWindow.focus();
+  }
+};
+
+export const generateCollectionSheetPDF = (sheet: CollectionSheetDocument): void => {
+  const money = (value: number) => `KES ${(value || 0).toLocaleString()}`;
+  const totals = sheet.rows.reduce(
+    (sum, row) => ({
+      currentDue: sum.currentDue + row.currentDue,
+      arrearsDue: sum.arrearsDue + row.arrearsDue,
+      totalDue: sum.totalDue + row.totalDue,
+      collected: sum.collected + (row.collected || 0),
+    }),
+    { currentDue: 0, arrearsDue: 0, totalDue: 0, collected: 0 }
+  );
+  const present = sheet.rows.filter(row => row.attendance === 'Present').length;
+
+  const sheetHTML = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Collection Sheet - ${sheet.groupName} - ${sheet.meetingDate}</title>
+      <style>
+        @page { size: A4 landscape; }
+        @media print {
+          body { margin: 0; padding: 10px; }
+          .no-print { display: none; }
+        }
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          margin: 0;
+          padding: 20px;
+          background: white;
+          color: #1f2937;
+        }
+        .header {
+          background: linear-gradient(135deg, #059669, #10b981);
+          color: white;
+          padding: 16px 20px;
+          border-radius: 8px 8px 0 0;
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+        .logo {
+          font-size: 22px;
+          font-weight: bold;
+        }
+        .sheet-title {
+          font-size: 18px;
+          font-weight: 600;
+        }
+        .info {
+          display: grid;
+          grid-template-columns: repeat(4, 1fr);
+          gap: 12px;
+          padding: 16px 0;
+          border-bottom: 2px solid #e5e7eb;
+          margin-bottom: 16px;
+        }
+        .info-label {
+          font-size: 11px;
+          color: #6b7280;
+          text-transform: uppercase;
+          font-weight: 600;
+        }
+        .info-value {
+          font-size: 14px;
+          font-weight: 600;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+        }
+        th, td {
+          border: 1px solid #d1d5db;
+          padding: 8px;
+          text-align: left;
+        }
+        th {
+          background: #f3f4f6;
+          font-weight: 600;
+        }
+        td.amount, th.amount {
+          text-align: right;
+        }
+        td.blank {
+          min-width: 90px;
+        }
+        tfoot td {
+          font-weight: bold;
+          background: #f9fafb;
+        }
+        .signatures {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 40px;
+          margin-top: 48px;
+        }
+        .signature-line {
+          border-top: 1px solid #1f2937;
+          padding-top: 6px;
+          font-size: 12px;
+        }
+        .signature-date {
+          margin-top: 24px;
+          font-size: 12px;
+          color: #6b7280;
+        }
+        .footer {
+          margin-top: 24px;
+          font-size: 11px;
+          color: #6b7280;
+          text-align: center;
+        }
+        .print-button {
+          position: fixed;
+          top: 20px;
+          right: 20px;
+          background: #059669;
+          color: white;
+          border: none;
+          padding: 12px 24px;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 16px;
+          z-index: 1000;
+        }
+        .print-button:hover {
+          background: #047857;
+        }
+      </style>
+    </head>
+    <body>
+      <button class="print-button no-print" onclick="window.print()">
+        🖨️ Print Sheet
+      </button>
+
+      <div class="header">
+        <div class="logo">PETT VISION</div>
+        <div class="sheet-title">GROUP COLLECTION SHEET</div>
+      </div>
+
+      <div class="info">
+        <div>
+          <div class="info-label">Group</div>
+          <div class="info-value">${sheet.groupName}</div>
+        </div>
+        <div>
+          <div class="info-label">Branch</div>
+          <div class="info-value">${sheet.branch}</div>
+        </div>
+        <div>
+          <div class="info-label">Meeting</div>
+          <div class="info-value">${new Date(sheet.meetingDate).toLocaleDateString()}${sheet.meetingTime ? ` at ${sheet.meetingTime.slice(0, 5)}` : ''}</div>
+        </div>
+        <div>
+          <div class="info-label">Loan Officer</div>
+          <div class="info-value">${sheet.loanOfficer}</div>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Member</th>
+            <th>Loan</th>
+            <th class="amount">Current Due</th>
+            <th class="amount">Arrears</th>
+            <th class="amount">Total Due</th>
+            <th>Attendance</th>
+            <th class="amount">Collected</th>
+            <th>Member Signature</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${sheet.rows.map((row, index) => `
+            <tr>
+              <td>${index + 1}</td>
+              <td>${row.memberName}</td>
+              <td>${row.loanAccount || '-'}</td>
+              <td class="amount">${money(row.currentDue)}</td>
+              <td class="amount">${row.arrearsDue > 0 ? money(row.arrearsDue) : '-'}</td>
+              <td class="amount">${money(row.totalDue)}</td>
+              <td class="${sheet.recorded ? '' : 'blank'}">${sheet.recorded ? row.attendance || '' : ''}</td>
+              <td class="amount ${sheet.recorded ? '' : 'blank'}">${sheet.recorded ? money(row.collected || 0) : ''}</td>
+              <td class="blank"></td>
+            </tr>
+          `).join('')}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colspan="3">Totals${sheet.recorded ? ` (${present} of ${sheet.rows.length} present)` : ''}</td>
+            <td class="amount">${money(totals.currentDue)}</td>
+            <td class="amount">${money(totals.arrearsDue)}</td>
+            <td class="amount">${money(totals.totalDue)}</td>
+            <td></td>
+            <td class="amount">${sheet.recorded ? money(totals.collected) : ''}</td>
+            <td></td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <div class="signatures">
+        <div>
+          <div class="signature-line">Loan Officer: ${sheet.loanOfficer}</div>
+          <div class="signature-date">Date: ____________________</div>
+        </div>
+        <div>
+          <div class="signature-line">Group Chairperson</div>
+          <div class="signature-date">Date: ____________________</div>
+        </div>
+        <div>
+          <div class="signature-line">Group Treasurer</div>
+          <div class="signature-date">Date: ____________________</div>
+        </div>
+      </div>
+
+      <div class="footer">
+        <p>Current due covers installments falling due in the week up to the meeting; arrears are older unpaid installments.</p>
+        <p>Generated on ${new Date().toLocaleString()}</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(sheetHTML);
+    printWindow.document.close();
+    printWindow.focus();
+  }
+};
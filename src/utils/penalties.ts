@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { LoanPenalty, PenaltyAccrualResult, PenaltySummary } from '@/types';
+import { roundMoney } from '@/utils/interestEngine';
+
+export const fetchLoanPenalties = async (loanId: string): Promise<LoanPenalty[]> => {
+  const { data, error } = await supabase
+    .from('loan_penalties')
+    .select('*')
+    .eq('loan_id', loanId)
+    .order('accrual_date', { ascending: false })
+    .order('installment_number');
+
+  if (error) throw error;
+  return ((data || []) as LoanPenalty[]).map(row => ({
+    ...row,
+    amount: Number(row.amount || 0),
+    base_amount: Number(row.base_amount || 0),
+    penalty_rate: Number(row.penalty_rate || 0),
+  }));
+};
+
+// Outstanding (accrued) penalties per installment number; waived and paid charges are reported separately
+export const summarizePenalties = (penalties: LoanPenalty[]): PenaltySummary =>
+  penalties.reduce<PenaltySummary>((summary, penalty) => {
+    if (penalty.status === 'waived') {
+      summary.waived = roundMoney(summary.waived + penalty.amount);
+    } else if (penalty.status === 'paid') {
+      summary.paid = roundMoney(summary.paid + penalty.amount);
+    } else {
+      summary.accrued = roundMoney(summary.accrued + penalty.amount);
+      summary.byInstallment[penalty.installment_number] = roundMoney(
+        (summary.byInstallment[penalty.installment_number] || 0) + penalty.amount
+      );
+    }
+    return summary;
+  }, { accrued: 0, waived: 0, paid: 0, byInstallment: {} });
+
+export const waiveLoanPenalties = async (loanId: string, reason: string, penaltyIds?: string[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('waive_loan_penalties', {
+    p_loan_id: loanId,
+    p_reason: reason,
+    p_penalty_ids: penaltyIds && penaltyIds.length > 0 ? penaltyIds : null,
+  });
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+export const runPenaltyAccrual = async (): Promise<PenaltyAccrualResult> => {
+  const { data, error } = await supabase.rpc('accrue_loan_penalties');
+  if (error) throw error;
+  const row = data?.[0];
+  return {
+    penalties_created: Number(row?.penalties_created || 0),
+    loans_charged: Number(row?.loans_charged || 0),
+    total_amount: Number(row?.total_amount || 0),
+  };
+};
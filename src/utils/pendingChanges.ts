@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { PendingChange, PendingChangeRow, PendingChangeStatus, PendingChangeType } from '@/types';
+
+export const PENDING_CHANGE_TYPE_LABELS: Record<PendingChangeType, string> = {
+  loan_edit: 'Loan edit',
+  loan_delete: 'Loan deletion',
+  loan_write_off: 'Loan write-off',
+};
+
+export const PENDING_CHANGE_STATUS_LABELS: Record<PendingChangeStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Withdrawn',
+};
+
+// Mirrors public.loan_editable_columns: once disbursed, terms change by restructuring
+export const loanEditableFields = (status: string): string[] =>
+  status === 'pending'
+    ? [
+        'loan_program', 'principal_amount', 'interest_rate', 'interest_method', 'term_months', 'repayment_schedule',
+        'issue_date', 'maturity_date', 'installment_type', 'installment_count', 'payment_weeks', 'loan_officer_id',
+        'processing_fee', 'interest_disbursed', 'total_disbursed',
+      ]
+    : ['loan_officer_id'];
+
+const sameLoanValue = (before: unknown, after: unknown): boolean => {
+  if ((before ?? null) === null || (after ?? null) === null) return (before ?? null) === (after ?? null);
+  if (typeof before === 'number' || typeof after === 'number') return Number(before) === Number(after);
+  return String(before) === String(after);
+};
+
+// The editable fields of the form values that differ from the loan as loaded
+export const pickLoanChanges = (
+  loan: Record<string, unknown>,
+  values: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    loanEditableFields(String(loan.status))
+      .filter(field => field in values && values[field] !== undefined && !sameLoanValue(loan[field], values[field]))
+      .map(field => [field, values[field]])
+  );
+
+const toPendingChange = (row: Tables<'pending_changes'>): PendingChange => ({
+  ...row,
+  change_type: row.change_type as PendingChangeType,
+  status: row.status as PendingChangeStatus,
+  proposed_values: (row.proposed_values || {}) as Record<string, unknown>,
+  current_values: (row.current_values || {}) as Record<string, unknown>,
+});
+
+const requestPendingChange = async (
+  changeType: PendingChangeType,
+  loanId: string,
+  proposed: Record<string, unknown>,
+  reason: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('request_pending_change', {
+    p_change_type: changeType,
+    p_record_id: loanId,
+    p_proposed: proposed as Json,
+    p_reason: reason,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+// Only the fields that differ are sent; the database drops any that still match
+export const requestLoanEdit = (loanId: string, changes: Record<string, unknown>, reason: string) =>
+  requestPendingChange('loan_edit', loanId, changes, reason);
+
+export const requestLoanDeletion = (loanId: string, reason: string) =>
+  requestPendingChange('loan_delete', loanId, {}, reason);
+
+export const requestLoanWriteOff = (loanId: string, reason: string) =>
+  requestPendingChange('loan_write_off', loanId, {}, reason);
+
+export const fetchPendingChanges = async (status: PendingChangeStatus | 'all', limit = 200): Promise<PendingChangeRow[]> => {
+  let query = supabase
+    .from('pending_changes')
+    .select('*')
+    .order('requested_at', { ascending: status === 'pending' })
+    .limit(limit);
+  if (status !== 'all') query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const changes = (data || []).map(toPendingChange);
+  if (changes.length === 0) return [];
+
+  const loanIds = [...new Set(changes.map(c => c.record_id))];
+  const userIds = [...new Set(changes.flatMap(c => [c.requested_by, c.reviewed_by]).filter(Boolean))] as string[];
+  const [{ data: loans, error: loansError }, { data: profiles, error: profilesError }] = await Promise.all([
+    supabase.from('loans_with_details').select('id, member_name, account_number').in('id', loanIds),
+    supabase.from('profiles').select('id, full_name').in('id', userIds),
+  ]);
+  if (loansError) throw loansError;
+  if (profilesError) throw profilesError;
+
+  return changes.map(change => {
+    const loan = (loans || []).find(l => l.id === change.record_id);
+    const nameOf = (id: string | null) => (profiles || []).find(p => p.id === id)?.full_name || null;
+    return {
+      ...change,
+      member_name: loan?.member_name || 'Unknown',
+      account_number: loan?.account_number || change.record_id.slice(0, 8),
+      requested_by_name: nameOf(change.requested_by) || 'Unknown',
+      reviewed_by_name: nameOf(change.reviewed_by),
+    };
+  });
+};
+
+// The open request on a loan, if any, so the loan pages can say it is waiting
+export const fetchOpenLoanChange = async (loanId: string): Promise<PendingChange | null> => {
+  const { data, error } = await supabase
+    .from('pending_changes')
+    .select('*')
+    .eq('table_name', 'loans')
+    .eq('record_id', loanId)
+    .eq('status', 'pending')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toPendingChange(data) : null;
+};
+
+export const approvePendingChange = async (changeId: string, notes?: string): Promise<void> => {
+  const { error } = await supabase.rpc('approve_pending_change', {
+    p_change_id: changeId,
+    p_notes: notes || null,
+  });
+  if (error) throw error;
+};
+
+export const rejectPendingChange = async (changeId: string, reason: string): Promise<void> => {
+  const { error } = await supabase.rpc('reject_pending_change', {
+    p_change_id: changeId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+};
+
+export const cancelPendingChange = async (changeId: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_pending_change', { p_change_id: changeId });
+  if (error) throw error;
+};
@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Permission, TemplateRole } from '@/config/permissions';
+
+export const fetchRolePermissions = async (): Promise<Record<string, Permission[]>> => {
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('role, permission')
+    .order('permission');
+  if (error) throw error;
+  return (data || []).reduce((templates: Record<string, Permission[]>, row) => {
+    (templates[row.role] = templates[row.role] || []).push(row.permission as Permission);
+    return templates;
+  }, {});
+};
+
+export const saveRolePermissions = async (role: TemplateRole, permissions: Permission[]): Promise<void> => {
+  const { error } = await supabase.rpc('set_role_permissions', {
+    p_role: role,
+    p_permissions: permissions,
+  });
+  if (error) throw error;
+};
+
+export const resetRolePermissions = async (role: TemplateRole): Promise<void> => {
+  const { error } = await supabase.rpc('reset_role_permissions', { p_role: role });
+  if (error) throw error;
+};
@@ -0,0 +1,174 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  LoanClassification,
+  LoanClassificationRule,
+  LoanProvision,
+  ProvisionEntry,
+  ProvisionEntryType,
+  ProvisioningBranchTotal,
+  ProvisioningRun,
+  ProvisioningRunStatus,
+  WrittenOffLoan,
+} from '@/types';
+
+export const CLASSIFICATIONS: LoanClassification[] = ['normal', 'watch', 'substandard', 'doubtful', 'loss'];
+
+export const CLASSIFICATION_LABELS: Record<LoanClassification, string> = {
+  normal: 'Normal',
+  watch: 'Watch',
+  substandard: 'Substandard',
+  doubtful: 'Doubtful',
+  loss: 'Loss',
+};
+
+export const PROVISION_ENTRY_LABELS: Record<ProvisionEntryType, string> = {
+  charge: 'Provision charge',
+  release: 'Provision release',
+  write_off: 'Write-off',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+// "1 - 30 days" style band for a rule, running up to the next class
+export const describeClassificationBand = (rules: LoanClassificationRule[], rule: LoanClassificationRule): string => {
+  const next = rules
+    .filter(other => other.min_days > rule.min_days)
+    .sort((a, b) => a.min_days - b.min_days)[0];
+  if (rule.min_days === 0 && next?.min_days === 1) return 'Not in arrears';
+  if (!next) return `${rule.min_days}+ days`;
+  return `${rule.min_days} - ${next.min_days - 1} days`;
+};
+
+export const fetchClassificationRules = async (): Promise<LoanClassificationRule[]> => {
+  const { data, error } = await supabase
+    .from('loan_classification_rules')
+    .select('*')
+    .order('sort_order');
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    classification: row.classification as LoanClassification,
+    min_days: Number(row.min_days || 0),
+    provision_rate: Number(row.provision_rate || 0),
+  }));
+};
+
+export const updateClassificationRule = async (
+  classification: LoanClassification,
+  changes: { min_days: number; provision_rate: number }
+): Promise<void> => {
+  const { error } = await supabase
+    .from('loan_classification_rules')
+    .update(changes)
+    .eq('classification', classification);
+  if (error) throw error;
+};
+
+export const fetchProvisioningRuns = async (): Promise<ProvisioningRun[]> => {
+  const { data, error } = await supabase
+    .from('provisioning_runs')
+    .select('id, period_end, status, loans_count, outstanding_principal, required_provision, previous_required, run_at, posted_at')
+    .order('period_end', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    status: row.status as ProvisioningRunStatus,
+    loans_count: Number(row.loans_count || 0),
+    outstanding_principal: toMoney(row.outstanding_principal),
+    required_provision: toMoney(row.required_provision),
+    previous_required: toMoney(row.previous_required),
+  }));
+};
+
+export const fetchProvisioningBranchTotals = async (runId: string): Promise<ProvisioningBranchTotal[]> => {
+  const { data, error } = await supabase
+    .from('provisioning_run_branches')
+    .select('*, branches(name)')
+    .eq('run_id', runId);
+  if (error) throw error;
+  return (data || [])
+    .map(({ branches: branch, ...row }) => ({
+      ...row,
+      branch_id: Number(row.branch_id),
+      branch_name: branch?.name || `Branch ${row.branch_id}`,
+      loans_count: Number(row.loans_count || 0),
+      outstanding_principal: toMoney(row.outstanding_principal),
+      required_provision: toMoney(row.required_provision),
+      previous_required: toMoney(row.previous_required),
+      allowance_before: row.allowance_before === null ? null : toMoney(row.allowance_before),
+      adjustment: row.adjustment === null ? null : toMoney(row.adjustment),
+    }))
+    .sort((a, b) => a.branch_name.localeCompare(b.branch_name));
+};
+
+export const fetchLoanProvisions = async (runId: string): Promise<LoanProvision[]> => {
+  const { data, error } = await supabase.rpc('get_loan_provisions', { p_run_id: runId });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    classification: row.classification as LoanClassification,
+    days_in_arrears: Number(row.days_in_arrears || 0),
+    outstanding_principal: toMoney(row.outstanding_principal),
+    provision_rate: toMoney(row.provision_rate),
+    required_provision: toMoney(row.required_provision),
+  }));
+};
+
+export const runLoanLossProvisioning = async (periodEnd: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('run_loan_loss_provisioning', { p_period_end: periodEnd });
+  if (error) throw error;
+  return data as string;
+};
+
+// Returns the net change to the allowance (positive: provision expense charged)
+export const postProvisioningRun = async (runId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('post_provisioning_run', { p_run_id: runId });
+  if (error) throw error;
+  return toMoney(data);
+};
+
+export const fetchProvisionEntries = async (limit = 200): Promise<ProvisionEntry[]> => {
+  const { data, error } = await supabase
+    .from('provision_entries')
+    .select('id, entry_date, branch_id, entry_type, amount, loan_id, description, created_at, branches(name)')
+    .order('entry_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(({ branches: branch, ...row }) => ({
+    ...row,
+    entry_type: row.entry_type as ProvisionEntryType,
+    branch_id: Number(row.branch_id),
+    branch_name: branch?.name || `Branch ${row.branch_id}`,
+    amount: toMoney(row.amount),
+  }));
+};
+
+// Allowance balance per branch, from the whole ledger the user can see
+export const fetchProvisionBalances = async (): Promise<{ branch_id: number; branch_name: string; balance: number }[]> => {
+  const { data, error } = await supabase
+    .from('provision_entries')
+    .select('branch_id, entry_type, amount, branches(name)');
+  if (error) throw error;
+
+  const balances = new Map<number, { branch_id: number; branch_name: string; balance: number }>();
+  (data || []).forEach(row => {
+    const branchId = Number(row.branch_id);
+    const current = balances.get(branchId) || { branch_id: branchId, branch_name: row.branches?.name || `Branch ${branchId}`, balance: 0 };
+    current.balance += row.entry_type === 'charge' ? toMoney(row.amount) : -toMoney(row.amount);
+    balances.set(branchId, current);
+  });
+  return Array.from(balances.values()).sort((a, b) => a.branch_name.localeCompare(b.branch_name));
+};
+
+export const fetchWrittenOffLoans = async (): Promise<WrittenOffLoan[]> => {
+  const { data, error } = await supabase.rpc('get_written_off_loans');
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    principal_amount: toMoney(row.principal_amount),
+    written_off_amount: toMoney(row.written_off_amount),
+    from_provision: toMoney(row.from_provision),
+    unprovided: toMoney(row.unprovided),
+  }));
+};
@@ -0,0 +1,456 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  AdjustmentDirection,
+  ReconciliationLineResult,
+  ReconciliationSummary,
+  StatementColumnMapping,
+  StatementLine,
+  StatementReconciliation,
+  StatementReconciliationLine,
+  StatementSource,
+  SystemPaymentRecord,
+} from '@/types';
+import { roundMoney } from '@/utils/interestEngine';
+import { isTopUpSettlement } from '@/utils/topUp';
+
+export const MATCH_STATUS_LABELS: Record<ReconciliationLineResult['match_status'], string> = {
+  matched: 'Matched',
+  mismatched: 'Mismatched',
+  missing: 'Missing in system',
+  duplicate: 'Duplicate',
+  not_in_statement: 'Not on statement',
+};
+
+export const STATEMENT_SOURCE_LABELS: Record<StatementSource, string> = {
+  mpesa: 'M-Pesa paybill',
+  bank: 'Bank account',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const PAGE_SIZE = 1000;
+
+const splitCsvLine = (line: string): string[] => {
+  const out: string[] = [];
+  let cur = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') { cur += '"'; i++; }
+      else { inQuotes = !inQuotes; }
+    } else if (ch === ',' && !inQuotes) {
+      out.push(cur);
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map(s => s.trim());
+};
+
+// Statements often start with a few lines of account details before the real header row
+export const parseStatementCsv = (text: string): { headers: string[]; rows: Record<string, string>[] } => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim().length > 0);
+  const headerIndex = Math.max(0, lines.slice(0, 20).findIndex(l => /date|time|receipt/i.test(l) && splitCsvLine(l).length >= 3));
+  if (lines.length <= headerIndex) return { headers: [], rows: [] };
+
+  const headers = splitCsvLine(lines[headerIndex]).filter(h => h.length > 0);
+  const rows = lines.slice(headerIndex + 1).map(l => {
+    const parts = splitCsvLine(l);
+    const row: Record<string, string> = {};
+    headers.forEach((h, idx) => row[h] = parts[idx] ?? '');
+    return row;
+  });
+  return { headers, rows };
+};
+
+export const detectColumnMapping = (headers: string[]): StatementColumnMapping => {
+  const find = (patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const header = headers.find(h => pattern.test(h));
+      if (header) return header;
+    }
+    return '';
+  };
+  return {
+    date: find([/completion time/i, /transaction date/i, /value date/i, /date/i, /time/i]),
+    reference: find([/receipt/i, /reference/i, /\bref\b/i, /trans(action)? ?id/i]),
+    amount: find([/paid in/i, /credit/i, /deposit/i, /amount/i]),
+    description: find([/details/i, /description/i, /narration/i, /particulars/i, /other party/i]),
+  };
+};
+
+// Accepts 2025-11-03, 03/11/2025, 03-11-2025 (day first) and 03 Nov 2025 / 03-Nov-25
+export const parseStatementDate = (value: string): string | null => {
+  const text = (value || '').trim();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  let year: number, month: number, day: number;
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/.exec(text))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})/.exec(text))) {
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split('T')[0];
+};
+
+// "KES 1,250.00" -> 1250, "(300.00)" -> -300
+export const parseStatementAmount = (value: string): number | null => {
+  const text = (value || '').trim();
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || text.includes('-');
+  const amount = Number(text.replace(/[^0-9.]/g, ''));
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+// Only money received (positive amounts) is reconciled; withdrawals and charges are skipped
+export const toStatementLines = (
+  rows: Record<string, string>[],
+  mapping: StatementColumnMapping
+): { lines: StatementLine[]; skipped: number } => {
+  const lines: StatementLine[] = [];
+  let skipped = 0;
+  rows.forEach((row, idx) => {
+    const date = parseStatementDate(row[mapping.date]);
+    const amount = parseStatementAmount(row[mapping.amount]);
+    if (!date || amount === null || amount <= 0) {
+      skipped++;
+      return;
+    }
+    lines.push({
+      line_number: idx + 1,
+      transaction_date: date,
+      reference: (row[mapping.reference] || '').trim(),
+      description: mapping.description ? (row[mapping.description] || '').trim() : '',
+      amount: roundMoney(amount),
+    });
+  });
+  return { lines, skipped };
+};
+
+// Payments posted from the paybill carry an MM- prefix in loan_payments
+export const normalizeReference = (reference: string | null | undefined): string =>
+  (reference || '').toUpperCase().replace(/^MM-/, '').replace(/[^A-Z0-9]/g, '');
+
+const daysBetween = (a: string, b: string): number =>
+  Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+export const statementPeriod = (lines: StatementLine[]): { start: string; end: string } | null => {
+  if (lines.length === 0) return null;
+  const dates = lines.map(l => l.transaction_date).sort();
+  return { start: dates[0], end: dates[dates.length - 1] };
+};
+
+/**
+ * Matches statement lines to recorded payments. A line matches the record with the
+ * same reference when the amount agrees and the dates are within the tolerance,
+ * otherwise it is mismatched. Lines without a reference hit fall back to a loan
+ * payment with the same amount and the closest date. A reference seen twice on the
+ * statement is a duplicate, and loan payments inside the statement period that no
+ * line claimed are reported as not on the statement.
+ */
+export const reconcileStatement = (
+  lines: StatementLine[],
+  records: SystemPaymentRecord[],
+  toleranceDays: number
+): ReconciliationLineResult[] => {
+  const recordKey = (record: SystemPaymentRecord) => `${record.kind}:${record.id}`;
+  const byReference = new Map<string, SystemPaymentRecord[]>();
+  records
+    .slice()
+    .sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'loan_payment' ? -1 : 1))
+    .forEach(record => {
+      const key = normalizeReference(record.reference);
+      if (!key) return;
+      byReference.set(key, [...(byReference.get(key) || []), record]);
+    });
+
+  const statementReferences = new Set(lines.map(l => normalizeReference(l.reference)).filter(Boolean));
+  const used = new Set<string>();
+  const firstLineByReference = new Map<string, number>();
+  const results: ReconciliationLineResult[] = [];
+
+  const emptyResult = (line: StatementLine): ReconciliationLineResult => ({
+    line_number: line.line_number,
+    transaction_date: line.transaction_date,
+    reference: line.reference || null,
+    description: line.description || null,
+    amount: line.amount,
+    match_status: 'missing',
+    match_method: null,
+    loan_payment_id: null,
+    transaction_id: null,
+    loan_id: null,
+    system_reference: null,
+    system_amount: null,
+    system_date: null,
+    difference: line.amount,
+    note: null,
+  });
+
+  const withRecord = (result: ReconciliationLineResult, record: SystemPaymentRecord): ReconciliationLineResult => ({
+    ...result,
+    loan_payment_id: record.kind === 'loan_payment' ? record.id : null,
+    transaction_id: record.kind === 'transaction' ? record.id : null,
+    loan_id: record.loan_id,
+    system_reference: record.reference,
+    system_amount: record.amount,
+    system_date: record.date,
+    difference: roundMoney((result.amount || 0) - record.amount),
+  });
+
+  [...lines].sort((a, b) => a.line_number - b.line_number).forEach(line => {
+    const key = normalizeReference(line.reference);
+    const result = emptyResult(line);
+
+    if (key && firstLineByReference.has(key)) {
+      results.push({ ...result, match_status: 'duplicate', difference: 0, note: `Same reference as line ${firstLineByReference.get(key)}` });
+      return;
+    }
+    if (key) firstLineByReference.set(key, line.line_number);
+
+    const byRef = key ? (byReference.get(key) || []).find(r => !used.has(recordKey(r))) : undefined;
+    if (byRef) {
+      used.add(recordKey(byRef));
+      const matched = withRecord({ ...result, match_method: 'reference' }, byRef);
+      const gap = daysBetween(line.transaction_date, byRef.date);
+      const problems: string[] = [];
+      if (Math.abs(matched.difference) >= 0.01) problems.push(`amount differs by ${matched.difference.toFixed(2)}`);
+      if (gap > toleranceDays) problems.push(`dates are ${gap} day(s) apart`);
+      results.push({
+        ...matched,
+        match_status: problems.length === 0 ? 'matched' : 'mismatched',
+        note: problems.length === 0 ? null : problems.join('; '),
+      });
+      return;
+    }
+
+    const fallback = records
+      .filter(r =>
+        r.kind === 'loan_payment'
+        && !used.has(recordKey(r))
+        && !statementReferences.has(normalizeReference(r.reference))
+        && Math.abs(r.amount - line.amount) < 0.01
+        && daysBetween(line.transaction_date, r.date) <= toleranceDays
+      )
+      .sort((a, b) => daysBetween(line.transaction_date, a.date) - daysBetween(line.transaction_date, b.date))[0];
+
+    if (fallback) {
+      used.add(recordKey(fallback));
+      results.push({
+        ...withRecord({ ...result, match_method: 'amount_date' }, fallback),
+        match_status: 'matched',
+        note: 'Matched on amount and date; references differ',
+      });
+      return;
+    }
+
+    results.push({ ...result, note: 'No recorded payment with this reference, amount and date' });
+  });
+
+  const period = statementPeriod(lines);
+  if (period) {
+    records
+      .filter(r => r.kind === 'loan_payment' && !used.has(recordKey(r)) && r.date >= period.start && r.date <= period.end)
+      .forEach(record => {
+        results.push({
+          line_number: null,
+          transaction_date: null,
+          reference: null,
+          description: null,
+          amount: null,
+          match_status: 'not_in_statement',
+          match_method: null,
+          loan_payment_id: record.id,
+          transaction_id: null,
+          loan_id: record.loan_id,
+          system_reference: record.reference,
+          system_amount: record.amount,
+          system_date: record.date,
+          difference: roundMoney(-record.amount),
+          note: 'Recorded in the system but not on the statement',
+        });
+      });
+  }
+
+  return results;
+};
+
+export const summarizeReconciliation = (results: ReconciliationLineResult[]): ReconciliationSummary => {
+  const count = (status: ReconciliationLineResult['match_status']) => results.filter(r => r.match_status === status).length;
+  return {
+    total_lines: results.filter(r => r.line_number !== null).length,
+    matched_count: count('matched'),
+    mismatched_count: count('mismatched'),
+    missing_count: count('missing'),
+    duplicate_count: count('duplicate'),
+    not_in_statement_count: count('not_in_statement'),
+    statement_total: roundMoney(results.reduce((sum, r) => sum + (r.amount || 0), 0)),
+  };
+};
+
+// Loan payments and completed payment transactions around the statement period.
+// Top-up settlements move no money, so they never appear on a statement.
+export const fetchSystemPayments = async (start: string, end: string, toleranceDays: number): Promise<SystemPaymentRecord[]> => {
+  const from = addDays(start, -toleranceDays);
+  const to = addDays(end, toleranceDays);
+  const records: SystemPaymentRecord[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('loan_payments')
+      .select('id, payment_reference, amount, payment_date, loan_id')
+      .gte('payment_date', from)
+      .lte('payment_date', to)
+      .order('payment_date')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+    (data || []).filter(row => !isTopUpSettlement(row.payment_reference)).forEach(row => records.push({
+      kind: 'loan_payment',
+      id: row.id,
+      reference: row.payment_reference,
+      amount: Number(row.amount || 0),
+      date: String(row.payment_date).slice(0, 10),
+      loan_id: row.loan_id,
+    }));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('id, reference_number, amount, transaction_date, loan_id')
+      .eq('transaction_type', 'payment')
+      .eq('status', 'completed')
+      .gte('transaction_date', `${from}T00:00:00`)
+      .lte('transaction_date', `${to}T23:59:59`)
+      .order('transaction_date')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+    (data || []).filter(row => !isTopUpSettlement(row.reference_number)).forEach(row => records.push({
+      kind: 'transaction',
+      id: row.id,
+      reference: row.reference_number,
+      amount: Number(row.amount || 0),
+      date: String(row.transaction_date).slice(0, 10),
+      loan_id: row.loan_id,
+    }));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return records;
+};
+
+export const saveReconciliation = async (params: {
+  source: StatementSource;
+  fileName: string;
+  toleranceDays: number;
+  lines: StatementLine[];
+  results: ReconciliationLineResult[];
+  userId?: string;
+}): Promise<string> => {
+  const period = statementPeriod(params.lines);
+  if (!period) throw new Error('The statement has no lines to reconcile');
+
+  const { data, error } = await supabase
+    .from('statement_reconciliations')
+    .insert({
+      source: params.source,
+      file_name: params.fileName,
+      period_start: period.start,
+      period_end: period.end,
+      date_tolerance_days: params.toleranceDays,
+      ...summarizeReconciliation(params.results),
+      created_by: params.userId,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const reconciliationId = data.id as string;
+  const batch = 500;
+  for (let i = 0; i < params.results.length; i += batch) {
+    const chunk = params.results.slice(i, i + batch).map(result => ({ ...result, reconciliation_id: reconciliationId }));
+    const { error: linesError } = await supabase.from('statement_reconciliation_lines').insert(chunk);
+    if (linesError) throw linesError;
+  }
+  return reconciliationId;
+};
+
+export const fetchReconciliations = async (): Promise<StatementReconciliation[]> => {
+  const { data, error } = await supabase
+    .from('statement_reconciliations')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(100);
+  if (error) throw error;
+  return ((data || []) as StatementReconciliation[]).map(row => ({ ...row, statement_total: Number(row.statement_total || 0) }));
+};
+
+export const fetchReconciliation = async (id: string): Promise<{ reconciliation: StatementReconciliation; lines: StatementReconciliationLine[] }> => {
+  const [{ data: reconciliation, error }, { data: lines, error: linesError }] = await Promise.all([
+    supabase.from('statement_reconciliations').select('*').eq('id', id).single(),
+    supabase
+      .from('statement_reconciliation_lines')
+      .select('*')
+      .eq('reconciliation_id', id)
+      .order('line_number', { ascending: true, nullsFirst: false }),
+  ]);
+  if (error) throw error;
+  if (linesError) throw linesError;
+
+  const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+  return {
+    reconciliation: { ...(reconciliation as StatementReconciliation), statement_total: Number(reconciliation.statement_total || 0) },
+    lines: ((lines || []) as StatementReconciliationLine[]).map(row => ({
+      ...row,
+      amount: toNumber(row.amount),
+      system_amount: toNumber(row.system_amount),
+      difference: Number(row.difference || 0),
+    })),
+  };
+};
+
+export const postReconciliationAdjustment = async (params: {
+  lineId: string;
+  loanId: string | null;
+  amount: number;
+  direction: AdjustmentDirection;
+  note: string;
+}): Promise<string> => {
+  const { data, error } = await supabase.rpc('post_reconciliation_adjustment', {
+    p_line_id: params.lineId,
+    p_loan_id: params.loanId,
+    p_amount: params.amount,
+    p_direction: params.direction,
+    p_note: params.note,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const ignoreReconciliationLine = async (lineId: string, note: string): Promise<void> => {
+  const { error } = await supabase.rpc('ignore_reconciliation_line', { p_line_id: lineId, p_note: note });
+  if (error) throw error;
+};
+
+export const closeReconciliation = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('close_statement_reconciliation', { p_reconciliation_id: id });
+  if (error) throw error;
+};
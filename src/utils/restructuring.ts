@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { InstallmentType, LoanRestructure, LoanRestructureRequest, LoanRestructureStatus, PendingLoanRestructure, RestructureScheduleRow } from '@/types';
+
+const toRestructure = (row: Tables<'loan_restructures'>): LoanRestructure => ({
+  ...row,
+  status: row.status as LoanRestructureStatus,
+  new_installment_type: row.new_installment_type as InstallmentType,
+  old_current_balance: Number(row.old_current_balance || 0),
+  additional_interest_rate: Number(row.additional_interest_rate || 0),
+  rescheduled_principal: Number(row.rescheduled_principal || 0),
+  rescheduled_interest: Number(row.rescheduled_interest || 0),
+  arrears_amount: Number(row.arrears_amount || 0),
+  additional_interest: Number(row.additional_interest || 0),
+});
+
+export const previewLoanRestructure = async (loanId: string, request: LoanRestructureRequest): Promise<RestructureScheduleRow[]> => {
+  const { data, error } = await supabase.rpc('loan_restructure_schedule', {
+    p_loan_id: loanId,
+    p_installment_type: request.installment_type,
+    p_installment_count: request.installment_count,
+    p_interest_rate: request.additional_interest_rate,
+    p_capitalise_arrears: request.capitalise_arrears,
+    p_effective_date: request.effective_date,
+  });
+  if (error) throw error;
+  return ((data || []) as RestructureScheduleRow[]).map(row => ({
+    ...row,
+    principal_amount: Number(row.principal_amount || 0),
+    interest_amount: Number(row.interest_amount || 0),
+    total_amount: Number(row.total_amount || 0),
+    amount_paid: Number(row.amount_paid || 0),
+    original_total: row.original_total === null ? null : Number(row.original_total),
+  }));
+};
+
+export const requestLoanRestructure = async (loanId: string, request: LoanRestructureRequest): Promise<string> => {
+  const { data, error } = await supabase.rpc('request_loan_restructure', {
+    p_loan_id: loanId,
+    p_installment_type: request.installment_type,
+    p_installment_count: request.installment_count,
+    p_interest_rate: request.additional_interest_rate,
+    p_capitalise_arrears: request.capitalise_arrears,
+    p_effective_date: request.effective_date,
+    p_reason: request.reason,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const fetchLoanRestructures = async (loanId: string): Promise<LoanRestructure[]> => {
+  const { data, error } = await supabase
+    .from('loan_restructures')
+    .select('*')
+    .eq('loan_id', loanId)
+    .order('requested_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toRestructure);
+};
+
+export const fetchPendingRestructures = async (): Promise<PendingLoanRestructure[]> => {
+  const { data, error } = await supabase
+    .from('loan_restructures')
+    .select('*')
+    .eq('status', 'pending')
+    .order('requested_at', { ascending: true });
+  if (error) throw error;
+
+  const restructures = (data || []).map(toRestructure);
+  if (restructures.length === 0) return [];
+
+  const loanIds = [...new Set(restructures.map(r => r.loan_id))];
+  const requesterIds = [...new Set(restructures.map(r => r.requested_by).filter(Boolean))] as string[];
+  const [{ data: loans, error: loansError }, { data: profiles, error: profilesError }] = await Promise.all([
+    supabase.from('loans_with_details').select('id, member_name, account_number').in('id', loanIds),
+    supabase.from('profiles').select('id, full_name').in('id', requesterIds),
+  ]);
+  if (loansError) throw loansError;
+  if (profilesError) throw profilesError;
+
+  return restructures.map(restructure => {
+    const loan = (loans || []).find(l => l.id === restructure.loan_id);
+    const requester = (profiles || []).find(p => p.id === restructure.requested_by);
+    return {
+      ...restructure,
+      member_name: loan?.member_name || 'Unknown',
+      account_number: loan?.account_number || restructure.loan_id.slice(0, 8),
+      requested_by_name: requester?.full_name || 'Unknown',
+    };
+  });
+};
+
+export const approveLoanRestructure = async (restructureId: string): Promise<void> => {
+  const { error } = await supabase.rpc('approve_loan_restructure', { p_restructure_id: restructureId });
+  if (error) throw error;
+};
+
+export const rejectLoanRestructure = async (restructureId: string, reason: string): Promise<void> => {
+  const { error } = await supabase.rpc('reject_loan_restructure', {
+    p_restructure_id: restructureId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+};
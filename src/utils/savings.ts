@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  SavingsAccount,
+  SavingsAccountType,
+  SavingsInterestResult,
+  SavingsPostingRequest,
+  SavingsTransaction,
+  SavingsTransactionType,
+  SettlementPaymentMethod,
+} from '@/types';
+
+export const SAVINGS_ACCOUNT_TYPE_LABELS: Record<SavingsAccountType, string> = {
+  compulsory: 'Compulsory Savings',
+  voluntary: 'Voluntary Deposits',
+};
+
+export const SAVINGS_TRANSACTION_LABELS: Record<SavingsTransactionType, string> = {
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  interest: 'Interest',
+  recovery: 'Guarantor recovery',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+// Accounts with their lien and withdrawable balance worked out by the database
+export const fetchMemberSavingsAccounts = async (memberId: string): Promise<SavingsAccount[]> => {
+  const { data, error } = await supabase.rpc('member_savings_accounts', { p_member_id: memberId });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    account_type: row.account_type as SavingsAccountType,
+    balance: toMoney(row.balance),
+    minimum_balance: toMoney(row.minimum_balance),
+    interest_rate: toMoney(row.interest_rate),
+    lien_amount: toMoney(row.lien_amount),
+    available_balance: toMoney(row.available_balance),
+  }));
+};
+
+export const fetchSavingsTransactions = async (memberId: string): Promise<SavingsTransaction[]> => {
+  const { data, error } = await supabase
+    .from('savings_transactions')
+    .select('*, savings_accounts(account_number, account_type)')
+    .eq('member_id', memberId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(({ savings_accounts: account, ...row }) => ({
+    ...row,
+    transaction_type: row.transaction_type as SavingsTransactionType,
+    payment_method: row.payment_method as SettlementPaymentMethod,
+    account_number: account?.account_number || '',
+    account_type: (account?.account_type || 'compulsory') as SavingsAccountType,
+    amount: toMoney(row.amount),
+    balance_after: toMoney(row.balance_after),
+  }));
+};
+
+export const openSavingsAccount = async (memberId: string, accountType: SavingsAccountType): Promise<string> => {
+  const { data, error } = await supabase.rpc('open_savings_account', {
+    p_member_id: memberId,
+    p_account_type: accountType,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const depositSavings = async (request: SavingsPostingRequest): Promise<string> => {
+  const { data, error } = await supabase.rpc('savings_deposit', {
+    p_account_id: request.account_id,
+    p_amount: request.amount,
+    p_payment_method: request.payment_method,
+    p_reference: request.reference || null,
+    p_notes: request.notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const withdrawSavings = async (request: SavingsPostingRequest): Promise<string> => {
+  const { data, error } = await supabase.rpc('savings_withdraw', {
+    p_account_id: request.account_id,
+    p_amount: request.amount,
+    p_payment_method: request.payment_method,
+    p_reference: request.reference || null,
+    p_notes: request.notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const creditSavingsInterest = async (): Promise<SavingsInterestResult> => {
+  const { data, error } = await supabase.rpc('credit_savings_interest');
+  if (error) throw error;
+  const row = data?.[0];
+  return {
+    accounts_credited: Number(row?.accounts_credited || 0),
+    total_interest: toMoney(row?.total_interest),
+  };
+};
@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { EarlySettlementRebatePolicy, LoanSettlement, LoanSettlementPayment, LoanSettlementQuote } from '@/types';
+
+export const REBATE_POLICY_LABELS: Record<EarlySettlementRebatePolicy, string> = {
+  none: 'No rebate',
+  pro_rata: 'Pro-rata unearned interest',
+  rule_of_78: 'Rule of 78',
+};
+
+const toMoney = (value: number | string | null | undefined): number => Number(value || 0);
+
+export const fetchSettlementQuote = async (loanId: string, asOfDate: string): Promise<LoanSettlementQuote> => {
+  const { data, error } = await supabase.rpc('loan_settlement_quote', {
+    p_loan_id: loanId,
+    p_as_of: asOfDate,
+  });
+  if (error) throw error;
+  const row = ((data || []) as LoanSettlementQuote[])[0];
+  if (!row) throw new Error('No settlement quote was returned for this loan');
+  return {
+    ...row,
+    rebate_percent: toMoney(row.rebate_percent),
+    principal_outstanding: toMoney(row.principal_outstanding),
+    interest_outstanding: toMoney(row.interest_outstanding),
+    fees_outstanding: toMoney(row.fees_outstanding),
+    unearned_interest: toMoney(row.unearned_interest),
+    interest_rebate: toMoney(row.interest_rebate),
+    penalties_outstanding: toMoney(row.penalties_outstanding),
+    settlement_amount: toMoney(row.settlement_amount),
+    remaining_installments: Number(row.remaining_installments || 0),
+  };
+};
+
+export const settleLoanEarly = async (loanId: string, payment: LoanSettlementPayment): Promise<string> => {
+  const { data, error } = await supabase.rpc('settle_loan_early', {
+    p_loan_id: loanId,
+    p_as_of: payment.as_of_date,
+    p_amount: payment.amount,
+    p_payment_method: payment.payment_method,
+    p_reference: payment.reference || null,
+    p_notes: payment.notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const fetchLoanSettlement = async (loanId: string): Promise<LoanSettlement | null> => {
+  const { data, error } = await supabase
+    .from('loan_settlements')
+    .select('*')
+    .eq('loan_id', loanId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const row = data as LoanSettlement;
+  return {
+    ...row,
+    rebate_percent: toMoney(row.rebate_percent),
+    principal_outstanding: toMoney(row.principal_outstanding),
+    interest_outstanding: toMoney(row.interest_outstanding),
+    fees_outstanding: toMoney(row.fees_outstanding),
+    unearned_interest: toMoney(row.unearned_interest),
+    interest_rebate: toMoney(row.interest_rebate),
+    penalties_outstanding: toMoney(row.penalties_outstanding),
+    settlement_amount: toMoney(row.settlement_amount),
+  };
+};
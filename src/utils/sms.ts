@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SmsMessage, SmsProviderName, SmsStatus, SmsTemplate, SmsTemplateCode } from '@/types';
+
+export const SMS_STATUS_LABELS: Record<SmsStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+export const SMS_PROVIDER_LABELS: Record<SmsProviderName, string> = {
+  console: 'Console (testing, nothing is sent)',
+  africastalking: "Africa's Talking",
+};
+
+// Placeholders filled in for each template; member_name, first_name,
+// company_name and company_phone are available to all of them
+export const SMS_TEMPLATE_PLACEHOLDERS: Record<SmsTemplateCode, string[]> = {
+  upcoming_installment: ['amount', 'loan_number', 'installment_number', 'due_date'],
+  missed_payment: ['amount', 'loan_number', 'installment_number', 'due_date'],
+  payment_receipt: ['amount', 'loan_number', 'payment_date', 'reference', 'balance'],
+  loan_approved: ['amount', 'loan_number'],
+};
+
+export const SMS_COMMON_PLACEHOLDERS = ['member_name', 'first_name', 'company_name', 'company_phone'];
+
+export const fetchSmsTemplates = async (): Promise<SmsTemplate[]> => {
+  const { data, error } = await supabase
+    .from('sms_templates')
+    .select('code, name, body, is_active, updated_at')
+    .order('name');
+  if (error) throw error;
+  return (data || []) as SmsTemplate[];
+};
+
+export const updateSmsTemplate = async (
+  code: SmsTemplateCode,
+  changes: Pick<SmsTemplate, 'body' | 'is_active'>,
+  userId: string | undefined
+): Promise<void> => {
+  const { error } = await supabase
+    .from('sms_templates')
+    .update({ ...changes, updated_by: userId || null, updated_at: new Date().toISOString() })
+    .eq('code', code);
+  if (error) throw error;
+};
+
+export const fetchSmsMessages = async (
+  filters: { memberId?: string; status?: SmsStatus; limit?: number } = {}
+): Promise<SmsMessage[]> => {
+  let query = supabase
+    .from('sms_outbox')
+    .select('*, members(full_name)')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit || 200);
+  if (filters.memberId) query = query.eq('member_id', filters.memberId);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(({ members: member, ...row }) => ({
+    ...row,
+    template_code: row.template_code as SmsTemplateCode,
+    status: row.status as SmsStatus,
+    member_name: member?.full_name || 'Unknown member',
+    attempts: Number(row.attempts || 0),
+  }));
+};
+
+export const retrySmsMessage = async (outboxId: string): Promise<void> => {
+  const { error } = await supabase.rpc('retry_sms_message', { p_outbox_id: outboxId });
+  if (error) throw error;
+};
+
+// Queues today's installment reminders and missed-payment notices
+export const queueSmsReminders = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('queue_sms_reminders');
+  if (error) throw error;
+  return Number(data || 0);
+};
+
+// Sends whatever is queued now instead of waiting for the five-minute job
+export const dispatchSmsOutbox = async (): Promise<{ claimed: number; sent: number; retrying: number; failed: number; skipped?: string }> => {
+  const { data, error } = await supabase.functions.invoke('sms-dispatch', { body: {} });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'SMS dispatch failed');
+  return {
+    claimed: Number(data.claimed || 0),
+    sent: Number(data.sent || 0),
+    retrying: Number(data.retrying || 0),
+    failed: Number(data.failed || 0),
+    skipped: data.skipped,
+  };
+};
+
+export const setMemberSmsOptOut = async (memberId: string, optOut: boolean): Promise<void> => {
+  const { error } = await supabase.rpc('set_member_sms_opt_out', {
+    p_member_id: memberId,
+    p_opt_out: optOut,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { LoanTopUpQuote, TopUpCandidate } from '@/types';
+
+// Reference prefix of the payment that settles a topped-up loan
+export const TOP_UP_REFERENCE_PREFIX = 'TOPUP-';
+
+export const isTopUpSettlement = (reference?: string | null): boolean =>
+  !!reference && reference.startsWith(TOP_UP_REFERENCE_PREFIX);
+
+// The member's open loan, if any, that a new application would top up
+export const fetchTopUpCandidate = async (memberId: string): Promise<TopUpCandidate | null> => {
+  const { data, error } = await supabase
+    .from('loans')
+    .select('id, application_no, status, principal_amount, is_deleted')
+    .eq('member_id', memberId)
+    .in('status', ['active', 'disbursed'])
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const loan = (data || []).find(l => l.is_deleted === false || l.is_deleted === null);
+  if (!loan) return null;
+  return {
+    id: loan.id,
+    account_number: loan.application_no || loan.id.slice(0, 8),
+    status: loan.status,
+    principal_amount: Number(loan.principal_amount || 0),
+  };
+};
+
+export const fetchLoanTopUpQuote = async (loanId: string): Promise<LoanTopUpQuote | null> => {
+  const { data, error } = await supabase.rpc('get_loan_top_up_quote', { p_loan_id: loanId });
+  if (error) throw error;
+  const row = (data || [])[0];
+  if (!row) return null;
+  return {
+    ...row,
+    increment_level: Number(row.increment_level || 1),
+    outstanding_balance: Number(row.outstanding_balance || 0),
+    penalties_outstanding: Number(row.penalties_outstanding || 0),
+    settlement_amount: Number(row.settlement_amount || 0),
+    next_level: row.next_level === null ? null : Number(row.next_level),
+    next_amount: row.next_amount === null ? null : Number(row.next_amount),
+  };
+};
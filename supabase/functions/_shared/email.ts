@@ -0,0 +1,74 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+// Email transport. The SMTP adapter reads its settings from the function's secrets:
+//
+//   SMTP_HOST      default localhost
+//   SMTP_PORT      default 1025
+//   SMTP_TLS       "true" for implicit TLS (port 465); otherwise STARTTLS is used
+//                  when the server offers it
+//   SMTP_USERNAME  optional, with SMTP_PASSWORD
+//
+// The defaults point at a local mail catcher such as Mailpit or MailHog
+// (`docker run -p 1025:1025 -p 8025:8025 axllent/mailpit`). From inside
+// `supabase functions serve`, use SMTP_HOST=host.docker.internal.
+
+export type EmailAttachment = {
+  filename: string
+  contentType: string
+  content: Uint8Array
+}
+
+export type OutgoingEmail = {
+  from: string
+  to: string
+  subject: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+export interface EmailTransport {
+  name: string
+  send(email: OutgoingEmail): Promise<void>
+  close(): Promise<void>
+}
+
+export function createSmtpTransport(): EmailTransport {
+  const hostname = Deno.env.get('SMTP_HOST') || 'localhost'
+  const port = Number(Deno.env.get('SMTP_PORT') || 1025)
+  const tls = Deno.env.get('SMTP_TLS') === 'true'
+  const username = Deno.env.get('SMTP_USERNAME')
+  const password = Deno.env.get('SMTP_PASSWORD') ?? ''
+  const isLocal = ['localhost', '127.0.0.1', 'host.docker.internal'].includes(hostname)
+
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port,
+      tls,
+      auth: username ? { username, password } : undefined,
+    },
+    // Mail catchers speak plain SMTP without STARTTLS
+    debug: isLocal ? { allowUnsecure: true, noStartTLS: true } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(email) {
+      await client.send({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        content: email.text,
+        attachments: (email.attachments || []).map(a => ({
+          filename: a.filename,
+          contentType: a.contentType,
+          encoding: 'binary' as const,
+          content: a.content,
+        })),
+      })
+    },
+    async close() {
+      await client.close()
+    },
+  }
+}
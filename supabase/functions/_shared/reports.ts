@@ -0,0 +1,172 @@
+import { jsPDF } from 'https://esm.sh/jspdf@3.0.1'
+import autoTable from 'https://esm.sh/jspdf-autotable@5.0.2?deps=jspdf@3.0.1'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Report attachments for scheduled report emails. Each report is built as a
+// plain table, then written out as CSV or as a PDF laid out like the in-app exports.
+
+export type ReportParams = {
+  report_type: 'daily_overdue' | 'weekly_collections'
+  format: 'pdf' | 'csv'
+  branch_id: number | null
+  period_start: string
+  period_end: string
+}
+
+export type ReportTable = {
+  title: string
+  subtitle: string
+  fileName: string
+  columns: string[]
+  rows: (string | number)[][]
+  totals?: (string | number)[]
+}
+
+// Rows returned by get_unified_overdue_loans_report and weekly_collections_summary
+type OverdueLoanRow = {
+  branch_id: number | null
+  branch_name: string | null
+  member_name: string | null
+  phone_number: string | null
+  account_number: string | null
+  days_overdue: number | null
+  overdue_amount: number | null
+  loan_balance: number | null
+  risk_level: string | null
+  loan_officer_name: string | null
+}
+
+type WeeklyCollectionRow = {
+  branch_name: string
+  loan_officer_name: string
+  installments_due: number
+  amount_due: number
+  payments_count: number
+  amount_collected: number
+  collection_rate: number | null
+}
+
+const money = (value: unknown) =>
+  Number(value || 0).toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const displayDate = (value: string) =>
+  new Date(`${value}T00:00:00Z`).toLocaleDateString('en-KE', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' })
+
+// Overdue loans as the subscriber sees them on Loans Overdue
+async function buildDailyOverdue(admin: SupabaseClient, userId: string, params: ReportParams): Promise<ReportTable> {
+  const { data, error } = await admin.rpc('get_unified_overdue_loans_report', { requesting_user_id: userId })
+  if (error) throw error
+  const loans = ((data as OverdueLoanRow[] | null) || []).filter(row => params.branch_id == null || row.branch_id === params.branch_id)
+
+  return {
+    title: 'Overdue Loans Report',
+    subtitle: `As of ${displayDate(params.period_end)} - ${loans.length} loan(s)`,
+    fileName: `overdue-loans-${params.period_end}`,
+    columns: ['Member', 'Phone', 'Account', 'Branch', 'Days Overdue', 'Overdue (KES)', 'Balance (KES)', 'Risk', 'Loan Officer'],
+    rows: loans.map(row => [
+      row.member_name || '',
+      row.phone_number || '',
+      row.account_number || '',
+      row.branch_name || '',
+      row.days_overdue ?? 0,
+      money(row.overdue_amount),
+      money(row.loan_balance),
+      row.risk_level || '',
+      row.loan_officer_name || '',
+    ]),
+    totals: [
+      'Total', '', '', '', '',
+      money(loans.reduce((sum, row) => sum + Number(row.overdue_amount || 0), 0)),
+      money(loans.reduce((sum, row) => sum + Number(row.loan_balance || 0), 0)),
+      '', '',
+    ],
+  }
+}
+
+async function buildWeeklyCollections(admin: SupabaseClient, params: ReportParams): Promise<ReportTable> {
+  const { data, error } = await admin.rpc('weekly_collections_summary', {
+    p_week_end: params.period_end,
+    p_branch_id: params.branch_id,
+  })
+  if (error) throw error
+  const rows = (data as WeeklyCollectionRow[] | null) || []
+  const due = rows.reduce((sum, row) => sum + Number(row.amount_due || 0), 0)
+  const collected = rows.reduce((sum, row) => sum + Number(row.amount_collected || 0), 0)
+
+  return {
+    title: 'Weekly Collections Summary',
+    subtitle: `${displayDate(params.period_start)} - ${displayDate(params.period_end)}`,
+    fileName: `weekly-collections-${params.period_end}`,
+    columns: ['Branch', 'Loan Officer', 'Installments Due', 'Due (KES)', 'Payments', 'Collected (KES)', 'Collection Rate'],
+    rows: rows.map(row => [
+      row.branch_name,
+      row.loan_officer_name,
+      row.installments_due,
+      money(row.amount_due),
+      row.payments_count,
+      money(row.amount_collected),
+      row.collection_rate == null ? '-' : `${Number(row.collection_rate).toFixed(1)}%`,
+    ]),
+    totals: [
+      'Total', '',
+      rows.reduce((sum, row) => sum + Number(row.installments_due || 0), 0),
+      money(due),
+      rows.reduce((sum, row) => sum + Number(row.payments_count || 0), 0),
+      money(collected),
+      due > 0 ? `${((collected / due) * 100).toFixed(1)}%` : '-',
+    ],
+  }
+}
+
+export function buildReport(admin: SupabaseClient, userId: string, params: ReportParams): Promise<ReportTable> {
+  switch (params.report_type) {
+    case 'daily_overdue':
+      return buildDailyOverdue(admin, userId, params)
+    case 'weekly_collections':
+      return buildWeeklyCollections(admin, params)
+    default:
+      throw new Error(`Unknown report type: ${params.report_type}`)
+  }
+}
+
+export function reportToCsv(report: ReportTable): Uint8Array {
+  const esc = (v: unknown) => {
+    const s = v === null || v === undefined ? '' : String(v)
+    return /[",\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s
+  }
+  const lines = [report.columns, ...report.rows, ...(report.totals ? [report.totals] : [])]
+    .map(row => row.map(esc).join(','))
+  return new TextEncoder().encode(lines.join('\n'))
+}
+
+export function reportToPdf(report: ReportTable, companyName: string): Uint8Array {
+  const doc = new jsPDF({ orientation: 'landscape' })
+  const width = doc.internal.pageSize.getWidth()
+
+  doc.setFontSize(20)
+  doc.setFont('helvetica', 'bold')
+  doc.setTextColor(17, 24, 39)
+  doc.text(companyName, 14, 20)
+  doc.setDrawColor(17, 24, 39)
+  doc.line(14, 22, width - 14, 22)
+
+  doc.setFontSize(16)
+  doc.text(report.title, 14, 32)
+  doc.setFontSize(11)
+  doc.setFont('helvetica', 'normal')
+  doc.setTextColor(100, 100, 100)
+  doc.text(report.subtitle, 14, 39)
+
+  autoTable(doc, {
+    startY: 45,
+    head: [report.columns],
+    body: report.rows.map(row => row.map(String)),
+    foot: report.totals ? [report.totals.map(String)] : undefined,
+    theme: 'grid',
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [17, 24, 39] },
+    footStyles: { fillColor: [243, 244, 246], textColor: [17, 24, 39], fontStyle: 'bold' },
+  })
+
+  return new Uint8Array(doc.output('arraybuffer'))
+}
@@ -0,0 +1,115 @@
+// SMS provider adapters. system_settings.sms_provider picks the adapter; its
+// credentials come from the function's secrets:
+//
+//   console         no secrets. Prints each message and, when SMS_OUTBOX_FILE is
+//                   set, appends it to that file as a JSON line. For local testing.
+//   africastalking  AT_USERNAME, AT_API_KEY (username "sandbox" uses the sandbox API)
+//
+// A new provider implements SmsProvider and is added to getSmsProvider.
+
+export type SmsSendResult = {
+  ok: boolean
+  messageId?: string
+  error?: string
+}
+
+export type SmsDeliveryReport = {
+  messageId: string
+  status: 'delivered' | 'failed'
+  error?: string
+}
+
+export interface SmsProvider {
+  name: string
+  send(to: string, message: string, senderId?: string | null): Promise<SmsSendResult>
+  // null when the callback is not a final delivery state worth recording
+  parseDeliveryReport(req: Request): Promise<SmsDeliveryReport | null>
+}
+
+const consoleProvider: SmsProvider = {
+  name: 'console',
+  async send(to, message, senderId) {
+    const messageId = `console-${crypto.randomUUID()}`
+    const entry = { messageId, to, from: senderId || null, message, sentAt: new Date().toISOString() }
+    console.log('[sms:console]', JSON.stringify(entry))
+
+    const file = Deno.env.get('SMS_OUTBOX_FILE')
+    if (file) {
+      try {
+        await Deno.writeTextFile(file, JSON.stringify(entry) + '\n', { append: true })
+      } catch (e) {
+        return { ok: false, error: `Could not write ${file}: ${e.message}` }
+      }
+    }
+    return { ok: true, messageId }
+  },
+  // Accepts {"id": "...", "status": "delivered" | "failed", "error"?: "..."}
+  async parseDeliveryReport(req) {
+    const body = await req.json()
+    if (!body?.id || !['delivered', 'failed'].includes(body.status)) return null
+    return { messageId: String(body.id), status: body.status, error: body.error }
+  },
+}
+
+// Africa's Talking: https://developers.africastalking.com/docs/sms/sending
+const africasTalkingProvider = (): SmsProvider => {
+  const username = Deno.env.get('AT_USERNAME') ?? ''
+  const apiKey = Deno.env.get('AT_API_KEY') ?? ''
+  const baseUrl = username === 'sandbox'
+    ? 'https://api.sandbox.africastalking.com'
+    : 'https://api.africastalking.com'
+
+  return {
+    name: 'africastalking',
+    async send(to, message, senderId) {
+      if (!username || !apiKey) return { ok: false, error: 'AT_USERNAME and AT_API_KEY are not set' }
+
+      const form = new URLSearchParams({ username, to, message })
+      if (senderId) form.set('from', senderId)
+
+      const response = await fetch(`${baseUrl}/version1/messaging`, {
+        method: 'POST',
+        headers: {
+          apiKey,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form,
+      })
+      if (!response.ok) return { ok: false, error: `HTTP ${response.status}: ${await response.text()}` }
+
+      const data = await response.json()
+      const recipient = data?.SMSMessageData?.Recipients?.[0]
+      // 100 Processed, 101 Sent, 102 Queued; anything else was rejected
+      if (!recipient || ![100, 101, 102].includes(Number(recipient.statusCode))) {
+        return { ok: false, error: recipient?.status || data?.SMSMessageData?.Message || 'Rejected by provider' }
+      }
+      return { ok: true, messageId: recipient.messageId }
+    },
+    // Delivery reports are form posts: id, status, phoneNumber, failureReason
+    async parseDeliveryReport(req) {
+      const form = await req.formData()
+      const id = form.get('id')?.toString()
+      const status = form.get('status')?.toString()
+      if (!id || !status) return null
+      if (status === 'Success') return { messageId: id, status: 'delivered' }
+      if (status === 'Failed' || status === 'Rejected') {
+        return { messageId: id, status: 'failed', error: form.get('failureReason')?.toString() || status }
+      }
+      return null
+    },
+  }
+}
+
+export function getSmsProvider(name: string | null | undefined): SmsProvider {
+  switch (name) {
+    case 'africastalking':
+      return africasTalkingProvider()
+    case 'console':
+    case undefined:
+    case null:
+      return consoleProvider
+    default:
+      throw new Error(`Unknown SMS provider: ${name}`)
+  }
+}
@@ -63,6 +63,7 @@ serve(async (req) => {
 
     let totalSize = 0
     let count = 0
+    const failed: string[] = []
 
     for (const table of tables) {
       // Skip missing tables gracefully
@@ -73,8 +74,10 @@ serve(async (req) => {
         const bytes = new TextEncoder().encode(csv)
         const path = `${prefix}/${table}.csv`
         const { error: upErr } = await admin.storage.from('backups').upload(path, bytes, { contentType: 'text/csv', upsert: true })
-        if (!upErr) { totalSize += bytes.length; count++ }
-      } catch {}
+        if (!upErr) { totalSize += bytes.length; count++ } else { failed.push(table) }
+      } catch {
+        failed.push(table)
+      }
     }
 
     // Record metadata
@@ -84,12 +87,18 @@ serve(async (req) => {
         path: prefix,
         object_count: count,
         total_size_bytes: totalSize,
-        status: 'success'
+        // A failed row raises an alert to the admins (notify_backup_failed trigger)
+        status: failed.length === 0 && count > 0 ? 'success' : 'failed',
+        details: failed.length > 0 ? `Could not upload: ${failed.join(', ')}` : (count === 0 ? 'No tables were backed up' : null)
       })
     } catch {}
 
-    return new Response(JSON.stringify({ success: true, path: prefix, objects: count, total_size_bytes: totalSize }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 })
+    return new Response(JSON.stringify({ success: failed.length === 0 && count > 0, path: prefix, objects: count, total_size_bytes: totalSize, failed }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 })
   } catch (e) {
+    try {
+      const admin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+      await admin.from('backup_metadata').insert({ path: 'n/a', object_count: 0, status: 'failed', details: e.message || 'Unknown error' })
+    } catch {}
     return new Response(JSON.stringify({ success: false, error: e.message || 'Unknown error' }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 })
   }
 })
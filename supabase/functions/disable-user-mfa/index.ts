@@ -82,6 +82,19 @@ serve(async (req: Request) => {
 
     console.log("disable-user-mfa: success", { removed: factors.length });
 
+    // Recovery codes belong to the removed authenticator; new ones come with re-enrolment
+    try {
+      const codes = await fetch(`${SUPABASE_URL}/rest/v1/mfa_recovery_codes?user_id=eq.${userId}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+          apikey: SERVICE_ROLE_KEY,
+          Prefer: 'return=minimal'
+        },
+      });
+      console.log('disable-user-mfa: recovery codes delete status', codes.status);
+    } catch(e) { console.warn('disable-user-mfa: recovery codes delete failed'); }
+
     // Insert a notification and auth log
     try {
       const admin = await fetch(`${SUPABASE_URL}/rest/v1/notifications`, {
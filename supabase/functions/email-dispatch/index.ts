@@ -0,0 +1,103 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { createSmtpTransport, type EmailAttachment } from '../_shared/email.ts'
+import { buildReport, reportToCsv, reportToPdf, type ReportParams } from '../_shared/reports.ts'
+
+// Drains email_outbox. Called every five minutes by run_email_dispatch (pg_cron),
+// or from the app. Scheduled report emails get their PDF/CSV attachment
+// built here, from the data as it is when the email goes out. complete_email_send
+// records the outcome and retries failures.
+
+const BATCH_SIZE = 20
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const admin = createClient(supabaseUrl, serviceRoleKey)
+
+    // The cron call sends the service role key. Staff may trigger a run too (e.g.
+    // "send now" on a report subscription): it only sends what the database already
+    // queued. Anyone else is turned away.
+    const authHeader = req.headers.get('Authorization')
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : ''
+    if (!token) return respond({ success: false, error: 'Not authorized' }, 401)
+    if (token !== serviceRoleKey) {
+      const { data } = await admin.auth.getUser(token)
+      if (!data.user) return respond({ success: false, error: 'Not authorized' }, 401)
+      const { data: prof } = await admin.from('profiles').select('role, is_active').eq('id', data.user.id).maybeSingle()
+      if (!prof || prof.is_active === false) {
+        return respond({ success: false, error: 'Not authorized' }, 403)
+      }
+    }
+
+    const { data: settings, error: settingsError } = await admin
+      .from('system_settings')
+      .select('email_notifications, company_name, company_email')
+      .eq('id', 1)
+      .single()
+    if (settingsError) throw settingsError
+    if (!settings.email_notifications) return respond({ success: true, skipped: 'Email notifications are off' })
+    if (!settings.company_email) return respond({ success: false, error: 'Set the company email in Settings first' }, 400)
+
+    const { data: batch, error: claimError } = await admin.rpc('claim_email_outbox', { p_limit: BATCH_SIZE })
+    if (claimError) throw claimError
+    if (!batch || batch.length === 0) return respond({ success: true, claimed: 0, sent: 0, retrying: 0, failed: 0 })
+
+    const from = `${settings.company_name} <${settings.company_email}>`
+    const transport = createSmtpTransport()
+    const summary = { sent: 0, retrying: 0, failed: 0 }
+
+    try {
+      for (const email of batch) {
+        let error: string | null = null
+        try {
+          const attachments: EmailAttachment[] = []
+          if (email.report_params && email.user_id) {
+            const params = email.report_params as ReportParams
+            const report = await buildReport(admin, email.user_id, params)
+            attachments.push(params.format === 'csv'
+              ? { filename: `${report.fileName}.csv`, contentType: 'text/csv', content: reportToCsv(report) }
+              : { filename: `${report.fileName}.pdf`, contentType: 'application/pdf', content: reportToPdf(report, settings.company_name) })
+          }
+
+          await transport.send({
+            from,
+            to: email.recipient_name ? `${email.recipient_name} <${email.recipient_email}>` : email.recipient_email,
+            subject: email.subject,
+            text: email.body,
+            attachments,
+          })
+        } catch (e) {
+          error = e.message || 'Send failed'
+        }
+
+        const { data: outcome, error: completeError } = await admin.rpc('complete_email_send', {
+          p_outbox_id: email.id,
+          p_success: error === null,
+          p_error: error,
+        })
+        if (completeError) {
+          console.error('Could not record email outcome for', email.id, completeError.message)
+          continue
+        }
+        if (outcome === 'sent') summary.sent++
+        else if (outcome === 'queued') summary.retrying++
+        else if (outcome === 'failed') summary.failed++
+      }
+    } finally {
+      await transport.close().catch(() => {})
+    }
+
+    return respond({ success: true, claimed: batch.length, ...summary })
+  } catch (e) {
+    console.error('email-dispatch error', e)
+    return respond({ success: false, error: e.message || 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,102 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+
+// M-Pesa C2B confirmation callback (Daraja format). Register this function's URL
+// as the paybill ConfirmationURL, with ?token=<MPESA_CALLBACK_TOKEN> appended:
+// Safaricom cannot send custom headers, so the shared token rides in the query string.
+//
+// Every callback is stored verbatim in mobile_money_receipts, then
+// match_mobile_money_receipt posts it to a loan or leaves it in the suspense queue.
+// Safaricom retries on non-zero ResultCode, so duplicates (same TransID) are acknowledged.
+
+type C2BPayload = {
+  TransactionType?: string
+  TransID?: string
+  TransTime?: string
+  TransAmount?: string | number
+  BusinessShortCode?: string
+  BillRefNumber?: string
+  InvoiceNumber?: string
+  OrgAccountBalance?: string
+  ThirdPartyTransID?: string
+  MSISDN?: string
+  FirstName?: string
+  MiddleName?: string
+  LastName?: string
+}
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status })
+
+// TransTime is yyyyMMddHHmmss in East Africa Time (UTC+3)
+function parseTransTime(value?: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value || '')
+  if (!match) return new Date().toISOString()
+  const [, y, mo, d, h, mi, s] = match
+  return new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}+03:00`).toISOString()
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+  if (req.method !== 'POST') return respond({ ResultCode: 1, ResultDesc: 'Method not allowed' }, 405)
+
+  const expectedToken = Deno.env.get('MPESA_CALLBACK_TOKEN') ?? ''
+  const token = new URL(req.url).searchParams.get('token') ?? ''
+  if (!expectedToken || token !== expectedToken) {
+    return respond({ ResultCode: 1, ResultDesc: 'Unauthorized' }, 401)
+  }
+
+  let payload: C2BPayload
+  try {
+    payload = await req.json()
+  } catch {
+    return respond({ ResultCode: 1, ResultDesc: 'Invalid JSON' }, 400)
+  }
+
+  const amount = Number(payload.TransAmount)
+  if (!payload.TransID || !Number.isFinite(amount) || amount <= 0) {
+    return respond({ ResultCode: 1, ResultDesc: 'TransID and a positive TransAmount are required' }, 400)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const admin = createClient(supabaseUrl, serviceRoleKey)
+
+    const payerName = [payload.FirstName, payload.MiddleName, payload.LastName].filter(Boolean).join(' ')
+
+    const { data: receipt, error: insertError } = await admin
+      .from('mobile_money_receipts')
+      .insert({
+        provider: 'mpesa',
+        transaction_id: payload.TransID,
+        transaction_type: payload.TransactionType || null,
+        amount,
+        msisdn: payload.MSISDN || null,
+        payer_name: payerName || null,
+        account_reference: payload.BillRefNumber || null,
+        business_short_code: payload.BusinessShortCode || null,
+        transaction_time: parseTransTime(payload.TransTime),
+        raw_payload: payload,
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      // 23505 = unique_violation: Safaricom resent a callback we already stored
+      if (insertError.code === '23505') {
+        return respond({ ResultCode: 0, ResultDesc: 'Accepted (duplicate)' })
+      }
+      throw insertError
+    }
+
+    const { data: status, error: matchError } = await admin.rpc('match_mobile_money_receipt', { p_receipt_id: receipt.id })
+    if (matchError) console.error('Auto-match failed for', payload.TransID, matchError.message)
+
+    return respond({ ResultCode: 0, ResultDesc: 'Accepted', status: status || 'unmatched' })
+  } catch (e) {
+    console.error('mpesa-c2b error', e)
+    return respond({ ResultCode: 1, ResultDesc: e.message || 'Unknown error' }, 500)
+  }
+})
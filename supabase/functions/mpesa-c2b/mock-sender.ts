@@ -0,0 +1,49 @@
+// Local mock of a Safaricom C2B confirmation, for testing the mpesa-c2b function
+// without a paybill. Not deployed: only index.ts is the function entrypoint.
+//
+//   deno run --allow-net --allow-env supabase/functions/mpesa-c2b/mock-sender.ts <account> <amount> [msisdn]
+//
+// <account> is what the member would type as the paybill account number: a loan
+// account / application number, or their ID number. Reads MPESA_C2B_URL
+// (default http://localhost:54321/functions/v1/mpesa-c2b) and MPESA_CALLBACK_TOKEN.
+
+const [account, amount, msisdn = '254712345678'] = Deno.args
+
+if (!account || !amount) {
+  console.error('Usage: mock-sender.ts <account> <amount> [msisdn]')
+  Deno.exit(1)
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+// Daraja sends TransTime as yyyyMMddHHmmss in East Africa Time
+const eat = new Date(Date.now() + 3 * 60 * 60 * 1000)
+const transTime = `${eat.getUTCFullYear()}${pad(eat.getUTCMonth() + 1)}${pad(eat.getUTCDate())}` +
+  `${pad(eat.getUTCHours())}${pad(eat.getUTCMinutes())}${pad(eat.getUTCSeconds())}`
+
+const payload = {
+  TransactionType: 'Pay Bill',
+  TransID: `MOCK${Date.now().toString(36).toUpperCase()}`,
+  TransTime: transTime,
+  TransAmount: Number(amount).toFixed(2),
+  BusinessShortCode: '600000',
+  BillRefNumber: account,
+  InvoiceNumber: '',
+  OrgAccountBalance: '',
+  ThirdPartyTransID: '',
+  MSISDN: msisdn,
+  FirstName: 'Test',
+  MiddleName: '',
+  LastName: 'Member',
+}
+
+const url = new URL(Deno.env.get('MPESA_C2B_URL') ?? 'http://localhost:54321/functions/v1/mpesa-c2b')
+url.searchParams.set('token', Deno.env.get('MPESA_CALLBACK_TOKEN') ?? '')
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(payload),
+})
+
+console.log(`Sent ${payload.TransID} for KES ${payload.TransAmount} to account ${account}`)
+console.log(response.status, await response.text())
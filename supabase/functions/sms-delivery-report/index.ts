@@ -0,0 +1,55 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getSmsProvider } from '../_shared/sms.ts'
+
+// Delivery report callback for SMS providers. Register this function's URL with
+// the provider as ?provider=<name>&token=<SMS_CALLBACK_TOKEN>: providers cannot
+// send custom headers, so the shared token rides in the query string.
+//
+// The provider's adapter turns its report into delivered/failed, and
+// record_sms_delivery updates the matching sms_outbox row. Intermediate states
+// (queued at the carrier, buffered) are acknowledged and ignored.
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+  if (req.method !== 'POST') return respond({ success: false, error: 'Method not allowed' }, 405)
+
+  const params = new URL(req.url).searchParams
+  const expectedToken = Deno.env.get('SMS_CALLBACK_TOKEN') ?? ''
+  if (!expectedToken || params.get('token') !== expectedToken) {
+    return respond({ success: false, error: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const provider = getSmsProvider(params.get('provider') || 'console')
+
+    let report
+    try {
+      report = await provider.parseDeliveryReport(req)
+    } catch {
+      return respond({ success: false, error: 'Unreadable delivery report' }, 400)
+    }
+    if (!report) return respond({ success: true, recorded: false })
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const admin = createClient(supabaseUrl, serviceRoleKey)
+
+    const { data: recorded, error } = await admin.rpc('record_sms_delivery', {
+      p_provider: provider.name,
+      p_provider_message_id: report.messageId,
+      p_status: report.status,
+      p_error: report.error ?? null,
+    })
+    if (error) throw error
+
+    return respond({ success: true, recorded: !!recorded })
+  } catch (e) {
+    console.error('sms-delivery-report error', e)
+    return respond({ success: false, error: e.message || 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,80 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getSmsProvider } from '../_shared/sms.ts'
+
+// Drains sms_outbox. Called every five minutes by run_sms_dispatch (pg_cron),
+// or by an administrator. Rows are claimed first, so overlapping runs never send
+// the same message twice; complete_sms_send records the outcome, retries
+// failures and logs sent messages in communication_logs.
+
+const BATCH_SIZE = 50
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders })
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const admin = createClient(supabaseUrl, serviceRoleKey)
+
+    // The cron call sends the service role key; anyone else must be a signed-in admin
+    const authHeader = req.headers.get('Authorization')
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : ''
+    if (!token) return respond({ success: false, error: 'Not authorized' }, 401)
+    if (token !== serviceRoleKey) {
+      const { data } = await admin.auth.getUser(token)
+      if (!data.user) return respond({ success: false, error: 'Not authorized' }, 401)
+      const { data: prof } = await admin.from('profiles').select('role').eq('id', data.user.id).maybeSingle()
+      if (!prof || !['super_admin', 'admin'].includes(prof.role)) {
+        return respond({ success: false, error: 'Not authorized' }, 403)
+      }
+    }
+
+    const { data: settings, error: settingsError } = await admin
+      .from('system_settings')
+      .select('sms_notifications, sms_provider, sms_sender_id')
+      .eq('id', 1)
+      .single()
+    if (settingsError) throw settingsError
+    if (!settings.sms_notifications) return respond({ success: true, skipped: 'SMS notifications are off' })
+
+    const provider = getSmsProvider(settings.sms_provider)
+
+    const { data: batch, error: claimError } = await admin.rpc('claim_sms_outbox', { p_limit: BATCH_SIZE })
+    if (claimError) throw claimError
+
+    const summary = { sent: 0, retrying: 0, failed: 0 }
+    for (const sms of batch || []) {
+      let result
+      try {
+        result = await provider.send(sms.phone_number, sms.message, settings.sms_sender_id)
+      } catch (e) {
+        result = { ok: false, error: e.message || 'Provider error' }
+      }
+
+      const { data: outcome, error: completeError } = await admin.rpc('complete_sms_send', {
+        p_outbox_id: sms.id,
+        p_success: result.ok,
+        p_provider: provider.name,
+        p_provider_message_id: result.messageId ?? null,
+        p_error: result.error ?? null,
+      })
+      if (completeError) {
+        console.error('Could not record SMS outcome for', sms.id, completeError.message)
+        continue
+      }
+      if (outcome === 'sent') summary.sent++
+      else if (outcome === 'queued') summary.retrying++
+      else if (outcome === 'failed') summary.failed++
+    }
+
+    return respond({ success: true, provider: provider.name, claimed: (batch || []).length, ...summary })
+  } catch (e) {
+    console.error('sms-dispatch error', e)
+    return respond({ success: false, error: e.message || 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,446 @@
+-- Loan Product Catalogue
+-- Replaces the hard-coded small_loan / big_loan rules with a configurable
+-- loan_products table. The loan form, approvals, calculate_loan_details and the
+-- installment trigger all read their rules from here.
+
+-- 1. Products table
+-- An early schema (20250820103531) created a loan_products table with monthly
+-- terms, fractional rates and no code, seeded with sample products the app
+-- never offered. Replace it; the catalogue is seeded below.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.tables
+    WHERE table_schema = 'public' AND table_name = 'loan_products'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'loan_products' AND column_name = 'code'
+  ) THEN
+    -- CASCADE also removes the old loans.loan_product_id foreign key, if still there
+    DROP TABLE public.loan_products CASCADE;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.loan_products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE CHECK (code ~ '^[a-z][a-z0-9_]*$'),
+    name TEXT NOT NULL,
+    description TEXT,
+
+    -- Amount band and optional increment ladder (empty = any amount in band)
+    min_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+    max_amount DECIMAL(15,2) CHECK (max_amount IS NULL OR max_amount >= min_amount),
+    amount_levels DECIMAL(15,2)[] NOT NULL DEFAULT '{}',
+
+    -- Repayment terms: allowed installment types and number of installments
+    allowed_installment_types TEXT[] NOT NULL DEFAULT '{weekly}'
+        CHECK (allowed_installment_types <@ ARRAY['daily','weekly','monthly']::TEXT[] AND cardinality(allowed_installment_types) > 0),
+    term_lengths INTEGER[] NOT NULL DEFAULT '{8}' CHECK (cardinality(term_lengths) > 0),
+
+    -- Interest: rate is a percentage of principal charged over the whole term
+    interest_method TEXT NOT NULL DEFAULT 'flat' CHECK (interest_method IN ('flat')),
+    interest_rate DECIMAL(7,4) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0),
+
+    -- Processing fee
+    processing_fee_type TEXT NOT NULL DEFAULT 'percentage' CHECK (processing_fee_type IN ('percentage','fixed')),
+    processing_fee_value DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (processing_fee_value >= 0),
+
+    -- Late payment penalty
+    penalty_type TEXT NOT NULL DEFAULT 'percentage' CHECK (penalty_type IN ('percentage','fixed')),
+    penalty_rate DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (penalty_rate >= 0),
+    penalty_grace_days INTEGER NOT NULL DEFAULT 0 CHECK (penalty_grace_days >= 0),
+    penalty_cap DECIMAL(15,2) CHECK (penalty_cap IS NULL OR penalty_cap >= 0),
+
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_products_active ON public.loan_products(is_active, display_order);
+
+-- 2. Seed the two programmes that used to live in LoanFormPage
+INSERT INTO public.loan_products (
+    code, name, description, min_amount, max_amount, amount_levels,
+    allowed_installment_types, term_lengths, interest_method, interest_rate,
+    processing_fee_type, processing_fee_value, display_order
+) VALUES
+(
+    'small_loan', 'Small Loan', '8 weekly installments',
+    5000, 50000,
+    '{5000,7000,9000,11000,13000,15000,17000,20000,25000,30000,35000,40000,45000,50000}',
+    '{weekly}', '{8}', 'flat', 18, 'percentage', 6, 1
+),
+(
+    'big_loan', 'Big Loan', '12 weekly installments',
+    13000, 50000,
+    '{13000,15000,17000,20000,25000,30000,35000,40000,45000,50000}',
+    '{weekly}', '{12}', 'flat', 25, 'percentage', 6, 2
+)
+ON CONFLICT (code) DO NOTHING;
+
+-- 3. Link loans to the catalogue instead of a fixed CHECK list
+ALTER TABLE public.loans DROP CONSTRAINT IF EXISTS loans_loan_program_check;
+ALTER TABLE public.loans DROP CONSTRAINT IF EXISTS loans_loan_program_fkey;
+ALTER TABLE public.loans
+    ADD CONSTRAINT loans_loan_program_fkey
+    FOREIGN KEY (loan_program) REFERENCES public.loan_products(code) ON UPDATE CASCADE;
+
+-- Number of installments chosen from the product's term_lengths
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS installment_count INTEGER CHECK (installment_count IS NULL OR installment_count > 0);
+
+UPDATE public.loans l
+SET installment_count = lp.term_lengths[1]
+FROM public.loan_products lp
+WHERE lp.code = l.loan_program
+  AND l.installment_count IS NULL;
+
+-- 4. RLS: every staff member can read products, only admins maintain them
+ALTER TABLE public.loan_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS loan_products_select ON public.loan_products;
+CREATE POLICY loan_products_select ON public.loan_products
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS loan_products_admin_insert ON public.loan_products;
+CREATE POLICY loan_products_admin_insert ON public.loan_products
+FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS loan_products_admin_update ON public.loan_products;
+CREATE POLICY loan_products_admin_update ON public.loan_products
+FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+CREATE OR REPLACE FUNCTION public.update_loan_products_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_loan_products_updated_at ON public.loan_products;
+CREATE TRIGGER update_loan_products_updated_at
+  BEFORE UPDATE ON public.loan_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_loan_products_timestamp();
+
+-- 5. Helpers shared by the functions below
+CREATE OR REPLACE FUNCTION public.loan_product_processing_fee(
+    p_product public.loan_products,
+    p_principal DECIMAL
+) RETURNS DECIMAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_product.processing_fee_type = 'fixed' THEN p_product.processing_fee_value
+        ELSE ROUND(p_principal * p_product.processing_fee_value / 100, 2)
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.installment_due_date(
+    p_start DATE,
+    p_installment_type TEXT,
+    p_installment_number INTEGER
+) RETURNS DATE
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT CASE COALESCE(p_installment_type, 'weekly')
+        WHEN 'daily' THEN p_start + p_installment_number
+        WHEN 'monthly' THEN (p_start + make_interval(months => p_installment_number))::DATE
+        ELSE p_start + (p_installment_number * 7)
+    END;
+$$;
+
+-- Validates an amount / installment type / term against a product.
+-- Returns NULL when valid, otherwise a human readable reason.
+CREATE OR REPLACE FUNCTION public.validate_loan_product_terms(
+    p_loan_program TEXT,
+    p_principal DECIMAL,
+    p_installment_type TEXT,
+    p_installment_count INTEGER DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_product public.loan_products;
+BEGIN
+    SELECT * INTO v_product FROM public.loan_products WHERE code = p_loan_program;
+
+    IF NOT FOUND THEN
+        RETURN 'Unknown loan product ' || COALESCE(p_loan_program, '(none)');
+    END IF;
+    IF NOT v_product.is_active THEN
+        RETURN v_product.name || ' is no longer offered';
+    END IF;
+    IF p_principal < v_product.min_amount THEN
+        RETURN v_product.name || ' requires at least KES ' || to_char(v_product.min_amount, 'FM999,999,990');
+    END IF;
+    IF v_product.max_amount IS NOT NULL AND p_principal > v_product.max_amount THEN
+        RETURN v_product.name || ' allows at most KES ' || to_char(v_product.max_amount, 'FM999,999,990');
+    END IF;
+    IF p_installment_type IS NOT NULL AND NOT (p_installment_type = ANY (v_product.allowed_installment_types)) THEN
+        RETURN v_product.name || ' does not allow ' || p_installment_type || ' installments';
+    END IF;
+    IF p_installment_count IS NOT NULL AND NOT (p_installment_count = ANY (v_product.term_lengths)) THEN
+        RETURN v_product.name || ' does not offer a ' || p_installment_count || '-installment term';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_loan_product_terms(TEXT, DECIMAL, TEXT, INTEGER) TO authenticated;
+
+-- 6. calculate_loan_details now reads the product instead of a CASE on the code
+DROP FUNCTION IF EXISTS public.calculate_loan_details(DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION public.calculate_loan_details(
+    p_principal DECIMAL,
+    p_loan_program TEXT,
+    p_installment_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE(
+    interest_rate DECIMAL,
+    repayment_weeks INTEGER,
+    processing_fee DECIMAL,
+    interest_amount DECIMAL,
+    total_disbursed DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_product public.loan_products;
+    v_term INTEGER;
+    v_fee DECIMAL;
+    v_interest DECIMAL;
+BEGIN
+    SELECT * INTO v_product FROM public.loan_products WHERE code = p_loan_program;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown loan product %', p_loan_program;
+    END IF;
+
+    v_term := COALESCE(p_installment_count, v_product.term_lengths[1]);
+    v_fee := public.loan_product_processing_fee(v_product, p_principal);
+    v_interest := ROUND(p_principal * v_product.interest_rate / 100, 2);
+
+    RETURN QUERY
+    SELECT
+        v_product.interest_rate,
+        v_term,
+        v_fee,
+        v_interest,
+        ROUND(p_principal + v_interest + v_fee, 2);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_loan_details(DECIMAL, TEXT, INTEGER) TO authenticated;
+
+-- 7. Processing fee default comes from the product
+CREATE OR REPLACE FUNCTION ensure_processing_fee()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_product public.loan_products;
+BEGIN
+    IF NEW.processing_fee IS NULL OR NEW.processing_fee = 0 THEN
+        SELECT * INTO v_product FROM public.loan_products WHERE code = NEW.loan_program;
+        IF FOUND THEN
+            NEW.processing_fee := public.loan_product_processing_fee(v_product, NEW.principal_amount);
+        ELSE
+            NEW.processing_fee := ROUND(NEW.principal_amount * 0.06, 2);
+        END IF;
+    END IF;
+
+    IF NEW.total_disbursed IS NULL OR NEW.total_disbursed = 0 THEN
+        NEW.total_disbursed := NEW.principal_amount + COALESCE(NEW.interest_disbursed, 0) + NEW.processing_fee;
+    END IF;
+
+    IF NEW.current_balance IS NULL OR NEW.current_balance = 0 THEN
+        NEW.current_balance := NEW.total_disbursed;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 8. Installments use the loan's term and installment type
+CREATE OR REPLACE FUNCTION create_loan_installments()
+RETURNS TRIGGER AS $$
+DECLARE
+    installment_count INTEGER;
+    installment_principal DECIMAL(15,2);
+    installment_interest DECIMAL(15,2);
+    i INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        installment_count := COALESCE(
+            NEW.installment_count,
+            (SELECT lp.term_lengths[1] FROM public.loan_products lp WHERE lp.code = NEW.loan_program),
+            8
+        );
+
+        installment_principal := ROUND(NEW.principal_amount / installment_count, 2);
+        installment_interest := ROUND(COALESCE(NEW.interest_disbursed, 0) / installment_count, 2);
+
+        FOR i IN 1..installment_count LOOP
+            -- Last installment absorbs rounding differences
+            IF i = installment_count THEN
+                installment_principal := NEW.principal_amount - installment_principal * (installment_count - 1);
+                installment_interest := COALESCE(NEW.interest_disbursed, 0) - installment_interest * (installment_count - 1);
+            END IF;
+
+            INSERT INTO public.loan_installments (
+                loan_id,
+                installment_number,
+                due_date,
+                principal_amount,
+                interest_amount,
+                total_amount
+            ) VALUES (
+                NEW.id,
+                i,
+                public.installment_due_date(NEW.issue_date, NEW.installment_type, i),
+                installment_principal,
+                installment_interest,
+                installment_principal + installment_interest
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Schedule view reads the term from the loan / product
+CREATE OR REPLACE VIEW loan_installment_schedule AS
+SELECT
+    l.id as loan_id,
+    l.loan_program,
+    l.principal_amount,
+    l.interest_disbursed,
+    l.total_disbursed,
+    l.issue_date,
+    l.installment_type,
+    COALESCE(l.installment_count, lp.term_lengths[1], 8) as repayment_weeks,
+    i.installment_number,
+    i.due_date,
+    i.principal_amount as installment_principal,
+    i.interest_amount as installment_interest,
+    i.total_amount as installment_total
+FROM loans l
+    JOIN loan_products lp ON lp.code = l.loan_program
+    CROSS JOIN LATERAL generate_installment_schedule(
+        l.id,
+        l.issue_date,
+        l.principal_amount,
+        l.interest_disbursed,
+        COALESCE(l.installment_count, lp.term_lengths[1], 8),
+        l.installment_type
+    ) i
+WHERE l.loan_program IS NOT NULL;
+
+GRANT SELECT ON loan_installment_schedule TO authenticated;
+
+-- 10. Approvals re-check the product rules at the time of approval
+CREATE OR REPLACE FUNCTION public.set_loan_approval_status(
+  p_loan_id UUID,
+  p_status TEXT,
+  p_set_by UUID
+) RETURNS VOID AS $$
+DECLARE
+  v_processing_fee DECIMAL(15,2);
+  v_branch_id BIGINT;
+  v_member_id UUID;
+  v_loan RECORD;
+  v_product_error TEXT;
+BEGIN
+  IF p_status NOT IN ('approved','rejected','pending') THEN
+    RAISE EXCEPTION 'Invalid approval status %', p_status;
+  END IF;
+
+  IF p_status = 'approved' THEN
+    SELECT loan_program, principal_amount, installment_type, installment_count
+    INTO v_loan
+    FROM public.loans
+    WHERE id = p_loan_id;
+
+    IF v_loan.loan_program IS NOT NULL THEN
+      v_product_error := public.validate_loan_product_terms(
+        v_loan.loan_program, v_loan.principal_amount, v_loan.installment_type, v_loan.installment_count
+      );
+      IF v_product_error IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot approve loan: %', v_product_error;
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE public.loans
+  SET approval_status = p_status,
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  -- Only on approval: book processing fee in transactions if table exists
+  IF p_status = 'approved' THEN
+    SELECT processing_fee, branch_id, member_id
+    INTO v_processing_fee, v_branch_id, v_member_id
+    FROM public.loans
+    WHERE id = p_loan_id;
+
+    IF COALESCE(v_processing_fee,0) > 0 THEN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'transactions'
+      ) THEN
+        INSERT INTO public.transactions (
+          amount,
+          transaction_type,
+          description,
+          loan_id,
+          member_id,
+          transaction_date,
+          created_by,
+          status,
+          reference_number,
+          branch_id,
+          payment_method,
+          currency,
+          total_paid,
+          fees
+        )
+        SELECT
+          v_processing_fee,
+          'fee',
+          'Processing Fee',
+          p_loan_id,
+          v_member_id,
+          CURRENT_DATE,
+          p_set_by,
+          'completed',
+          'PF-' || p_loan_id::text,
+          v_branch_id,
+          'cash',
+          'KES',
+          v_processing_fee,
+          v_processing_fee
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.transactions t
+          WHERE t.reference_number = 'PF-' || p_loan_id::text
+        );
+      END IF;
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_loan_approval_status(UUID, TEXT, UUID) TO authenticated;
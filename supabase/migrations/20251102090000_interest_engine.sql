@@ -0,0 +1,284 @@
+-- Interest Engine
+-- Adds reducing-balance and interest-only products next to flat interest.
+-- public.build_loan_schedule is the single schedule builder in the database and
+-- mirrors src/utils/interestEngine.ts step for step (same rounding, same order),
+-- so the schedule previewed in the loan form is the one stored in loan_installments.
+-- test_interest_engine.sql checks both sides against the same known answers.
+
+-- 1. Products may use any of the three methods
+ALTER TABLE public.loan_products DROP CONSTRAINT IF EXISTS loan_products_interest_method_check;
+ALTER TABLE public.loan_products ADD CONSTRAINT loan_products_interest_method_check
+    CHECK (interest_method IN ('flat', 'reducing_balance', 'interest_only'));
+
+COMMENT ON COLUMN public.loan_products.interest_rate IS
+    'flat: % of principal over the whole term; reducing_balance / interest_only: % per installment period';
+
+-- 2. Loans remember the method they were priced with.
+-- Some environments still carry the old loan_interest_method enum column. Rows
+-- with no method were scheduled as a flat split and become flat; the enum's
+-- 'simple' is interest on the original principal, which is flat under the new
+-- names. Any other method already recorded is kept.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'loans' AND column_name = 'interest_method'
+    ) THEN
+        ALTER TABLE public.loans ALTER COLUMN interest_method DROP DEFAULT;
+        ALTER TABLE public.loans ALTER COLUMN interest_method TYPE TEXT USING interest_method::TEXT;
+    ELSE
+        ALTER TABLE public.loans ADD COLUMN interest_method TEXT;
+    END IF;
+END $$;
+
+UPDATE public.loans SET interest_method = 'flat'
+WHERE interest_method IS NULL OR interest_method = 'simple';
+
+ALTER TABLE public.loans ALTER COLUMN interest_method SET DEFAULT 'flat';
+ALTER TABLE public.loans ALTER COLUMN interest_method SET NOT NULL;
+ALTER TABLE public.loans DROP CONSTRAINT IF EXISTS loans_interest_method_check;
+ALTER TABLE public.loans ADD CONSTRAINT loans_interest_method_check
+    CHECK (interest_method IN ('flat', 'reducing_balance', 'interest_only'));
+
+-- 3. Schedule builder
+-- p_interest_rate is a percentage (18 = 18%), as stored on loan_products.
+-- Keep in lock-step with buildRepaymentSchedule in src/utils/interestEngine.ts.
+CREATE OR REPLACE FUNCTION public.build_loan_schedule(
+    p_principal DECIMAL,
+    p_interest_rate DECIMAL,
+    p_interest_method TEXT,
+    p_installment_count INTEGER,
+    p_installment_type TEXT DEFAULT 'weekly',
+    p_issue_date DATE DEFAULT NULL
+)
+RETURNS TABLE(
+    installment_number INTEGER,
+    due_date DATE,
+    principal_amount DECIMAL,
+    interest_amount DECIMAL,
+    total_amount DECIMAL,
+    balance_after DECIMAL
+)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_principal DECIMAL := ROUND(COALESCE(p_principal, 0), 2);
+    v_count INTEGER := GREATEST(1, COALESCE(p_installment_count, 1));
+    v_rate DECIMAL := COALESCE(p_interest_rate, 0);
+    v_method TEXT := COALESCE(p_interest_method, 'flat');
+    v_total_interest DECIMAL;
+    v_period_principal DECIMAL;
+    v_period_interest DECIMAL;
+    v_installment DECIMAL;
+    v_balance DECIMAL;
+    v_principal_part DECIMAL;
+    v_interest_part DECIMAL;
+    v_period_rate DOUBLE PRECISION;
+    i INTEGER;
+BEGIN
+    IF v_method NOT IN ('flat', 'reducing_balance', 'interest_only') THEN
+        RAISE EXCEPTION 'Unknown interest method %', v_method;
+    END IF;
+
+    v_total_interest := ROUND(v_principal * v_rate / 100, 2);
+    v_period_principal := ROUND(v_principal / v_count, 2);
+    v_period_interest := ROUND(v_total_interest / v_count, 2);
+
+    -- Equal installments: EMI = P * i / (1 - (1 + i)^-n), computed in floating point like the client
+    IF v_method = 'reducing_balance' THEN
+        v_period_rate := v_rate::DOUBLE PRECISION / 100;
+        IF v_period_rate = 0 THEN
+            v_installment := v_period_principal;
+        ELSE
+            v_installment := ROUND((
+                v_principal::DOUBLE PRECISION * v_period_rate / (1 - power(1 + v_period_rate, -v_count))
+            )::NUMERIC, 2);
+        END IF;
+    END IF;
+
+    v_balance := v_principal;
+
+    FOR i IN 1..v_count LOOP
+        IF v_method = 'reducing_balance' THEN
+            v_interest_part := ROUND(v_balance * v_rate / 100, 2);
+            IF i = v_count THEN
+                v_principal_part := v_balance;
+            ELSE
+                v_principal_part := LEAST(v_balance, v_installment - v_interest_part);
+            END IF;
+        ELSIF v_method = 'interest_only' THEN
+            v_interest_part := v_total_interest;
+            v_principal_part := CASE WHEN i = v_count THEN v_principal ELSE 0 END;
+        ELSE
+            -- Flat: even split, last installment absorbs rounding differences
+            IF i = v_count THEN
+                v_principal_part := v_principal - v_period_principal * (v_count - 1);
+                v_interest_part := v_total_interest - v_period_interest * (v_count - 1);
+            ELSE
+                v_principal_part := v_period_principal;
+                v_interest_part := v_period_interest;
+            END IF;
+        END IF;
+
+        v_balance := v_balance - v_principal_part;
+
+        installment_number := i;
+        due_date := CASE
+            WHEN p_issue_date IS NULL THEN NULL
+            ELSE public.installment_due_date(p_issue_date, p_installment_type, i)
+        END;
+        principal_amount := v_principal_part;
+        interest_amount := v_interest_part;
+        total_amount := v_principal_part + v_interest_part;
+        balance_after := v_balance;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.build_loan_schedule(DECIMAL, DECIMAL, TEXT, INTEGER, TEXT, DATE) TO authenticated;
+
+-- Rate to feed the engine for a stored loan. loans.interest_rate is a fraction
+-- (0.18); flat loans are scheduled from the booked interest so loans priced
+-- before the product catalogue keep their original installments.
+CREATE OR REPLACE FUNCTION public.loan_schedule_rate(
+    p_interest_method TEXT,
+    p_interest_rate DECIMAL,
+    p_principal DECIMAL,
+    p_interest_disbursed DECIMAL
+) RETURNS DECIMAL
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN COALESCE(p_interest_method, 'flat') = 'flat'
+            THEN COALESCE(p_interest_disbursed, 0) * 100 / NULLIF(p_principal, 0)
+        ELSE COALESCE(p_interest_rate, 0) * 100
+    END;
+$$;
+
+-- 4. calculate_loan_details sums the engine's interest for the product method
+CREATE OR REPLACE FUNCTION public.calculate_loan_details(
+    p_principal DECIMAL,
+    p_loan_program TEXT,
+    p_installment_count INTEGER DEFAULT NULL
+)
+RETURNS TABLE(
+    interest_rate DECIMAL,
+    repayment_weeks INTEGER,
+    processing_fee DECIMAL,
+    interest_amount DECIMAL,
+    total_disbursed DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_product public.loan_products;
+    v_term INTEGER;
+    v_fee DECIMAL;
+    v_interest DECIMAL;
+BEGIN
+    SELECT * INTO v_product FROM public.loan_products WHERE code = p_loan_program;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Unknown loan product %', p_loan_program;
+    END IF;
+
+    v_term := COALESCE(p_installment_count, v_product.term_lengths[1]);
+    v_fee := public.loan_product_processing_fee(v_product, p_principal);
+
+    SELECT COALESCE(SUM(s.interest_amount), 0) INTO v_interest
+    FROM public.build_loan_schedule(
+        p_principal,
+        v_product.interest_rate,
+        v_product.interest_method,
+        v_term,
+        v_product.allowed_installment_types[1]
+    ) s;
+
+    RETURN QUERY
+    SELECT
+        v_product.interest_rate,
+        v_term,
+        v_fee,
+        v_interest,
+        ROUND(p_principal + v_interest + v_fee, 2);
+END;
+$$;
+
+-- 5. Installments come from the engine
+CREATE OR REPLACE FUNCTION create_loan_installments()
+RETURNS TRIGGER AS $$
+DECLARE
+    installment_count INTEGER;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        installment_count := COALESCE(
+            NEW.installment_count,
+            (SELECT lp.term_lengths[1] FROM public.loan_products lp WHERE lp.code = NEW.loan_program),
+            8
+        );
+
+        INSERT INTO public.loan_installments (
+            loan_id,
+            installment_number,
+            due_date,
+            principal_amount,
+            interest_amount,
+            total_amount
+        )
+        SELECT
+            NEW.id,
+            s.installment_number,
+            s.due_date,
+            s.principal_amount,
+            s.interest_amount,
+            s.total_amount
+        FROM public.build_loan_schedule(
+            NEW.principal_amount,
+            public.loan_schedule_rate(NEW.interest_method, NEW.interest_rate, NEW.principal_amount, NEW.interest_disbursed),
+            NEW.interest_method,
+            installment_count,
+            NEW.installment_type,
+            NEW.issue_date
+        ) s;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Schedule view uses the engine as well
+DROP VIEW IF EXISTS loan_installment_schedule;
+
+CREATE VIEW loan_installment_schedule AS
+SELECT
+    l.id as loan_id,
+    l.loan_program,
+    l.principal_amount,
+    l.interest_disbursed,
+    l.total_disbursed,
+    l.issue_date,
+    l.installment_type,
+    l.interest_method,
+    COALESCE(l.installment_count, lp.term_lengths[1], 8) as repayment_weeks,
+    s.installment_number,
+    s.due_date,
+    s.principal_amount as installment_principal,
+    s.interest_amount as installment_interest,
+    s.total_amount as installment_total,
+    s.balance_after
+FROM loans l
+    JOIN loan_products lp ON lp.code = l.loan_program
+    CROSS JOIN LATERAL public.build_loan_schedule(
+        l.principal_amount,
+        public.loan_schedule_rate(l.interest_method, l.interest_rate, l.principal_amount, l.interest_disbursed),
+        l.interest_method,
+        COALESCE(l.installment_count, lp.term_lengths[1], 8),
+        l.installment_type,
+        l.issue_date
+    ) s
+WHERE l.loan_program IS NOT NULL;
+
+GRANT SELECT ON loan_installment_schedule TO authenticated;
@@ -0,0 +1,291 @@
+-- Late Payment Penalty Accrual
+-- A nightly job walks unpaid, overdue loan_installments and charges penalties
+-- using the loan's late_payment_penalty_rate / penalty_type, the product's
+-- grace days and per-installment cap, falling back to
+-- system_settings.default_penalty_rate. Every charge is a loan_penalties row
+-- plus a pending 'penalty' transaction; admins can waive charges.
+--
+-- Charge rule: once an installment is more than grace days late it is charged
+-- once, then once more for every further installment period (day / week / month)
+-- it stays unpaid. Percentage penalties are a % of the installment's unpaid amount.
+
+-- 1. Settings
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS auto_accrue_penalties BOOLEAN DEFAULT TRUE;
+-- Charges dated before this are never raised, so switching the job on does not
+-- back-charge loans that were already late before penalties were automated.
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS penalty_accrual_start DATE DEFAULT CURRENT_DATE;
+UPDATE public.system_settings SET penalty_accrual_start = CURRENT_DATE WHERE penalty_accrual_start IS NULL;
+
+-- 2. Penalty ledger
+CREATE TABLE IF NOT EXISTS public.loan_penalties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    installment_id UUID NOT NULL REFERENCES public.loan_installments(id) ON DELETE CASCADE,
+    installment_number INTEGER NOT NULL,
+    charge_number INTEGER NOT NULL CHECK (charge_number > 0),
+    accrual_date DATE NOT NULL,
+    days_overdue INTEGER NOT NULL,
+    penalty_type TEXT NOT NULL CHECK (penalty_type IN ('percentage','fixed')),
+    penalty_rate DECIMAL(15,2) NOT NULL,
+    base_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    status TEXT NOT NULL DEFAULT 'accrued' CHECK (status IN ('accrued','waived')),
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    waived_by UUID REFERENCES public.profiles(id),
+    waived_at TIMESTAMPTZ,
+    waiver_reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (installment_id, charge_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_penalties_loan_id ON public.loan_penalties(loan_id);
+CREATE INDEX IF NOT EXISTS idx_loan_penalties_status ON public.loan_penalties(status);
+
+-- 3. RLS: visible to whoever can see the loan; written only through the functions below
+ALTER TABLE public.loan_penalties ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS loan_penalties_select ON public.loan_penalties;
+CREATE POLICY loan_penalties_select ON public.loan_penalties
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.loans l WHERE l.id = loan_penalties.loan_id)
+);
+
+-- 4. Accrual job
+CREATE OR REPLACE FUNCTION public.accrue_loan_penalties(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(penalties_created INTEGER, loans_charged INTEGER, total_amount DECIMAL) AS $$
+DECLARE
+  v_settings RECORD;
+  v_inst RECORD;
+  v_type TEXT;
+  v_rate DECIMAL;
+  v_grace INTEGER;
+  v_cap DECIMAL;
+  v_unpaid DECIMAL;
+  v_charged DECIMAL;
+  v_amount DECIMAL;
+  v_charge_date DATE;
+  v_charge INTEGER;
+  v_transaction_id UUID;
+  v_created INTEGER := 0;
+  v_total DECIMAL := 0;
+  v_loans UUID[] := '{}';
+BEGIN
+  -- Cron runs without a user; people may only trigger it when they are admins
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can run penalty accrual';
+  END IF;
+
+  SELECT auto_accrue_penalties, penalty_accrual_start, default_penalty_rate
+  INTO v_settings
+  FROM public.system_settings
+  WHERE id = 1;
+
+  IF auth.uid() IS NULL AND NOT COALESCE(v_settings.auto_accrue_penalties, TRUE) THEN
+    RETURN QUERY SELECT 0, 0, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount,
+      COALESCE(i.amount_paid, 0) AS amount_paid,
+      l.id AS loan_id,
+      l.member_id,
+      l.branch_id,
+      l.installment_type,
+      l.late_payment_penalty_rate,
+      l.penalty_type AS loan_penalty_type,
+      lp.penalty_type AS product_penalty_type,
+      lp.penalty_rate AS product_penalty_rate,
+      lp.penalty_grace_days,
+      lp.penalty_cap
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+      LEFT JOIN public.loan_products lp ON lp.code = l.loan_program
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.due_date < p_as_of
+      AND l.status IN ('active','disbursed','defaulted')
+      AND COALESCE(l.approval_status, 'approved') = 'approved'
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+    ORDER BY l.id, i.installment_number
+  LOOP
+    -- Loan terms win, then the product, then the system default (percentage)
+    IF COALESCE(v_inst.late_payment_penalty_rate, 0) > 0 THEN
+      v_rate := v_inst.late_payment_penalty_rate;
+      v_type := CASE WHEN v_inst.loan_penalty_type IN ('flat','fixed') THEN 'fixed' ELSE 'percentage' END;
+    ELSIF COALESCE(v_inst.product_penalty_rate, 0) > 0 THEN
+      v_rate := v_inst.product_penalty_rate;
+      v_type := v_inst.product_penalty_type;
+    ELSE
+      v_rate := COALESCE(v_settings.default_penalty_rate, 0);
+      v_type := 'percentage';
+    END IF;
+
+    CONTINUE WHEN v_rate <= 0;
+
+    v_grace := COALESCE(v_inst.penalty_grace_days, 0);
+    v_cap := v_inst.penalty_cap;
+    v_unpaid := GREATEST(v_inst.total_amount - v_inst.amount_paid, 0);
+    CONTINUE WHEN v_unpaid <= 0;
+
+    SELECT COALESCE(SUM(lpn.amount), 0) INTO v_charged
+    FROM public.loan_penalties lpn
+    WHERE lpn.installment_id = v_inst.installment_id;
+
+    v_charge := 1;
+    v_charge_date := public.installment_due_date(v_inst.due_date + v_grace + 1, v_inst.installment_type, 0);
+
+    WHILE v_charge_date <= p_as_of LOOP
+      IF v_charge_date >= COALESCE(v_settings.penalty_accrual_start, p_as_of)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.loan_penalties lpn
+          WHERE lpn.installment_id = v_inst.installment_id AND lpn.charge_number = v_charge
+        )
+      THEN
+        v_amount := CASE
+          WHEN v_type = 'fixed' THEN v_rate
+          ELSE ROUND(v_unpaid * v_rate / 100, 2)
+        END;
+        -- Waived charges still count towards the cap so waiving never re-opens it
+        IF v_cap IS NOT NULL THEN
+          v_amount := LEAST(v_amount, GREATEST(v_cap - v_charged, 0));
+        END IF;
+
+        EXIT WHEN v_amount <= 0;
+
+        INSERT INTO public.transactions (
+          amount,
+          transaction_type,
+          description,
+          loan_id,
+          member_id,
+          transaction_date,
+          status,
+          reference_number,
+          branch_id,
+          payment_method,
+          currency,
+          penalties
+        ) VALUES (
+          v_amount,
+          'penalty',
+          'Late payment penalty - installment ' || v_inst.installment_number,
+          v_inst.loan_id,
+          v_inst.member_id,
+          v_charge_date,
+          'pending',
+          'PEN-' || v_inst.installment_id::text || '-' || v_charge,
+          v_inst.branch_id,
+          'other',
+          'KES',
+          v_amount
+        )
+        RETURNING id INTO v_transaction_id;
+
+        INSERT INTO public.loan_penalties (
+          loan_id,
+          installment_id,
+          installment_number,
+          charge_number,
+          accrual_date,
+          days_overdue,
+          penalty_type,
+          penalty_rate,
+          base_amount,
+          amount,
+          transaction_id
+        ) VALUES (
+          v_inst.loan_id,
+          v_inst.installment_id,
+          v_inst.installment_number,
+          v_charge,
+          v_charge_date,
+          v_charge_date - v_inst.due_date,
+          v_type,
+          v_rate,
+          v_unpaid,
+          v_amount,
+          v_transaction_id
+        );
+
+        v_charged := v_charged + v_amount;
+        v_total := v_total + v_amount;
+        v_created := v_created + 1;
+        IF NOT (v_inst.loan_id = ANY (v_loans)) THEN
+          v_loans := array_append(v_loans, v_inst.loan_id);
+        END IF;
+      END IF;
+
+      v_charge := v_charge + 1;
+      v_charge_date := public.installment_due_date(v_inst.due_date + v_grace + 1, v_inst.installment_type, v_charge - 1);
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, cardinality(v_loans), v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.accrue_loan_penalties(DATE) TO authenticated;
+
+-- 5. Waivers: all outstanding penalties on a loan, or only the ids given
+CREATE OR REPLACE FUNCTION public.waive_loan_penalties(
+  p_loan_id UUID,
+  p_reason TEXT,
+  p_penalty_ids UUID[] DEFAULT NULL
+) RETURNS DECIMAL AS $$
+DECLARE
+  v_total DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can waive penalties';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to waive penalties';
+  END IF;
+
+  WITH waived AS (
+    UPDATE public.loan_penalties
+    SET status = 'waived',
+        waived_by = auth.uid(),
+        waived_at = NOW(),
+        waiver_reason = p_reason
+    WHERE loan_id = p_loan_id
+      AND status = 'accrued'
+      AND (p_penalty_ids IS NULL OR id = ANY (p_penalty_ids))
+    RETURNING amount, transaction_id
+  ), cancelled AS (
+    UPDATE public.transactions t
+    SET status = 'cancelled',
+        notes = 'Waived: ' || p_reason,
+        updated_at = NOW()
+    FROM waived w
+    WHERE t.id = w.transaction_id
+    RETURNING t.id
+  )
+  SELECT COALESCE(SUM(amount), 0) INTO v_total FROM waived;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.waive_loan_penalties(UUID, TEXT, UUID[]) TO authenticated;
+
+-- 6. Schedule daily at 01:00 UTC, ahead of the nightly backup
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'daily_penalty_accrual') THEN
+    PERFORM cron.schedule('daily_penalty_accrual', '0 1 * * *', 'SELECT public.accrue_loan_penalties();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Run immediately (charges are idempotent per installment period): SELECT * FROM public.accrue_loan_penalties();
+-- 2) Verify schedule: SELECT * FROM cron.job WHERE jobname = 'daily_penalty_accrual';
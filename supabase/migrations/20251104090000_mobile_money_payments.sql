@@ -0,0 +1,254 @@
+-- Mobile Money (M-Pesa C2B) Payment Ingestion
+-- The mpesa-c2b edge function stores every paybill confirmation here and asks
+-- match_mobile_money_receipt to find the loan. The account number the member
+-- typed (BillRefNumber) may be a loan account number / application number or
+-- the member's ID number. Matched receipts become loan_payments rows, so the
+-- existing payment triggers validate the amount and run
+-- distribute_payment_across_installments. Anything that cannot be matched
+-- stays 'unmatched' in the suspense queue for staff to allocate by hand.
+
+-- 1. Receipts
+CREATE TABLE IF NOT EXISTS public.mobile_money_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider TEXT NOT NULL DEFAULT 'mpesa',
+    transaction_id TEXT NOT NULL UNIQUE,
+    transaction_type TEXT,
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    msisdn TEXT,
+    payer_name TEXT,
+    account_reference TEXT,
+    business_short_code TEXT,
+    transaction_time TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    raw_payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched','matched','allocated','dismissed')),
+    match_method TEXT CHECK (match_method IN ('loan_account','member_id_number','manual')),
+    member_id UUID REFERENCES public.members(id) ON DELETE SET NULL,
+    loan_id UUID REFERENCES public.loans(id) ON DELETE SET NULL,
+    loan_payment_id UUID REFERENCES public.loan_payments(id) ON DELETE SET NULL,
+    match_error TEXT,
+    notes TEXT,
+    allocated_by UUID REFERENCES public.profiles(id),
+    allocated_at TIMESTAMPTZ,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_receipts_status ON public.mobile_money_receipts(status);
+CREATE INDEX IF NOT EXISTS idx_mobile_money_receipts_loan_id ON public.mobile_money_receipts(loan_id);
+CREATE INDEX IF NOT EXISTS idx_mobile_money_receipts_received_at ON public.mobile_money_receipts(received_at);
+
+-- 2. RLS: staff who receive payments can see receipts; writes go through the functions below
+ALTER TABLE public.mobile_money_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS mobile_money_receipts_select ON public.mobile_money_receipts;
+CREATE POLICY mobile_money_receipts_select ON public.mobile_money_receipts
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+    AND p.role IN ('super_admin','admin','branch_admin','loan_officer','auditor')
+  )
+);
+
+-- 3. Post a receipt against a loan (shared by auto-match and manual allocation)
+CREATE OR REPLACE FUNCTION public.post_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_loan_id UUID,
+  p_match_method TEXT,
+  p_user_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_receipt public.mobile_money_receipts;
+  v_member_id UUID;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_receipt FROM public.mobile_money_receipts WHERE id = p_receipt_id;
+
+  SELECT COALESCE(member_id, customer_id) INTO v_member_id FROM public.loans WHERE id = p_loan_id;
+
+  INSERT INTO public.loan_payments (
+    loan_id,
+    installment_number,
+    amount,
+    payment_date,
+    payment_reference,
+    notes,
+    created_by
+  ) VALUES (
+    p_loan_id,
+    0,
+    v_receipt.amount,
+    (v_receipt.transaction_time AT TIME ZONE 'Africa/Nairobi')::DATE,
+    'MM-' || v_receipt.transaction_id,
+    'M-Pesa ' || v_receipt.transaction_id
+      || COALESCE(' from ' || v_receipt.msisdn, '')
+      || COALESCE(' (' || NULLIF(btrim(v_receipt.payer_name), '') || ')', ''),
+    p_user_id
+  )
+  RETURNING id INTO v_payment_id;
+
+  UPDATE public.mobile_money_receipts
+  SET status = CASE WHEN p_match_method = 'manual' THEN 'allocated' ELSE 'matched' END,
+      match_method = p_match_method,
+      loan_id = p_loan_id,
+      member_id = COALESCE(v_member_id, member_id),
+      loan_payment_id = v_payment_id,
+      match_error = NULL,
+      allocated_by = p_user_id,
+      allocated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.post_mobile_money_receipt(UUID, UUID, TEXT, UUID) FROM PUBLIC;
+
+-- 4. Auto-match: loan account number first, then member ID number (oldest open loan)
+CREATE OR REPLACE FUNCTION public.match_mobile_money_receipt(p_receipt_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_receipt public.mobile_money_receipts;
+  v_reference TEXT;
+  v_loan_id UUID;
+  v_member_id UUID;
+  v_method TEXT;
+BEGIN
+  SELECT * INTO v_receipt FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  IF v_receipt.status <> 'unmatched' THEN
+    RETURN v_receipt.status;
+  END IF;
+
+  v_reference := upper(regexp_replace(COALESCE(v_receipt.account_reference, ''), '\s', '', 'g'));
+  IF v_reference = '' THEN
+    UPDATE public.mobile_money_receipts SET match_error = 'No account number on the payment' WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END IF;
+
+  SELECT l.id INTO v_loan_id
+  FROM public.loans l
+  WHERE (upper(l.account_number) = v_reference OR upper(l.application_no) = v_reference)
+    AND l.status IN ('active','disbursed','defaulted')
+    AND COALESCE(l.is_deleted, FALSE) = FALSE
+  LIMIT 1;
+
+  IF v_loan_id IS NOT NULL THEN
+    v_method := 'loan_account';
+  ELSE
+    SELECT m.id INTO v_member_id
+    FROM public.members m
+    WHERE upper(regexp_replace(m.id_number, '\s', '', 'g')) = v_reference
+    LIMIT 1;
+
+    IF v_member_id IS NOT NULL THEN
+      SELECT l.id INTO v_loan_id
+      FROM public.loans l
+      WHERE COALESCE(l.member_id, l.customer_id) = v_member_id
+        AND l.status IN ('active','disbursed','defaulted')
+        AND COALESCE(l.is_deleted, FALSE) = FALSE
+        AND COALESCE(l.current_balance, 0) > 0
+      ORDER BY l.issue_date, l.created_at
+      LIMIT 1;
+      v_method := 'member_id_number';
+    END IF;
+  END IF;
+
+  IF v_loan_id IS NULL THEN
+    UPDATE public.mobile_money_receipts
+    SET member_id = v_member_id,
+        match_error = CASE
+          WHEN v_member_id IS NULL THEN 'No loan or member matches account ' || v_reference
+          ELSE 'Member has no open loan'
+        END
+    WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END IF;
+
+  -- The payment triggers reject overpayments; keep those in suspense with the reason
+  BEGIN
+    PERFORM public.post_mobile_money_receipt(p_receipt_id, v_loan_id, v_method, NULL);
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.mobile_money_receipts
+    SET loan_id = v_loan_id,
+        member_id = v_member_id,
+        match_error = SQLERRM
+    WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END;
+
+  RETURN 'matched';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.match_mobile_money_receipt(UUID) TO authenticated;
+
+-- 5. Manual allocation from the suspense queue
+CREATE OR REPLACE FUNCTION public.allocate_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_loan_id UUID,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_status TEXT;
+  v_payment_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to allocate mobile money receipts';
+  END IF;
+
+  SELECT status INTO v_status FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  IF v_status <> 'unmatched' THEN
+    RAISE EXCEPTION 'Receipt is already %', v_status;
+  END IF;
+
+  v_payment_id := public.post_mobile_money_receipt(p_receipt_id, p_loan_id, 'manual', auth.uid());
+
+  IF p_notes IS NOT NULL AND btrim(p_notes) <> '' THEN
+    UPDATE public.mobile_money_receipts SET notes = p_notes WHERE id = p_receipt_id;
+  END IF;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.allocate_mobile_money_receipt(UUID, UUID, TEXT) TO authenticated;
+
+-- 6. Dismiss receipts that are not loan repayments (e.g. refunded or sent in error)
+CREATE OR REPLACE FUNCTION public.dismiss_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_reason TEXT
+) RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can dismiss mobile money receipts';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to dismiss a receipt';
+  END IF;
+
+  UPDATE public.mobile_money_receipts
+  SET status = 'dismissed',
+      notes = p_reason,
+      allocated_by = auth.uid(),
+      allocated_at = NOW()
+  WHERE id = p_receipt_id
+    AND status = 'unmatched';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only unmatched receipts can be dismissed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.dismiss_mobile_money_receipt(UUID, TEXT) TO authenticated;
@@ -0,0 +1,312 @@
+-- Statement Reconciliation
+-- Finance uploads a paybill or bank statement (CSV) on the Reconciliation page.
+-- The browser matches every line to loan_payments / transactions by reference,
+-- amount and a date tolerance and saves the outcome here. Lines that are
+-- missing, mismatched or not on the statement are resolved either by posting an
+-- 'adjustment' transaction or by ignoring them with a note; both are recorded on
+-- the line and in audit_logs.
+
+-- 1. Reconciliation runs
+CREATE TABLE IF NOT EXISTS public.statement_reconciliations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    source TEXT NOT NULL CHECK (source IN ('mpesa','bank')),
+    file_name TEXT NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    date_tolerance_days INTEGER NOT NULL DEFAULT 2 CHECK (date_tolerance_days >= 0),
+    total_lines INTEGER NOT NULL DEFAULT 0,
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    mismatched_count INTEGER NOT NULL DEFAULT 0,
+    missing_count INTEGER NOT NULL DEFAULT 0,
+    duplicate_count INTEGER NOT NULL DEFAULT 0,
+    not_in_statement_count INTEGER NOT NULL DEFAULT 0,
+    statement_total DECIMAL(15,2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open','closed')),
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    closed_by UUID REFERENCES public.profiles(id),
+    closed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_reconciliations_created_at ON public.statement_reconciliations(created_at);
+
+-- 2. Statement lines (and system payments that are not on the statement)
+CREATE TABLE IF NOT EXISTS public.statement_reconciliation_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reconciliation_id UUID NOT NULL REFERENCES public.statement_reconciliations(id) ON DELETE CASCADE,
+    line_number INTEGER,
+    transaction_date DATE,
+    reference TEXT,
+    description TEXT,
+    amount DECIMAL(15,2),
+    match_status TEXT NOT NULL CHECK (match_status IN ('matched','mismatched','missing','duplicate','not_in_statement')),
+    match_method TEXT CHECK (match_method IN ('reference','amount_date')),
+    loan_payment_id UUID REFERENCES public.loan_payments(id) ON DELETE SET NULL,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    loan_id UUID REFERENCES public.loans(id) ON DELETE SET NULL,
+    system_reference TEXT,
+    system_amount DECIMAL(15,2),
+    system_date DATE,
+    difference DECIMAL(15,2) NOT NULL DEFAULT 0,
+    note TEXT,
+    resolution TEXT CHECK (resolution IN ('adjusted','ignored')),
+    adjustment_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    resolution_note TEXT,
+    resolved_by UUID REFERENCES public.profiles(id),
+    resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_reconciliation_lines_reconciliation_id ON public.statement_reconciliation_lines(reconciliation_id);
+CREATE INDEX IF NOT EXISTS idx_statement_reconciliation_lines_match_status ON public.statement_reconciliation_lines(match_status);
+
+-- 3. RLS: admins upload, auditors and branch admins review; resolutions go through the functions below
+ALTER TABLE public.statement_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.statement_reconciliation_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS statement_reconciliations_select ON public.statement_reconciliations;
+CREATE POLICY statement_reconciliations_select ON public.statement_reconciliations
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+    AND p.role IN ('super_admin','admin','branch_admin','auditor')
+  )
+);
+
+DROP POLICY IF EXISTS statement_reconciliations_insert ON public.statement_reconciliations;
+CREATE POLICY statement_reconciliations_insert ON public.statement_reconciliations
+FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS statement_reconciliation_lines_select ON public.statement_reconciliation_lines;
+CREATE POLICY statement_reconciliation_lines_select ON public.statement_reconciliation_lines
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+    AND p.role IN ('super_admin','admin','branch_admin','auditor')
+  )
+);
+
+DROP POLICY IF EXISTS statement_reconciliation_lines_insert ON public.statement_reconciliation_lines;
+CREATE POLICY statement_reconciliation_lines_insert ON public.statement_reconciliation_lines
+FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+  AND EXISTS (
+    SELECT 1 FROM public.statement_reconciliations r
+    WHERE r.id = statement_reconciliation_lines.reconciliation_id AND r.status = 'open'
+  )
+);
+
+-- 4. Post an adjustment transaction for an unresolved line
+CREATE OR REPLACE FUNCTION public.post_reconciliation_adjustment(
+  p_line_id UUID,
+  p_loan_id UUID,
+  p_amount DECIMAL,
+  p_direction TEXT,
+  p_note TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_line public.statement_reconciliation_lines;
+  v_reconciliation public.statement_reconciliations;
+  v_loan RECORD;
+  v_transaction_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post reconciliation adjustments';
+  END IF;
+
+  IF COALESCE(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for every adjustment';
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must be greater than zero';
+  END IF;
+  IF p_direction NOT IN ('credit','debit') THEN
+    RAISE EXCEPTION 'Adjustment direction must be credit or debit';
+  END IF;
+
+  SELECT * INTO v_line FROM public.statement_reconciliation_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation line % not found', p_line_id;
+  END IF;
+  IF v_line.resolution IS NOT NULL THEN
+    RAISE EXCEPTION 'This line has already been resolved';
+  END IF;
+  IF v_line.match_status = 'matched' THEN
+    RAISE EXCEPTION 'Matched lines do not need an adjustment';
+  END IF;
+
+  SELECT * INTO v_reconciliation FROM public.statement_reconciliations WHERE id = v_line.reconciliation_id;
+  IF v_reconciliation.status <> 'open' THEN
+    RAISE EXCEPTION 'This reconciliation is closed';
+  END IF;
+
+  SELECT l.id, l.member_id, l.branch_id INTO v_loan
+  FROM public.loans l
+  WHERE l.id = COALESCE(p_loan_id, v_line.loan_id);
+
+  INSERT INTO public.transactions (
+    transaction_type,
+    amount,
+    currency,
+    status,
+    payment_method,
+    reference_number,
+    description,
+    transaction_date,
+    loan_id,
+    member_id,
+    branch_id,
+    notes,
+    created_by
+  ) VALUES (
+    'adjustment',
+    p_amount,
+    'KES',
+    'completed',
+    CASE WHEN v_reconciliation.source = 'mpesa' THEN 'mobile_money' ELSE 'bank_transfer' END,
+    'REC-ADJ-' || p_line_id::text,
+    'Reconciliation ' || p_direction || ' adjustment'
+      || COALESCE(' for ' || COALESCE(v_line.reference, v_line.system_reference), ''),
+    COALESCE(v_line.transaction_date, v_line.system_date, CURRENT_DATE),
+    v_loan.id,
+    v_loan.member_id,
+    v_loan.branch_id,
+    p_note,
+    auth.uid()
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.statement_reconciliation_lines
+  SET resolution = 'adjusted',
+      adjustment_transaction_id = v_transaction_id,
+      loan_id = COALESCE(v_loan.id, loan_id),
+      resolution_note = p_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_line_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_ADJUSTMENT',
+    'statement_reconciliation_lines',
+    p_line_id,
+    jsonb_build_object('match_status', v_line.match_status, 'difference', v_line.difference),
+    jsonb_build_object(
+      'transaction_id', v_transaction_id,
+      'amount', p_amount,
+      'direction', p_direction,
+      'loan_id', v_loan.id,
+      'note', p_note
+    ),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.post_reconciliation_adjustment(UUID, UUID, DECIMAL, TEXT, TEXT) TO authenticated;
+
+-- 5. Accept a difference without posting anything (e.g. a duplicate bank line)
+CREATE OR REPLACE FUNCTION public.ignore_reconciliation_line(
+  p_line_id UUID,
+  p_note TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_line public.statement_reconciliation_lines;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can resolve reconciliation lines';
+  END IF;
+
+  IF COALESCE(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required to ignore a line';
+  END IF;
+
+  SELECT * INTO v_line FROM public.statement_reconciliation_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation line % not found', p_line_id;
+  END IF;
+  IF v_line.resolution IS NOT NULL THEN
+    RAISE EXCEPTION 'This line has already been resolved';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.statement_reconciliations r WHERE r.id = v_line.reconciliation_id AND r.status <> 'open'
+  ) THEN
+    RAISE EXCEPTION 'This reconciliation is closed';
+  END IF;
+
+  UPDATE public.statement_reconciliation_lines
+  SET resolution = 'ignored',
+      resolution_note = p_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_line_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_IGNORE',
+    'statement_reconciliation_lines',
+    p_line_id,
+    jsonb_build_object('match_status', v_line.match_status, 'difference', v_line.difference),
+    jsonb_build_object('note', p_note),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.ignore_reconciliation_line(UUID, TEXT) TO authenticated;
+
+-- 6. Close a reconciliation once every exception has been resolved
+CREATE OR REPLACE FUNCTION public.close_statement_reconciliation(p_reconciliation_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_open_lines INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can close reconciliations';
+  END IF;
+
+  SELECT COUNT(*) INTO v_open_lines
+  FROM public.statement_reconciliation_lines
+  WHERE reconciliation_id = p_reconciliation_id
+    AND match_status <> 'matched'
+    AND resolution IS NULL;
+
+  IF v_open_lines > 0 THEN
+    RAISE EXCEPTION '% line(s) still need to be adjusted or ignored', v_open_lines;
+  END IF;
+
+  UPDATE public.statement_reconciliations
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = NOW()
+  WHERE id = p_reconciliation_id
+    AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation not found or already closed';
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_CLOSE',
+    'statement_reconciliations',
+    p_reconciliation_id,
+    jsonb_build_object('status', 'open'),
+    jsonb_build_object('status', 'closed'),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.close_statement_reconciliation(UUID) TO authenticated;
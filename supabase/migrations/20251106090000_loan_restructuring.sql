@@ -0,0 +1,440 @@
+-- Loan Restructuring
+-- Staff request a restructure from the loan page: a new installment frequency,
+-- a new number of installments for what is still owed, optional extra interest
+-- and whether overdue installments (arrears) are folded into the new schedule.
+-- Requests wait in the Loan Approvals queue. On approval the unpaid part of the
+-- affected installments is rescheduled through public.build_loan_schedule:
+--   * paid installments are never touched;
+--   * replaced installments are not deleted (penalties and payments point at
+--     them) - they are shrunk to what was already paid, closed and stamped with
+--     replaced_by_restructure_id;
+--   * new installments are numbered after the existing ones and carry restructure_id.
+-- loan_restructures keeps the old terms, the new terms and a snapshot of the
+-- schedule that was replaced.
+
+-- 1. Links between loans, installments and restructures
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS restructure_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS restructured_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.loan_restructures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','approved','rejected')),
+    -- Terms before the restructure
+    old_installment_type TEXT,
+    old_installment_count INTEGER,
+    old_due_date DATE,
+    old_current_balance DECIMAL(15,2),
+    -- Requested terms
+    new_installment_type TEXT NOT NULL CHECK (new_installment_type IN ('daily','weekly','monthly')),
+    new_installment_count INTEGER NOT NULL CHECK (new_installment_count > 0),
+    additional_interest_rate DECIMAL(7,2) NOT NULL DEFAULT 0 CHECK (additional_interest_rate >= 0),
+    capitalise_arrears BOOLEAN NOT NULL DEFAULT FALSE,
+    effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    -- Figures (estimated on request, final on approval)
+    rescheduled_principal DECIMAL(15,2) NOT NULL DEFAULT 0,
+    rescheduled_interest DECIMAL(15,2) NOT NULL DEFAULT 0,
+    arrears_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    additional_interest DECIMAL(15,2) NOT NULL DEFAULT 0,
+    previous_schedule JSONB,
+    reason TEXT NOT NULL,
+    requested_by UUID REFERENCES public.profiles(id),
+    requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    reviewed_by UUID REFERENCES public.profiles(id),
+    reviewed_at TIMESTAMPTZ,
+    rejection_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_restructures_loan_id ON public.loan_restructures(loan_id);
+CREATE INDEX IF NOT EXISTS idx_loan_restructures_status ON public.loan_restructures(status);
+-- One open request per loan
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_restructures_one_pending
+    ON public.loan_restructures(loan_id) WHERE status = 'pending';
+
+ALTER TABLE public.loan_installments ADD COLUMN IF NOT EXISTS restructure_id UUID REFERENCES public.loan_restructures(id) ON DELETE SET NULL;
+ALTER TABLE public.loan_installments ADD COLUMN IF NOT EXISTS replaced_by_restructure_id UUID REFERENCES public.loan_restructures(id) ON DELETE SET NULL;
+
+-- 2. RLS: visible to whoever can see the loan; written only through the functions below
+ALTER TABLE public.loan_restructures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS loan_restructures_select ON public.loan_restructures;
+CREATE POLICY loan_restructures_select ON public.loan_restructures
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.loans l WHERE l.id = loan_restructures.loan_id)
+);
+
+-- 3. Schedule after a restructure (used for the preview and on approval)
+-- action: 'kept' (unchanged), 'replaced' (shrunk to the amount already paid) or 'new'.
+-- p_interest_rate is a percentage in build_loan_schedule terms, charged on the
+-- rescheduled principal; interest already booked on replaced installments is
+-- spread evenly over the new installments.
+CREATE OR REPLACE FUNCTION public.loan_restructure_schedule(
+  p_loan_id UUID,
+  p_installment_type TEXT,
+  p_installment_count INTEGER,
+  p_interest_rate DECIMAL DEFAULT 0,
+  p_capitalise_arrears BOOLEAN DEFAULT FALSE,
+  p_effective_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  installment_id UUID,
+  installment_number INTEGER,
+  due_date DATE,
+  principal_amount DECIMAL,
+  interest_amount DECIMAL,
+  total_amount DECIMAL,
+  amount_paid DECIMAL,
+  original_total DECIMAL,
+  action TEXT
+) AS $$
+DECLARE
+  v_method TEXT;
+  v_inst RECORD;
+  v_row RECORD;
+  v_paid DECIMAL;
+  v_paid_principal DECIMAL;
+  v_pool_principal DECIMAL := 0;
+  v_pool_interest DECIMAL := 0;
+  v_last_number INTEGER := 0;
+  v_count INTEGER := GREATEST(1, COALESCE(p_installment_count, 1));
+  v_spread DECIMAL;
+BEGIN
+  SELECT l.interest_method INTO v_method FROM public.loans l WHERE l.id = p_loan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+
+  FOR v_inst IN
+    SELECT li.*
+    FROM public.loan_installments li
+    WHERE li.loan_id = p_loan_id
+    ORDER BY li.installment_number
+  LOOP
+    v_last_number := GREATEST(v_last_number, v_inst.installment_number);
+    v_paid := COALESCE(v_inst.amount_paid, 0);
+
+    installment_id := v_inst.id;
+    installment_number := v_inst.installment_number;
+    due_date := v_inst.due_date;
+    amount_paid := v_paid;
+    original_total := v_inst.total_amount;
+
+    IF COALESCE(v_inst.is_paid, FALSE)
+      OR v_inst.replaced_by_restructure_id IS NOT NULL
+      OR (v_inst.due_date < p_effective_date AND NOT COALESCE(p_capitalise_arrears, FALSE))
+    THEN
+      principal_amount := v_inst.principal_amount;
+      interest_amount := v_inst.interest_amount;
+      total_amount := v_inst.total_amount;
+      action := 'kept';
+    ELSE
+      -- Payments are split between principal and interest in proportion to the installment
+      v_paid_principal := CASE
+        WHEN v_inst.total_amount > 0 THEN ROUND(v_inst.principal_amount * v_paid / v_inst.total_amount, 2)
+        ELSE 0
+      END;
+      v_pool_principal := v_pool_principal + (v_inst.principal_amount - v_paid_principal);
+      v_pool_interest := v_pool_interest + (GREATEST(v_inst.total_amount - v_paid, 0) - (v_inst.principal_amount - v_paid_principal));
+
+      principal_amount := v_paid_principal;
+      interest_amount := v_paid - v_paid_principal;
+      total_amount := v_paid;
+      action := 'replaced';
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_pool_principal + v_pool_interest <= 0 THEN
+    RAISE EXCEPTION 'Nothing is left to reschedule on this loan';
+  END IF;
+
+  v_spread := ROUND(v_pool_interest / v_count, 2);
+
+  FOR v_row IN
+    SELECT s.installment_number AS n, s.due_date AS d, s.principal_amount AS p, s.interest_amount AS i
+    FROM public.build_loan_schedule(v_pool_principal, COALESCE(p_interest_rate, 0), v_method, v_count, p_installment_type, p_effective_date) s
+  LOOP
+    installment_id := NULL;
+    installment_number := v_last_number + v_row.n;
+    due_date := v_row.d;
+    principal_amount := v_row.p;
+    interest_amount := v_row.i + CASE WHEN v_row.n = v_count THEN v_pool_interest - v_spread * (v_count - 1) ELSE v_spread END;
+    total_amount := principal_amount + interest_amount;
+    amount_paid := 0;
+    original_total := NULL;
+    action := 'new';
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.loan_restructure_schedule(UUID, TEXT, INTEGER, DECIMAL, BOOLEAN, DATE) TO authenticated;
+
+-- 4. Request a restructure
+CREATE OR REPLACE FUNCTION public.request_loan_restructure(
+  p_loan_id UUID,
+  p_installment_type TEXT,
+  p_installment_count INTEGER,
+  p_interest_rate DECIMAL,
+  p_capitalise_arrears BOOLEAN,
+  p_effective_date DATE,
+  p_reason TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_loan RECORD;
+  v_restructure_id UUID;
+  v_principal DECIMAL;
+  v_interest DECIMAL;
+  v_arrears DECIMAL;
+  v_new_interest DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to request loan restructures';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to restructure a loan';
+  END IF;
+  IF p_installment_type NOT IN ('daily','weekly','monthly') THEN
+    RAISE EXCEPTION 'Unknown installment frequency %', p_installment_type;
+  END IF;
+  IF COALESCE(p_installment_count, 0) <= 0 THEN
+    RAISE EXCEPTION 'The new schedule needs at least one installment';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  IF v_loan.status NOT IN ('active','disbursed','defaulted') OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Only active, disbursed or defaulted loans can be restructured';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.loan_restructures r WHERE r.loan_id = p_loan_id AND r.status = 'pending') THEN
+    RAISE EXCEPTION 'This loan already has a restructure waiting for approval';
+  END IF;
+
+  -- Estimate the figures for the approver (recomputed on approval)
+  SELECT
+    COALESCE(SUM(CASE WHEN s.action = 'replaced' THEN ri.principal_amount - s.principal_amount END), 0),
+    COALESCE(SUM(CASE WHEN s.action = 'replaced' THEN ri.total_amount - s.total_amount - (ri.principal_amount - s.principal_amount) END), 0),
+    COALESCE(SUM(CASE WHEN s.action = 'replaced' AND s.due_date < p_effective_date THEN ri.total_amount - s.total_amount END), 0),
+    COALESCE(SUM(CASE WHEN s.action = 'new' THEN s.interest_amount END), 0)
+  INTO v_principal, v_interest, v_arrears, v_new_interest
+  FROM public.loan_restructure_schedule(p_loan_id, p_installment_type, p_installment_count, p_interest_rate, p_capitalise_arrears, p_effective_date) s
+    LEFT JOIN public.loan_installments ri ON ri.id = s.installment_id;
+
+  INSERT INTO public.loan_restructures (
+    loan_id,
+    old_installment_type,
+    old_installment_count,
+    old_due_date,
+    old_current_balance,
+    new_installment_type,
+    new_installment_count,
+    additional_interest_rate,
+    capitalise_arrears,
+    effective_date,
+    rescheduled_principal,
+    rescheduled_interest,
+    arrears_amount,
+    additional_interest,
+    reason,
+    requested_by
+  ) VALUES (
+    p_loan_id,
+    v_loan.installment_type,
+    v_loan.installment_count,
+    v_loan.due_date,
+    v_loan.current_balance,
+    p_installment_type,
+    p_installment_count,
+    COALESCE(p_interest_rate, 0),
+    COALESCE(p_capitalise_arrears, FALSE),
+    COALESCE(p_effective_date, CURRENT_DATE),
+    v_principal,
+    v_interest,
+    v_arrears,
+    GREATEST(v_new_interest - v_interest, 0),
+    p_reason,
+    auth.uid()
+  )
+  RETURNING id INTO v_restructure_id;
+
+  RETURN v_restructure_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.request_loan_restructure(UUID, TEXT, INTEGER, DECIMAL, BOOLEAN, DATE, TEXT) TO authenticated;
+
+-- 5. Approve: rebuild the remaining schedule and update the loan
+CREATE OR REPLACE FUNCTION public.approve_loan_restructure(p_restructure_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_restructure public.loan_restructures;
+  v_loan RECORD;
+  v_snapshot JSONB;
+  v_row RECORD;
+  v_principal DECIMAL := 0;
+  v_interest DECIMAL := 0;
+  v_arrears DECIMAL := 0;
+  v_new_interest DECIMAL := 0;
+  v_additional DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can approve loan restructures';
+  END IF;
+
+  SELECT * INTO v_restructure FROM public.loan_restructures WHERE id = p_restructure_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restructure request % not found', p_restructure_id;
+  END IF;
+  IF v_restructure.status <> 'pending' THEN
+    RAISE EXCEPTION 'This restructure has already been %', v_restructure.status;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_restructure.loan_id FOR UPDATE;
+  IF v_loan.status NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'The loan is % and can no longer be restructured', v_loan.status;
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(li) ORDER BY li.installment_number) INTO v_snapshot
+  FROM public.loan_installments li
+  WHERE li.loan_id = v_loan.id;
+
+  FOR v_row IN
+    SELECT s.*, li.principal_amount AS old_principal, li.total_amount AS old_total
+    FROM public.loan_restructure_schedule(
+      v_loan.id,
+      v_restructure.new_installment_type,
+      v_restructure.new_installment_count,
+      v_restructure.additional_interest_rate,
+      v_restructure.capitalise_arrears,
+      v_restructure.effective_date
+    ) s
+      LEFT JOIN public.loan_installments li ON li.id = s.installment_id
+  LOOP
+    IF v_row.action = 'replaced' THEN
+      v_principal := v_principal + (v_row.old_principal - v_row.principal_amount);
+      v_interest := v_interest + (v_row.old_total - v_row.total_amount) - (v_row.old_principal - v_row.principal_amount);
+      IF v_row.due_date < v_restructure.effective_date THEN
+        v_arrears := v_arrears + (v_row.old_total - v_row.total_amount);
+      END IF;
+
+      UPDATE public.loan_installments
+      SET principal_amount = v_row.principal_amount,
+          interest_amount = v_row.interest_amount,
+          total_amount = v_row.total_amount,
+          is_paid = TRUE,
+          paid_date = CASE WHEN v_row.amount_paid > 0 THEN COALESCE(paid_date, CURRENT_DATE) ELSE paid_date END,
+          replaced_by_restructure_id = p_restructure_id,
+          updated_at = NOW()
+      WHERE id = v_row.installment_id;
+    ELSIF v_row.action = 'new' THEN
+      v_new_interest := v_new_interest + v_row.interest_amount;
+
+      INSERT INTO public.loan_installments (
+        loan_id,
+        installment_number,
+        due_date,
+        principal_amount,
+        interest_amount,
+        total_amount,
+        restructure_id
+      ) VALUES (
+        v_loan.id,
+        v_row.installment_number,
+        v_row.due_date,
+        v_row.principal_amount,
+        v_row.interest_amount,
+        v_row.total_amount,
+        p_restructure_id
+      );
+    END IF;
+  END LOOP;
+
+  v_additional := GREATEST(v_new_interest - v_interest, 0);
+
+  UPDATE public.loans
+  SET installment_type = v_restructure.new_installment_type,
+      installment_count = (
+        SELECT COUNT(*) FROM public.loan_installments li
+        WHERE li.loan_id = v_loan.id AND li.replaced_by_restructure_id IS NULL
+      ),
+      due_date = (SELECT MAX(li.due_date) FROM public.loan_installments li WHERE li.loan_id = v_loan.id),
+      interest_disbursed = COALESCE(interest_disbursed, 0) + v_additional,
+      current_balance = COALESCE(current_balance, 0) + v_additional,
+      restructure_count = restructure_count + 1,
+      restructured_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_loan.id;
+
+  UPDATE public.loan_restructures
+  SET status = 'approved',
+      rescheduled_principal = v_principal,
+      rescheduled_interest = v_interest,
+      arrears_amount = v_arrears,
+      additional_interest = v_additional,
+      previous_schedule = v_snapshot,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_restructure_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_RESTRUCTURE',
+    'loans',
+    v_loan.id,
+    jsonb_build_object(
+      'installment_type', v_loan.installment_type,
+      'installment_count', v_loan.installment_count,
+      'due_date', v_loan.due_date,
+      'current_balance', v_loan.current_balance
+    ),
+    jsonb_build_object(
+      'restructure_id', p_restructure_id,
+      'installment_type', v_restructure.new_installment_type,
+      'new_installments', v_restructure.new_installment_count,
+      'additional_interest', v_additional
+    ),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.approve_loan_restructure(UUID) TO authenticated;
+
+-- 6. Reject
+CREATE OR REPLACE FUNCTION public.reject_loan_restructure(p_restructure_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can reject loan restructures';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a restructure';
+  END IF;
+
+  UPDATE public.loan_restructures
+  SET status = 'rejected',
+      rejection_reason = p_reason,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_restructure_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restructure request not found or already reviewed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.reject_loan_restructure(UUID, TEXT) TO authenticated;
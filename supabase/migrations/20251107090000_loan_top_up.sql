@@ -0,0 +1,284 @@
+-- Loan Top-Up / Refinance
+-- A member with an open loan can take the next increment level before the
+-- current loan is repaid. The new loan points at the old one through
+-- loans.previous_loan_id:
+--   * on insert the outstanding balance of the old loan is quoted, the amount is
+--     checked against validate_loan_increment and the new loan is placed at the
+--     next increment level;
+--   * on approval the old loan is settled from the new loan's proceeds with a
+--     'TOPUP-' loan payment and a matching settlement transaction, which closes
+--     it through the usual payment trigger;
+--   * only the difference (net_disbursement_amount) is paid out to the member.
+
+-- 1. Top-up columns on loans
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS top_up_settlement_amount DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS net_disbursement_amount DECIMAL(15,2);
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS top_up_settled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_loans_previous_loan_id ON public.loans(previous_loan_id) WHERE previous_loan_id IS NOT NULL;
+
+-- 2. Outstanding balance, worked out the same way update_loan_balance_on_payment does
+CREATE OR REPLACE FUNCTION public.loan_outstanding_balance(p_loan_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT GREATEST(
+    ROUND(
+      COALESCE(l.principal_amount, 0) + COALESCE(l.interest_disbursed, 0)
+        + COALESCE(l.processing_fee, 0) - COALESCE(l.total_paid, 0),
+      2
+    ),
+    0
+  )
+  FROM public.loans l
+  WHERE l.id = p_loan_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.loan_outstanding_balance(UUID) TO authenticated;
+
+-- 3. Reason a loan cannot be topped up right now, NULL when it can
+CREATE OR REPLACE FUNCTION public.loan_top_up_block_reason(p_loan_id UUID, p_exclude_loan_id UUID DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RETURN 'The loan being topped up was not found';
+  END IF;
+  IF v_loan.status::TEXT NOT IN ('active','disbursed') THEN
+    RETURN 'Only active or disbursed loans can be topped up (this loan is ' || v_loan.status::TEXT || ')';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.loan_restructures r WHERE r.loan_id = p_loan_id AND r.status = 'pending'
+  ) THEN
+    RETURN 'The loan has a restructure awaiting approval';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.loans t
+    WHERE t.previous_loan_id = p_loan_id
+      AND t.id IS DISTINCT FROM p_exclude_loan_id
+      AND COALESCE(t.approval_status, 'pending') <> 'rejected'
+      AND COALESCE(t.is_deleted, FALSE) = FALSE
+  ) THEN
+    RETURN 'The loan already has a top-up in progress';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 4. Quote shown on the loan form before a top-up is created
+CREATE OR REPLACE FUNCTION public.get_loan_top_up_quote(p_loan_id UUID)
+RETURNS TABLE(
+  loan_id UUID,
+  member_id UUID,
+  increment_level INTEGER,
+  outstanding_balance DECIMAL(15,2),
+  next_level INTEGER,
+  next_amount DECIMAL(15,2),
+  block_reason TEXT
+) AS $$
+  SELECT
+    l.id,
+    COALESCE(l.member_id, l.customer_id),
+    COALESCE(l.increment_level, 1),
+    public.loan_outstanding_balance(l.id),
+    ni.next_level,
+    ni.next_amount,
+    public.loan_top_up_block_reason(l.id)
+  FROM public.loans l
+  LEFT JOIN LATERAL public.get_next_loan_increment(COALESCE(l.member_id, l.customer_id)) ni ON TRUE
+  WHERE l.id = p_loan_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_loan_top_up_quote(UUID) TO authenticated;
+
+-- 5. Validate and price a top-up when it is created
+CREATE OR REPLACE FUNCTION public.prepare_loan_top_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_previous public.loans;
+  v_reason TEXT;
+  v_outstanding DECIMAL(15,2);
+  v_role TEXT;
+  v_validation RECORD;
+  v_next RECORD;
+BEGIN
+  IF NEW.previous_loan_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_previous FROM public.loans WHERE id = NEW.previous_loan_id;
+  IF COALESCE(v_previous.member_id, v_previous.customer_id) IS DISTINCT FROM COALESCE(NEW.member_id, NEW.customer_id) THEN
+    RAISE EXCEPTION 'A top-up must be for the same member as the loan it replaces';
+  END IF;
+
+  v_reason := public.loan_top_up_block_reason(NEW.previous_loan_id, NEW.id);
+  IF v_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot top up loan: %', v_reason;
+  END IF;
+
+  v_outstanding := public.loan_outstanding_balance(NEW.previous_loan_id);
+  IF NEW.principal_amount <= v_outstanding THEN
+    RAISE EXCEPTION 'Top-up amount must be more than the outstanding balance of KES %', v_outstanding;
+  END IF;
+
+  SELECT p.role::TEXT INTO v_role FROM public.profiles p WHERE p.id = auth.uid();
+
+  SELECT * INTO v_validation
+  FROM public.validate_loan_increment(
+    COALESCE(NEW.member_id, NEW.customer_id),
+    NEW.principal_amount,
+    COALESCE(NEW.payment_weeks, NEW.installment_count, 8),
+    COALESCE(v_role, 'loan_officer')
+  );
+  IF NOT COALESCE(v_validation.is_valid, FALSE) THEN
+    RAISE EXCEPTION 'Cannot top up loan: %', COALESCE(v_validation.error_message, 'the amount breaks the increment rules');
+  END IF;
+
+  SELECT * INTO v_next FROM public.get_next_loan_increment(COALESCE(NEW.member_id, NEW.customer_id));
+
+  NEW.increment_level := COALESCE(v_next.next_level, COALESCE(v_previous.increment_level, 1) + 1);
+  NEW.top_up_settlement_amount := v_outstanding;
+  NEW.net_disbursement_amount := NEW.principal_amount - v_outstanding;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_prepare_loan_top_up ON public.loans;
+CREATE TRIGGER trigger_prepare_loan_top_up
+  BEFORE INSERT ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_loan_top_up();
+
+-- 6. Settle the old loan from the new loan's proceeds
+CREATE OR REPLACE FUNCTION public.settle_loan_top_up(p_loan_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_loan public.loans;
+  v_previous public.loans;
+  v_outstanding DECIMAL(15,2);
+  v_reference TEXT;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR v_loan.previous_loan_id IS NULL THEN
+    RAISE EXCEPTION 'Loan % is not a top-up', p_loan_id;
+  END IF;
+  IF v_loan.top_up_settled_at IS NOT NULL THEN
+    RETURN v_loan.top_up_settlement_amount;
+  END IF;
+
+  SELECT * INTO v_previous FROM public.loans WHERE id = v_loan.previous_loan_id FOR UPDATE;
+  IF v_previous.status::TEXT NOT IN ('active','disbursed') THEN
+    RAISE EXCEPTION 'The loan being topped up is % and can no longer be settled', v_previous.status::TEXT;
+  END IF;
+
+  -- Payments may have come in since the quote, so settle what is owed today
+  v_outstanding := public.loan_outstanding_balance(v_previous.id);
+  IF v_outstanding >= v_loan.principal_amount THEN
+    RAISE EXCEPTION 'The outstanding balance of KES % is no longer covered by the top-up', v_outstanding;
+  END IF;
+
+  v_reference := 'TOPUP-' || COALESCE(v_loan.application_no, v_loan.id::TEXT);
+
+  IF v_outstanding > 0 THEN
+    INSERT INTO public.loan_payments (
+      loan_id,
+      installment_number,
+      amount,
+      payment_date,
+      payment_reference,
+      notes,
+      created_by
+    ) VALUES (
+      v_previous.id,
+      0,
+      v_outstanding,
+      CURRENT_DATE,
+      v_reference,
+      'Settled by top-up loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      auth.uid()
+    );
+
+    INSERT INTO public.transactions (
+      amount,
+      transaction_type,
+      description,
+      loan_id,
+      member_id,
+      transaction_date,
+      created_by,
+      status,
+      reference_number,
+      branch_id,
+      payment_method,
+      currency,
+      total_paid
+    ) VALUES (
+      v_outstanding,
+      'payment',
+      'Top-up settlement from loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      v_previous.id,
+      COALESCE(v_previous.member_id, v_previous.customer_id),
+      CURRENT_DATE,
+      auth.uid(),
+      'completed',
+      v_reference,
+      v_previous.branch_id,
+      'other',
+      'KES',
+      v_outstanding
+    );
+  END IF;
+
+  -- The payment trigger closes fully paid loans; make sure a zero balance closes too
+  UPDATE public.loans
+  SET status = 'repaid',
+      current_balance = 0,
+      updated_at = NOW()
+  WHERE id = v_previous.id;
+
+  UPDATE public.loans
+  SET top_up_settlement_amount = v_outstanding,
+      net_disbursement_amount = v_loan.principal_amount - v_outstanding,
+      top_up_settled_at = NOW()
+  WHERE id = p_loan_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_TOP_UP',
+    'loans',
+    v_previous.id,
+    jsonb_build_object('status', v_previous.status, 'current_balance', v_previous.current_balance),
+    jsonb_build_object(
+      'status', 'repaid',
+      'settled_by_loan_id', p_loan_id,
+      'settlement_amount', v_outstanding,
+      'net_disbursement', v_loan.principal_amount - v_outstanding
+    ),
+    auth.uid()
+  );
+
+  RETURN v_outstanding;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.settle_loan_top_up(UUID) FROM PUBLIC;
+
+-- 7. Settlement runs when the top-up is approved
+CREATE OR REPLACE FUNCTION public.settle_loan_top_up_on_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.previous_loan_id IS NOT NULL
+     AND NEW.approval_status = 'approved'
+     AND OLD.approval_status IS DISTINCT FROM 'approved'
+     AND NEW.top_up_settled_at IS NULL THEN
+    PERFORM public.settle_loan_top_up(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_settle_loan_top_up ON public.loans;
+CREATE TRIGGER trigger_settle_loan_top_up
+  AFTER UPDATE OF approval_status ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.settle_loan_top_up_on_approval();
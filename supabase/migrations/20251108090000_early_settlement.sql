@@ -0,0 +1,383 @@
+-- Early Settlement
+-- Quote what a member owes to close a loan on a chosen date and record the
+-- payoff. A quote is:
+--   unpaid principal + unpaid interest + unpaid fees
+--   - rebate of unearned interest (system_settings policy)
+--   + accrued late-payment penalties
+-- Interest is earned installment by installment. Under 'pro_rata' interest on
+-- installments due after the quote date is unearned, with the installment in
+-- progress earned by days elapsed in its period. 'rule_of_78' uses the
+-- sum-of-digits share of the loan's interest for the remaining installments.
+-- 'none' gives no rebate. early_settlement_rebate_percent scales the rebate.
+--
+-- Settling lowers the loan's interest by the rebate, posts one loan payment for
+-- the rest, marks the penalties paid, closes every remaining installment and
+-- leaves the loan repaid. loan_settlements keeps the figures that were used.
+
+-- 1. Policy settings
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS early_settlement_rebate_policy TEXT NOT NULL DEFAULT 'pro_rata';
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS early_settlement_rebate_percent DECIMAL(5,2) NOT NULL DEFAULT 100;
+
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_early_settlement_rebate_policy_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_early_settlement_rebate_policy_check
+  CHECK (early_settlement_rebate_policy IN ('none','pro_rata','rule_of_78'));
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_early_settlement_rebate_percent_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_early_settlement_rebate_percent_check
+  CHECK (early_settlement_rebate_percent BETWEEN 0 AND 100);
+
+-- 2. Settlement records
+CREATE TABLE IF NOT EXISTS public.loan_settlements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    as_of_date DATE NOT NULL,
+    rebate_policy TEXT NOT NULL,
+    rebate_percent DECIMAL(5,2) NOT NULL,
+    principal_outstanding DECIMAL(15,2) NOT NULL DEFAULT 0,
+    interest_outstanding DECIMAL(15,2) NOT NULL DEFAULT 0,
+    fees_outstanding DECIMAL(15,2) NOT NULL DEFAULT 0,
+    unearned_interest DECIMAL(15,2) NOT NULL DEFAULT 0,
+    interest_rebate DECIMAL(15,2) NOT NULL DEFAULT 0,
+    penalties_outstanding DECIMAL(15,2) NOT NULL DEFAULT 0,
+    settlement_amount DECIMAL(15,2) NOT NULL,
+    payment_method TEXT NOT NULL,
+    payment_reference TEXT NOT NULL,
+    notes TEXT,
+    loan_payment_id UUID REFERENCES public.loan_payments(id) ON DELETE SET NULL,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    rebate_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    settled_by UUID REFERENCES public.profiles(id),
+    settled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (loan_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_settlements_as_of_date ON public.loan_settlements(as_of_date);
+
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS early_settlement_rebate DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS settled_early_at TIMESTAMPTZ;
+
+ALTER TABLE public.loan_installments ADD COLUMN IF NOT EXISTS closed_by_settlement_id UUID REFERENCES public.loan_settlements(id) ON DELETE SET NULL;
+
+-- Penalties collected in a settlement are paid rather than outstanding
+ALTER TABLE public.loan_penalties DROP CONSTRAINT IF EXISTS loan_penalties_status_check;
+ALTER TABLE public.loan_penalties ADD CONSTRAINT loan_penalties_status_check
+  CHECK (status IN ('accrued','waived','paid'));
+ALTER TABLE public.loan_penalties ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+-- 3. RLS: visible to whoever can see the loan, written only by settle_loan_early
+ALTER TABLE public.loan_settlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view loan settlements" ON public.loan_settlements;
+CREATE POLICY "Staff can view loan settlements" ON public.loan_settlements
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.loans l WHERE l.id = loan_settlements.loan_id)
+  );
+
+-- 4. Quote
+CREATE OR REPLACE FUNCTION public.loan_settlement_quote(p_loan_id UUID, p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(
+  loan_id UUID,
+  as_of_date DATE,
+  rebate_policy TEXT,
+  rebate_percent DECIMAL(5,2),
+  principal_outstanding DECIMAL(15,2),
+  interest_outstanding DECIMAL(15,2),
+  fees_outstanding DECIMAL(15,2),
+  unearned_interest DECIMAL(15,2),
+  interest_rebate DECIMAL(15,2),
+  penalties_outstanding DECIMAL(15,2),
+  settlement_amount DECIMAL(15,2),
+  remaining_installments INTEGER
+) AS $$
+DECLARE
+  v_loan public.loans;
+  v_policy TEXT;
+  v_percent DECIMAL;
+  v_row RECORD;
+  v_ratio DECIMAL;
+  v_period_start DATE;
+  v_earned DECIMAL;
+  v_principal DECIMAL := 0;
+  v_interest DECIMAL := 0;
+  v_future_interest DECIMAL := 0;
+  v_unearned DECIMAL := 0;
+  v_remaining INTEGER := 0;
+  v_future_count INTEGER := 0;
+  v_in_progress BOOLEAN := TRUE;
+  v_total_count INTEGER;
+  v_total_interest DECIMAL;
+  v_fees DECIMAL;
+  v_rebate DECIMAL;
+  v_penalties DECIMAL;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'Only open loans can be settled (this loan is %)', v_loan.status::TEXT;
+  END IF;
+
+  SELECT s.early_settlement_rebate_policy, s.early_settlement_rebate_percent
+  INTO v_policy, v_percent
+  FROM public.system_settings s
+  WHERE s.id = 1;
+  v_policy := COALESCE(v_policy, 'pro_rata');
+  v_percent := COALESCE(v_percent, 100);
+
+  FOR v_row IN
+    SELECT i.*
+    FROM public.loan_installments i
+    WHERE i.loan_id = p_loan_id
+      AND COALESCE(i.is_paid, FALSE) = FALSE
+    ORDER BY i.installment_number
+  LOOP
+    -- Part payments are spread over principal and interest in proportion
+    v_ratio := CASE
+      WHEN v_row.total_amount > 0 THEN GREATEST(v_row.total_amount - COALESCE(v_row.amount_paid, 0), 0) / v_row.total_amount
+      ELSE 0
+    END;
+    v_principal := v_principal + v_row.principal_amount * v_ratio;
+    v_interest := v_interest + v_row.interest_amount * v_ratio;
+    v_remaining := v_remaining + 1;
+
+    IF v_row.due_date > p_as_of THEN
+      v_future_count := v_future_count + 1;
+      v_future_interest := v_future_interest + v_row.interest_amount * v_ratio;
+
+      IF v_in_progress THEN
+        -- The installment whose period contains the quote date is partly earned
+        SELECT COALESCE(MAX(p.due_date), v_loan.issue_date::DATE)
+        INTO v_period_start
+        FROM public.loan_installments p
+        WHERE p.loan_id = p_loan_id
+          AND p.due_date < v_row.due_date
+          AND p.replaced_by_restructure_id IS NULL;
+
+        v_earned := CASE
+          WHEN v_period_start IS NULL OR v_row.due_date <= v_period_start THEN 0
+          ELSE LEAST(GREATEST((p_as_of - v_period_start)::DECIMAL / (v_row.due_date - v_period_start), 0), 1)
+        END;
+        v_unearned := v_unearned + v_row.interest_amount * v_ratio * (1 - v_earned);
+        v_in_progress := FALSE;
+      ELSE
+        v_unearned := v_unearned + v_row.interest_amount * v_ratio;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_policy = 'rule_of_78' THEN
+    SELECT COUNT(*), COALESCE(SUM(i.interest_amount), 0)
+    INTO v_total_count, v_total_interest
+    FROM public.loan_installments i
+    WHERE i.loan_id = p_loan_id
+      AND i.replaced_by_restructure_id IS NULL;
+
+    v_unearned := CASE
+      WHEN v_total_count > 0
+        THEN v_total_interest * (v_future_count * (v_future_count + 1))::DECIMAL / (v_total_count * (v_total_count + 1))
+      ELSE 0
+    END;
+  END IF;
+
+  -- Never rebate interest that has already been paid
+  v_unearned := ROUND(LEAST(v_unearned, v_future_interest), 2);
+  v_rebate := CASE WHEN v_policy = 'none' THEN 0 ELSE ROUND(v_unearned * v_percent / 100, 2) END;
+
+  v_principal := ROUND(v_principal, 2);
+  v_interest := ROUND(v_interest, 2);
+  -- Processing fees are owed on the loan but not spread over the installments
+  v_fees := GREATEST(public.loan_outstanding_balance(p_loan_id) - v_principal - v_interest, 0);
+
+  SELECT COALESCE(SUM(lp.amount), 0) INTO v_penalties
+  FROM public.loan_penalties lp
+  WHERE lp.loan_id = p_loan_id AND lp.status = 'accrued';
+
+  RETURN QUERY SELECT
+    p_loan_id,
+    p_as_of,
+    v_policy,
+    v_percent::DECIMAL(5,2),
+    v_principal::DECIMAL(15,2),
+    v_interest::DECIMAL(15,2),
+    v_fees::DECIMAL(15,2),
+    v_unearned::DECIMAL(15,2),
+    v_rebate::DECIMAL(15,2),
+    v_penalties::DECIMAL(15,2),
+    (v_principal + v_interest + v_fees - v_rebate + v_penalties)::DECIMAL(15,2),
+    v_remaining;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.loan_settlement_quote(UUID, DATE) TO authenticated;
+
+-- 5. Record the payoff
+CREATE OR REPLACE FUNCTION public.settle_loan_early(
+  p_loan_id UUID,
+  p_as_of DATE,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans;
+  v_quote RECORD;
+  v_reference TEXT;
+  v_loan_amount DECIMAL(15,2);
+  v_settlement_id UUID;
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_rebate_transaction_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to settle loans';
+  END IF;
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A settlement cannot be recorded for a future date';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  SELECT * INTO v_quote FROM public.loan_settlement_quote(p_loan_id, p_as_of);
+
+  IF ABS(COALESCE(p_amount, 0) - v_quote.settlement_amount) > 0.01 THEN
+    RAISE EXCEPTION 'The settlement amount as of % is KES %, not KES %', p_as_of, v_quote.settlement_amount, p_amount;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(btrim(p_reference), ''), 'SETTLE-' || COALESCE(v_loan.application_no, v_loan.id::TEXT));
+  v_loan_amount := v_quote.principal_outstanding + v_quote.interest_outstanding
+    + v_quote.fees_outstanding - v_quote.interest_rebate;
+
+  INSERT INTO public.loan_settlements (
+    loan_id, as_of_date, rebate_policy, rebate_percent,
+    principal_outstanding, interest_outstanding, fees_outstanding,
+    unearned_interest, interest_rebate, penalties_outstanding, settlement_amount,
+    payment_method, payment_reference, notes, settled_by
+  ) VALUES (
+    p_loan_id, p_as_of, v_quote.rebate_policy, v_quote.rebate_percent,
+    v_quote.principal_outstanding, v_quote.interest_outstanding, v_quote.fees_outstanding,
+    v_quote.unearned_interest, v_quote.interest_rebate, v_quote.penalties_outstanding, v_quote.settlement_amount,
+    p_payment_method, v_reference, NULLIF(btrim(p_notes), ''), auth.uid()
+  )
+  RETURNING id INTO v_settlement_id;
+
+  -- The rebate comes off the interest owed before the payment is applied
+  IF v_quote.interest_rebate > 0 THEN
+    UPDATE public.loans
+    SET interest_disbursed = COALESCE(interest_disbursed, 0) - v_quote.interest_rebate,
+        current_balance = COALESCE(current_balance, 0) - v_quote.interest_rebate,
+        early_settlement_rebate = v_quote.interest_rebate,
+        updated_at = NOW()
+    WHERE id = p_loan_id;
+
+    INSERT INTO public.transactions (
+      amount, transaction_type, description, loan_id, member_id, transaction_date,
+      created_by, status, reference_number, branch_id, payment_method, currency
+    ) VALUES (
+      v_quote.interest_rebate,
+      'adjustment',
+      'Early settlement interest rebate',
+      p_loan_id,
+      COALESCE(v_loan.member_id, v_loan.customer_id),
+      p_as_of,
+      auth.uid(),
+      'completed',
+      'REBATE-' || v_settlement_id::TEXT,
+      v_loan.branch_id,
+      'other',
+      'KES'
+    )
+    RETURNING id INTO v_rebate_transaction_id;
+  END IF;
+
+  IF v_loan_amount > 0 THEN
+    INSERT INTO public.loan_payments (
+      loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+    ) VALUES (
+      p_loan_id, 0, v_loan_amount, p_as_of, v_reference, 'Early settlement', auth.uid()
+    )
+    RETURNING id INTO v_payment_id;
+
+    INSERT INTO public.transactions (
+      amount, transaction_type, description, loan_id, member_id, transaction_date,
+      created_by, status, reference_number, branch_id, payment_method, currency, total_paid
+    ) VALUES (
+      v_loan_amount,
+      'payment',
+      'Early settlement',
+      p_loan_id,
+      COALESCE(v_loan.member_id, v_loan.customer_id),
+      p_as_of,
+      auth.uid(),
+      'completed',
+      v_reference,
+      v_loan.branch_id,
+      p_payment_method,
+      'KES',
+      v_loan_amount
+    )
+    RETURNING id INTO v_transaction_id;
+  END IF;
+
+  -- Penalty transactions were booked as pending when charged; they are collected now
+  WITH paid AS (
+    UPDATE public.loan_penalties
+    SET status = 'paid',
+        paid_at = NOW()
+    WHERE loan_id = p_loan_id AND status = 'accrued'
+    RETURNING transaction_id
+  )
+  UPDATE public.transactions t
+  SET status = 'completed',
+      notes = 'Collected in early settlement ' || v_reference,
+      updated_at = NOW()
+  FROM paid
+  WHERE t.id = paid.transaction_id;
+
+  UPDATE public.loan_installments
+  SET is_paid = TRUE,
+      paid_date = COALESCE(paid_date, p_as_of),
+      closed_by_settlement_id = v_settlement_id
+  WHERE loan_id = p_loan_id
+    AND COALESCE(is_paid, FALSE) = FALSE;
+
+  UPDATE public.loans
+  SET status = 'repaid',
+      current_balance = 0,
+      settled_early_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  UPDATE public.loan_settlements
+  SET loan_payment_id = v_payment_id,
+      transaction_id = v_transaction_id,
+      rebate_transaction_id = v_rebate_transaction_id
+  WHERE id = v_settlement_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_EARLY_SETTLEMENT',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'current_balance', v_loan.current_balance),
+    jsonb_build_object(
+      'status', 'repaid',
+      'settlement_id', v_settlement_id,
+      'settlement_amount', v_quote.settlement_amount,
+      'interest_rebate', v_quote.interest_rebate,
+      'penalties', v_quote.penalties_outstanding
+    ),
+    auth.uid()
+  );
+
+  RETURN v_settlement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.settle_loan_early(UUID, DATE, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,331 @@
+-- Loan Approval Matrix
+-- Which roles must sign off a loan is configured in loan_approval_rules by
+-- amount band, loan product and branch. Each rule carries an ordered
+-- approval_chain of roles (e.g. branch_admin then super_admin), copied onto the
+-- loan when it is applied for:
+--   * the most specific active rule wins (branch before all branches, product
+--     before all products, then the highest minimum amount);
+--   * sign-offs happen one step at a time through record_loan_approval and are
+--     kept in loan_approvals with the approver's comments, the same way
+--     expense_approvals records expense sign-offs;
+--   * a higher role may sign a lower step, a branch_admin only for their own
+--     branch, and nobody may sign two steps of the same loan;
+--   * approval_status only becomes 'approved' once every step is signed, and a
+--     loan cannot be activated or disbursed before that.
+
+-- 1. Rules
+CREATE TABLE IF NOT EXISTS public.loan_approval_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    branch_id BIGINT REFERENCES public.branches(id) ON DELETE CASCADE,
+    loan_program TEXT,
+    min_amount DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+    max_amount DECIMAL(15,2),
+    approval_chain TEXT[] NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT loan_approval_rules_band_check CHECK (max_amount IS NULL OR max_amount >= min_amount),
+    CONSTRAINT loan_approval_rules_chain_check CHECK (
+      cardinality(approval_chain) > 0
+      AND approval_chain <@ ARRAY['branch_admin','admin','super_admin']::TEXT[]
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_approval_rules_active ON public.loan_approval_rules(is_active, min_amount);
+
+-- Default matrix: branch admins sign off up to 20k, larger loans also need a super admin
+INSERT INTO public.loan_approval_rules (name, min_amount, max_amount, approval_chain)
+SELECT 'Up to KES 20,000', 0, 20000, ARRAY['branch_admin']
+WHERE NOT EXISTS (SELECT 1 FROM public.loan_approval_rules);
+
+INSERT INTO public.loan_approval_rules (name, min_amount, max_amount, approval_chain)
+SELECT 'Above KES 20,000', 20000.01, NULL, ARRAY['branch_admin','super_admin']
+WHERE NOT EXISTS (SELECT 1 FROM public.loan_approval_rules WHERE min_amount > 0);
+
+-- 2. Sign-offs
+CREATE TABLE IF NOT EXISTS public.loan_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    step_number INTEGER NOT NULL CHECK (step_number > 0),
+    approval_level TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('approved','rejected')),
+    approver_id UUID NOT NULL REFERENCES public.profiles(id),
+    comments TEXT,
+    approved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Set when the loan goes back to pending and the chain starts over
+    superseded_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_approvals_loan_id ON public.loan_approvals(loan_id, step_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_approvals_current_step
+  ON public.loan_approvals(loan_id, step_number)
+  WHERE superseded_at IS NULL;
+
+-- 3. The chain a loan was given
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS approval_rule_id UUID REFERENCES public.loan_approval_rules(id) ON DELETE SET NULL;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS approval_chain TEXT[];
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS approval_step INTEGER NOT NULL DEFAULT 0;
+
+-- 4. RLS: staff can read rules and sign-offs, only admins maintain rules
+ALTER TABLE public.loan_approval_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS loan_approval_rules_select ON public.loan_approval_rules;
+CREATE POLICY loan_approval_rules_select ON public.loan_approval_rules
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS loan_approval_rules_admin_insert ON public.loan_approval_rules;
+CREATE POLICY loan_approval_rules_admin_insert ON public.loan_approval_rules
+FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS loan_approval_rules_admin_update ON public.loan_approval_rules;
+CREATE POLICY loan_approval_rules_admin_update ON public.loan_approval_rules
+FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS loan_approvals_select ON public.loan_approvals;
+CREATE POLICY loan_approvals_select ON public.loan_approvals
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.loans l WHERE l.id = loan_approvals.loan_id)
+);
+
+CREATE OR REPLACE FUNCTION public.update_loan_approval_rules_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_loan_approval_rules_timestamp ON public.loan_approval_rules;
+CREATE TRIGGER trigger_update_loan_approval_rules_timestamp
+  BEFORE UPDATE ON public.loan_approval_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_loan_approval_rules_timestamp();
+
+-- 5. Rule lookup
+CREATE OR REPLACE FUNCTION public.resolve_loan_approval_rule(
+  p_branch_id BIGINT,
+  p_loan_program TEXT,
+  p_amount DECIMAL
+) RETURNS public.loan_approval_rules AS $$
+  SELECT r.*
+  FROM public.loan_approval_rules r
+  WHERE r.is_active
+    AND (r.branch_id IS NULL OR r.branch_id = p_branch_id)
+    AND (r.loan_program IS NULL OR r.loan_program = p_loan_program)
+    AND COALESCE(p_amount, 0) >= r.min_amount
+    AND (r.max_amount IS NULL OR COALESCE(p_amount, 0) <= r.max_amount)
+  ORDER BY (r.branch_id IS NOT NULL) DESC, (r.loan_program IS NOT NULL) DESC, r.min_amount DESC, r.created_at
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.resolve_loan_approval_rule(BIGINT, TEXT, DECIMAL) TO authenticated;
+
+-- Whether a role may sign a step that asks for p_required
+CREATE OR REPLACE FUNCTION public.approval_role_covers(p_role TEXT, p_required TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (CASE p_role WHEN 'super_admin' THEN 3 WHEN 'admin' THEN 2 WHEN 'branch_admin' THEN 1 ELSE 0 END)
+      >= (CASE p_required WHEN 'super_admin' THEN 3 WHEN 'admin' THEN 2 WHEN 'branch_admin' THEN 1 ELSE 99 END),
+    FALSE
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 6. Give a pending loan its chain, and start over if the amount, product or branch changes
+CREATE OR REPLACE FUNCTION public.assign_loan_approval_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rule public.loan_approval_rules;
+BEGIN
+  IF COALESCE(NEW.approval_status, 'pending') <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.principal_amount IS NOT DISTINCT FROM OLD.principal_amount
+     AND NEW.loan_program IS NOT DISTINCT FROM OLD.loan_program
+     AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id
+     AND NEW.approval_chain IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_rule := public.resolve_loan_approval_rule(NEW.branch_id, NEW.loan_program, NEW.principal_amount);
+
+  NEW.approval_rule_id := v_rule.id;
+  -- Without a matching rule the loan needs an admin, as before the matrix existed
+  NEW.approval_chain := COALESCE(v_rule.approval_chain, ARRAY['admin']);
+  NEW.approval_step := 0;
+
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE public.loan_approvals
+    SET superseded_at = NOW()
+    WHERE loan_id = NEW.id AND superseded_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_assign_loan_approval_chain ON public.loans;
+CREATE TRIGGER trigger_assign_loan_approval_chain
+  BEFORE INSERT OR UPDATE OF principal_amount, loan_program, branch_id ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_loan_approval_chain();
+
+-- Loans already waiting for approval get a chain now
+UPDATE public.loans l
+SET approval_rule_id = (public.resolve_loan_approval_rule(l.branch_id, l.loan_program, l.principal_amount)).id,
+    approval_chain = COALESCE(
+      (public.resolve_loan_approval_rule(l.branch_id, l.loan_program, l.principal_amount)).approval_chain,
+      ARRAY['admin']
+    ),
+    approval_step = 0
+WHERE COALESCE(l.approval_status, 'pending') = 'pending'
+  AND l.approval_chain IS NULL;
+
+-- 7. Nothing is approved or paid out before the chain is complete
+-- Not SECURITY DEFINER: current_user is "authenticated" for direct updates from the
+-- app, and the owner when record_loan_approval or another definer function writes.
+CREATE OR REPLACE FUNCTION public.enforce_loan_approval_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_required INTEGER;
+BEGIN
+  IF current_user = 'authenticated' AND (
+       NEW.approval_chain IS DISTINCT FROM OLD.approval_chain
+    OR NEW.approval_step IS DISTINCT FROM OLD.approval_step
+    OR NEW.approval_status IS DISTINCT FROM OLD.approval_status
+  ) THEN
+    RAISE EXCEPTION 'Loan approvals are recorded step by step through record_loan_approval';
+  END IF;
+
+  v_required := COALESCE(cardinality(NEW.approval_chain), 0);
+
+  IF NEW.approval_status = 'approved'
+     AND OLD.approval_status IS DISTINCT FROM 'approved'
+     AND NEW.approval_step < v_required THEN
+    RAISE EXCEPTION 'Loan approval is incomplete: % of % sign-offs recorded', NEW.approval_step, v_required;
+  END IF;
+
+  IF NEW.status::TEXT IN ('active','disbursed')
+     AND OLD.status::TEXT = 'pending'
+     AND COALESCE(NEW.approval_status, 'pending') <> 'approved' THEN
+    RAISE EXCEPTION 'Loan cannot be disbursed until its approval chain is complete';
+  END IF;
+
+  -- A rejected loan sent back for review starts its chain over
+  IF NEW.approval_status = 'pending' AND OLD.approval_status IS DISTINCT FROM 'pending' THEN
+    NEW.approval_step := 0;
+    UPDATE public.loan_approvals
+    SET superseded_at = NOW()
+    WHERE loan_id = NEW.id AND superseded_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_loan_approval_chain ON public.loans;
+CREATE TRIGGER trigger_enforce_loan_approval_chain
+  BEFORE UPDATE ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_loan_approval_chain();
+
+-- Approving in one call would skip the chain; only record_loan_approval may use it
+REVOKE EXECUTE ON FUNCTION public.set_loan_approval_status(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 8. Sign the next step of a loan's chain
+CREATE OR REPLACE FUNCTION public.record_loan_approval(
+  p_loan_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_loan public.loans;
+  v_profile RECORD;
+  v_step INTEGER;
+  v_required TEXT;
+  v_total INTEGER;
+  v_status TEXT := 'pending';
+BEGIN
+  IF p_action NOT IN ('approved','rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action %', p_action;
+  END IF;
+  IF p_action = 'rejected' AND COALESCE(TRIM(p_comments), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a loan';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  IF COALESCE(v_loan.approval_status, 'pending') <> 'pending' THEN
+    RAISE EXCEPTION 'Loan is already %', v_loan.approval_status;
+  END IF;
+
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+
+  v_total := COALESCE(cardinality(v_loan.approval_chain), 0);
+  v_step := v_loan.approval_step + 1;
+  IF v_step > v_total THEN
+    RAISE EXCEPTION 'Loan has no approval step left to sign';
+  END IF;
+  v_required := v_loan.approval_chain[v_step];
+
+  IF NOT public.approval_role_covers(v_profile.role, v_required) THEN
+    RAISE EXCEPTION 'Step % of % must be signed by a % or above', v_step, v_total, replace(v_required, '_', ' ');
+  END IF;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only sign off loans from their own branch';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.loan_approvals a
+    WHERE a.loan_id = p_loan_id AND a.approver_id = auth.uid() AND a.superseded_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'You have already signed off an earlier step of this loan';
+  END IF;
+
+  INSERT INTO public.loan_approvals (loan_id, step_number, approval_level, action, approver_id, comments)
+  VALUES (p_loan_id, v_step, v_required, p_action, auth.uid(), NULLIF(TRIM(p_comments), ''));
+
+  IF p_action = 'rejected' THEN
+    PERFORM public.set_loan_approval_status(p_loan_id, 'rejected', auth.uid());
+    v_status := 'rejected';
+  ELSE
+    UPDATE public.loans SET approval_step = v_step, updated_at = NOW() WHERE id = p_loan_id;
+    IF v_step = v_total THEN
+      PERFORM public.set_loan_approval_status(p_loan_id, 'approved', auth.uid());
+      v_status := 'approved';
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_APPROVAL_STEP',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('approval_step', v_loan.approval_step, 'approval_status', v_loan.approval_status),
+    jsonb_build_object(
+      'step', v_step,
+      'of', v_total,
+      'approval_level', v_required,
+      'action', p_action,
+      'comments', p_comments,
+      'approval_status', v_status
+    ),
+    auth.uid()
+  );
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.record_loan_approval(UUID, TEXT, TEXT) TO authenticated;
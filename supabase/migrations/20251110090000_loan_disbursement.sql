@@ -0,0 +1,256 @@
+-- Loan Disbursement
+-- Approval and payout are now separate steps. An approved loan waits in the
+-- disbursement queue until staff record how and when the money went out:
+--   * a 'disbursement' transaction is posted for the cash actually paid out;
+--   * top-ups settle the loan they replace at this point, so only
+--     net_disbursement_amount leaves the till;
+--   * when system_settings.net_processing_fee_on_disbursement is on, the
+--     processing fee is kept back from the payout and counted as paid;
+--   * the installment schedule is built from the disbursement date, not from
+--     the date the application was captured.
+-- Loans approved before this migration were paid out at approval and are
+-- recorded as disbursed on their issue date.
+
+-- 1. Settings and disbursement columns
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS net_processing_fee_on_disbursement BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursement_date DATE;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursed_at TIMESTAMPTZ;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursed_by UUID REFERENCES public.profiles(id);
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursement_method TEXT;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursement_reference TEXT;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursed_amount DECIMAL(15,2);
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS processing_fee_netted DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS disbursement_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.loans DROP CONSTRAINT IF EXISTS loans_disbursement_method_check;
+ALTER TABLE public.loans ADD CONSTRAINT loans_disbursement_method_check
+  CHECK (disbursement_method IS NULL OR disbursement_method IN ('cash','bank_transfer','mobile_money','check','other'));
+
+CREATE INDEX IF NOT EXISTS idx_loans_awaiting_disbursement
+  ON public.loans(approval_status)
+  WHERE disbursed_at IS NULL;
+
+UPDATE public.loans
+SET disbursement_date = COALESCE(issue_date, created_at::DATE),
+    disbursed_at = COALESCE(updated_at, created_at),
+    disbursed_amount = COALESCE(net_disbursement_amount, principal_amount)
+WHERE approval_status = 'approved'
+  AND disbursed_at IS NULL;
+
+-- 2. New applications get their schedule at disbursement
+CREATE OR REPLACE FUNCTION create_loan_installments()
+RETURNS TRIGGER AS $$
+DECLARE
+    installment_count INTEGER;
+BEGIN
+    -- Applications are scheduled by disburse_loan once the money goes out
+    IF TG_OP = 'INSERT' AND NEW.status::TEXT NOT IN ('pending','approved') THEN
+        installment_count := COALESCE(
+            NEW.installment_count,
+            (SELECT lp.term_lengths[1] FROM public.loan_products lp WHERE lp.code = NEW.loan_program),
+            8
+        );
+
+        INSERT INTO public.loan_installments (
+            loan_id,
+            installment_number,
+            due_date,
+            principal_amount,
+            interest_amount,
+            total_amount
+        )
+        SELECT
+            NEW.id,
+            s.installment_number,
+            s.due_date,
+            s.principal_amount,
+            s.interest_amount,
+            s.total_amount
+        FROM public.build_loan_schedule(
+            NEW.principal_amount,
+            public.loan_schedule_rate(NEW.interest_method, NEW.interest_rate, NEW.principal_amount, NEW.interest_disbursed),
+            NEW.interest_method,
+            installment_count,
+            NEW.installment_type,
+            NEW.issue_date
+        ) s;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Top-ups settle on disbursement instead of on approval
+DROP TRIGGER IF EXISTS trigger_settle_loan_top_up ON public.loans;
+
+-- 4. Pay out an approved loan
+CREATE OR REPLACE FUNCTION public.disburse_loan(
+  p_loan_id UUID,
+  p_disbursement_date DATE DEFAULT CURRENT_DATE,
+  p_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans;
+  v_profile RECORD;
+  v_net_fee BOOLEAN;
+  v_settled DECIMAL(15,2) := 0;
+  v_fee DECIMAL(15,2) := 0;
+  v_payout DECIMAL(15,2);
+  v_count INTEGER;
+  v_reference TEXT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can disburse loans';
+  END IF;
+  IF p_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid disbursement method %', p_method;
+  END IF;
+  IF p_disbursement_date IS NULL OR p_disbursement_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Disbursement date cannot be in the future';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only disburse loans from their own branch';
+  END IF;
+  IF COALESCE(v_loan.approval_status, 'pending') <> 'approved' THEN
+    RAISE EXCEPTION 'Loan must be fully approved before it is disbursed';
+  END IF;
+  IF v_loan.disbursed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Loan was already disbursed on %', v_loan.disbursement_date;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.loan_installments li WHERE li.loan_id = p_loan_id AND COALESCE(li.amount_paid, 0) > 0) THEN
+    RAISE EXCEPTION 'Loan already has payments against its schedule';
+  END IF;
+
+  IF v_loan.previous_loan_id IS NOT NULL THEN
+    v_settled := public.settle_loan_top_up(p_loan_id);
+  END IF;
+
+  SELECT COALESCE(s.net_processing_fee_on_disbursement, FALSE) INTO v_net_fee
+  FROM public.system_settings s WHERE s.id = 1;
+  IF COALESCE(v_net_fee, FALSE) THEN
+    v_fee := COALESCE(v_loan.processing_fee, 0);
+  END IF;
+
+  v_payout := v_loan.principal_amount - v_settled - v_fee;
+  IF v_payout <= 0 THEN
+    RAISE EXCEPTION 'Deductions of KES % leave nothing to pay out', v_settled + v_fee;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(TRIM(p_reference), ''), 'DISB-' || COALESCE(v_loan.application_no, v_loan.id::TEXT));
+
+  INSERT INTO public.transactions (
+    amount,
+    transaction_type,
+    description,
+    loan_id,
+    member_id,
+    transaction_date,
+    created_by,
+    status,
+    reference_number,
+    branch_id,
+    payment_method,
+    currency,
+    fees,
+    notes
+  ) VALUES (
+    v_payout,
+    'disbursement',
+    'Loan disbursement ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+    p_loan_id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    p_disbursement_date,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    p_method,
+    'KES',
+    v_fee,
+    p_notes
+  ) RETURNING id INTO v_transaction_id;
+
+  -- Rebuild the schedule from the day the money went out
+  DELETE FROM public.loan_installments WHERE loan_id = p_loan_id;
+
+  v_count := COALESCE(
+    v_loan.installment_count,
+    (SELECT lp.term_lengths[1] FROM public.loan_products lp WHERE lp.code = v_loan.loan_program),
+    8
+  );
+
+  INSERT INTO public.loan_installments (
+    loan_id,
+    installment_number,
+    due_date,
+    principal_amount,
+    interest_amount,
+    total_amount
+  )
+  SELECT
+    p_loan_id,
+    s.installment_number,
+    s.due_date,
+    s.principal_amount,
+    s.interest_amount,
+    s.total_amount
+  FROM public.build_loan_schedule(
+    v_loan.principal_amount,
+    public.loan_schedule_rate(v_loan.interest_method, v_loan.interest_rate, v_loan.principal_amount, v_loan.interest_disbursed),
+    v_loan.interest_method,
+    v_count,
+    v_loan.installment_type,
+    p_disbursement_date
+  ) s;
+
+  -- A netted fee counts as paid, the same way update_loan_balance_on_payment tracks total_paid
+  UPDATE public.loans
+  SET status = 'active',
+      issue_date = p_disbursement_date,
+      due_date = (SELECT MAX(li.due_date) FROM public.loan_installments li WHERE li.loan_id = p_loan_id),
+      disbursement_date = p_disbursement_date,
+      disbursed_at = NOW(),
+      disbursed_by = auth.uid(),
+      disbursement_method = p_method,
+      disbursement_reference = v_reference,
+      disbursed_amount = v_payout,
+      processing_fee_netted = v_fee,
+      disbursement_transaction_id = v_transaction_id,
+      total_paid = COALESCE(total_paid, 0) + v_fee,
+      current_balance = COALESCE(current_balance, 0) - v_fee,
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_DISBURSED',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'issue_date', v_loan.issue_date),
+    jsonb_build_object(
+      'status', 'active',
+      'disbursement_date', p_disbursement_date,
+      'method', p_method,
+      'reference', v_reference,
+      'payout', v_payout,
+      'top_up_settlement', v_settled,
+      'processing_fee_netted', v_fee
+    ),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.disburse_loan(UUID, DATE, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,428 @@
+-- Group Joint Liability
+-- Members of a group guarantee each other's loans:
+--   * loan_guarantors links a loan to the group members standing behind it and
+--     the amount each one guarantees;
+--   * a member is a defaulter when a loan is 'defaulted' or has an installment
+--     more than system_settings.group_arrears_days past due. While a group has
+--     more defaulters than group_max_defaulters, no member of that group can
+--     take a new loan;
+--   * an overdue installment can be recovered from a guarantor, either from the
+--     guarantor's savings or from a payment the guarantor makes. Recoveries are
+--     posted as ordinary loan payments on the defaulter's loan and count against
+--     what the guarantor has guaranteed.
+-- Guarantees end when the loan is repaid.
+
+-- 1. Settings
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS group_arrears_days INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS group_max_defaulters INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_group_arrears_days_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_group_arrears_days_check
+  CHECK (group_arrears_days >= 0);
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_group_max_defaulters_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_group_max_defaulters_check
+  CHECK (group_max_defaulters >= 0);
+
+ALTER TABLE public.members ADD COLUMN IF NOT EXISTS savings_balance DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+-- 2. Guarantees and recoveries
+CREATE TABLE IF NOT EXISTS public.loan_guarantors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    guarantor_member_id UUID NOT NULL REFERENCES public.members(id),
+    guaranteed_amount DECIMAL(15,2) NOT NULL CHECK (guaranteed_amount > 0),
+    recovered_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','released')),
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    released_at TIMESTAMPTZ,
+    UNIQUE (loan_id, guarantor_member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_guarantors_member ON public.loan_guarantors(guarantor_member_id);
+
+CREATE TABLE IF NOT EXISTS public.guarantor_recoveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    loan_guarantor_id UUID NOT NULL REFERENCES public.loan_guarantors(id) ON DELETE CASCADE,
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    installment_id UUID REFERENCES public.loan_installments(id) ON DELETE SET NULL,
+    guarantor_member_id UUID NOT NULL REFERENCES public.members(id),
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    source TEXT NOT NULL CHECK (source IN ('savings','payment')),
+    payment_method TEXT NOT NULL,
+    payment_reference TEXT NOT NULL,
+    notes TEXT,
+    loan_payment_id UUID REFERENCES public.loan_payments(id) ON DELETE SET NULL,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    recovered_by UUID REFERENCES public.profiles(id),
+    recovered_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guarantor_recoveries_loan ON public.guarantor_recoveries(loan_id);
+
+-- 3. RLS: visible to whoever can see the loan; written only through the functions below
+ALTER TABLE public.loan_guarantors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guarantor_recoveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS loan_guarantors_select ON public.loan_guarantors;
+CREATE POLICY loan_guarantors_select ON public.loan_guarantors
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.loans l WHERE l.id = loan_guarantors.loan_id)
+);
+
+DROP POLICY IF EXISTS guarantor_recoveries_select ON public.guarantor_recoveries;
+CREATE POLICY guarantor_recoveries_select ON public.guarantor_recoveries
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.loans l WHERE l.id = guarantor_recoveries.loan_id)
+);
+
+-- 4. Group arrears: every member of the group with an overdue installment
+CREATE OR REPLACE FUNCTION public.group_arrears(p_group_id BIGINT)
+RETURNS TABLE(
+  member_id UUID,
+  member_name TEXT,
+  loan_id UUID,
+  account_number TEXT,
+  loan_status TEXT,
+  overdue_installments INTEGER,
+  arrears_amount DECIMAL(15,2),
+  oldest_due_date DATE,
+  days_overdue INTEGER,
+  is_defaulter BOOLEAN
+) AS $$
+  WITH settings AS (
+    SELECT COALESCE((SELECT s.group_arrears_days FROM public.system_settings s WHERE s.id = 1), 30) AS arrears_days
+  ),
+  overdue AS (
+    SELECT
+      li.loan_id,
+      COUNT(*)::INTEGER AS installments,
+      SUM(li.total_amount - COALESCE(li.amount_paid, 0)) AS amount,
+      MIN(li.due_date) AS oldest_due_date
+    FROM public.loan_installments li
+    WHERE COALESCE(li.is_paid, FALSE) = FALSE
+      AND li.due_date < CURRENT_DATE
+      AND li.total_amount - COALESCE(li.amount_paid, 0) > 0
+    GROUP BY li.loan_id
+  )
+  SELECT
+    m.id,
+    m.full_name,
+    l.id,
+    COALESCE(l.application_no, l.account_number),
+    l.status::TEXT,
+    COALESCE(o.installments, 0),
+    ROUND(COALESCE(o.amount, 0), 2),
+    o.oldest_due_date,
+    COALESCE(CURRENT_DATE - o.oldest_due_date, 0),
+    l.status::TEXT = 'defaulted' OR COALESCE(CURRENT_DATE - o.oldest_due_date, 0) > (SELECT arrears_days FROM settings)
+  FROM public.members m
+  JOIN public.loans l ON COALESCE(l.member_id, l.customer_id) = m.id
+  LEFT JOIN overdue o ON o.loan_id = l.id
+  WHERE m.group_id = p_group_id
+    AND COALESCE(l.is_deleted, FALSE) = FALSE
+    AND l.status::TEXT IN ('active','disbursed','defaulted')
+    AND (o.loan_id IS NOT NULL OR l.status::TEXT = 'defaulted')
+  ORDER BY 10 DESC, 9 DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.group_arrears(BIGINT) TO authenticated;
+
+-- 5. Reason the group's members cannot borrow right now, NULL when they can
+CREATE OR REPLACE FUNCTION public.group_lending_block_reason(p_group_id BIGINT)
+RETURNS TEXT AS $$
+DECLARE
+  v_defaulters INTEGER;
+  v_allowed INTEGER;
+BEGIN
+  IF p_group_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(s.group_max_defaulters, 0) INTO v_allowed FROM public.system_settings s WHERE s.id = 1;
+
+  SELECT COUNT(DISTINCT a.member_id) INTO v_defaulters
+  FROM public.group_arrears(p_group_id) a
+  WHERE a.is_defaulter;
+
+  IF v_defaulters > COALESCE(v_allowed, 0) THEN
+    RETURN 'the group has ' || v_defaulters || ' member(s) in default (limit ' || COALESCE(v_allowed, 0) || ')';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.group_lending_block_reason(BIGINT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_group_arrears_block()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_group_id BIGINT;
+  v_reason TEXT;
+BEGIN
+  SELECT m.group_id INTO v_group_id FROM public.members m WHERE m.id = COALESCE(NEW.member_id, NEW.customer_id);
+
+  v_reason := public.group_lending_block_reason(v_group_id);
+  IF v_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot create loan: %', v_reason;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enforce_group_arrears_block ON public.loans;
+CREATE TRIGGER trigger_enforce_group_arrears_block
+  BEFORE INSERT ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_group_arrears_block();
+
+-- 6. Attach guarantors to a loan that has not been paid out yet
+-- p_guarantors: [{ "member_id": uuid, "amount": number }, ...]
+CREATE OR REPLACE FUNCTION public.add_loan_guarantors(p_loan_id UUID, p_guarantors JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_loan public.loans;
+  v_role TEXT;
+  v_borrower_id UUID;
+  v_group_id BIGINT;
+  v_item JSONB;
+  v_member public.members;
+  v_amount DECIMAL(15,2);
+  v_count INTEGER := 0;
+BEGIN
+  SELECT p.role::TEXT INTO v_role FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can add loan guarantors';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  IF v_loan.disbursed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Guarantors cannot be added after the loan is disbursed';
+  END IF;
+
+  v_borrower_id := COALESCE(v_loan.member_id, v_loan.customer_id);
+  SELECT m.group_id INTO v_group_id FROM public.members m WHERE m.id = v_borrower_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_guarantors, '[]'::JSONB)) LOOP
+    SELECT * INTO v_member FROM public.members WHERE id = (v_item->>'member_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Guarantor % not found', v_item->>'member_id';
+    END IF;
+    IF v_member.id = v_borrower_id THEN
+      RAISE EXCEPTION 'A member cannot guarantee their own loan';
+    END IF;
+    IF v_group_id IS NULL OR v_member.group_id IS DISTINCT FROM v_group_id THEN
+      RAISE EXCEPTION '% is not in the borrower''s group', v_member.full_name;
+    END IF;
+    IF COALESCE(v_member.status, 'active') <> 'active' THEN
+      RAISE EXCEPTION '% is not an active member', v_member.full_name;
+    END IF;
+
+    v_amount := ROUND((v_item->>'amount')::DECIMAL, 2);
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Enter the amount % guarantees', v_member.full_name;
+    END IF;
+    IF v_amount > v_loan.principal_amount THEN
+      RAISE EXCEPTION '% cannot guarantee more than the principal of KES %', v_member.full_name, v_loan.principal_amount;
+    END IF;
+
+    INSERT INTO public.loan_guarantors (loan_id, guarantor_member_id, guaranteed_amount, created_by)
+    VALUES (p_loan_id, v_member.id, v_amount, auth.uid())
+    ON CONFLICT (loan_id, guarantor_member_id)
+    DO UPDATE SET guaranteed_amount = EXCLUDED.guaranteed_amount, status = 'active', released_at = NULL;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count > 0 THEN
+    INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+    VALUES ('LOAN_GUARANTORS_ADDED', 'loans', p_loan_id, NULL, jsonb_build_object('guarantors', p_guarantors), auth.uid());
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.add_loan_guarantors(UUID, JSONB) TO authenticated;
+
+-- 7. Guarantees end when the loan is repaid
+CREATE OR REPLACE FUNCTION public.release_loan_guarantors()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status::TEXT IN ('repaid','completed') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    UPDATE public.loan_guarantors
+    SET status = 'released',
+        released_at = NOW()
+    WHERE loan_id = NEW.id
+      AND status = 'active';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_release_loan_guarantors ON public.loans;
+CREATE TRIGGER trigger_release_loan_guarantors
+  AFTER UPDATE OF status ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_loan_guarantors();
+
+-- 8. Recover an overdue installment from a guarantor
+CREATE OR REPLACE FUNCTION public.recover_from_guarantor(
+  p_loan_guarantor_id UUID,
+  p_installment_id UUID,
+  p_amount DECIMAL,
+  p_source TEXT,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_guarantee public.loan_guarantors;
+  v_loan public.loans;
+  v_installment public.loan_installments;
+  v_guarantor public.members;
+  v_method TEXT;
+  v_reference TEXT;
+  v_note TEXT;
+  v_unpaid DECIMAL(15,2);
+  v_available DECIMAL(15,2);
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_recovery_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can recover from guarantors';
+  END IF;
+  IF p_source NOT IN ('savings','payment') THEN
+    RAISE EXCEPTION 'Invalid recovery source %', p_source;
+  END IF;
+  v_method := CASE WHEN p_source = 'savings' THEN 'other' ELSE COALESCE(p_payment_method, 'cash') END;
+  IF v_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', v_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Recovery amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_guarantee FROM public.loan_guarantors WHERE id = p_loan_guarantor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guarantee % not found', p_loan_guarantor_id;
+  END IF;
+  IF v_guarantee.status <> 'active' THEN
+    RAISE EXCEPTION 'This guarantee has been released';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_guarantee.loan_id;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only recover loans from their own branch';
+  END IF;
+  IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'Only open loans can be recovered from guarantors';
+  END IF;
+
+  SELECT * INTO v_installment FROM public.loan_installments WHERE id = p_installment_id AND loan_id = v_loan.id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment not found on this loan';
+  END IF;
+  v_unpaid := v_installment.total_amount - COALESCE(v_installment.amount_paid, 0);
+  IF COALESCE(v_installment.is_paid, FALSE) OR v_unpaid <= 0 THEN
+    RAISE EXCEPTION 'Installment % is already paid', v_installment.installment_number;
+  END IF;
+  IF v_installment.due_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Installment % is not overdue yet', v_installment.installment_number;
+  END IF;
+  IF p_amount > v_unpaid THEN
+    RAISE EXCEPTION 'Only KES % is unpaid on installment %', v_unpaid, v_installment.installment_number;
+  END IF;
+
+  v_available := v_guarantee.guaranteed_amount - v_guarantee.recovered_amount;
+  IF p_amount > v_available THEN
+    RAISE EXCEPTION 'The guarantor has KES % of their guarantee left', v_available;
+  END IF;
+
+  SELECT * INTO v_guarantor FROM public.members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+  IF p_source = 'savings' THEN
+    IF COALESCE(v_guarantor.savings_balance, 0) < p_amount THEN
+      RAISE EXCEPTION '% has only KES % in savings', v_guarantor.full_name, COALESCE(v_guarantor.savings_balance, 0);
+    END IF;
+    UPDATE public.members
+    SET savings_balance = savings_balance - p_amount,
+        updated_at = NOW()
+    WHERE id = v_guarantor.id;
+  END IF;
+
+  v_reference := COALESCE(
+    NULLIF(TRIM(p_reference), ''),
+    'GR-' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || '-' || v_installment.installment_number || '-' || to_char(NOW(), 'YYYYMMDDHH24MISS')
+  );
+  v_note := 'Recovered from guarantor ' || v_guarantor.full_name
+    || CASE WHEN p_source = 'savings' THEN ' (savings)' ELSE '' END
+    || COALESCE(': ' || NULLIF(TRIM(p_notes), ''), '');
+
+  INSERT INTO public.loan_payments (
+    loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+  ) VALUES (
+    v_loan.id, v_installment.installment_number, p_amount, CURRENT_DATE, v_reference, v_note, auth.uid()
+  )
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO public.transactions (
+    amount, transaction_type, description, loan_id, member_id, transaction_date,
+    created_by, status, reference_number, branch_id, payment_method, currency, total_paid, notes
+  ) VALUES (
+    p_amount,
+    'payment',
+    'Guarantor recovery',
+    v_loan.id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    CURRENT_DATE,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    v_method,
+    'KES',
+    p_amount,
+    v_note
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.loan_guarantors
+  SET recovered_amount = recovered_amount + p_amount
+  WHERE id = v_guarantee.id;
+
+  INSERT INTO public.guarantor_recoveries (
+    loan_guarantor_id, loan_id, installment_id, guarantor_member_id, amount, source,
+    payment_method, payment_reference, notes, loan_payment_id, transaction_id, recovered_by
+  ) VALUES (
+    v_guarantee.id, v_loan.id, v_installment.id, v_guarantor.id, p_amount, p_source,
+    v_method, v_reference, NULLIF(TRIM(p_notes), ''), v_payment_id, v_transaction_id, auth.uid()
+  )
+  RETURNING id INTO v_recovery_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'GUARANTOR_RECOVERY',
+    'loans',
+    v_loan.id,
+    jsonb_build_object('guarantor_recovered', v_guarantee.recovered_amount),
+    jsonb_build_object(
+      'guarantor_member_id', v_guarantor.id,
+      'installment_number', v_installment.installment_number,
+      'amount', p_amount,
+      'source', p_source,
+      'reference', v_reference
+    ),
+    auth.uid()
+  );
+
+  RETURN v_recovery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.recover_from_guarantor(UUID, UUID, DECIMAL, TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,638 @@
+-- Member Savings
+-- Members keep savings accounts alongside their loans:
+--   * a member holds at most one compulsory and one voluntary account;
+--   * deposits, withdrawals and interest are posted to savings_transactions with
+--     the running balance, through the functions below only;
+--   * a withdrawal cannot take an account below its minimum balance. The
+--     compulsory account is also held under lien for savings_lien_percent of what
+--     the member still owes on open loans;
+--   * interest is credited once a month on the balance at the account's annual
+--     rate (monthly job, or on demand by an administrator);
+--   * members.savings_balance remains the total across the member's accounts, so
+--     guarantor recoveries from savings now debit the accounts as well.
+
+-- 1. Settings
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS savings_minimum_balance DECIMAL(15,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS savings_interest_rate DECIMAL(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS savings_lien_percent DECIMAL(5,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS auto_credit_savings_interest BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_savings_minimum_balance_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_savings_minimum_balance_check
+  CHECK (savings_minimum_balance >= 0);
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_savings_interest_rate_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_savings_interest_rate_check
+  CHECK (savings_interest_rate >= 0);
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_savings_lien_percent_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_savings_lien_percent_check
+  CHECK (savings_lien_percent BETWEEN 0 AND 100);
+
+-- 2. Accounts and their ledger
+CREATE SEQUENCE IF NOT EXISTS public.savings_account_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.savings_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    member_id UUID NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+    account_number TEXT NOT NULL UNIQUE
+      DEFAULT 'SAV' || lpad(nextval('public.savings_account_number_seq')::TEXT, 6, '0'),
+    account_type TEXT NOT NULL CHECK (account_type IN ('compulsory','voluntary')),
+    balance DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+    minimum_balance DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (minimum_balance >= 0),
+    interest_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0),
+    last_interest_date DATE,
+    opened_by UUID REFERENCES public.profiles(id),
+    opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (member_id, account_type)
+);
+
+CREATE TABLE IF NOT EXISTS public.savings_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    account_id UUID NOT NULL REFERENCES public.savings_accounts(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('deposit','withdrawal','interest','recovery')),
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    balance_after DECIMAL(15,2) NOT NULL,
+    payment_method TEXT CHECK (payment_method IN ('cash','bank_transfer','mobile_money','check','other')),
+    reference TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_savings_transactions_account ON public.savings_transactions(account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_savings_transactions_member ON public.savings_transactions(member_id, created_at);
+
+-- 3. RLS: visible to whoever can see the member; written only through the functions below
+ALTER TABLE public.savings_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.savings_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS savings_accounts_select ON public.savings_accounts;
+CREATE POLICY savings_accounts_select ON public.savings_accounts
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.members m WHERE m.id = savings_accounts.member_id)
+);
+
+DROP POLICY IF EXISTS savings_transactions_select ON public.savings_transactions;
+CREATE POLICY savings_transactions_select ON public.savings_transactions
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.members m WHERE m.id = savings_transactions.member_id)
+);
+
+-- 4. Keep members.savings_balance equal to the member's accounts
+CREATE OR REPLACE FUNCTION public.sync_member_savings_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.members
+  SET savings_balance = (
+        SELECT COALESCE(SUM(sa.balance), 0) FROM public.savings_accounts sa WHERE sa.member_id = NEW.member_id
+      ),
+      updated_at = NOW()
+  WHERE id = NEW.member_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_sync_member_savings_balance ON public.savings_accounts;
+CREATE TRIGGER trg_sync_member_savings_balance
+  AFTER INSERT OR UPDATE OF balance ON public.savings_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_member_savings_balance();
+
+-- Balances held before accounts existed become each member's compulsory account
+INSERT INTO public.savings_accounts (member_id, account_type, balance, minimum_balance, interest_rate)
+SELECT m.id, 'compulsory', m.savings_balance, s.savings_minimum_balance, s.savings_interest_rate
+FROM public.members m
+  CROSS JOIN public.system_settings s
+WHERE s.id = 1
+  AND m.savings_balance > 0
+  AND NOT EXISTS (SELECT 1 FROM public.savings_accounts sa WHERE sa.member_id = m.id)
+ON CONFLICT (member_id, account_type) DO NOTHING;
+
+INSERT INTO public.savings_transactions (account_id, member_id, transaction_type, amount, balance_after, reference, notes)
+SELECT sa.id, sa.member_id, 'deposit', sa.balance, sa.balance, 'OPENING-' || sa.account_number, 'Opening balance brought forward'
+FROM public.savings_accounts sa
+WHERE sa.balance > 0
+  AND NOT EXISTS (SELECT 1 FROM public.savings_transactions st WHERE st.account_id = sa.id);
+
+-- 5. Lien and available balance
+-- The lien is a share of what the member owes on open loans
+CREATE OR REPLACE FUNCTION public.member_savings_lien(p_member_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT ROUND(
+    COALESCE(SUM(public.loan_outstanding_balance(l.id)), 0)
+      * COALESCE((SELECT s.savings_lien_percent FROM public.system_settings s WHERE s.id = 1), 0) / 100,
+    2
+  )
+  FROM public.loans l
+  WHERE COALESCE(l.member_id, l.customer_id) = p_member_id
+    AND l.status::TEXT IN ('active','disbursed','defaulted')
+    AND COALESCE(l.is_deleted, FALSE) = FALSE;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.member_savings_lien(UUID) TO authenticated;
+
+-- Only the compulsory account carries the lien; both keep their minimum balance
+CREATE OR REPLACE FUNCTION public.member_savings_accounts(p_member_id UUID)
+RETURNS TABLE(
+  id UUID,
+  member_id UUID,
+  account_number TEXT,
+  account_type TEXT,
+  balance DECIMAL(15,2),
+  minimum_balance DECIMAL(15,2),
+  interest_rate DECIMAL(5,2),
+  lien_amount DECIMAL(15,2),
+  available_balance DECIMAL(15,2),
+  last_interest_date DATE,
+  opened_at TIMESTAMPTZ
+) AS $$
+  WITH lien AS (
+    SELECT public.member_savings_lien(p_member_id) AS amount
+  )
+  SELECT
+    sa.id,
+    sa.member_id,
+    sa.account_number,
+    sa.account_type,
+    sa.balance,
+    sa.minimum_balance,
+    sa.interest_rate,
+    CASE WHEN sa.account_type = 'compulsory' THEN LEAST(sa.balance, lien.amount) ELSE 0 END,
+    GREATEST(
+      sa.balance - GREATEST(sa.minimum_balance, CASE WHEN sa.account_type = 'compulsory' THEN lien.amount ELSE 0 END),
+      0
+    ),
+    sa.last_interest_date,
+    sa.opened_at
+  FROM public.savings_accounts sa
+    CROSS JOIN lien
+  WHERE sa.member_id = p_member_id
+  ORDER BY sa.account_type;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.member_savings_accounts(UUID) TO authenticated;
+
+-- 6. Ledger posting shared by every savings movement
+CREATE OR REPLACE FUNCTION public.post_savings_transaction(
+  p_account_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL,
+  p_payment_method TEXT,
+  p_reference TEXT,
+  p_notes TEXT,
+  p_user_id UUID
+) RETURNS UUID AS $$
+DECLARE
+  v_account public.savings_accounts;
+  v_balance DECIMAL(15,2);
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_account FROM public.savings_accounts WHERE id = p_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings account % not found', p_account_id;
+  END IF;
+
+  v_balance := v_account.balance + CASE WHEN p_type IN ('withdrawal','recovery') THEN -p_amount ELSE p_amount END;
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Account % has only KES %', v_account.account_number, v_account.balance;
+  END IF;
+
+  UPDATE public.savings_accounts SET balance = v_balance WHERE id = v_account.id;
+
+  INSERT INTO public.savings_transactions (
+    account_id, member_id, transaction_type, amount, balance_after, payment_method, reference, notes, created_by
+  ) VALUES (
+    v_account.id, v_account.member_id, p_type, p_amount, v_balance, p_payment_method,
+    NULLIF(TRIM(p_reference), ''), NULLIF(TRIM(p_notes), ''), p_user_id
+  )
+  RETURNING id INTO v_transaction_id;
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.post_savings_transaction(UUID, TEXT, DECIMAL, TEXT, TEXT, TEXT, UUID) FROM PUBLIC;
+
+-- 7. Open an account; rates default to the system settings
+CREATE OR REPLACE FUNCTION public.open_savings_account(
+  p_member_id UUID,
+  p_account_type TEXT,
+  p_minimum_balance DECIMAL DEFAULT NULL,
+  p_interest_rate DECIMAL DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_member public.members;
+  v_settings RECORD;
+  v_account_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can open savings accounts';
+  END IF;
+  IF p_account_type NOT IN ('compulsory','voluntary') THEN
+    RAISE EXCEPTION 'Invalid account type %', p_account_type;
+  END IF;
+
+  SELECT * INTO v_member FROM public.members WHERE id = p_member_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member % not found', p_member_id;
+  END IF;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_member.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only open accounts for members of their own branch';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.savings_accounts sa WHERE sa.member_id = p_member_id AND sa.account_type = p_account_type) THEN
+    RAISE EXCEPTION '% already has a % savings account', v_member.full_name, p_account_type;
+  END IF;
+
+  SELECT savings_minimum_balance, savings_interest_rate INTO v_settings FROM public.system_settings WHERE id = 1;
+
+  INSERT INTO public.savings_accounts (member_id, account_type, minimum_balance, interest_rate, opened_by)
+  VALUES (
+    p_member_id,
+    p_account_type,
+    COALESCE(p_minimum_balance, v_settings.savings_minimum_balance, 0),
+    COALESCE(p_interest_rate, v_settings.savings_interest_rate, 0),
+    auth.uid()
+  )
+  RETURNING id INTO v_account_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'SAVINGS_ACCOUNT_OPENED',
+    'savings_accounts',
+    v_account_id,
+    NULL,
+    jsonb_build_object('member_id', p_member_id, 'account_type', p_account_type),
+    auth.uid()
+  );
+
+  RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.open_savings_account(UUID, TEXT, DECIMAL, DECIMAL) TO authenticated;
+
+-- 8. Deposits and withdrawals
+CREATE OR REPLACE FUNCTION public.savings_deposit(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_account public.savings_accounts;
+  v_branch_id BIGINT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can take savings deposits';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Deposit amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_account FROM public.savings_accounts WHERE id = p_account_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings account % not found', p_account_id;
+  END IF;
+  SELECT m.branch_id INTO v_branch_id FROM public.members m WHERE m.id = v_account.member_id;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only post to accounts of their own branch';
+  END IF;
+
+  v_transaction_id := public.post_savings_transaction(
+    v_account.id, 'deposit', ROUND(p_amount, 2), p_payment_method, p_reference, p_notes, auth.uid()
+  );
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'SAVINGS_DEPOSIT',
+    'savings_accounts',
+    v_account.id,
+    jsonb_build_object('balance', v_account.balance),
+    jsonb_build_object('balance', v_account.balance + ROUND(p_amount, 2), 'amount', ROUND(p_amount, 2), 'reference', p_reference),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.savings_deposit(UUID, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.savings_withdraw(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_account RECORD;
+  v_branch_id BIGINT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can pay out savings withdrawals';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Withdrawal amount must be greater than zero';
+  END IF;
+
+  -- Lock first so the available balance cannot change underneath the check
+  PERFORM 1 FROM public.savings_accounts WHERE id = p_account_id FOR UPDATE;
+  SELECT * INTO v_account
+  FROM public.member_savings_accounts((SELECT sa.member_id FROM public.savings_accounts sa WHERE sa.id = p_account_id)) a
+  WHERE a.id = p_account_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings account % not found', p_account_id;
+  END IF;
+  SELECT m.branch_id INTO v_branch_id FROM public.members m WHERE m.id = v_account.member_id;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only post to accounts of their own branch';
+  END IF;
+  IF ROUND(p_amount, 2) > v_account.available_balance THEN
+    RAISE EXCEPTION 'Only KES % can be withdrawn from % (minimum balance KES %, lien KES %)',
+      v_account.available_balance, v_account.account_number, v_account.minimum_balance, v_account.lien_amount;
+  END IF;
+
+  v_transaction_id := public.post_savings_transaction(
+    v_account.id, 'withdrawal', ROUND(p_amount, 2), p_payment_method, p_reference, p_notes, auth.uid()
+  );
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'SAVINGS_WITHDRAWAL',
+    'savings_accounts',
+    v_account.id,
+    jsonb_build_object('balance', v_account.balance),
+    jsonb_build_object('balance', v_account.balance - ROUND(p_amount, 2), 'amount', ROUND(p_amount, 2), 'reference', p_reference),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.savings_withdraw(UUID, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
+
+-- 9. Monthly interest: balance x annual rate / 12, once per account per month
+CREATE OR REPLACE FUNCTION public.credit_savings_interest(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(accounts_credited INTEGER, total_interest DECIMAL) AS $$
+DECLARE
+  v_account RECORD;
+  v_interest DECIMAL(15,2);
+  v_count INTEGER := 0;
+  v_total DECIMAL := 0;
+BEGIN
+  -- Cron runs without a user; people may only trigger it when they are admins
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can credit savings interest';
+  END IF;
+
+  IF auth.uid() IS NULL AND NOT COALESCE(
+    (SELECT s.auto_credit_savings_interest FROM public.system_settings s WHERE s.id = 1), TRUE
+  ) THEN
+    RETURN QUERY SELECT 0, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  FOR v_account IN
+    SELECT sa.id, sa.balance, sa.interest_rate
+    FROM public.savings_accounts sa
+    WHERE sa.interest_rate > 0
+      AND sa.balance > 0
+      AND (sa.last_interest_date IS NULL OR sa.last_interest_date < date_trunc('month', p_as_of)::DATE)
+    FOR UPDATE
+  LOOP
+    v_interest := ROUND(v_account.balance * v_account.interest_rate / 100 / 12, 2);
+    UPDATE public.savings_accounts SET last_interest_date = p_as_of WHERE id = v_account.id;
+    CONTINUE WHEN v_interest <= 0;
+
+    PERFORM public.post_savings_transaction(
+      v_account.id, 'interest', v_interest, NULL,
+      'INT-' || to_char(p_as_of, 'YYYYMM'),
+      'Monthly interest at ' || v_account.interest_rate || '% a year',
+      auth.uid()
+    );
+    v_count := v_count + 1;
+    v_total := v_total + v_interest;
+  END LOOP;
+
+  IF v_count > 0 THEN
+    INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+    VALUES (
+      'SAVINGS_INTEREST_CREDITED',
+      'savings_accounts',
+      NULL,
+      NULL,
+      jsonb_build_object('as_of', p_as_of, 'accounts', v_count, 'total', v_total),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_count, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.credit_savings_interest(DATE) TO authenticated;
+
+-- 10. Guarantor recoveries from savings debit the accounts, compulsory first
+CREATE OR REPLACE FUNCTION public.recover_from_guarantor(
+  p_loan_guarantor_id UUID,
+  p_installment_id UUID,
+  p_amount DECIMAL,
+  p_source TEXT,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_guarantee public.loan_guarantors;
+  v_loan public.loans;
+  v_installment public.loan_installments;
+  v_guarantor public.members;
+  v_account public.savings_accounts;
+  v_method TEXT;
+  v_reference TEXT;
+  v_note TEXT;
+  v_unpaid DECIMAL(15,2);
+  v_available DECIMAL(15,2);
+  v_remaining DECIMAL(15,2);
+  v_debit DECIMAL(15,2);
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_recovery_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can recover from guarantors';
+  END IF;
+  IF p_source NOT IN ('savings','payment') THEN
+    RAISE EXCEPTION 'Invalid recovery source %', p_source;
+  END IF;
+  v_method := CASE WHEN p_source = 'savings' THEN 'other' ELSE COALESCE(p_payment_method, 'cash') END;
+  IF v_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', v_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Recovery amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_guarantee FROM public.loan_guarantors WHERE id = p_loan_guarantor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guarantee % not found', p_loan_guarantor_id;
+  END IF;
+  IF v_guarantee.status <> 'active' THEN
+    RAISE EXCEPTION 'This guarantee has been released';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_guarantee.loan_id;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only recover loans from their own branch';
+  END IF;
+  IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'Only open loans can be recovered from guarantors';
+  END IF;
+
+  SELECT * INTO v_installment FROM public.loan_installments WHERE id = p_installment_id AND loan_id = v_loan.id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment not found on this loan';
+  END IF;
+  v_unpaid := v_installment.total_amount - COALESCE(v_installment.amount_paid, 0);
+  IF COALESCE(v_installment.is_paid, FALSE) OR v_unpaid <= 0 THEN
+    RAISE EXCEPTION 'Installment % is already paid', v_installment.installment_number;
+  END IF;
+  IF v_installment.due_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Installment % is not overdue yet', v_installment.installment_number;
+  END IF;
+  IF p_amount > v_unpaid THEN
+    RAISE EXCEPTION 'Only KES % is unpaid on installment %', v_unpaid, v_installment.installment_number;
+  END IF;
+
+  v_available := v_guarantee.guaranteed_amount - v_guarantee.recovered_amount;
+  IF p_amount > v_available THEN
+    RAISE EXCEPTION 'The guarantor has KES % of their guarantee left', v_available;
+  END IF;
+
+  SELECT * INTO v_guarantor FROM public.members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+  IF p_source = 'savings' AND COALESCE(v_guarantor.savings_balance, 0) < p_amount THEN
+    RAISE EXCEPTION '% has only KES % in savings', v_guarantor.full_name, COALESCE(v_guarantor.savings_balance, 0);
+  END IF;
+
+  v_reference := COALESCE(
+    NULLIF(TRIM(p_reference), ''),
+    'GR-' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || '-' || v_installment.installment_number || '-' || to_char(NOW(), 'YYYYMMDDHH24MISS')
+  );
+  v_note := 'Recovered from guarantor ' || v_guarantor.full_name
+    || CASE WHEN p_source = 'savings' THEN ' (savings)' ELSE '' END
+    || COALESCE(': ' || NULLIF(TRIM(p_notes), ''), '');
+
+  -- A recovery overrides minimum balances and liens: this is what they secure
+  IF p_source = 'savings' THEN
+    v_remaining := p_amount;
+    FOR v_account IN
+      SELECT * FROM public.savings_accounts
+      WHERE member_id = v_guarantor.id AND balance > 0
+      ORDER BY account_type
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_debit := LEAST(v_remaining, v_account.balance);
+      PERFORM public.post_savings_transaction(
+        v_account.id, 'recovery', v_debit, NULL, v_reference,
+        'Guarantor recovery on loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+        auth.uid()
+      );
+      v_remaining := v_remaining - v_debit;
+    END LOOP;
+  END IF;
+
+  INSERT INTO public.loan_payments (
+    loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+  ) VALUES (
+    v_loan.id, v_installment.installment_number, p_amount, CURRENT_DATE, v_reference, v_note, auth.uid()
+  )
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO public.transactions (
+    amount, transaction_type, description, loan_id, member_id, transaction_date,
+    created_by, status, reference_number, branch_id, payment_method, currency, total_paid, notes
+  ) VALUES (
+    p_amount,
+    'payment',
+    'Guarantor recovery',
+    v_loan.id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    CURRENT_DATE,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    v_method,
+    'KES',
+    p_amount,
+    v_note
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.loan_guarantors
+  SET recovered_amount = recovered_amount + p_amount
+  WHERE id = v_guarantee.id;
+
+  INSERT INTO public.guarantor_recoveries (
+    loan_guarantor_id, loan_id, installment_id, guarantor_member_id, amount, source,
+    payment_method, payment_reference, notes, loan_payment_id, transaction_id, recovered_by
+  ) VALUES (
+    v_guarantee.id, v_loan.id, v_installment.id, v_guarantor.id, p_amount, p_source,
+    v_method, v_reference, NULLIF(TRIM(p_notes), ''), v_payment_id, v_transaction_id, auth.uid()
+  )
+  RETURNING id INTO v_recovery_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'GUARANTOR_RECOVERY',
+    'loans',
+    v_loan.id,
+    jsonb_build_object('guarantor_recovered', v_guarantee.recovered_amount),
+    jsonb_build_object(
+      'guarantor_member_id', v_guarantor.id,
+      'installment_number', v_installment.installment_number,
+      'amount', p_amount,
+      'source', p_source,
+      'reference', v_reference
+    ),
+    auth.uid()
+  );
+
+  RETURN v_recovery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.recover_from_guarantor(UUID, UUID, DECIMAL, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- 11. Credit interest on the first of every month at 00:30 UTC
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'monthly_savings_interest') THEN
+    PERFORM cron.schedule('monthly_savings_interest', '30 0 1 * *', 'SELECT public.credit_savings_interest();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Credit now (once per account per month): SELECT * FROM public.credit_savings_interest();
+-- 2) Verify schedule: SELECT * FROM cron.job WHERE jobname = 'monthly_savings_interest';
@@ -0,0 +1,284 @@
+-- Notification Alerts
+-- The notifications table is the single source of in-app notifications. The
+-- database raises alerts itself and addresses them by role and branch:
+--   * loan pending approval: whoever can sign the loan's current approval step;
+--   * installment overdue: the loan officer and the branch admins (daily job);
+--   * large expense submitted: admins and the branch admins of the expense's branch;
+--   * backup failed: admins.
+-- super_admin and admin receive branch alerts for every branch, other roles only
+-- for their own. dedupe_key keeps a user from getting the same alert twice.
+-- The table is published to realtime so the bell updates without a reload.
+
+-- 1. Settings and columns
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS large_expense_threshold DECIMAL(15,2) NOT NULL DEFAULT 50000;
+
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_large_expense_threshold_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_large_expense_threshold_check
+  CHECK (large_expense_threshold >= 0);
+
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'general';
+ALTER TABLE public.notifications ADD COLUMN IF NOT EXISTS dedupe_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_user_dedupe ON public.notifications(user_id, dedupe_key);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON public.notifications(user_id, created_at DESC) WHERE is_read = FALSE;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- 2. Delivery helpers
+CREATE OR REPLACE FUNCTION public.notify_users(
+  p_user_ids UUID[],
+  p_title TEXT,
+  p_message TEXT,
+  p_type TEXT,
+  p_category TEXT,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_dedupe_key TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.notifications (user_id, title, message, type, category, related_entity_type, related_entity_id, dedupe_key)
+  SELECT DISTINCT p.id, p_title, p_message, p_type, p_category, p_entity_type, p_entity_id, p_dedupe_key
+  FROM public.profiles p
+  WHERE p.id = ANY(p_user_ids)
+    AND COALESCE(p.is_active, TRUE)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.notify_users(UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC;
+
+-- Staff holding one of p_roles; branch roles only when they belong to p_branch_id
+CREATE OR REPLACE FUNCTION public.notify_staff(
+  p_roles TEXT[],
+  p_branch_id BIGINT,
+  p_title TEXT,
+  p_message TEXT,
+  p_type TEXT,
+  p_category TEXT,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_dedupe_key TEXT,
+  p_exclude_user UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+  SELECT public.notify_users(
+    ARRAY(
+      SELECT p.id
+      FROM public.profiles p
+      WHERE p.role::TEXT = ANY(p_roles)
+        AND p.id IS DISTINCT FROM p_exclude_user
+        AND (
+          p.role::TEXT IN ('super_admin','admin')
+          OR p_branch_id IS NULL
+          OR p.branch_id = p_branch_id
+        )
+    ),
+    p_title, p_message, p_type, p_category, p_entity_type, p_entity_id, p_dedupe_key
+  );
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.notify_staff(TEXT[], BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT, UUID) FROM PUBLIC;
+
+-- 3. Loan pending approval: one alert per approval step
+CREATE OR REPLACE FUNCTION public.notify_loan_pending_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_required TEXT;
+  v_member TEXT;
+  v_step INTEGER;
+BEGIN
+  IF COALESCE(NEW.approval_status, 'pending') <> 'pending' OR COALESCE(NEW.is_deleted, FALSE) THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.approval_step IS NOT DISTINCT FROM OLD.approval_step
+     AND NEW.approval_chain IS NOT DISTINCT FROM OLD.approval_chain THEN
+    RETURN NEW;
+  END IF;
+
+  v_step := COALESCE(NEW.approval_step, 0) + 1;
+  v_required := COALESCE(NEW.approval_chain[v_step], 'admin');
+  SELECT m.full_name INTO v_member FROM public.members m WHERE m.id = COALESCE(NEW.member_id, NEW.customer_id);
+
+  PERFORM public.notify_users(
+    ARRAY(
+      SELECT p.id
+      FROM public.profiles p
+      WHERE public.approval_role_covers(p.role::TEXT, v_required)
+        AND (p.role::TEXT <> 'branch_admin' OR p.branch_id = NEW.branch_id)
+        AND p.id IS DISTINCT FROM NEW.created_by
+    ),
+    'Loan awaiting approval',
+    'Loan ' || COALESCE(NEW.application_no, NEW.id::TEXT) || COALESCE(' for ' || v_member, '')
+      || ' of KES ' || to_char(NEW.principal_amount, 'FM999,999,999,990.00')
+      || ' needs step ' || v_step || ' sign-off (' || replace(v_required, '_', ' ') || ').',
+    'info',
+    'loan_pending_approval',
+    'loan',
+    NEW.id,
+    'loan_pending:' || NEW.id || ':' || v_step || ':' || COALESCE(NEW.approval_rule_id::TEXT, '')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_notify_loan_pending_approval ON public.loans;
+CREATE TRIGGER trg_notify_loan_pending_approval
+  AFTER INSERT OR UPDATE OF approval_step, approval_chain ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_loan_pending_approval();
+
+-- 4. Large expense submitted
+CREATE OR REPLACE FUNCTION public.notify_large_expense()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_threshold DECIMAL(15,2);
+BEGIN
+  SELECT s.large_expense_threshold INTO v_threshold FROM public.system_settings s WHERE s.id = 1;
+  IF v_threshold IS NULL OR v_threshold <= 0 OR NEW.amount < v_threshold THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_staff(
+    ARRAY['super_admin','admin','branch_admin'],
+    NEW.branch_id,
+    'Large expense submitted',
+    COALESCE(NEW.expense_number || ': ', '') || NEW.title || ' for KES '
+      || to_char(NEW.amount, 'FM999,999,999,990.00')
+      || COALESCE(' to ' || NULLIF(TRIM(NEW.vendor_name), ''), '') || '.',
+    'warning',
+    'large_expense',
+    'expense',
+    NEW.id,
+    'large_expense:' || NEW.id,
+    NEW.created_by
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_notify_large_expense ON public.expenses;
+CREATE TRIGGER trg_notify_large_expense
+  AFTER INSERT ON public.expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_large_expense();
+
+-- 5. Backup failed
+CREATE OR REPLACE FUNCTION public.notify_backup_failed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'success' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.notify_staff(
+    ARRAY['super_admin','admin'],
+    NULL,
+    'Backup failed',
+    'The backup of ' || to_char(NEW.created_at, 'DD Mon YYYY HH24:MI') || ' did not complete'
+      || COALESCE(': ' || NULLIF(TRIM(NEW.details), ''), '.'),
+    'error',
+    'backup_failed',
+    'backup',
+    NEW.id,
+    'backup_failed:' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_notify_backup_failed ON public.backup_metadata;
+CREATE TRIGGER trg_notify_backup_failed
+  AFTER INSERT ON public.backup_metadata
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_backup_failed();
+
+-- 6. Overdue installments: once per installment, to the officer and the branch admins
+CREATE OR REPLACE FUNCTION public.generate_overdue_alerts(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inst RECORD;
+  v_message TEXT;
+  v_created INTEGER := 0;
+BEGIN
+  -- Cron runs without a user; people may only trigger it when they are admins
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can generate overdue alerts';
+  END IF;
+
+  -- Only recent arrears, so the first run does not replay the whole history
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount - COALESCE(i.amount_paid, 0) AS unpaid,
+      l.id AS loan_id,
+      COALESCE(l.application_no, l.id::TEXT) AS account_number,
+      l.branch_id,
+      l.loan_officer_id,
+      m.full_name AS member_name
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+      LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.due_date < p_as_of
+      AND i.due_date >= p_as_of - 7
+      AND i.total_amount - COALESCE(i.amount_paid, 0) > 0
+      AND l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+  LOOP
+    v_message := COALESCE(v_inst.member_name, 'A member') || ' missed installment #' || v_inst.installment_number
+      || ' on loan ' || v_inst.account_number || ', due ' || to_char(v_inst.due_date, 'DD Mon YYYY')
+      || ' (KES ' || to_char(v_inst.unpaid, 'FM999,999,999,990.00') || ' unpaid).';
+
+    v_created := v_created + public.notify_users(
+      ARRAY(
+        SELECT p.id FROM public.profiles p
+        WHERE p.id = v_inst.loan_officer_id
+           OR (p.role::TEXT = 'branch_admin' AND p.branch_id = v_inst.branch_id)
+      ),
+      'Installment overdue',
+      v_message,
+      'warning',
+      'installment_overdue',
+      'loan',
+      v_inst.loan_id,
+      'overdue:' || v_inst.installment_id
+    );
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.generate_overdue_alerts(DATE) TO authenticated;
+
+-- 7. Raise overdue alerts every morning at 05:00 UTC (08:00 EAT), after penalty accrual
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'daily_overdue_alerts') THEN
+    PERFORM cron.schedule('daily_overdue_alerts', '0 5 * * *', 'SELECT public.generate_overdue_alerts();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Run immediately (idempotent per installment): SELECT public.generate_overdue_alerts();
+-- 2) Verify schedule: SELECT * FROM cron.job WHERE jobname = 'daily_overdue_alerts';
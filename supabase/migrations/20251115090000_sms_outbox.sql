@@ -0,0 +1,543 @@
+-- SMS Outbox
+-- system_settings.sms_notifications now sends member SMS through a provider:
+--   * messages come from editable templates (upcoming installment, missed payment,
+--     payment receipt, loan approved) with {{placeholders}} filled in when queued;
+--   * everything is written to sms_outbox first; the sms-dispatch edge function
+--     claims queued rows, hands them to the configured provider adapter and
+--     reports back, and provider delivery reports update the final status;
+--   * members can opt out: their messages are recorded as skipped, never sent;
+--   * each sent message is also logged in communication_logs (type SMS), so it
+--     shows with the member's and loan's other communications.
+-- dedupe_key keeps a member from getting the same reminder or receipt twice.
+
+-- 1. Settings and member opt-out
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS sms_provider TEXT NOT NULL DEFAULT 'console';
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS sms_sender_id TEXT;
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS sms_reminder_days INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_sms_provider_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_sms_provider_check
+  CHECK (sms_provider IN ('console','africastalking'));
+ALTER TABLE public.system_settings DROP CONSTRAINT IF EXISTS system_settings_sms_reminder_days_check;
+ALTER TABLE public.system_settings ADD CONSTRAINT system_settings_sms_reminder_days_check
+  CHECK (sms_reminder_days BETWEEN 0 AND 14);
+
+ALTER TABLE public.members ADD COLUMN IF NOT EXISTS sms_opt_out BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.members ADD COLUMN IF NOT EXISTS sms_opt_out_at TIMESTAMPTZ;
+
+-- 2. Templates
+CREATE TABLE IF NOT EXISTS public.sms_templates (
+    code TEXT PRIMARY KEY CHECK (code IN ('upcoming_installment','missed_payment','payment_receipt','loan_approved')),
+    name TEXT NOT NULL,
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.sms_templates (code, name, body) VALUES
+  ('upcoming_installment', 'Upcoming installment',
+   'Dear {{first_name}}, your installment #{{installment_number}} of KES {{amount}} on loan {{loan_number}} is due on {{due_date}}. {{company_name}}'),
+  ('missed_payment', 'Missed payment',
+   'Dear {{first_name}}, installment #{{installment_number}} of KES {{amount}} on loan {{loan_number}} was due on {{due_date}} and is unpaid. Please pay to avoid penalties. {{company_name}} {{company_phone}}'),
+  ('payment_receipt', 'Payment receipt',
+   'Dear {{first_name}}, we received KES {{amount}} for loan {{loan_number}} on {{payment_date}}, ref {{reference}}. Balance: KES {{balance}}. Thank you. {{company_name}}'),
+  ('loan_approved', 'Loan approved',
+   'Dear {{first_name}}, your loan {{loan_number}} of KES {{amount}} has been approved. We will notify you on disbursement. {{company_name}}')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.sms_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sms_templates_select ON public.sms_templates;
+CREATE POLICY sms_templates_select ON public.sms_templates
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS sms_templates_update ON public.sms_templates;
+CREATE POLICY sms_templates_update ON public.sms_templates
+FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+-- 3. Outbox
+CREATE TABLE IF NOT EXISTS public.sms_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_code TEXT NOT NULL REFERENCES public.sms_templates(code),
+    member_id UUID NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+    loan_id UUID REFERENCES public.loans(id) ON DELETE SET NULL,
+    phone_number TEXT,
+    message TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+      CHECK (status IN ('queued','sending','sent','delivered','failed','skipped')),
+    provider TEXT,
+    provider_message_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    dedupe_key TEXT UNIQUE,
+    communication_log_id UUID REFERENCES public.communication_logs(id) ON DELETE SET NULL,
+    scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_member ON public.sms_outbox(member_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_queued ON public.sms_outbox(scheduled_for) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_provider_message ON public.sms_outbox(provider, provider_message_id);
+
+ALTER TABLE public.sms_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sms_outbox_select ON public.sms_outbox;
+CREATE POLICY sms_outbox_select ON public.sms_outbox
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.members m WHERE m.id = sms_outbox.member_id)
+);
+
+-- 4. Rendering and queueing
+-- Kenyan numbers are stored as 07XX/01XX or 2547XX; providers want +254XXXXXXXXX
+CREATE OR REPLACE FUNCTION public.normalize_sms_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+BEGIN
+  IF v_digits = '' THEN
+    RETURN NULL;
+  END IF;
+  IF length(v_digits) = 10 AND left(v_digits, 1) = '0' THEN
+    v_digits := '254' || substr(v_digits, 2);
+  ELSIF length(v_digits) = 9 AND left(v_digits, 1) IN ('7','1') THEN
+    v_digits := '254' || v_digits;
+  END IF;
+  RETURN '+' || v_digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.render_sms_template(p_body TEXT, p_vars JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_text TEXT := p_body;
+  v_var RECORD;
+BEGIN
+  FOR v_var IN SELECT key, value FROM jsonb_each_text(COALESCE(p_vars, '{}'::jsonb)) LOOP
+    v_text := replace(v_text, '{{' || v_var.key || '}}', COALESCE(v_var.value, ''));
+  END LOOP;
+  -- Unknown placeholders are dropped rather than sent to the member
+  RETURN trim(regexp_replace(regexp_replace(v_text, '\{\{[a-z_]+\}\}', '', 'g'), '\s{2,}', ' ', 'g'));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Returns the outbox row, or NULL when SMS is off, the template is inactive or
+-- the message was already queued under p_dedupe_key
+CREATE OR REPLACE FUNCTION public.queue_member_sms(
+  p_template_code TEXT,
+  p_member_id UUID,
+  p_loan_id UUID,
+  p_vars JSONB,
+  p_dedupe_key TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_settings RECORD;
+  v_template public.sms_templates;
+  v_member public.members;
+  v_phone TEXT;
+  v_status TEXT := 'queued';
+  v_error TEXT;
+  v_outbox_id UUID;
+BEGIN
+  SELECT s.sms_notifications, s.company_name, s.company_phone INTO v_settings
+  FROM public.system_settings s WHERE s.id = 1;
+  IF NOT COALESCE(v_settings.sms_notifications, FALSE) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_template FROM public.sms_templates WHERE code = p_template_code;
+  IF NOT FOUND OR NOT v_template.is_active THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_member FROM public.members WHERE id = p_member_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_phone := public.normalize_sms_phone(v_member.phone_number);
+  IF v_member.sms_opt_out THEN
+    v_status := 'skipped';
+    v_error := 'Member opted out of SMS';
+  ELSIF v_phone IS NULL THEN
+    v_status := 'skipped';
+    v_error := 'Member has no phone number';
+  END IF;
+
+  INSERT INTO public.sms_outbox (template_code, member_id, loan_id, phone_number, message, status, last_error, dedupe_key)
+  VALUES (
+    p_template_code,
+    p_member_id,
+    p_loan_id,
+    v_phone,
+    public.render_sms_template(
+      v_template.body,
+      jsonb_build_object(
+        'member_name', v_member.full_name,
+        'first_name', split_part(trim(v_member.full_name), ' ', 1),
+        'company_name', v_settings.company_name,
+        'company_phone', v_settings.company_phone
+      ) || COALESCE(p_vars, '{}'::jsonb)
+    ),
+    v_status,
+    v_error,
+    p_dedupe_key
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_outbox_id;
+
+  RETURN v_outbox_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.queue_member_sms(TEXT, UUID, UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 5. Payment receipt. Deferred to commit so the balance includes this payment
+-- and any allocation triggers that run after the insert.
+CREATE OR REPLACE FUNCTION public.sms_payment_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_loan public.loans;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = NEW.loan_id;
+  IF NOT FOUND OR COALESCE(v_loan.member_id, v_loan.customer_id) IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.queue_member_sms(
+    'payment_receipt',
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    v_loan.id,
+    jsonb_build_object(
+      'amount', to_char(NEW.amount, 'FM999,999,999,990.00'),
+      'loan_number', COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      'payment_date', to_char(NEW.payment_date, 'DD Mon YYYY'),
+      'reference', NEW.payment_reference,
+      'balance', to_char(public.loan_outstanding_balance(v_loan.id), 'FM999,999,999,990.00')
+    ),
+    'receipt:' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_sms_payment_receipt ON public.loan_payments;
+CREATE CONSTRAINT TRIGGER trg_sms_payment_receipt
+  AFTER INSERT ON public.loan_payments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sms_payment_receipt();
+
+-- 6. Loan approved, once every approval step is signed
+CREATE OR REPLACE FUNCTION public.sms_loan_approved()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.approval_status = 'approved'
+     AND OLD.approval_status IS DISTINCT FROM 'approved'
+     AND COALESCE(NEW.is_deleted, FALSE) = FALSE
+     AND COALESCE(NEW.member_id, NEW.customer_id) IS NOT NULL THEN
+    PERFORM public.queue_member_sms(
+      'loan_approved',
+      COALESCE(NEW.member_id, NEW.customer_id),
+      NEW.id,
+      jsonb_build_object(
+        'amount', to_char(NEW.principal_amount, 'FM999,999,999,990.00'),
+        'loan_number', COALESCE(NEW.application_no, NEW.id::TEXT)
+      ),
+      'loan_approved:' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_sms_loan_approved ON public.loans;
+CREATE TRIGGER trg_sms_loan_approved
+  AFTER UPDATE OF approval_status ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sms_loan_approved();
+
+-- 7. Installment reminders: sms_reminder_days before the due date, and once
+-- after a missed due date (recent arrears only, like the overdue alerts)
+CREATE OR REPLACE FUNCTION public.queue_sms_reminders(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_days INTEGER;
+  v_inst RECORD;
+  v_queued INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can queue SMS reminders';
+  END IF;
+
+  SELECT s.sms_reminder_days INTO v_days FROM public.system_settings s WHERE s.id = 1;
+
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount - COALESCE(i.amount_paid, 0) AS unpaid,
+      l.id AS loan_id,
+      COALESCE(l.application_no, l.id::TEXT) AS loan_number,
+      COALESCE(l.member_id, l.customer_id) AS member_id,
+      CASE WHEN i.due_date < p_as_of THEN 'missed_payment' ELSE 'upcoming_installment' END AS template_code
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.total_amount - COALESCE(i.amount_paid, 0) > 0
+      AND (
+        i.due_date = p_as_of + COALESCE(v_days, 2)
+        OR (i.due_date < p_as_of AND i.due_date >= p_as_of - 7)
+      )
+      AND l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+      AND COALESCE(l.member_id, l.customer_id) IS NOT NULL
+  LOOP
+    IF public.queue_member_sms(
+      v_inst.template_code,
+      v_inst.member_id,
+      v_inst.loan_id,
+      jsonb_build_object(
+        'amount', to_char(v_inst.unpaid, 'FM999,999,999,990.00'),
+        'loan_number', v_inst.loan_number,
+        'installment_number', v_inst.installment_number,
+        'due_date', to_char(v_inst.due_date, 'DD Mon YYYY')
+      ),
+      v_inst.template_code || ':' || v_inst.installment_id
+    ) IS NOT NULL THEN
+      v_queued := v_queued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.queue_sms_reminders(DATE) TO authenticated;
+
+-- 8. Dispatch, called by the sms-dispatch edge function with the service role
+-- Claims due rows so overlapping runs never send the same message twice
+CREATE OR REPLACE FUNCTION public.claim_sms_outbox(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.sms_outbox AS $$
+  UPDATE public.sms_outbox o
+  SET status = 'sending', attempts = o.attempts + 1, updated_at = NOW()
+  WHERE o.id IN (
+    SELECT q.id FROM public.sms_outbox q
+    WHERE q.status = 'queued' AND q.scheduled_for <= NOW()
+    ORDER BY q.scheduled_for
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.claim_sms_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_sms_outbox(INTEGER) TO service_role;
+
+-- A failed send is retried up to three attempts, backing off 15 minutes per attempt
+CREATE OR REPLACE FUNCTION public.complete_sms_send(
+  p_outbox_id UUID,
+  p_success BOOLEAN,
+  p_provider TEXT,
+  p_provider_message_id TEXT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_row public.sms_outbox;
+  v_template_name TEXT;
+  v_log_id UUID;
+BEGIN
+  SELECT * INTO v_row FROM public.sms_outbox WHERE id = p_outbox_id FOR UPDATE;
+  IF NOT FOUND OR v_row.status <> 'sending' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT p_success THEN
+    UPDATE public.sms_outbox
+    SET status = CASE WHEN v_row.attempts >= 3 THEN 'failed' ELSE 'queued' END,
+        scheduled_for = NOW() + (v_row.attempts * INTERVAL '15 minutes'),
+        provider = p_provider,
+        last_error = p_error,
+        updated_at = NOW()
+    WHERE id = p_outbox_id;
+    RETURN CASE WHEN v_row.attempts >= 3 THEN 'failed' ELSE 'queued' END;
+  END IF;
+
+  SELECT t.name INTO v_template_name FROM public.sms_templates t WHERE t.code = v_row.template_code;
+
+  INSERT INTO public.communication_logs (member_id, loan_id, officer_id, communication_type, notes)
+  VALUES (
+    v_row.member_id,
+    v_row.loan_id,
+    NULL,
+    'SMS',
+    'Automated SMS (' || COALESCE(v_template_name, v_row.template_code) || ') to ' || v_row.phone_number || ': ' || v_row.message
+  )
+  RETURNING id INTO v_log_id;
+
+  UPDATE public.sms_outbox
+  SET status = 'sent',
+      provider = p_provider,
+      provider_message_id = p_provider_message_id,
+      last_error = NULL,
+      sent_at = NOW(),
+      communication_log_id = v_log_id,
+      updated_at = NOW()
+  WHERE id = p_outbox_id;
+
+  RETURN 'sent';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.complete_sms_send(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_sms_send(UUID, BOOLEAN, TEXT, TEXT, TEXT) TO service_role;
+
+-- Provider delivery reports; p_status is already mapped to delivered/failed by the adapter
+CREATE OR REPLACE FUNCTION public.record_sms_delivery(
+  p_provider TEXT,
+  p_provider_message_id TEXT,
+  p_status TEXT,
+  p_error TEXT DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_status NOT IN ('delivered','failed') THEN
+    RAISE EXCEPTION 'Invalid delivery status %', p_status;
+  END IF;
+
+  UPDATE public.sms_outbox
+  SET status = p_status,
+      delivered_at = CASE WHEN p_status = 'delivered' THEN NOW() ELSE delivered_at END,
+      last_error = CASE WHEN p_status = 'failed' THEN COALESCE(p_error, 'Delivery failed') ELSE last_error END,
+      updated_at = NOW()
+  WHERE provider = p_provider
+    AND provider_message_id = p_provider_message_id
+    AND status IN ('sent','delivered','failed');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.record_sms_delivery(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sms_delivery(TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- 9. Staff actions
+CREATE OR REPLACE FUNCTION public.retry_sms_message(p_outbox_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_row public.sms_outbox;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can retry SMS messages';
+  END IF;
+
+  SELECT * INTO v_row FROM public.sms_outbox WHERE id = p_outbox_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SMS message % not found', p_outbox_id;
+  END IF;
+  IF v_row.status <> 'failed' THEN
+    RAISE EXCEPTION 'Only failed messages can be retried (this one is %)', v_row.status;
+  END IF;
+
+  UPDATE public.sms_outbox
+  SET status = 'queued', attempts = 0, scheduled_for = NOW(), last_error = NULL, updated_at = NOW()
+  WHERE id = p_outbox_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.retry_sms_message(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_member_sms_opt_out(p_member_id UUID, p_opt_out BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_profile RECORD;
+  v_member public.members;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can change SMS preferences';
+  END IF;
+
+  SELECT * INTO v_member FROM public.members WHERE id = p_member_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member % not found', p_member_id;
+  END IF;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_member.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only change members of their own branch';
+  END IF;
+  IF v_member.sms_opt_out = p_opt_out THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.members
+  SET sms_opt_out = p_opt_out,
+      sms_opt_out_at = CASE WHEN p_opt_out THEN NOW() ELSE NULL END
+  WHERE id = p_member_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    CASE WHEN p_opt_out THEN 'SMS_OPT_OUT' ELSE 'SMS_OPT_IN' END,
+    'members',
+    p_member_id,
+    jsonb_build_object('sms_opt_out', v_member.sms_opt_out),
+    jsonb_build_object('sms_opt_out', p_opt_out),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_member_sms_opt_out(UUID, BOOLEAN) TO authenticated;
+
+-- 10. Schedules: reminders every morning at 06:00 UTC (09:00 EAT), after the
+-- overdue alerts; the outbox is drained every five minutes
+CREATE OR REPLACE FUNCTION public.run_sms_dispatch()
+RETURNS VOID AS $$
+DECLARE
+  functions_url TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sms_outbox o WHERE o.status = 'queued' AND o.scheduled_for <= NOW()
+  ) THEN
+    RETURN;
+  END IF;
+
+  functions_url := current_setting('app.settings.functions_url', true);
+  IF functions_url IS NULL OR functions_url = '' THEN
+    RAISE NOTICE 'SMS dispatch skipped: app.settings.functions_url not set';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := functions_url || '/sms-dispatch',
+    headers := '{"Content-Type":"application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'daily_sms_reminders') THEN
+    PERFORM cron.schedule('daily_sms_reminders', '0 6 * * *', 'SELECT public.queue_sms_reminders();');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'sms_dispatch') THEN
+    PERFORM cron.schedule('sms_dispatch', '*/5 * * * *', 'SELECT public.run_sms_dispatch();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Nothing is queued until SMS notifications are switched on in Settings.
+-- 2) Queue today's reminders now (idempotent per installment): SELECT public.queue_sms_reminders();
+-- 3) Send queued messages now: SELECT public.run_sms_dispatch();
+-- 4) Provider credentials live in edge function secrets, see supabase/functions/_shared/sms.ts.
@@ -0,0 +1,637 @@
+-- Email Notifications and Scheduled Reports
+-- system_settings.email_notifications now sends email from company_email:
+--   * staff receive an email copy of their approval, large-expense and backup
+--     alerts (overdue installments are covered by the daily report instead);
+--   * members with an email address receive payment receipts and loan approvals;
+--   * staff can subscribe to reports: the overdue loans report every morning and
+--     the weekly collections summary on Mondays, as a PDF or CSV attachment.
+-- Everything goes through email_outbox; the email-dispatch edge function renders
+-- report attachments when it sends, so they hold the data as of the send.
+
+-- 1. Templates
+CREATE TABLE IF NOT EXISTS public.email_templates (
+    code TEXT PRIMARY KEY CHECK (code IN ('staff_alert','payment_receipt','loan_approved','scheduled_report')),
+    name TEXT NOT NULL,
+    subject TEXT NOT NULL CHECK (length(trim(subject)) > 0),
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.email_templates (code, name, subject, body) VALUES
+  ('staff_alert', 'Staff alert', '{{title}}',
+   E'Hello {{recipient_name}},\n\n{{message}}\n\nSign in to {{company_name}} to follow up.'),
+  ('payment_receipt', 'Payment receipt', 'Payment received for loan {{loan_number}}',
+   E'Dear {{recipient_name}},\n\nWe received KES {{amount}} for loan {{loan_number}} on {{payment_date}} (reference {{reference}}).\nYour outstanding balance is KES {{balance}}.\n\nThank you,\n{{company_name}}\n{{company_phone}}'),
+  ('loan_approved', 'Loan approved', 'Your loan {{loan_number}} has been approved',
+   E'Dear {{recipient_name}},\n\nYour loan {{loan_number}} of KES {{amount}} has been approved. We will let you know once it is disbursed.\n\nRegards,\n{{company_name}}\n{{company_phone}}'),
+  ('scheduled_report', 'Scheduled report', '{{report_name}} - {{report_date}}',
+   E'Hello {{recipient_name}},\n\nAttached is the {{report_name}} for {{report_period}} ({{branch_name}}).\n\nYou receive this because you subscribed to it in {{company_name}}. Manage your subscriptions under Scheduled Reports.')
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS email_templates_select ON public.email_templates;
+CREATE POLICY email_templates_select ON public.email_templates
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS email_templates_update ON public.email_templates;
+CREATE POLICY email_templates_update ON public.email_templates
+FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+-- 2. Report subscriptions. branch_id NULL means every branch the owner can see.
+CREATE TABLE IF NOT EXISTS public.report_subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    report_type TEXT NOT NULL CHECK (report_type IN ('daily_overdue','weekly_collections')),
+    format TEXT NOT NULL DEFAULT 'pdf' CHECK (format IN ('pdf','csv')),
+    branch_id BIGINT REFERENCES public.branches(id) ON DELETE CASCADE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_queued_for DATE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_report_subscriptions_unique
+  ON public.report_subscriptions(user_id, report_type, format, COALESCE(branch_id, 0));
+
+ALTER TABLE public.report_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS report_subscriptions_select ON public.report_subscriptions;
+CREATE POLICY report_subscriptions_select ON public.report_subscriptions
+FOR SELECT USING (
+  user_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS report_subscriptions_delete ON public.report_subscriptions;
+CREATE POLICY report_subscriptions_delete ON public.report_subscriptions
+FOR DELETE USING (
+  user_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+-- 3. Outbox
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_code TEXT NOT NULL REFERENCES public.email_templates(code),
+    recipient_email TEXT NOT NULL,
+    recipient_name TEXT,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    member_id UUID REFERENCES public.members(id) ON DELETE SET NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    report_subscription_id UUID REFERENCES public.report_subscriptions(id) ON DELETE SET NULL,
+    report_params JSONB,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued','sending','sent','failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    dedupe_key TEXT UNIQUE,
+    scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_queued ON public.email_outbox(scheduled_for) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created ON public.email_outbox(created_at DESC);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS email_outbox_select ON public.email_outbox;
+CREATE POLICY email_outbox_select ON public.email_outbox
+FOR SELECT USING (
+  user_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','auditor'))
+);
+
+-- 4. Rendering and queueing
+-- Same {{placeholder}} syntax as SMS templates, but line breaks are kept
+CREATE OR REPLACE FUNCTION public.render_email_template(p_text TEXT, p_vars JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_text TEXT := p_text;
+  v_var RECORD;
+BEGIN
+  FOR v_var IN SELECT key, value FROM jsonb_each_text(COALESCE(p_vars, '{}'::jsonb)) LOOP
+    v_text := replace(v_text, '{{' || v_var.key || '}}', COALESCE(v_var.value, ''));
+  END LOOP;
+  RETURN trim(regexp_replace(v_text, '\{\{[a-z_]+\}\}', '', 'g'));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Returns the outbox row, or NULL when email is off, the template is inactive,
+-- there is no address or the email was already queued under p_dedupe_key
+CREATE OR REPLACE FUNCTION public.queue_email(
+  p_template_code TEXT,
+  p_recipient_email TEXT,
+  p_recipient_name TEXT,
+  p_user_id UUID,
+  p_member_id UUID,
+  p_vars JSONB,
+  p_dedupe_key TEXT,
+  p_report_subscription_id UUID DEFAULT NULL,
+  p_report_params JSONB DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_settings RECORD;
+  v_template public.email_templates;
+  v_vars JSONB;
+  v_outbox_id UUID;
+BEGIN
+  SELECT s.email_notifications, s.company_name, s.company_phone INTO v_settings
+  FROM public.system_settings s WHERE s.id = 1;
+  IF NOT COALESCE(v_settings.email_notifications, FALSE) OR NULLIF(trim(p_recipient_email), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_template FROM public.email_templates WHERE code = p_template_code;
+  IF NOT FOUND OR NOT v_template.is_active THEN
+    RETURN NULL;
+  END IF;
+
+  v_vars := jsonb_build_object(
+    'recipient_name', COALESCE(p_recipient_name, 'there'),
+    'company_name', v_settings.company_name,
+    'company_phone', v_settings.company_phone
+  ) || COALESCE(p_vars, '{}'::jsonb);
+
+  INSERT INTO public.email_outbox (
+    template_code, recipient_email, recipient_name, user_id, member_id,
+    subject, body, report_subscription_id, report_params, dedupe_key
+  )
+  VALUES (
+    p_template_code,
+    trim(p_recipient_email),
+    p_recipient_name,
+    p_user_id,
+    p_member_id,
+    public.render_email_template(v_template.subject, v_vars),
+    public.render_email_template(v_template.body, v_vars),
+    p_report_subscription_id,
+    p_report_params,
+    p_dedupe_key
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_outbox_id;
+
+  RETURN v_outbox_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.queue_email(TEXT, TEXT, TEXT, UUID, UUID, JSONB, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- 5. Staff alerts: an email copy of selected in-app notifications
+CREATE OR REPLACE FUNCTION public.email_staff_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  IF NEW.category NOT IN ('loan_pending_approval','large_expense','backup_failed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.email, p.full_name INTO v_profile
+  FROM public.profiles p
+  WHERE p.id = NEW.user_id AND COALESCE(p.is_active, TRUE);
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.queue_email(
+    'staff_alert',
+    v_profile.email,
+    v_profile.full_name,
+    NEW.user_id,
+    NULL,
+    jsonb_build_object('title', NEW.title, 'message', NEW.message),
+    'alert:' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_email_staff_alert ON public.notifications;
+CREATE TRIGGER trg_email_staff_alert
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.email_staff_alert();
+
+-- 6. Member notices, alongside the SMS ones. The receipt is deferred to commit
+-- so the balance includes this payment.
+CREATE OR REPLACE FUNCTION public.email_payment_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_loan public.loans;
+  v_member public.members;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = NEW.loan_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+  SELECT * INTO v_member FROM public.members WHERE id = COALESCE(v_loan.member_id, v_loan.customer_id);
+  IF NOT FOUND OR v_member.email IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.queue_email(
+    'payment_receipt',
+    v_member.email,
+    v_member.full_name,
+    NULL,
+    v_member.id,
+    jsonb_build_object(
+      'amount', to_char(NEW.amount, 'FM999,999,999,990.00'),
+      'loan_number', COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      'payment_date', to_char(NEW.payment_date, 'DD Mon YYYY'),
+      'reference', NEW.payment_reference,
+      'balance', to_char(public.loan_outstanding_balance(v_loan.id), 'FM999,999,999,990.00')
+    ),
+    'receipt:' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_email_payment_receipt ON public.loan_payments;
+CREATE CONSTRAINT TRIGGER trg_email_payment_receipt
+  AFTER INSERT ON public.loan_payments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.email_payment_receipt();
+
+CREATE OR REPLACE FUNCTION public.email_loan_approved()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_member public.members;
+BEGIN
+  IF NEW.approval_status IS DISTINCT FROM 'approved'
+     OR OLD.approval_status IS NOT DISTINCT FROM 'approved'
+     OR COALESCE(NEW.is_deleted, FALSE) THEN
+    RETURN NEW;
+  END IF;
+  SELECT * INTO v_member FROM public.members WHERE id = COALESCE(NEW.member_id, NEW.customer_id);
+  IF NOT FOUND OR v_member.email IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.queue_email(
+    'loan_approved',
+    v_member.email,
+    v_member.full_name,
+    NULL,
+    v_member.id,
+    jsonb_build_object(
+      'amount', to_char(NEW.principal_amount, 'FM999,999,999,990.00'),
+      'loan_number', COALESCE(NEW.application_no, NEW.id::TEXT)
+    ),
+    'loan_approved:' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_email_loan_approved ON public.loans;
+CREATE TRIGGER trg_email_loan_approved
+  AFTER UPDATE OF approval_status ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.email_loan_approved();
+
+-- 7. Weekly collections summary: what fell due against what was collected,
+-- per branch and loan officer, for the seven days ending p_week_end
+CREATE OR REPLACE FUNCTION public.weekly_collections_summary(
+  p_week_end DATE DEFAULT CURRENT_DATE - 1,
+  p_branch_id BIGINT DEFAULT NULL
+) RETURNS TABLE (
+  branch_id BIGINT,
+  branch_name TEXT,
+  loan_officer_id UUID,
+  loan_officer_name TEXT,
+  installments_due INTEGER,
+  amount_due DECIMAL,
+  payments_count INTEGER,
+  amount_collected DECIMAL,
+  collection_rate DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+  v_branch_id BIGINT := p_branch_id;
+BEGIN
+  -- The email job runs without a user and passes the subscriber's branch
+  IF auth.uid() IS NOT NULL THEN
+    SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+    IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+      RAISE EXCEPTION 'You do not have access to the collections summary';
+    END IF;
+    IF v_profile.role = 'branch_admin' THEN
+      v_branch_id := v_profile.branch_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH loans_in_scope AS (
+    SELECT l.id, l.branch_id, l.loan_officer_id
+    FROM public.loans l
+    WHERE COALESCE(l.is_deleted, FALSE) = FALSE
+      AND (v_branch_id IS NULL OR l.branch_id = v_branch_id)
+  ),
+  due AS (
+    SELECT s.branch_id, s.loan_officer_id, COUNT(*)::INTEGER AS installments_due, SUM(i.total_amount) AS amount_due
+    FROM public.loan_installments i
+      JOIN loans_in_scope s ON s.id = i.loan_id
+    WHERE i.due_date BETWEEN p_week_end - 6 AND p_week_end
+    GROUP BY s.branch_id, s.loan_officer_id
+  ),
+  collected AS (
+    SELECT s.branch_id, s.loan_officer_id, COUNT(*)::INTEGER AS payments_count, SUM(lp.amount) AS amount_collected
+    FROM public.loan_payments lp
+      JOIN loans_in_scope s ON s.id = lp.loan_id
+    WHERE lp.payment_date BETWEEN p_week_end - 6 AND p_week_end
+    GROUP BY s.branch_id, s.loan_officer_id
+  )
+  SELECT
+    COALESCE(d.branch_id, c.branch_id)::BIGINT,
+    COALESCE(b.name, 'Unassigned'),
+    COALESCE(d.loan_officer_id, c.loan_officer_id),
+    COALESCE(p.full_name, 'Unassigned'),
+    COALESCE(d.installments_due, 0),
+    COALESCE(d.amount_due, 0)::DECIMAL,
+    COALESCE(c.payments_count, 0),
+    COALESCE(c.amount_collected, 0)::DECIMAL,
+    CASE WHEN COALESCE(d.amount_due, 0) > 0
+      THEN ROUND(COALESCE(c.amount_collected, 0) / d.amount_due * 100, 1)
+      ELSE NULL
+    END::DECIMAL
+  FROM due d
+    FULL JOIN collected c ON c.branch_id IS NOT DISTINCT FROM d.branch_id
+      AND c.loan_officer_id IS NOT DISTINCT FROM d.loan_officer_id
+    LEFT JOIN public.branches b ON b.id = COALESCE(d.branch_id, c.branch_id)
+    LEFT JOIN public.profiles p ON p.id = COALESCE(d.loan_officer_id, c.loan_officer_id)
+  ORDER BY 2, 4;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.weekly_collections_summary(DATE, BIGINT) TO authenticated;
+
+-- 8. Subscribing. Branch admins only get their own branch; the overdue report
+-- goes to the roles that can open Loans Overdue.
+CREATE OR REPLACE FUNCTION public.subscribe_to_report(
+  p_report_type TEXT,
+  p_format TEXT DEFAULT 'pdf',
+  p_branch_id BIGINT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_branch_id BIGINT := p_branch_id;
+  v_subscription_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF p_report_type = 'daily_overdue'
+     AND COALESCE(v_profile.role, '') NOT IN ('super_admin','branch_admin','loan_officer','auditor') THEN
+    RAISE EXCEPTION 'Your role cannot receive the overdue loans report';
+  END IF;
+  IF p_report_type = 'weekly_collections'
+     AND COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'Your role cannot receive the collections summary';
+  END IF;
+  IF p_report_type NOT IN ('daily_overdue','weekly_collections') THEN
+    RAISE EXCEPTION 'Unknown report %', p_report_type;
+  END IF;
+  IF p_format NOT IN ('pdf','csv') THEN
+    RAISE EXCEPTION 'Invalid format %', p_format;
+  END IF;
+  IF v_profile.role IN ('branch_admin','loan_officer') THEN
+    v_branch_id := v_profile.branch_id;
+  END IF;
+
+  SELECT r.id INTO v_subscription_id
+  FROM public.report_subscriptions r
+  WHERE r.user_id = auth.uid()
+    AND r.report_type = p_report_type
+    AND r.format = p_format
+    AND r.branch_id IS NOT DISTINCT FROM v_branch_id;
+
+  IF v_subscription_id IS NOT NULL THEN
+    UPDATE public.report_subscriptions SET is_active = TRUE, updated_at = NOW() WHERE id = v_subscription_id;
+    RETURN v_subscription_id;
+  END IF;
+
+  INSERT INTO public.report_subscriptions (user_id, report_type, format, branch_id)
+  VALUES (auth.uid(), p_report_type, p_format, v_branch_id)
+  RETURNING id INTO v_subscription_id;
+
+  RETURN v_subscription_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.subscribe_to_report(TEXT, TEXT, BIGINT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_report_subscription_active(p_subscription_id UUID, p_is_active BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.report_subscriptions r
+  SET is_active = p_is_active, updated_at = NOW()
+  WHERE r.id = p_subscription_id
+    AND (
+      r.user_id = auth.uid()
+      OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+    );
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Subscription % not found', p_subscription_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_report_subscription_active(UUID, BOOLEAN) TO authenticated;
+
+-- 9. Queue the day's report emails. p_subscription_id sends one subscription
+-- now, whatever the day, e.g. to try it out.
+CREATE OR REPLACE FUNCTION public.queue_report_deliveries(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_subscription_id UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_sub RECORD;
+  v_period_start DATE;
+  v_period_end DATE;
+  v_report_name TEXT;
+  v_period TEXT;
+  v_queued INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin')
+        OR (p_subscription_id IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.report_subscriptions r WHERE r.id = p_subscription_id AND r.user_id = auth.uid()
+        ))
+      )
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can queue report deliveries';
+  END IF;
+
+  FOR v_sub IN
+    SELECT r.*, p.email, p.full_name, b.name AS branch_name
+    FROM public.report_subscriptions r
+      JOIN public.profiles p ON p.id = r.user_id
+      LEFT JOIN public.branches b ON b.id = r.branch_id
+    WHERE COALESCE(p.is_active, TRUE)
+      AND (
+        r.id = p_subscription_id
+        OR (
+          p_subscription_id IS NULL
+          AND r.is_active
+          -- the collections summary covers Monday to Sunday and goes out on Mondays
+          AND (r.report_type = 'daily_overdue' OR EXTRACT(ISODOW FROM p_as_of) = 1)
+        )
+      )
+  LOOP
+    IF v_sub.report_type = 'daily_overdue' THEN
+      v_period_start := p_as_of;
+      v_period_end := p_as_of;
+      v_report_name := 'Overdue Loans Report';
+      v_period := to_char(p_as_of, 'DD Mon YYYY');
+    ELSE
+      v_period_end := p_as_of - 1;
+      v_period_start := v_period_end - 6;
+      v_report_name := 'Weekly Collections Summary';
+      v_period := to_char(v_period_start, 'DD Mon') || ' - ' || to_char(v_period_end, 'DD Mon YYYY');
+    END IF;
+
+    IF public.queue_email(
+      'scheduled_report',
+      v_sub.email,
+      v_sub.full_name,
+      v_sub.user_id,
+      NULL,
+      jsonb_build_object(
+        'report_name', v_report_name,
+        'report_date', to_char(p_as_of, 'DD Mon YYYY'),
+        'report_period', v_period,
+        'branch_name', COALESCE(v_sub.branch_name, 'all branches')
+      ),
+      'report:' || v_sub.id || ':' || p_as_of
+        || CASE WHEN p_subscription_id IS NOT NULL THEN ':' || extract(epoch FROM clock_timestamp())::BIGINT ELSE '' END,
+      v_sub.id,
+      jsonb_build_object(
+        'report_type', v_sub.report_type,
+        'format', v_sub.format,
+        'branch_id', v_sub.branch_id,
+        'period_start', v_period_start,
+        'period_end', v_period_end
+      )
+    ) IS NOT NULL THEN
+      v_queued := v_queued + 1;
+      UPDATE public.report_subscriptions SET last_queued_for = p_as_of WHERE id = v_sub.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.queue_report_deliveries(DATE, UUID) TO authenticated;
+
+-- 10. Dispatch, called by the email-dispatch edge function with the service role
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox AS $$
+  UPDATE public.email_outbox o
+  SET status = 'sending', attempts = o.attempts + 1, updated_at = NOW()
+  WHERE o.id IN (
+    SELECT q.id FROM public.email_outbox q
+    WHERE q.status = 'queued' AND q.scheduled_for <= NOW()
+    ORDER BY q.scheduled_for
+    LIMIT GREATEST(p_limit, 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) TO service_role;
+
+-- A failed send is retried up to three attempts, backing off 15 minutes per attempt
+CREATE OR REPLACE FUNCTION public.complete_email_send(
+  p_outbox_id UUID,
+  p_success BOOLEAN,
+  p_error TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_row public.email_outbox;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_row FROM public.email_outbox WHERE id = p_outbox_id FOR UPDATE;
+  IF NOT FOUND OR v_row.status <> 'sending' THEN
+    RETURN NULL;
+  END IF;
+
+  v_status := CASE
+    WHEN p_success THEN 'sent'
+    WHEN v_row.attempts >= 3 THEN 'failed'
+    ELSE 'queued'
+  END;
+
+  UPDATE public.email_outbox
+  SET status = v_status,
+      sent_at = CASE WHEN p_success THEN NOW() ELSE sent_at END,
+      scheduled_for = CASE WHEN v_status = 'queued' THEN NOW() + (v_row.attempts * INTERVAL '15 minutes') ELSE scheduled_for END,
+      last_error = CASE WHEN p_success THEN NULL ELSE p_error END,
+      updated_at = NOW()
+  WHERE id = p_outbox_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.complete_email_send(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_email_send(UUID, BOOLEAN, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.run_email_dispatch()
+RETURNS VOID AS $$
+DECLARE
+  functions_url TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.email_outbox o WHERE o.status = 'queued' AND o.scheduled_for <= NOW()
+  ) THEN
+    RETURN;
+  END IF;
+
+  functions_url := current_setting('app.settings.functions_url', true);
+  IF functions_url IS NULL OR functions_url = '' THEN
+    RAISE NOTICE 'Email dispatch skipped: app.settings.functions_url not set';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := functions_url || '/email-dispatch',
+    headers := '{"Content-Type":"application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 11. Schedules: report emails are queued at 04:00 UTC (07:00 EAT) so they are
+-- waiting in the morning; the outbox is drained every five minutes
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'daily_report_emails') THEN
+    PERFORM cron.schedule('daily_report_emails', '0 4 * * *', 'SELECT public.queue_report_deliveries();');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'email_dispatch') THEN
+    PERFORM cron.schedule('email_dispatch', '*/5 * * * *', 'SELECT public.run_email_dispatch();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Nothing is queued until Email Notifications are switched on and a company email is set in Settings.
+-- 2) Queue today's report emails now (idempotent per subscription and day): SELECT public.queue_report_deliveries();
+-- 3) Send queued emails now: SELECT public.run_email_dispatch();
+-- 4) SMTP settings live in edge function secrets, see supabase/functions/_shared/email.ts.
@@ -0,0 +1,219 @@
+-- Portfolio at Risk
+-- Portfolio quality for open loans (active, disbursed, defaulted):
+--   * outstanding principal comes from the live schedule; what was paid on an
+--     installment is split pro rata between its principal and interest;
+--   * days in arrears count from the oldest installment that is due and unpaid;
+--   * PAR1/PAR30/PAR60/PAR90 is the outstanding principal of loans more than
+--     0/30/60/90 days in arrears, as a share of all outstanding principal;
+--   * aging buckets: current, 1-30, 31-60, 61-90, 91-180 and over 180 days.
+-- Arrears cannot be rebuilt for a past date once later payments are posted, so
+-- the trend comes from a nightly snapshot per branch and loan officer.
+
+-- 1. Position of every open loan
+CREATE OR REPLACE FUNCTION public.loan_arrears_positions(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  loan_id UUID,
+  account_number TEXT,
+  member_id UUID,
+  member_name TEXT,
+  branch_id BIGINT,
+  branch_name TEXT,
+  loan_officer_id UUID,
+  loan_officer_name TEXT,
+  group_id BIGINT,
+  group_name TEXT,
+  product_code TEXT,
+  product_name TEXT,
+  outstanding_principal DECIMAL,
+  arrears_amount DECIMAL,
+  days_in_arrears INTEGER,
+  aging_bucket TEXT
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  -- The snapshot job runs without a user; people only see their own portfolio.
+  -- Looked up unconditionally so v_profile is assigned (all NULL) for the job too.
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF auth.uid() IS NOT NULL THEN
+    IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer','auditor') THEN
+      RAISE EXCEPTION 'You do not have access to portfolio reports';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH schedule AS (
+    SELECT
+      i.loan_id,
+      SUM(
+        CASE WHEN COALESCE(i.is_paid, FALSE) THEN 0
+        ELSE i.principal_amount * (1 - LEAST(COALESCE(i.amount_paid, 0) / NULLIF(i.total_amount, 0), 1))
+        END
+      ) AS outstanding_principal,
+      SUM(
+        CASE WHEN i.due_date < p_as_of AND NOT COALESCE(i.is_paid, FALSE)
+          THEN GREATEST(i.total_amount - COALESCE(i.amount_paid, 0), 0)
+          ELSE 0
+        END
+      ) AS arrears_amount,
+      MIN(i.due_date) FILTER (
+        WHERE i.due_date < p_as_of
+          AND NOT COALESCE(i.is_paid, FALSE)
+          AND i.total_amount - COALESCE(i.amount_paid, 0) > 0
+      ) AS oldest_unpaid_due
+    FROM public.loan_installments i
+    WHERE i.replaced_by_restructure_id IS NULL
+    GROUP BY i.loan_id
+  ),
+  positions AS (
+    SELECT
+      l.id AS loan_id,
+      COALESCE(l.application_no, l.id::TEXT) AS account_number,
+      m.id AS member_id,
+      m.full_name AS member_name,
+      l.branch_id::BIGINT AS branch_id,
+      b.name AS branch_name,
+      l.loan_officer_id,
+      o.full_name AS loan_officer_name,
+      l.group_id::BIGINT AS group_id,
+      g.name AS group_name,
+      l.loan_program AS product_code,
+      lp.name AS product_name,
+      ROUND(COALESCE(s.outstanding_principal, GREATEST(l.principal_amount - COALESCE(l.total_paid, 0), 0)), 2) AS outstanding_principal,
+      ROUND(COALESCE(s.arrears_amount, 0), 2) AS arrears_amount,
+      COALESCE(p_as_of - s.oldest_unpaid_due, 0) AS days_in_arrears
+    FROM public.loans l
+      LEFT JOIN schedule s ON s.loan_id = l.id
+      LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+      LEFT JOIN public.branches b ON b.id = l.branch_id
+      LEFT JOIN public.profiles o ON o.id = l.loan_officer_id
+      LEFT JOIN public.groups g ON g.id = l.group_id
+      LEFT JOIN public.loan_products lp ON lp.code = l.loan_program
+    WHERE l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+      AND (
+        auth.uid() IS NULL
+        OR v_profile.role IN ('super_admin','admin','auditor')
+        OR (v_profile.role = 'branch_admin' AND l.branch_id = v_profile.branch_id)
+        OR (v_profile.role = 'loan_officer' AND l.loan_officer_id = auth.uid())
+      )
+  )
+  SELECT
+    ps.loan_id, ps.account_number, ps.member_id, ps.member_name,
+    ps.branch_id, ps.branch_name, ps.loan_officer_id, ps.loan_officer_name,
+    ps.group_id, ps.group_name, ps.product_code, ps.product_name,
+    ps.outstanding_principal, ps.arrears_amount, ps.days_in_arrears,
+    CASE
+      WHEN ps.days_in_arrears <= 0 THEN 'current'
+      WHEN ps.days_in_arrears <= 30 THEN '1_30'
+      WHEN ps.days_in_arrears <= 60 THEN '31_60'
+      WHEN ps.days_in_arrears <= 90 THEN '61_90'
+      WHEN ps.days_in_arrears <= 180 THEN '91_180'
+      ELSE 'over_180'
+    END
+  FROM positions ps
+  WHERE ps.outstanding_principal > 0
+  ORDER BY ps.days_in_arrears DESC, ps.outstanding_principal DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.loan_arrears_positions(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loan_arrears_positions(DATE) TO authenticated;
+
+-- 2. Nightly snapshots, one row per branch and loan officer
+CREATE TABLE IF NOT EXISTS public.par_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    snapshot_date DATE NOT NULL,
+    branch_id BIGINT REFERENCES public.branches(id) ON DELETE CASCADE,
+    loan_officer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    loans_count INTEGER NOT NULL DEFAULT 0,
+    outstanding_principal DECIMAL(15,2) NOT NULL DEFAULT 0,
+    par1_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    par30_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    par60_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    par90_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bucket_current DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bucket_1_30 DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bucket_31_60 DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bucket_61_90 DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bucket_91_180 DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bucket_over_180 DECIMAL(15,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_par_snapshots_date ON public.par_snapshots(snapshot_date);
+
+ALTER TABLE public.par_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS par_snapshots_select ON public.par_snapshots;
+CREATE POLICY par_snapshots_select ON public.par_snapshots
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','auditor')
+        OR (p.role = 'branch_admin' AND p.branch_id = par_snapshots.branch_id)
+        OR (p.role = 'loan_officer' AND par_snapshots.loan_officer_id = p.id)
+      )
+  )
+);
+
+-- Re-running for the same date replaces that day's snapshot
+CREATE OR REPLACE FUNCTION public.capture_par_snapshot(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can capture PAR snapshots';
+  END IF;
+
+  DELETE FROM public.par_snapshots WHERE snapshot_date = p_as_of;
+
+  -- Only the cron job and administrators get here, and both see every branch
+  INSERT INTO public.par_snapshots (
+    snapshot_date, branch_id, loan_officer_id, loans_count, outstanding_principal,
+    par1_amount, par30_amount, par60_amount, par90_amount,
+    bucket_current, bucket_1_30, bucket_31_60, bucket_61_90, bucket_91_180, bucket_over_180
+  )
+  SELECT
+    p_as_of,
+    ap.branch_id,
+    ap.loan_officer_id,
+    COUNT(*),
+    SUM(ap.outstanding_principal),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 0), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 30), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 60), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 90), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = 'current'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '1_30'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '31_60'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '61_90'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '91_180'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = 'over_180'), 0)
+  FROM public.loan_arrears_positions(p_as_of) ap
+  GROUP BY ap.branch_id, ap.loan_officer_id;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.capture_par_snapshot(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.capture_par_snapshot(DATE) TO authenticated;
+
+-- 3. Snapshot at 21:00 UTC, midnight in Nairobi, so each row closes the day
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'nightly_par_snapshot') THEN
+    PERFORM cron.schedule('nightly_par_snapshot', '0 21 * * *', 'SELECT public.capture_par_snapshot();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Take today's snapshot now (replaces any earlier one for today): SELECT public.capture_par_snapshot();
+-- 2) Verify schedule: SELECT * FROM cron.job WHERE jobname = 'nightly_par_snapshot';
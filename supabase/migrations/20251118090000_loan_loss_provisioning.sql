@@ -0,0 +1,634 @@
+-- Loan Loss Provisioning
+-- Every open loan is classified by days in arrears (as loan_arrears_positions
+-- counts them) and carries a provision on its outstanding principal:
+--   * loan_classification_rules holds the five regulatory classes (normal,
+--     watch, substandard, doubtful, loss) with the day a class starts from and
+--     its provision rate; admins can change both;
+--   * a monthly provisioning run classifies the portfolio as at month end and
+--     keeps the required provision per loan and per branch, next to the previous
+--     month's figure. Runs stay in draft, and can be re-run, until posted;
+--   * posting brings each branch's provision (the loan loss allowance) to the
+--     required level: a charge to provision expense when it falls short, a
+--     release when it is too high. provision_entries is that allowance ledger;
+--   * write_off_loan uses up the allowance of the loan's branch. Any shortfall is
+--     charged first, so the allowance never goes negative.
+
+-- 1. Classification rules
+CREATE TABLE IF NOT EXISTS public.loan_classification_rules (
+    classification TEXT PRIMARY KEY CHECK (classification IN ('normal','watch','substandard','doubtful','loss')),
+    min_days INTEGER NOT NULL CHECK (min_days >= 0),
+    provision_rate DECIMAL(5,2) NOT NULL CHECK (provision_rate BETWEEN 0 AND 100),
+    sort_order INTEGER NOT NULL,
+    updated_by UUID REFERENCES public.profiles(id),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT loan_classification_rules_min_days_key UNIQUE (min_days),
+    CONSTRAINT loan_classification_rules_normal_check CHECK (classification <> 'normal' OR min_days = 0)
+);
+
+-- Prudential guideline defaults; a class runs up to the day the next one starts
+INSERT INTO public.loan_classification_rules (classification, min_days, provision_rate, sort_order) VALUES
+  ('normal', 0, 1, 1),
+  ('watch', 1, 3, 2),
+  ('substandard', 31, 20, 3),
+  ('doubtful', 91, 50, 4),
+  ('loss', 181, 100, 5)
+ON CONFLICT (classification) DO NOTHING;
+
+-- Classes must keep their order, so a loan only ever moves down as arrears grow
+CREATE OR REPLACE FUNCTION public.check_loan_classification_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT r.min_days, LAG(r.min_days) OVER (ORDER BY r.sort_order) AS previous_min_days
+      FROM public.loan_classification_rules r
+    ) ordered
+    WHERE ordered.min_days <= ordered.previous_min_days
+  ) THEN
+    RAISE EXCEPTION 'Each classification must start after the one before it';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_loan_classification_rules ON public.loan_classification_rules;
+CREATE CONSTRAINT TRIGGER trigger_check_loan_classification_rules
+  AFTER UPDATE ON public.loan_classification_rules
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_loan_classification_rules();
+
+CREATE OR REPLACE FUNCTION public.update_loan_classification_rules_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  NEW.updated_by = COALESCE(auth.uid(), NEW.updated_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_loan_classification_rules_timestamp ON public.loan_classification_rules;
+CREATE TRIGGER trigger_update_loan_classification_rules_timestamp
+  BEFORE UPDATE ON public.loan_classification_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_loan_classification_rules_timestamp();
+
+CREATE OR REPLACE FUNCTION public.classify_days_in_arrears(p_days INTEGER)
+RETURNS public.loan_classification_rules AS $$
+  SELECT r.*
+  FROM public.loan_classification_rules r
+  WHERE r.min_days <= GREATEST(COALESCE(p_days, 0), 0)
+  ORDER BY r.min_days DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- 2. Runs, their branch totals and their loans
+CREATE TABLE IF NOT EXISTS public.provisioning_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    period_end DATE NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft','posted')),
+    loans_count INTEGER NOT NULL DEFAULT 0,
+    outstanding_principal DECIMAL(15,2) NOT NULL DEFAULT 0,
+    required_provision DECIMAL(15,2) NOT NULL DEFAULT 0,
+    previous_required DECIMAL(15,2) NOT NULL DEFAULT 0,
+    -- Rates in force when the run was made, e.g. {"normal": 1, "watch": 3, ...}
+    rules_snapshot JSONB NOT NULL DEFAULT '{}'::JSONB,
+    run_by UUID REFERENCES public.profiles(id),
+    run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    posted_by UUID REFERENCES public.profiles(id),
+    posted_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS public.provisioning_run_branches (
+    run_id UUID NOT NULL REFERENCES public.provisioning_runs(id) ON DELETE CASCADE,
+    branch_id BIGINT NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+    loans_count INTEGER NOT NULL DEFAULT 0,
+    outstanding_principal DECIMAL(15,2) NOT NULL DEFAULT 0,
+    required_provision DECIMAL(15,2) NOT NULL DEFAULT 0,
+    previous_required DECIMAL(15,2) NOT NULL DEFAULT 0,
+    -- Filled in on posting
+    allowance_before DECIMAL(15,2),
+    adjustment DECIMAL(15,2),
+    PRIMARY KEY (run_id, branch_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.loan_provisions (
+    run_id UUID NOT NULL REFERENCES public.provisioning_runs(id) ON DELETE CASCADE,
+    loan_id UUID NOT NULL REFERENCES public.loans(id) ON DELETE CASCADE,
+    branch_id BIGINT REFERENCES public.branches(id) ON DELETE SET NULL,
+    classification TEXT NOT NULL,
+    days_in_arrears INTEGER NOT NULL DEFAULT 0,
+    outstanding_principal DECIMAL(15,2) NOT NULL,
+    provision_rate DECIMAL(5,2) NOT NULL,
+    required_provision DECIMAL(15,2) NOT NULL,
+    PRIMARY KEY (run_id, loan_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_provisions_loan_id ON public.loan_provisions(loan_id);
+
+-- 3. Allowance ledger
+CREATE TABLE IF NOT EXISTS public.provision_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_date DATE NOT NULL,
+    branch_id BIGINT NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+    -- charge: provision expense, release: expense reversed, write_off: allowance used
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('charge','release','write_off')),
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    run_id UUID REFERENCES public.provisioning_runs(id) ON DELETE SET NULL,
+    loan_id UUID REFERENCES public.loans(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provision_entries_branch ON public.provision_entries(branch_id, entry_date);
+
+CREATE OR REPLACE FUNCTION public.branch_provision_balance(p_branch_id BIGINT)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(CASE WHEN e.entry_type = 'charge' THEN e.amount ELSE -e.amount END), 0)
+  FROM public.provision_entries e
+  WHERE e.branch_id = p_branch_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.branch_provision_balance(BIGINT) TO authenticated;
+
+-- 4. Write-off columns
+ALTER TYPE public.loan_status ADD VALUE IF NOT EXISTS 'written_off';
+
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS written_off_date DATE;
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS written_off_amount DECIMAL(15,2);
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS written_off_by UUID REFERENCES public.profiles(id);
+ALTER TABLE public.loans ADD COLUMN IF NOT EXISTS write_off_reason TEXT;
+
+-- 5. RLS: rules are readable by staff and maintained by admins; runs and the
+-- ledger are written only through the functions below
+ALTER TABLE public.loan_classification_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.provisioning_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.provisioning_run_branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_provisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.provision_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS loan_classification_rules_select ON public.loan_classification_rules;
+CREATE POLICY loan_classification_rules_select ON public.loan_classification_rules
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS loan_classification_rules_admin_update ON public.loan_classification_rules;
+CREATE POLICY loan_classification_rules_admin_update ON public.loan_classification_rules
+FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS provisioning_runs_select ON public.provisioning_runs;
+CREATE POLICY provisioning_runs_select ON public.provisioning_runs
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','auditor')
+  )
+);
+
+DROP POLICY IF EXISTS provisioning_run_branches_select ON public.provisioning_run_branches;
+CREATE POLICY provisioning_run_branches_select ON public.provisioning_run_branches
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','auditor')
+        OR (p.role = 'branch_admin' AND p.branch_id = provisioning_run_branches.branch_id)
+      )
+  )
+);
+
+DROP POLICY IF EXISTS loan_provisions_select ON public.loan_provisions;
+CREATE POLICY loan_provisions_select ON public.loan_provisions
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','auditor')
+        OR (p.role = 'branch_admin' AND p.branch_id = loan_provisions.branch_id)
+      )
+  )
+);
+
+DROP POLICY IF EXISTS provision_entries_select ON public.provision_entries;
+CREATE POLICY provision_entries_select ON public.provision_entries
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','auditor')
+        OR (p.role = 'branch_admin' AND p.branch_id = provision_entries.branch_id)
+      )
+  )
+);
+
+-- 6. Monthly run: classify the portfolio at p_period_end (a draft run is replaced)
+CREATE OR REPLACE FUNCTION public.run_loan_loss_provisioning(
+  p_period_end DATE DEFAULT (date_trunc('month', CURRENT_DATE) - INTERVAL '1 day')::DATE
+) RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_previous_run_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can run loan loss provisioning';
+  END IF;
+
+  IF p_period_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Provisioning cannot be run for a future date';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.provisioning_runs r WHERE r.period_end >= p_period_end AND r.status = 'posted') THEN
+    RAISE EXCEPTION 'Provisioning for % or a later period has already been posted', p_period_end;
+  END IF;
+
+  DELETE FROM public.provisioning_runs WHERE period_end = p_period_end AND status = 'draft';
+
+  SELECT r.id INTO v_previous_run_id
+  FROM public.provisioning_runs r
+  WHERE r.period_end < p_period_end
+  ORDER BY r.period_end DESC
+  LIMIT 1;
+
+  INSERT INTO public.provisioning_runs (period_end, run_by, rules_snapshot)
+  VALUES (
+    p_period_end,
+    auth.uid(),
+    (SELECT jsonb_object_agg(r.classification, jsonb_build_object('min_days', r.min_days, 'provision_rate', r.provision_rate))
+     FROM public.loan_classification_rules r)
+  )
+  RETURNING id INTO v_run_id;
+
+  -- Positions are only scoped for branch roles, so the cron job and admins get the whole portfolio
+  INSERT INTO public.loan_provisions (
+    run_id, loan_id, branch_id, classification, days_in_arrears,
+    outstanding_principal, provision_rate, required_provision
+  )
+  SELECT
+    v_run_id,
+    ap.loan_id,
+    ap.branch_id,
+    c.classification,
+    ap.days_in_arrears,
+    ap.outstanding_principal,
+    c.provision_rate,
+    ROUND(ap.outstanding_principal * c.provision_rate / 100, 2)
+  FROM public.loan_arrears_positions(p_period_end) ap
+    CROSS JOIN LATERAL public.classify_days_in_arrears(ap.days_in_arrears) c
+  WHERE ap.branch_id IS NOT NULL;
+
+  INSERT INTO public.provisioning_run_branches (run_id, branch_id, loans_count, outstanding_principal, required_provision, previous_required)
+  SELECT
+    v_run_id,
+    b.branch_id,
+    COALESCE(cur.loans_count, 0),
+    COALESCE(cur.outstanding_principal, 0),
+    COALESCE(cur.required_provision, 0),
+    COALESCE(prev.required_provision, 0)
+  FROM (
+    SELECT lp.branch_id FROM public.loan_provisions lp WHERE lp.run_id = v_run_id
+    UNION
+    SELECT rb.branch_id FROM public.provisioning_run_branches rb WHERE rb.run_id = v_previous_run_id
+  ) b
+    LEFT JOIN (
+      SELECT lp.branch_id, COUNT(*) AS loans_count, SUM(lp.outstanding_principal) AS outstanding_principal,
+             SUM(lp.required_provision) AS required_provision
+      FROM public.loan_provisions lp
+      WHERE lp.run_id = v_run_id
+      GROUP BY lp.branch_id
+    ) cur ON cur.branch_id = b.branch_id
+    LEFT JOIN public.provisioning_run_branches prev ON prev.run_id = v_previous_run_id AND prev.branch_id = b.branch_id;
+
+  UPDATE public.provisioning_runs r
+  SET loans_count = t.loans_count,
+      outstanding_principal = t.outstanding_principal,
+      required_provision = t.required_provision,
+      previous_required = t.previous_required
+  FROM (
+    SELECT COALESCE(SUM(rb.loans_count), 0) AS loans_count,
+           COALESCE(SUM(rb.outstanding_principal), 0) AS outstanding_principal,
+           COALESCE(SUM(rb.required_provision), 0) AS required_provision,
+           COALESCE(SUM(rb.previous_required), 0) AS previous_required
+    FROM public.provisioning_run_branches rb
+    WHERE rb.run_id = v_run_id
+  ) t
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.run_loan_loss_provisioning(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.run_loan_loss_provisioning(DATE) TO authenticated;
+
+-- 7. Post a run: bring each branch's allowance to the required provision
+CREATE OR REPLACE FUNCTION public.post_provisioning_run(p_run_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_run public.provisioning_runs%ROWTYPE;
+  v_branch RECORD;
+  v_balance DECIMAL(15,2);
+  v_adjustment DECIMAL(15,2);
+  v_net DECIMAL(15,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post loan loss provisions';
+  END IF;
+
+  SELECT * INTO v_run FROM public.provisioning_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Provisioning run not found';
+  END IF;
+  IF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'This provisioning run has already been posted';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.provisioning_runs r WHERE r.period_end > v_run.period_end AND r.status = 'posted') THEN
+    RAISE EXCEPTION 'A later period has already been posted';
+  END IF;
+
+  FOR v_branch IN
+    SELECT rb.branch_id, rb.required_provision
+    FROM public.provisioning_run_branches rb
+    WHERE rb.run_id = p_run_id
+    ORDER BY rb.branch_id
+  LOOP
+    v_balance := public.branch_provision_balance(v_branch.branch_id);
+    v_adjustment := v_branch.required_provision - v_balance;
+
+    IF v_adjustment <> 0 THEN
+      INSERT INTO public.provision_entries (entry_date, branch_id, entry_type, amount, run_id, description, created_by)
+      VALUES (
+        v_run.period_end,
+        v_branch.branch_id,
+        CASE WHEN v_adjustment > 0 THEN 'charge' ELSE 'release' END,
+        ABS(v_adjustment),
+        p_run_id,
+        CASE WHEN v_adjustment > 0 THEN 'Loan loss provision for ' ELSE 'Provision released for ' END
+          || to_char(v_run.period_end, 'Mon YYYY'),
+        auth.uid()
+      );
+    END IF;
+
+    UPDATE public.provisioning_run_branches
+    SET allowance_before = v_balance,
+        adjustment = v_adjustment
+    WHERE run_id = p_run_id AND branch_id = v_branch.branch_id;
+
+    v_net := v_net + v_adjustment;
+  END LOOP;
+
+  UPDATE public.provisioning_runs
+  SET status = 'posted',
+      posted_by = auth.uid(),
+      posted_at = NOW()
+  WHERE id = p_run_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'PROVISIONING_POSTED',
+    'provisioning_runs',
+    p_run_id,
+    jsonb_build_object('status', 'draft'),
+    jsonb_build_object(
+      'status', 'posted',
+      'period_end', v_run.period_end,
+      'required_provision', v_run.required_provision,
+      'net_adjustment', v_net
+    ),
+    auth.uid()
+  );
+
+  RETURN v_net;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.post_provisioning_run(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_provisioning_run(UUID) TO authenticated;
+
+-- 8. Loan detail of a run, with names for the report
+CREATE OR REPLACE FUNCTION public.get_loan_provisions(p_run_id UUID)
+RETURNS TABLE (
+  loan_id UUID,
+  account_number TEXT,
+  member_name TEXT,
+  branch_name TEXT,
+  classification TEXT,
+  days_in_arrears INTEGER,
+  outstanding_principal DECIMAL,
+  provision_rate DECIMAL,
+  required_provision DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to provisioning reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lp.loan_id,
+    COALESCE(l.application_no, l.id::TEXT),
+    m.full_name,
+    b.name,
+    lp.classification,
+    lp.days_in_arrears,
+    lp.outstanding_principal,
+    lp.provision_rate,
+    lp.required_provision
+  FROM public.loan_provisions lp
+    JOIN public.loans l ON l.id = lp.loan_id
+    LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+    LEFT JOIN public.branches b ON b.id = lp.branch_id
+  WHERE lp.run_id = p_run_id
+    AND (
+      v_profile.role IN ('super_admin','admin','auditor')
+      OR lp.branch_id = v_profile.branch_id
+    )
+  ORDER BY lp.days_in_arrears DESC, lp.required_provision DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_loan_provisions(UUID) TO authenticated;
+
+-- 9. Write a loan off against its branch's allowance
+CREATE OR REPLACE FUNCTION public.write_off_loan(
+  loan_uuid UUID,
+  requesting_user_uuid UUID,
+  write_off_reason TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_loan public.loans%ROWTYPE;
+  v_principal DECIMAL(15,2);
+  v_balance DECIMAL(15,2);
+  v_allowance DECIMAL(15,2);
+BEGIN
+  IF requesting_user_uuid IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Write-offs must be made by the signed-in user';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can write off loans';
+  END IF;
+
+  IF NULLIF(TRIM(write_off_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason for the write-off is required';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = loan_uuid FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+  IF v_loan.status::TEXT <> 'defaulted' THEN
+    RAISE EXCEPTION 'Only defaulted loans can be written off (this loan is %)', v_loan.status;
+  END IF;
+  IF v_loan.branch_id IS NULL THEN
+    RAISE EXCEPTION 'The loan has no branch to charge the write-off to';
+  END IF;
+
+  SELECT ap.outstanding_principal INTO v_principal
+  FROM public.loan_arrears_positions() ap
+  WHERE ap.loan_id = loan_uuid;
+  v_principal := COALESCE(v_principal, 0);
+  v_balance := public.loan_outstanding_balance(loan_uuid);
+
+  IF v_principal > 0 THEN
+    v_allowance := public.branch_provision_balance(v_loan.branch_id);
+
+    -- Not enough provided for: charge the difference to provision expense now
+    IF v_allowance < v_principal THEN
+      INSERT INTO public.provision_entries (entry_date, branch_id, entry_type, amount, loan_id, description, created_by)
+      VALUES (
+        CURRENT_DATE,
+        v_loan.branch_id,
+        'charge',
+        v_principal - GREATEST(v_allowance, 0),
+        loan_uuid,
+        'Unprovided write-off of ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+        auth.uid()
+      );
+    END IF;
+
+    INSERT INTO public.provision_entries (entry_date, branch_id, entry_type, amount, loan_id, description, created_by)
+    VALUES (
+      CURRENT_DATE,
+      v_loan.branch_id,
+      'write_off',
+      v_principal,
+      loan_uuid,
+      'Write-off of ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      auth.uid()
+    );
+  END IF;
+
+  UPDATE public.loans
+  SET status = 'written_off',
+      written_off_date = CURRENT_DATE,
+      written_off_amount = v_balance,
+      written_off_by = auth.uid(),
+      write_off_reason = TRIM(write_off_loan.write_off_notes),
+      updated_at = NOW()
+  WHERE id = loan_uuid;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_WRITTEN_OFF',
+    'loans',
+    loan_uuid,
+    jsonb_build_object('status', v_loan.status, 'balance', v_balance),
+    jsonb_build_object(
+      'status', 'written_off',
+      'written_off_amount', v_balance,
+      'principal_from_provision', v_principal,
+      'notes', write_off_notes
+    ),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.write_off_loan(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.write_off_loan(UUID, UUID, TEXT) TO authenticated;
+
+-- 10. Written-off loans with what the allowance covered
+CREATE OR REPLACE FUNCTION public.get_written_off_loans()
+RETURNS TABLE (
+  loan_id UUID,
+  account_number TEXT,
+  member_name TEXT,
+  branch_name TEXT,
+  loan_officer_name TEXT,
+  principal_amount DECIMAL,
+  written_off_amount DECIMAL,
+  from_provision DECIMAL,
+  unprovided DECIMAL,
+  written_off_date DATE,
+  written_off_by_name TEXT,
+  write_off_reason TEXT
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to write-off records';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    COALESCE(l.application_no, l.id::TEXT),
+    m.full_name,
+    b.name,
+    o.full_name,
+    l.principal_amount,
+    COALESCE(l.written_off_amount, 0),
+    COALESCE((SELECT SUM(e.amount) FROM public.provision_entries e WHERE e.loan_id = l.id AND e.entry_type = 'write_off'), 0),
+    COALESCE((SELECT SUM(e.amount) FROM public.provision_entries e WHERE e.loan_id = l.id AND e.entry_type = 'charge'), 0),
+    l.written_off_date,
+    w.full_name,
+    l.write_off_reason
+  FROM public.loans l
+    LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+    LEFT JOIN public.branches b ON b.id = l.branch_id
+    LEFT JOIN public.profiles o ON o.id = l.loan_officer_id
+    LEFT JOIN public.profiles w ON w.id = l.written_off_by
+  WHERE l.status::TEXT = 'written_off'
+    AND COALESCE(l.is_deleted, FALSE) = FALSE
+    AND (
+      v_profile.role IN ('super_admin','admin','auditor')
+      OR l.branch_id = v_profile.branch_id
+    )
+  ORDER BY l.written_off_date DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_written_off_loans() TO authenticated;
+
+-- 11. Draft the previous month's run at 01:00 UTC on the 1st; an admin reviews and posts it
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'monthly_loan_loss_provisioning') THEN
+    PERFORM cron.schedule('monthly_loan_loss_provisioning', '0 1 1 * *', 'SELECT public.run_loan_loss_provisioning();');
+  END IF;
+END $$;
+
+-- Hints:
+-- 1) Draft last month's run now: SELECT public.run_loan_loss_provisioning();
+-- 2) Post it after review: SELECT public.post_provisioning_run('<run id>');
+-- 3) Allowance per branch: SELECT id, name, public.branch_provision_balance(id) FROM public.branches;
+-- 4) Verify schedule: SELECT * FROM cron.job WHERE jobname = 'monthly_loan_loss_provisioning';
@@ -0,0 +1,955 @@
+-- General Ledger
+-- Double-entry books underneath the operational tables:
+--   * a chart of accounts; every posting is a journal entry whose lines must
+--     balance (debits = credits), checked when the entry is written and again
+--     by a deferred constraint trigger at commit;
+--   * journal lines are never edited or deleted: corrections are reversals;
+--   * entries are posted by triggers on the source tables, one per source row:
+--       disbursement   Dr Loans Receivable / Cr Cash, fee income, top-up clearing
+--       repayment      Dr Cash / Cr Loans Receivable, Interest Income, Fee Income
+--       penalty paid   Dr Cash / Cr Penalty Income
+--       expense        Dr expense account of its category / Cr Cash
+--       member fees    Dr Cash / Cr Registration or Activation Fee Income
+--       provisioning   charge, release and write-off against the allowance
+--       savings        deposits, withdrawals, recoveries and interest
+--   * income is recognised when it is received. A repayment is split pro rata
+--     between principal and interest of the installments it pays, the same way
+--     loan_arrears_positions counts outstanding principal; fees not netted at
+--     disbursement are what is paid beyond the schedule;
+--   * at go-live the open loan book, the allowance and savings balances are
+--     posted as opening balances against Opening Balance Equity. Opening cash
+--     and bank balances are posted afterwards as a manual journal entry.
+
+-- 1. Chart of accounts
+CREATE TABLE IF NOT EXISTS public.gl_accounts (
+    code TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    account_type TEXT NOT NULL CHECK (account_type IN ('asset','liability','equity','income','expense')),
+    -- Contra accounts (the loan loss allowance) carry the opposite balance of their type
+    normal_balance TEXT NOT NULL CHECK (normal_balance IN ('debit','credit')),
+    description TEXT,
+    is_system BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.gl_accounts (code, name, account_type, normal_balance, description, is_system) VALUES
+  ('1000', 'Cash on Hand', 'asset', 'debit', 'Cash receipts and payments', TRUE),
+  ('1010', 'Bank', 'asset', 'debit', 'Bank transfers, cheques and cards', TRUE),
+  ('1020', 'Mobile Money', 'asset', 'debit', 'M-Pesa and other mobile money float', TRUE),
+  ('1090', 'Loan Settlement Clearing', 'asset', 'debit', 'Old loans settled from top-up proceeds', TRUE),
+  ('1100', 'Loans Receivable', 'asset', 'debit', 'Outstanding loan principal', TRUE),
+  ('1190', 'Loan Loss Allowance', 'asset', 'credit', 'Provision held against the loan book', TRUE),
+  ('2000', 'Member Savings', 'liability', 'credit', 'Compulsory and voluntary savings balances', TRUE),
+  ('3000', 'Retained Earnings', 'equity', 'credit', NULL, TRUE),
+  ('3100', 'Opening Balance Equity', 'equity', 'credit', 'Balancing side of go-live opening balances', TRUE),
+  ('4000', 'Interest Income', 'income', 'credit', NULL, TRUE),
+  ('4010', 'Processing Fee Income', 'income', 'credit', NULL, TRUE),
+  ('4020', 'Penalty Income', 'income', 'credit', NULL, TRUE),
+  ('4030', 'Registration Fee Income', 'income', 'credit', NULL, TRUE),
+  ('4040', 'Activation Fee Income', 'income', 'credit', NULL, TRUE),
+  ('4050', 'Recoveries on Written-off Loans', 'income', 'credit', NULL, TRUE),
+  ('5100', 'Staff Costs', 'expense', 'debit', NULL, TRUE),
+  ('5110', 'Rent and Utilities', 'expense', 'debit', NULL, TRUE),
+  ('5120', 'Office and Administration', 'expense', 'debit', NULL, TRUE),
+  ('5130', 'Travel and Transport', 'expense', 'debit', NULL, TRUE),
+  ('5140', 'Marketing and Communications', 'expense', 'debit', NULL, TRUE),
+  ('5150', 'Professional Fees', 'expense', 'debit', NULL, TRUE),
+  ('5160', 'Equipment and Maintenance', 'expense', 'debit', NULL, TRUE),
+  ('5170', 'Insurance', 'expense', 'debit', NULL, TRUE),
+  ('5180', 'Training', 'expense', 'debit', NULL, TRUE),
+  ('5190', 'Other Operating Expenses', 'expense', 'debit', NULL, TRUE),
+  ('5200', 'Interest on Member Savings', 'expense', 'debit', NULL, TRUE),
+  ('5300', 'Loan Loss Provision Expense', 'expense', 'debit', NULL, TRUE)
+ON CONFLICT (code) DO NOTHING;
+
+-- Expense categories post to the account chosen here
+ALTER TABLE public.expense_categories ADD COLUMN IF NOT EXISTS gl_account_code TEXT REFERENCES public.gl_accounts(code);
+
+UPDATE public.expense_categories
+SET gl_account_code = CASE
+    WHEN code IN ('SALARIES') THEN '5100'
+    WHEN code IN ('RENT','UTILITIES') THEN '5110'
+    WHEN code IN ('OFFICE_SUP','MEALS','ENTERTAINMENT') THEN '5120'
+    WHEN code IN ('TRAVEL','TRANSPORT') THEN '5130'
+    WHEN code IN ('MARKETING','COMMUNICATIONS') THEN '5140'
+    WHEN code IN ('LEGAL','LEGAL_FEES','CONSULTING') THEN '5150'
+    WHEN code IN ('EQUIPMENT','MAINTENANCE','SOFTWARE','HARDWARE') THEN '5160'
+    WHEN code IN ('INSURANCE') THEN '5170'
+    WHEN code IN ('TRAINING') THEN '5180'
+    ELSE '5190'
+  END
+WHERE gl_account_code IS NULL;
+
+-- 2. Journal entries and lines
+CREATE SEQUENCE IF NOT EXISTS public.journal_entry_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.journal_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_number TEXT NOT NULL UNIQUE
+      DEFAULT 'JE' || lpad(nextval('public.journal_entry_number_seq')::TEXT, 7, '0'),
+    entry_date DATE NOT NULL,
+    branch_id BIGINT REFERENCES public.branches(id) ON DELETE SET NULL,
+    source_type TEXT NOT NULL CHECK (source_type IN (
+      'opening_balance','disbursement','repayment','penalty','expense',
+      'registration_fee','activation_fee','provision','savings','manual'
+    )),
+    -- Id of the source row, so each event posts once
+    source_id TEXT,
+    description TEXT NOT NULL,
+    reversal_of UUID REFERENCES public.journal_entries(id),
+    reversed_by UUID REFERENCES public.journal_entries(id),
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_source
+  ON public.journal_entries(source_type, source_id)
+  WHERE source_id IS NOT NULL AND reversal_of IS NULL AND reversed_by IS NULL;
+CREATE INDEX IF NOT EXISTS idx_journal_entries_date ON public.journal_entries(entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_branch ON public.journal_entries(branch_id, entry_date);
+
+CREATE TABLE IF NOT EXISTS public.journal_lines (
+    id BIGSERIAL PRIMARY KEY,
+    entry_id UUID NOT NULL REFERENCES public.journal_entries(id) ON DELETE RESTRICT,
+    account_code TEXT NOT NULL REFERENCES public.gl_accounts(code),
+    debit DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+    credit DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+    -- Kept for drill-down only: the books outlive the records they came from
+    loan_id UUID,
+    member_id UUID,
+    memo TEXT,
+    -- A line is either a debit or a credit
+    CHECK ((debit > 0 AND credit = 0) OR (credit > 0 AND debit = 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON public.journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON public.journal_lines(account_code);
+
+-- Lines are written once; mistakes are corrected with a reversing entry
+CREATE OR REPLACE FUNCTION public.prevent_journal_line_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Journal lines cannot be changed or deleted; post a reversing entry instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_journal_line_changes ON public.journal_lines;
+CREATE TRIGGER trigger_prevent_journal_line_changes
+  BEFORE UPDATE OR DELETE ON public.journal_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_journal_line_changes();
+
+DROP TRIGGER IF EXISTS trigger_prevent_journal_entry_delete ON public.journal_entries;
+CREATE TRIGGER trigger_prevent_journal_entry_delete
+  BEFORE DELETE ON public.journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_journal_line_changes();
+
+-- Checked at commit, once every line of the entry is in
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_debits DECIMAL(15,2);
+  v_credits DECIMAL(15,2);
+  v_lines INTEGER;
+BEGIN
+  SELECT COALESCE(SUM(jl.debit), 0), COALESCE(SUM(jl.credit), 0), COUNT(*)
+  INTO v_debits, v_credits, v_lines
+  FROM public.journal_lines jl
+  WHERE jl.entry_id = NEW.entry_id;
+
+  IF v_lines < 2 OR v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Journal entry % is out of balance: debits %, credits %', NEW.entry_id, v_debits, v_credits;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_journal_entry_balanced ON public.journal_lines;
+CREATE CONSTRAINT TRIGGER trigger_check_journal_entry_balanced
+  AFTER INSERT ON public.journal_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_entry_balanced();
+
+-- 3. RLS: finance staff read the books; everything is written through the functions below
+ALTER TABLE public.gl_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.journal_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS gl_accounts_select ON public.gl_accounts;
+CREATE POLICY gl_accounts_select ON public.gl_accounts
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','auditor')
+  )
+);
+
+DROP POLICY IF EXISTS gl_accounts_admin_write ON public.gl_accounts;
+CREATE POLICY gl_accounts_admin_write ON public.gl_accounts
+FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin'))
+);
+
+DROP POLICY IF EXISTS journal_entries_select ON public.journal_entries;
+CREATE POLICY journal_entries_select ON public.journal_entries
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','auditor')
+        OR (p.role = 'branch_admin' AND p.branch_id = journal_entries.branch_id)
+      )
+  )
+);
+
+DROP POLICY IF EXISTS journal_lines_select ON public.journal_lines;
+CREATE POLICY journal_lines_select ON public.journal_lines
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.journal_entries je WHERE je.id = journal_lines.entry_id)
+);
+
+-- 4. Posting
+-- p_lines: [{"account": "1000", "debit": 100, "credit": 0, "loan_id": ..., "member_id": ..., "memo": ...}]
+-- Zero lines are dropped. Returns NULL when the source was already posted.
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  p_entry_date DATE,
+  p_branch_id BIGINT,
+  p_source_type TEXT,
+  p_source_id TEXT,
+  p_description TEXT,
+  p_lines JSONB,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+  v_debits DECIMAL(15,2);
+  v_credits DECIMAL(15,2);
+BEGIN
+  IF p_source_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.journal_entries je
+    WHERE je.source_type = p_source_type AND je.source_id = p_source_id
+      AND je.reversal_of IS NULL AND je.reversed_by IS NULL
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(ROUND(COALESCE((l->>'debit')::DECIMAL, 0), 2)), 0),
+    COALESCE(SUM(ROUND(COALESCE((l->>'credit')::DECIMAL, 0), 2)), 0)
+  INTO v_debits, v_credits
+  FROM jsonb_array_elements(p_lines) l;
+
+  IF v_debits = 0 AND v_credits = 0 THEN
+    RETURN NULL;
+  END IF;
+  IF v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Journal entry "%" is out of balance: debits %, credits %', p_description, v_debits, v_credits;
+  END IF;
+
+  INSERT INTO public.journal_entries (entry_date, branch_id, source_type, source_id, description, created_by)
+  VALUES (p_entry_date, p_branch_id, p_source_type, p_source_id, p_description, p_created_by)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.journal_lines (entry_id, account_code, debit, credit, loan_id, member_id, memo)
+  SELECT
+    v_entry_id,
+    l->>'account',
+    ROUND(COALESCE((l->>'debit')::DECIMAL, 0), 2),
+    ROUND(COALESCE((l->>'credit')::DECIMAL, 0), 2),
+    NULLIF(l->>'loan_id', '')::UUID,
+    NULLIF(l->>'member_id', '')::UUID,
+    l->>'memo'
+  FROM jsonb_array_elements(p_lines) l
+  WHERE ROUND(COALESCE((l->>'debit')::DECIMAL, 0), 2) > 0
+     OR ROUND(COALESCE((l->>'credit')::DECIMAL, 0), 2) > 0;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.post_journal_entry(DATE, BIGINT, TEXT, TEXT, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Posts the mirror image of an entry and links the two
+CREATE OR REPLACE FUNCTION public.reverse_journal_entry_internal(
+  p_entry_id UUID,
+  p_entry_date DATE,
+  p_description TEXT,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry public.journal_entries;
+  v_reversal_id UUID;
+BEGIN
+  SELECT * INTO v_entry FROM public.journal_entries WHERE id = p_entry_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal entry % not found', p_entry_id;
+  END IF;
+  IF v_entry.reversed_by IS NOT NULL OR v_entry.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'Journal entry % is already reversed or is itself a reversal', v_entry.entry_number;
+  END IF;
+
+  INSERT INTO public.journal_entries (
+    entry_date, branch_id, source_type, source_id, description, reversal_of, created_by
+  ) VALUES (
+    p_entry_date, v_entry.branch_id, v_entry.source_type, v_entry.source_id,
+    COALESCE(p_description, 'Reversal of ' || v_entry.entry_number), v_entry.id, p_created_by
+  )
+  RETURNING id INTO v_reversal_id;
+
+  INSERT INTO public.journal_lines (entry_id, account_code, debit, credit, loan_id, member_id, memo)
+  SELECT v_reversal_id, jl.account_code, jl.credit, jl.debit, jl.loan_id, jl.member_id, jl.memo
+  FROM public.journal_lines jl
+  WHERE jl.entry_id = v_entry.id;
+
+  UPDATE public.journal_entries SET reversed_by = v_reversal_id WHERE id = v_entry.id;
+
+  RETURN v_reversal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.reverse_journal_entry_internal(UUID, DATE, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.gl_cash_account(p_method TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_method = 'mobile_money' THEN '1020'
+    WHEN p_method IN ('bank_transfer','check','cheque','credit_card','debit_card') THEN '1010'
+    ELSE '1000'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 5. Disbursements
+CREATE OR REPLACE FUNCTION public.gl_post_disbursement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_loan public.loans;
+  v_fee DECIMAL(15,2);
+  v_principal DECIMAL(15,2);
+BEGIN
+  IF NEW.transaction_type <> 'disbursement' OR NEW.loan_id IS NULL OR NEW.status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = NEW.loan_id;
+  v_fee := COALESCE(NEW.fees, 0);
+  -- Whatever was neither paid out nor kept as a fee settled the loan being topped up
+  v_principal := GREATEST(COALESCE(v_loan.principal_amount, 0), NEW.amount + v_fee);
+
+  PERFORM public.post_journal_entry(
+    NEW.transaction_date::DATE,
+    COALESCE(NEW.branch_id, v_loan.branch_id),
+    'disbursement',
+    NEW.id::TEXT,
+    'Disbursement of loan ' || COALESCE(v_loan.application_no, NEW.loan_id::TEXT),
+    jsonb_build_array(
+      jsonb_build_object('account', '1100', 'debit', v_principal, 'loan_id', NEW.loan_id, 'member_id', NEW.member_id),
+      jsonb_build_object('account', public.gl_cash_account(NEW.payment_method::TEXT), 'credit', NEW.amount, 'loan_id', NEW.loan_id),
+      jsonb_build_object('account', '4010', 'credit', v_fee, 'loan_id', NEW.loan_id, 'memo', 'Processing fee netted'),
+      jsonb_build_object('account', '1090', 'credit', v_principal - NEW.amount - v_fee, 'loan_id', NEW.loan_id, 'memo', 'Top-up settlement')
+    ),
+    NEW.created_by
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_gl_post_disbursement ON public.transactions;
+CREATE TRIGGER trigger_gl_post_disbursement
+  AFTER INSERT ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_disbursement();
+
+-- 6. Repayments
+-- Interest and fees recognised so far per loan; each payment posts the increase
+CREATE TABLE IF NOT EXISTS public.gl_loan_income (
+    loan_id UUID PRIMARY KEY REFERENCES public.loans(id) ON DELETE CASCADE,
+    interest_recognized DECIMAL(15,2) NOT NULL DEFAULT 0,
+    fees_recognized DECIMAL(15,2) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.gl_loan_income ENABLE ROW LEVEL SECURITY;
+
+-- Interest and non-netted fees the loan has been paid to date
+CREATE OR REPLACE FUNCTION public.gl_loan_income_to_date(p_loan_id UUID)
+RETURNS TABLE (interest_paid DECIMAL, fees_paid DECIMAL) AS $$
+  WITH schedule AS (
+    SELECT
+      COALESCE(SUM(ROUND(i.interest_amount * LEAST(COALESCE(i.amount_paid, 0) / NULLIF(i.total_amount, 0), 1), 2)), 0) AS interest_paid,
+      COALESCE(SUM(LEAST(COALESCE(i.amount_paid, 0), i.total_amount)), 0) AS installments_paid
+    FROM public.loan_installments i
+    WHERE i.loan_id = p_loan_id
+  )
+  SELECT
+    s.interest_paid,
+    LEAST(
+      GREATEST(COALESCE(l.processing_fee, 0) - COALESCE(l.processing_fee_netted, 0), 0),
+      GREATEST(COALESCE(l.total_paid, 0) - COALESCE(l.processing_fee_netted, 0) - s.installments_paid, 0)
+    )
+  FROM public.loans l, schedule s
+  WHERE l.id = p_loan_id;
+$$ LANGUAGE sql STABLE;
+
+-- Deferred to commit so the installment allocation and any mobile money or
+-- transactions row written alongside the payment are in place
+CREATE OR REPLACE FUNCTION public.gl_post_loan_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_loan public.loans;
+  v_income RECORD;
+  v_recognized public.gl_loan_income;
+  v_method TEXT;
+  v_debit_account TEXT;
+  v_interest DECIMAL(15,2) := 0;
+  v_fees DECIMAL(15,2) := 0;
+  v_remaining DECIMAL(15,2);
+  v_lines JSONB;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = NEW.loan_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_reference LIKE 'TOPUP-%' THEN
+    v_debit_account := '1090';
+  ELSE
+    IF EXISTS (SELECT 1 FROM public.mobile_money_receipts r WHERE r.loan_payment_id = NEW.id) THEN
+      v_method := 'mobile_money';
+    ELSE
+      SELECT t.payment_method::TEXT INTO v_method
+      FROM public.transactions t
+      WHERE t.loan_id = NEW.loan_id
+        AND t.reference_number = NEW.payment_reference
+        AND t.transaction_type = 'payment'
+      ORDER BY t.created_at DESC
+      LIMIT 1;
+    END IF;
+    v_debit_account := public.gl_cash_account(COALESCE(v_method, 'cash'));
+  END IF;
+
+  v_remaining := NEW.amount;
+
+  IF v_loan.status::TEXT = 'written_off' THEN
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account', '4050', 'credit', v_remaining, 'loan_id', v_loan.id, 'memo', 'Recovery after write-off')
+    );
+  ELSE
+    INSERT INTO public.gl_loan_income (loan_id) VALUES (v_loan.id) ON CONFLICT (loan_id) DO NOTHING;
+    SELECT * INTO v_recognized FROM public.gl_loan_income WHERE loan_id = v_loan.id FOR UPDATE;
+    SELECT * INTO v_income FROM public.gl_loan_income_to_date(v_loan.id);
+
+    v_fees := LEAST(GREATEST(COALESCE(v_income.fees_paid, 0) - v_recognized.fees_recognized, 0), v_remaining);
+    v_remaining := v_remaining - v_fees;
+    v_interest := LEAST(GREATEST(COALESCE(v_income.interest_paid, 0) - v_recognized.interest_recognized, 0), v_remaining);
+    v_remaining := v_remaining - v_interest;
+
+    UPDATE public.gl_loan_income
+    SET interest_recognized = interest_recognized + v_interest,
+        fees_recognized = fees_recognized + v_fees,
+        updated_at = NOW()
+    WHERE loan_id = v_loan.id;
+
+    v_lines := jsonb_build_array(
+      jsonb_build_object('account', '1100', 'credit', v_remaining, 'loan_id', v_loan.id, 'memo', 'Principal'),
+      jsonb_build_object('account', '4000', 'credit', v_interest, 'loan_id', v_loan.id, 'memo', 'Interest'),
+      jsonb_build_object('account', '4010', 'credit', v_fees, 'loan_id', v_loan.id, 'memo', 'Processing fee')
+    );
+  END IF;
+
+  PERFORM public.post_journal_entry(
+    NEW.payment_date,
+    v_loan.branch_id,
+    'repayment',
+    NEW.id::TEXT,
+    'Repayment on loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || ' (' || NEW.payment_reference || ')',
+    jsonb_build_array(
+      jsonb_build_object(
+        'account', v_debit_account, 'debit', NEW.amount, 'loan_id', v_loan.id,
+        'member_id', COALESCE(v_loan.member_id, v_loan.customer_id)
+      )
+    ) || v_lines,
+    NEW.created_by
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_gl_post_loan_payment ON public.loan_payments;
+CREATE CONSTRAINT TRIGGER trg_gl_post_loan_payment
+  AFTER INSERT ON public.loan_payments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_loan_payment();
+
+-- 7. Penalties: income when collected, which today only happens in an early settlement
+CREATE OR REPLACE FUNCTION public.gl_post_penalty_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_loan public.loans;
+  v_method TEXT;
+BEGIN
+  IF NEW.status <> 'paid' OR OLD.status = 'paid' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = NEW.loan_id;
+  SELECT s.payment_method INTO v_method
+  FROM public.loan_settlements s
+  WHERE s.loan_id = NEW.loan_id
+  ORDER BY s.settled_at DESC
+  LIMIT 1;
+
+  PERFORM public.post_journal_entry(
+    CURRENT_DATE,
+    v_loan.branch_id,
+    'penalty',
+    NEW.id::TEXT,
+    'Penalty collected on loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT)
+      || ', installment ' || NEW.installment_number,
+    jsonb_build_array(
+      jsonb_build_object('account', public.gl_cash_account(COALESCE(v_method, 'cash')), 'debit', NEW.amount, 'loan_id', NEW.loan_id),
+      jsonb_build_object('account', '4020', 'credit', NEW.amount, 'loan_id', NEW.loan_id)
+    ),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_gl_post_penalty_paid ON public.loan_penalties;
+CREATE TRIGGER trigger_gl_post_penalty_paid
+  AFTER UPDATE OF status ON public.loan_penalties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_penalty_paid();
+
+-- 8. Expenses: an active expense is posted; edits reverse and repost, deactivation reverses
+CREATE OR REPLACE FUNCTION public.gl_post_expense()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_posted UUID;
+  v_account TEXT;
+BEGIN
+  IF TG_OP IN ('UPDATE','DELETE') THEN
+    IF TG_OP = 'UPDATE'
+      AND NEW.amount = OLD.amount
+      AND NEW.status = OLD.status
+      AND NEW.expense_date = OLD.expense_date
+      AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id
+      AND NEW.branch_id IS NOT DISTINCT FROM OLD.branch_id
+      AND NEW.payment_method IS NOT DISTINCT FROM OLD.payment_method
+    THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT je.id INTO v_posted
+    FROM public.journal_entries je
+    WHERE je.source_type = 'expense' AND je.source_id = OLD.id::TEXT
+      AND je.reversal_of IS NULL AND je.reversed_by IS NULL;
+
+    IF v_posted IS NOT NULL THEN
+      PERFORM public.reverse_journal_entry_internal(
+        v_posted, CURRENT_DATE,
+        'Reversal of expense ' || OLD.expense_number || CASE WHEN TG_OP = 'DELETE' THEN ' (deleted)' ELSE ' (changed)' END,
+        auth.uid()
+      );
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+
+  IF NEW.status::TEXT <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.gl_account_code INTO v_account FROM public.expense_categories c WHERE c.id = NEW.category_id;
+
+  PERFORM public.post_journal_entry(
+    NEW.expense_date,
+    NEW.branch_id,
+    'expense',
+    NEW.id::TEXT,
+    'Expense ' || NEW.expense_number || ': ' || NEW.title,
+    jsonb_build_array(
+      jsonb_build_object('account', COALESCE(v_account, '5190'), 'debit', NEW.amount, 'memo', NEW.vendor_name),
+      jsonb_build_object('account', public.gl_cash_account(COALESCE(NEW.payment_method::TEXT, 'cash')), 'credit', NEW.amount)
+    ),
+    COALESCE(auth.uid(), NEW.created_by)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_gl_post_expense ON public.expenses;
+CREATE TRIGGER trigger_gl_post_expense
+  AFTER INSERT OR UPDATE OR DELETE ON public.expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_expense();
+
+-- 9. Registration and activation fees (KES 500 each, received in cash)
+CREATE OR REPLACE FUNCTION public.gl_post_member_fees()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_posted UUID;
+BEGIN
+  IF COALESCE(NEW.registration_fee_paid, FALSE)
+    AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.registration_fee_paid, FALSE))
+  THEN
+    PERFORM public.post_journal_entry(
+      CURRENT_DATE, NEW.branch_id, 'registration_fee', NEW.id::TEXT,
+      'Registration fee from ' || NEW.full_name,
+      jsonb_build_array(
+        jsonb_build_object('account', '1000', 'debit', 500, 'member_id', NEW.id),
+        jsonb_build_object('account', '4030', 'credit', 500, 'member_id', NEW.id)
+      ),
+      auth.uid()
+    );
+  ELSIF TG_OP = 'UPDATE' AND COALESCE(OLD.registration_fee_paid, FALSE) AND NOT COALESCE(NEW.registration_fee_paid, FALSE) THEN
+    -- Unticking the registration fee is a correction, not a refund of a later period
+    SELECT je.id INTO v_posted
+    FROM public.journal_entries je
+    WHERE je.source_type = 'registration_fee' AND je.source_id = NEW.id::TEXT
+      AND je.reversal_of IS NULL AND je.reversed_by IS NULL;
+    IF v_posted IS NOT NULL THEN
+      PERFORM public.reverse_journal_entry_internal(v_posted, CURRENT_DATE, 'Registration fee unmarked for ' || NEW.full_name, auth.uid());
+    END IF;
+  END IF;
+
+  -- Activation is paid again every time a dormant member comes back
+  IF COALESCE(NEW.activation_fee_paid, FALSE)
+    AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.activation_fee_paid, FALSE))
+  THEN
+    PERFORM public.post_journal_entry(
+      CURRENT_DATE, NEW.branch_id, 'activation_fee', NEW.id::TEXT || ':' || CURRENT_DATE::TEXT,
+      'Activation fee from ' || NEW.full_name,
+      jsonb_build_array(
+        jsonb_build_object('account', '1000', 'debit', 500, 'member_id', NEW.id),
+        jsonb_build_object('account', '4040', 'credit', 500, 'member_id', NEW.id)
+      ),
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_gl_post_member_fees ON public.members;
+CREATE TRIGGER trigger_gl_post_member_fees
+  AFTER INSERT OR UPDATE OF registration_fee_paid, activation_fee_paid ON public.members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_member_fees();
+
+-- 10. Loan loss provisioning and write-offs
+CREATE OR REPLACE FUNCTION public.gl_post_provision_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_debit TEXT;
+  v_credit TEXT;
+BEGIN
+  v_debit := CASE NEW.entry_type WHEN 'charge' THEN '5300' ELSE '1190' END;
+  v_credit := CASE NEW.entry_type WHEN 'charge' THEN '1190' WHEN 'release' THEN '5300' ELSE '1100' END;
+
+  PERFORM public.post_journal_entry(
+    NEW.entry_date,
+    NEW.branch_id,
+    'provision',
+    NEW.id::TEXT,
+    NEW.description,
+    jsonb_build_array(
+      jsonb_build_object('account', v_debit, 'debit', NEW.amount, 'loan_id', NEW.loan_id),
+      jsonb_build_object('account', v_credit, 'credit', NEW.amount, 'loan_id', NEW.loan_id)
+    ),
+    NEW.created_by
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_gl_post_provision_entry ON public.provision_entries;
+CREATE TRIGGER trigger_gl_post_provision_entry
+  AFTER INSERT ON public.provision_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_provision_entry();
+
+-- 11. Member savings. A recovery moves savings onto a loan, whose repayment
+-- debits the same cash account, so the two net out.
+CREATE OR REPLACE FUNCTION public.gl_post_savings_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_branch_id BIGINT;
+  v_cash TEXT;
+  v_debit TEXT;
+  v_credit TEXT;
+BEGIN
+  SELECT m.branch_id INTO v_branch_id FROM public.members m WHERE m.id = NEW.member_id;
+  v_cash := public.gl_cash_account(COALESCE(NEW.payment_method, CASE WHEN NEW.transaction_type = 'recovery' THEN 'other' ELSE 'cash' END));
+
+  v_debit := CASE NEW.transaction_type
+    WHEN 'deposit' THEN v_cash
+    WHEN 'interest' THEN '5200'
+    ELSE '2000'
+  END;
+  v_credit := CASE WHEN NEW.transaction_type IN ('deposit','interest') THEN '2000' ELSE v_cash END;
+
+  PERFORM public.post_journal_entry(
+    NEW.created_at::DATE,
+    v_branch_id,
+    'savings',
+    NEW.id::TEXT,
+    initcap(NEW.transaction_type) || ' ' || COALESCE(NEW.reference, ''),
+    jsonb_build_array(
+      jsonb_build_object('account', v_debit, 'debit', NEW.amount, 'member_id', NEW.member_id),
+      jsonb_build_object('account', v_credit, 'credit', NEW.amount, 'member_id', NEW.member_id)
+    ),
+    NEW.created_by
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_gl_post_savings_transaction ON public.savings_transactions;
+CREATE TRIGGER trigger_gl_post_savings_transaction
+  AFTER INSERT ON public.savings_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.gl_post_savings_transaction();
+
+-- 12. Manual journal entries and reversals (administrators)
+CREATE OR REPLACE FUNCTION public.create_manual_journal_entry(
+  p_entry_date DATE,
+  p_branch_id BIGINT,
+  p_description TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post journal entries';
+  END IF;
+  IF NULLIF(TRIM(p_description), '') IS NULL THEN
+    RAISE EXCEPTION 'A journal entry needs a description';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) l
+    WHERE NOT EXISTS (SELECT 1 FROM public.gl_accounts a WHERE a.code = l->>'account' AND a.is_active)
+  ) THEN
+    RAISE EXCEPTION 'Every line needs an active account';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) l
+    WHERE COALESCE((l->>'debit')::DECIMAL, 0) > 0 AND COALESCE((l->>'credit')::DECIMAL, 0) > 0
+  ) THEN
+    RAISE EXCEPTION 'A line is either a debit or a credit, not both';
+  END IF;
+
+  v_entry_id := public.post_journal_entry(p_entry_date, p_branch_id, 'manual', NULL, TRIM(p_description), p_lines, auth.uid());
+  IF v_entry_id IS NULL THEN
+    RAISE EXCEPTION 'A journal entry needs at least one debit and one credit';
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'JOURNAL_ENTRY_POSTED',
+    'journal_entries',
+    v_entry_id,
+    NULL,
+    jsonb_build_object('entry_date', p_entry_date, 'branch_id', p_branch_id, 'description', p_description, 'lines', p_lines),
+    auth.uid()
+  );
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.create_manual_journal_entry(DATE, BIGINT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_manual_journal_entry(DATE, BIGINT, TEXT, JSONB) TO authenticated;
+
+-- System entries are corrected at their source; only manual entries are reversed by hand
+CREATE OR REPLACE FUNCTION public.reverse_journal_entry(p_entry_id UUID, p_reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_entry public.journal_entries;
+  v_reversal_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can reverse journal entries';
+  END IF;
+
+  SELECT * INTO v_entry FROM public.journal_entries WHERE id = p_entry_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal entry % not found', p_entry_id;
+  END IF;
+  IF v_entry.source_type <> 'manual' THEN
+    RAISE EXCEPTION 'Only manual entries can be reversed; correct the % it was posted from instead', replace(v_entry.source_type, '_', ' ');
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reverse a journal entry';
+  END IF;
+
+  v_reversal_id := public.reverse_journal_entry_internal(
+    p_entry_id, CURRENT_DATE, 'Reversal of ' || v_entry.entry_number || ': ' || TRIM(p_reason), auth.uid()
+  );
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'JOURNAL_ENTRY_REVERSED',
+    'journal_entries',
+    p_entry_id,
+    jsonb_build_object('entry_number', v_entry.entry_number),
+    jsonb_build_object('reversal_id', v_reversal_id, 'reason', TRIM(p_reason)),
+    auth.uid()
+  );
+
+  RETURN v_reversal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.reverse_journal_entry(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reverse_journal_entry(UUID, TEXT) TO authenticated;
+
+-- 13. Trial balance as of a date, for one branch or consolidated
+CREATE OR REPLACE FUNCTION public.trial_balance(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_branch_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  account_code TEXT,
+  account_name TEXT,
+  account_type TEXT,
+  normal_balance TEXT,
+  total_debit DECIMAL,
+  total_credit DECIMAL,
+  balance_debit DECIMAL,
+  balance_credit DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+  v_branch_id BIGINT := p_branch_id;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to the general ledger';
+  END IF;
+  IF v_profile.role = 'branch_admin' THEN
+    v_branch_id := v_profile.branch_id;
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT jl.account_code, SUM(jl.debit) AS debits, SUM(jl.credit) AS credits
+    FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.entry_id
+    WHERE je.entry_date <= p_as_of
+      AND (v_branch_id IS NULL OR je.branch_id = v_branch_id)
+    GROUP BY jl.account_code
+  )
+  SELECT
+    a.code,
+    a.name,
+    a.account_type,
+    a.normal_balance,
+    COALESCE(t.debits, 0),
+    COALESCE(t.credits, 0),
+    GREATEST(COALESCE(t.debits, 0) - COALESCE(t.credits, 0), 0),
+    GREATEST(COALESCE(t.credits, 0) - COALESCE(t.debits, 0), 0)
+  FROM public.gl_accounts a
+    LEFT JOIN totals t ON t.account_code = a.code
+  WHERE a.is_active OR t.account_code IS NOT NULL
+  ORDER BY a.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.trial_balance(DATE, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.trial_balance(DATE, BIGINT) TO authenticated;
+
+-- 14. Go-live: income already received is not income of the new books, and the
+-- open loan book, allowance and savings come in as opening balances per branch
+INSERT INTO public.gl_loan_income (loan_id, interest_recognized, fees_recognized)
+SELECT l.id, inc.interest_paid, inc.fees_paid
+FROM public.loans l
+  CROSS JOIN LATERAL public.gl_loan_income_to_date(l.id) inc
+ON CONFLICT (loan_id) DO NOTHING;
+
+DO $$
+DECLARE
+  v_branch RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.journal_entries WHERE source_type = 'opening_balance') THEN
+    RETURN;
+  END IF;
+
+  FOR v_branch IN
+    WITH loans_book AS (
+      SELECT ap.branch_id, SUM(ap.outstanding_principal) AS amount
+      FROM public.loan_arrears_positions(CURRENT_DATE) ap
+      GROUP BY ap.branch_id
+    ),
+    savings AS (
+      SELECT m.branch_id::BIGINT AS branch_id, SUM(sa.balance) AS amount
+      FROM public.savings_accounts sa
+        JOIN public.members m ON m.id = sa.member_id
+      GROUP BY m.branch_id
+    ),
+    branch_ids AS (
+      SELECT lb.branch_id FROM loans_book lb
+      UNION SELECT s.branch_id FROM savings s
+      UNION SELECT pe.branch_id FROM public.provision_entries pe
+    )
+    SELECT
+      bi.branch_id,
+      COALESCE(lb.amount, 0) AS loans_amount,
+      CASE WHEN bi.branch_id IS NULL THEN 0 ELSE public.branch_provision_balance(bi.branch_id) END AS allowance_amount,
+      COALESCE(s.amount, 0) AS savings_amount
+    FROM branch_ids bi
+      LEFT JOIN loans_book lb ON lb.branch_id IS NOT DISTINCT FROM bi.branch_id
+      LEFT JOIN savings s ON s.branch_id IS NOT DISTINCT FROM bi.branch_id
+  LOOP
+    PERFORM public.post_journal_entry(
+      CURRENT_DATE,
+      v_branch.branch_id,
+      'opening_balance',
+      COALESCE(v_branch.branch_id::TEXT, 'unassigned'),
+      'Opening balances',
+      jsonb_build_array(
+        jsonb_build_object('account', '1100', 'debit', v_branch.loans_amount),
+        jsonb_build_object('account', '1190', 'credit', v_branch.allowance_amount),
+        jsonb_build_object('account', '2000', 'credit', v_branch.savings_amount),
+        jsonb_build_object(
+          'account', '3100',
+          CASE WHEN v_branch.loans_amount >= v_branch.allowance_amount + v_branch.savings_amount THEN 'credit' ELSE 'debit' END,
+          ABS(v_branch.loans_amount - v_branch.allowance_amount - v_branch.savings_amount)
+        )
+      ),
+      NULL
+    );
+  END LOOP;
+END $$;
+
+-- Hints:
+-- 1) Post opening cash and bank balances from the Trial Balance page, or:
+--    SELECT public.create_manual_journal_entry(CURRENT_DATE, <branch_id>, 'Opening cash',
+--      '[{"account":"1000","debit":50000},{"account":"3100","credit":50000}]'::jsonb);
+-- 2) Check the books tie: SELECT SUM(debit) - SUM(credit) FROM public.journal_lines;  -- always 0
+-- 3) Change where an expense category posts: UPDATE public.expense_categories SET gl_account_code = '5120' WHERE code = 'MEALS';
@@ -0,0 +1,149 @@
+-- Financial Statements
+-- Income statement, balance sheet and cash flow are built from the general
+-- ledger, per branch or consolidated, for any period:
+--   * gl_account_activity gives each account's opening balance, movements in
+--     the period and closing balance (debit positive), which is all the income
+--     statement and balance sheet need;
+--   * the balance sheet carries income less expenses to date as accumulated
+--     surplus, since the books are never closed into retained earnings;
+--   * the cash flow (direct method) takes every entry that moves a cash account
+--     and attributes the cash to the entry's other lines, so each line says
+--     where the money came from or went; the other account's activity
+--     (operating, investing, financing) decides the section.
+
+-- 1. Cash accounts and cash flow sections on the chart of accounts
+ALTER TABLE public.gl_accounts ADD COLUMN IF NOT EXISTS is_cash BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE public.gl_accounts ADD COLUMN IF NOT EXISTS cash_flow_activity TEXT NOT NULL DEFAULT 'operating'
+  CHECK (cash_flow_activity IN ('operating','investing','financing'));
+
+UPDATE public.gl_accounts SET is_cash = TRUE WHERE code IN ('1000','1010','1020');
+UPDATE public.gl_accounts SET cash_flow_activity = 'financing' WHERE code IN ('2000','3000','3100');
+
+-- 2. Opening balance, movements and closing balance per account
+CREATE OR REPLACE FUNCTION public.gl_account_activity(
+  p_from DATE,
+  p_to DATE,
+  p_branch_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  account_code TEXT,
+  account_name TEXT,
+  account_type TEXT,
+  normal_balance TEXT,
+  is_cash BOOLEAN,
+  cash_flow_activity TEXT,
+  opening_balance DECIMAL,
+  period_debit DECIMAL,
+  period_credit DECIMAL,
+  closing_balance DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+  v_branch_id BIGINT := p_branch_id;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to the general ledger';
+  END IF;
+  IF v_profile.role = 'branch_admin' THEN
+    v_branch_id := v_profile.branch_id;
+  END IF;
+  IF p_from > p_to THEN
+    RAISE EXCEPTION 'The period starts after it ends';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      jl.account_code,
+      COALESCE(SUM(jl.debit - jl.credit) FILTER (WHERE je.entry_date < p_from), 0) AS opening,
+      COALESCE(SUM(jl.debit) FILTER (WHERE je.entry_date >= p_from), 0) AS debits,
+      COALESCE(SUM(jl.credit) FILTER (WHERE je.entry_date >= p_from), 0) AS credits
+    FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.entry_id
+    WHERE je.entry_date <= p_to
+      AND (v_branch_id IS NULL OR je.branch_id = v_branch_id)
+    GROUP BY jl.account_code
+  )
+  SELECT
+    a.code,
+    a.name,
+    a.account_type,
+    a.normal_balance,
+    a.is_cash,
+    a.cash_flow_activity,
+    COALESCE(t.opening, 0),
+    COALESCE(t.debits, 0),
+    COALESCE(t.credits, 0),
+    COALESCE(t.opening, 0) + COALESCE(t.debits, 0) - COALESCE(t.credits, 0)
+  FROM public.gl_accounts a
+    LEFT JOIN totals t ON t.account_code = a.code
+  WHERE a.is_active OR t.account_code IS NOT NULL
+  ORDER BY a.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.gl_account_activity(DATE, DATE, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.gl_account_activity(DATE, DATE, BIGINT) TO authenticated;
+
+-- 3. Cash received and paid, by the account on the other side of each entry.
+-- A balanced entry's non-cash lines add up to its net cash movement, so the
+-- lines below sum to the change in cash. Transfers between cash accounts have
+-- no other side and drop out.
+CREATE OR REPLACE FUNCTION public.gl_cash_flows(
+  p_from DATE,
+  p_to DATE,
+  p_branch_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  cash_flow_activity TEXT,
+  account_code TEXT,
+  account_name TEXT,
+  cash_in DECIMAL,
+  cash_out DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+  v_branch_id BIGINT := p_branch_id;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to the general ledger';
+  END IF;
+  IF v_profile.role = 'branch_admin' THEN
+    v_branch_id := v_profile.branch_id;
+  END IF;
+
+  RETURN QUERY
+  WITH cash_entries AS (
+    SELECT DISTINCT je.id
+    FROM public.journal_entries je
+      JOIN public.journal_lines jl ON jl.entry_id = je.id
+      JOIN public.gl_accounts a ON a.code = jl.account_code
+    WHERE je.entry_date BETWEEN p_from AND p_to
+      AND (v_branch_id IS NULL OR je.branch_id = v_branch_id)
+      AND a.is_cash
+  )
+  SELECT
+    a.cash_flow_activity,
+    a.code,
+    a.name,
+    SUM(jl.credit),
+    SUM(jl.debit)
+  FROM cash_entries ce
+    JOIN public.journal_lines jl ON jl.entry_id = ce.id
+    JOIN public.gl_accounts a ON a.code = jl.account_code
+  WHERE NOT a.is_cash
+  GROUP BY a.cash_flow_activity, a.code, a.name
+  ORDER BY a.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.gl_cash_flows(DATE, DATE, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.gl_cash_flows(DATE, DATE, BIGINT) TO authenticated;
+
+-- Hints:
+-- 1) Income statement for October, consolidated:
+--    SELECT account_code, account_name, period_credit - period_debit
+--    FROM public.gl_account_activity('2025-10-01', '2025-10-31') WHERE account_type IN ('income','expense');
+-- 2) Treat a new bank account as cash: UPDATE public.gl_accounts SET is_cash = TRUE WHERE code = '1011';
@@ -0,0 +1,135 @@
+-- Row Audit Trail
+-- Every insert, update and delete on loans, members, loan_payments, expenses
+-- and profiles lands in audit_logs with the acting user:
+--   * INSERT keeps the new row, DELETE the old row;
+--   * UPDATE keeps only the columns that changed, before and after, and is
+--     skipped when nothing but bookkeeping columns (updated_at) moved;
+--   * the business events already written by functions (LOAN_DISBURSED,
+--     LOAN_WRITTEN_OFF, ...) stay alongside the row changes they explain.
+-- The log itself becomes append-only: readable by administrators and
+-- auditors, written only by triggers and SECURITY DEFINER functions.
+
+-- 1. Lock down the log
+ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON public.audit_logs FROM authenticated, anon;
+
+DROP POLICY IF EXISTS audit_logs_select ON public.audit_logs;
+CREATE POLICY audit_logs_select ON public.audit_logs
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','auditor')
+  )
+);
+
+-- Removing a user must not be blocked by the history of what they did
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_fkey;
+ALTER TABLE public.audit_logs
+  ADD CONSTRAINT audit_logs_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_record ON public.audit_logs(table_name, record_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON public.audit_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON public.audit_logs(user_id, created_at DESC);
+
+-- 2. Generic row trigger; trigger arguments name extra columns to ignore
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_ignored TEXT[] := ARRAY['updated_at'] || TG_ARGV;
+  v_key TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_new := to_jsonb(NEW) - v_ignored;
+  ELSIF TG_OP = 'DELETE' THEN
+    v_old := to_jsonb(OLD) - v_ignored;
+  ELSE
+    v_old := '{}'::JSONB;
+    v_new := '{}'::JSONB;
+    FOR v_key IN SELECT jsonb_object_keys(to_jsonb(NEW)) LOOP
+      CONTINUE WHEN v_key = ANY (v_ignored);
+      IF (to_jsonb(OLD) -> v_key) IS DISTINCT FROM (to_jsonb(NEW) -> v_key) THEN
+        v_old := v_old || jsonb_build_object(v_key, to_jsonb(OLD) -> v_key);
+        v_new := v_new || jsonb_build_object(v_key, to_jsonb(NEW) -> v_key);
+      END IF;
+    END LOOP;
+
+    IF v_new = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    TG_OP,
+    TG_TABLE_NAME,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+    v_old,
+    v_new,
+    -- The acting user may have no profile (service calls, cron)
+    (SELECT p.id FROM public.profiles p WHERE p.id = auth.uid())
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Audited tables
+DROP TRIGGER IF EXISTS trigger_audit_loans ON public.loans;
+CREATE TRIGGER trigger_audit_loans
+  AFTER INSERT OR UPDATE OR DELETE ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_members ON public.members;
+CREATE TRIGGER trigger_audit_members
+  AFTER INSERT OR UPDATE OR DELETE ON public.members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_loan_payments ON public.loan_payments;
+CREATE TRIGGER trigger_audit_loan_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.loan_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_expenses ON public.expenses;
+CREATE TRIGGER trigger_audit_expenses
+  AFTER INSERT OR UPDATE OR DELETE ON public.expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_profiles ON public.profiles;
+CREATE TRIGGER trigger_audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+-- 4. People who appear in the log, for the explorer's user filter
+CREATE OR REPLACE FUNCTION public.get_audit_log_users()
+RETURNS TABLE (user_id UUID, full_name TEXT, email TEXT) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','auditor')
+  ) THEN
+    RAISE EXCEPTION 'You do not have access to the audit trail';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, p.email
+  FROM public.profiles p
+  WHERE EXISTS (SELECT 1 FROM public.audit_logs al WHERE al.user_id = p.id)
+  ORDER BY p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.get_audit_log_users() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_audit_log_users() TO authenticated;
+
+-- Hints:
+-- 1) History of one loan: SELECT action, old_values, new_values, user_id, created_at
+--    FROM public.audit_logs WHERE table_name = 'loans' AND record_id = '<loan id>' ORDER BY created_at;
+-- 2) Ignore another noisy column on a table: recreate its trigger with the column as an argument,
+--    e.g. EXECUTE FUNCTION public.audit_row_change('profile_picture_url').
@@ -0,0 +1,228 @@
+-- MFA Policy
+-- Multi-factor authentication becomes a setting instead of a browser flag:
+--   * system_settings.mfa_required_roles lists the roles that must sign in
+--     with an authenticator (super_admin and admin by default);
+--   * whether a session has passed MFA is read from the JWT's aal claim on the
+--     server, and restrictive policies keep aal1 sessions of those roles away
+--     from loans, members, payments, expenses and the ledger;
+--   * each user gets ten one-time recovery codes, stored bcrypt-hashed. Using
+--     one removes the lost authenticator so the user enrols a new one;
+--   * administrators get a report of who has and has not enrolled.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. Policy
+ALTER TABLE public.system_settings
+  ADD COLUMN IF NOT EXISTS mfa_required_roles TEXT[] NOT NULL DEFAULT ARRAY['super_admin','admin']::TEXT[];
+
+-- 2. Recovery codes
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user ON public.mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+-- Hashes never leave the database; everything goes through the functions below
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mfa_recovery_codes FROM authenticated, anon;
+
+-- 3. Session checks
+CREATE OR REPLACE FUNCTION public.mfa_required_for_user(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.system_settings s ON s.id = 1
+    WHERE p.id = p_user_id AND p.role::TEXT = ANY (s.mfa_required_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Requests without a user (service role, cron) are not subject to the policy
+CREATE OR REPLACE FUNCTION public.mfa_session_satisfied()
+RETURNS BOOLEAN AS $$
+  SELECT auth.uid() IS NULL
+      OR COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+      OR NOT public.mfa_required_for_user(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.get_mfa_session_status()
+RETURNS TABLE (
+  required BOOLEAN,
+  enrolled BOOLEAN,
+  current_aal TEXT,
+  satisfied BOOLEAN,
+  recovery_codes_remaining INTEGER
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    public.mfa_required_for_user(auth.uid()),
+    EXISTS (
+      SELECT 1 FROM auth.mfa_factors f
+      WHERE f.user_id = auth.uid() AND f.status::TEXT = 'verified'
+    ),
+    COALESCE(auth.jwt() ->> 'aal', 'aal1'),
+    public.mfa_session_satisfied(),
+    (SELECT COUNT(*)::INTEGER FROM public.mfa_recovery_codes c WHERE c.user_id = auth.uid() AND c.used_at IS NULL);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.get_mfa_session_status() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_mfa_session_status() TO authenticated;
+
+-- 4. Enforcement on the core tables
+DROP POLICY IF EXISTS mfa_required ON public.loans;
+CREATE POLICY mfa_required ON public.loans AS RESTRICTIVE
+FOR ALL USING ((SELECT public.mfa_session_satisfied())) WITH CHECK ((SELECT public.mfa_session_satisfied()));
+
+DROP POLICY IF EXISTS mfa_required ON public.loan_payments;
+CREATE POLICY mfa_required ON public.loan_payments AS RESTRICTIVE
+FOR ALL USING ((SELECT public.mfa_session_satisfied())) WITH CHECK ((SELECT public.mfa_session_satisfied()));
+
+DROP POLICY IF EXISTS mfa_required ON public.members;
+CREATE POLICY mfa_required ON public.members AS RESTRICTIVE
+FOR ALL USING ((SELECT public.mfa_session_satisfied())) WITH CHECK ((SELECT public.mfa_session_satisfied()));
+
+DROP POLICY IF EXISTS mfa_required ON public.expenses;
+CREATE POLICY mfa_required ON public.expenses AS RESTRICTIVE
+FOR ALL USING ((SELECT public.mfa_session_satisfied())) WITH CHECK ((SELECT public.mfa_session_satisfied()));
+
+DROP POLICY IF EXISTS mfa_required ON public.journal_entries;
+CREATE POLICY mfa_required ON public.journal_entries AS RESTRICTIVE
+FOR ALL USING ((SELECT public.mfa_session_satisfied())) WITH CHECK ((SELECT public.mfa_session_satisfied()));
+
+-- 5. Recovery codes: generate (from a verified session) and redeem
+CREATE OR REPLACE FUNCTION public.generate_mfa_recovery_codes()
+RETURNS TEXT[] AS $$
+DECLARE
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+  v_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify with your authenticator before creating recovery codes';
+  END IF;
+
+  DELETE FROM public.mfa_recovery_codes c WHERE c.user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := upper(encode(extensions.gen_random_bytes(5), 'hex'));
+    INSERT INTO public.mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), extensions.crypt(v_code, extensions.gen_salt('bf')));
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+  END LOOP;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES ('MFA_RECOVERY_CODES_GENERATED', 'profiles', auth.uid(), NULL, jsonb_build_object('count', 10), auth.uid());
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.generate_mfa_recovery_codes() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_mfa_recovery_codes() TO authenticated;
+
+-- A redeemed code stands in for the lost authenticator: its factors are removed
+-- so the user is sent to enrol a new one before getting back in.
+CREATE OR REPLACE FUNCTION public.redeem_mfa_recovery_code(p_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_code TEXT := upper(regexp_replace(COALESCE(p_code, ''), '[^0-9A-Za-z]', '', 'g'));
+  v_match UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT c.id INTO v_match
+  FROM public.mfa_recovery_codes c
+  WHERE c.user_id = auth.uid()
+    AND c.used_at IS NULL
+    AND extensions.crypt(v_code, c.code_hash) = c.code_hash
+  LIMIT 1;
+
+  IF v_match IS NULL THEN
+    INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+    VALUES ('MFA_RECOVERY_CODE_REJECTED', 'profiles', auth.uid(), NULL, NULL, auth.uid());
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.mfa_recovery_codes SET used_at = NOW() WHERE id = v_match;
+  DELETE FROM auth.mfa_factors f WHERE f.user_id = auth.uid();
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES ('MFA_RECOVERY_CODE_USED', 'profiles', auth.uid(), NULL, NULL, auth.uid());
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.redeem_mfa_recovery_code(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.redeem_mfa_recovery_code(TEXT) TO authenticated;
+
+-- 6. Enrolment report
+CREATE OR REPLACE FUNCTION public.mfa_enrollment_report()
+RETURNS TABLE (
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  role TEXT,
+  branch_name TEXT,
+  is_active BOOLEAN,
+  mfa_required BOOLEAN,
+  enrolled BOOLEAN,
+  enrolled_at TIMESTAMPTZ,
+  recovery_codes_remaining INTEGER,
+  last_sign_in_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can view MFA enrolment';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    p.role::TEXT,
+    b.name,
+    COALESCE(p.is_active, TRUE),
+    p.role::TEXT = ANY (s.mfa_required_roles),
+    f.enrolled_at IS NOT NULL,
+    f.enrolled_at,
+    (SELECT COUNT(*)::INTEGER FROM public.mfa_recovery_codes c WHERE c.user_id = p.id AND c.used_at IS NULL),
+    u.last_sign_in_at
+  FROM public.profiles p
+  JOIN public.system_settings s ON s.id = 1
+  LEFT JOIN public.branches b ON b.id = p.branch_id
+  LEFT JOIN auth.users u ON u.id = p.id
+  LEFT JOIN LATERAL (
+    SELECT MIN(mf.created_at) AS enrolled_at
+    FROM auth.mfa_factors mf
+    WHERE mf.user_id = p.id AND mf.status::TEXT = 'verified'
+  ) f ON TRUE
+  ORDER BY (p.role::TEXT = ANY (s.mfa_required_roles)) DESC, (f.enrolled_at IS NOT NULL), p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.mfa_enrollment_report() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mfa_enrollment_report() TO authenticated;
+
+-- Hints:
+-- 1) Require MFA for branch administrators too:
+--    UPDATE public.system_settings SET mfa_required_roles = ARRAY['super_admin','admin','branch_admin'] WHERE id = 1;
+-- 2) Required users who have not enrolled: SELECT * FROM public.mfa_enrollment_report() WHERE mfa_required AND NOT enrolled;
@@ -0,0 +1,258 @@
+-- Permission Engine
+-- Access is decided by named permissions (loans.edit, backups.restore, ...)
+-- from the catalogue in src/config/permissions.ts instead of role strings:
+--   * role_permissions is the template each role starts from; administrators
+--     with users.manage_permissions can customise it, and reset it to the
+--     defaults below;
+--   * user_permissions grants extra permissions to one user on top of the
+--     template;
+--   * super_admin always holds every permission;
+--   * has_permission() answers the same question in SQL, for RLS policies and
+--     SECURITY DEFINER functions.
+
+-- 1. Per-user grants (the table predates migrations on some installs)
+CREATE TABLE IF NOT EXISTS public.user_permissions (
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    permission TEXT NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, permission)
+);
+
+ALTER TABLE public.user_permissions ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.user_permissions ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- 2. Role templates
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+    role TEXT NOT NULL,
+    permission TEXT NOT NULL,
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (role, permission)
+);
+
+-- Shipped templates, defined only here; they mirror what each role could do before
+-- permissions were enforced, plus the permissions later features ship with
+CREATE OR REPLACE FUNCTION public.default_role_permissions(p_role TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_role
+    WHEN 'admin' THEN ARRAY[
+      'users.view','users.create','users.edit','users.delete','users.activate',
+      'members.view','members.create','members.edit','members.delete','members.search',
+      'groups.view','groups.create','groups.edit','groups.activate',
+      'loans.view','loans.create','loans.approve','loans.approve_changes','loans.disburse','loans.receive_payments','loans.view_overdue','loans.write_off','loans.bulk_payment',
+      'transactions.view','expenses.view','expenses.create','expenses.edit','expenses.delete','expenses.approve','income.view','income.create','income.edit',
+      'ledger.view','ledger.post',
+      'reports.view.realizable','reports.view.dormant','reports.view.bad_debt','reports.export','dashboard.view','analytics.view',
+      'branches.view','branches.create','branches.edit','branches.delete','branches.activate','branches.view_all',
+      'users.manage_permissions','settings.view','security.view','security.edit','audit.view',
+      'backups.view','backups.create','backups.restore',
+      'notifications.view','communications.log','communications.view',
+      'profile.view','profile.edit'
+    ]
+    WHEN 'branch_admin' THEN ARRAY[
+      'users.view',
+      'members.view','members.create','members.edit','members.search',
+      'groups.view','groups.create','groups.edit','groups.activate',
+      'loans.view','loans.create','loans.approve','loans.receive_payments','loans.view_overdue','loans.bulk_payment',
+      'transactions.view','expenses.view','expenses.create','income.view',
+      'ledger.view',
+      'reports.view.realizable','reports.view.dormant','reports.view.bad_debt','reports.export','dashboard.view','analytics.view',
+      'branches.view','security.view',
+      'notifications.view','communications.log','communications.view',
+      'profile.view','profile.edit'
+    ]
+    WHEN 'loan_officer' THEN ARRAY[
+      'members.view','members.create','members.edit','members.search',
+      'groups.view','groups.create','groups.edit',
+      'loans.view','loans.create','loans.receive_payments','loans.view_overdue',
+      'dashboard.view',
+      'notifications.view','communications.log','communications.view',
+      'profile.view','profile.edit','loan_officer.view'
+    ]
+    WHEN 'teller' THEN ARRAY[
+      'members.view','members.search',
+      'loans.view','loans.receive_payments',
+      'dashboard.view',
+      'notifications.view',
+      'profile.view','profile.edit'
+    ]
+    WHEN 'auditor' THEN ARRAY[
+      'users.view','members.view','members.search','groups.view',
+      'loans.view','loans.view_overdue',
+      'transactions.view','expenses.view','income.view',
+      'ledger.view',
+      'reports.view.realizable','reports.view.dormant','reports.view.bad_debt','reports.export','dashboard.view','analytics.view',
+      'branches.view','branches.view_all','security.view','audit.view',
+      'notifications.view','communications.view',
+      'profile.view','profile.edit'
+    ]
+    ELSE ARRAY[]::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT r.role, unnest(public.default_role_permissions(r.role))
+FROM (VALUES ('admin'), ('branch_admin'), ('loan_officer'), ('teller'), ('auditor')) AS r(role)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- 3. Helpers
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND COALESCE(p.is_active, TRUE)
+      AND (
+        p.role::TEXT = 'super_admin'
+        OR EXISTS (SELECT 1 FROM public.role_permissions rp WHERE rp.role = p.role::TEXT AND rp.permission = p_permission)
+        OR EXISTS (SELECT 1 FROM public.user_permissions up WHERE up.user_id = p.id AND up.permission = p_permission)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Left executable by every role so policies can evaluate it for any caller; anon gets FALSE
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated;
+
+-- Role template plus personal grants; super_admin is resolved by the client
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS SETOF TEXT AS $$
+  SELECT rp.permission
+  FROM public.profiles p
+  JOIN public.role_permissions rp ON rp.role = p.role::TEXT
+  WHERE p.id = auth.uid() AND COALESCE(p.is_active, TRUE)
+  UNION
+  SELECT up.permission
+  FROM public.user_permissions up
+  JOIN public.profiles p ON p.id = up.user_id
+  WHERE up.user_id = auth.uid() AND COALESCE(p.is_active, TRUE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.get_my_permissions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated;
+
+-- 4. Managing templates
+CREATE OR REPLACE FUNCTION public.set_role_permissions(p_role TEXT, p_permissions TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_old TEXT[];
+  v_new TEXT[];
+BEGIN
+  IF NOT public.has_permission('users.manage_permissions') THEN
+    RAISE EXCEPTION 'You do not have permission to manage role permissions';
+  END IF;
+
+  IF p_role NOT IN ('admin','branch_admin','loan_officer','teller','auditor') THEN
+    RAISE EXCEPTION 'Role % has no editable template', p_role;
+  END IF;
+
+  -- Administrators shape the other roles; only a super admin changes what administrators can do
+  IF p_role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Only a Super Admin can change the Admin template';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(COALESCE(p_permissions, ARRAY[]::TEXT[])) AS perm WHERE perm !~ '^[a-z_]+(\.[a-z_]+)+$') THEN
+    RAISE EXCEPTION 'Permission names look like area.action';
+  END IF;
+
+  SELECT COALESCE(array_agg(rp.permission ORDER BY rp.permission), ARRAY[]::TEXT[]) INTO v_old
+  FROM public.role_permissions rp WHERE rp.role = p_role;
+
+  SELECT COALESCE(array_agg(DISTINCT perm ORDER BY perm), ARRAY[]::TEXT[]) INTO v_new
+  FROM unnest(COALESCE(p_permissions, ARRAY[]::TEXT[])) AS perm;
+
+  DELETE FROM public.role_permissions rp WHERE rp.role = p_role AND rp.permission <> ALL (v_new);
+
+  INSERT INTO public.role_permissions (role, permission, updated_by, updated_at)
+  SELECT p_role, perm, auth.uid(), NOW() FROM unnest(v_new) AS perm
+  ON CONFLICT (role, permission) DO NOTHING;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'ROLE_PERMISSIONS_UPDATED',
+    'role_permissions',
+    auth.uid(),
+    jsonb_build_object('role', p_role, 'permissions', to_jsonb(v_old)),
+    jsonb_build_object('role', p_role, 'permissions', to_jsonb(v_new)),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.set_role_permissions(TEXT, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_role_permissions(TEXT, TEXT[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reset_role_permissions(p_role TEXT)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.set_role_permissions(p_role, public.default_role_permissions(p_role));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.reset_role_permissions(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reset_role_permissions(TEXT) TO authenticated;
+
+-- 5. Access to the permission tables
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Templates are not secret; everyone may see what their role allows
+DROP POLICY IF EXISTS role_permissions_select ON public.role_permissions;
+CREATE POLICY role_permissions_select ON public.role_permissions
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+REVOKE INSERT, UPDATE, DELETE ON public.role_permissions FROM authenticated, anon;
+
+DROP POLICY IF EXISTS user_permissions_select ON public.user_permissions;
+CREATE POLICY user_permissions_select ON public.user_permissions
+FOR SELECT USING (user_id = auth.uid() OR public.has_permission('users.manage_permissions'));
+
+-- Nobody but a super admin grants permissions to themselves
+DROP POLICY IF EXISTS user_permissions_manage ON public.user_permissions;
+CREATE POLICY user_permissions_manage ON public.user_permissions
+FOR ALL USING (
+  public.has_permission('users.manage_permissions')
+  AND (user_id <> auth.uid() OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'super_admin'))
+) WITH CHECK (
+  public.has_permission('users.manage_permissions')
+  AND (user_id <> auth.uid() OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'super_admin'))
+);
+
+-- 6. Policies that now ask for a permission instead of a role
+DROP POLICY IF EXISTS audit_logs_select ON public.audit_logs;
+CREATE POLICY audit_logs_select ON public.audit_logs
+FOR SELECT USING (public.has_permission('audit.view'));
+
+CREATE OR REPLACE FUNCTION public.get_audit_log_users()
+RETURNS TABLE (user_id UUID, full_name TEXT, email TEXT) AS $$
+BEGIN
+  IF NOT public.has_permission('audit.view') THEN
+    RAISE EXCEPTION 'You do not have access to the audit trail';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, p.email
+  FROM public.profiles p
+  WHERE EXISTS (SELECT 1 FROM public.audit_logs al WHERE al.user_id = p.id)
+  ORDER BY p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS backup_metadata_admin ON public.backup_metadata;
+DROP POLICY IF EXISTS backup_metadata_select ON public.backup_metadata;
+CREATE POLICY backup_metadata_select ON public.backup_metadata
+FOR SELECT USING (public.has_permission('backups.view'));
+
+DROP POLICY IF EXISTS backup_metadata_write ON public.backup_metadata;
+CREATE POLICY backup_metadata_write ON public.backup_metadata
+FOR ALL USING (public.has_permission('backups.create'))
+WITH CHECK (public.has_permission('backups.create'));
+
+-- Hints:
+-- 1) Can the current user restore backups? SELECT public.has_permission('backups.restore');
+-- 2) Let tellers record expenses: SELECT public.set_role_permissions('teller',
+--      (SELECT array_agg(permission) FROM public.role_permissions WHERE role = 'teller') || ARRAY['expenses.create']);
+-- 3) Put a role back to the shipped template: SELECT public.reset_role_permissions('branch_admin');
@@ -0,0 +1,470 @@
+-- Maker-Checker
+-- Editing, deleting and writing off a loan no longer happen in one step. The
+-- person making the change files a pending change with the proposed values and
+-- a reason; a second user holding loans.approve_changes approves or rejects it.
+--   * the requester can never approve their own change;
+--   * approval applies the change in the same transaction that marks it
+--     approved, so it either all happens or none of it does;
+--   * an edit is refused at approval if the loan has moved on since the
+--     request (the values it was made against are kept with the request);
+--   * one open change per loan;
+--   * terms, deletion and write-off can no longer be changed by a direct
+--     update from the app - only through an approved change.
+-- delete_loan and write_off_loan are replaced by request_pending_change.
+
+-- 1. Pending changes
+CREATE TABLE IF NOT EXISTS public.pending_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    change_type TEXT NOT NULL CHECK (change_type IN ('loan_edit','loan_delete','loan_write_off')),
+    table_name TEXT NOT NULL DEFAULT 'loans',
+    record_id UUID NOT NULL,
+    -- Edits: the new values; write-offs and deletions: empty
+    proposed_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+    -- The same fields as they were when the change was requested
+    current_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','approved','rejected','cancelled')),
+    requested_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    review_notes TEXT,
+    applied_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_changes_status ON public.pending_changes(status, requested_at);
+CREATE INDEX IF NOT EXISTS idx_pending_changes_record ON public.pending_changes(table_name, record_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_changes_one_open
+    ON public.pending_changes(table_name, record_id) WHERE status = 'pending';
+
+-- 2. RLS: requesters see their own, approvers and auditors see all; written only through the functions below
+ALTER TABLE public.pending_changes ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON public.pending_changes FROM authenticated, anon;
+
+DROP POLICY IF EXISTS pending_changes_select ON public.pending_changes;
+CREATE POLICY pending_changes_select ON public.pending_changes
+FOR SELECT USING (
+  requested_by = auth.uid()
+  OR public.has_permission('loans.approve_changes')
+  OR public.has_permission('audit.view')
+);
+
+-- 3. Administrators approve changes by default
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('admin', 'loans.approve_changes')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- 4. What an edit may touch. Once a loan is disbursed its terms change by restructuring it.
+CREATE OR REPLACE FUNCTION public.loan_editable_columns(p_status TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE
+    WHEN p_status = 'pending' THEN ARRAY[
+      'loan_program','principal_amount','interest_rate','interest_method','term_months','repayment_schedule',
+      'issue_date','maturity_date','installment_type','installment_count','payment_weeks','loan_officer_id',
+      'processing_fee','interest_disbursed','total_disbursed'
+    ]
+    ELSE ARRAY['loan_officer_id']
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Direct updates from the app run as "authenticated"; the functions here are
+-- SECURITY DEFINER and run as their owner, so they pass.
+CREATE OR REPLACE FUNCTION public.guard_loan_sensitive_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+       NEW.principal_amount IS DISTINCT FROM OLD.principal_amount
+    OR NEW.interest_rate IS DISTINCT FROM OLD.interest_rate
+    OR NEW.loan_program IS DISTINCT FROM OLD.loan_program
+    OR NEW.installment_type IS DISTINCT FROM OLD.installment_type
+    OR NEW.installment_count IS DISTINCT FROM OLD.installment_count
+    OR NEW.is_deleted IS DISTINCT FROM OLD.is_deleted
+    OR (NEW.status::TEXT = 'written_off' AND OLD.status::TEXT <> 'written_off')
+  ) THEN
+    RAISE EXCEPTION 'Loan terms, deletion and write-off go through a change request';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_loan_sensitive_columns ON public.loans;
+CREATE TRIGGER guard_loan_sensitive_columns
+BEFORE UPDATE ON public.loans
+FOR EACH ROW EXECUTE FUNCTION public.guard_loan_sensitive_columns();
+
+-- 5. Write-off, now only reached through an approved change
+DROP FUNCTION IF EXISTS public.write_off_loan(UUID, UUID, TEXT);
+DROP FUNCTION IF EXISTS public.delete_loan(UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.apply_loan_write_off(p_loan_id UUID, p_notes TEXT, p_written_off_by UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_loan public.loans%ROWTYPE;
+  v_principal DECIMAL(15,2);
+  v_balance DECIMAL(15,2);
+  v_allowance DECIMAL(15,2);
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+  IF v_loan.status::TEXT <> 'defaulted' THEN
+    RAISE EXCEPTION 'Only defaulted loans can be written off (this loan is %)', v_loan.status;
+  END IF;
+  IF v_loan.branch_id IS NULL THEN
+    RAISE EXCEPTION 'The loan has no branch to charge the write-off to';
+  END IF;
+
+  SELECT ap.outstanding_principal INTO v_principal
+  FROM public.loan_arrears_positions() ap
+  WHERE ap.loan_id = p_loan_id;
+  v_principal := COALESCE(v_principal, 0);
+  v_balance := public.loan_outstanding_balance(p_loan_id);
+
+  IF v_principal > 0 THEN
+    v_allowance := public.branch_provision_balance(v_loan.branch_id);
+
+    -- Not enough provided for: charge the difference to provision expense now
+    IF v_allowance < v_principal THEN
+      INSERT INTO public.provision_entries (entry_date, branch_id, entry_type, amount, loan_id, description, created_by)
+      VALUES (
+        CURRENT_DATE,
+        v_loan.branch_id,
+        'charge',
+        v_principal - GREATEST(v_allowance, 0),
+        p_loan_id,
+        'Unprovided write-off of ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+        auth.uid()
+      );
+    END IF;
+
+    INSERT INTO public.provision_entries (entry_date, branch_id, entry_type, amount, loan_id, description, created_by)
+    VALUES (
+      CURRENT_DATE,
+      v_loan.branch_id,
+      'write_off',
+      v_principal,
+      p_loan_id,
+      'Write-off of ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      auth.uid()
+    );
+  END IF;
+
+  UPDATE public.loans
+  SET status = 'written_off',
+      written_off_date = CURRENT_DATE,
+      written_off_amount = v_balance,
+      written_off_by = p_written_off_by,
+      write_off_reason = TRIM(p_notes),
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_WRITTEN_OFF',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'balance', v_balance),
+    jsonb_build_object(
+      'status', 'written_off',
+      'written_off_amount', v_balance,
+      'principal_from_provision', v_principal,
+      'notes', p_notes,
+      'requested_by', p_written_off_by
+    ),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.apply_loan_write_off(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 6. Request
+CREATE OR REPLACE FUNCTION public.request_pending_change(
+  p_change_type TEXT,
+  p_record_id UUID,
+  p_proposed JSONB,
+  p_reason TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans%ROWTYPE;
+  v_allowed TEXT[];
+  v_proposed JSONB := '{}'::JSONB;
+  v_current JSONB := '{}'::JSONB;
+  v_change_id UUID;
+  v_bad_key TEXT;
+BEGIN
+  IF NOT public.has_permission(
+    CASE p_change_type
+      WHEN 'loan_edit' THEN 'loans.edit'
+      WHEN 'loan_delete' THEN 'loans.delete'
+      WHEN 'loan_write_off' THEN 'loans.write_off'
+    END
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to request this change';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for the change';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_record_id;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.pending_changes pc
+    WHERE pc.table_name = 'loans' AND pc.record_id = p_record_id AND pc.status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This loan already has a change waiting for approval';
+  END IF;
+
+  IF p_change_type = 'loan_edit' THEN
+    IF v_loan.status::TEXT IN ('repaid','written_off') THEN
+      RAISE EXCEPTION 'A % loan cannot be edited', v_loan.status;
+    END IF;
+
+    v_allowed := public.loan_editable_columns(v_loan.status::TEXT);
+    SELECT k INTO v_bad_key
+    FROM jsonb_object_keys(COALESCE(p_proposed, '{}'::JSONB)) AS k
+    WHERE k <> ALL (v_allowed)
+    LIMIT 1;
+    IF v_bad_key IS NOT NULL THEN
+      RAISE EXCEPTION '% cannot be changed on a % loan', v_bad_key, v_loan.status;
+    END IF;
+
+    -- Keep only what actually changes, and what it was
+    SELECT
+      COALESCE(jsonb_object_agg(e.key, e.value), '{}'::JSONB),
+      COALESCE(jsonb_object_agg(e.key, to_jsonb(v_loan) -> e.key), '{}'::JSONB)
+    INTO v_proposed, v_current
+    FROM jsonb_each(COALESCE(p_proposed, '{}'::JSONB)) e
+    WHERE (to_jsonb(v_loan) -> e.key) IS DISTINCT FROM e.value;
+
+    IF v_proposed = '{}'::JSONB THEN
+      RAISE EXCEPTION 'Nothing to change: the proposed values match the loan';
+    END IF;
+
+    -- Fails here rather than at approval if a value does not fit its column
+    PERFORM jsonb_populate_record(NULL::public.loans, v_proposed);
+  ELSIF p_change_type = 'loan_delete' THEN
+    v_current := jsonb_build_object('status', v_loan.status, 'current_balance', v_loan.current_balance);
+  ELSIF p_change_type = 'loan_write_off' THEN
+    IF v_loan.status::TEXT <> 'defaulted' THEN
+      RAISE EXCEPTION 'Only defaulted loans can be written off (this loan is %)', v_loan.status;
+    END IF;
+    v_current := jsonb_build_object('status', v_loan.status, 'current_balance', public.loan_outstanding_balance(p_record_id));
+  ELSE
+    RAISE EXCEPTION 'Unknown change type %', p_change_type;
+  END IF;
+
+  INSERT INTO public.pending_changes (change_type, table_name, record_id, proposed_values, current_values, reason, requested_by)
+  VALUES (p_change_type, 'loans', p_record_id, v_proposed, v_current, btrim(p_reason), auth.uid())
+  RETURNING id INTO v_change_id;
+
+  PERFORM public.notify_users(
+    ARRAY(
+      SELECT p.id
+      FROM public.profiles p
+      WHERE p.id IS DISTINCT FROM auth.uid()
+        AND (
+          p.role::TEXT = 'super_admin'
+          OR EXISTS (SELECT 1 FROM public.role_permissions rp WHERE rp.role = p.role::TEXT AND rp.permission = 'loans.approve_changes')
+          OR EXISTS (SELECT 1 FROM public.user_permissions up WHERE up.user_id = p.id AND up.permission = 'loans.approve_changes')
+        )
+    ),
+    'Change awaiting approval',
+    replace(p_change_type, '_', ' ') || ' requested for loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || ': ' || btrim(p_reason),
+    'info',
+    'change_request',
+    'pending_change',
+    v_change_id,
+    'pending_change:' || v_change_id
+  );
+
+  RETURN v_change_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.request_pending_change(TEXT, UUID, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_pending_change(TEXT, UUID, JSONB, TEXT) TO authenticated;
+
+-- 7. Approve: apply and record in one transaction
+CREATE OR REPLACE FUNCTION public.approve_pending_change(p_change_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_change public.pending_changes%ROWTYPE;
+  v_loan public.loans%ROWTYPE;
+  v_stale TEXT;
+  v_set TEXT;
+BEGIN
+  IF NOT public.has_permission('loans.approve_changes') THEN
+    RAISE EXCEPTION 'You do not have permission to approve changes';
+  END IF;
+
+  SELECT * INTO v_change FROM public.pending_changes WHERE id = p_change_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request % not found', p_change_id;
+  END IF;
+  IF v_change.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change has already been %', v_change.status;
+  END IF;
+  IF v_change.requested_by IS NOT DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'A change must be approved by someone other than the person who requested it';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_change.record_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'The loan no longer exists';
+  END IF;
+
+  IF v_change.change_type = 'loan_edit' THEN
+    SELECT c.key INTO v_stale
+    FROM jsonb_each(v_change.current_values) c
+    WHERE (to_jsonb(v_loan) -> c.key) IS DISTINCT FROM c.value
+    LIMIT 1;
+    IF v_stale IS NOT NULL THEN
+      RAISE EXCEPTION 'The loan''s % has changed since this request was made; reject it and request the change again', v_stale;
+    END IF;
+
+    SELECT string_agg(format('%1$I = (jsonb_populate_record(l, $1)).%1$I', k), ', ')
+    INTO v_set
+    FROM jsonb_object_keys(v_change.proposed_values) AS k;
+
+    -- A loan that is not yet disbursed owes what it will disburse
+    IF v_loan.status::TEXT = 'pending' AND v_change.proposed_values ? 'total_disbursed' THEN
+      v_set := v_set || ', current_balance = (jsonb_populate_record(l, $1)).total_disbursed';
+    END IF;
+
+    EXECUTE format('UPDATE public.loans l SET %s, updated_at = NOW() WHERE l.id = $2', v_set)
+    USING v_change.proposed_values, v_change.record_id;
+  ELSIF v_change.change_type = 'loan_delete' THEN
+    UPDATE public.loans
+    SET is_deleted = TRUE,
+        deleted_at = NOW(),
+        deleted_by = v_change.requested_by
+    WHERE id = v_change.record_id;
+  ELSIF v_change.change_type = 'loan_write_off' THEN
+    PERFORM public.apply_loan_write_off(v_change.record_id, v_change.reason, v_change.requested_by);
+  END IF;
+
+  UPDATE public.pending_changes
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_notes = NULLIF(btrim(p_notes), ''),
+      applied_at = NOW()
+  WHERE id = p_change_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'CHANGE_APPROVED',
+    v_change.table_name,
+    v_change.record_id,
+    v_change.current_values,
+    jsonb_build_object(
+      'change_id', p_change_id,
+      'change_type', v_change.change_type,
+      'proposed', v_change.proposed_values,
+      'requested_by', v_change.requested_by,
+      'approved_by', auth.uid()
+    ),
+    auth.uid()
+  );
+
+  PERFORM public.notify_users(
+    ARRAY[v_change.requested_by],
+    'Change approved',
+    'Your ' || replace(v_change.change_type, '_', ' ') || ' for loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || ' was approved and applied.',
+    'success',
+    'change_request',
+    'pending_change',
+    p_change_id,
+    'pending_change_reviewed:' || p_change_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.approve_pending_change(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_pending_change(UUID, TEXT) TO authenticated;
+
+-- 8. Reject, or withdraw one's own request
+CREATE OR REPLACE FUNCTION public.reject_pending_change(p_change_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_change public.pending_changes%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('loans.approve_changes') THEN
+    RAISE EXCEPTION 'You do not have permission to reject changes';
+  END IF;
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a change';
+  END IF;
+
+  UPDATE public.pending_changes
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_notes = btrim(p_reason)
+  WHERE id = p_change_id
+    AND status = 'pending'
+    AND requested_by IS DISTINCT FROM auth.uid()
+  RETURNING * INTO v_change;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found, already reviewed, or your own (withdraw it instead)';
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'CHANGE_REJECTED',
+    v_change.table_name,
+    v_change.record_id,
+    NULL,
+    jsonb_build_object('change_id', p_change_id, 'change_type', v_change.change_type, 'reason', btrim(p_reason)),
+    auth.uid()
+  );
+
+  PERFORM public.notify_users(
+    ARRAY[v_change.requested_by],
+    'Change rejected',
+    'Your ' || replace(v_change.change_type, '_', ' ') || ' request was rejected: ' || btrim(p_reason),
+    'warning',
+    'change_request',
+    'pending_change',
+    p_change_id,
+    'pending_change_reviewed:' || p_change_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.reject_pending_change(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reject_pending_change(UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.cancel_pending_change(p_change_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.pending_changes
+  SET status = 'cancelled',
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_change_id
+    AND status = 'pending'
+    AND requested_by = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only your own pending requests can be withdrawn';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.cancel_pending_change(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_pending_change(UUID) TO authenticated;
+
+-- Hints:
+-- 1) Waiting for approval: SELECT * FROM public.pending_changes WHERE status = 'pending' ORDER BY requested_at;
+-- 2) Who approved what this month:
+--    SELECT change_type, record_id, requested_by, reviewed_by, applied_at FROM public.pending_changes
+--    WHERE status = 'approved' AND applied_at >= date_trunc('month', NOW());
+-- 3) Let branch administrators approve changes too:
+--    INSERT INTO public.role_permissions (role, permission) VALUES ('branch_admin', 'loans.approve_changes');
@@ -0,0 +1,360 @@
+-- Branch Isolation
+-- Which branches a user works in is recorded in user_branch_roles, one row per
+-- branch, and the database - not the screens - decides what they can see:
+--   * every operational table gets a restrictive branch_scope policy, so rows
+--     from a branch the user is not assigned to are neither readable nor
+--     writable, whatever the table's other policies allow;
+--   * tables without their own branch_id are scoped through the loan, member
+--     or group they belong to;
+--   * users holding branches.view_all (super admins, and admins and auditors
+--     by default) see every branch;
+--   * a user with several branches can narrow the session to one of them with
+--     set_active_branch; NULL goes back to all of them;
+--   * rows with no branch are only visible to users who see every branch.
+-- profiles.branch_id stays the user's home branch and is kept in
+-- user_branch_roles automatically.
+
+-- 1. Branch assignments
+CREATE TABLE IF NOT EXISTS public.user_branch_roles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    branch_id BIGINT NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+    -- The role the user holds at this branch; permissions still come from profiles.role
+    role TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    assigned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, branch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_branch_roles_branch ON public.user_branch_roles(branch_id) WHERE is_active;
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS active_branch_id BIGINT REFERENCES public.branches(id) ON DELETE SET NULL;
+
+-- Everyone starts with their home branch
+INSERT INTO public.user_branch_roles (user_id, branch_id, role)
+SELECT p.id, p.branch_id, p.role::TEXT
+FROM public.profiles p
+WHERE p.branch_id IS NOT NULL
+ON CONFLICT (user_id, branch_id) DO NOTHING;
+
+-- Changing a user's home branch or role keeps the matching assignment in step
+CREATE OR REPLACE FUNCTION public.sync_home_branch_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.branch_id IS NOT NULL THEN
+    INSERT INTO public.user_branch_roles (user_id, branch_id, role, assigned_by)
+    VALUES (NEW.id, NEW.branch_id, NEW.role::TEXT, auth.uid())
+    ON CONFLICT (user_id, branch_id) DO UPDATE
+      SET role = EXCLUDED.role, is_active = TRUE;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_sync_home_branch_role ON public.profiles;
+CREATE TRIGGER trg_sync_home_branch_role
+AFTER INSERT OR UPDATE OF branch_id, role ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.sync_home_branch_role();
+
+-- 2. Seeing every branch is a permission: administrators and auditors by default
+INSERT INTO public.role_permissions (role, permission)
+VALUES ('admin', 'branches.view_all'), ('auditor', 'branches.view_all')
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- 3. Scope helpers
+-- The caller's reach: every branch, or the listed ones; active_branch_id narrows either
+-- to a single branch and is ignored if the user has since lost that branch
+CREATE OR REPLACE FUNCTION public.my_branch_scope()
+RETURNS TABLE (all_branches BOOLEAN, branch_ids BIGINT[], active_branch_id BIGINT) AS $$
+  WITH me AS (
+    SELECT
+      p.active_branch_id,
+      public.has_permission('branches.view_all') AS all_branches,
+      COALESCE(ARRAY(
+        SELECT ubr.branch_id FROM public.user_branch_roles ubr
+        WHERE ubr.user_id = p.id AND ubr.is_active
+      ), ARRAY[]::BIGINT[]) AS branch_ids
+    FROM public.profiles p
+    WHERE p.id = auth.uid() AND COALESCE(p.is_active, TRUE)
+  )
+  SELECT
+    me.all_branches,
+    me.branch_ids,
+    CASE WHEN me.all_branches OR me.active_branch_id = ANY(me.branch_ids) THEN me.active_branch_id END
+  FROM me;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.my_branch_scope() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.my_branch_scope() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.can_access_branch(p_branch_id BIGINT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN s.active_branch_id IS NOT NULL THEN p_branch_id = s.active_branch_id
+      WHEN s.all_branches THEN TRUE
+      ELSE p_branch_id = ANY(s.branch_ids)
+    END
+    FROM public.my_branch_scope() s
+  ), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Left executable by every role so policies can evaluate it for any caller; anon gets FALSE
+GRANT EXECUTE ON FUNCTION public.can_access_branch(BIGINT) TO authenticated;
+
+-- Parent lookups read past RLS so a child row is judged by its parent's branch alone
+CREATE OR REPLACE FUNCTION public.loan_branch_id(p_loan_id UUID)
+RETURNS BIGINT AS $$
+  SELECT COALESCE(l.branch_id, m.branch_id)
+  FROM public.loans l
+  LEFT JOIN public.members m ON m.id = l.member_id
+  WHERE l.id = p_loan_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.member_branch_id(p_member_id UUID)
+RETURNS BIGINT AS $$
+  SELECT m.branch_id FROM public.members m WHERE m.id = p_member_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.group_branch_id(p_group_id BIGINT)
+RETURNS BIGINT AS $$
+  SELECT g.branch_id FROM public.groups g WHERE g.id = p_group_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.loan_branch_id(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.member_branch_id(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.group_branch_id(BIGINT) TO authenticated;
+
+-- SECURITY DEFINER functions read past RLS; the loan-level ones call this so a loan
+-- in another branch is refused. Jobs and webhooks run without a user and are not scoped.
+CREATE OR REPLACE FUNCTION public.assert_loan_branch_access(p_loan_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.can_access_branch(public.loan_branch_id(p_loan_id)) THEN
+    RAISE EXCEPTION 'This loan belongs to a branch you do not have access to';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.assert_loan_branch_access(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assert_loan_branch_access(UUID) TO authenticated;
+
+-- 4. The switcher
+CREATE OR REPLACE FUNCTION public.get_my_branches()
+RETURNS TABLE (branch_id BIGINT, branch_name TEXT, role TEXT, is_home BOOLEAN, is_active_branch BOOLEAN) AS $$
+  SELECT
+    b.id,
+    b.name::TEXT,
+    ubr.role,
+    COALESCE(b.id = p.branch_id, FALSE),
+    COALESCE(b.id = s.active_branch_id, FALSE)
+  FROM public.my_branch_scope() s
+  JOIN public.profiles p ON p.id = auth.uid()
+  JOIN public.branches b ON s.all_branches OR b.id = ANY(s.branch_ids)
+  LEFT JOIN public.user_branch_roles ubr ON ubr.user_id = p.id AND ubr.branch_id = b.id AND ubr.is_active
+  ORDER BY b.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.get_my_branches() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_branches() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_active_branch(p_branch_id BIGINT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_branch_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.my_branch_scope() s
+    WHERE s.all_branches OR p_branch_id = ANY(s.branch_ids)
+  ) THEN
+    RAISE EXCEPTION 'You are not assigned to this branch';
+  END IF;
+
+  UPDATE public.profiles SET active_branch_id = p_branch_id WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.set_active_branch(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_active_branch(BIGINT) TO authenticated;
+
+-- 5. Managing assignments
+ALTER TABLE public.user_branch_roles ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON public.user_branch_roles FROM authenticated, anon;
+
+DROP POLICY IF EXISTS user_branch_roles_select ON public.user_branch_roles;
+CREATE POLICY user_branch_roles_select ON public.user_branch_roles
+FOR SELECT USING (user_id = auth.uid() OR public.has_permission('users.view'));
+
+-- Replaces a user's branches with the given list; the home branch is always kept
+CREATE OR REPLACE FUNCTION public.set_user_branches(p_user_id UUID, p_branch_ids BIGINT[])
+RETURNS VOID AS $$
+DECLARE
+  v_old BIGINT[];
+  v_new BIGINT[];
+  v_home BIGINT;
+  v_role TEXT;
+BEGIN
+  IF NOT public.has_permission('users.manage_permissions') THEN
+    RAISE EXCEPTION 'You do not have permission to assign branches';
+  END IF;
+
+  IF p_user_id = auth.uid() AND NOT public.is_super_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot change your own branches';
+  END IF;
+
+  SELECT branch_id, role::TEXT INTO v_home, v_role FROM public.profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT COALESCE(array_agg(branch_id ORDER BY branch_id), ARRAY[]::BIGINT[]) INTO v_old
+  FROM public.user_branch_roles WHERE user_id = p_user_id AND is_active;
+
+  SELECT COALESCE(array_agg(DISTINCT b ORDER BY b), ARRAY[]::BIGINT[]) INTO v_new
+  FROM unnest(COALESCE(p_branch_ids, ARRAY[]::BIGINT[]) || CASE WHEN v_home IS NULL THEN ARRAY[]::BIGINT[] ELSE ARRAY[v_home] END) AS b;
+
+  UPDATE public.user_branch_roles SET is_active = FALSE
+  WHERE user_id = p_user_id AND NOT (branch_id = ANY(v_new));
+
+  INSERT INTO public.user_branch_roles (user_id, branch_id, role, assigned_by)
+  SELECT p_user_id, b, v_role, auth.uid() FROM unnest(v_new) AS b
+  ON CONFLICT (user_id, branch_id) DO UPDATE
+    SET is_active = TRUE, assigned_by = EXCLUDED.assigned_by, assigned_at = NOW()
+    WHERE NOT user_branch_roles.is_active;
+
+  -- A removed branch cannot stay selected in the switcher
+  UPDATE public.profiles SET active_branch_id = NULL
+  WHERE id = p_user_id AND active_branch_id IS NOT NULL AND NOT (active_branch_id = ANY(v_new));
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'USER_BRANCHES_UPDATED',
+    'user_branch_roles',
+    p_user_id,
+    jsonb_build_object('branch_ids', to_jsonb(v_old)),
+    jsonb_build_object('branch_ids', to_jsonb(v_new)),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.set_user_branches(UUID, BIGINT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_branches(UUID, BIGINT[]) TO authenticated;
+
+-- 6. New rows land in the user's branch when the screen does not pick one
+CREATE OR REPLACE FUNCTION public.default_row_branch()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.branch_id IS NULL AND auth.uid() IS NOT NULL THEN
+    SELECT COALESCE(s.active_branch_id, p.branch_id) INTO NEW.branch_id
+    FROM public.my_branch_scope() s
+    JOIN public.profiles p ON p.id = auth.uid()
+    WHERE NOT s.all_branches OR s.active_branch_id IS NOT NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['members','groups','loans','expenses'] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = t AND column_name = 'branch_id'
+    ) THEN
+      EXECUTE format('DROP TRIGGER IF EXISTS trg_default_row_branch ON public.%I', t);
+      EXECUTE format(
+        'CREATE TRIGGER trg_default_row_branch BEFORE INSERT ON public.%I FOR EACH ROW EXECUTE FUNCTION public.default_row_branch()',
+        t
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- 7. Enforcement on the operational tables
+-- (table, column the scope depends on, branch expression). A table is skipped if it
+-- or the column does not exist. Tables that had RLS switched off get it switched on
+-- with an open policy, so branch scope is the only new restriction.
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT * FROM (VALUES
+      ('members', 'branch_id', 'branch_id::BIGINT'),
+      ('groups', 'branch_id', 'branch_id::BIGINT'),
+      ('loans', 'branch_id', 'COALESCE(branch_id::BIGINT, public.member_branch_id(member_id))'),
+      ('expenses', 'branch_id', 'branch_id::BIGINT'),
+      ('expense_budgets', 'branch_id', 'branch_id::BIGINT'),
+      ('loan_provisions', 'branch_id', 'branch_id::BIGINT'),
+      ('provision_entries', 'branch_id', 'branch_id::BIGINT'),
+      ('transactions', 'branch_id', 'COALESCE(branch_id::BIGINT, public.loan_branch_id(loan_id), public.member_branch_id(member_id))'),
+      ('loan_payments', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('loan_installments', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('repayments', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('payments', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('loan_penalties', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('loan_restructures', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('loan_settlements', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('loan_approvals', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('loan_guarantors', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('collection_logs', 'loan_id', 'public.loan_branch_id(loan_id)'),
+      ('communication_logs', 'loan_id', 'COALESCE(public.loan_branch_id(loan_id), public.member_branch_id(member_id))'),
+      ('mobile_money_receipts', 'loan_id', 'COALESCE(public.loan_branch_id(loan_id), public.member_branch_id(member_id))'),
+      -- Its branch_id references an old uuid branches table on some installs
+      ('realizable_assets', 'loan_id', 'COALESCE(public.loan_branch_id(loan_id), public.member_branch_id(member_id))'),
+      ('next_of_kin', 'member_id', 'public.member_branch_id(member_id)'),
+      ('savings_accounts', 'member_id', 'public.member_branch_id(member_id)'),
+      ('group_meetings', 'group_id', 'public.group_branch_id(group_id)')
+    ) AS v(table_name, scope_column, branch_expr)
+  LOOP
+    CONTINUE WHEN NOT EXISTS (
+      SELECT 1 FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = r.table_name AND c.column_name = r.scope_column
+    );
+
+    IF NOT (SELECT relrowsecurity FROM pg_class WHERE oid = format('public.%I', r.table_name)::regclass) THEN
+      EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', r.table_name);
+      EXECUTE format('DROP POLICY IF EXISTS branch_scope_open ON public.%I', r.table_name);
+      EXECUTE format('CREATE POLICY branch_scope_open ON public.%I FOR ALL TO authenticated USING (TRUE) WITH CHECK (TRUE)', r.table_name);
+    END IF;
+
+    EXECUTE format('DROP POLICY IF EXISTS branch_scope ON public.%I', r.table_name);
+    EXECUTE format(
+      'CREATE POLICY branch_scope ON public.%I AS RESTRICTIVE FOR ALL USING (public.can_access_branch(%s)) WITH CHECK (public.can_access_branch(%s))',
+      r.table_name, r.branch_expr, r.branch_expr
+    );
+  END LOOP;
+END $$;
+
+-- The ledger has its own read policy; branch admins were limited to their home branch
+DROP POLICY IF EXISTS journal_entries_select ON public.journal_entries;
+CREATE POLICY journal_entries_select ON public.journal_entries
+FOR SELECT USING (public.has_permission('ledger.view') AND public.can_access_branch(branch_id));
+
+-- The detail views must keep reading as the caller, or they would bypass the policies above
+DO $$
+DECLARE
+  v TEXT;
+BEGIN
+  FOREACH v IN ARRAY ARRAY['loans_with_details','members_with_details','group_summary_view'] LOOP
+    IF EXISTS (SELECT 1 FROM information_schema.views WHERE table_schema = 'public' AND table_name = v) THEN
+      EXECUTE format('ALTER VIEW public.%I SET (security_invoker = true)', v);
+    END IF;
+  END LOOP;
+END $$;
+
+-- Hints:
+-- 1) Who works where: SELECT p.full_name, b.name, ubr.role FROM public.user_branch_roles ubr
+--    JOIN public.profiles p ON p.id = ubr.user_id JOIN public.branches b ON b.id = ubr.branch_id WHERE ubr.is_active;
+-- 2) Give a loan officer a second branch: SELECT public.set_user_branches('<user-id>', ARRAY[1, 2]);
+-- 3) Let branch administrators see every branch:
+--    INSERT INTO public.role_permissions (role, permission) VALUES ('branch_admin', 'branches.view_all');
+-- 4) test_branch_isolation.sql checks a loan officer cannot read another branch.
+-- 5) A new loan-level SECURITY DEFINER function reads past RLS: have it call
+--    PERFORM public.assert_loan_branch_access(p_loan_id), or filter with public.can_access_branch(...).
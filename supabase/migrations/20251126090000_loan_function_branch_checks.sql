@@ -0,0 +1,1541 @@
+-- Branch checks in the loan-level SECURITY DEFINER functions
+-- These functions read past RLS, so the branch policies of 20251125090000 do not
+-- reach them. Each is redefined here unchanged except for a call to
+-- public.assert_loan_branch_access on the loan it works on, which refuses a loan
+-- from a branch the caller cannot access. Jobs and webhooks (no user) are not scoped.
+
+-- 1. Penalty waivers
+CREATE OR REPLACE FUNCTION public.waive_loan_penalties(
+  p_loan_id UUID,
+  p_reason TEXT,
+  p_penalty_ids UUID[] DEFAULT NULL
+) RETURNS DECIMAL AS $$
+DECLARE
+  v_total DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can waive penalties';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to waive penalties';
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  WITH waived AS (
+    UPDATE public.loan_penalties
+    SET status = 'waived',
+        waived_by = auth.uid(),
+        waived_at = NOW(),
+        waiver_reason = p_reason
+    WHERE loan_id = p_loan_id
+      AND status = 'accrued'
+      AND (p_penalty_ids IS NULL OR id = ANY (p_penalty_ids))
+    RETURNING amount, transaction_id
+  ), cancelled AS (
+    UPDATE public.transactions t
+    SET status = 'cancelled',
+        notes = 'Waived: ' || p_reason,
+        updated_at = NOW()
+    FROM waived w
+    WHERE t.id = w.transaction_id
+    RETURNING t.id
+  )
+  SELECT COALESCE(SUM(amount), 0) INTO v_total FROM waived;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 2. Manual allocation of mobile money receipts
+CREATE OR REPLACE FUNCTION public.allocate_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_loan_id UUID,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_status TEXT;
+  v_payment_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to allocate mobile money receipts';
+  END IF;
+
+  SELECT status INTO v_status FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  IF v_status <> 'unmatched' THEN
+    RAISE EXCEPTION 'Receipt is already %', v_status;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  v_payment_id := public.post_mobile_money_receipt(p_receipt_id, p_loan_id, 'manual', auth.uid());
+
+  IF p_notes IS NOT NULL AND btrim(p_notes) <> '' THEN
+    UPDATE public.mobile_money_receipts SET notes = p_notes WHERE id = p_receipt_id;
+  END IF;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Restructuring
+CREATE OR REPLACE FUNCTION public.loan_restructure_schedule(
+  p_loan_id UUID,
+  p_installment_type TEXT,
+  p_installment_count INTEGER,
+  p_interest_rate DECIMAL DEFAULT 0,
+  p_capitalise_arrears BOOLEAN DEFAULT FALSE,
+  p_effective_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  installment_id UUID,
+  installment_number INTEGER,
+  due_date DATE,
+  principal_amount DECIMAL,
+  interest_amount DECIMAL,
+  total_amount DECIMAL,
+  amount_paid DECIMAL,
+  original_total DECIMAL,
+  action TEXT
+) AS $$
+DECLARE
+  v_method TEXT;
+  v_inst RECORD;
+  v_row RECORD;
+  v_paid DECIMAL;
+  v_paid_principal DECIMAL;
+  v_pool_principal DECIMAL := 0;
+  v_pool_interest DECIMAL := 0;
+  v_last_number INTEGER := 0;
+  v_count INTEGER := GREATEST(1, COALESCE(p_installment_count, 1));
+  v_spread DECIMAL;
+BEGIN
+  SELECT l.interest_method INTO v_method FROM public.loans l WHERE l.id = p_loan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  FOR v_inst IN
+    SELECT li.*
+    FROM public.loan_installments li
+    WHERE li.loan_id = p_loan_id
+    ORDER BY li.installment_number
+  LOOP
+    v_last_number := GREATEST(v_last_number, v_inst.installment_number);
+    v_paid := COALESCE(v_inst.amount_paid, 0);
+
+    installment_id := v_inst.id;
+    installment_number := v_inst.installment_number;
+    due_date := v_inst.due_date;
+    amount_paid := v_paid;
+    original_total := v_inst.total_amount;
+
+    IF COALESCE(v_inst.is_paid, FALSE)
+      OR v_inst.replaced_by_restructure_id IS NOT NULL
+      OR (v_inst.due_date < p_effective_date AND NOT COALESCE(p_capitalise_arrears, FALSE))
+    THEN
+      principal_amount := v_inst.principal_amount;
+      interest_amount := v_inst.interest_amount;
+      total_amount := v_inst.total_amount;
+      action := 'kept';
+    ELSE
+      -- Payments are split between principal and interest in proportion to the installment
+      v_paid_principal := CASE
+        WHEN v_inst.total_amount > 0 THEN ROUND(v_inst.principal_amount * v_paid / v_inst.total_amount, 2)
+        ELSE 0
+      END;
+      v_pool_principal := v_pool_principal + (v_inst.principal_amount - v_paid_principal);
+      v_pool_interest := v_pool_interest + (GREATEST(v_inst.total_amount - v_paid, 0) - (v_inst.principal_amount - v_paid_principal));
+
+      principal_amount := v_paid_principal;
+      interest_amount := v_paid - v_paid_principal;
+      total_amount := v_paid;
+      action := 'replaced';
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_pool_principal + v_pool_interest <= 0 THEN
+    RAISE EXCEPTION 'Nothing is left to reschedule on this loan';
+  END IF;
+
+  v_spread := ROUND(v_pool_interest / v_count, 2);
+
+  FOR v_row IN
+    SELECT s.installment_number AS n, s.due_date AS d, s.principal_amount AS p, s.interest_amount AS i
+    FROM public.build_loan_schedule(v_pool_principal, COALESCE(p_interest_rate, 0), v_method, v_count, p_installment_type, p_effective_date) s
+  LOOP
+    installment_id := NULL;
+    installment_number := v_last_number + v_row.n;
+    due_date := v_row.d;
+    principal_amount := v_row.p;
+    interest_amount := v_row.i + CASE WHEN v_row.n = v_count THEN v_pool_interest - v_spread * (v_count - 1) ELSE v_spread END;
+    total_amount := principal_amount + interest_amount;
+    amount_paid := 0;
+    original_total := NULL;
+    action := 'new';
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION public.request_loan_restructure(
+  p_loan_id UUID,
+  p_installment_type TEXT,
+  p_installment_count INTEGER,
+  p_interest_rate DECIMAL,
+  p_capitalise_arrears BOOLEAN,
+  p_effective_date DATE,
+  p_reason TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_loan RECORD;
+  v_restructure_id UUID;
+  v_principal DECIMAL;
+  v_interest DECIMAL;
+  v_arrears DECIMAL;
+  v_new_interest DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to request loan restructures';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to restructure a loan';
+  END IF;
+  IF p_installment_type NOT IN ('daily','weekly','monthly') THEN
+    RAISE EXCEPTION 'Unknown installment frequency %', p_installment_type;
+  END IF;
+  IF COALESCE(p_installment_count, 0) <= 0 THEN
+    RAISE EXCEPTION 'The new schedule needs at least one installment';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF v_loan.status NOT IN ('active','disbursed','defaulted') OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Only active, disbursed or defaulted loans can be restructured';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.loan_restructures r WHERE r.loan_id = p_loan_id AND r.status = 'pending') THEN
+    RAISE EXCEPTION 'This loan already has a restructure waiting for approval';
+  END IF;
+
+  -- Estimate the figures for the approver (recomputed on approval)
+  SELECT
+    COALESCE(SUM(CASE WHEN s.action = 'replaced' THEN ri.principal_amount - s.principal_amount END), 0),
+    COALESCE(SUM(CASE WHEN s.action = 'replaced' THEN ri.total_amount - s.total_amount - (ri.principal_amount - s.principal_amount) END), 0),
+    COALESCE(SUM(CASE WHEN s.action = 'replaced' AND s.due_date < p_effective_date THEN ri.total_amount - s.total_amount END), 0),
+    COALESCE(SUM(CASE WHEN s.action = 'new' THEN s.interest_amount END), 0)
+  INTO v_principal, v_interest, v_arrears, v_new_interest
+  FROM public.loan_restructure_schedule(p_loan_id, p_installment_type, p_installment_count, p_interest_rate, p_capitalise_arrears, p_effective_date) s
+    LEFT JOIN public.loan_installments ri ON ri.id = s.installment_id;
+
+  INSERT INTO public.loan_restructures (
+    loan_id,
+    old_installment_type,
+    old_installment_count,
+    old_due_date,
+    old_current_balance,
+    new_installment_type,
+    new_installment_count,
+    additional_interest_rate,
+    capitalise_arrears,
+    effective_date,
+    rescheduled_principal,
+    rescheduled_interest,
+    arrears_amount,
+    additional_interest,
+    reason,
+    requested_by
+  ) VALUES (
+    p_loan_id,
+    v_loan.installment_type,
+    v_loan.installment_count,
+    v_loan.due_date,
+    v_loan.current_balance,
+    p_installment_type,
+    p_installment_count,
+    COALESCE(p_interest_rate, 0),
+    COALESCE(p_capitalise_arrears, FALSE),
+    COALESCE(p_effective_date, CURRENT_DATE),
+    v_principal,
+    v_interest,
+    v_arrears,
+    GREATEST(v_new_interest - v_interest, 0),
+    p_reason,
+    auth.uid()
+  )
+  RETURNING id INTO v_restructure_id;
+
+  RETURN v_restructure_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.approve_loan_restructure(p_restructure_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_restructure public.loan_restructures;
+  v_loan RECORD;
+  v_snapshot JSONB;
+  v_row RECORD;
+  v_principal DECIMAL := 0;
+  v_interest DECIMAL := 0;
+  v_arrears DECIMAL := 0;
+  v_new_interest DECIMAL := 0;
+  v_additional DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can approve loan restructures';
+  END IF;
+
+  SELECT * INTO v_restructure FROM public.loan_restructures WHERE id = p_restructure_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restructure request % not found', p_restructure_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(v_restructure.loan_id);
+  IF v_restructure.status <> 'pending' THEN
+    RAISE EXCEPTION 'This restructure has already been %', v_restructure.status;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_restructure.loan_id FOR UPDATE;
+  IF v_loan.status NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'The loan is % and can no longer be restructured', v_loan.status;
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(li) ORDER BY li.installment_number) INTO v_snapshot
+  FROM public.loan_installments li
+  WHERE li.loan_id = v_loan.id;
+
+  FOR v_row IN
+    SELECT s.*, li.principal_amount AS old_principal, li.total_amount AS old_total
+    FROM public.loan_restructure_schedule(
+      v_loan.id,
+      v_restructure.new_installment_type,
+      v_restructure.new_installment_count,
+      v_restructure.additional_interest_rate,
+      v_restructure.capitalise_arrears,
+      v_restructure.effective_date
+    ) s
+      LEFT JOIN public.loan_installments li ON li.id = s.installment_id
+  LOOP
+    IF v_row.action = 'replaced' THEN
+      v_principal := v_principal + (v_row.old_principal - v_row.principal_amount);
+      v_interest := v_interest + (v_row.old_total - v_row.total_amount) - (v_row.old_principal - v_row.principal_amount);
+      IF v_row.due_date < v_restructure.effective_date THEN
+        v_arrears := v_arrears + (v_row.old_total - v_row.total_amount);
+      END IF;
+
+      UPDATE public.loan_installments
+      SET principal_amount = v_row.principal_amount,
+          interest_amount = v_row.interest_amount,
+          total_amount = v_row.total_amount,
+          is_paid = TRUE,
+          paid_date = CASE WHEN v_row.amount_paid > 0 THEN COALESCE(paid_date, CURRENT_DATE) ELSE paid_date END,
+          replaced_by_restructure_id = p_restructure_id,
+          updated_at = NOW()
+      WHERE id = v_row.installment_id;
+    ELSIF v_row.action = 'new' THEN
+      v_new_interest := v_new_interest + v_row.interest_amount;
+
+      INSERT INTO public.loan_installments (
+        loan_id,
+        installment_number,
+        due_date,
+        principal_amount,
+        interest_amount,
+        total_amount,
+        restructure_id
+      ) VALUES (
+        v_loan.id,
+        v_row.installment_number,
+        v_row.due_date,
+        v_row.principal_amount,
+        v_row.interest_amount,
+        v_row.total_amount,
+        p_restructure_id
+      );
+    END IF;
+  END LOOP;
+
+  v_additional := GREATEST(v_new_interest - v_interest, 0);
+
+  UPDATE public.loans
+  SET installment_type = v_restructure.new_installment_type,
+      installment_count = (
+        SELECT COUNT(*) FROM public.loan_installments li
+        WHERE li.loan_id = v_loan.id AND li.replaced_by_restructure_id IS NULL
+      ),
+      due_date = (SELECT MAX(li.due_date) FROM public.loan_installments li WHERE li.loan_id = v_loan.id),
+      interest_disbursed = COALESCE(interest_disbursed, 0) + v_additional,
+      current_balance = COALESCE(current_balance, 0) + v_additional,
+      restructure_count = restructure_count + 1,
+      restructured_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_loan.id;
+
+  UPDATE public.loan_restructures
+  SET status = 'approved',
+      rescheduled_principal = v_principal,
+      rescheduled_interest = v_interest,
+      arrears_amount = v_arrears,
+      additional_interest = v_additional,
+      previous_schedule = v_snapshot,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_restructure_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_RESTRUCTURE',
+    'loans',
+    v_loan.id,
+    jsonb_build_object(
+      'installment_type', v_loan.installment_type,
+      'installment_count', v_loan.installment_count,
+      'due_date', v_loan.due_date,
+      'current_balance', v_loan.current_balance
+    ),
+    jsonb_build_object(
+      'restructure_id', p_restructure_id,
+      'installment_type', v_restructure.new_installment_type,
+      'new_installments', v_restructure.new_installment_count,
+      'additional_interest', v_additional
+    ),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.reject_loan_restructure(p_restructure_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can reject loan restructures';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a restructure';
+  END IF;
+
+  UPDATE public.loan_restructures
+  SET status = 'rejected',
+      rejection_reason = p_reason,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_restructure_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Restructure request not found or already reviewed';
+  END IF;
+  PERFORM public.assert_loan_branch_access((SELECT r.loan_id FROM public.loan_restructures r WHERE r.id = p_restructure_id));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Top-up quote
+CREATE OR REPLACE FUNCTION public.get_loan_top_up_quote(p_loan_id UUID)
+RETURNS TABLE(
+  loan_id UUID,
+  member_id UUID,
+  increment_level INTEGER,
+  outstanding_balance DECIMAL(15,2),
+  next_level INTEGER,
+  next_amount DECIMAL(15,2),
+  block_reason TEXT
+) AS $$
+BEGIN
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    COALESCE(l.member_id, l.customer_id),
+    COALESCE(l.increment_level, 1)::INTEGER,
+    public.loan_outstanding_balance(l.id)::DECIMAL(15,2),
+    ni.next_level,
+    ni.next_amount,
+    public.loan_top_up_block_reason(l.id)
+  FROM public.loans l
+  LEFT JOIN LATERAL public.get_next_loan_increment(COALESCE(l.member_id, l.customer_id)) ni ON TRUE
+  WHERE l.id = p_loan_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 5. Early settlement
+CREATE OR REPLACE FUNCTION public.loan_settlement_quote(p_loan_id UUID, p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(
+  loan_id UUID,
+  as_of_date DATE,
+  rebate_policy TEXT,
+  rebate_percent DECIMAL(5,2),
+  principal_outstanding DECIMAL(15,2),
+  interest_outstanding DECIMAL(15,2),
+  fees_outstanding DECIMAL(15,2),
+  unearned_interest DECIMAL(15,2),
+  interest_rebate DECIMAL(15,2),
+  penalties_outstanding DECIMAL(15,2),
+  settlement_amount DECIMAL(15,2),
+  remaining_installments INTEGER
+) AS $$
+DECLARE
+  v_loan public.loans;
+  v_policy TEXT;
+  v_percent DECIMAL;
+  v_row RECORD;
+  v_ratio DECIMAL;
+  v_period_start DATE;
+  v_earned DECIMAL;
+  v_principal DECIMAL := 0;
+  v_interest DECIMAL := 0;
+  v_future_interest DECIMAL := 0;
+  v_unearned DECIMAL := 0;
+  v_remaining INTEGER := 0;
+  v_future_count INTEGER := 0;
+  v_in_progress BOOLEAN := TRUE;
+  v_total_count INTEGER;
+  v_total_interest DECIMAL;
+  v_fees DECIMAL;
+  v_rebate DECIMAL;
+  v_penalties DECIMAL;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'Only open loans can be settled (this loan is %)', v_loan.status::TEXT;
+  END IF;
+
+  SELECT s.early_settlement_rebate_policy, s.early_settlement_rebate_percent
+  INTO v_policy, v_percent
+  FROM public.system_settings s
+  WHERE s.id = 1;
+  v_policy := COALESCE(v_policy, 'pro_rata');
+  v_percent := COALESCE(v_percent, 100);
+
+  FOR v_row IN
+    SELECT i.*
+    FROM public.loan_installments i
+    WHERE i.loan_id = p_loan_id
+      AND COALESCE(i.is_paid, FALSE) = FALSE
+    ORDER BY i.installment_number
+  LOOP
+    -- Part payments are spread over principal and interest in proportion
+    v_ratio := CASE
+      WHEN v_row.total_amount > 0 THEN GREATEST(v_row.total_amount - COALESCE(v_row.amount_paid, 0), 0) / v_row.total_amount
+      ELSE 0
+    END;
+    v_principal := v_principal + v_row.principal_amount * v_ratio;
+    v_interest := v_interest + v_row.interest_amount * v_ratio;
+    v_remaining := v_remaining + 1;
+
+    IF v_row.due_date > p_as_of THEN
+      v_future_count := v_future_count + 1;
+      v_future_interest := v_future_interest + v_row.interest_amount * v_ratio;
+
+      IF v_in_progress THEN
+        -- The installment whose period contains the quote date is partly earned
+        SELECT COALESCE(MAX(p.due_date), v_loan.issue_date::DATE)
+        INTO v_period_start
+        FROM public.loan_installments p
+        WHERE p.loan_id = p_loan_id
+          AND p.due_date < v_row.due_date
+          AND p.replaced_by_restructure_id IS NULL;
+
+        v_earned := CASE
+          WHEN v_period_start IS NULL OR v_row.due_date <= v_period_start THEN 0
+          ELSE LEAST(GREATEST((p_as_of - v_period_start)::DECIMAL / (v_row.due_date - v_period_start), 0), 1)
+        END;
+        v_unearned := v_unearned + v_row.interest_amount * v_ratio * (1 - v_earned);
+        v_in_progress := FALSE;
+      ELSE
+        v_unearned := v_unearned + v_row.interest_amount * v_ratio;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_policy = 'rule_of_78' THEN
+    SELECT COUNT(*), COALESCE(SUM(i.interest_amount), 0)
+    INTO v_total_count, v_total_interest
+    FROM public.loan_installments i
+    WHERE i.loan_id = p_loan_id
+      AND i.replaced_by_restructure_id IS NULL;
+
+    v_unearned := CASE
+      WHEN v_total_count > 0
+        THEN v_total_interest * (v_future_count * (v_future_count + 1))::DECIMAL / (v_total_count * (v_total_count + 1))
+      ELSE 0
+    END;
+  END IF;
+
+  -- Never rebate interest that has already been paid
+  v_unearned := ROUND(LEAST(v_unearned, v_future_interest), 2);
+  v_rebate := CASE WHEN v_policy = 'none' THEN 0 ELSE ROUND(v_unearned * v_percent / 100, 2) END;
+
+  v_principal := ROUND(v_principal, 2);
+  v_interest := ROUND(v_interest, 2);
+  -- Processing fees are owed on the loan but not spread over the installments
+  v_fees := GREATEST(public.loan_outstanding_balance(p_loan_id) - v_principal - v_interest, 0);
+
+  SELECT COALESCE(SUM(lp.amount), 0) INTO v_penalties
+  FROM public.loan_penalties lp
+  WHERE lp.loan_id = p_loan_id AND lp.status = 'accrued';
+
+  RETURN QUERY SELECT
+    p_loan_id,
+    p_as_of,
+    v_policy,
+    v_percent::DECIMAL(5,2),
+    v_principal::DECIMAL(15,2),
+    v_interest::DECIMAL(15,2),
+    v_fees::DECIMAL(15,2),
+    v_unearned::DECIMAL(15,2),
+    v_rebate::DECIMAL(15,2),
+    v_penalties::DECIMAL(15,2),
+    (v_principal + v_interest + v_fees - v_rebate + v_penalties)::DECIMAL(15,2),
+    v_remaining;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.settle_loan_early(
+  p_loan_id UUID,
+  p_as_of DATE,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans;
+  v_quote RECORD;
+  v_reference TEXT;
+  v_loan_amount DECIMAL(15,2);
+  v_settlement_id UUID;
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_rebate_transaction_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to settle loans';
+  END IF;
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A settlement cannot be recorded for a future date';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  SELECT * INTO v_quote FROM public.loan_settlement_quote(p_loan_id, p_as_of);
+
+  IF ABS(COALESCE(p_amount, 0) - v_quote.settlement_amount) > 0.01 THEN
+    RAISE EXCEPTION 'The settlement amount as of % is KES %, not KES %', p_as_of, v_quote.settlement_amount, p_amount;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(btrim(p_reference), ''), 'SETTLE-' || COALESCE(v_loan.application_no, v_loan.id::TEXT));
+  v_loan_amount := v_quote.principal_outstanding + v_quote.interest_outstanding
+    + v_quote.fees_outstanding - v_quote.interest_rebate;
+
+  INSERT INTO public.loan_settlements (
+    loan_id, as_of_date, rebate_policy, rebate_percent,
+    principal_outstanding, interest_outstanding, fees_outstanding,
+    unearned_interest, interest_rebate, penalties_outstanding, settlement_amount,
+    payment_method, payment_reference, notes, settled_by
+  ) VALUES (
+    p_loan_id, p_as_of, v_quote.rebate_policy, v_quote.rebate_percent,
+    v_quote.principal_outstanding, v_quote.interest_outstanding, v_quote.fees_outstanding,
+    v_quote.unearned_interest, v_quote.interest_rebate, v_quote.penalties_outstanding, v_quote.settlement_amount,
+    p_payment_method, v_reference, NULLIF(btrim(p_notes), ''), auth.uid()
+  )
+  RETURNING id INTO v_settlement_id;
+
+  -- The rebate comes off the interest owed before the payment is applied
+  IF v_quote.interest_rebate > 0 THEN
+    UPDATE public.loans
+    SET interest_disbursed = COALESCE(interest_disbursed, 0) - v_quote.interest_rebate,
+        current_balance = COALESCE(current_balance, 0) - v_quote.interest_rebate,
+        early_settlement_rebate = v_quote.interest_rebate,
+        updated_at = NOW()
+    WHERE id = p_loan_id;
+
+    INSERT INTO public.transactions (
+      amount, transaction_type, description, loan_id, member_id, transaction_date,
+      created_by, status, reference_number, branch_id, payment_method, currency
+    ) VALUES (
+      v_quote.interest_rebate,
+      'adjustment',
+      'Early settlement interest rebate',
+      p_loan_id,
+      COALESCE(v_loan.member_id, v_loan.customer_id),
+      p_as_of,
+      auth.uid(),
+      'completed',
+      'REBATE-' || v_settlement_id::TEXT,
+      v_loan.branch_id,
+      'other',
+      'KES'
+    )
+    RETURNING id INTO v_rebate_transaction_id;
+  END IF;
+
+  IF v_loan_amount > 0 THEN
+    INSERT INTO public.loan_payments (
+      loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+    ) VALUES (
+      p_loan_id, 0, v_loan_amount, p_as_of, v_reference, 'Early settlement', auth.uid()
+    )
+    RETURNING id INTO v_payment_id;
+
+    INSERT INTO public.transactions (
+      amount, transaction_type, description, loan_id, member_id, transaction_date,
+      created_by, status, reference_number, branch_id, payment_method, currency, total_paid
+    ) VALUES (
+      v_loan_amount,
+      'payment',
+      'Early settlement',
+      p_loan_id,
+      COALESCE(v_loan.member_id, v_loan.customer_id),
+      p_as_of,
+      auth.uid(),
+      'completed',
+      v_reference,
+      v_loan.branch_id,
+      p_payment_method,
+      'KES',
+      v_loan_amount
+    )
+    RETURNING id INTO v_transaction_id;
+  END IF;
+
+  -- Penalty transactions were booked as pending when charged; they are collected now
+  WITH paid AS (
+    UPDATE public.loan_penalties
+    SET status = 'paid',
+        paid_at = NOW()
+    WHERE loan_id = p_loan_id AND status = 'accrued'
+    RETURNING transaction_id
+  )
+  UPDATE public.transactions t
+  SET status = 'completed',
+      notes = 'Collected in early settlement ' || v_reference,
+      updated_at = NOW()
+  FROM paid
+  WHERE t.id = paid.transaction_id;
+
+  UPDATE public.loan_installments
+  SET is_paid = TRUE,
+      paid_date = COALESCE(paid_date, p_as_of),
+      closed_by_settlement_id = v_settlement_id
+  WHERE loan_id = p_loan_id
+    AND COALESCE(is_paid, FALSE) = FALSE;
+
+  UPDATE public.loans
+  SET status = 'repaid',
+      current_balance = 0,
+      settled_early_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  UPDATE public.loan_settlements
+  SET loan_payment_id = v_payment_id,
+      transaction_id = v_transaction_id,
+      rebate_transaction_id = v_rebate_transaction_id
+  WHERE id = v_settlement_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_EARLY_SETTLEMENT',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'current_balance', v_loan.current_balance),
+    jsonb_build_object(
+      'status', 'repaid',
+      'settlement_id', v_settlement_id,
+      'settlement_amount', v_quote.settlement_amount,
+      'interest_rebate', v_quote.interest_rebate,
+      'penalties', v_quote.penalties_outstanding
+    ),
+    auth.uid()
+  );
+
+  RETURN v_settlement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Approval sign-off
+CREATE OR REPLACE FUNCTION public.record_loan_approval(
+  p_loan_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_loan public.loans;
+  v_profile RECORD;
+  v_step INTEGER;
+  v_required TEXT;
+  v_total INTEGER;
+  v_status TEXT := 'pending';
+BEGIN
+  IF p_action NOT IN ('approved','rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action %', p_action;
+  END IF;
+  IF p_action = 'rejected' AND COALESCE(TRIM(p_comments), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a loan';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF COALESCE(v_loan.approval_status, 'pending') <> 'pending' THEN
+    RAISE EXCEPTION 'Loan is already %', v_loan.approval_status;
+  END IF;
+
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+
+  v_total := COALESCE(cardinality(v_loan.approval_chain), 0);
+  v_step := v_loan.approval_step + 1;
+  IF v_step > v_total THEN
+    RAISE EXCEPTION 'Loan has no approval step left to sign';
+  END IF;
+  v_required := v_loan.approval_chain[v_step];
+
+  IF NOT public.approval_role_covers(v_profile.role, v_required) THEN
+    RAISE EXCEPTION 'Step % of % must be signed by a % or above', v_step, v_total, replace(v_required, '_', ' ');
+  END IF;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only sign off loans from their own branch';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.loan_approvals a
+    WHERE a.loan_id = p_loan_id AND a.approver_id = auth.uid() AND a.superseded_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'You have already signed off an earlier step of this loan';
+  END IF;
+
+  INSERT INTO public.loan_approvals (loan_id, step_number, approval_level, action, approver_id, comments)
+  VALUES (p_loan_id, v_step, v_required, p_action, auth.uid(), NULLIF(TRIM(p_comments), ''));
+
+  IF p_action = 'rejected' THEN
+    PERFORM public.set_loan_approval_status(p_loan_id, 'rejected', auth.uid());
+    v_status := 'rejected';
+  ELSE
+    UPDATE public.loans SET approval_step = v_step, updated_at = NOW() WHERE id = p_loan_id;
+    IF v_step = v_total THEN
+      PERFORM public.set_loan_approval_status(p_loan_id, 'approved', auth.uid());
+      v_status := 'approved';
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_APPROVAL_STEP',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('approval_step', v_loan.approval_step, 'approval_status', v_loan.approval_status),
+    jsonb_build_object(
+      'step', v_step,
+      'of', v_total,
+      'approval_level', v_required,
+      'action', p_action,
+      'comments', p_comments,
+      'approval_status', v_status
+    ),
+    auth.uid()
+  );
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Disbursement
+CREATE OR REPLACE FUNCTION public.disburse_loan(
+  p_loan_id UUID,
+  p_disbursement_date DATE DEFAULT CURRENT_DATE,
+  p_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans;
+  v_profile RECORD;
+  v_net_fee BOOLEAN;
+  v_settled DECIMAL(15,2) := 0;
+  v_fee DECIMAL(15,2) := 0;
+  v_payout DECIMAL(15,2);
+  v_count INTEGER;
+  v_reference TEXT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can disburse loans';
+  END IF;
+  IF p_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid disbursement method %', p_method;
+  END IF;
+  IF p_disbursement_date IS NULL OR p_disbursement_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Disbursement date cannot be in the future';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only disburse loans from their own branch';
+  END IF;
+  IF COALESCE(v_loan.approval_status, 'pending') <> 'approved' THEN
+    RAISE EXCEPTION 'Loan must be fully approved before it is disbursed';
+  END IF;
+  IF v_loan.disbursed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Loan was already disbursed on %', v_loan.disbursement_date;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.loan_installments li WHERE li.loan_id = p_loan_id AND COALESCE(li.amount_paid, 0) > 0) THEN
+    RAISE EXCEPTION 'Loan already has payments against its schedule';
+  END IF;
+
+  IF v_loan.previous_loan_id IS NOT NULL THEN
+    v_settled := public.settle_loan_top_up(p_loan_id);
+  END IF;
+
+  SELECT COALESCE(s.net_processing_fee_on_disbursement, FALSE) INTO v_net_fee
+  FROM public.system_settings s WHERE s.id = 1;
+  IF COALESCE(v_net_fee, FALSE) THEN
+    v_fee := COALESCE(v_loan.processing_fee, 0);
+  END IF;
+
+  v_payout := v_loan.principal_amount - v_settled - v_fee;
+  IF v_payout <= 0 THEN
+    RAISE EXCEPTION 'Deductions of KES % leave nothing to pay out', v_settled + v_fee;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(TRIM(p_reference), ''), 'DISB-' || COALESCE(v_loan.application_no, v_loan.id::TEXT));
+
+  INSERT INTO public.transactions (
+    amount,
+    transaction_type,
+    description,
+    loan_id,
+    member_id,
+    transaction_date,
+    created_by,
+    status,
+    reference_number,
+    branch_id,
+    payment_method,
+    currency,
+    fees,
+    notes
+  ) VALUES (
+    v_payout,
+    'disbursement',
+    'Loan disbursement ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+    p_loan_id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    p_disbursement_date,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    p_method,
+    'KES',
+    v_fee,
+    p_notes
+  ) RETURNING id INTO v_transaction_id;
+
+  -- Rebuild the schedule from the day the money went out
+  DELETE FROM public.loan_installments WHERE loan_id = p_loan_id;
+
+  v_count := COALESCE(
+    v_loan.installment_count,
+    (SELECT lp.term_lengths[1] FROM public.loan_products lp WHERE lp.code = v_loan.loan_program),
+    8
+  );
+
+  INSERT INTO public.loan_installments (
+    loan_id,
+    installment_number,
+    due_date,
+    principal_amount,
+    interest_amount,
+    total_amount
+  )
+  SELECT
+    p_loan_id,
+    s.installment_number,
+    s.due_date,
+    s.principal_amount,
+    s.interest_amount,
+    s.total_amount
+  FROM public.build_loan_schedule(
+    v_loan.principal_amount,
+    public.loan_schedule_rate(v_loan.interest_method, v_loan.interest_rate, v_loan.principal_amount, v_loan.interest_disbursed),
+    v_loan.interest_method,
+    v_count,
+    v_loan.installment_type,
+    p_disbursement_date
+  ) s;
+
+  -- A netted fee counts as paid, the same way update_loan_balance_on_payment tracks total_paid
+  UPDATE public.loans
+  SET status = 'active',
+      issue_date = p_disbursement_date,
+      due_date = (SELECT MAX(li.due_date) FROM public.loan_installments li WHERE li.loan_id = p_loan_id),
+      disbursement_date = p_disbursement_date,
+      disbursed_at = NOW(),
+      disbursed_by = auth.uid(),
+      disbursement_method = p_method,
+      disbursement_reference = v_reference,
+      disbursed_amount = v_payout,
+      processing_fee_netted = v_fee,
+      disbursement_transaction_id = v_transaction_id,
+      total_paid = COALESCE(total_paid, 0) + v_fee,
+      current_balance = COALESCE(current_balance, 0) - v_fee,
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_DISBURSED',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'issue_date', v_loan.issue_date),
+    jsonb_build_object(
+      'status', 'active',
+      'disbursement_date', p_disbursement_date,
+      'method', p_method,
+      'reference', v_reference,
+      'payout', v_payout,
+      'top_up_settlement', v_settled,
+      'processing_fee_netted', v_fee
+    ),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Guarantors
+CREATE OR REPLACE FUNCTION public.add_loan_guarantors(p_loan_id UUID, p_guarantors JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_loan public.loans;
+  v_role TEXT;
+  v_borrower_id UUID;
+  v_group_id BIGINT;
+  v_item JSONB;
+  v_member public.members;
+  v_amount DECIMAL(15,2);
+  v_count INTEGER := 0;
+BEGIN
+  SELECT p.role::TEXT INTO v_role FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can add loan guarantors';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF v_loan.disbursed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Guarantors cannot be added after the loan is disbursed';
+  END IF;
+
+  v_borrower_id := COALESCE(v_loan.member_id, v_loan.customer_id);
+  SELECT m.group_id INTO v_group_id FROM public.members m WHERE m.id = v_borrower_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_guarantors, '[]'::JSONB)) LOOP
+    SELECT * INTO v_member FROM public.members WHERE id = (v_item->>'member_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Guarantor % not found', v_item->>'member_id';
+    END IF;
+    IF v_member.id = v_borrower_id THEN
+      RAISE EXCEPTION 'A member cannot guarantee their own loan';
+    END IF;
+    IF v_group_id IS NULL OR v_member.group_id IS DISTINCT FROM v_group_id THEN
+      RAISE EXCEPTION '% is not in the borrower''s group', v_member.full_name;
+    END IF;
+    IF COALESCE(v_member.status, 'active') <> 'active' THEN
+      RAISE EXCEPTION '% is not an active member', v_member.full_name;
+    END IF;
+
+    v_amount := ROUND((v_item->>'amount')::DECIMAL, 2);
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'Enter the amount % guarantees', v_member.full_name;
+    END IF;
+    IF v_amount > v_loan.principal_amount THEN
+      RAISE EXCEPTION '% cannot guarantee more than the principal of KES %', v_member.full_name, v_loan.principal_amount;
+    END IF;
+
+    INSERT INTO public.loan_guarantors (loan_id, guarantor_member_id, guaranteed_amount, created_by)
+    VALUES (p_loan_id, v_member.id, v_amount, auth.uid())
+    ON CONFLICT (loan_id, guarantor_member_id)
+    DO UPDATE SET guaranteed_amount = EXCLUDED.guaranteed_amount, status = 'active', released_at = NULL;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count > 0 THEN
+    INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+    VALUES ('LOAN_GUARANTORS_ADDED', 'loans', p_loan_id, NULL, jsonb_build_object('guarantors', p_guarantors), auth.uid());
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Guarantor recovery (savings-aware version from 20251113090000)
+CREATE OR REPLACE FUNCTION public.recover_from_guarantor(
+  p_loan_guarantor_id UUID,
+  p_installment_id UUID,
+  p_amount DECIMAL,
+  p_source TEXT,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_guarantee public.loan_guarantors;
+  v_loan public.loans;
+  v_installment public.loan_installments;
+  v_guarantor public.members;
+  v_account public.savings_accounts;
+  v_method TEXT;
+  v_reference TEXT;
+  v_note TEXT;
+  v_unpaid DECIMAL(15,2);
+  v_available DECIMAL(15,2);
+  v_remaining DECIMAL(15,2);
+  v_debit DECIMAL(15,2);
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_recovery_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can recover from guarantors';
+  END IF;
+  IF p_source NOT IN ('savings','payment') THEN
+    RAISE EXCEPTION 'Invalid recovery source %', p_source;
+  END IF;
+  v_method := CASE WHEN p_source = 'savings' THEN 'other' ELSE COALESCE(p_payment_method, 'cash') END;
+  IF v_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', v_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Recovery amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_guarantee FROM public.loan_guarantors WHERE id = p_loan_guarantor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guarantee % not found', p_loan_guarantor_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(v_guarantee.loan_id);
+  IF v_guarantee.status <> 'active' THEN
+    RAISE EXCEPTION 'This guarantee has been released';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_guarantee.loan_id;
+  IF v_profile.role = 'branch_admin' AND v_profile.branch_id IS DISTINCT FROM v_loan.branch_id THEN
+    RAISE EXCEPTION 'Branch admins can only recover loans from their own branch';
+  END IF;
+  IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'Only open loans can be recovered from guarantors';
+  END IF;
+
+  SELECT * INTO v_installment FROM public.loan_installments WHERE id = p_installment_id AND loan_id = v_loan.id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment not found on this loan';
+  END IF;
+  v_unpaid := v_installment.total_amount - COALESCE(v_installment.amount_paid, 0);
+  IF COALESCE(v_installment.is_paid, FALSE) OR v_unpaid <= 0 THEN
+    RAISE EXCEPTION 'Installment % is already paid', v_installment.installment_number;
+  END IF;
+  IF v_installment.due_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Installment % is not overdue yet', v_installment.installment_number;
+  END IF;
+  IF p_amount > v_unpaid THEN
+    RAISE EXCEPTION 'Only KES % is unpaid on installment %', v_unpaid, v_installment.installment_number;
+  END IF;
+
+  v_available := v_guarantee.guaranteed_amount - v_guarantee.recovered_amount;
+  IF p_amount > v_available THEN
+    RAISE EXCEPTION 'The guarantor has KES % of their guarantee left', v_available;
+  END IF;
+
+  SELECT * INTO v_guarantor FROM public.members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+  IF p_source = 'savings' AND COALESCE(v_guarantor.savings_balance, 0) < p_amount THEN
+    RAISE EXCEPTION '% has only KES % in savings', v_guarantor.full_name, COALESCE(v_guarantor.savings_balance, 0);
+  END IF;
+
+  v_reference := COALESCE(
+    NULLIF(TRIM(p_reference), ''),
+    'GR-' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || '-' || v_installment.installment_number || '-' || to_char(NOW(), 'YYYYMMDDHH24MISS')
+  );
+  v_note := 'Recovered from guarantor ' || v_guarantor.full_name
+    || CASE WHEN p_source = 'savings' THEN ' (savings)' ELSE '' END
+    || COALESCE(': ' || NULLIF(TRIM(p_notes), ''), '');
+
+  -- A recovery overrides minimum balances and liens: this is what they secure
+  IF p_source = 'savings' THEN
+    v_remaining := p_amount;
+    FOR v_account IN
+      SELECT * FROM public.savings_accounts
+      WHERE member_id = v_guarantor.id AND balance > 0
+      ORDER BY account_type
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_debit := LEAST(v_remaining, v_account.balance);
+      PERFORM public.post_savings_transaction(
+        v_account.id, 'recovery', v_debit, NULL, v_reference,
+        'Guarantor recovery on loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+        auth.uid()
+      );
+      v_remaining := v_remaining - v_debit;
+    END LOOP;
+  END IF;
+
+  INSERT INTO public.loan_payments (
+    loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+  ) VALUES (
+    v_loan.id, v_installment.installment_number, p_amount, CURRENT_DATE, v_reference, v_note, auth.uid()
+  )
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO public.transactions (
+    amount, transaction_type, description, loan_id, member_id, transaction_date,
+    created_by, status, reference_number, branch_id, payment_method, currency, total_paid, notes
+  ) VALUES (
+    p_amount,
+    'payment',
+    'Guarantor recovery',
+    v_loan.id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    CURRENT_DATE,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    v_method,
+    'KES',
+    p_amount,
+    v_note
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.loan_guarantors
+  SET recovered_amount = recovered_amount + p_amount
+  WHERE id = v_guarantee.id;
+
+  INSERT INTO public.guarantor_recoveries (
+    loan_guarantor_id, loan_id, installment_id, guarantor_member_id, amount, source,
+    payment_method, payment_reference, notes, loan_payment_id, transaction_id, recovered_by
+  ) VALUES (
+    v_guarantee.id, v_loan.id, v_installment.id, v_guarantor.id, p_amount, p_source,
+    v_method, v_reference, NULLIF(TRIM(p_notes), ''), v_payment_id, v_transaction_id, auth.uid()
+  )
+  RETURNING id INTO v_recovery_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'GUARANTOR_RECOVERY',
+    'loans',
+    v_loan.id,
+    jsonb_build_object('guarantor_recovered', v_guarantee.recovered_amount),
+    jsonb_build_object(
+      'guarantor_member_id', v_guarantor.id,
+      'installment_number', v_installment.installment_number,
+      'amount', p_amount,
+      'source', p_source,
+      'reference', v_reference
+    ),
+    auth.uid()
+  );
+
+  RETURN v_recovery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 10. Change requests
+CREATE OR REPLACE FUNCTION public.request_pending_change(
+  p_change_type TEXT,
+  p_record_id UUID,
+  p_proposed JSONB,
+  p_reason TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans%ROWTYPE;
+  v_allowed TEXT[];
+  v_proposed JSONB := '{}'::JSONB;
+  v_current JSONB := '{}'::JSONB;
+  v_change_id UUID;
+  v_bad_key TEXT;
+BEGIN
+  IF NOT public.has_permission(
+    CASE p_change_type
+      WHEN 'loan_edit' THEN 'loans.edit'
+      WHEN 'loan_delete' THEN 'loans.delete'
+      WHEN 'loan_write_off' THEN 'loans.write_off'
+    END
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to request this change';
+  END IF;
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for the change';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_record_id;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan not found';
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_record_id);
+  IF EXISTS (
+    SELECT 1 FROM public.pending_changes pc
+    WHERE pc.table_name = 'loans' AND pc.record_id = p_record_id AND pc.status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'This loan already has a change waiting for approval';
+  END IF;
+
+  IF p_change_type = 'loan_edit' THEN
+    IF v_loan.status::TEXT IN ('repaid','written_off') THEN
+      RAISE EXCEPTION 'A % loan cannot be edited', v_loan.status;
+    END IF;
+
+    v_allowed := public.loan_editable_columns(v_loan.status::TEXT);
+    SELECT k INTO v_bad_key
+    FROM jsonb_object_keys(COALESCE(p_proposed, '{}'::JSONB)) AS k
+    WHERE k <> ALL (v_allowed)
+    LIMIT 1;
+    IF v_bad_key IS NOT NULL THEN
+      RAISE EXCEPTION '% cannot be changed on a % loan', v_bad_key, v_loan.status;
+    END IF;
+
+    -- Keep only what actually changes, and what it was
+    SELECT
+      COALESCE(jsonb_object_agg(e.key, e.value), '{}'::JSONB),
+      COALESCE(jsonb_object_agg(e.key, to_jsonb(v_loan) -> e.key), '{}'::JSONB)
+    INTO v_proposed, v_current
+    FROM jsonb_each(COALESCE(p_proposed, '{}'::JSONB)) e
+    WHERE (to_jsonb(v_loan) -> e.key) IS DISTINCT FROM e.value;
+
+    IF v_proposed = '{}'::JSONB THEN
+      RAISE EXCEPTION 'Nothing to change: the proposed values match the loan';
+    END IF;
+
+    -- Fails here rather than at approval if a value does not fit its column
+    PERFORM jsonb_populate_record(NULL::public.loans, v_proposed);
+  ELSIF p_change_type = 'loan_delete' THEN
+    v_current := jsonb_build_object('status', v_loan.status, 'current_balance', v_loan.current_balance);
+  ELSIF p_change_type = 'loan_write_off' THEN
+    IF v_loan.status::TEXT <> 'defaulted' THEN
+      RAISE EXCEPTION 'Only defaulted loans can be written off (this loan is %)', v_loan.status;
+    END IF;
+    v_current := jsonb_build_object('status', v_loan.status, 'current_balance', public.loan_outstanding_balance(p_record_id));
+  ELSE
+    RAISE EXCEPTION 'Unknown change type %', p_change_type;
+  END IF;
+
+  INSERT INTO public.pending_changes (change_type, table_name, record_id, proposed_values, current_values, reason, requested_by)
+  VALUES (p_change_type, 'loans', p_record_id, v_proposed, v_current, btrim(p_reason), auth.uid())
+  RETURNING id INTO v_change_id;
+
+  PERFORM public.notify_users(
+    ARRAY(
+      SELECT p.id
+      FROM public.profiles p
+      WHERE p.id IS DISTINCT FROM auth.uid()
+        AND (
+          p.role::TEXT = 'super_admin'
+          OR EXISTS (SELECT 1 FROM public.role_permissions rp WHERE rp.role = p.role::TEXT AND rp.permission = 'loans.approve_changes')
+          OR EXISTS (SELECT 1 FROM public.user_permissions up WHERE up.user_id = p.id AND up.permission = 'loans.approve_changes')
+        )
+    ),
+    'Change awaiting approval',
+    replace(p_change_type, '_', ' ') || ' requested for loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || ': ' || btrim(p_reason),
+    'info',
+    'change_request',
+    'pending_change',
+    v_change_id,
+    'pending_change:' || v_change_id
+  );
+
+  RETURN v_change_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.approve_pending_change(p_change_id UUID, p_notes TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_change public.pending_changes%ROWTYPE;
+  v_loan public.loans%ROWTYPE;
+  v_stale TEXT;
+  v_set TEXT;
+BEGIN
+  IF NOT public.has_permission('loans.approve_changes') THEN
+    RAISE EXCEPTION 'You do not have permission to approve changes';
+  END IF;
+
+  SELECT * INTO v_change FROM public.pending_changes WHERE id = p_change_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request % not found', p_change_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(v_change.record_id);
+  IF v_change.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change has already been %', v_change.status;
+  END IF;
+  IF v_change.requested_by IS NOT DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'A change must be approved by someone other than the person who requested it';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_change.record_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'The loan no longer exists';
+  END IF;
+
+  IF v_change.change_type = 'loan_edit' THEN
+    SELECT c.key INTO v_stale
+    FROM jsonb_each(v_change.current_values) c
+    WHERE (to_jsonb(v_loan) -> c.key) IS DISTINCT FROM c.value
+    LIMIT 1;
+    IF v_stale IS NOT NULL THEN
+      RAISE EXCEPTION 'The loan''s % has changed since this request was made; reject it and request the change again', v_stale;
+    END IF;
+
+    SELECT string_agg(format('%1$I = (jsonb_populate_record(l, $1)).%1$I', k), ', ')
+    INTO v_set
+    FROM jsonb_object_keys(v_change.proposed_values) AS k;
+
+    -- A loan that is not yet disbursed owes what it will disburse
+    IF v_loan.status::TEXT = 'pending' AND v_change.proposed_values ? 'total_disbursed' THEN
+      v_set := v_set || ', current_balance = (jsonb_populate_record(l, $1)).total_disbursed';
+    END IF;
+
+    EXECUTE format('UPDATE public.loans l SET %s, updated_at = NOW() WHERE l.id = $2', v_set)
+    USING v_change.proposed_values, v_change.record_id;
+  ELSIF v_change.change_type = 'loan_delete' THEN
+    UPDATE public.loans
+    SET is_deleted = TRUE,
+        deleted_at = NOW(),
+        deleted_by = v_change.requested_by
+    WHERE id = v_change.record_id;
+  ELSIF v_change.change_type = 'loan_write_off' THEN
+    PERFORM public.apply_loan_write_off(v_change.record_id, v_change.reason, v_change.requested_by);
+  END IF;
+
+  UPDATE public.pending_changes
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_notes = NULLIF(btrim(p_notes), ''),
+      applied_at = NOW()
+  WHERE id = p_change_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'CHANGE_APPROVED',
+    v_change.table_name,
+    v_change.record_id,
+    v_change.current_values,
+    jsonb_build_object(
+      'change_id', p_change_id,
+      'change_type', v_change.change_type,
+      'proposed', v_change.proposed_values,
+      'requested_by', v_change.requested_by,
+      'approved_by', auth.uid()
+    ),
+    auth.uid()
+  );
+
+  PERFORM public.notify_users(
+    ARRAY[v_change.requested_by],
+    'Change approved',
+    'Your ' || replace(v_change.change_type, '_', ' ') || ' for loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || ' was approved and applied.',
+    'success',
+    'change_request',
+    'pending_change',
+    p_change_id,
+    'pending_change_reviewed:' || p_change_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.reject_pending_change(p_change_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_change public.pending_changes%ROWTYPE;
+BEGIN
+  IF NOT public.has_permission('loans.approve_changes') THEN
+    RAISE EXCEPTION 'You do not have permission to reject changes';
+  END IF;
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a change';
+  END IF;
+
+  UPDATE public.pending_changes
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_notes = btrim(p_reason)
+  WHERE id = p_change_id
+    AND status = 'pending'
+    AND requested_by IS DISTINCT FROM auth.uid()
+  RETURNING * INTO v_change;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found, already reviewed, or your own (withdraw it instead)';
+  END IF;
+  PERFORM public.assert_loan_branch_access(v_change.record_id);
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'CHANGE_REJECTED',
+    v_change.table_name,
+    v_change.record_id,
+    NULL,
+    jsonb_build_object('change_id', p_change_id, 'change_type', v_change.change_type, 'reason', btrim(p_reason)),
+    auth.uid()
+  );
+
+  PERFORM public.notify_users(
+    ARRAY[v_change.requested_by],
+    'Change rejected',
+    'Your ' || replace(v_change.change_type, '_', ' ') || ' request was rejected: ' || btrim(p_reason),
+    'warning',
+    'change_request',
+    'pending_change',
+    p_change_id,
+    'pending_change_reviewed:' || p_change_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,81 @@
+-- Branch checks in the savings read functions
+-- member_savings_accounts and member_savings_lien are SECURITY DEFINER, so the
+-- branch policies on savings_accounts do not reach them. They now refuse a member
+-- from a branch the caller cannot access, the same way the loan-level functions
+-- use assert_loan_branch_access.
+
+-- 1. Member-level assertion
+CREATE OR REPLACE FUNCTION public.assert_member_branch_access(p_member_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.can_access_branch(public.member_branch_id(p_member_id)) THEN
+    RAISE EXCEPTION 'This member belongs to a branch you do not have access to';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.assert_member_branch_access(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assert_member_branch_access(UUID) TO authenticated;
+
+-- 2. Lien and available balance
+CREATE OR REPLACE FUNCTION public.member_savings_lien(p_member_id UUID)
+RETURNS DECIMAL AS $$
+BEGIN
+  PERFORM public.assert_member_branch_access(p_member_id);
+
+  RETURN (
+    SELECT ROUND(
+      COALESCE(SUM(public.loan_outstanding_balance(l.id)), 0)
+        * COALESCE((SELECT s.savings_lien_percent FROM public.system_settings s WHERE s.id = 1), 0) / 100,
+      2
+    )
+    FROM public.loans l
+    WHERE COALESCE(l.member_id, l.customer_id) = p_member_id
+      AND l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.member_savings_accounts(p_member_id UUID)
+RETURNS TABLE(
+  id UUID,
+  member_id UUID,
+  account_number TEXT,
+  account_type TEXT,
+  balance DECIMAL(15,2),
+  minimum_balance DECIMAL(15,2),
+  interest_rate DECIMAL(5,2),
+  lien_amount DECIMAL(15,2),
+  available_balance DECIMAL(15,2),
+  last_interest_date DATE,
+  opened_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  PERFORM public.assert_member_branch_access(p_member_id);
+
+  RETURN QUERY
+  WITH lien AS (
+    SELECT public.member_savings_lien(p_member_id) AS amount
+  )
+  SELECT
+    sa.id,
+    sa.member_id,
+    sa.account_number,
+    sa.account_type,
+    sa.balance,
+    sa.minimum_balance,
+    sa.interest_rate,
+    (CASE WHEN sa.account_type = 'compulsory' THEN LEAST(sa.balance, lien.amount) ELSE 0 END)::DECIMAL(15,2),
+    GREATEST(
+      sa.balance - GREATEST(sa.minimum_balance, CASE WHEN sa.account_type = 'compulsory' THEN lien.amount ELSE 0 END),
+      0
+    )::DECIMAL(15,2),
+    sa.last_interest_date,
+    sa.opened_at
+  FROM public.savings_accounts sa
+    CROSS JOIN lien
+  WHERE sa.member_id = p_member_id
+  ORDER BY sa.account_type;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
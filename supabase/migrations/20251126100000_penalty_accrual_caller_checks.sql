@@ -0,0 +1,203 @@
+-- Caller checks for penalty accrual
+-- accrue_loan_penalties let any caller without a user through as "the cron job",
+-- which included anonymous API requests, and accepted any as-of date, so a future
+-- date charged penalties that were not yet due. Jobs are now recognised by who is
+-- connected rather than by the missing user, and the date is capped at today.
+
+-- 1. Scheduled and server-side callers
+-- pg_cron connects as postgres with no JWT; edge functions use the service role key.
+-- session_user is used because current_user is the owner inside SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION public.is_service_caller()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.role(), '') = 'service_role'
+    OR (session_user = 'postgres' AND COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated'));
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION public.is_service_caller() FROM PUBLIC, anon, authenticated;
+
+-- 2. Accrual job
+CREATE OR REPLACE FUNCTION public.accrue_loan_penalties(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(penalties_created INTEGER, loans_charged INTEGER, total_amount DECIMAL) AS $$
+DECLARE
+  v_settings RECORD;
+  v_inst RECORD;
+  v_type TEXT;
+  v_rate DECIMAL;
+  v_grace INTEGER;
+  v_cap DECIMAL;
+  v_unpaid DECIMAL;
+  v_charged DECIMAL;
+  v_amount DECIMAL;
+  v_charge_date DATE;
+  v_charge INTEGER;
+  v_transaction_id UUID;
+  v_created INTEGER := 0;
+  v_total DECIMAL := 0;
+  v_loans UUID[] := '{}';
+BEGIN
+  -- The nightly job, or an administrator running it by hand
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can run penalty accrual';
+  END IF;
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Penalties cannot be accrued for a future date';
+  END IF;
+
+  SELECT auto_accrue_penalties, penalty_accrual_start, default_penalty_rate
+  INTO v_settings
+  FROM public.system_settings
+  WHERE id = 1;
+
+  IF public.is_service_caller() AND NOT COALESCE(v_settings.auto_accrue_penalties, TRUE) THEN
+    RETURN QUERY SELECT 0, 0, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount,
+      COALESCE(i.amount_paid, 0) AS amount_paid,
+      l.id AS loan_id,
+      l.member_id,
+      l.branch_id,
+      l.installment_type,
+      l.late_payment_penalty_rate,
+      l.penalty_type AS loan_penalty_type,
+      lp.penalty_type AS product_penalty_type,
+      lp.penalty_rate AS product_penalty_rate,
+      lp.penalty_grace_days,
+      lp.penalty_cap
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+      LEFT JOIN public.loan_products lp ON lp.code = l.loan_program
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.due_date < p_as_of
+      AND l.status IN ('active','disbursed','defaulted')
+      AND COALESCE(l.approval_status, 'approved') = 'approved'
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+    ORDER BY l.id, i.installment_number
+  LOOP
+    -- Loan terms win, then the product, then the system default (percentage)
+    IF COALESCE(v_inst.late_payment_penalty_rate, 0) > 0 THEN
+      v_rate := v_inst.late_payment_penalty_rate;
+      v_type := CASE WHEN v_inst.loan_penalty_type IN ('flat','fixed') THEN 'fixed' ELSE 'percentage' END;
+    ELSIF COALESCE(v_inst.product_penalty_rate, 0) > 0 THEN
+      v_rate := v_inst.product_penalty_rate;
+      v_type := v_inst.product_penalty_type;
+    ELSE
+      v_rate := COALESCE(v_settings.default_penalty_rate, 0);
+      v_type := 'percentage';
+    END IF;
+
+    CONTINUE WHEN v_rate <= 0;
+
+    v_grace := COALESCE(v_inst.penalty_grace_days, 0);
+    v_cap := v_inst.penalty_cap;
+    v_unpaid := GREATEST(v_inst.total_amount - v_inst.amount_paid, 0);
+    CONTINUE WHEN v_unpaid <= 0;
+
+    SELECT COALESCE(SUM(lpn.amount), 0) INTO v_charged
+    FROM public.loan_penalties lpn
+    WHERE lpn.installment_id = v_inst.installment_id;
+
+    v_charge := 1;
+    v_charge_date := public.installment_due_date(v_inst.due_date + v_grace + 1, v_inst.installment_type, 0);
+
+    WHILE v_charge_date <= p_as_of LOOP
+      IF v_charge_date >= COALESCE(v_settings.penalty_accrual_start, p_as_of)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.loan_penalties lpn
+          WHERE lpn.installment_id = v_inst.installment_id AND lpn.charge_number = v_charge
+        )
+      THEN
+        v_amount := CASE
+          WHEN v_type = 'fixed' THEN v_rate
+          ELSE ROUND(v_unpaid * v_rate / 100, 2)
+        END;
+        -- Waived charges still count towards the cap so waiving never re-opens it
+        IF v_cap IS NOT NULL THEN
+          v_amount := LEAST(v_amount, GREATEST(v_cap - v_charged, 0));
+        END IF;
+
+        EXIT WHEN v_amount <= 0;
+
+        INSERT INTO public.transactions (
+          amount,
+          transaction_type,
+          description,
+          loan_id,
+          member_id,
+          transaction_date,
+          status,
+          reference_number,
+          branch_id,
+          payment_method,
+          currency,
+          penalties
+        ) VALUES (
+          v_amount,
+          'penalty',
+          'Late payment penalty - installment ' || v_inst.installment_number,
+          v_inst.loan_id,
+          v_inst.member_id,
+          v_charge_date,
+          'pending',
+          'PEN-' || v_inst.installment_id::text || '-' || v_charge,
+          v_inst.branch_id,
+          'other',
+          'KES',
+          v_amount
+        )
+        RETURNING id INTO v_transaction_id;
+
+        INSERT INTO public.loan_penalties (
+          loan_id,
+          installment_id,
+          installment_number,
+          charge_number,
+          accrual_date,
+          days_overdue,
+          penalty_type,
+          penalty_rate,
+          base_amount,
+          amount,
+          transaction_id
+        ) VALUES (
+          v_inst.loan_id,
+          v_inst.installment_id,
+          v_inst.installment_number,
+          v_charge,
+          v_charge_date,
+          v_charge_date - v_inst.due_date,
+          v_type,
+          v_rate,
+          v_unpaid,
+          v_amount,
+          v_transaction_id
+        );
+
+        v_charged := v_charged + v_amount;
+        v_total := v_total + v_amount;
+        v_created := v_created + 1;
+        IF NOT (v_inst.loan_id = ANY (v_loans)) THEN
+          v_loans := array_append(v_loans, v_inst.loan_id);
+        END IF;
+      END IF;
+
+      v_charge := v_charge + 1;
+      v_charge_date := public.installment_due_date(v_inst.due_date + v_grace + 1, v_inst.installment_type, v_charge - 1);
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, cardinality(v_loans), v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.accrue_loan_penalties(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accrue_loan_penalties(DATE) TO authenticated;
@@ -0,0 +1,199 @@
+-- Mobile money posting guards
+-- post_mobile_money_receipt was callable through the API and posted whatever it
+-- was given, so one receipt could be posted more than once, and anyone could
+-- run match_mobile_money_receipt. Matching and allocation now claim the receipt
+-- (status 'matched' with the loan) under the row lock before posting, posting
+-- refuses anything not claimed for that loan or already posted, and only the
+-- webhook and staff who handle receipts may run the matcher.
+
+-- 1. Post a claimed receipt against its loan
+CREATE OR REPLACE FUNCTION public.post_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_loan_id UUID,
+  p_match_method TEXT,
+  p_user_id UUID DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_receipt public.mobile_money_receipts;
+  v_member_id UUID;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_receipt FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  -- The caller claims the receipt for the loan first; a claimed receipt is posted once
+  IF v_receipt.status <> 'matched'
+    OR v_receipt.loan_id IS DISTINCT FROM p_loan_id
+    OR v_receipt.loan_payment_id IS NOT NULL
+  THEN
+    RAISE EXCEPTION 'Receipt % is not waiting to be posted to this loan', v_receipt.transaction_id;
+  END IF;
+
+  SELECT COALESCE(member_id, customer_id) INTO v_member_id FROM public.loans WHERE id = p_loan_id;
+
+  INSERT INTO public.loan_payments (
+    loan_id,
+    installment_number,
+    amount,
+    payment_date,
+    payment_reference,
+    notes,
+    created_by
+  ) VALUES (
+    p_loan_id,
+    0,
+    v_receipt.amount,
+    (v_receipt.transaction_time AT TIME ZONE 'Africa/Nairobi')::DATE,
+    'MM-' || v_receipt.transaction_id,
+    'M-Pesa ' || v_receipt.transaction_id
+      || COALESCE(' from ' || v_receipt.msisdn, '')
+      || COALESCE(' (' || NULLIF(btrim(v_receipt.payer_name), '') || ')', ''),
+    p_user_id
+  )
+  RETURNING id INTO v_payment_id;
+
+  UPDATE public.mobile_money_receipts
+  SET status = CASE WHEN p_match_method = 'manual' THEN 'allocated' ELSE 'matched' END,
+      match_method = p_match_method,
+      loan_id = p_loan_id,
+      member_id = COALESCE(v_member_id, member_id),
+      loan_payment_id = v_payment_id,
+      match_error = NULL,
+      allocated_by = p_user_id,
+      allocated_at = NOW()
+  WHERE id = p_receipt_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.post_mobile_money_receipt(UUID, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 2. Auto-match
+CREATE OR REPLACE FUNCTION public.match_mobile_money_receipt(p_receipt_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_receipt public.mobile_money_receipts;
+  v_reference TEXT;
+  v_loan_id UUID;
+  v_member_id UUID;
+  v_method TEXT;
+BEGIN
+  -- The mpesa-c2b webhook, or staff retrying a receipt from the suspense queue
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to match mobile money receipts';
+  END IF;
+
+  SELECT * INTO v_receipt FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  IF v_receipt.status <> 'unmatched' THEN
+    RETURN v_receipt.status;
+  END IF;
+
+  v_reference := upper(regexp_replace(COALESCE(v_receipt.account_reference, ''), '\s', '', 'g'));
+  IF v_reference = '' THEN
+    UPDATE public.mobile_money_receipts SET match_error = 'No account number on the payment' WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END IF;
+
+  SELECT l.id INTO v_loan_id
+  FROM public.loans l
+  WHERE (upper(l.account_number) = v_reference OR upper(l.application_no) = v_reference)
+    AND l.status IN ('active','disbursed','defaulted')
+    AND COALESCE(l.is_deleted, FALSE) = FALSE
+  LIMIT 1;
+
+  IF v_loan_id IS NOT NULL THEN
+    v_method := 'loan_account';
+  ELSE
+    SELECT m.id INTO v_member_id
+    FROM public.members m
+    WHERE upper(regexp_replace(m.id_number, '\s', '', 'g')) = v_reference
+    LIMIT 1;
+
+    IF v_member_id IS NOT NULL THEN
+      SELECT l.id INTO v_loan_id
+      FROM public.loans l
+      WHERE COALESCE(l.member_id, l.customer_id) = v_member_id
+        AND l.status IN ('active','disbursed','defaulted')
+        AND COALESCE(l.is_deleted, FALSE) = FALSE
+        AND COALESCE(l.current_balance, 0) > 0
+      ORDER BY l.issue_date, l.created_at
+      LIMIT 1;
+      v_method := 'member_id_number';
+    END IF;
+  END IF;
+
+  IF v_loan_id IS NULL THEN
+    UPDATE public.mobile_money_receipts
+    SET member_id = v_member_id,
+        match_error = CASE
+          WHEN v_member_id IS NULL THEN 'No loan or member matches account ' || v_reference
+          ELSE 'Member has no open loan'
+        END
+    WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END IF;
+
+  -- The payment triggers reject overpayments; keep those in suspense with the reason
+  BEGIN
+    UPDATE public.mobile_money_receipts SET status = 'matched', loan_id = v_loan_id WHERE id = p_receipt_id;
+    PERFORM public.post_mobile_money_receipt(p_receipt_id, v_loan_id, v_method, NULL);
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.mobile_money_receipts
+    SET loan_id = v_loan_id,
+        member_id = v_member_id,
+        match_error = SQLERRM
+    WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END;
+
+  RETURN 'matched';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.match_mobile_money_receipt(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.match_mobile_money_receipt(UUID) TO authenticated;
+
+-- 3. Manual allocation
+CREATE OR REPLACE FUNCTION public.allocate_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_loan_id UUID,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_status TEXT;
+  v_payment_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to allocate mobile money receipts';
+  END IF;
+
+  SELECT status INTO v_status FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  IF v_status <> 'unmatched' THEN
+    RAISE EXCEPTION 'Receipt is already %', v_status;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  UPDATE public.mobile_money_receipts SET status = 'matched', loan_id = p_loan_id WHERE id = p_receipt_id;
+  v_payment_id := public.post_mobile_money_receipt(p_receipt_id, p_loan_id, 'manual', auth.uid());
+
+  IF p_notes IS NOT NULL AND btrim(p_notes) <> '' THEN
+    UPDATE public.mobile_money_receipts SET notes = p_notes WHERE id = p_receipt_id;
+  END IF;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
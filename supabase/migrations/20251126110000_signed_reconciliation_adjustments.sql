@@ -0,0 +1,136 @@
+-- Signed reconciliation adjustments
+-- post_reconciliation_adjustment stored credit and debit adjustments with the
+-- same positive amount, so a debit added to the totals instead of taking away
+-- from them. Debits are now stored negative; adjustments are the only
+-- transactions allowed a negative amount.
+
+-- 1. Let adjustments carry a sign
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_amount_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_amount_check
+  CHECK (amount > 0 OR (transaction_type = 'adjustment' AND amount < 0));
+
+-- 2. Debit adjustments already posted
+UPDATE public.transactions t
+SET amount = -t.amount
+FROM public.statement_reconciliation_lines srl
+WHERE srl.adjustment_transaction_id = t.id
+  AND t.transaction_type = 'adjustment'
+  AND t.description LIKE 'Reconciliation debit adjustment%'
+  AND t.amount > 0;
+
+-- 3. Post an adjustment transaction for an unresolved line
+CREATE OR REPLACE FUNCTION public.post_reconciliation_adjustment(
+  p_line_id UUID,
+  p_loan_id UUID,
+  p_amount DECIMAL,
+  p_direction TEXT,
+  p_note TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_line public.statement_reconciliation_lines;
+  v_reconciliation public.statement_reconciliations;
+  v_loan RECORD;
+  v_transaction_id UUID;
+  v_amount DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post reconciliation adjustments';
+  END IF;
+
+  IF COALESCE(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for every adjustment';
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must be greater than zero';
+  END IF;
+  IF p_direction NOT IN ('credit','debit') THEN
+    RAISE EXCEPTION 'Adjustment direction must be credit or debit';
+  END IF;
+
+  SELECT * INTO v_line FROM public.statement_reconciliation_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation line % not found', p_line_id;
+  END IF;
+  IF v_line.resolution IS NOT NULL THEN
+    RAISE EXCEPTION 'This line has already been resolved';
+  END IF;
+  IF v_line.match_status = 'matched' THEN
+    RAISE EXCEPTION 'Matched lines do not need an adjustment';
+  END IF;
+
+  SELECT * INTO v_reconciliation FROM public.statement_reconciliations WHERE id = v_line.reconciliation_id;
+  IF v_reconciliation.status <> 'open' THEN
+    RAISE EXCEPTION 'This reconciliation is closed';
+  END IF;
+
+  SELECT l.id, l.member_id, l.branch_id INTO v_loan
+  FROM public.loans l
+  WHERE l.id = COALESCE(p_loan_id, v_line.loan_id);
+
+  -- A debit takes money off the books, so it is stored negative
+  v_amount := CASE WHEN p_direction = 'debit' THEN -p_amount ELSE p_amount END;
+
+  INSERT INTO public.transactions (
+    transaction_type,
+    amount,
+    currency,
+    status,
+    payment_method,
+    reference_number,
+    description,
+    transaction_date,
+    loan_id,
+    member_id,
+    branch_id,
+    notes,
+    created_by
+  ) VALUES (
+    'adjustment',
+    v_amount,
+    'KES',
+    'completed',
+    CASE WHEN v_reconciliation.source = 'mpesa' THEN 'mobile_money' ELSE 'bank_transfer' END,
+    'REC-ADJ-' || p_line_id::text,
+    'Reconciliation ' || p_direction || ' adjustment'
+      || COALESCE(' for ' || COALESCE(v_line.reference, v_line.system_reference), ''),
+    COALESCE(v_line.transaction_date, v_line.system_date, CURRENT_DATE),
+    v_loan.id,
+    v_loan.member_id,
+    v_loan.branch_id,
+    p_note,
+    auth.uid()
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.statement_reconciliation_lines
+  SET resolution = 'adjusted',
+      adjustment_transaction_id = v_transaction_id,
+      loan_id = COALESCE(v_loan.id, loan_id),
+      resolution_note = p_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_line_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_ADJUSTMENT',
+    'statement_reconciliation_lines',
+    p_line_id,
+    jsonb_build_object('match_status', v_line.match_status, 'difference', v_line.difference),
+    jsonb_build_object(
+      'transaction_id', v_transaction_id,
+      'amount', v_amount,
+      'direction', p_direction,
+      'loan_id', v_loan.id,
+      'note', p_note
+    ),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.post_reconciliation_adjustment(UUID, UUID, DECIMAL, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,16 @@
+-- Loan top-up privileges
+-- settle_loan_top_up was only revoked from PUBLIC, and Supabase grants every new
+-- function to anon and authenticated as well, so anyone could settle a pending
+-- top-up's old loan without approving or disbursing it. Settlement is now
+-- reachable only through disburse_loan, and the balance and eligibility helpers
+-- are closed to anonymous callers.
+
+-- 1. Settlement runs inside disburse_loan only
+REVOKE ALL ON FUNCTION public.settle_loan_top_up(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 2. Helpers used by staff screens and the top-up trigger
+REVOKE ALL ON FUNCTION public.loan_outstanding_balance(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loan_outstanding_balance(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.loan_top_up_block_reason(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loan_top_up_block_reason(UUID, UUID) TO authenticated;
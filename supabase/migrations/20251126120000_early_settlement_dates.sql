@@ -0,0 +1,195 @@
+-- Early settlement dates
+-- settle_loan_early accepted any past date, including one before the loan was
+-- paid out or before payments already taken, and any loan officer could pick
+-- it. A settlement now falls between the loan's disbursement (or its last
+-- payment, whichever is later) and today, and only administrators may date it
+-- before today.
+
+-- 1. Record the payoff
+CREATE OR REPLACE FUNCTION public.settle_loan_early(
+  p_loan_id UUID,
+  p_as_of DATE,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans;
+  v_quote RECORD;
+  v_reference TEXT;
+  v_loan_amount DECIMAL(15,2);
+  v_settlement_id UUID;
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_rebate_transaction_id UUID;
+  v_last_payment_date DATE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to settle loans';
+  END IF;
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A settlement cannot be recorded for a future date';
+  END IF;
+  -- An earlier date earns a different rebate, so only administrators may backdate
+  IF p_as_of < CURRENT_DATE AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can record a settlement for an earlier date';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  IF p_as_of < COALESCE(v_loan.disbursement_date, v_loan.issue_date::DATE) THEN
+    RAISE EXCEPTION 'A settlement cannot be dated before the loan was disbursed on %',
+      COALESCE(v_loan.disbursement_date, v_loan.issue_date::DATE);
+  END IF;
+  SELECT MAX(lp.payment_date) INTO v_last_payment_date FROM public.loan_payments lp WHERE lp.loan_id = p_loan_id;
+  IF p_as_of < v_last_payment_date THEN
+    RAISE EXCEPTION 'A settlement cannot be dated before the last payment on the loan (%)', v_last_payment_date;
+  END IF;
+  SELECT * INTO v_quote FROM public.loan_settlement_quote(p_loan_id, p_as_of);
+
+  IF ABS(COALESCE(p_amount, 0) - v_quote.settlement_amount) > 0.01 THEN
+    RAISE EXCEPTION 'The settlement amount as of % is KES %, not KES %', p_as_of, v_quote.settlement_amount, p_amount;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(btrim(p_reference), ''), 'SETTLE-' || COALESCE(v_loan.application_no, v_loan.id::TEXT));
+  v_loan_amount := v_quote.principal_outstanding + v_quote.interest_outstanding
+    + v_quote.fees_outstanding - v_quote.interest_rebate;
+
+  INSERT INTO public.loan_settlements (
+    loan_id, as_of_date, rebate_policy, rebate_percent,
+    principal_outstanding, interest_outstanding, fees_outstanding,
+    unearned_interest, interest_rebate, penalties_outstanding, settlement_amount,
+    payment_method, payment_reference, notes, settled_by
+  ) VALUES (
+    p_loan_id, p_as_of, v_quote.rebate_policy, v_quote.rebate_percent,
+    v_quote.principal_outstanding, v_quote.interest_outstanding, v_quote.fees_outstanding,
+    v_quote.unearned_interest, v_quote.interest_rebate, v_quote.penalties_outstanding, v_quote.settlement_amount,
+    p_payment_method, v_reference, NULLIF(btrim(p_notes), ''), auth.uid()
+  )
+  RETURNING id INTO v_settlement_id;
+
+  -- The rebate comes off the interest owed before the payment is applied
+  IF v_quote.interest_rebate > 0 THEN
+    UPDATE public.loans
+    SET interest_disbursed = COALESCE(interest_disbursed, 0) - v_quote.interest_rebate,
+        current_balance = COALESCE(current_balance, 0) - v_quote.interest_rebate,
+        early_settlement_rebate = v_quote.interest_rebate,
+        updated_at = NOW()
+    WHERE id = p_loan_id;
+
+    INSERT INTO public.transactions (
+      amount, transaction_type, description, loan_id, member_id, transaction_date,
+      created_by, status, reference_number, branch_id, payment_method, currency
+    ) VALUES (
+      v_quote.interest_rebate,
+      'adjustment',
+      'Early settlement interest rebate',
+      p_loan_id,
+      COALESCE(v_loan.member_id, v_loan.customer_id),
+      p_as_of,
+      auth.uid(),
+      'completed',
+      'REBATE-' || v_settlement_id::TEXT,
+      v_loan.branch_id,
+      'other',
+      'KES'
+    )
+    RETURNING id INTO v_rebate_transaction_id;
+  END IF;
+
+  IF v_loan_amount > 0 THEN
+    INSERT INTO public.loan_payments (
+      loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+    ) VALUES (
+      p_loan_id, 0, v_loan_amount, p_as_of, v_reference, 'Early settlement', auth.uid()
+    )
+    RETURNING id INTO v_payment_id;
+
+    INSERT INTO public.transactions (
+      amount, transaction_type, description, loan_id, member_id, transaction_date,
+      created_by, status, reference_number, branch_id, payment_method, currency, total_paid
+    ) VALUES (
+      v_loan_amount,
+      'payment',
+      'Early settlement',
+      p_loan_id,
+      COALESCE(v_loan.member_id, v_loan.customer_id),
+      p_as_of,
+      auth.uid(),
+      'completed',
+      v_reference,
+      v_loan.branch_id,
+      p_payment_method,
+      'KES',
+      v_loan_amount
+    )
+    RETURNING id INTO v_transaction_id;
+  END IF;
+
+  -- Penalty transactions were booked as pending when charged; they are collected now
+  WITH paid AS (
+    UPDATE public.loan_penalties
+    SET status = 'paid',
+        paid_at = NOW()
+    WHERE loan_id = p_loan_id AND status = 'accrued'
+    RETURNING transaction_id
+  )
+  UPDATE public.transactions t
+  SET status = 'completed',
+      notes = 'Collected in early settlement ' || v_reference,
+      updated_at = NOW()
+  FROM paid
+  WHERE t.id = paid.transaction_id;
+
+  UPDATE public.loan_installments
+  SET is_paid = TRUE,
+      paid_date = COALESCE(paid_date, p_as_of),
+      closed_by_settlement_id = v_settlement_id
+  WHERE loan_id = p_loan_id
+    AND COALESCE(is_paid, FALSE) = FALSE;
+
+  UPDATE public.loans
+  SET status = 'repaid',
+      current_balance = 0,
+      settled_early_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  UPDATE public.loan_settlements
+  SET loan_payment_id = v_payment_id,
+      transaction_id = v_transaction_id,
+      rebate_transaction_id = v_rebate_transaction_id
+  WHERE id = v_settlement_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_EARLY_SETTLEMENT',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'current_balance', v_loan.current_balance),
+    jsonb_build_object(
+      'status', 'repaid',
+      'settlement_id', v_settlement_id,
+      'settlement_amount', v_quote.settlement_amount,
+      'interest_rebate', v_quote.interest_rebate,
+      'penalties', v_quote.penalties_outstanding
+    ),
+    auth.uid()
+  );
+
+  RETURN v_settlement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.settle_loan_early(UUID, DATE, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,79 @@
+-- Savings posting privileges and the interest job
+-- post_savings_transaction moves money without any role check and was only
+-- revoked from PUBLIC, so anon and authenticated could still call it directly.
+-- The app goes through savings_deposit / savings_withdraw, which check the role,
+-- so the shared posting function is closed to API callers. credit_savings_interest
+-- let any caller without a user through as the job, and failed whenever it
+-- credited anything because its audit row had no record id; it now recognises
+-- the job by who is connected and writes one audit row per credited account.
+
+-- 1. Posting runs inside the role-checked functions only
+REVOKE ALL ON FUNCTION public.post_savings_transaction(UUID, TEXT, DECIMAL, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 2. Monthly interest
+CREATE OR REPLACE FUNCTION public.credit_savings_interest(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(accounts_credited INTEGER, total_interest DECIMAL) AS $$
+DECLARE
+  v_account RECORD;
+  v_interest DECIMAL(15,2);
+  v_count INTEGER := 0;
+  v_total DECIMAL := 0;
+  v_transaction_id UUID;
+BEGIN
+  -- The monthly job, or an administrator running it by hand
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can credit savings interest';
+  END IF;
+
+  IF public.is_service_caller() AND NOT COALESCE(
+    (SELECT s.auto_credit_savings_interest FROM public.system_settings s WHERE s.id = 1), TRUE
+  ) THEN
+    RETURN QUERY SELECT 0, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  FOR v_account IN
+    SELECT sa.id, sa.balance, sa.interest_rate
+    FROM public.savings_accounts sa
+    WHERE sa.interest_rate > 0
+      AND sa.balance > 0
+      AND (sa.last_interest_date IS NULL OR sa.last_interest_date < date_trunc('month', p_as_of)::DATE)
+    FOR UPDATE
+  LOOP
+    v_interest := ROUND(v_account.balance * v_account.interest_rate / 100 / 12, 2);
+    UPDATE public.savings_accounts SET last_interest_date = p_as_of WHERE id = v_account.id;
+    CONTINUE WHEN v_interest <= 0;
+
+    v_transaction_id := public.post_savings_transaction(
+      v_account.id, 'interest', v_interest, NULL,
+      'INT-' || to_char(p_as_of, 'YYYYMM'),
+      'Monthly interest at ' || v_account.interest_rate || '% a year',
+      auth.uid()
+    );
+    v_count := v_count + 1;
+    v_total := v_total + v_interest;
+
+    INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+    VALUES (
+      'SAVINGS_INTEREST_CREDITED',
+      'savings_accounts',
+      v_account.id,
+      jsonb_build_object('balance', v_account.balance),
+      jsonb_build_object(
+        'as_of', p_as_of,
+        'interest', v_interest,
+        'rate', v_account.interest_rate,
+        'transaction_id', v_transaction_id
+      ),
+      auth.uid()
+    );
+  END LOOP;
+
+  RETURN QUERY SELECT v_count, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.credit_savings_interest(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.credit_savings_interest(DATE) TO authenticated;
@@ -0,0 +1,74 @@
+-- Notification privileges
+-- notify_users and notify_staff were only revoked from PUBLIC, so any signed-in
+-- user (or anonymous caller) could send any staff member an in-app alert with
+-- any text. They are now reachable only from the database's own functions and
+-- triggers. generate_overdue_alerts let any caller without a user through as the
+-- job; it now recognises the job by who is connected.
+
+-- 1. Delivery helpers run inside other functions only
+REVOKE ALL ON FUNCTION public.notify_users(UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.notify_staff(TEXT[], BIGINT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 2. Overdue installments
+CREATE OR REPLACE FUNCTION public.generate_overdue_alerts(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_inst RECORD;
+  v_message TEXT;
+  v_created INTEGER := 0;
+BEGIN
+  -- The morning job, or an administrator running it by hand
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can generate overdue alerts';
+  END IF;
+
+  -- Only recent arrears, so the first run does not replay the whole history
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount - COALESCE(i.amount_paid, 0) AS unpaid,
+      l.id AS loan_id,
+      COALESCE(l.application_no, l.id::TEXT) AS account_number,
+      l.branch_id,
+      l.loan_officer_id,
+      m.full_name AS member_name
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+      LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.due_date < p_as_of
+      AND i.due_date >= p_as_of - 7
+      AND i.total_amount - COALESCE(i.amount_paid, 0) > 0
+      AND l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+  LOOP
+    v_message := COALESCE(v_inst.member_name, 'A member') || ' missed installment #' || v_inst.installment_number
+      || ' on loan ' || v_inst.account_number || ', due ' || to_char(v_inst.due_date, 'DD Mon YYYY')
+      || ' (KES ' || to_char(v_inst.unpaid, 'FM999,999,999,990.00') || ' unpaid).';
+
+    v_created := v_created + public.notify_users(
+      ARRAY(
+        SELECT p.id FROM public.profiles p
+        WHERE p.id = v_inst.loan_officer_id
+           OR (p.role::TEXT = 'branch_admin' AND p.branch_id = v_inst.branch_id)
+      ),
+      'Installment overdue',
+      v_message,
+      'warning',
+      'installment_overdue',
+      'loan',
+      v_inst.loan_id,
+      'overdue:' || v_inst.installment_id
+    );
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.generate_overdue_alerts(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_overdue_alerts(DATE) TO authenticated;
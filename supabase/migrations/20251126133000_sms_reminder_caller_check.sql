@@ -0,0 +1,67 @@
+-- SMS reminder job caller check
+-- queue_sms_reminders let any caller without a user through as the daily job,
+-- which included anonymous API requests, so anyone could make the outbox text
+-- every member with an installment due. It now recognises the job by who is
+-- connected and is closed to anonymous callers.
+
+-- 1. Installment reminders
+CREATE OR REPLACE FUNCTION public.queue_sms_reminders(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_days INTEGER;
+  v_inst RECORD;
+  v_queued INTEGER := 0;
+BEGIN
+  -- The daily job, or an administrator running it by hand
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can queue SMS reminders';
+  END IF;
+
+  SELECT s.sms_reminder_days INTO v_days FROM public.system_settings s WHERE s.id = 1;
+
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount - COALESCE(i.amount_paid, 0) AS unpaid,
+      l.id AS loan_id,
+      COALESCE(l.application_no, l.id::TEXT) AS loan_number,
+      COALESCE(l.member_id, l.customer_id) AS member_id,
+      CASE WHEN i.due_date < p_as_of THEN 'missed_payment' ELSE 'upcoming_installment' END AS template_code
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.total_amount - COALESCE(i.amount_paid, 0) > 0
+      AND (
+        i.due_date = p_as_of + COALESCE(v_days, 2)
+        OR (i.due_date < p_as_of AND i.due_date >= p_as_of - 7)
+      )
+      AND l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+      AND COALESCE(l.member_id, l.customer_id) IS NOT NULL
+  LOOP
+    IF public.queue_member_sms(
+      v_inst.template_code,
+      v_inst.member_id,
+      v_inst.loan_id,
+      jsonb_build_object(
+        'amount', to_char(v_inst.unpaid, 'FM999,999,999,990.00'),
+        'loan_number', v_inst.loan_number,
+        'installment_number', v_inst.installment_number,
+        'due_date', to_char(v_inst.due_date, 'DD Mon YYYY')
+      ),
+      v_inst.template_code || ':' || v_inst.installment_id
+    ) IS NOT NULL THEN
+      v_queued := v_queued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.queue_sms_reminders(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.queue_sms_reminders(DATE) TO authenticated;
@@ -0,0 +1,95 @@
+-- Report delivery job caller check
+-- queue_report_deliveries let any caller without a user through as the daily
+-- job, which included anonymous API requests, so anyone could queue report
+-- emails to every subscriber. It now recognises the job by who is connected and
+-- is closed to anonymous callers.
+
+-- 1. Queue the day's report emails
+CREATE OR REPLACE FUNCTION public.queue_report_deliveries(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_subscription_id UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  v_sub RECORD;
+  v_period_start DATE;
+  v_period_end DATE;
+  v_report_name TEXT;
+  v_period TEXT;
+  v_queued INTEGER := 0;
+BEGIN
+  -- The daily job, an administrator, or a subscriber sending their own report now
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin')
+        OR (p_subscription_id IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.report_subscriptions r WHERE r.id = p_subscription_id AND r.user_id = auth.uid()
+        ))
+      )
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can queue report deliveries';
+  END IF;
+
+  FOR v_sub IN
+    SELECT r.*, p.email, p.full_name, b.name AS branch_name
+    FROM public.report_subscriptions r
+      JOIN public.profiles p ON p.id = r.user_id
+      LEFT JOIN public.branches b ON b.id = r.branch_id
+    WHERE COALESCE(p.is_active, TRUE)
+      AND (
+        r.id = p_subscription_id
+        OR (
+          p_subscription_id IS NULL
+          AND r.is_active
+          -- the collections summary covers Monday to Sunday and goes out on Mondays
+          AND (r.report_type = 'daily_overdue' OR EXTRACT(ISODOW FROM p_as_of) = 1)
+        )
+      )
+  LOOP
+    IF v_sub.report_type = 'daily_overdue' THEN
+      v_period_start := p_as_of;
+      v_period_end := p_as_of;
+      v_report_name := 'Overdue Loans Report';
+      v_period := to_char(p_as_of, 'DD Mon YYYY');
+    ELSE
+      v_period_end := p_as_of - 1;
+      v_period_start := v_period_end - 6;
+      v_report_name := 'Weekly Collections Summary';
+      v_period := to_char(v_period_start, 'DD Mon') || ' - ' || to_char(v_period_end, 'DD Mon YYYY');
+    END IF;
+
+    IF public.queue_email(
+      'scheduled_report',
+      v_sub.email,
+      v_sub.full_name,
+      v_sub.user_id,
+      NULL,
+      jsonb_build_object(
+        'report_name', v_report_name,
+        'report_date', to_char(p_as_of, 'DD Mon YYYY'),
+        'report_period', v_period,
+        'branch_name', COALESCE(v_sub.branch_name, 'all branches')
+      ),
+      'report:' || v_sub.id || ':' || p_as_of
+        || CASE WHEN p_subscription_id IS NOT NULL THEN ':' || extract(epoch FROM clock_timestamp())::BIGINT ELSE '' END,
+      v_sub.id,
+      jsonb_build_object(
+        'report_type', v_sub.report_type,
+        'format', v_sub.format,
+        'branch_id', v_sub.branch_id,
+        'period_start', v_period_start,
+        'period_end', v_period_end
+      )
+    ) IS NOT NULL THEN
+      v_queued := v_queued + 1;
+      UPDATE public.report_subscriptions SET last_queued_for = p_as_of WHERE id = v_sub.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.queue_report_deliveries(DATE, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.queue_report_deliveries(DATE, UUID) TO authenticated;
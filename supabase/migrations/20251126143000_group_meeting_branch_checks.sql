@@ -0,0 +1,220 @@
+-- Group meeting branch checks
+-- group_collection_sheet read past RLS with no check on the caller, and Supabase
+-- grants every new function to anon as well, so anyone could list the members and
+-- phone numbers of any group. record_group_meeting only held branch admins to
+-- their branch, so a loan officer could post collections for any group. Both now
+-- require the group's branch to be one the caller can access.
+
+-- 1. Expected collection sheet for a meeting date
+CREATE OR REPLACE FUNCTION public.group_collection_sheet(p_group_id BIGINT, p_meeting_date DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(
+  member_id UUID,
+  member_name TEXT,
+  phone_number TEXT,
+  loan_id UUID,
+  account_number TEXT,
+  current_due DECIMAL(15,2),
+  arrears_due DECIMAL(15,2),
+  total_due DECIMAL(15,2),
+  outstanding_balance DECIMAL(15,2)
+) AS $$
+BEGIN
+  IF NOT public.can_access_branch(public.group_branch_id(p_group_id)) THEN
+    RAISE EXCEPTION 'This group belongs to a branch you do not have access to';
+  END IF;
+
+  RETURN QUERY
+    WITH open_loans AS (
+      SELECT DISTINCT ON (COALESCE(l.member_id, l.customer_id))
+        l.id,
+        COALESCE(l.member_id, l.customer_id) AS member_id,
+        COALESCE(l.application_no, l.account_number) AS account_number
+      FROM public.loans l
+      WHERE l.status::TEXT IN ('active','disbursed','defaulted')
+        AND COALESCE(l.is_deleted, FALSE) = FALSE
+      ORDER BY COALESCE(l.member_id, l.customer_id), l.issue_date
+    ),
+    dues AS (
+      SELECT
+        li.loan_id,
+        SUM(CASE WHEN li.due_date > p_meeting_date - 7 THEN li.total_amount - COALESCE(li.amount_paid, 0) ELSE 0 END) AS current_due,
+        SUM(CASE WHEN li.due_date <= p_meeting_date - 7 THEN li.total_amount - COALESCE(li.amount_paid, 0) ELSE 0 END) AS arrears_due
+      FROM public.loan_installments li
+      WHERE COALESCE(li.is_paid, FALSE) = FALSE
+        AND li.due_date <= p_meeting_date
+      GROUP BY li.loan_id
+    )
+    SELECT
+      m.id,
+      m.full_name::TEXT,
+      m.phone_number::TEXT,
+      ol.id,
+      ol.account_number::TEXT,
+      ROUND(GREATEST(COALESCE(d.current_due, 0), 0), 2)::DECIMAL(15,2),
+      ROUND(GREATEST(COALESCE(d.arrears_due, 0), 0), 2)::DECIMAL(15,2),
+      ROUND(GREATEST(COALESCE(d.current_due, 0), 0) + GREATEST(COALESCE(d.arrears_due, 0), 0), 2)::DECIMAL(15,2),
+      (CASE WHEN ol.id IS NULL THEN 0 ELSE public.loan_outstanding_balance(ol.id) END)::DECIMAL(15,2)
+    FROM public.members m
+    LEFT JOIN open_loans ol ON ol.member_id = m.id
+    LEFT JOIN dues d ON d.loan_id = ol.id
+    WHERE m.group_id = p_group_id
+      AND COALESCE(m.status, 'active') = 'active'
+    ORDER BY m.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.group_collection_sheet(BIGINT, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.group_collection_sheet(BIGINT, DATE) TO authenticated;
+
+-- 2. Record attendance and post the collections
+-- p_entries: [{ "member_id", "loan_id", "attendance", "current_due", "arrears_due", "amount_collected", "notes" }, ...]
+CREATE OR REPLACE FUNCTION public.record_group_meeting(
+  p_group_id BIGINT,
+  p_meeting_date DATE,
+  p_entries JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_group public.groups;
+  v_meeting_id UUID;
+  v_entry JSONB;
+  v_member public.members;
+  v_loan public.loans;
+  v_loan_id UUID;
+  v_attendance TEXT;
+  v_amount DECIMAL(15,2);
+  v_current DECIMAL(15,2);
+  v_arrears DECIMAL(15,2);
+  v_reference TEXT;
+  v_payment_id UUID;
+  v_expected_total DECIMAL(15,2) := 0;
+  v_collected_total DECIMAL(15,2) := 0;
+  v_members INTEGER := 0;
+  v_present INTEGER := 0;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can record group meetings';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+  IF p_meeting_date IS NULL OR p_meeting_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Meeting date cannot be in the future';
+  END IF;
+
+  SELECT * INTO v_group FROM public.groups WHERE id = p_group_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group % not found', p_group_id;
+  END IF;
+  IF NOT public.can_access_branch(v_group.branch_id) THEN
+    RAISE EXCEPTION 'This group belongs to a branch you do not have access to';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.group_meetings gm WHERE gm.group_id = p_group_id AND gm.meeting_date = p_meeting_date) THEN
+    RAISE EXCEPTION 'The meeting on % has already been recorded', p_meeting_date;
+  END IF;
+
+  INSERT INTO public.group_meetings (group_id, meeting_date, meeting_time, payment_method, notes, recorded_by)
+  VALUES (p_group_id, p_meeting_date, v_group.meeting_time, p_payment_method, NULLIF(TRIM(p_notes), ''), auth.uid())
+  RETURNING id INTO v_meeting_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_entries, '[]'::JSONB)) LOOP
+    SELECT * INTO v_member FROM public.members WHERE id = (v_entry->>'member_id')::UUID;
+    IF NOT FOUND OR v_member.group_id IS DISTINCT FROM p_group_id THEN
+      RAISE EXCEPTION 'Member % is not in this group', v_entry->>'member_id';
+    END IF;
+
+    v_attendance := COALESCE(v_entry->>'attendance', 'present');
+    v_amount := ROUND(COALESCE((v_entry->>'amount_collected')::DECIMAL, 0), 2);
+    v_current := ROUND(COALESCE((v_entry->>'current_due')::DECIMAL, 0), 2);
+    v_arrears := ROUND(COALESCE((v_entry->>'arrears_due')::DECIMAL, 0), 2);
+    v_loan_id := NULLIF(v_entry->>'loan_id', '')::UUID;
+    v_payment_id := NULL;
+
+    IF v_amount < 0 THEN
+      RAISE EXCEPTION 'Amount collected from % cannot be negative', v_member.full_name;
+    END IF;
+
+    IF v_amount > 0 THEN
+      SELECT * INTO v_loan FROM public.loans WHERE id = v_loan_id;
+      IF NOT FOUND OR COALESCE(v_loan.member_id, v_loan.customer_id) IS DISTINCT FROM v_member.id THEN
+        RAISE EXCEPTION '% has no loan to post KES % against', v_member.full_name, v_amount;
+      END IF;
+      IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+        RAISE EXCEPTION 'Loan % of % is not open for payments', COALESCE(v_loan.application_no, v_loan.id::TEXT), v_member.full_name;
+      END IF;
+
+      v_reference := 'GM-' || p_group_id || '-' || to_char(p_meeting_date, 'YYYYMMDD') || '-' || left(replace(v_member.id::TEXT, '-', ''), 8);
+
+      INSERT INTO public.loan_payments (
+        loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+      ) VALUES (
+        v_loan.id, 0, v_amount, p_meeting_date, v_reference, 'Group meeting ' || v_group.name, auth.uid()
+      )
+      RETURNING id INTO v_payment_id;
+
+      INSERT INTO public.transactions (
+        amount, transaction_type, description, loan_id, member_id, transaction_date,
+        created_by, status, reference_number, branch_id, payment_method, currency, total_paid
+      ) VALUES (
+        v_amount,
+        'payment',
+        'Group meeting collection',
+        v_loan.id,
+        v_member.id,
+        p_meeting_date,
+        auth.uid(),
+        'completed',
+        v_reference,
+        v_loan.branch_id,
+        p_payment_method,
+        'KES',
+        v_amount
+      );
+    END IF;
+
+    INSERT INTO public.group_meeting_attendance (
+      meeting_id, member_id, loan_id, attendance, current_due, arrears_due, expected_amount,
+      amount_collected, loan_payment_id, notes
+    ) VALUES (
+      v_meeting_id, v_member.id, v_loan_id, v_attendance, v_current, v_arrears, v_current + v_arrears,
+      v_amount, v_payment_id, NULLIF(TRIM(v_entry->>'notes'), '')
+    );
+
+    v_members := v_members + 1;
+    v_present := v_present + CASE WHEN v_attendance = 'present' THEN 1 ELSE 0 END;
+    v_expected_total := v_expected_total + v_current + v_arrears;
+    v_collected_total := v_collected_total + v_amount;
+  END LOOP;
+
+  UPDATE public.group_meetings
+  SET members_expected = v_members,
+      members_present = v_present,
+      expected_total = v_expected_total,
+      collected_total = v_collected_total
+  WHERE id = v_meeting_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'GROUP_MEETING_RECORDED',
+    'group_meetings',
+    v_meeting_id,
+    NULL,
+    jsonb_build_object(
+      'group_id', p_group_id,
+      'meeting_date', p_meeting_date,
+      'members_present', v_present,
+      'members_expected', v_members,
+      'collected_total', v_collected_total
+    ),
+    auth.uid()
+  );
+
+  RETURN v_meeting_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.record_group_meeting(BIGINT, DATE, JSONB, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_group_meeting(BIGINT, DATE, JSONB, TEXT, TEXT) TO authenticated;
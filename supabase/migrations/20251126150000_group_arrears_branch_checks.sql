@@ -0,0 +1,95 @@
+-- Group arrears branch checks
+-- group_arrears and group_lending_block_reason read past RLS with no check on the
+-- caller, and Supabase grants every new function to anon as well, so anyone could
+-- list the arrears of any group. Both now require the group's branch to be one the
+-- caller can access; the scheduled jobs are not scoped.
+
+-- 1. Group arrears: every member of the group with an overdue installment
+CREATE OR REPLACE FUNCTION public.group_arrears(p_group_id BIGINT)
+RETURNS TABLE(
+  member_id UUID,
+  member_name TEXT,
+  loan_id UUID,
+  account_number TEXT,
+  loan_status TEXT,
+  overdue_installments INTEGER,
+  arrears_amount DECIMAL(15,2),
+  oldest_due_date DATE,
+  days_overdue INTEGER,
+  is_defaulter BOOLEAN
+) AS $$
+BEGIN
+  IF NOT public.is_service_caller() AND NOT public.can_access_branch(public.group_branch_id(p_group_id)) THEN
+    RAISE EXCEPTION 'This group belongs to a branch you do not have access to';
+  END IF;
+
+  RETURN QUERY
+    WITH settings AS (
+      SELECT COALESCE((SELECT s.group_arrears_days FROM public.system_settings s WHERE s.id = 1), 30) AS arrears_days
+    ),
+    overdue AS (
+      SELECT
+        li.loan_id,
+        COUNT(*)::INTEGER AS installments,
+        SUM(li.total_amount - COALESCE(li.amount_paid, 0)) AS amount,
+        MIN(li.due_date) AS oldest_due_date
+      FROM public.loan_installments li
+      WHERE COALESCE(li.is_paid, FALSE) = FALSE
+        AND li.due_date < CURRENT_DATE
+        AND li.total_amount - COALESCE(li.amount_paid, 0) > 0
+      GROUP BY li.loan_id
+    )
+    SELECT
+      m.id,
+      m.full_name::TEXT,
+      l.id,
+      COALESCE(l.application_no, l.account_number)::TEXT,
+      l.status::TEXT,
+      COALESCE(o.installments, 0),
+      ROUND(COALESCE(o.amount, 0), 2)::DECIMAL(15,2),
+      o.oldest_due_date,
+      COALESCE(CURRENT_DATE - o.oldest_due_date, 0),
+      l.status::TEXT = 'defaulted' OR COALESCE(CURRENT_DATE - o.oldest_due_date, 0) > (SELECT arrears_days FROM settings)
+    FROM public.members m
+    JOIN public.loans l ON COALESCE(l.member_id, l.customer_id) = m.id
+    LEFT JOIN overdue o ON o.loan_id = l.id
+    WHERE m.group_id = p_group_id
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+      AND l.status::TEXT IN ('active','disbursed','defaulted')
+      AND (o.loan_id IS NOT NULL OR l.status::TEXT = 'defaulted')
+    ORDER BY 10 DESC, 9 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.group_arrears(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.group_arrears(BIGINT) TO authenticated;
+
+-- 2. Reason the group's members cannot borrow right now, NULL when they can
+CREATE OR REPLACE FUNCTION public.group_lending_block_reason(p_group_id BIGINT)
+RETURNS TEXT AS $$
+DECLARE
+  v_defaulters INTEGER;
+  v_allowed INTEGER;
+BEGIN
+  IF p_group_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF NOT public.is_service_caller() AND NOT public.can_access_branch(public.group_branch_id(p_group_id)) THEN
+    RAISE EXCEPTION 'This group belongs to a branch you do not have access to';
+  END IF;
+
+  SELECT COALESCE(s.group_max_defaulters, 0) INTO v_allowed FROM public.system_settings s WHERE s.id = 1;
+
+  SELECT COUNT(DISTINCT a.member_id) INTO v_defaulters
+  FROM public.group_arrears(p_group_id) a
+  WHERE a.is_defaulter;
+
+  IF v_defaulters > COALESCE(v_allowed, 0) THEN
+    RETURN 'the group has ' || v_defaulters || ' member(s) in default (limit ' || COALESCE(v_allowed, 0) || ')';
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.group_lending_block_reason(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.group_lending_block_reason(BIGINT) TO authenticated;
@@ -0,0 +1,69 @@
+-- Caller checks for the loan-level functions
+-- assert_loan_branch_access skipped the branch check whenever there was no user,
+-- which included anonymous API requests, and the functions redefined in
+-- 20251126090000 were never revoked from anon, which Supabase grants every new
+-- function to. Anonymous callers could therefore quote, settle and waive on any
+-- loan. Only scheduled jobs and the service role are now exempt from the check,
+-- and every one of those functions is closed to anonymous callers.
+
+-- 1. Loan-level assertion
+CREATE OR REPLACE FUNCTION public.assert_loan_branch_access(p_loan_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_service_caller() AND NOT public.can_access_branch(public.loan_branch_id(p_loan_id)) THEN
+    RAISE EXCEPTION 'This loan belongs to a branch you do not have access to';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.assert_loan_branch_access(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assert_loan_branch_access(UUID) TO authenticated;
+
+-- 2. The functions that call it
+REVOKE ALL ON FUNCTION public.waive_loan_penalties(UUID, TEXT, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.waive_loan_penalties(UUID, TEXT, UUID[]) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.allocate_mobile_money_receipt(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.allocate_mobile_money_receipt(UUID, UUID, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.loan_restructure_schedule(UUID, TEXT, INTEGER, DECIMAL, BOOLEAN, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loan_restructure_schedule(UUID, TEXT, INTEGER, DECIMAL, BOOLEAN, DATE) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.request_loan_restructure(UUID, TEXT, INTEGER, DECIMAL, BOOLEAN, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_loan_restructure(UUID, TEXT, INTEGER, DECIMAL, BOOLEAN, DATE, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.approve_loan_restructure(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_loan_restructure(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.reject_loan_restructure(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reject_loan_restructure(UUID, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.get_loan_top_up_quote(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_loan_top_up_quote(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.loan_settlement_quote(UUID, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loan_settlement_quote(UUID, DATE) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.settle_loan_early(UUID, DATE, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.settle_loan_early(UUID, DATE, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.record_loan_approval(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_loan_approval(UUID, TEXT, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.disburse_loan(UUID, DATE, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.disburse_loan(UUID, DATE, TEXT, TEXT, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.add_loan_guarantors(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_loan_guarantors(UUID, JSONB) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.recover_from_guarantor(UUID, UUID, DECIMAL, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recover_from_guarantor(UUID, UUID, DECIMAL, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.request_pending_change(TEXT, UUID, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_pending_change(TEXT, UUID, JSONB, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.approve_pending_change(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_pending_change(UUID, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.reject_pending_change(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reject_pending_change(UUID, TEXT) TO authenticated;
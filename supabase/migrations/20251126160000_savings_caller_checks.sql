@@ -0,0 +1,196 @@
+-- Caller checks for the savings functions
+-- assert_member_branch_access skipped the branch check whenever there was no
+-- user, which included anonymous API requests, and the savings read functions
+-- were never revoked from anon, which Supabase grants every new function to.
+-- Opening accounts and deposits only held branch admins to their branch, so a
+-- loan officer could post to a member of any branch. Only scheduled jobs and the
+-- service role are now exempt from the check, and every staff caller goes
+-- through it.
+
+-- 1. Member-level assertion
+CREATE OR REPLACE FUNCTION public.assert_member_branch_access(p_member_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_service_caller() AND NOT public.can_access_branch(public.member_branch_id(p_member_id)) THEN
+    RAISE EXCEPTION 'This member belongs to a branch you do not have access to';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.assert_member_branch_access(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assert_member_branch_access(UUID) TO authenticated;
+
+-- 2. Lien and available balance
+REVOKE ALL ON FUNCTION public.member_savings_lien(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.member_savings_lien(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.member_savings_accounts(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.member_savings_accounts(UUID) TO authenticated;
+
+-- 3. Open an account; rates default to the system settings
+CREATE OR REPLACE FUNCTION public.open_savings_account(
+  p_member_id UUID,
+  p_account_type TEXT,
+  p_minimum_balance DECIMAL DEFAULT NULL,
+  p_interest_rate DECIMAL DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_member public.members;
+  v_settings RECORD;
+  v_account_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can open savings accounts';
+  END IF;
+  IF p_account_type NOT IN ('compulsory','voluntary') THEN
+    RAISE EXCEPTION 'Invalid account type %', p_account_type;
+  END IF;
+
+  SELECT * INTO v_member FROM public.members WHERE id = p_member_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member % not found', p_member_id;
+  END IF;
+  PERFORM public.assert_member_branch_access(p_member_id);
+  IF EXISTS (SELECT 1 FROM public.savings_accounts sa WHERE sa.member_id = p_member_id AND sa.account_type = p_account_type) THEN
+    RAISE EXCEPTION '% already has a % savings account', v_member.full_name, p_account_type;
+  END IF;
+
+  SELECT savings_minimum_balance, savings_interest_rate INTO v_settings FROM public.system_settings WHERE id = 1;
+
+  INSERT INTO public.savings_accounts (member_id, account_type, minimum_balance, interest_rate, opened_by)
+  VALUES (
+    p_member_id,
+    p_account_type,
+    COALESCE(p_minimum_balance, v_settings.savings_minimum_balance, 0),
+    COALESCE(p_interest_rate, v_settings.savings_interest_rate, 0),
+    auth.uid()
+  )
+  RETURNING id INTO v_account_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'SAVINGS_ACCOUNT_OPENED',
+    'savings_accounts',
+    v_account_id,
+    NULL,
+    jsonb_build_object('member_id', p_member_id, 'account_type', p_account_type),
+    auth.uid()
+  );
+
+  RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.open_savings_account(UUID, TEXT, DECIMAL, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_savings_account(UUID, TEXT, DECIMAL, DECIMAL) TO authenticated;
+
+-- 4. Deposits and withdrawals
+CREATE OR REPLACE FUNCTION public.savings_deposit(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_account public.savings_accounts;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can take savings deposits';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Deposit amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_account FROM public.savings_accounts WHERE id = p_account_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings account % not found', p_account_id;
+  END IF;
+  PERFORM public.assert_member_branch_access(v_account.member_id);
+
+  v_transaction_id := public.post_savings_transaction(
+    v_account.id, 'deposit', ROUND(p_amount, 2), p_payment_method, p_reference, p_notes, auth.uid()
+  );
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'SAVINGS_DEPOSIT',
+    'savings_accounts',
+    v_account.id,
+    jsonb_build_object('balance', v_account.balance),
+    jsonb_build_object('balance', v_account.balance + ROUND(p_amount, 2), 'amount', ROUND(p_amount, 2), 'reference', p_reference),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.savings_deposit(UUID, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.savings_deposit(UUID, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.savings_withdraw(
+  p_account_id UUID,
+  p_amount DECIMAL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_account RECORD;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can pay out savings withdrawals';
+  END IF;
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Withdrawal amount must be greater than zero';
+  END IF;
+
+  -- Lock first so the available balance cannot change underneath the check
+  PERFORM 1 FROM public.savings_accounts WHERE id = p_account_id FOR UPDATE;
+  SELECT * INTO v_account
+  FROM public.member_savings_accounts((SELECT sa.member_id FROM public.savings_accounts sa WHERE sa.id = p_account_id)) a
+  WHERE a.id = p_account_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Savings account % not found', p_account_id;
+  END IF;
+  PERFORM public.assert_member_branch_access(v_account.member_id);
+  IF ROUND(p_amount, 2) > v_account.available_balance THEN
+    RAISE EXCEPTION 'Only KES % can be withdrawn from % (minimum balance KES %, lien KES %)',
+      v_account.available_balance, v_account.account_number, v_account.minimum_balance, v_account.lien_amount;
+  END IF;
+
+  v_transaction_id := public.post_savings_transaction(
+    v_account.id, 'withdrawal', ROUND(p_amount, 2), p_payment_method, p_reference, p_notes, auth.uid()
+  );
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'SAVINGS_WITHDRAWAL',
+    'savings_accounts',
+    v_account.id,
+    jsonb_build_object('balance', v_account.balance),
+    jsonb_build_object('balance', v_account.balance - ROUND(p_amount, 2), 'amount', ROUND(p_amount, 2), 'reference', p_reference),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.savings_withdraw(UUID, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.savings_withdraw(UUID, DECIMAL, TEXT, TEXT, TEXT) TO authenticated;
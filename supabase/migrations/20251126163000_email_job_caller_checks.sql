@@ -0,0 +1,120 @@
+-- Email job caller checks
+-- weekly_collections_summary let any caller without a user through as the email
+-- job, which included anonymous API requests, so anyone could read the
+-- collections of every branch. It now recognises the job by who is connected and
+-- is closed to anonymous callers. email-dispatch no longer accepts calls without
+-- a token, so run_email_dispatch sends the service role key, read from the vault,
+-- and is closed to API callers.
+
+-- 1. Weekly collections summary: what fell due against what was collected,
+-- per branch and loan officer, for the seven days ending p_week_end
+CREATE OR REPLACE FUNCTION public.weekly_collections_summary(
+  p_week_end DATE DEFAULT CURRENT_DATE - 1,
+  p_branch_id BIGINT DEFAULT NULL
+) RETURNS TABLE (
+  branch_id BIGINT,
+  branch_name TEXT,
+  loan_officer_id UUID,
+  loan_officer_name TEXT,
+  installments_due INTEGER,
+  amount_due DECIMAL,
+  payments_count INTEGER,
+  amount_collected DECIMAL,
+  collection_rate DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+  v_branch_id BIGINT := p_branch_id;
+BEGIN
+  -- The email job passes the subscriber's branch
+  IF NOT public.is_service_caller() THEN
+    SELECT p.role::TEXT AS role, p.branch_id INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+    IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+      RAISE EXCEPTION 'You do not have access to the collections summary';
+    END IF;
+    IF v_profile.role = 'branch_admin' THEN
+      v_branch_id := v_profile.branch_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH loans_in_scope AS (
+    SELECT l.id, l.branch_id, l.loan_officer_id
+    FROM public.loans l
+    WHERE COALESCE(l.is_deleted, FALSE) = FALSE
+      AND (v_branch_id IS NULL OR l.branch_id = v_branch_id)
+  ),
+  due AS (
+    SELECT s.branch_id, s.loan_officer_id, COUNT(*)::INTEGER AS installments_due, SUM(i.total_amount) AS amount_due
+    FROM public.loan_installments i
+      JOIN loans_in_scope s ON s.id = i.loan_id
+    WHERE i.due_date BETWEEN p_week_end - 6 AND p_week_end
+    GROUP BY s.branch_id, s.loan_officer_id
+  ),
+  collected AS (
+    SELECT s.branch_id, s.loan_officer_id, COUNT(*)::INTEGER AS payments_count, SUM(lp.amount) AS amount_collected
+    FROM public.loan_payments lp
+      JOIN loans_in_scope s ON s.id = lp.loan_id
+    WHERE lp.payment_date BETWEEN p_week_end - 6 AND p_week_end
+    GROUP BY s.branch_id, s.loan_officer_id
+  )
+  SELECT
+    COALESCE(d.branch_id, c.branch_id)::BIGINT,
+    COALESCE(b.name, 'Unassigned'),
+    COALESCE(d.loan_officer_id, c.loan_officer_id),
+    COALESCE(p.full_name, 'Unassigned'),
+    COALESCE(d.installments_due, 0),
+    COALESCE(d.amount_due, 0)::DECIMAL,
+    COALESCE(c.payments_count, 0),
+    COALESCE(c.amount_collected, 0)::DECIMAL,
+    CASE WHEN COALESCE(d.amount_due, 0) > 0
+      THEN ROUND(COALESCE(c.amount_collected, 0) / d.amount_due * 100, 1)
+      ELSE NULL
+    END::DECIMAL
+  FROM due d
+    FULL JOIN collected c ON c.branch_id IS NOT DISTINCT FROM d.branch_id
+      AND c.loan_officer_id IS NOT DISTINCT FROM d.loan_officer_id
+    LEFT JOIN public.branches b ON b.id = COALESCE(d.branch_id, c.branch_id)
+    LEFT JOIN public.profiles p ON p.id = COALESCE(d.loan_officer_id, c.loan_officer_id)
+  ORDER BY 2, 4;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.weekly_collections_summary(DATE, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.weekly_collections_summary(DATE, BIGINT) TO authenticated;
+
+-- 2. Drain the outbox through the email-dispatch function
+-- Store the key once: SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.run_email_dispatch()
+RETURNS VOID AS $$
+DECLARE
+  functions_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.email_outbox o WHERE o.status = 'queued' AND o.scheduled_for <= NOW()
+  ) THEN
+    RETURN;
+  END IF;
+
+  functions_url := current_setting('app.settings.functions_url', true);
+  IF functions_url IS NULL OR functions_url = '' THEN
+    RAISE NOTICE 'Email dispatch skipped: app.settings.functions_url not set';
+    RETURN;
+  END IF;
+
+  SELECT s.decrypted_secret INTO service_role_key FROM vault.decrypted_secrets s WHERE s.name = 'service_role_key';
+  IF service_role_key IS NULL OR service_role_key = '' THEN
+    RAISE NOTICE 'Email dispatch skipped: service_role_key not stored in the vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := functions_url || '/email-dispatch',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_role_key),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.run_email_dispatch() FROM PUBLIC, anon, authenticated;
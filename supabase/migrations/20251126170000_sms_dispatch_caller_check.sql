@@ -0,0 +1,41 @@
+-- SMS dispatch caller check
+-- sms-dispatch let any request without a valid user token through as the cron
+-- call, so anyone could make it drain the outbox. It now needs the service role
+-- key or a signed-in admin, so run_sms_dispatch sends the key, read from the
+-- vault, and is closed to API callers.
+
+-- 1. Drain the outbox through the sms-dispatch function
+-- Store the key once: SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.run_sms_dispatch()
+RETURNS VOID AS $$
+DECLARE
+  functions_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.sms_outbox o WHERE o.status = 'queued' AND o.scheduled_for <= NOW()
+  ) THEN
+    RETURN;
+  END IF;
+
+  functions_url := current_setting('app.settings.functions_url', true);
+  IF functions_url IS NULL OR functions_url = '' THEN
+    RAISE NOTICE 'SMS dispatch skipped: app.settings.functions_url not set';
+    RETURN;
+  END IF;
+
+  SELECT s.decrypted_secret INTO service_role_key FROM vault.decrypted_secrets s WHERE s.name = 'service_role_key';
+  IF service_role_key IS NULL OR service_role_key = '' THEN
+    RAISE NOTICE 'SMS dispatch skipped: service_role_key not stored in the vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := functions_url || '/sms-dispatch',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_role_key),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.run_sms_dispatch() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,27 @@
+-- Loan approval insert guard
+-- enforce_loan_approval_chain only runs on updates, and assign_loan_approval_chain
+-- leaves a loan alone unless it is pending, so the app could insert a loan that
+-- was already approved, or already paid out, and skip the approval matrix. Loans
+-- inserted from the app now have to start pending.
+
+-- Not SECURITY DEFINER, for the same reason as enforce_loan_approval_chain
+CREATE OR REPLACE FUNCTION public.enforce_new_loan_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated' AND COALESCE(NEW.approval_status, 'pending') <> 'pending' THEN
+    RAISE EXCEPTION 'New loans start pending; approvals are recorded step by step through record_loan_approval';
+  END IF;
+
+  IF current_user = 'authenticated' AND NEW.status::TEXT IN ('active','disbursed') THEN
+    RAISE EXCEPTION 'Loan cannot be disbursed until its approval chain is complete';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_new_loan_approval ON public.loans;
+CREATE TRIGGER trigger_enforce_new_loan_approval
+  BEFORE INSERT ON public.loans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_new_loan_approval();
@@ -0,0 +1,21 @@
+-- Loan delete guard
+-- guard_loan_sensitive_columns only runs on updates, so the app could still
+-- remove a loan outright with a DELETE and skip the change request. Loans are
+-- now deleted only through an approved loan_delete change, which marks them
+-- is_deleted and keeps the row.
+
+-- Not SECURITY DEFINER, for the same reason as guard_loan_sensitive_columns
+CREATE OR REPLACE FUNCTION public.guard_loan_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Loans are deleted through a change request';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_loan_delete ON public.loans;
+CREATE TRIGGER guard_loan_delete
+BEFORE DELETE ON public.loans
+FOR EACH ROW EXECUTE FUNCTION public.guard_loan_delete();
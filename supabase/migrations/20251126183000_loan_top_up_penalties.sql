@@ -0,0 +1,245 @@
+-- Penalties in loan top-ups
+-- A top-up settled the old loan's outstanding balance and marked it repaid, but
+-- left its accrued penalties pending: they were never collected, and the loan
+-- was closed to further accrual. Early settlement collects them, so a top-up now
+-- does too. The quote shows them, the top-up has to cover them, and settlement
+-- marks them paid and completes their transactions out of the new loan's
+-- proceeds.
+
+-- 1. Accrued penalties not yet paid or waived
+CREATE OR REPLACE FUNCTION public.loan_accrued_penalties(p_loan_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT ROUND(COALESCE(SUM(lp.amount), 0), 2)
+  FROM public.loan_penalties lp
+  WHERE lp.loan_id = p_loan_id AND lp.status = 'accrued';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.loan_accrued_penalties(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loan_accrued_penalties(UUID) TO authenticated;
+
+-- 2. Quote shown on the loan form before a top-up is created
+-- The result columns change, so the function is dropped first
+DROP FUNCTION IF EXISTS public.get_loan_top_up_quote(UUID);
+
+CREATE FUNCTION public.get_loan_top_up_quote(p_loan_id UUID)
+RETURNS TABLE(
+  loan_id UUID,
+  member_id UUID,
+  increment_level INTEGER,
+  outstanding_balance DECIMAL(15,2),
+  penalties_outstanding DECIMAL(15,2),
+  settlement_amount DECIMAL(15,2),
+  next_level INTEGER,
+  next_amount DECIMAL(15,2),
+  block_reason TEXT
+) AS $$
+BEGIN
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    COALESCE(l.member_id, l.customer_id),
+    COALESCE(l.increment_level, 1)::INTEGER,
+    public.loan_outstanding_balance(l.id)::DECIMAL(15,2),
+    public.loan_accrued_penalties(l.id)::DECIMAL(15,2),
+    (public.loan_outstanding_balance(l.id) + public.loan_accrued_penalties(l.id))::DECIMAL(15,2),
+    ni.next_level,
+    ni.next_amount,
+    public.loan_top_up_block_reason(l.id)
+  FROM public.loans l
+  LEFT JOIN LATERAL public.get_next_loan_increment(COALESCE(l.member_id, l.customer_id)) ni ON TRUE
+  WHERE l.id = p_loan_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.get_loan_top_up_quote(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_loan_top_up_quote(UUID) TO authenticated;
+
+-- 3. Validate and price a top-up when it is created
+CREATE OR REPLACE FUNCTION public.prepare_loan_top_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_previous public.loans;
+  v_reason TEXT;
+  v_outstanding DECIMAL(15,2);
+  v_settlement DECIMAL(15,2);
+  v_role TEXT;
+  v_validation RECORD;
+  v_next RECORD;
+BEGIN
+  IF NEW.previous_loan_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_previous FROM public.loans WHERE id = NEW.previous_loan_id;
+  IF COALESCE(v_previous.member_id, v_previous.customer_id) IS DISTINCT FROM COALESCE(NEW.member_id, NEW.customer_id) THEN
+    RAISE EXCEPTION 'A top-up must be for the same member as the loan it replaces';
+  END IF;
+
+  v_reason := public.loan_top_up_block_reason(NEW.previous_loan_id, NEW.id);
+  IF v_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Cannot top up loan: %', v_reason;
+  END IF;
+
+  v_outstanding := public.loan_outstanding_balance(NEW.previous_loan_id);
+  v_settlement := v_outstanding + public.loan_accrued_penalties(NEW.previous_loan_id);
+  IF NEW.principal_amount <= v_settlement THEN
+    RAISE EXCEPTION 'Top-up amount must be more than the outstanding balance and penalties of KES %', v_settlement;
+  END IF;
+
+  SELECT p.role::TEXT INTO v_role FROM public.profiles p WHERE p.id = auth.uid();
+
+  SELECT * INTO v_validation
+  FROM public.validate_loan_increment(
+    COALESCE(NEW.member_id, NEW.customer_id),
+    NEW.principal_amount,
+    COALESCE(NEW.payment_weeks, NEW.installment_count, 8),
+    COALESCE(v_role, 'loan_officer')
+  );
+  IF NOT COALESCE(v_validation.is_valid, FALSE) THEN
+    RAISE EXCEPTION 'Cannot top up loan: %', COALESCE(v_validation.error_message, 'the amount breaks the increment rules');
+  END IF;
+
+  SELECT * INTO v_next FROM public.get_next_loan_increment(COALESCE(NEW.member_id, NEW.customer_id));
+
+  NEW.increment_level := COALESCE(v_next.next_level, COALESCE(v_previous.increment_level, 1) + 1);
+  NEW.top_up_settlement_amount := v_settlement;
+  NEW.net_disbursement_amount := NEW.principal_amount - v_settlement;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Settle the old loan, and its penalties, from the new loan's proceeds
+CREATE OR REPLACE FUNCTION public.settle_loan_top_up(p_loan_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_loan public.loans;
+  v_previous public.loans;
+  v_outstanding DECIMAL(15,2);
+  v_penalties DECIMAL(15,2);
+  v_settlement DECIMAL(15,2);
+  v_reference TEXT;
+BEGIN
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR v_loan.previous_loan_id IS NULL THEN
+    RAISE EXCEPTION 'Loan % is not a top-up', p_loan_id;
+  END IF;
+  IF v_loan.top_up_settled_at IS NOT NULL THEN
+    RETURN v_loan.top_up_settlement_amount;
+  END IF;
+
+  SELECT * INTO v_previous FROM public.loans WHERE id = v_loan.previous_loan_id FOR UPDATE;
+  IF v_previous.status::TEXT NOT IN ('active','disbursed') THEN
+    RAISE EXCEPTION 'The loan being topped up is % and can no longer be settled', v_previous.status::TEXT;
+  END IF;
+
+  -- Payments and penalties may have come in since the quote, so settle what is owed today
+  v_outstanding := public.loan_outstanding_balance(v_previous.id);
+  v_penalties := public.loan_accrued_penalties(v_previous.id);
+  v_settlement := v_outstanding + v_penalties;
+  IF v_settlement >= v_loan.principal_amount THEN
+    RAISE EXCEPTION 'The outstanding balance and penalties of KES % are no longer covered by the top-up', v_settlement;
+  END IF;
+
+  v_reference := 'TOPUP-' || COALESCE(v_loan.application_no, v_loan.id::TEXT);
+
+  IF v_outstanding > 0 THEN
+    INSERT INTO public.loan_payments (
+      loan_id,
+      installment_number,
+      amount,
+      payment_date,
+      payment_reference,
+      notes,
+      created_by
+    ) VALUES (
+      v_previous.id,
+      0,
+      v_outstanding,
+      CURRENT_DATE,
+      v_reference,
+      'Settled by top-up loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      auth.uid()
+    );
+
+    INSERT INTO public.transactions (
+      amount,
+      transaction_type,
+      description,
+      loan_id,
+      member_id,
+      transaction_date,
+      created_by,
+      status,
+      reference_number,
+      branch_id,
+      payment_method,
+      currency,
+      total_paid
+    ) VALUES (
+      v_outstanding,
+      'payment',
+      'Top-up settlement from loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+      v_previous.id,
+      COALESCE(v_previous.member_id, v_previous.customer_id),
+      CURRENT_DATE,
+      auth.uid(),
+      'completed',
+      v_reference,
+      v_previous.branch_id,
+      'other',
+      'KES',
+      v_outstanding
+    );
+  END IF;
+
+  -- Penalty transactions were booked as pending when charged; they are collected now
+  WITH paid AS (
+    UPDATE public.loan_penalties
+    SET status = 'paid',
+        paid_at = NOW()
+    WHERE loan_id = v_previous.id AND status = 'accrued'
+    RETURNING transaction_id
+  )
+  UPDATE public.transactions t
+  SET status = 'completed',
+      notes = 'Collected in top-up settlement ' || v_reference,
+      updated_at = NOW()
+  FROM paid
+  WHERE t.id = paid.transaction_id;
+
+  -- The payment trigger closes fully paid loans; make sure a zero balance closes too
+  UPDATE public.loans
+  SET status = 'repaid',
+      current_balance = 0,
+      updated_at = NOW()
+  WHERE id = v_previous.id;
+
+  UPDATE public.loans
+  SET top_up_settlement_amount = v_settlement,
+      net_disbursement_amount = v_loan.principal_amount - v_settlement,
+      top_up_settled_at = NOW()
+  WHERE id = p_loan_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_TOP_UP',
+    'loans',
+    v_previous.id,
+    jsonb_build_object('status', v_previous.status, 'current_balance', v_previous.current_balance),
+    jsonb_build_object(
+      'status', 'repaid',
+      'settled_by_loan_id', p_loan_id,
+      'settlement_amount', v_settlement,
+      'penalties', v_penalties,
+      'net_disbursement', v_loan.principal_amount - v_settlement
+    ),
+    auth.uid()
+  );
+
+  RETURN v_settlement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.settle_loan_top_up(UUID) FROM PUBLIC, anon, authenticated;
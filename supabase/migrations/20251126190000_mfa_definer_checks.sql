@@ -0,0 +1,1178 @@
+-- MFA checks in SECURITY DEFINER functions
+-- The MFA policy was enforced only by restrictive policies on loans, members,
+-- payments, expenses and the ledger, and SECURITY DEFINER functions skip row
+-- level security, so an aal1 session of a role that must use MFA could still
+-- approve, disburse, withdraw and post through them. assert_mfa_session gives
+-- those functions the same check. The branch assertions call it, which covers
+-- every loan and savings function that goes through them, and the remaining
+-- privileged functions call it after their role check.
+
+-- 1. Session assertion
+CREATE OR REPLACE FUNCTION public.assert_mfa_session()
+RETURNS VOID AS $$
+BEGIN
+  IF public.is_service_caller() THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF NOT public.mfa_session_satisfied() THEN
+    RAISE EXCEPTION 'Verify with your authenticator to continue';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION public.assert_mfa_session() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assert_mfa_session() TO authenticated;
+
+-- 2. Branch assertions
+CREATE OR REPLACE FUNCTION public.assert_loan_branch_access(p_loan_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.assert_mfa_session();
+
+  IF NOT public.is_service_caller() AND NOT public.can_access_branch(public.loan_branch_id(p_loan_id)) THEN
+    RAISE EXCEPTION 'This loan belongs to a branch you do not have access to';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.assert_member_branch_access(p_member_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.assert_mfa_session();
+
+  IF NOT public.is_service_caller() AND NOT public.can_access_branch(public.member_branch_id(p_member_id)) THEN
+    RAISE EXCEPTION 'This member belongs to a branch you do not have access to';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. Group meetings
+CREATE OR REPLACE FUNCTION public.record_group_meeting(
+  p_group_id BIGINT,
+  p_meeting_date DATE,
+  p_entries JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_group public.groups;
+  v_meeting_id UUID;
+  v_entry JSONB;
+  v_member public.members;
+  v_loan public.loans;
+  v_loan_id UUID;
+  v_attendance TEXT;
+  v_amount DECIMAL(15,2);
+  v_current DECIMAL(15,2);
+  v_arrears DECIMAL(15,2);
+  v_reference TEXT;
+  v_payment_id UUID;
+  v_expected_total DECIMAL(15,2) := 0;
+  v_collected_total DECIMAL(15,2) := 0;
+  v_members INTEGER := 0;
+  v_present INTEGER := 0;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer') THEN
+    RAISE EXCEPTION 'Only staff can record group meetings';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF p_payment_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', p_payment_method;
+  END IF;
+  IF p_meeting_date IS NULL OR p_meeting_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Meeting date cannot be in the future';
+  END IF;
+
+  SELECT * INTO v_group FROM public.groups WHERE id = p_group_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group % not found', p_group_id;
+  END IF;
+  IF NOT public.can_access_branch(v_group.branch_id) THEN
+    RAISE EXCEPTION 'This group belongs to a branch you do not have access to';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.group_meetings gm WHERE gm.group_id = p_group_id AND gm.meeting_date = p_meeting_date) THEN
+    RAISE EXCEPTION 'The meeting on % has already been recorded', p_meeting_date;
+  END IF;
+
+  INSERT INTO public.group_meetings (group_id, meeting_date, meeting_time, payment_method, notes, recorded_by)
+  VALUES (p_group_id, p_meeting_date, v_group.meeting_time, p_payment_method, NULLIF(TRIM(p_notes), ''), auth.uid())
+  RETURNING id INTO v_meeting_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_entries, '[]'::JSONB)) LOOP
+    SELECT * INTO v_member FROM public.members WHERE id = (v_entry->>'member_id')::UUID;
+    IF NOT FOUND OR v_member.group_id IS DISTINCT FROM p_group_id THEN
+      RAISE EXCEPTION 'Member % is not in this group', v_entry->>'member_id';
+    END IF;
+
+    v_attendance := COALESCE(v_entry->>'attendance', 'present');
+    v_amount := ROUND(COALESCE((v_entry->>'amount_collected')::DECIMAL, 0), 2);
+    v_current := ROUND(COALESCE((v_entry->>'current_due')::DECIMAL, 0), 2);
+    v_arrears := ROUND(COALESCE((v_entry->>'arrears_due')::DECIMAL, 0), 2);
+    v_loan_id := NULLIF(v_entry->>'loan_id', '')::UUID;
+    v_payment_id := NULL;
+
+    IF v_amount < 0 THEN
+      RAISE EXCEPTION 'Amount collected from % cannot be negative', v_member.full_name;
+    END IF;
+
+    IF v_amount > 0 THEN
+      SELECT * INTO v_loan FROM public.loans WHERE id = v_loan_id;
+      IF NOT FOUND OR COALESCE(v_loan.member_id, v_loan.customer_id) IS DISTINCT FROM v_member.id THEN
+        RAISE EXCEPTION '% has no loan to post KES % against', v_member.full_name, v_amount;
+      END IF;
+      IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+        RAISE EXCEPTION 'Loan % of % is not open for payments', COALESCE(v_loan.application_no, v_loan.id::TEXT), v_member.full_name;
+      END IF;
+
+      v_reference := 'GM-' || p_group_id || '-' || to_char(p_meeting_date, 'YYYYMMDD') || '-' || left(replace(v_member.id::TEXT, '-', ''), 8);
+
+      INSERT INTO public.loan_payments (
+        loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+      ) VALUES (
+        v_loan.id, 0, v_amount, p_meeting_date, v_reference, 'Group meeting ' || v_group.name, auth.uid()
+      )
+      RETURNING id INTO v_payment_id;
+
+      INSERT INTO public.transactions (
+        amount, transaction_type, description, loan_id, member_id, transaction_date,
+        created_by, status, reference_number, branch_id, payment_method, currency, total_paid
+      ) VALUES (
+        v_amount,
+        'payment',
+        'Group meeting collection',
+        v_loan.id,
+        v_member.id,
+        p_meeting_date,
+        auth.uid(),
+        'completed',
+        v_reference,
+        v_loan.branch_id,
+        p_payment_method,
+        'KES',
+        v_amount
+      );
+    END IF;
+
+    INSERT INTO public.group_meeting_attendance (
+      meeting_id, member_id, loan_id, attendance, current_due, arrears_due, expected_amount,
+      amount_collected, loan_payment_id, notes
+    ) VALUES (
+      v_meeting_id, v_member.id, v_loan_id, v_attendance, v_current, v_arrears, v_current + v_arrears,
+      v_amount, v_payment_id, NULLIF(TRIM(v_entry->>'notes'), '')
+    );
+
+    v_members := v_members + 1;
+    v_present := v_present + CASE WHEN v_attendance = 'present' THEN 1 ELSE 0 END;
+    v_expected_total := v_expected_total + v_current + v_arrears;
+    v_collected_total := v_collected_total + v_amount;
+  END LOOP;
+
+  UPDATE public.group_meetings
+  SET members_expected = v_members,
+      members_present = v_present,
+      expected_total = v_expected_total,
+      collected_total = v_collected_total
+  WHERE id = v_meeting_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'GROUP_MEETING_RECORDED',
+    'group_meetings',
+    v_meeting_id,
+    NULL,
+    jsonb_build_object(
+      'group_id', p_group_id,
+      'meeting_date', p_meeting_date,
+      'members_present', v_present,
+      'members_expected', v_members,
+      'collected_total', v_collected_total
+    ),
+    auth.uid()
+  );
+
+  RETURN v_meeting_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 4. Mobile money
+CREATE OR REPLACE FUNCTION public.match_mobile_money_receipt(p_receipt_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_receipt public.mobile_money_receipts;
+  v_reference TEXT;
+  v_loan_id UUID;
+  v_member_id UUID;
+  v_method TEXT;
+BEGIN
+  -- The mpesa-c2b webhook, or staff retrying a receipt from the suspense queue
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin','branch_admin','loan_officer')
+  ) THEN
+    RAISE EXCEPTION 'You are not allowed to match mobile money receipts';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  SELECT * INTO v_receipt FROM public.mobile_money_receipts WHERE id = p_receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mobile money receipt % not found', p_receipt_id;
+  END IF;
+  IF v_receipt.status <> 'unmatched' THEN
+    RETURN v_receipt.status;
+  END IF;
+
+  v_reference := upper(regexp_replace(COALESCE(v_receipt.account_reference, ''), '\s', '', 'g'));
+  IF v_reference = '' THEN
+    UPDATE public.mobile_money_receipts SET match_error = 'No account number on the payment' WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END IF;
+
+  SELECT l.id INTO v_loan_id
+  FROM public.loans l
+  WHERE (upper(l.account_number) = v_reference OR upper(l.application_no) = v_reference)
+    AND l.status IN ('active','disbursed','defaulted')
+    AND COALESCE(l.is_deleted, FALSE) = FALSE
+  LIMIT 1;
+
+  IF v_loan_id IS NOT NULL THEN
+    v_method := 'loan_account';
+  ELSE
+    SELECT m.id INTO v_member_id
+    FROM public.members m
+    WHERE upper(regexp_replace(m.id_number, '\s', '', 'g')) = v_reference
+    LIMIT 1;
+
+    IF v_member_id IS NOT NULL THEN
+      SELECT l.id INTO v_loan_id
+      FROM public.loans l
+      WHERE COALESCE(l.member_id, l.customer_id) = v_member_id
+        AND l.status IN ('active','disbursed','defaulted')
+        AND COALESCE(l.is_deleted, FALSE) = FALSE
+        AND COALESCE(l.current_balance, 0) > 0
+      ORDER BY l.issue_date, l.created_at
+      LIMIT 1;
+      v_method := 'member_id_number';
+    END IF;
+  END IF;
+
+  IF v_loan_id IS NULL THEN
+    UPDATE public.mobile_money_receipts
+    SET member_id = v_member_id,
+        match_error = CASE
+          WHEN v_member_id IS NULL THEN 'No loan or member matches account ' || v_reference
+          ELSE 'Member has no open loan'
+        END
+    WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END IF;
+
+  -- The payment triggers reject overpayments; keep those in suspense with the reason
+  BEGIN
+    UPDATE public.mobile_money_receipts SET status = 'matched', loan_id = v_loan_id WHERE id = p_receipt_id;
+    PERFORM public.post_mobile_money_receipt(p_receipt_id, v_loan_id, v_method, NULL);
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.mobile_money_receipts
+    SET loan_id = v_loan_id,
+        member_id = v_member_id,
+        match_error = SQLERRM
+    WHERE id = p_receipt_id;
+    RETURN 'unmatched';
+  END;
+
+  RETURN 'matched';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.dismiss_mobile_money_receipt(
+  p_receipt_id UUID,
+  p_reason TEXT
+) RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can dismiss mobile money receipts';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to dismiss a receipt';
+  END IF;
+
+  UPDATE public.mobile_money_receipts
+  SET status = 'dismissed',
+      notes = p_reason,
+      allocated_by = auth.uid(),
+      allocated_at = NOW()
+  WHERE id = p_receipt_id
+    AND status = 'unmatched';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only unmatched receipts can be dismissed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 5. Statement reconciliation
+CREATE OR REPLACE FUNCTION public.post_reconciliation_adjustment(
+  p_line_id UUID,
+  p_loan_id UUID,
+  p_amount DECIMAL,
+  p_direction TEXT,
+  p_note TEXT
+) RETURNS UUID AS $$
+DECLARE
+  v_line public.statement_reconciliation_lines;
+  v_reconciliation public.statement_reconciliations;
+  v_loan RECORD;
+  v_transaction_id UUID;
+  v_amount DECIMAL;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post reconciliation adjustments';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF COALESCE(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for every adjustment';
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Adjustment amount must be greater than zero';
+  END IF;
+  IF p_direction NOT IN ('credit','debit') THEN
+    RAISE EXCEPTION 'Adjustment direction must be credit or debit';
+  END IF;
+
+  SELECT * INTO v_line FROM public.statement_reconciliation_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation line % not found', p_line_id;
+  END IF;
+  IF v_line.resolution IS NOT NULL THEN
+    RAISE EXCEPTION 'This line has already been resolved';
+  END IF;
+  IF v_line.match_status = 'matched' THEN
+    RAISE EXCEPTION 'Matched lines do not need an adjustment';
+  END IF;
+
+  SELECT * INTO v_reconciliation FROM public.statement_reconciliations WHERE id = v_line.reconciliation_id;
+  IF v_reconciliation.status <> 'open' THEN
+    RAISE EXCEPTION 'This reconciliation is closed';
+  END IF;
+
+  SELECT l.id, l.member_id, l.branch_id INTO v_loan
+  FROM public.loans l
+  WHERE l.id = COALESCE(p_loan_id, v_line.loan_id);
+
+  -- A debit takes money off the books, so it is stored negative
+  v_amount := CASE WHEN p_direction = 'debit' THEN -p_amount ELSE p_amount END;
+
+  INSERT INTO public.transactions (
+    transaction_type,
+    amount,
+    currency,
+    status,
+    payment_method,
+    reference_number,
+    description,
+    transaction_date,
+    loan_id,
+    member_id,
+    branch_id,
+    notes,
+    created_by
+  ) VALUES (
+    'adjustment',
+    v_amount,
+    'KES',
+    'completed',
+    CASE WHEN v_reconciliation.source = 'mpesa' THEN 'mobile_money' ELSE 'bank_transfer' END,
+    'REC-ADJ-' || p_line_id::text,
+    'Reconciliation ' || p_direction || ' adjustment'
+      || COALESCE(' for ' || COALESCE(v_line.reference, v_line.system_reference), ''),
+    COALESCE(v_line.transaction_date, v_line.system_date, CURRENT_DATE),
+    v_loan.id,
+    v_loan.member_id,
+    v_loan.branch_id,
+    p_note,
+    auth.uid()
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.statement_reconciliation_lines
+  SET resolution = 'adjusted',
+      adjustment_transaction_id = v_transaction_id,
+      loan_id = COALESCE(v_loan.id, loan_id),
+      resolution_note = p_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_line_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_ADJUSTMENT',
+    'statement_reconciliation_lines',
+    p_line_id,
+    jsonb_build_object('match_status', v_line.match_status, 'difference', v_line.difference),
+    jsonb_build_object(
+      'transaction_id', v_transaction_id,
+      'amount', v_amount,
+      'direction', p_direction,
+      'loan_id', v_loan.id,
+      'note', p_note
+    ),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.ignore_reconciliation_line(
+  p_line_id UUID,
+  p_note TEXT
+) RETURNS VOID AS $$
+DECLARE
+  v_line public.statement_reconciliation_lines;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can resolve reconciliation lines';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF COALESCE(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required to ignore a line';
+  END IF;
+
+  SELECT * INTO v_line FROM public.statement_reconciliation_lines WHERE id = p_line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation line % not found', p_line_id;
+  END IF;
+  IF v_line.resolution IS NOT NULL THEN
+    RAISE EXCEPTION 'This line has already been resolved';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.statement_reconciliations r WHERE r.id = v_line.reconciliation_id AND r.status <> 'open'
+  ) THEN
+    RAISE EXCEPTION 'This reconciliation is closed';
+  END IF;
+
+  UPDATE public.statement_reconciliation_lines
+  SET resolution = 'ignored',
+      resolution_note = p_note,
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = p_line_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_IGNORE',
+    'statement_reconciliation_lines',
+    p_line_id,
+    jsonb_build_object('match_status', v_line.match_status, 'difference', v_line.difference),
+    jsonb_build_object('note', p_note),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.close_statement_reconciliation(p_reconciliation_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_open_lines INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can close reconciliations';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  SELECT COUNT(*) INTO v_open_lines
+  FROM public.statement_reconciliation_lines
+  WHERE reconciliation_id = p_reconciliation_id
+    AND match_status <> 'matched'
+    AND resolution IS NULL;
+
+  IF v_open_lines > 0 THEN
+    RAISE EXCEPTION '% line(s) still need to be adjusted or ignored', v_open_lines;
+  END IF;
+
+  UPDATE public.statement_reconciliations
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = NOW()
+  WHERE id = p_reconciliation_id
+    AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reconciliation not found or already closed';
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'RECONCILIATION_CLOSE',
+    'statement_reconciliations',
+    p_reconciliation_id,
+    jsonb_build_object('status', 'open'),
+    jsonb_build_object('status', 'closed'),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. General ledger
+CREATE OR REPLACE FUNCTION public.create_manual_journal_entry(
+  p_entry_date DATE,
+  p_branch_id BIGINT,
+  p_description TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post journal entries';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF NULLIF(TRIM(p_description), '') IS NULL THEN
+    RAISE EXCEPTION 'A journal entry needs a description';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) l
+    WHERE NOT EXISTS (SELECT 1 FROM public.gl_accounts a WHERE a.code = l->>'account' AND a.is_active)
+  ) THEN
+    RAISE EXCEPTION 'Every line needs an active account';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) l
+    WHERE COALESCE((l->>'debit')::DECIMAL, 0) > 0 AND COALESCE((l->>'credit')::DECIMAL, 0) > 0
+  ) THEN
+    RAISE EXCEPTION 'A line is either a debit or a credit, not both';
+  END IF;
+
+  v_entry_id := public.post_journal_entry(p_entry_date, p_branch_id, 'manual', NULL, TRIM(p_description), p_lines, auth.uid());
+  IF v_entry_id IS NULL THEN
+    RAISE EXCEPTION 'A journal entry needs at least one debit and one credit';
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'JOURNAL_ENTRY_POSTED',
+    'journal_entries',
+    v_entry_id,
+    NULL,
+    jsonb_build_object('entry_date', p_entry_date, 'branch_id', p_branch_id, 'description', p_description, 'lines', p_lines),
+    auth.uid()
+  );
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.reverse_journal_entry(p_entry_id UUID, p_reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_entry public.journal_entries;
+  v_reversal_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can reverse journal entries';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  SELECT * INTO v_entry FROM public.journal_entries WHERE id = p_entry_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal entry % not found', p_entry_id;
+  END IF;
+  IF v_entry.source_type <> 'manual' THEN
+    RAISE EXCEPTION 'Only manual entries can be reversed; correct the % it was posted from instead', replace(v_entry.source_type, '_', ' ');
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reverse a journal entry';
+  END IF;
+
+  v_reversal_id := public.reverse_journal_entry_internal(
+    p_entry_id, CURRENT_DATE, 'Reversal of ' || v_entry.entry_number || ': ' || TRIM(p_reason), auth.uid()
+  );
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'JOURNAL_ENTRY_REVERSED',
+    'journal_entries',
+    p_entry_id,
+    jsonb_build_object('entry_number', v_entry.entry_number),
+    jsonb_build_object('reversal_id', v_reversal_id, 'reason', TRIM(p_reason)),
+    auth.uid()
+  );
+
+  RETURN v_reversal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 7. Loan loss provisioning
+CREATE OR REPLACE FUNCTION public.run_loan_loss_provisioning(
+  p_period_end DATE DEFAULT (date_trunc('month', CURRENT_DATE) - INTERVAL '1 day')::DATE
+) RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_previous_run_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can run loan loss provisioning';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF p_period_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Provisioning cannot be run for a future date';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.provisioning_runs r WHERE r.period_end >= p_period_end AND r.status = 'posted') THEN
+    RAISE EXCEPTION 'Provisioning for % or a later period has already been posted', p_period_end;
+  END IF;
+
+  DELETE FROM public.provisioning_runs WHERE period_end = p_period_end AND status = 'draft';
+
+  SELECT r.id INTO v_previous_run_id
+  FROM public.provisioning_runs r
+  WHERE r.period_end < p_period_end
+  ORDER BY r.period_end DESC
+  LIMIT 1;
+
+  INSERT INTO public.provisioning_runs (period_end, run_by, rules_snapshot)
+  VALUES (
+    p_period_end,
+    auth.uid(),
+    (SELECT jsonb_object_agg(r.classification, jsonb_build_object('min_days', r.min_days, 'provision_rate', r.provision_rate))
+     FROM public.loan_classification_rules r)
+  )
+  RETURNING id INTO v_run_id;
+
+  -- Positions are only scoped for branch roles, so the cron job and admins get the whole portfolio
+  INSERT INTO public.loan_provisions (
+    run_id, loan_id, branch_id, classification, days_in_arrears,
+    outstanding_principal, provision_rate, required_provision
+  )
+  SELECT
+    v_run_id,
+    ap.loan_id,
+    ap.branch_id,
+    c.classification,
+    ap.days_in_arrears,
+    ap.outstanding_principal,
+    c.provision_rate,
+    ROUND(ap.outstanding_principal * c.provision_rate / 100, 2)
+  FROM public.loan_arrears_positions(p_period_end) ap
+    CROSS JOIN LATERAL public.classify_days_in_arrears(ap.days_in_arrears) c
+  WHERE ap.branch_id IS NOT NULL;
+
+  INSERT INTO public.provisioning_run_branches (run_id, branch_id, loans_count, outstanding_principal, required_provision, previous_required)
+  SELECT
+    v_run_id,
+    b.branch_id,
+    COALESCE(cur.loans_count, 0),
+    COALESCE(cur.outstanding_principal, 0),
+    COALESCE(cur.required_provision, 0),
+    COALESCE(prev.required_provision, 0)
+  FROM (
+    SELECT lp.branch_id FROM public.loan_provisions lp WHERE lp.run_id = v_run_id
+    UNION
+    SELECT rb.branch_id FROM public.provisioning_run_branches rb WHERE rb.run_id = v_previous_run_id
+  ) b
+    LEFT JOIN (
+      SELECT lp.branch_id, COUNT(*) AS loans_count, SUM(lp.outstanding_principal) AS outstanding_principal,
+             SUM(lp.required_provision) AS required_provision
+      FROM public.loan_provisions lp
+      WHERE lp.run_id = v_run_id
+      GROUP BY lp.branch_id
+    ) cur ON cur.branch_id = b.branch_id
+    LEFT JOIN public.provisioning_run_branches prev ON prev.run_id = v_previous_run_id AND prev.branch_id = b.branch_id;
+
+  UPDATE public.provisioning_runs r
+  SET loans_count = t.loans_count,
+      outstanding_principal = t.outstanding_principal,
+      required_provision = t.required_provision,
+      previous_required = t.previous_required
+  FROM (
+    SELECT COALESCE(SUM(rb.loans_count), 0) AS loans_count,
+           COALESCE(SUM(rb.outstanding_principal), 0) AS outstanding_principal,
+           COALESCE(SUM(rb.required_provision), 0) AS required_provision,
+           COALESCE(SUM(rb.previous_required), 0) AS previous_required
+    FROM public.provisioning_run_branches rb
+    WHERE rb.run_id = v_run_id
+  ) t
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.post_provisioning_run(p_run_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_run public.provisioning_runs%ROWTYPE;
+  v_branch RECORD;
+  v_balance DECIMAL(15,2);
+  v_adjustment DECIMAL(15,2);
+  v_net DECIMAL(15,2) := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can post loan loss provisions';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  SELECT * INTO v_run FROM public.provisioning_runs WHERE id = p_run_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Provisioning run not found';
+  END IF;
+  IF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'This provisioning run has already been posted';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.provisioning_runs r WHERE r.period_end > v_run.period_end AND r.status = 'posted') THEN
+    RAISE EXCEPTION 'A later period has already been posted';
+  END IF;
+
+  FOR v_branch IN
+    SELECT rb.branch_id, rb.required_provision
+    FROM public.provisioning_run_branches rb
+    WHERE rb.run_id = p_run_id
+    ORDER BY rb.branch_id
+  LOOP
+    v_balance := public.branch_provision_balance(v_branch.branch_id);
+    v_adjustment := v_branch.required_provision - v_balance;
+
+    IF v_adjustment <> 0 THEN
+      INSERT INTO public.provision_entries (entry_date, branch_id, entry_type, amount, run_id, description, created_by)
+      VALUES (
+        v_run.period_end,
+        v_branch.branch_id,
+        CASE WHEN v_adjustment > 0 THEN 'charge' ELSE 'release' END,
+        ABS(v_adjustment),
+        p_run_id,
+        CASE WHEN v_adjustment > 0 THEN 'Loan loss provision for ' ELSE 'Provision released for ' END
+          || to_char(v_run.period_end, 'Mon YYYY'),
+        auth.uid()
+      );
+    END IF;
+
+    UPDATE public.provisioning_run_branches
+    SET allowance_before = v_balance,
+        adjustment = v_adjustment
+    WHERE run_id = p_run_id AND branch_id = v_branch.branch_id;
+
+    v_net := v_net + v_adjustment;
+  END LOOP;
+
+  UPDATE public.provisioning_runs
+  SET status = 'posted',
+      posted_by = auth.uid(),
+      posted_at = NOW()
+  WHERE id = p_run_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'PROVISIONING_POSTED',
+    'provisioning_runs',
+    p_run_id,
+    jsonb_build_object('status', 'draft'),
+    jsonb_build_object(
+      'status', 'posted',
+      'period_end', v_run.period_end,
+      'required_provision', v_run.required_provision,
+      'net_adjustment', v_net
+    ),
+    auth.uid()
+  );
+
+  RETURN v_net;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Penalties and savings interest
+CREATE OR REPLACE FUNCTION public.accrue_loan_penalties(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(penalties_created INTEGER, loans_charged INTEGER, total_amount DECIMAL) AS $$
+DECLARE
+  v_settings RECORD;
+  v_inst RECORD;
+  v_type TEXT;
+  v_rate DECIMAL;
+  v_grace INTEGER;
+  v_cap DECIMAL;
+  v_unpaid DECIMAL;
+  v_charged DECIMAL;
+  v_amount DECIMAL;
+  v_charge_date DATE;
+  v_charge INTEGER;
+  v_transaction_id UUID;
+  v_created INTEGER := 0;
+  v_total DECIMAL := 0;
+  v_loans UUID[] := '{}';
+BEGIN
+  -- The nightly job, or an administrator running it by hand
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can run penalty accrual';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF p_as_of > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Penalties cannot be accrued for a future date';
+  END IF;
+
+  SELECT auto_accrue_penalties, penalty_accrual_start, default_penalty_rate
+  INTO v_settings
+  FROM public.system_settings
+  WHERE id = 1;
+
+  IF public.is_service_caller() AND NOT COALESCE(v_settings.auto_accrue_penalties, TRUE) THEN
+    RETURN QUERY SELECT 0, 0, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  FOR v_inst IN
+    SELECT
+      i.id AS installment_id,
+      i.installment_number,
+      i.due_date,
+      i.total_amount,
+      COALESCE(i.amount_paid, 0) AS amount_paid,
+      l.id AS loan_id,
+      l.member_id,
+      l.branch_id,
+      l.installment_type,
+      l.late_payment_penalty_rate,
+      l.penalty_type AS loan_penalty_type,
+      lp.penalty_type AS product_penalty_type,
+      lp.penalty_rate AS product_penalty_rate,
+      lp.penalty_grace_days,
+      lp.penalty_cap
+    FROM public.loan_installments i
+      JOIN public.loans l ON l.id = i.loan_id
+      LEFT JOIN public.loan_products lp ON lp.code = l.loan_program
+    WHERE COALESCE(i.is_paid, FALSE) = FALSE
+      AND i.due_date < p_as_of
+      AND l.status IN ('active','disbursed','defaulted')
+      AND COALESCE(l.approval_status, 'approved') = 'approved'
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+    ORDER BY l.id, i.installment_number
+  LOOP
+    -- Loan terms win, then the product, then the system default (percentage)
+    IF COALESCE(v_inst.late_payment_penalty_rate, 0) > 0 THEN
+      v_rate := v_inst.late_payment_penalty_rate;
+      v_type := CASE WHEN v_inst.loan_penalty_type IN ('flat','fixed') THEN 'fixed' ELSE 'percentage' END;
+    ELSIF COALESCE(v_inst.product_penalty_rate, 0) > 0 THEN
+      v_rate := v_inst.product_penalty_rate;
+      v_type := v_inst.product_penalty_type;
+    ELSE
+      v_rate := COALESCE(v_settings.default_penalty_rate, 0);
+      v_type := 'percentage';
+    END IF;
+
+    CONTINUE WHEN v_rate <= 0;
+
+    v_grace := COALESCE(v_inst.penalty_grace_days, 0);
+    v_cap := v_inst.penalty_cap;
+    v_unpaid := GREATEST(v_inst.total_amount - v_inst.amount_paid, 0);
+    CONTINUE WHEN v_unpaid <= 0;
+
+    SELECT COALESCE(SUM(lpn.amount), 0) INTO v_charged
+    FROM public.loan_penalties lpn
+    WHERE lpn.installment_id = v_inst.installment_id;
+
+    v_charge := 1;
+    v_charge_date := public.installment_due_date(v_inst.due_date + v_grace + 1, v_inst.installment_type, 0);
+
+    WHILE v_charge_date <= p_as_of LOOP
+      IF v_charge_date >= COALESCE(v_settings.penalty_accrual_start, p_as_of)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.loan_penalties lpn
+          WHERE lpn.installment_id = v_inst.installment_id AND lpn.charge_number = v_charge
+        )
+      THEN
+        v_amount := CASE
+          WHEN v_type = 'fixed' THEN v_rate
+          ELSE ROUND(v_unpaid * v_rate / 100, 2)
+        END;
+        -- Waived charges still count towards the cap so waiving never re-opens it
+        IF v_cap IS NOT NULL THEN
+          v_amount := LEAST(v_amount, GREATEST(v_cap - v_charged, 0));
+        END IF;
+
+        EXIT WHEN v_amount <= 0;
+
+        INSERT INTO public.transactions (
+          amount,
+          transaction_type,
+          description,
+          loan_id,
+          member_id,
+          transaction_date,
+          status,
+          reference_number,
+          branch_id,
+          payment_method,
+          currency,
+          penalties
+        ) VALUES (
+          v_amount,
+          'penalty',
+          'Late payment penalty - installment ' || v_inst.installment_number,
+          v_inst.loan_id,
+          v_inst.member_id,
+          v_charge_date,
+          'pending',
+          'PEN-' || v_inst.installment_id::text || '-' || v_charge,
+          v_inst.branch_id,
+          'other',
+          'KES',
+          v_amount
+        )
+        RETURNING id INTO v_transaction_id;
+
+        INSERT INTO public.loan_penalties (
+          loan_id,
+          installment_id,
+          installment_number,
+          charge_number,
+          accrual_date,
+          days_overdue,
+          penalty_type,
+          penalty_rate,
+          base_amount,
+          amount,
+          transaction_id
+        ) VALUES (
+          v_inst.loan_id,
+          v_inst.installment_id,
+          v_inst.installment_number,
+          v_charge,
+          v_charge_date,
+          v_charge_date - v_inst.due_date,
+          v_type,
+          v_rate,
+          v_unpaid,
+          v_amount,
+          v_transaction_id
+        );
+
+        v_charged := v_charged + v_amount;
+        v_total := v_total + v_amount;
+        v_created := v_created + 1;
+        IF NOT (v_inst.loan_id = ANY (v_loans)) THEN
+          v_loans := array_append(v_loans, v_inst.loan_id);
+        END IF;
+      END IF;
+
+      v_charge := v_charge + 1;
+      v_charge_date := public.installment_due_date(v_inst.due_date + v_grace + 1, v_inst.installment_type, v_charge - 1);
+    END LOOP;
+  END LOOP;
+
+  RETURN QUERY SELECT v_created, cardinality(v_loans), v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.credit_savings_interest(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE(accounts_credited INTEGER, total_interest DECIMAL) AS $$
+DECLARE
+  v_account RECORD;
+  v_interest DECIMAL(15,2);
+  v_count INTEGER := 0;
+  v_total DECIMAL := 0;
+  v_transaction_id UUID;
+BEGIN
+  -- The monthly job, or an administrator running it by hand
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can credit savings interest';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF public.is_service_caller() AND NOT COALESCE(
+    (SELECT s.auto_credit_savings_interest FROM public.system_settings s WHERE s.id = 1), TRUE
+  ) THEN
+    RETURN QUERY SELECT 0, 0::DECIMAL;
+    RETURN;
+  END IF;
+
+  FOR v_account IN
+    SELECT sa.id, sa.balance, sa.interest_rate
+    FROM public.savings_accounts sa
+    WHERE sa.interest_rate > 0
+      AND sa.balance > 0
+      AND (sa.last_interest_date IS NULL OR sa.last_interest_date < date_trunc('month', p_as_of)::DATE)
+    FOR UPDATE
+  LOOP
+    v_interest := ROUND(v_account.balance * v_account.interest_rate / 100 / 12, 2);
+    UPDATE public.savings_accounts SET last_interest_date = p_as_of WHERE id = v_account.id;
+    CONTINUE WHEN v_interest <= 0;
+
+    v_transaction_id := public.post_savings_transaction(
+      v_account.id, 'interest', v_interest, NULL,
+      'INT-' || to_char(p_as_of, 'YYYYMM'),
+      'Monthly interest at ' || v_account.interest_rate || '% a year',
+      auth.uid()
+    );
+    v_count := v_count + 1;
+    v_total := v_total + v_interest;
+
+    INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+    VALUES (
+      'SAVINGS_INTEREST_CREDITED',
+      'savings_accounts',
+      v_account.id,
+      jsonb_build_object('balance', v_account.balance),
+      jsonb_build_object(
+        'as_of', p_as_of,
+        'interest', v_interest,
+        'rate', v_account.interest_rate,
+        'transaction_id', v_transaction_id
+      ),
+      auth.uid()
+    );
+  END LOOP;
+
+  RETURN QUERY SELECT v_count, v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Permissions and branches
+CREATE OR REPLACE FUNCTION public.set_role_permissions(p_role TEXT, p_permissions TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_old TEXT[];
+  v_new TEXT[];
+BEGIN
+  IF NOT public.has_permission('users.manage_permissions') THEN
+    RAISE EXCEPTION 'You do not have permission to manage role permissions';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF p_role NOT IN ('admin','branch_admin','loan_officer','teller','auditor') THEN
+    RAISE EXCEPTION 'Role % has no editable template', p_role;
+  END IF;
+
+  -- Administrators shape the other roles; only a super admin changes what administrators can do
+  IF p_role = 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Only a Super Admin can change the Admin template';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(COALESCE(p_permissions, ARRAY[]::TEXT[])) AS perm WHERE perm !~ '^[a-z_]+(\.[a-z_]+)+$') THEN
+    RAISE EXCEPTION 'Permission names look like area.action';
+  END IF;
+
+  SELECT COALESCE(array_agg(rp.permission ORDER BY rp.permission), ARRAY[]::TEXT[]) INTO v_old
+  FROM public.role_permissions rp WHERE rp.role = p_role;
+
+  SELECT COALESCE(array_agg(DISTINCT perm ORDER BY perm), ARRAY[]::TEXT[]) INTO v_new
+  FROM unnest(COALESCE(p_permissions, ARRAY[]::TEXT[])) AS perm;
+
+  DELETE FROM public.role_permissions rp WHERE rp.role = p_role AND rp.permission <> ALL (v_new);
+
+  INSERT INTO public.role_permissions (role, permission, updated_by, updated_at)
+  SELECT p_role, perm, auth.uid(), NOW() FROM unnest(v_new) AS perm
+  ON CONFLICT (role, permission) DO NOTHING;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'ROLE_PERMISSIONS_UPDATED',
+    'role_permissions',
+    auth.uid(),
+    jsonb_build_object('role', p_role, 'permissions', to_jsonb(v_old)),
+    jsonb_build_object('role', p_role, 'permissions', to_jsonb(v_new)),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.set_user_branches(p_user_id UUID, p_branch_ids BIGINT[])
+RETURNS VOID AS $$
+DECLARE
+  v_old BIGINT[];
+  v_new BIGINT[];
+  v_home BIGINT;
+  v_role TEXT;
+BEGIN
+  IF NOT public.has_permission('users.manage_permissions') THEN
+    RAISE EXCEPTION 'You do not have permission to assign branches';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  IF p_user_id = auth.uid() AND NOT public.is_super_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot change your own branches';
+  END IF;
+
+  SELECT branch_id, role::TEXT INTO v_home, v_role FROM public.profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT COALESCE(array_agg(branch_id ORDER BY branch_id), ARRAY[]::BIGINT[]) INTO v_old
+  FROM public.user_branch_roles WHERE user_id = p_user_id AND is_active;
+
+  SELECT COALESCE(array_agg(DISTINCT b ORDER BY b), ARRAY[]::BIGINT[]) INTO v_new
+  FROM unnest(COALESCE(p_branch_ids, ARRAY[]::BIGINT[]) || CASE WHEN v_home IS NULL THEN ARRAY[]::BIGINT[] ELSE ARRAY[v_home] END) AS b;
+
+  UPDATE public.user_branch_roles SET is_active = FALSE
+  WHERE user_id = p_user_id AND NOT (branch_id = ANY(v_new));
+
+  INSERT INTO public.user_branch_roles (user_id, branch_id, role, assigned_by)
+  SELECT p_user_id, b, v_role, auth.uid() FROM unnest(v_new) AS b
+  ON CONFLICT (user_id, branch_id) DO UPDATE
+    SET is_active = TRUE, assigned_by = EXCLUDED.assigned_by, assigned_at = NOW()
+    WHERE NOT user_branch_roles.is_active;
+
+  -- A removed branch cannot stay selected in the switcher
+  UPDATE public.profiles SET active_branch_id = NULL
+  WHERE id = p_user_id AND active_branch_id IS NOT NULL AND NOT (active_branch_id = ANY(v_new));
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'USER_BRANCHES_UPDATED',
+    'user_branch_roles',
+    p_user_id,
+    jsonb_build_object('branch_ids', to_jsonb(v_old)),
+    jsonb_build_object('branch_ids', to_jsonb(v_new)),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,17 @@
+-- Savings survive member deletion
+-- savings_accounts and savings_transactions cascaded from members, so deleting a
+-- member silently removed their balances and the whole deposit and withdrawal
+-- ledger, money the institution still owes. A member with savings on record can
+-- no longer be deleted, and an account can no longer take its ledger with it.
+
+ALTER TABLE public.savings_accounts DROP CONSTRAINT IF EXISTS savings_accounts_member_id_fkey;
+ALTER TABLE public.savings_accounts ADD CONSTRAINT savings_accounts_member_id_fkey
+  FOREIGN KEY (member_id) REFERENCES public.members(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.savings_transactions DROP CONSTRAINT IF EXISTS savings_transactions_member_id_fkey;
+ALTER TABLE public.savings_transactions ADD CONSTRAINT savings_transactions_member_id_fkey
+  FOREIGN KEY (member_id) REFERENCES public.members(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.savings_transactions DROP CONSTRAINT IF EXISTS savings_transactions_account_id_fkey;
+ALTER TABLE public.savings_transactions ADD CONSTRAINT savings_transactions_account_id_fkey
+  FOREIGN KEY (account_id) REFERENCES public.savings_accounts(id) ON DELETE RESTRICT;
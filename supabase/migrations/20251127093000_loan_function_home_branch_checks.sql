@@ -0,0 +1,427 @@
+-- Home branch checks in loan functions
+-- record_loan_approval, disburse_loan and recover_from_guarantor kept the check
+-- that held branch admins to profiles.branch_id after assert_loan_branch_access
+-- was added, so a branch admin assigned to several branches was refused on all
+-- but their home one. The assertion already covers every branch they may act
+-- in, and the home branch comparison is gone.
+
+-- 1. Approval sign-off
+CREATE OR REPLACE FUNCTION public.record_loan_approval(
+  p_loan_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_loan public.loans;
+  v_profile RECORD;
+  v_step INTEGER;
+  v_required TEXT;
+  v_total INTEGER;
+  v_status TEXT := 'pending';
+BEGIN
+  IF p_action NOT IN ('approved','rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action %', p_action;
+  END IF;
+  IF p_action = 'rejected' AND COALESCE(TRIM(p_comments), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a loan';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF COALESCE(v_loan.approval_status, 'pending') <> 'pending' THEN
+    RAISE EXCEPTION 'Loan is already %', v_loan.approval_status;
+  END IF;
+
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+
+  v_total := COALESCE(cardinality(v_loan.approval_chain), 0);
+  v_step := v_loan.approval_step + 1;
+  IF v_step > v_total THEN
+    RAISE EXCEPTION 'Loan has no approval step left to sign';
+  END IF;
+  v_required := v_loan.approval_chain[v_step];
+
+  IF NOT public.approval_role_covers(v_profile.role, v_required) THEN
+    RAISE EXCEPTION 'Step % of % must be signed by a % or above', v_step, v_total, replace(v_required, '_', ' ');
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.loan_approvals a
+    WHERE a.loan_id = p_loan_id AND a.approver_id = auth.uid() AND a.superseded_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'You have already signed off an earlier step of this loan';
+  END IF;
+
+  INSERT INTO public.loan_approvals (loan_id, step_number, approval_level, action, approver_id, comments)
+  VALUES (p_loan_id, v_step, v_required, p_action, auth.uid(), NULLIF(TRIM(p_comments), ''));
+
+  IF p_action = 'rejected' THEN
+    PERFORM public.set_loan_approval_status(p_loan_id, 'rejected', auth.uid());
+    v_status := 'rejected';
+  ELSE
+    UPDATE public.loans SET approval_step = v_step, updated_at = NOW() WHERE id = p_loan_id;
+    IF v_step = v_total THEN
+      PERFORM public.set_loan_approval_status(p_loan_id, 'approved', auth.uid());
+      v_status := 'approved';
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_APPROVAL_STEP',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('approval_step', v_loan.approval_step, 'approval_status', v_loan.approval_status),
+    jsonb_build_object(
+      'step', v_step,
+      'of', v_total,
+      'approval_level', v_required,
+      'action', p_action,
+      'comments', p_comments,
+      'approval_status', v_status
+    ),
+    auth.uid()
+  );
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 2. Disbursement
+CREATE OR REPLACE FUNCTION public.disburse_loan(
+  p_loan_id UUID,
+  p_disbursement_date DATE DEFAULT CURRENT_DATE,
+  p_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_loan public.loans;
+  v_profile RECORD;
+  v_net_fee BOOLEAN;
+  v_settled DECIMAL(15,2) := 0;
+  v_fee DECIMAL(15,2) := 0;
+  v_payout DECIMAL(15,2);
+  v_count INTEGER;
+  v_reference TEXT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can disburse loans';
+  END IF;
+  IF p_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid disbursement method %', p_method;
+  END IF;
+  IF p_disbursement_date IS NULL OR p_disbursement_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Disbursement date cannot be in the future';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = p_loan_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_loan.is_deleted, FALSE) THEN
+    RAISE EXCEPTION 'Loan % not found', p_loan_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(p_loan_id);
+  IF COALESCE(v_loan.approval_status, 'pending') <> 'approved' THEN
+    RAISE EXCEPTION 'Loan must be fully approved before it is disbursed';
+  END IF;
+  IF v_loan.disbursed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Loan was already disbursed on %', v_loan.disbursement_date;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.loan_installments li WHERE li.loan_id = p_loan_id AND COALESCE(li.amount_paid, 0) > 0) THEN
+    RAISE EXCEPTION 'Loan already has payments against its schedule';
+  END IF;
+
+  IF v_loan.previous_loan_id IS NOT NULL THEN
+    v_settled := public.settle_loan_top_up(p_loan_id);
+  END IF;
+
+  SELECT COALESCE(s.net_processing_fee_on_disbursement, FALSE) INTO v_net_fee
+  FROM public.system_settings s WHERE s.id = 1;
+  IF COALESCE(v_net_fee, FALSE) THEN
+    v_fee := COALESCE(v_loan.processing_fee, 0);
+  END IF;
+
+  v_payout := v_loan.principal_amount - v_settled - v_fee;
+  IF v_payout <= 0 THEN
+    RAISE EXCEPTION 'Deductions of KES % leave nothing to pay out', v_settled + v_fee;
+  END IF;
+
+  v_reference := COALESCE(NULLIF(TRIM(p_reference), ''), 'DISB-' || COALESCE(v_loan.application_no, v_loan.id::TEXT));
+
+  INSERT INTO public.transactions (
+    amount,
+    transaction_type,
+    description,
+    loan_id,
+    member_id,
+    transaction_date,
+    created_by,
+    status,
+    reference_number,
+    branch_id,
+    payment_method,
+    currency,
+    fees,
+    notes
+  ) VALUES (
+    v_payout,
+    'disbursement',
+    'Loan disbursement ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+    p_loan_id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    p_disbursement_date,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    p_method,
+    'KES',
+    v_fee,
+    p_notes
+  ) RETURNING id INTO v_transaction_id;
+
+  -- Rebuild the schedule from the day the money went out
+  DELETE FROM public.loan_installments WHERE loan_id = p_loan_id;
+
+  v_count := COALESCE(
+    v_loan.installment_count,
+    (SELECT lp.term_lengths[1] FROM public.loan_products lp WHERE lp.code = v_loan.loan_program),
+    8
+  );
+
+  INSERT INTO public.loan_installments (
+    loan_id,
+    installment_number,
+    due_date,
+    principal_amount,
+    interest_amount,
+    total_amount
+  )
+  SELECT
+    p_loan_id,
+    s.installment_number,
+    s.due_date,
+    s.principal_amount,
+    s.interest_amount,
+    s.total_amount
+  FROM public.build_loan_schedule(
+    v_loan.principal_amount,
+    public.loan_schedule_rate(v_loan.interest_method, v_loan.interest_rate, v_loan.principal_amount, v_loan.interest_disbursed),
+    v_loan.interest_method,
+    v_count,
+    v_loan.installment_type,
+    p_disbursement_date
+  ) s;
+
+  -- A netted fee counts as paid, the same way update_loan_balance_on_payment tracks total_paid
+  UPDATE public.loans
+  SET status = 'active',
+      issue_date = p_disbursement_date,
+      due_date = (SELECT MAX(li.due_date) FROM public.loan_installments li WHERE li.loan_id = p_loan_id),
+      disbursement_date = p_disbursement_date,
+      disbursed_at = NOW(),
+      disbursed_by = auth.uid(),
+      disbursement_method = p_method,
+      disbursement_reference = v_reference,
+      disbursed_amount = v_payout,
+      processing_fee_netted = v_fee,
+      disbursement_transaction_id = v_transaction_id,
+      total_paid = COALESCE(total_paid, 0) + v_fee,
+      current_balance = COALESCE(current_balance, 0) - v_fee,
+      updated_at = NOW()
+  WHERE id = p_loan_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'LOAN_DISBURSED',
+    'loans',
+    p_loan_id,
+    jsonb_build_object('status', v_loan.status, 'issue_date', v_loan.issue_date),
+    jsonb_build_object(
+      'status', 'active',
+      'disbursement_date', p_disbursement_date,
+      'method', p_method,
+      'reference', v_reference,
+      'payout', v_payout,
+      'top_up_settlement', v_settled,
+      'processing_fee_netted', v_fee
+    ),
+    auth.uid()
+  );
+
+  RETURN v_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. Guarantor recovery
+CREATE OR REPLACE FUNCTION public.recover_from_guarantor(
+  p_loan_guarantor_id UUID,
+  p_installment_id UUID,
+  p_amount DECIMAL,
+  p_source TEXT,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_profile RECORD;
+  v_guarantee public.loan_guarantors;
+  v_loan public.loans;
+  v_installment public.loan_installments;
+  v_guarantor public.members;
+  v_account public.savings_accounts;
+  v_method TEXT;
+  v_reference TEXT;
+  v_note TEXT;
+  v_unpaid DECIMAL(15,2);
+  v_available DECIMAL(15,2);
+  v_remaining DECIMAL(15,2);
+  v_debit DECIMAL(15,2);
+  v_payment_id UUID;
+  v_transaction_id UUID;
+  v_recovery_id UUID;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin') THEN
+    RAISE EXCEPTION 'Only admins can recover from guarantors';
+  END IF;
+  IF p_source NOT IN ('savings','payment') THEN
+    RAISE EXCEPTION 'Invalid recovery source %', p_source;
+  END IF;
+  v_method := CASE WHEN p_source = 'savings' THEN 'other' ELSE COALESCE(p_payment_method, 'cash') END;
+  IF v_method NOT IN ('cash','bank_transfer','mobile_money','check','other') THEN
+    RAISE EXCEPTION 'Invalid payment method %', v_method;
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Recovery amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_guarantee FROM public.loan_guarantors WHERE id = p_loan_guarantor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Guarantee % not found', p_loan_guarantor_id;
+  END IF;
+  PERFORM public.assert_loan_branch_access(v_guarantee.loan_id);
+  IF v_guarantee.status <> 'active' THEN
+    RAISE EXCEPTION 'This guarantee has been released';
+  END IF;
+
+  SELECT * INTO v_loan FROM public.loans WHERE id = v_guarantee.loan_id;
+  IF v_loan.status::TEXT NOT IN ('active','disbursed','defaulted') THEN
+    RAISE EXCEPTION 'Only open loans can be recovered from guarantors';
+  END IF;
+
+  SELECT * INTO v_installment FROM public.loan_installments WHERE id = p_installment_id AND loan_id = v_loan.id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment not found on this loan';
+  END IF;
+  v_unpaid := v_installment.total_amount - COALESCE(v_installment.amount_paid, 0);
+  IF COALESCE(v_installment.is_paid, FALSE) OR v_unpaid <= 0 THEN
+    RAISE EXCEPTION 'Installment % is already paid', v_installment.installment_number;
+  END IF;
+  IF v_installment.due_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Installment % is not overdue yet', v_installment.installment_number;
+  END IF;
+  IF p_amount > v_unpaid THEN
+    RAISE EXCEPTION 'Only KES % is unpaid on installment %', v_unpaid, v_installment.installment_number;
+  END IF;
+
+  v_available := v_guarantee.guaranteed_amount - v_guarantee.recovered_amount;
+  IF p_amount > v_available THEN
+    RAISE EXCEPTION 'The guarantor has KES % of their guarantee left', v_available;
+  END IF;
+
+  SELECT * INTO v_guarantor FROM public.members WHERE id = v_guarantee.guarantor_member_id FOR UPDATE;
+  IF p_source = 'savings' AND COALESCE(v_guarantor.savings_balance, 0) < p_amount THEN
+    RAISE EXCEPTION '% has only KES % in savings', v_guarantor.full_name, COALESCE(v_guarantor.savings_balance, 0);
+  END IF;
+
+  v_reference := COALESCE(
+    NULLIF(TRIM(p_reference), ''),
+    'GR-' || COALESCE(v_loan.application_no, v_loan.id::TEXT) || '-' || v_installment.installment_number || '-' || to_char(NOW(), 'YYYYMMDDHH24MISS')
+  );
+  v_note := 'Recovered from guarantor ' || v_guarantor.full_name
+    || CASE WHEN p_source = 'savings' THEN ' (savings)' ELSE '' END
+    || COALESCE(': ' || NULLIF(TRIM(p_notes), ''), '');
+
+  -- A recovery overrides minimum balances and liens: this is what they secure
+  IF p_source = 'savings' THEN
+    v_remaining := p_amount;
+    FOR v_account IN
+      SELECT * FROM public.savings_accounts
+      WHERE member_id = v_guarantor.id AND balance > 0
+      ORDER BY account_type
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_debit := LEAST(v_remaining, v_account.balance);
+      PERFORM public.post_savings_transaction(
+        v_account.id, 'recovery', v_debit, NULL, v_reference,
+        'Guarantor recovery on loan ' || COALESCE(v_loan.application_no, v_loan.id::TEXT),
+        auth.uid()
+      );
+      v_remaining := v_remaining - v_debit;
+    END LOOP;
+  END IF;
+
+  INSERT INTO public.loan_payments (
+    loan_id, installment_number, amount, payment_date, payment_reference, notes, created_by
+  ) VALUES (
+    v_loan.id, v_installment.installment_number, p_amount, CURRENT_DATE, v_reference, v_note, auth.uid()
+  )
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO public.transactions (
+    amount, transaction_type, description, loan_id, member_id, transaction_date,
+    created_by, status, reference_number, branch_id, payment_method, currency, total_paid, notes
+  ) VALUES (
+    p_amount,
+    'payment',
+    'Guarantor recovery',
+    v_loan.id,
+    COALESCE(v_loan.member_id, v_loan.customer_id),
+    CURRENT_DATE,
+    auth.uid(),
+    'completed',
+    v_reference,
+    v_loan.branch_id,
+    v_method,
+    'KES',
+    p_amount,
+    v_note
+  )
+  RETURNING id INTO v_transaction_id;
+
+  UPDATE public.loan_guarantors
+  SET recovered_amount = recovered_amount + p_amount
+  WHERE id = v_guarantee.id;
+
+  INSERT INTO public.guarantor_recoveries (
+    loan_guarantor_id, loan_id, installment_id, guarantor_member_id, amount, source,
+    payment_method, payment_reference, notes, loan_payment_id, transaction_id, recovered_by
+  ) VALUES (
+    v_guarantee.id, v_loan.id, v_installment.id, v_guarantor.id, p_amount, p_source,
+    v_method, v_reference, NULLIF(TRIM(p_notes), ''), v_payment_id, v_transaction_id, auth.uid()
+  )
+  RETURNING id INTO v_recovery_id;
+
+  INSERT INTO public.audit_logs (action, table_name, record_id, old_values, new_values, user_id)
+  VALUES (
+    'GUARANTOR_RECOVERY',
+    'loans',
+    v_loan.id,
+    jsonb_build_object('guarantor_recovered', v_guarantee.recovered_amount),
+    jsonb_build_object(
+      'guarantor_member_id', v_guarantor.id,
+      'installment_number', v_installment.installment_number,
+      'amount', p_amount,
+      'source', p_source,
+      'reference', v_reference
+    ),
+    auth.uid()
+  );
+
+  RETURN v_recovery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
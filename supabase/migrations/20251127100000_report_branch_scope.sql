@@ -0,0 +1,584 @@
+-- Branch scope in the reports
+-- PAR, provisioning and the financial statements still held branch admins to
+-- profiles.branch_id, so they ignored branches assigned through
+-- user_branch_roles and the active branch a user switches to. They now use
+-- can_access_branch like the operational tables: a branch admin sees every
+-- branch they are assigned to, and anyone narrowed to one branch sees only
+-- that branch. PAR snapshots and provisioning runs cover the whole portfolio,
+-- so a user narrowed to one branch cannot capture or run them.
+
+-- 1. Portfolio at risk
+CREATE OR REPLACE FUNCTION public.loan_arrears_positions(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  loan_id UUID,
+  account_number TEXT,
+  member_id UUID,
+  member_name TEXT,
+  branch_id BIGINT,
+  branch_name TEXT,
+  loan_officer_id UUID,
+  loan_officer_name TEXT,
+  group_id BIGINT,
+  group_name TEXT,
+  product_code TEXT,
+  product_name TEXT,
+  outstanding_principal DECIMAL,
+  arrears_amount DECIMAL,
+  days_in_arrears INTEGER,
+  aging_bucket TEXT
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  -- The snapshot job runs without a user; people only see their own portfolio.
+  -- Looked up unconditionally so v_profile is assigned (all NULL) for the job too.
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF NOT public.is_service_caller() THEN
+    IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','loan_officer','auditor') THEN
+      RAISE EXCEPTION 'You do not have access to portfolio reports';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH schedule AS (
+    SELECT
+      i.loan_id,
+      SUM(
+        CASE WHEN COALESCE(i.is_paid, FALSE) THEN 0
+        ELSE i.principal_amount * (1 - LEAST(COALESCE(i.amount_paid, 0) / NULLIF(i.total_amount, 0), 1))
+        END
+      ) AS outstanding_principal,
+      SUM(
+        CASE WHEN i.due_date < p_as_of AND NOT COALESCE(i.is_paid, FALSE)
+          THEN GREATEST(i.total_amount - COALESCE(i.amount_paid, 0), 0)
+          ELSE 0
+        END
+      ) AS arrears_amount,
+      MIN(i.due_date) FILTER (
+        WHERE i.due_date < p_as_of
+          AND NOT COALESCE(i.is_paid, FALSE)
+          AND i.total_amount - COALESCE(i.amount_paid, 0) > 0
+      ) AS oldest_unpaid_due
+    FROM public.loan_installments i
+    WHERE i.replaced_by_restructure_id IS NULL
+    GROUP BY i.loan_id
+  ),
+  positions AS (
+    SELECT
+      l.id AS loan_id,
+      COALESCE(l.application_no, l.id::TEXT) AS account_number,
+      m.id AS member_id,
+      m.full_name AS member_name,
+      l.branch_id::BIGINT AS branch_id,
+      b.name AS branch_name,
+      l.loan_officer_id,
+      o.full_name AS loan_officer_name,
+      l.group_id::BIGINT AS group_id,
+      g.name AS group_name,
+      l.loan_program AS product_code,
+      lp.name AS product_name,
+      ROUND(COALESCE(s.outstanding_principal, GREATEST(l.principal_amount - COALESCE(l.total_paid, 0), 0)), 2) AS outstanding_principal,
+      ROUND(COALESCE(s.arrears_amount, 0), 2) AS arrears_amount,
+      COALESCE(p_as_of - s.oldest_unpaid_due, 0) AS days_in_arrears
+    FROM public.loans l
+      LEFT JOIN schedule s ON s.loan_id = l.id
+      LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+      LEFT JOIN public.branches b ON b.id = l.branch_id
+      LEFT JOIN public.profiles o ON o.id = l.loan_officer_id
+      LEFT JOIN public.groups g ON g.id = l.group_id
+      LEFT JOIN public.loan_products lp ON lp.code = l.loan_program
+    WHERE l.status::TEXT IN ('active','disbursed','defaulted')
+      AND COALESCE(l.is_deleted, FALSE) = FALSE
+      AND (
+        public.is_service_caller()
+        OR (
+          public.can_access_branch(COALESCE(l.branch_id::BIGINT, m.branch_id::BIGINT))
+          AND (
+            v_profile.role IN ('super_admin','admin','branch_admin','auditor')
+            OR (v_profile.role = 'loan_officer' AND l.loan_officer_id = auth.uid())
+          )
+        )
+      )
+  )
+  SELECT
+    ps.loan_id, ps.account_number, ps.member_id, ps.member_name,
+    ps.branch_id, ps.branch_name, ps.loan_officer_id, ps.loan_officer_name,
+    ps.group_id, ps.group_name, ps.product_code, ps.product_name,
+    ps.outstanding_principal, ps.arrears_amount, ps.days_in_arrears,
+    CASE
+      WHEN ps.days_in_arrears <= 0 THEN 'current'
+      WHEN ps.days_in_arrears <= 30 THEN '1_30'
+      WHEN ps.days_in_arrears <= 60 THEN '31_60'
+      WHEN ps.days_in_arrears <= 90 THEN '61_90'
+      WHEN ps.days_in_arrears <= 180 THEN '91_180'
+      ELSE 'over_180'
+    END
+  FROM positions ps
+  WHERE ps.outstanding_principal > 0
+  ORDER BY ps.days_in_arrears DESC, ps.outstanding_principal DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS par_snapshots_select ON public.par_snapshots;
+CREATE POLICY par_snapshots_select ON public.par_snapshots
+FOR SELECT USING (
+  public.can_access_branch(par_snapshots.branch_id)
+  AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','branch_admin','auditor')
+        OR (p.role = 'loan_officer' AND par_snapshots.loan_officer_id = p.id)
+      )
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.capture_par_snapshot(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can capture PAR snapshots';
+  END IF;
+
+  -- A snapshot covers every branch, so it cannot be made from a view narrowed to one
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.my_branch_scope() s WHERE s.all_branches AND s.active_branch_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Switch to all branches before capturing a PAR snapshot';
+  END IF;
+
+  DELETE FROM public.par_snapshots WHERE snapshot_date = p_as_of;
+
+  -- Only the cron job and administrators get here, and both see every branch
+  INSERT INTO public.par_snapshots (
+    snapshot_date, branch_id, loan_officer_id, loans_count, outstanding_principal,
+    par1_amount, par30_amount, par60_amount, par90_amount,
+    bucket_current, bucket_1_30, bucket_31_60, bucket_61_90, bucket_91_180, bucket_over_180
+  )
+  SELECT
+    p_as_of,
+    ap.branch_id,
+    ap.loan_officer_id,
+    COUNT(*),
+    SUM(ap.outstanding_principal),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 0), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 30), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 60), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 90), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = 'current'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '1_30'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '31_60'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '61_90'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '91_180'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = 'over_180'), 0)
+  FROM public.loan_arrears_positions(p_as_of) ap
+  GROUP BY ap.branch_id, ap.loan_officer_id;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 2. Loan loss provisioning
+CREATE OR REPLACE FUNCTION public.run_loan_loss_provisioning(
+  p_period_end DATE DEFAULT (date_trunc('month', CURRENT_DATE) - INTERVAL '1 day')::DATE
+) RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_previous_run_id UUID;
+BEGIN
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can run loan loss provisioning';
+  END IF;
+
+  PERFORM public.assert_mfa_session();
+
+  -- A run covers every branch, so it cannot be made from a view narrowed to one
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.my_branch_scope() s WHERE s.all_branches AND s.active_branch_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Switch to all branches before running loan loss provisioning';
+  END IF;
+
+  IF p_period_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Provisioning cannot be run for a future date';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.provisioning_runs r WHERE r.period_end >= p_period_end AND r.status = 'posted') THEN
+    RAISE EXCEPTION 'Provisioning for % or a later period has already been posted', p_period_end;
+  END IF;
+
+  DELETE FROM public.provisioning_runs WHERE period_end = p_period_end AND status = 'draft';
+
+  SELECT r.id INTO v_previous_run_id
+  FROM public.provisioning_runs r
+  WHERE r.period_end < p_period_end
+  ORDER BY r.period_end DESC
+  LIMIT 1;
+
+  INSERT INTO public.provisioning_runs (period_end, run_by, rules_snapshot)
+  VALUES (
+    p_period_end,
+    auth.uid(),
+    (SELECT jsonb_object_agg(r.classification, jsonb_build_object('min_days', r.min_days, 'provision_rate', r.provision_rate))
+     FROM public.loan_classification_rules r)
+  )
+  RETURNING id INTO v_run_id;
+
+  -- The cron job and an administrator over every branch both get the whole portfolio
+  INSERT INTO public.loan_provisions (
+    run_id, loan_id, branch_id, classification, days_in_arrears,
+    outstanding_principal, provision_rate, required_provision
+  )
+  SELECT
+    v_run_id,
+    ap.loan_id,
+    ap.branch_id,
+    c.classification,
+    ap.days_in_arrears,
+    ap.outstanding_principal,
+    c.provision_rate,
+    ROUND(ap.outstanding_principal * c.provision_rate / 100, 2)
+  FROM public.loan_arrears_positions(p_period_end) ap
+    CROSS JOIN LATERAL public.classify_days_in_arrears(ap.days_in_arrears) c
+  WHERE ap.branch_id IS NOT NULL;
+
+  INSERT INTO public.provisioning_run_branches (run_id, branch_id, loans_count, outstanding_principal, required_provision, previous_required)
+  SELECT
+    v_run_id,
+    b.branch_id,
+    COALESCE(cur.loans_count, 0),
+    COALESCE(cur.outstanding_principal, 0),
+    COALESCE(cur.required_provision, 0),
+    COALESCE(prev.required_provision, 0)
+  FROM (
+    SELECT lp.branch_id FROM public.loan_provisions lp WHERE lp.run_id = v_run_id
+    UNION
+    SELECT rb.branch_id FROM public.provisioning_run_branches rb WHERE rb.run_id = v_previous_run_id
+  ) b
+    LEFT JOIN (
+      SELECT lp.branch_id, COUNT(*) AS loans_count, SUM(lp.outstanding_principal) AS outstanding_principal,
+             SUM(lp.required_provision) AS required_provision
+      FROM public.loan_provisions lp
+      WHERE lp.run_id = v_run_id
+      GROUP BY lp.branch_id
+    ) cur ON cur.branch_id = b.branch_id
+    LEFT JOIN public.provisioning_run_branches prev ON prev.run_id = v_previous_run_id AND prev.branch_id = b.branch_id;
+
+  UPDATE public.provisioning_runs r
+  SET loans_count = t.loans_count,
+      outstanding_principal = t.outstanding_principal,
+      required_provision = t.required_provision,
+      previous_required = t.previous_required
+  FROM (
+    SELECT COALESCE(SUM(rb.loans_count), 0) AS loans_count,
+           COALESCE(SUM(rb.outstanding_principal), 0) AS outstanding_principal,
+           COALESCE(SUM(rb.required_provision), 0) AS required_provision,
+           COALESCE(SUM(rb.previous_required), 0) AS previous_required
+    FROM public.provisioning_run_branches rb
+    WHERE rb.run_id = v_run_id
+  ) t
+  WHERE r.id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP POLICY IF EXISTS provisioning_run_branches_select ON public.provisioning_run_branches;
+CREATE POLICY provisioning_run_branches_select ON public.provisioning_run_branches
+FOR SELECT USING (
+  public.can_access_branch(provisioning_run_branches.branch_id)
+  AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','branch_admin','auditor')
+      )
+  )
+);
+
+DROP POLICY IF EXISTS loan_provisions_select ON public.loan_provisions;
+CREATE POLICY loan_provisions_select ON public.loan_provisions
+FOR SELECT USING (
+  public.can_access_branch(loan_provisions.branch_id)
+  AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','branch_admin','auditor')
+      )
+  )
+);
+
+DROP POLICY IF EXISTS provision_entries_select ON public.provision_entries;
+CREATE POLICY provision_entries_select ON public.provision_entries
+FOR SELECT USING (
+  public.can_access_branch(provision_entries.branch_id)
+  AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid()
+      AND (
+        p.role IN ('super_admin','admin','branch_admin','auditor')
+      )
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.get_loan_provisions(p_run_id UUID)
+RETURNS TABLE (
+  loan_id UUID,
+  account_number TEXT,
+  member_name TEXT,
+  branch_name TEXT,
+  classification TEXT,
+  days_in_arrears INTEGER,
+  outstanding_principal DECIMAL,
+  provision_rate DECIMAL,
+  required_provision DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to provisioning reports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lp.loan_id,
+    COALESCE(l.application_no, l.id::TEXT),
+    m.full_name,
+    b.name,
+    lp.classification,
+    lp.days_in_arrears,
+    lp.outstanding_principal,
+    lp.provision_rate,
+    lp.required_provision
+  FROM public.loan_provisions lp
+    JOIN public.loans l ON l.id = lp.loan_id
+    LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+    LEFT JOIN public.branches b ON b.id = lp.branch_id
+  WHERE lp.run_id = p_run_id
+    AND public.can_access_branch(lp.branch_id)
+  ORDER BY lp.days_in_arrears DESC, lp.required_provision DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.get_written_off_loans()
+RETURNS TABLE (
+  loan_id UUID,
+  account_number TEXT,
+  member_name TEXT,
+  branch_name TEXT,
+  loan_officer_name TEXT,
+  principal_amount DECIMAL,
+  written_off_amount DECIMAL,
+  from_provision DECIMAL,
+  unprovided DECIMAL,
+  written_off_date DATE,
+  written_off_by_name TEXT,
+  write_off_reason TEXT
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to write-off records';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    l.id,
+    COALESCE(l.application_no, l.id::TEXT),
+    m.full_name,
+    b.name,
+    o.full_name,
+    l.principal_amount,
+    COALESCE(l.written_off_amount, 0),
+    COALESCE((SELECT SUM(e.amount) FROM public.provision_entries e WHERE e.loan_id = l.id AND e.entry_type = 'write_off'), 0),
+    COALESCE((SELECT SUM(e.amount) FROM public.provision_entries e WHERE e.loan_id = l.id AND e.entry_type = 'charge'), 0),
+    l.written_off_date,
+    w.full_name,
+    l.write_off_reason
+  FROM public.loans l
+    LEFT JOIN public.members m ON m.id = COALESCE(l.member_id, l.customer_id)
+    LEFT JOIN public.branches b ON b.id = l.branch_id
+    LEFT JOIN public.profiles o ON o.id = l.loan_officer_id
+    LEFT JOIN public.profiles w ON w.id = l.written_off_by
+  WHERE l.status::TEXT = 'written_off'
+    AND COALESCE(l.is_deleted, FALSE) = FALSE
+    AND public.can_access_branch(COALESCE(l.branch_id::BIGINT, m.branch_id::BIGINT))
+  ORDER BY l.written_off_date DESC NULLS LAST;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 3. Trial balance and financial statements
+CREATE OR REPLACE FUNCTION public.trial_balance(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_branch_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  account_code TEXT,
+  account_name TEXT,
+  account_type TEXT,
+  normal_balance TEXT,
+  total_debit DECIMAL,
+  total_credit DECIMAL,
+  balance_debit DECIMAL,
+  balance_credit DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to the general ledger';
+  END IF;
+  IF p_branch_id IS NOT NULL AND NOT public.can_access_branch(p_branch_id) THEN
+    RAISE EXCEPTION 'You do not have access to this branch';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT jl.account_code, SUM(jl.debit) AS debits, SUM(jl.credit) AS credits
+    FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.entry_id
+    WHERE je.entry_date <= p_as_of
+      AND (p_branch_id IS NULL OR je.branch_id = p_branch_id)
+      AND public.can_access_branch(je.branch_id)
+    GROUP BY jl.account_code
+  )
+  SELECT
+    a.code,
+    a.name,
+    a.account_type,
+    a.normal_balance,
+    COALESCE(t.debits, 0),
+    COALESCE(t.credits, 0),
+    GREATEST(COALESCE(t.debits, 0) - COALESCE(t.credits, 0), 0),
+    GREATEST(COALESCE(t.credits, 0) - COALESCE(t.debits, 0), 0)
+  FROM public.gl_accounts a
+    LEFT JOIN totals t ON t.account_code = a.code
+  WHERE a.is_active OR t.account_code IS NOT NULL
+  ORDER BY a.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.gl_account_activity(
+  p_from DATE,
+  p_to DATE,
+  p_branch_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  account_code TEXT,
+  account_name TEXT,
+  account_type TEXT,
+  normal_balance TEXT,
+  is_cash BOOLEAN,
+  cash_flow_activity TEXT,
+  opening_balance DECIMAL,
+  period_debit DECIMAL,
+  period_credit DECIMAL,
+  closing_balance DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to the general ledger';
+  END IF;
+  IF p_branch_id IS NOT NULL AND NOT public.can_access_branch(p_branch_id) THEN
+    RAISE EXCEPTION 'You do not have access to this branch';
+  END IF;
+  IF p_from > p_to THEN
+    RAISE EXCEPTION 'The period starts after it ends';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT
+      jl.account_code,
+      COALESCE(SUM(jl.debit - jl.credit) FILTER (WHERE je.entry_date < p_from), 0) AS opening,
+      COALESCE(SUM(jl.debit) FILTER (WHERE je.entry_date >= p_from), 0) AS debits,
+      COALESCE(SUM(jl.credit) FILTER (WHERE je.entry_date >= p_from), 0) AS credits
+    FROM public.journal_lines jl
+      JOIN public.journal_entries je ON je.id = jl.entry_id
+    WHERE je.entry_date <= p_to
+      AND (p_branch_id IS NULL OR je.branch_id = p_branch_id)
+      AND public.can_access_branch(je.branch_id)
+    GROUP BY jl.account_code
+  )
+  SELECT
+    a.code,
+    a.name,
+    a.account_type,
+    a.normal_balance,
+    a.is_cash,
+    a.cash_flow_activity,
+    COALESCE(t.opening, 0),
+    COALESCE(t.debits, 0),
+    COALESCE(t.credits, 0),
+    COALESCE(t.opening, 0) + COALESCE(t.debits, 0) - COALESCE(t.credits, 0)
+  FROM public.gl_accounts a
+    LEFT JOIN totals t ON t.account_code = a.code
+  WHERE a.is_active OR t.account_code IS NOT NULL
+  ORDER BY a.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.gl_cash_flows(
+  p_from DATE,
+  p_to DATE,
+  p_branch_id BIGINT DEFAULT NULL
+)
+RETURNS TABLE (
+  cash_flow_activity TEXT,
+  account_code TEXT,
+  account_name TEXT,
+  cash_in DECIMAL,
+  cash_out DECIMAL
+) AS $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  SELECT p.role::TEXT AS role INTO v_profile FROM public.profiles p WHERE p.id = auth.uid();
+  IF COALESCE(v_profile.role, '') NOT IN ('super_admin','admin','branch_admin','auditor') THEN
+    RAISE EXCEPTION 'You do not have access to the general ledger';
+  END IF;
+  IF p_branch_id IS NOT NULL AND NOT public.can_access_branch(p_branch_id) THEN
+    RAISE EXCEPTION 'You do not have access to this branch';
+  END IF;
+
+  RETURN QUERY
+  WITH cash_entries AS (
+    SELECT DISTINCT je.id
+    FROM public.journal_entries je
+      JOIN public.journal_lines jl ON jl.entry_id = je.id
+      JOIN public.gl_accounts a ON a.code = jl.account_code
+    WHERE je.entry_date BETWEEN p_from AND p_to
+      AND (p_branch_id IS NULL OR je.branch_id = p_branch_id)
+      AND public.can_access_branch(je.branch_id)
+      AND a.is_cash
+  )
+  SELECT
+    a.cash_flow_activity,
+    a.code,
+    a.name,
+    SUM(jl.credit),
+    SUM(jl.debit)
+  FROM cash_entries ce
+    JOIN public.journal_lines jl ON jl.entry_id = ce.id
+    JOIN public.gl_accounts a ON a.code = jl.account_code
+  WHERE NOT a.is_cash
+  GROUP BY a.cash_flow_activity, a.code, a.name
+  ORDER BY a.code;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
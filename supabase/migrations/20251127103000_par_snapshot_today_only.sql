@@ -0,0 +1,62 @@
+-- PAR snapshots are only captured for today
+-- capture_par_snapshot replaced the snapshot of whatever date it was given with
+-- one built from today's loan data, so a call could overwrite a past day of the
+-- PAR trend or write one for a future day. It now only captures today; running
+-- it again the same day still replaces that day's rows.
+
+CREATE OR REPLACE FUNCTION public.capture_par_snapshot(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role IN ('super_admin','admin')
+  ) THEN
+    RAISE EXCEPTION 'Only administrators can capture PAR snapshots';
+  END IF;
+
+  -- A snapshot covers every branch, so it cannot be made from a view narrowed to one
+  IF NOT public.is_service_caller() AND NOT EXISTS (
+    SELECT 1 FROM public.my_branch_scope() s WHERE s.all_branches AND s.active_branch_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Switch to all branches before capturing a PAR snapshot';
+  END IF;
+
+  -- Positions come from live loan data, so only today can be captured; an earlier
+  -- day would be rebuilt from today's arrears and a later one does not exist yet
+  IF p_as_of IS DISTINCT FROM CURRENT_DATE THEN
+    RAISE EXCEPTION 'Only today''s PAR snapshot can be captured';
+  END IF;
+
+  -- Re-running today replaces today's snapshot
+  DELETE FROM public.par_snapshots WHERE snapshot_date = p_as_of;
+
+  -- Only the cron job and administrators get here, and both see every branch
+  INSERT INTO public.par_snapshots (
+    snapshot_date, branch_id, loan_officer_id, loans_count, outstanding_principal,
+    par1_amount, par30_amount, par60_amount, par90_amount,
+    bucket_current, bucket_1_30, bucket_31_60, bucket_61_90, bucket_91_180, bucket_over_180
+  )
+  SELECT
+    p_as_of,
+    ap.branch_id,
+    ap.loan_officer_id,
+    COUNT(*),
+    SUM(ap.outstanding_principal),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 0), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 30), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 60), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.days_in_arrears > 90), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = 'current'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '1_30'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '31_60'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '61_90'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = '91_180'), 0),
+    COALESCE(SUM(ap.outstanding_principal) FILTER (WHERE ap.aging_bucket = 'over_180'), 0)
+  FROM public.loan_arrears_positions(p_as_of) ap
+  GROUP BY ap.branch_id, ap.loan_officer_id;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
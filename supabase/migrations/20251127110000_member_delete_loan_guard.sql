@@ -0,0 +1,27 @@
+-- Member delete loan guard
+-- The delete dialogs count a member's loans before deleting, but that count runs
+-- under branch RLS and misses loans booked in branches the user cannot see.
+-- guard_loan_delete cannot close the gap either: loan rows removed by a cascade
+-- from members are deleted as the table owner, so its current_user check lets
+-- them through. A member with any loan on record, deleted or not, now cannot be
+-- removed by anyone.
+
+-- SECURITY DEFINER so the lookup sees loans in every branch; the check does not
+-- depend on current_user, so it holds for owner and service deletes too
+CREATE OR REPLACE FUNCTION public.guard_member_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.loans
+    WHERE member_id = OLD.id OR customer_id = OLD.id
+  ) THEN
+    RAISE EXCEPTION 'Members with loans on record cannot be deleted; set them inactive instead';
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_member_delete ON public.members;
+CREATE TRIGGER guard_member_delete
+BEFORE DELETE ON public.members
+FOR EACH ROW EXECUTE FUNCTION public.guard_member_delete();
@@ -0,0 +1,234 @@
+-- Branch isolation test
+-- Builds two branches with a member, a loan and a payment each, then signs in as
+-- staff of one branch and reads the other. Everything runs in one transaction and
+-- is rolled back, so it is safe to run against a database with real data.
+-- Each test is a DO block that raises an exception when the signed-in user sees
+-- (or changes) data they should not, or misses data they should see; the script
+-- finishes silently when isolation holds.
+-- Run it as postgres (the SQL editor does): it switches to the authenticated role
+-- and sets the JWT claims itself.
+
+BEGIN;
+
+-- Fixtures
+INSERT INTO public.branches (name) VALUES ('Isolation Test A'), ('Isolation Test B');
+
+INSERT INTO auth.users (id, instance_id, aud, role, email, encrypted_password, raw_user_meta_data, created_at, updated_at)
+VALUES
+  ('00000000-0000-4000-a000-00000000000a', '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'officer.a@isolation.test', '', '{"full_name":"Officer A"}', NOW(), NOW()),
+  ('00000000-0000-4000-a000-00000000000b', '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'teller.b@isolation.test', '', '{"full_name":"Teller B"}', NOW(), NOW()),
+  ('00000000-0000-4000-a000-00000000000c', '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'auditor@isolation.test', '', '{"full_name":"Auditor"}', NOW(), NOW());
+
+-- The signup trigger may already have created the profiles
+INSERT INTO public.profiles (id, email, full_name, role, branch_id, is_active)
+VALUES
+  ('00000000-0000-4000-a000-00000000000a', 'officer.a@isolation.test', 'Officer A', 'loan_officer', (SELECT id FROM public.branches WHERE name = 'Isolation Test A'), TRUE),
+  ('00000000-0000-4000-a000-00000000000b', 'teller.b@isolation.test', 'Teller B', 'teller', (SELECT id FROM public.branches WHERE name = 'Isolation Test B'), TRUE),
+  ('00000000-0000-4000-a000-00000000000c', 'auditor@isolation.test', 'Auditor', 'auditor', NULL, TRUE)
+ON CONFLICT (id) DO UPDATE
+  SET role = EXCLUDED.role, branch_id = EXCLUDED.branch_id, is_active = TRUE;
+
+INSERT INTO public.members (id, full_name, id_number, phone_number, branch_id, assigned_officer_id)
+VALUES
+  ('00000000-0000-4000-b000-00000000000a', 'Member A', 'ISO-A', '0700000001', (SELECT id FROM public.branches WHERE name = 'Isolation Test A'), '00000000-0000-4000-a000-00000000000a'),
+  ('00000000-0000-4000-b000-00000000000b', 'Member B', 'ISO-B', '0700000002', (SELECT id FROM public.branches WHERE name = 'Isolation Test B'), '00000000-0000-4000-a000-00000000000a');
+
+INSERT INTO public.loans (id, customer_id, member_id, branch_id, loan_officer_id, principal_amount, interest_rate, repayment_schedule, due_date, status, current_balance)
+VALUES
+  ('00000000-0000-4000-c000-00000000000a', '00000000-0000-4000-b000-00000000000a', '00000000-0000-4000-b000-00000000000a',
+   (SELECT id FROM public.branches WHERE name = 'Isolation Test A'), '00000000-0000-4000-a000-00000000000a', 10000, 18, 'weekly', CURRENT_DATE + 56, 'active', 10000),
+  -- Same officer on purpose: only the branch keeps this loan out of their sight
+  ('00000000-0000-4000-c000-00000000000b', '00000000-0000-4000-b000-00000000000b', '00000000-0000-4000-b000-00000000000b',
+   (SELECT id FROM public.branches WHERE name = 'Isolation Test B'), '00000000-0000-4000-a000-00000000000a', 20000, 18, 'weekly', CURRENT_DATE + 56, 'active', 20000);
+
+INSERT INTO public.loan_payments (loan_id, amount, installment_number, payment_reference)
+VALUES
+  ('00000000-0000-4000-c000-00000000000a', 1475, 1, 'ISO-PAY-A'),
+  ('00000000-0000-4000-c000-00000000000b', 2950, 1, 'ISO-PAY-B');
+
+-- Staff may not be able to read the branches table, so look the ids up now
+SELECT set_config('isolation_test.branch_a', (SELECT id::TEXT FROM public.branches WHERE name = 'Isolation Test A'), true),
+       set_config('isolation_test.branch_b', (SELECT id::TEXT FROM public.branches WHERE name = 'Isolation Test B'), true);
+
+-- Sign in as the branch A loan officer
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-4000-a000-00000000000a","role":"authenticated","aal":"aal2"}', true);
+
+-- Test 1: No branch B loans, even when asked for by id
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.loans
+    WHERE id = '00000000-0000-4000-c000-00000000000b'
+       OR branch_id = current_setting('isolation_test.branch_b')::BIGINT
+  ) THEN
+    RAISE EXCEPTION 'Test 1 failed: officer A sees a branch B loan';
+  END IF;
+END $$;
+
+-- Test 2: No branch B members
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.members WHERE id = '00000000-0000-4000-b000-00000000000b') THEN
+    RAISE EXCEPTION 'Test 2 failed: officer A sees a branch B member';
+  END IF;
+END $$;
+
+-- Test 3: No payments on branch B loans
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.loan_payments WHERE payment_reference = 'ISO-PAY-B') THEN
+    RAISE EXCEPTION 'Test 3 failed: officer A sees a branch B payment';
+  END IF;
+END $$;
+
+-- Test 4: The detail views do not get round the policies
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.loans_with_details WHERE id = '00000000-0000-4000-c000-00000000000b') THEN
+    RAISE EXCEPTION 'Test 4 failed: officer A sees a branch B loan in loans_with_details';
+  END IF;
+END $$;
+
+-- Test 5: Their own branch is still visible
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.loans WHERE id = '00000000-0000-4000-c000-00000000000a') THEN
+    RAISE EXCEPTION 'Test 5 failed: officer A cannot see their own branch loan';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.loan_payments WHERE payment_reference = 'ISO-PAY-A') THEN
+    RAISE EXCEPTION 'Test 5 failed: officer A cannot see their own branch payment';
+  END IF;
+END $$;
+
+-- Test 6: Writes into branch B are refused
+DO $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  UPDATE public.loans SET loan_officer_id = loan_officer_id WHERE id = '00000000-0000-4000-c000-00000000000b';
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows > 0 THEN
+    RAISE EXCEPTION 'Test 6 failed: officer A updated a branch B loan';
+  END IF;
+
+  BEGIN
+    INSERT INTO public.members (full_name, id_number, phone_number, branch_id)
+    VALUES ('Intruder', 'ISO-X', '0700000009', current_setting('isolation_test.branch_b')::BIGINT);
+    RAISE EXCEPTION 'Test 6 failed: officer A created a member in branch B';
+  EXCEPTION WHEN insufficient_privilege THEN
+    NULL;
+  END;
+END $$;
+
+-- Test 7: A switch to another branch is refused
+DO $$
+BEGIN
+  PERFORM public.set_active_branch(current_setting('isolation_test.branch_b')::BIGINT);
+  RAISE EXCEPTION 'Test 7 failed: officer A switched to branch B';
+EXCEPTION WHEN raise_exception THEN
+  IF SQLERRM LIKE 'Test 7 failed%' THEN
+    RAISE;
+  END IF;
+END $$;
+
+-- Test 8: Loan functions, which read past RLS, refuse branch B loans too
+DO $$
+BEGIN
+  PERFORM * FROM public.loan_settlement_quote('00000000-0000-4000-c000-00000000000b');
+  RAISE EXCEPTION 'Test 8 failed: officer A got a settlement quote for a branch B loan';
+EXCEPTION WHEN raise_exception THEN
+  IF SQLERRM LIKE 'Test 8 failed%' THEN
+    RAISE;
+  END IF;
+END $$;
+
+-- Test 9: Assigned to both branches, the officer sees both until they narrow to one
+RESET ROLE;
+INSERT INTO public.user_branch_roles (user_id, branch_id, role)
+VALUES ('00000000-0000-4000-a000-00000000000a', current_setting('isolation_test.branch_b')::BIGINT, 'loan_officer');
+SET LOCAL ROLE authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.loans WHERE id = '00000000-0000-4000-c000-00000000000b') THEN
+    RAISE EXCEPTION 'Test 9 failed: officer A cannot see the branch B loan once assigned';
+  END IF;
+
+  PERFORM public.set_active_branch(current_setting('isolation_test.branch_a')::BIGINT);
+
+  IF EXISTS (SELECT 1 FROM public.loans WHERE id = '00000000-0000-4000-c000-00000000000b') THEN
+    RAISE EXCEPTION 'Test 9 failed: officer A sees the branch B loan while narrowed to branch A';
+  END IF;
+END $$;
+
+-- Test 10: A teller in branch B cannot see branch A
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-4000-a000-00000000000b","role":"authenticated","aal":"aal2"}', true);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.loans WHERE id = '00000000-0000-4000-c000-00000000000a') THEN
+    RAISE EXCEPTION 'Test 10 failed: teller B sees a branch A loan';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.members WHERE id = '00000000-0000-4000-b000-00000000000a') THEN
+    RAISE EXCEPTION 'Test 10 failed: teller B sees a branch A member';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.loan_payments WHERE payment_reference = 'ISO-PAY-A') THEN
+    RAISE EXCEPTION 'Test 10 failed: teller B sees a branch A payment';
+  END IF;
+END $$;
+
+-- Test 11: An auditor (branches.view_all) sees both branches
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-4000-a000-00000000000c","role":"authenticated","aal":"aal2"}', true);
+
+DO $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.loans
+    WHERE id IN ('00000000-0000-4000-c000-00000000000a', '00000000-0000-4000-c000-00000000000b')
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Test 11 failed: the auditor cannot see loans in both branches';
+  END IF;
+END $$;
+
+-- Test 12: An anonymous caller can neither run the loan functions nor pass the branch check
+RESET ROLE;
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role":"anon"}', true);
+
+DO $$
+BEGIN
+  PERFORM * FROM public.loan_settlement_quote('00000000-0000-4000-c000-00000000000a');
+  RAISE EXCEPTION 'Test 12 failed: an anonymous caller got a settlement quote';
+EXCEPTION WHEN insufficient_privilege THEN
+  NULL;
+END $$;
+
+RESET ROLE;
+DO $$
+BEGIN
+  PERFORM set_config('request.jwt.claims', '{"role":"anon"}', true);
+  PERFORM public.assert_loan_branch_access('00000000-0000-4000-c000-00000000000a');
+  RAISE EXCEPTION 'Test 12 failed: the branch check let an anonymous caller through';
+EXCEPTION WHEN raise_exception THEN
+  IF SQLERRM LIKE 'Test 12 failed%' THEN
+    RAISE;
+  END IF;
+END $$;
+
+-- Test 13: An aal1 session of a role that must use MFA is refused by the loan functions too
+UPDATE public.system_settings SET mfa_required_roles = ARRAY['super_admin','admin','loan_officer']::TEXT[] WHERE id = 1;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-4000-a000-00000000000a","role":"authenticated","aal":"aal1"}', true);
+
+DO $$
+BEGIN
+  PERFORM * FROM public.loan_settlement_quote('00000000-0000-4000-c000-00000000000a');
+  RAISE EXCEPTION 'Test 13 failed: an aal1 session got a settlement quote';
+EXCEPTION WHEN raise_exception THEN
+  IF SQLERRM NOT LIKE 'Verify with your authenticator%' THEN
+    RAISE;
+  END IF;
+END $$;
+
+ROLLBACK;
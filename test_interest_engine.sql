@@ -0,0 +1,177 @@
+-- Interest engine parity test
+-- GENERATED by scripts/generate-interest-engine-test.mjs: edit the cases in
+-- scripts/interest-engine-cases.json, not this file.
+-- Expected rows are produced by buildRepaymentSchedule in src/utils/interestEngine.ts.
+-- Each block raises an exception when public.build_loan_schedule disagrees with the
+-- client engine or the stored data; the script finishes silently when everything matches.
+
+-- Test 1: Flat 18% over 8 weeks
+DO $$
+BEGIN
+  IF EXISTS (
+    WITH expected(installment_number, due_date, principal_amount, interest_amount, total_amount, balance_after) AS (
+      VALUES
+        (1, DATE '2025-01-13', 1250.00, 225.00, 1475.00, 8750.00),
+        (2, DATE '2025-01-20', 1250.00, 225.00, 1475.00, 7500.00),
+        (3, DATE '2025-01-27', 1250.00, 225.00, 1475.00, 6250.00),
+        (4, DATE '2025-02-03', 1250.00, 225.00, 1475.00, 5000.00),
+        (5, DATE '2025-02-10', 1250.00, 225.00, 1475.00, 3750.00),
+        (6, DATE '2025-02-17', 1250.00, 225.00, 1475.00, 2500.00),
+        (7, DATE '2025-02-24', 1250.00, 225.00, 1475.00, 1250.00),
+        (8, DATE '2025-03-03', 1250.00, 225.00, 1475.00, 0.00)
+    ),
+    actual AS (
+      SELECT * FROM public.build_loan_schedule(10000, 18, 'flat', 8, 'weekly', DATE '2025-01-06')
+    )
+    (SELECT * FROM expected EXCEPT SELECT * FROM actual)
+    UNION ALL
+    (SELECT * FROM actual EXCEPT SELECT * FROM expected)
+  ) THEN
+    RAISE EXCEPTION 'Test 1 failed: build_loan_schedule disagrees with the client engine (%)', 'Flat 18% over 8 weeks';
+  END IF;
+END $$;
+
+-- Test 2: Flat 25% over 12 days, uneven split
+DO $$
+BEGIN
+  IF EXISTS (
+    WITH expected(installment_number, due_date, principal_amount, interest_amount, total_amount, balance_after) AS (
+      VALUES
+        (1, DATE '2025-02-02', 1028.75, 257.19, 1285.94, 11316.25),
+        (2, DATE '2025-02-03', 1028.75, 257.19, 1285.94, 10287.50),
+        (3, DATE '2025-02-04', 1028.75, 257.19, 1285.94, 9258.75),
+        (4, DATE '2025-02-05', 1028.75, 257.19, 1285.94, 8230.00),
+        (5, DATE '2025-02-06', 1028.75, 257.19, 1285.94, 7201.25),
+        (6, DATE '2025-02-07', 1028.75, 257.19, 1285.94, 6172.50),
+        (7, DATE '2025-02-08', 1028.75, 257.19, 1285.94, 5143.75),
+        (8, DATE '2025-02-09', 1028.75, 257.19, 1285.94, 4115.00),
+        (9, DATE '2025-02-10', 1028.75, 257.19, 1285.94, 3086.25),
+        (10, DATE '2025-02-11', 1028.75, 257.19, 1285.94, 2057.50),
+        (11, DATE '2025-02-12', 1028.75, 257.19, 1285.94, 1028.75),
+        (12, DATE '2025-02-13', 1028.75, 257.16, 1285.91, 0.00)
+    ),
+    actual AS (
+      SELECT * FROM public.build_loan_schedule(12345, 25, 'flat', 12, 'daily', DATE '2025-02-01')
+    )
+    (SELECT * FROM expected EXCEPT SELECT * FROM actual)
+    UNION ALL
+    (SELECT * FROM actual EXCEPT SELECT * FROM expected)
+  ) THEN
+    RAISE EXCEPTION 'Test 2 failed: build_loan_schedule disagrees with the client engine (%)', 'Flat 25% over 12 days, uneven split';
+  END IF;
+END $$;
+
+-- Test 3: Reducing balance 3% per week over 8 weeks
+DO $$
+BEGIN
+  IF EXISTS (
+    WITH expected(installment_number, due_date, principal_amount, interest_amount, total_amount, balance_after) AS (
+      VALUES
+        (1, DATE '2025-01-13', 1124.56, 300.00, 1424.56, 8875.44),
+        (2, DATE '2025-01-20', 1158.30, 266.26, 1424.56, 7717.14),
+        (3, DATE '2025-01-27', 1193.05, 231.51, 1424.56, 6524.09),
+        (4, DATE '2025-02-03', 1228.84, 195.72, 1424.56, 5295.25),
+        (5, DATE '2025-02-10', 1265.70, 158.86, 1424.56, 4029.55),
+        (6, DATE '2025-02-17', 1303.67, 120.89, 1424.56, 2725.88),
+        (7, DATE '2025-02-24', 1342.78, 81.78, 1424.56, 1383.10),
+        (8, DATE '2025-03-03', 1383.10, 41.49, 1424.59, 0.00)
+    ),
+    actual AS (
+      SELECT * FROM public.build_loan_schedule(10000, 3, 'reducing_balance', 8, 'weekly', DATE '2025-01-06')
+    )
+    (SELECT * FROM expected EXCEPT SELECT * FROM actual)
+    UNION ALL
+    (SELECT * FROM actual EXCEPT SELECT * FROM expected)
+  ) THEN
+    RAISE EXCEPTION 'Test 3 failed: build_loan_schedule disagrees with the client engine (%)', 'Reducing balance 3% per week over 8 weeks';
+  END IF;
+END $$;
+
+-- Test 4: Reducing balance 2.5% per month over 12 months from a month end
+DO $$
+BEGIN
+  IF EXISTS (
+    WITH expected(installment_number, due_date, principal_amount, interest_amount, total_amount, balance_after) AS (
+      VALUES
+        (1, DATE '2025-02-28', 1812.18, 625.00, 2437.18, 23187.82),
+        (2, DATE '2025-03-31', 1857.48, 579.70, 2437.18, 21330.34),
+        (3, DATE '2025-04-30', 1903.92, 533.26, 2437.18, 19426.42),
+        (4, DATE '2025-05-31', 1951.52, 485.66, 2437.18, 17474.90),
+        (5, DATE '2025-06-30', 2000.31, 436.87, 2437.18, 15474.59),
+        (6, DATE '2025-07-31', 2050.32, 386.86, 2437.18, 13424.27),
+        (7, DATE '2025-08-31', 2101.57, 335.61, 2437.18, 11322.70),
+        (8, DATE '2025-09-30', 2154.11, 283.07, 2437.18, 9168.59),
+        (9, DATE '2025-10-31', 2207.97, 229.21, 2437.18, 6960.62),
+        (10, DATE '2025-11-30', 2263.16, 174.02, 2437.18, 4697.46),
+        (11, DATE '2025-12-31', 2319.74, 117.44, 2437.18, 2377.72),
+        (12, DATE '2026-01-31', 2377.72, 59.44, 2437.16, 0.00)
+    ),
+    actual AS (
+      SELECT * FROM public.build_loan_schedule(25000, 2.5, 'reducing_balance', 12, 'monthly', DATE '2025-01-31')
+    )
+    (SELECT * FROM expected EXCEPT SELECT * FROM actual)
+    UNION ALL
+    (SELECT * FROM actual EXCEPT SELECT * FROM expected)
+  ) THEN
+    RAISE EXCEPTION 'Test 4 failed: build_loan_schedule disagrees with the client engine (%)', 'Reducing balance 2.5% per month over 12 months from a month end';
+  END IF;
+END $$;
+
+-- Test 5: Interest only 4% per week over 4 weeks
+DO $$
+BEGIN
+  IF EXISTS (
+    WITH expected(installment_number, due_date, principal_amount, interest_amount, total_amount, balance_after) AS (
+      VALUES
+        (1, DATE '2025-03-10', 0.00, 311.08, 311.08, 7777.00),
+        (2, DATE '2025-03-17', 0.00, 311.08, 311.08, 7777.00),
+        (3, DATE '2025-03-24', 0.00, 311.08, 311.08, 7777.00),
+        (4, DATE '2025-03-31', 7777.00, 311.08, 8088.08, 0.00)
+    ),
+    actual AS (
+      SELECT * FROM public.build_loan_schedule(7777, 4, 'interest_only', 4, 'weekly', DATE '2025-03-03')
+    )
+    (SELECT * FROM expected EXCEPT SELECT * FROM actual)
+    UNION ALL
+    (SELECT * FROM actual EXCEPT SELECT * FROM expected)
+  ) THEN
+    RAISE EXCEPTION 'Test 5 failed: build_loan_schedule disagrees with the client engine (%)', 'Interest only 4% per week over 4 weeks';
+  END IF;
+END $$;
+
+-- Test 6: calculate_loan_details matches the engine's total interest for every product
+DO $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  SELECT lp.code INTO v_code
+  FROM public.loan_products lp
+    CROSS JOIN LATERAL public.calculate_loan_details(lp.min_amount + 1000, lp.code) d
+    CROSS JOIN LATERAL public.build_loan_schedule(
+      lp.min_amount + 1000, lp.interest_rate, lp.interest_method, lp.term_lengths[1], lp.allowed_installment_types[1]
+    ) s
+  GROUP BY lp.code, d.interest_amount
+  HAVING d.interest_amount <> SUM(s.interest_amount)
+  LIMIT 1;
+
+  IF v_code IS NOT NULL THEN
+    RAISE EXCEPTION 'Test 6 failed: calculate_loan_details disagrees with the schedule for product %', v_code;
+  END IF;
+END $$;
+
+-- Test 7: stored installments add back up to each loan's principal
+DO $$
+DECLARE
+  v_loan_id UUID;
+BEGIN
+  SELECT l.id INTO v_loan_id
+  FROM public.loans l
+    JOIN public.loan_installments i ON i.loan_id = l.id
+  GROUP BY l.id, l.principal_amount
+  HAVING SUM(i.principal_amount) <> l.principal_amount
+  LIMIT 1;
+
+  IF v_loan_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Test 7 failed: installments of loan % do not add up to its principal', v_loan_id;
+  END IF;
+END $$;
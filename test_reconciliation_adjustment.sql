@@ -0,0 +1,78 @@
+-- Reconciliation adjustment test
+-- Opens a reconciliation with two unresolved lines, then signs in as an admin and
+-- posts a credit adjustment on one and a debit adjustment on the other. Everything
+-- runs in one transaction and is rolled back, so it is safe to run against a
+-- database with real data.
+-- Each test is a DO block that raises an exception when an adjustment is stored
+-- with the wrong sign; the script finishes silently when both are right.
+-- Run it as postgres (the SQL editor does): it switches to the authenticated role
+-- and sets the JWT claims itself.
+
+BEGIN;
+
+-- Fixtures
+INSERT INTO auth.users (id, instance_id, aud, role, email, encrypted_password, raw_user_meta_data, created_at, updated_at)
+VALUES ('00000000-0000-4000-a000-0000000000d1', '00000000-0000-0000-0000-000000000000', 'authenticated', 'authenticated', 'admin@reconciliation.test', '', '{"full_name":"Reconciliation Admin"}', NOW(), NOW());
+
+-- The signup trigger may already have created the profile
+INSERT INTO public.profiles (id, email, full_name, role, is_active)
+VALUES ('00000000-0000-4000-a000-0000000000d1', 'admin@reconciliation.test', 'Reconciliation Admin', 'admin', TRUE)
+ON CONFLICT (id) DO UPDATE
+  SET role = EXCLUDED.role, is_active = TRUE;
+
+INSERT INTO public.statement_reconciliations (id, source, file_name, period_start, period_end)
+VALUES ('00000000-0000-4000-f000-0000000000d1', 'bank', 'adjustment-test.csv', CURRENT_DATE - 7, CURRENT_DATE);
+
+INSERT INTO public.statement_reconciliation_lines (id, reconciliation_id, line_number, transaction_date, reference, amount, match_status, difference)
+VALUES
+  ('00000000-0000-4000-f000-0000000000d2', '00000000-0000-4000-f000-0000000000d1', 1, CURRENT_DATE - 1, 'REC-TEST-CREDIT', 500, 'missing', 500),
+  ('00000000-0000-4000-f000-0000000000d3', '00000000-0000-4000-f000-0000000000d1', 2, CURRENT_DATE - 1, 'REC-TEST-DEBIT', 300, 'mismatched', -300);
+
+-- Sign in as the admin
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"00000000-0000-4000-a000-0000000000d1","role":"authenticated","aal":"aal2"}', true);
+
+-- Test 1: A credit adjustment is stored positive
+DO $$
+DECLARE
+  v_transaction_id UUID;
+  v_amount DECIMAL;
+BEGIN
+  v_transaction_id := public.post_reconciliation_adjustment(
+    '00000000-0000-4000-f000-0000000000d2', NULL, 500, 'credit', 'Deposit missing from the system'
+  );
+  SELECT amount INTO v_amount FROM public.transactions WHERE id = v_transaction_id;
+  IF v_amount IS DISTINCT FROM 500::DECIMAL THEN
+    RAISE EXCEPTION 'Test 1 failed: credit adjustment stored as %', v_amount;
+  END IF;
+END $$;
+
+-- Test 2: A debit adjustment is stored negative
+DO $$
+DECLARE
+  v_transaction_id UUID;
+  v_amount DECIMAL;
+BEGIN
+  v_transaction_id := public.post_reconciliation_adjustment(
+    '00000000-0000-4000-f000-0000000000d3', NULL, 300, 'debit', 'Bank charge not in the system'
+  );
+  SELECT amount INTO v_amount FROM public.transactions WHERE id = v_transaction_id;
+  IF v_amount IS DISTINCT FROM -300::DECIMAL THEN
+    RAISE EXCEPTION 'Test 2 failed: debit adjustment stored as %', v_amount;
+  END IF;
+END $$;
+
+-- Test 3: Together they net to the difference between the two
+DO $$
+BEGIN
+  IF (
+    SELECT SUM(t.amount)
+    FROM public.statement_reconciliation_lines srl
+      JOIN public.transactions t ON t.id = srl.adjustment_transaction_id
+    WHERE srl.reconciliation_id = '00000000-0000-4000-f000-0000000000d1'
+  ) IS DISTINCT FROM 200::DECIMAL THEN
+    RAISE EXCEPTION 'Test 3 failed: the adjustments do not net to 200';
+  END IF;
+END $$;
+
+ROLLBACK;